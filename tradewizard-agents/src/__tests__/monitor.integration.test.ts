@@ -60,6 +60,24 @@ function createMockDatabase(): DatabasePersistence {
     getMarketsForUpdate: vi.fn().mockResolvedValue([]),
     markMarketResolved: vi.fn().mockResolvedValue(undefined),
     getLatestRecommendation: vi.fn().mockResolvedValue(null),
+    getOpeningRecommendation: vi.fn().mockResolvedValue(null),
+    getOpenRecommendations: vi.fn().mockResolvedValue([]),
+    storePortfolioAllocation: vi.fn().mockResolvedValue('mock-allocation-run-id'),
+    getAgentPerformanceLedger: vi.fn().mockResolvedValue([]),
+    getFusionTrainingExamples: vi.fn().mockResolvedValue([]),
+    storeFusionWeightSet: vi.fn().mockResolvedValue('mock-weight-set-id'),
+    getFusionWeightSet: vi.fn().mockResolvedValue(null),
+    getCalibrationExamples: vi.fn().mockResolvedValue([]),
+    storeCalibrationModelSet: vi.fn().mockResolvedValue('mock-calibration-id'),
+    getCalibrationModelSet: vi.fn().mockResolvedValue(null),
+    getSourceOutcomes: vi.fn().mockResolvedValue([]),
+    storeArbitrageOpportunities: vi.fn().mockResolvedValue('scan-id'),
+    getArbitrageOpportunities: vi.fn().mockResolvedValue([]),
+    storePositionAdvice: vi.fn().mockResolvedValue('advice-id'),
+    getLatestPositionAdvice: vi.fn().mockResolvedValue([]),
+    recordAnalysisSpend: vi.fn().mockResolvedValue(undefined),
+    getAnalysisSpend: vi.fn().mockResolvedValue(0),
+    getEdgeHistory: vi.fn().mockResolvedValue({}),
   };
 }
 
@@ -34,7 +34,7 @@ describe('NewsData Tools Infrastructure', () => {
   beforeEach(() => {
     auditLog = [];
     mockContext = {
-      newsDataClient: {} as any,
+      newsClient: {} as any,
       cache: new ToolCache('test-session'),
       auditLog,
       agentName: 'test-agent',
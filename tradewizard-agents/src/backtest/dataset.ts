@@ -0,0 +1,187 @@
+/**
+ * Backtest Dataset
+ *
+ * Defines the on-disk format for historical market snapshots used by the
+ * backtest harness, plus helpers to load and validate datasets and
+ * configuration variants.
+ *
+ * A dataset is a JSON file:
+ *
+ * {
+ *   "name": "2024-elections",
+ *   "snapshots": [
+ *     {
+ *       "id": "senate-pa-2024-10-01",
+ *       "mbd": { ...MarketBriefingDocument as seen at snapshot time... },
+ *       "outcome": "YES",
+ *       "resolvedAt": 1730851200000,
+ *       "externalData": { "news": [...], "polling": {...}, "dataFreshness": {} },
+ *       "recordedSignals": { "polling_intelligence": { "fairProbability": 0.61, ... } },
+ *       "recordedResponses": { "thesis_construction": { "coreArgument": "..." } }
+ *     }
+ *   ]
+ * }
+ */
+
+import { readFile } from 'fs/promises';
+import { z } from 'zod';
+import { MarketBriefingDocumentSchema } from '../models/schemas.js';
+import type { MarketBriefingDocument } from '../models/types.js';
+import type { GraphStateType } from '../models/state.js';
+import type { EngineConfig } from '../config/index.js';
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/**
+ * Agent output recorded for a snapshot (replayed by the deterministic LLM)
+ */
+const RecordedSignalSchema = z.object({
+  fairProbability: z.number().min(0).max(1),
+  confidence: z.number().min(0).max(1).default(0.5),
+  direction: z.enum(['YES', 'NO', 'NEUTRAL']).optional(),
+  keyDrivers: z.array(z.string()).optional(),
+  riskFactors: z.array(z.string()).optional(),
+});
+
+/**
+ * A single historical snapshot with its resolved outcome
+ */
+const BacktestSnapshotSchema = z.object({
+  id: z.string().min(1),
+  mbd: MarketBriefingDocumentSchema,
+  outcome: z.enum(['YES', 'NO']),
+  resolvedAt: z.number().positive().optional(),
+  externalData: z
+    .object({
+      news: z.array(z.any()).optional(),
+      polling: z.any().optional(),
+      social: z.any().optional(),
+      dataFreshness: z.record(z.string(), z.number()).default({}),
+    })
+    .optional(),
+  recordedSignals: z.record(z.string(), RecordedSignalSchema).default({}),
+  recordedResponses: z
+    .record(z.string(), z.union([z.string(), z.record(z.string(), z.unknown())]))
+    .default({}),
+});
+
+/**
+ * Complete backtest dataset
+ */
+const BacktestDatasetSchema = z.object({
+  name: z.string().default('unnamed-dataset'),
+  snapshots: z.array(BacktestSnapshotSchema).min(1),
+});
+
+/**
+ * A named configuration variant to evaluate
+ */
+const BacktestConfigurationSchema = z.object({
+  name: z.string().min(1),
+  overrides: z.record(z.string(), z.any()).default({}),
+});
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RecordedSignal = z.infer<typeof RecordedSignalSchema>;
+
+/**
+ * Historical snapshot with resolution outcome and recorded inputs
+ */
+export interface BacktestSnapshot {
+  id: string;
+  mbd: MarketBriefingDocument;
+  outcome: 'YES' | 'NO';
+  resolvedAt?: number;
+  externalData?: GraphStateType['externalData'];
+  recordedSignals: Record<string, RecordedSignal>;
+  recordedResponses: Record<string, string | Record<string, unknown>>;
+}
+
+/**
+ * Backtest dataset
+ */
+export interface BacktestDataset {
+  name: string;
+  snapshots: BacktestSnapshot[];
+}
+
+/**
+ * Configuration variant evaluated by the backtest
+ */
+export interface BacktestConfiguration {
+  name: string;
+  overrides: Partial<EngineConfig>;
+}
+
+// ============================================================================
+// Loaders
+// ============================================================================
+
+/**
+ * Parse and validate a backtest dataset
+ *
+ * @param raw - Parsed JSON value
+ * @returns Validated dataset
+ * @throws Error describing the first validation issue
+ */
+export function parseBacktestDataset(raw: unknown): BacktestDataset {
+  const result = BacktestDatasetSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid backtest dataset at ${issue.path.join('.')}: ${issue.message}`);
+  }
+
+  const ids = new Set<string>();
+  for (const snapshot of result.data.snapshots) {
+    if (ids.has(snapshot.id)) {
+      throw new Error(`Invalid backtest dataset: duplicate snapshot id '${snapshot.id}'`);
+    }
+    ids.add(snapshot.id);
+  }
+
+  return result.data as BacktestDataset;
+}
+
+/**
+ * Parse and validate a list of configuration variants
+ *
+ * @param raw - Parsed JSON value (array of { name, overrides })
+ * @returns Validated configuration variants
+ * @throws Error describing the first validation issue
+ */
+export function parseBacktestConfigurations(raw: unknown): BacktestConfiguration[] {
+  const result = z.array(BacktestConfigurationSchema).min(1).safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid backtest configurations at ${issue.path.join('.')}: ${issue.message}`);
+  }
+
+  return result.data as BacktestConfiguration[];
+}
+
+/**
+ * Load a backtest dataset from a JSON file
+ *
+ * @param path - Path to dataset file
+ * @returns Validated dataset
+ */
+export async function loadBacktestDataset(path: string): Promise<BacktestDataset> {
+  const content = await readFile(path, 'utf-8');
+  return parseBacktestDataset(JSON.parse(content));
+}
+
+/**
+ * Load configuration variants from a JSON file
+ *
+ * @param path - Path to configuration file
+ * @returns Validated configuration variants
+ */
+export async function loadBacktestConfigurations(path: string): Promise<BacktestConfiguration[]> {
+  const content = await readFile(path, 'utf-8');
+  return parseBacktestConfigurations(JSON.parse(content));
+}
@@ -0,0 +1,265 @@
+/**
+ * Deterministic Chat Model
+ *
+ * A LangChain chat model that never calls a provider. Every response is produced
+ * by a caller-supplied responder function, so a full workflow run is reproducible
+ * and can execute offline (backtests, CI).
+ *
+ * The model supports the three ways nodes talk to LLMs in this codebase:
+ * - `withStructuredOutput(schema)`: the base implementation binds an `extract` tool
+ *   whose parameters are the JSON schema; we answer with a tool call whose args are
+ *   synthesized from that schema and overlaid with responder hints.
+ * - `invoke(messages)`: plain text content from the responder.
+ * - `createReactAgent({ llm, tools })`: tools are bound but never called, so the
+ *   ReAct loop terminates after a single text response.
+ */
+
+import { BaseChatModel, type BaseChatModelParams } from '@langchain/core/language_models/chat_models';
+import { AIMessageChunk, type BaseMessage } from '@langchain/core/messages';
+import type { ChatResult } from '@langchain/core/outputs';
+import { getCurrentGraphNode } from '../utils/graph-node-context.js';
+
+/**
+ * JSON schema fragment (as produced by zod's JSON schema conversion)
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Request passed to a deterministic responder
+ */
+export interface DeterministicLLMRequest {
+  /** LangGraph node that issued the call (top-level node for nested ReAct agents) */
+  node: string | null;
+  /** Messages sent to the model */
+  messages: BaseMessage[];
+  /** JSON schema of the expected structured output, or null for plain text calls */
+  schema: JsonSchema | null;
+}
+
+/**
+ * Responder output
+ *
+ * - For structured calls: an object of hints merged into the schema-synthesized value
+ *   (hints whose type or enum does not match the schema are ignored).
+ * - For plain calls: a string is returned verbatim, an object is serialized as JSON.
+ */
+export type DeterministicLLMResponse = Record<string, unknown> | string;
+
+/**
+ * Function that produces the model's response for a request
+ */
+export type DeterministicResponder = (request: DeterministicLLMRequest) => DeterministicLLMResponse;
+
+/**
+ * Name of the tool bound by BaseChatModel.withStructuredOutput()
+ */
+const STRUCTURED_OUTPUT_TOOL = 'extract';
+
+/**
+ * Placeholder text used for synthesized string fields
+ */
+const PLACEHOLDER_TEXT = 'Deterministic backtest response';
+
+/**
+ * Bound tool shape as passed through bindTools()
+ */
+type BoundTool = {
+  name?: string;
+  function?: { name?: string; parameters?: JsonSchema };
+};
+
+/**
+ * Chat model whose output is fully determined by a responder function
+ */
+export class DeterministicChatModel extends BaseChatModel {
+  private readonly responder: DeterministicResponder;
+  private readonly boundTools: BoundTool[];
+
+  constructor(responder: DeterministicResponder, boundTools: BoundTool[] = [], params: BaseChatModelParams = {}) {
+    super(params);
+    this.responder = responder;
+    this.boundTools = boundTools;
+  }
+
+  _llmType(): string {
+    return 'deterministic';
+  }
+
+  bindTools(tools: unknown[]): DeterministicChatModel {
+    return new DeterministicChatModel(this.responder, tools as BoundTool[]);
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const node = getCurrentGraphNode();
+    const structuredTool = this.boundTools.find(
+      (tool) => tool.function?.name === STRUCTURED_OUTPUT_TOOL
+    );
+
+    let message: AIMessageChunk;
+
+    if (structuredTool) {
+      const schema = structuredTool.function?.parameters ?? { type: 'object' };
+      const response = this.responder({ node, messages, schema });
+      const hints = typeof response === 'string' ? parseJsonObject(response) : response;
+      const args = synthesizeFromJsonSchema(schema, hints) as Record<string, unknown>;
+
+      message = new AIMessageChunk({
+        content: '',
+        tool_calls: [
+          {
+            name: STRUCTURED_OUTPUT_TOOL,
+            args,
+            id: `deterministic_${node ?? 'call'}`,
+            type: 'tool_call',
+          },
+        ],
+      });
+    } else {
+      const response = this.responder({ node, messages, schema: null });
+      message = new AIMessageChunk(
+        typeof response === 'string' ? response : JSON.stringify(response)
+      );
+    }
+
+    return {
+      generations: [
+        {
+          text: typeof message.content === 'string' ? message.content : '',
+          message,
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Synthesize a value that satisfies a JSON schema
+ *
+ * Produces the simplest valid value for each type (midpoint numbers, first enum
+ * member, placeholder strings padded to minLength, minItems array entries) and
+ * overlays hints by property name wherever the hint is compatible with the schema.
+ *
+ * @param schema - JSON schema to satisfy
+ * @param hints - Property-name keyed values to prefer over synthesized defaults
+ * @returns Synthesized value
+ */
+export function synthesizeFromJsonSchema(
+  schema: JsonSchema,
+  hints: Record<string, unknown> = {}
+): unknown {
+  if ('const' in schema) {
+    return schema.const;
+  }
+
+  const enumValues = Array.isArray(schema.enum) ? schema.enum : null;
+  if (enumValues && enumValues.length > 0) {
+    return enumValues[0];
+  }
+
+  const variants = (schema.anyOf ?? schema.oneOf) as JsonSchema[] | undefined;
+  if (Array.isArray(variants) && variants.length > 0) {
+    const nonNull = variants.find((variant) => variant.type !== 'null') ?? variants[0];
+    return synthesizeFromJsonSchema(nonNull, hints);
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.find((t) => t !== 'null') : schema.type;
+
+  switch (type) {
+    case 'object': {
+      const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+      const result: Record<string, unknown> = {};
+      for (const [key, propertySchema] of Object.entries(properties)) {
+        const hint = hints[key];
+        result[key] =
+          hint !== undefined && isCompatible(propertySchema, hint)
+            ? hint
+            : synthesizeFromJsonSchema(propertySchema, hints);
+      }
+      return result;
+    }
+    case 'array': {
+      const minItems = typeof schema.minItems === 'number' ? schema.minItems : 0;
+      const itemSchema = (schema.items ?? {}) as JsonSchema;
+      return Array.from({ length: minItems }, () => synthesizeFromJsonSchema(itemSchema, hints));
+    }
+    case 'number':
+    case 'integer': {
+      const min = typeof schema.minimum === 'number' ? schema.minimum : undefined;
+      const max = typeof schema.maximum === 'number' ? schema.maximum : undefined;
+      let value = min !== undefined && max !== undefined ? (min + max) / 2 : min ?? max ?? 0;
+      if (type === 'integer') {
+        value = Math.ceil(value);
+      }
+      return value;
+    }
+    case 'boolean':
+      return false;
+    case 'string': {
+      const minLength = typeof schema.minLength === 'number' ? schema.minLength : 0;
+      return PLACEHOLDER_TEXT.padEnd(minLength, '.');
+    }
+    case 'null':
+      return null;
+    default:
+      return {};
+  }
+}
+
+/**
+ * Check whether a hint value is acceptable for a JSON schema property
+ */
+function isCompatible(schema: JsonSchema, value: unknown): boolean {
+  if (Array.isArray(schema.enum)) {
+    return schema.enum.includes(value);
+  }
+
+  const variants = (schema.anyOf ?? schema.oneOf) as JsonSchema[] | undefined;
+  if (Array.isArray(variants)) {
+    return variants.some((variant) => isCompatible(variant, value));
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+
+  return types.some((type) => {
+    switch (type) {
+      case 'number':
+      case 'integer':
+        return (
+          typeof value === 'number' &&
+          (typeof schema.minimum !== 'number' || value >= schema.minimum) &&
+          (typeof schema.maximum !== 'number' || value <= schema.maximum)
+        );
+      case 'string':
+        return (
+          typeof value === 'string' &&
+          (typeof schema.minLength !== 'number' || value.length >= schema.minLength)
+        );
+      case 'boolean':
+        return typeof value === 'boolean';
+      case 'array':
+        return (
+          Array.isArray(value) &&
+          (typeof schema.minItems !== 'number' || value.length >= schema.minItems) &&
+          (typeof schema.maxItems !== 'number' || value.length <= schema.maxItems)
+        );
+      case 'object':
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+      case 'null':
+        return value === null;
+      default:
+        return type === undefined;
+    }
+  });
+}
+
+/**
+ * Parse a JSON object from a string, returning an empty object on failure
+ */
+function parseJsonObject(text: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(text);
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
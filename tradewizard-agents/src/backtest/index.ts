@@ -0,0 +1,47 @@
+/**
+ * Backtest harness
+ *
+ * Offline replay of the workflow against historical market snapshots with
+ * Brier score, log loss, calibration and simulated P&L reporting.
+ */
+
+export {
+  DeterministicChatModel,
+  synthesizeFromJsonSchema,
+  type DeterministicLLMRequest,
+  type DeterministicLLMResponse,
+  type DeterministicResponder,
+  type JsonSchema,
+} from './deterministic-chat-model.js';
+export {
+  parseBacktestDataset,
+  parseBacktestConfigurations,
+  loadBacktestDataset,
+  loadBacktestConfigurations,
+  type BacktestDataset,
+  type BacktestSnapshot,
+  type BacktestConfiguration,
+  type RecordedSignal,
+} from './dataset.js';
+export {
+  calculateBrierScore,
+  calculateLogLoss,
+  calculateCalibrationBuckets,
+  simulatePnL,
+  computeBacktestMetrics,
+  type BacktestPrediction,
+  type BacktestMetrics,
+  type CalibrationBucket,
+  type SimulatedPnL,
+} from './metrics.js';
+export {
+  runBacktest,
+  runBacktestSnapshot,
+  createSnapshotResponder,
+  createSnapshotPolymarketClient,
+  createBacktestConfig,
+  type BacktestOptions,
+  type BacktestReport,
+  type BacktestConfigurationResult,
+  type BacktestSnapshotResult,
+} from './runner.js';
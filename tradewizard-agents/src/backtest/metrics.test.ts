@@ -0,0 +1,133 @@
+/**
+ * Unit tests for backtest metrics
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateBrierScore,
+  calculateLogLoss,
+  calculateCalibrationBuckets,
+  simulatePnL,
+  computeBacktestMetrics,
+  type BacktestPrediction,
+} from './metrics.js';
+
+describe('Backtest Metrics', () => {
+  describe('calculateBrierScore', () => {
+    it('should return 0 for perfect predictions', () => {
+      expect(
+        calculateBrierScore([
+          { probability: 1, outcome: 'YES' },
+          { probability: 0, outcome: 'NO' },
+        ])
+      ).toBe(0);
+    });
+
+    it('should return the mean squared error', () => {
+      expect(
+        calculateBrierScore([
+          { probability: 0.7, outcome: 'YES' },
+          { probability: 0.4, outcome: 'NO' },
+        ])
+      ).toBeCloseTo((0.09 + 0.16) / 2, 10);
+    });
+
+    it('should return NaN for empty input', () => {
+      expect(calculateBrierScore([])).toBeNaN();
+    });
+  });
+
+  describe('calculateLogLoss', () => {
+    it('should match ln(2) for coin-flip predictions', () => {
+      expect(
+        calculateLogLoss([
+          { probability: 0.5, outcome: 'YES' },
+          { probability: 0.5, outcome: 'NO' },
+        ])
+      ).toBeCloseTo(Math.LN2, 10);
+    });
+
+    it('should stay finite for confidently wrong predictions', () => {
+      const loss = calculateLogLoss([{ probability: 0, outcome: 'YES' }]);
+      expect(Number.isFinite(loss)).toBe(true);
+      expect(loss).toBeGreaterThan(10);
+    });
+  });
+
+  describe('calculateCalibrationBuckets', () => {
+    it('should group predictions and omit empty buckets', () => {
+      const buckets = calculateCalibrationBuckets(
+        [
+          { probability: 0.12, outcome: 'NO' },
+          { probability: 0.18, outcome: 'YES' },
+          { probability: 0.95, outcome: 'YES' },
+          { probability: 1, outcome: 'YES' },
+        ],
+        10
+      );
+
+      expect(buckets).toHaveLength(2);
+      expect(buckets[0]).toMatchObject({ lowerBound: 0.1, count: 2, observedFrequency: 0.5 });
+      expect(buckets[0].meanPredicted).toBeCloseTo(0.15, 10);
+      expect(buckets[1]).toMatchObject({ upperBound: 1, count: 2, observedFrequency: 1 });
+    });
+  });
+
+  describe('simulatePnL', () => {
+    const prediction = (
+      action: BacktestPrediction['action'],
+      marketProbability: number,
+      outcome: 'YES' | 'NO'
+    ): BacktestPrediction => ({
+      snapshotId: `${action}-${outcome}`,
+      predictedProbability: 0.5,
+      marketProbability,
+      outcome,
+      action,
+    });
+
+    it('should pay out stake / price on winning trades', () => {
+      const pnl = simulatePnL([prediction('LONG_YES', 0.25, 'YES')], 100);
+      expect(pnl.totalPnL).toBeCloseTo(300, 10);
+      expect(pnl.wins).toBe(1);
+    });
+
+    it('should price LONG_NO at 1 - market probability', () => {
+      const pnl = simulatePnL([prediction('LONG_NO', 0.75, 'NO')], 100);
+      expect(pnl.totalPnL).toBeCloseTo(300, 10);
+    });
+
+    it('should lose the stake on losing trades and skip NO_TRADE', () => {
+      const pnl = simulatePnL(
+        [prediction('LONG_YES', 0.6, 'NO'), prediction('NO_TRADE', 0.6, 'YES')],
+        50
+      );
+      expect(pnl).toMatchObject({ trades: 1, wins: 0, totalStaked: 50, totalPnL: -50, roi: -1 });
+    });
+
+    it('should skip trades priced at 0 or 1', () => {
+      const pnl = simulatePnL([prediction('LONG_YES', 0, 'YES'), prediction('LONG_NO', 0, 'NO')]);
+      expect(pnl.trades).toBe(0);
+      expect(pnl.roi).toBe(0);
+    });
+  });
+
+  describe('computeBacktestMetrics', () => {
+    it('should score both the model and the market', () => {
+      const metrics = computeBacktestMetrics([
+        {
+          snapshotId: 'a',
+          predictedProbability: 0.8,
+          marketProbability: 0.6,
+          outcome: 'YES',
+          action: 'LONG_YES',
+        },
+      ]);
+
+      expect(metrics.predictions).toBe(1);
+      expect(metrics.brierScore).toBeCloseTo(0.04, 10);
+      expect(metrics.marketBrierScore).toBeCloseTo(0.16, 10);
+      expect(metrics.pnl.trades).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Backtest Metrics
+ *
+ * Scoring functions for probabilistic forecasts against resolved outcomes:
+ * Brier score, log loss, calibration buckets and simulated trading P&L.
+ */
+
+import type { TradeAction } from '../models/types.js';
+
+/**
+ * A single scored prediction
+ */
+export interface BacktestPrediction {
+  snapshotId: string;
+  /** Predicted probability of YES (0-1) */
+  predictedProbability: number;
+  /** Market-implied probability of YES at snapshot time (0-1) */
+  marketProbability: number;
+  /** Resolved outcome */
+  outcome: 'YES' | 'NO';
+  /** Recommended action */
+  action: TradeAction;
+}
+
+/**
+ * Calibration bucket
+ */
+export interface CalibrationBucket {
+  lowerBound: number;
+  upperBound: number;
+  count: number;
+  meanPredicted: number;
+  observedFrequency: number;
+}
+
+/**
+ * Simulated P&L from following recommendations
+ */
+export interface SimulatedPnL {
+  stakePerTrade: number;
+  trades: number;
+  wins: number;
+  totalStaked: number;
+  totalPnL: number;
+  roi: number;
+  hitRate: number;
+}
+
+/**
+ * Aggregate metrics for one configuration
+ */
+export interface BacktestMetrics {
+  predictions: number;
+  brierScore: number;
+  logLoss: number;
+  /** Brier score of the market price itself, for comparison */
+  marketBrierScore: number;
+  calibration: CalibrationBucket[];
+  pnl: SimulatedPnL;
+}
+
+/**
+ * Probability clamp used by log loss to avoid infinite penalties
+ */
+const LOG_LOSS_EPSILON = 1e-6;
+
+/**
+ * Convert an outcome to its binary value (YES = 1, NO = 0)
+ */
+function outcomeValue(outcome: 'YES' | 'NO'): number {
+  return outcome === 'YES' ? 1 : 0;
+}
+
+/**
+ * Calculate mean Brier score: mean((p - y)^2)
+ *
+ * @param pairs - Predicted probabilities with outcomes
+ * @returns Brier score (0 = perfect, 1 = worst), or NaN for empty input
+ */
+export function calculateBrierScore(
+  pairs: Array<{ probability: number; outcome: 'YES' | 'NO' }>
+): number {
+  if (pairs.length === 0) {
+    return NaN;
+  }
+
+  const total = pairs.reduce(
+    (sum, { probability, outcome }) => sum + Math.pow(probability - outcomeValue(outcome), 2),
+    0
+  );
+  return total / pairs.length;
+}
+
+/**
+ * Calculate mean log loss: -mean(y ln p + (1 - y) ln(1 - p))
+ *
+ * Probabilities are clamped to [1e-6, 1 - 1e-6].
+ *
+ * @param pairs - Predicted probabilities with outcomes
+ * @returns Log loss (0 = perfect), or NaN for empty input
+ */
+export function calculateLogLoss(
+  pairs: Array<{ probability: number; outcome: 'YES' | 'NO' }>
+): number {
+  if (pairs.length === 0) {
+    return NaN;
+  }
+
+  const total = pairs.reduce((sum, { probability, outcome }) => {
+    const p = Math.min(1 - LOG_LOSS_EPSILON, Math.max(LOG_LOSS_EPSILON, probability));
+    const y = outcomeValue(outcome);
+    return sum - (y * Math.log(p) + (1 - y) * Math.log(1 - p));
+  }, 0);
+  return total / pairs.length;
+}
+
+/**
+ * Group predictions into equal-width probability buckets
+ *
+ * Empty buckets are omitted. A prediction of exactly 1.0 falls into the last bucket.
+ *
+ * @param pairs - Predicted probabilities with outcomes
+ * @param bucketCount - Number of buckets (default: 10)
+ * @returns Non-empty calibration buckets in ascending order
+ */
+export function calculateCalibrationBuckets(
+  pairs: Array<{ probability: number; outcome: 'YES' | 'NO' }>,
+  bucketCount: number = 10
+): CalibrationBucket[] {
+  const buckets = Array.from({ length: bucketCount }, (_, index) => ({
+    lowerBound: index / bucketCount,
+    upperBound: (index + 1) / bucketCount,
+    count: 0,
+    predictedSum: 0,
+    outcomeSum: 0,
+  }));
+
+  for (const { probability, outcome } of pairs) {
+    const index = Math.min(bucketCount - 1, Math.max(0, Math.floor(probability * bucketCount)));
+    buckets[index].count++;
+    buckets[index].predictedSum += probability;
+    buckets[index].outcomeSum += outcomeValue(outcome);
+  }
+
+  return buckets
+    .filter((bucket) => bucket.count > 0)
+    .map((bucket) => ({
+      lowerBound: bucket.lowerBound,
+      upperBound: bucket.upperBound,
+      count: bucket.count,
+      meanPredicted: bucket.predictedSum / bucket.count,
+      observedFrequency: bucket.outcomeSum / bucket.count,
+    }));
+}
+
+/**
+ * Simulate P&L from following each recommendation with a fixed stake
+ *
+ * LONG_YES buys YES shares at the market probability, LONG_NO buys NO shares at
+ * (1 - market probability). A winning position returns stake / price; a losing
+ * position loses the stake. NO_TRADE contributes nothing.
+ *
+ * @param predictions - Scored predictions with recommended actions
+ * @param stakePerTrade - Dollar stake per trade (default: 100)
+ * @returns Simulated P&L summary
+ */
+export function simulatePnL(
+  predictions: BacktestPrediction[],
+  stakePerTrade: number = 100
+): SimulatedPnL {
+  let trades = 0;
+  let wins = 0;
+  let totalPnL = 0;
+
+  for (const prediction of predictions) {
+    if (prediction.action === 'NO_TRADE') {
+      continue;
+    }
+
+    const buysYes = prediction.action === 'LONG_YES';
+    const price = buysYes ? prediction.marketProbability : 1 - prediction.marketProbability;
+
+    // A zero-priced side cannot be bought; skip rather than produce infinite returns
+    if (price <= 0 || price >= 1) {
+      continue;
+    }
+
+    trades++;
+    const won = buysYes === (prediction.outcome === 'YES');
+    if (won) {
+      wins++;
+      totalPnL += stakePerTrade * (1 / price - 1);
+    } else {
+      totalPnL -= stakePerTrade;
+    }
+  }
+
+  const totalStaked = trades * stakePerTrade;
+
+  return {
+    stakePerTrade,
+    trades,
+    wins,
+    totalStaked,
+    totalPnL,
+    roi: totalStaked > 0 ? totalPnL / totalStaked : 0,
+    hitRate: trades > 0 ? wins / trades : 0,
+  };
+}
+
+/**
+ * Compute all backtest metrics for a set of predictions
+ *
+ * @param predictions - Scored predictions
+ * @param options - Stake per trade and calibration bucket count
+ * @returns Aggregate metrics
+ */
+export function computeBacktestMetrics(
+  predictions: BacktestPrediction[],
+  options: { stakePerTrade?: number; bucketCount?: number } = {}
+): BacktestMetrics {
+  const modelPairs = predictions.map((p) => ({
+    probability: p.predictedProbability,
+    outcome: p.outcome,
+  }));
+  const marketPairs = predictions.map((p) => ({
+    probability: p.marketProbability,
+    outcome: p.outcome,
+  }));
+
+  return {
+    predictions: predictions.length,
+    brierScore: calculateBrierScore(modelPairs),
+    logLoss: calculateLogLoss(modelPairs),
+    marketBrierScore: calculateBrierScore(marketPairs),
+    calibration: calculateCalibrationBuckets(modelPairs, options.bucketCount),
+    pnl: simulatePnL(predictions, options.stakePerTrade),
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * Tests for the backtest runner
+ *
+ * The full workflow is replayed with the deterministic chat model, so these
+ * tests run offline without provider credentials.
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { createConfig, type EngineConfig } from '../config/index.js';
+import type { MarketBriefingDocument } from '../models/types.js';
+import { hasLLMInstanceOverride } from '../utils/llm-factory.js';
+import { parseBacktestDataset, type BacktestSnapshot } from './dataset.js';
+import { createBacktestConfig, createSnapshotResponder, runBacktest } from './runner.js';
+
+function createTestMBD(overrides: Partial<MarketBriefingDocument> = {}): MarketBriefingDocument {
+  return {
+    marketId: 'backtest-market-001',
+    conditionId: 'backtest-condition-001',
+    eventType: 'election',
+    question: 'Will the incumbent win the 2024 election?',
+    resolutionCriteria: 'Resolves YES if the incumbent is declared the winner',
+    expiryTimestamp: Date.now() + 30 * 24 * 60 * 60 * 1000,
+    currentProbability: 0.4,
+    liquidityScore: 7,
+    bidAskSpread: 2,
+    volatilityRegime: 'medium',
+    volume24h: 250000,
+    metadata: {
+      ambiguityFlags: [],
+      keyCatalysts: [],
+    },
+    ...overrides,
+  };
+}
+
+function createTestSnapshot(overrides: Partial<BacktestSnapshot> = {}): BacktestSnapshot {
+  return {
+    id: 'snapshot-001',
+    mbd: createTestMBD(),
+    outcome: 'YES',
+    recordedSignals: {
+      market_microstructure: { fairProbability: 0.7, confidence: 0.8 },
+      probability_baseline: { fairProbability: 0.65, confidence: 0.7 },
+    },
+    recordedResponses: {},
+    ...overrides,
+  };
+}
+
+describe('Backtest Runner', () => {
+  let baseConfig: EngineConfig;
+
+  beforeAll(() => {
+    // Environment-specific defaults are only defined for development/staging/production
+    const nodeEnv = process.env.NODE_ENV;
+    process.env.NODE_ENV = 'development';
+    baseConfig = createConfig({
+      llm: {
+        singleProvider: 'openai',
+        openai: {
+          apiKey: 'test-key',
+          defaultModel: 'gpt-4o-mini',
+        },
+      },
+      agents: {
+        timeoutMs: 10000,
+        minAgentsRequired: 2,
+      },
+    });
+    process.env.NODE_ENV = nodeEnv;
+  });
+
+  describe('createSnapshotResponder', () => {
+    it('should prefer recorded responses for a node', () => {
+      const responder = createSnapshotResponder(
+        createTestSnapshot({ recordedResponses: { thesis_construction: { coreArgument: 'x' } } })
+      );
+
+      expect(responder({ node: 'thesis_construction', messages: [], schema: {} })).toEqual({
+        coreArgument: 'x',
+      });
+    });
+
+    it('should replay recorded agent signals by node name', () => {
+      const responder = createSnapshotResponder(createTestSnapshot());
+      const hints = responder({ node: 'market_microstructure_agent', messages: [], schema: {} });
+
+      expect(hints).toMatchObject({ fairProbability: 0.7, confidence: 0.8, direction: 'YES' });
+    });
+
+    it('should fall back to the market probability', () => {
+      const responder = createSnapshotResponder(createTestSnapshot());
+      const response = responder({ node: 'unknown_node', messages: [], schema: null });
+
+      expect(typeof response).toBe('string');
+      expect(JSON.parse(response as string)).toMatchObject({
+        fairProbability: 0.4,
+        direction: 'NEUTRAL',
+      });
+    });
+  });
+
+  describe('createBacktestConfig', () => {
+    it('should deep-merge overrides and force an in-memory checkpointer', () => {
+      const config = createBacktestConfig(
+        { ...baseConfig, langgraph: { ...baseConfig.langgraph, checkpointer: 'sqlite' } },
+        { agents: { minAgentsRequired: 3 } } as Partial<EngineConfig>
+      );
+
+      expect(config.agents.minAgentsRequired).toBe(3);
+      expect(config.agents.timeoutMs).toBe(10000);
+      expect(config.langgraph.checkpointer).toBe('memory');
+      expect(config.workflowService).toBeUndefined();
+    });
+  });
+
+  describe('parseBacktestDataset', () => {
+    it('should reject duplicate snapshot ids', () => {
+      const snapshot = createTestSnapshot();
+      expect(() => parseBacktestDataset({ snapshots: [snapshot, snapshot] })).toThrow(
+        /duplicate snapshot id/
+      );
+    });
+
+    it('should reject snapshots without an outcome', () => {
+      const { outcome: _outcome, ...snapshot } = createTestSnapshot();
+      expect(() => parseBacktestDataset({ snapshots: [snapshot] })).toThrow(/outcome/);
+    });
+  });
+
+  describe('runBacktest', () => {
+    it('should replay the workflow offline and score each configuration', async () => {
+      const dataset = parseBacktestDataset({ name: 'test-dataset', snapshots: [createTestSnapshot()] });
+      const completed: string[] = [];
+
+      const report = await runBacktest(
+        dataset,
+        [
+          { name: 'baseline', overrides: {} },
+          { name: 'strict', overrides: { agents: { minAgentsRequired: 2 } } as Partial<EngineConfig> },
+        ],
+        baseConfig,
+        {
+          onSnapshotComplete: (configuration, result) =>
+            completed.push(`${configuration}:${result.snapshotId}`),
+        }
+      );
+
+      expect(report.dataset).toBe('test-dataset');
+      expect(completed).toEqual(['baseline:snapshot-001', 'strict:snapshot-001']);
+      expect(report.configurations).toHaveLength(2);
+
+      for (const result of report.configurations) {
+        expect(result.failures).toBe(0);
+        expect(result.snapshots[0].success).toBe(true);
+        expect(result.snapshots[0].agentSignalCount).toBeGreaterThan(0);
+        expect(result.metrics.predictions).toBe(1);
+        expect(Number.isFinite(result.metrics.brierScore)).toBe(true);
+        expect(result.metrics.marketBrierScore).toBeCloseTo(0.36, 10);
+      }
+
+      // Deterministic replay produces identical results across runs
+      expect(report.configurations[0].snapshots[0].consensusProbability).toBe(
+        report.configurations[1].snapshots[0].consensusProbability
+      );
+      expect(hasLLMInstanceOverride()).toBe(false);
+    }, 60000);
+  });
+});
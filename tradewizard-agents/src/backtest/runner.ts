@@ -0,0 +1,337 @@
+/**
+ * Backtest Runner
+ *
+ * Replays the full LangGraph workflow (createWorkflow) against historical market
+ * snapshots with a deterministic LLM, then scores the resulting consensus
+ * probabilities and recommendations against resolved outcomes.
+ *
+ * Each configuration variant is run over every snapshot so changes to agents,
+ * fusion weights or consensus thresholds can be compared before shipping.
+ */
+
+import { createWorkflow } from '../workflow.js';
+import type { EngineConfig } from '../config/index.js';
+import type { PolymarketClient } from '../utils/polymarket-client.js';
+import { setLLMInstanceOverride, type LLMInstance } from '../utils/llm-factory.js';
+import type { TradeAction } from '../models/types.js';
+import {
+  DeterministicChatModel,
+  type DeterministicResponder,
+} from './deterministic-chat-model.js';
+import type { BacktestConfiguration, BacktestDataset, BacktestSnapshot } from './dataset.js';
+import {
+  computeBacktestMetrics,
+  type BacktestMetrics,
+  type BacktestPrediction,
+} from './metrics.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Outcome of replaying one snapshot under one configuration
+ */
+export interface BacktestSnapshotResult {
+  snapshotId: string;
+  success: boolean;
+  consensusProbability: number | null;
+  marketProbability: number;
+  action: TradeAction | null;
+  outcome: 'YES' | 'NO';
+  agentSignalCount: number;
+  error?: string;
+}
+
+/**
+ * Results for one configuration variant
+ */
+export interface BacktestConfigurationResult {
+  configuration: string;
+  metrics: BacktestMetrics;
+  snapshots: BacktestSnapshotResult[];
+  failures: number;
+}
+
+/**
+ * Complete backtest report
+ */
+export interface BacktestReport {
+  dataset: string;
+  startedAt: number;
+  completedAt: number;
+  configurations: BacktestConfigurationResult[];
+}
+
+/**
+ * Backtest options
+ */
+export interface BacktestOptions {
+  /** Dollar stake per simulated trade (default: 100) */
+  stakePerTrade?: number;
+  /** Number of calibration buckets (default: 10) */
+  bucketCount?: number;
+  /** Custom responder factory (default: createSnapshotResponder) */
+  createResponder?: (snapshot: BacktestSnapshot) => DeterministicResponder;
+  /** Called after each snapshot is replayed */
+  onSnapshotComplete?: (configuration: string, result: BacktestSnapshotResult) => void;
+}
+
+/**
+ * Stand-in for the Opik callback handler (backtests are not traced)
+ */
+const NO_OP_TRACING_HANDLER = {
+  flushAsync: async (): Promise<void> => {},
+};
+
+// ============================================================================
+// Snapshot Adapters
+// ============================================================================
+
+/**
+ * Create the default deterministic responder for a snapshot
+ *
+ * Resolution order for each LLM call:
+ * 1. `recordedResponses[node]` - verbatim recorded output for the graph node
+ * 2. `recordedSignals[agent]` - recorded agent estimate (node name without `_agent`)
+ * 3. The market-implied probability with neutral confidence
+ *
+ * @param snapshot - Historical snapshot
+ * @returns Deterministic responder
+ */
+export function createSnapshotResponder(snapshot: BacktestSnapshot): DeterministicResponder {
+  const marketProbability = snapshot.mbd.currentProbability;
+
+  return ({ node, schema }) => {
+    if (node && snapshot.recordedResponses[node] !== undefined) {
+      return snapshot.recordedResponses[node];
+    }
+
+    const agentKey = node ? node.replace(/_agent$/, '') : null;
+    const recorded = agentKey ? snapshot.recordedSignals[agentKey] : undefined;
+    const fairProbability = recorded?.fairProbability ?? marketProbability;
+    const direction =
+      recorded?.direction ??
+      (fairProbability > marketProbability ? 'YES' : fairProbability < marketProbability ? 'NO' : 'NEUTRAL');
+
+    const hints: Record<string, unknown> = {
+      fairProbability,
+      marketProbability,
+      edge: Math.abs(fairProbability - marketProbability),
+      confidence: recorded?.confidence ?? 0.5,
+      direction,
+      keyDrivers: recorded?.keyDrivers ?? [`Replayed estimate for ${agentKey ?? 'workflow'}`],
+      riskFactors: recorded?.riskFactors ?? [],
+    };
+
+    return schema ? hints : JSON.stringify(hints);
+  };
+}
+
+/**
+ * Create a Polymarket client stand-in that serves the snapshot's MBD
+ *
+ * Only the methods used by market ingestion are implemented.
+ *
+ * @param snapshot - Historical snapshot
+ * @returns Polymarket client stand-in
+ */
+export function createSnapshotPolymarketClient(snapshot: BacktestSnapshot): PolymarketClient {
+  const fetch = async (): Promise<{ ok: true; data: typeof snapshot.mbd }> => ({
+    ok: true,
+    data: structuredClone(snapshot.mbd),
+  });
+
+  return {
+    fetchMarketData: fetch,
+    fetchEnhancedMarketData: fetch,
+  } as unknown as PolymarketClient;
+}
+
+/**
+ * Apply configuration overrides for a backtest run
+ *
+ * Overrides are deep-merged (arrays replaced). Checkpointing is forced to
+ * in-memory and the remote workflow service is disabled so runs stay local.
+ *
+ * @param baseConfig - Base engine configuration
+ * @param overrides - Variant overrides
+ * @returns Configuration for the variant
+ */
+export function createBacktestConfig(
+  baseConfig: EngineConfig,
+  overrides: Partial<EngineConfig>
+): EngineConfig {
+  const merged = deepMerge(baseConfig, overrides) as EngineConfig;
+
+  return {
+    ...merged,
+    langgraph: { ...merged.langgraph, checkpointer: 'memory' },
+    workflowService: undefined,
+  };
+}
+
+/**
+ * Deep merge plain objects (arrays and primitives from the override win)
+ */
+function deepMerge(base: unknown, override: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return override === undefined ? base : override;
+  }
+
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    result[key] = deepMerge(base[key], value);
+  }
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+/**
+ * Replay a single snapshot through the workflow
+ *
+ * @param snapshot - Historical snapshot
+ * @param config - Configuration for this variant
+ * @param threadId - Checkpoint thread ID
+ * @param createResponder - Responder factory
+ * @returns Snapshot result
+ */
+export async function runBacktestSnapshot(
+  snapshot: BacktestSnapshot,
+  config: EngineConfig,
+  threadId: string,
+  createResponder: (snapshot: BacktestSnapshot) => DeterministicResponder = createSnapshotResponder
+): Promise<BacktestSnapshotResult> {
+  const responder = createResponder(snapshot);
+  const baseResult = {
+    snapshotId: snapshot.id,
+    marketProbability: snapshot.mbd.currentProbability,
+    outcome: snapshot.outcome,
+  };
+
+  // Node factories resolve their LLM while the graph is built, so install the
+  // override before createWorkflow() and clear it once the run finishes
+  setLLMInstanceOverride(
+    () => new DeterministicChatModel(responder) as unknown as LLMInstance
+  );
+
+  try {
+    // A no-op tracing handler keeps backtests independent of Opik credentials
+    const { app } = await createWorkflow(
+      config,
+      createSnapshotPolymarketClient(snapshot),
+      undefined,
+      NO_OP_TRACING_HANDLER
+    );
+
+    const result = await app.invoke(
+      {
+        conditionId: snapshot.mbd.conditionId,
+        externalData: snapshot.externalData ?? null,
+      },
+      {
+        configurable: { thread_id: threadId },
+      }
+    );
+
+    const consensusProbability = result.consensus?.consensusProbability ?? null;
+    const stageError = result.ingestionError ?? result.consensusError;
+
+    return {
+      ...baseResult,
+      success: consensusProbability !== null,
+      consensusProbability,
+      action: result.recommendation?.action ?? null,
+      agentSignalCount: result.agentSignals?.length ?? 0,
+      error:
+        consensusProbability === null
+          ? stageError
+            ? `${stageError.type}${'reason' in stageError ? `: ${stageError.reason}` : ''}`
+            : 'No consensus produced'
+          : undefined,
+    };
+  } catch (error) {
+    return {
+      ...baseResult,
+      success: false,
+      consensusProbability: null,
+      action: null,
+      agentSignalCount: 0,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  } finally {
+    setLLMInstanceOverride(null);
+  }
+}
+
+/**
+ * Run a backtest over a dataset for each configuration variant
+ *
+ * Snapshots without a consensus are reported as failures and excluded from
+ * the scored metrics. A missing recommendation is scored as NO_TRADE.
+ *
+ * @param dataset - Historical snapshots with outcomes
+ * @param configurations - Configuration variants to compare
+ * @param baseConfig - Base engine configuration the variants are applied to
+ * @param options - Backtest options
+ * @returns Backtest report
+ */
+export async function runBacktest(
+  dataset: BacktestDataset,
+  configurations: BacktestConfiguration[],
+  baseConfig: EngineConfig,
+  options: BacktestOptions = {}
+): Promise<BacktestReport> {
+  const startedAt = Date.now();
+  const configurationResults: BacktestConfigurationResult[] = [];
+
+  for (const configuration of configurations) {
+    const config = createBacktestConfig(baseConfig, configuration.overrides);
+    const snapshotResults: BacktestSnapshotResult[] = [];
+
+    for (const snapshot of dataset.snapshots) {
+      const result = await runBacktestSnapshot(
+        snapshot,
+        config,
+        `backtest:${configuration.name}:${snapshot.id}`,
+        options.createResponder
+      );
+      snapshotResults.push(result);
+      options.onSnapshotComplete?.(configuration.name, result);
+    }
+
+    const predictions: BacktestPrediction[] = snapshotResults
+      .filter((result) => result.consensusProbability !== null)
+      .map((result) => ({
+        snapshotId: result.snapshotId,
+        predictedProbability: result.consensusProbability as number,
+        marketProbability: result.marketProbability,
+        outcome: result.outcome,
+        action: result.action ?? 'NO_TRADE',
+      }));
+
+    configurationResults.push({
+      configuration: configuration.name,
+      metrics: computeBacktestMetrics(predictions, {
+        stakePerTrade: options.stakePerTrade,
+        bucketCount: options.bucketCount,
+      }),
+      snapshots: snapshotResults,
+      failures: snapshotResults.length - predictions.length,
+    });
+  }
+
+  return {
+    dataset: dataset.name,
+    startedAt,
+    completedAt: Date.now(),
+    configurations: configurationResults,
+  };
+}
@@ -15,6 +15,7 @@ import { PolymarketClient } from './utils/polymarket-client.js';
 import { createSupabaseClientManager } from './database/supabase-client.js';
 import type { TradeRecommendation } from './models/types.js';
 import type { GraphStateType } from './models/state.js';
+import type { CorrelationHints } from './utils/portfolio-allocator.js';
 
 const program = new Command();
 
@@ -62,6 +63,10 @@ program
   .option('--show-signal-fusion', 'Display signal fusion details (weights, conflicts, alignment)')
   .option('--show-risk-perspectives', 'Display risk philosophy perspectives in recommendation')
   .option('--show-performance', 'Display agent performance metrics')
+  // Deterministic record-and-replay
+  .option('--cassette <path>', 'Record/replay LLM responses using a cassette file')
+  .option('--cassette-mode <mode>', 'Cassette mode (record|replay, default: replay)')
+  .option('--cassette-strict', 'Fail on prompts missing from the cassette instead of calling the provider')
   .action(async (conditionId: string, options) => {
     const spinner = ora('Initializing Market Intelligence Engine...').start();
 
@@ -168,6 +173,18 @@ program
         };
       }
 
+      // LLM cassette override
+      if (options.cassette) {
+        configOverrides.llm = {
+          ...configOverrides.llm,
+          cassette: {
+            mode: (options.cassetteMode as 'record' | 'replay') || 'replay',
+            path: options.cassette,
+            strict: !!options.cassetteStrict,
+          },
+        };
+      }
+
       const config = Object.keys(configOverrides).length > 0
         ? createConfig(configOverrides)
         : loadConfig();
@@ -190,6 +207,10 @@ program
           }
         }
         
+        if (config.llm.cassette && config.llm.cassette.mode !== 'off') {
+          console.log(chalk.dim(`  LLM Cassette: ${config.llm.cassette.mode}${config.llm.cassette.strict ? ' (strict)' : ''} → ${config.llm.cassette.path}`));
+        }
+
         console.log(chalk.dim(`  Opik Project: ${config.opik.projectName}`));
         console.log(chalk.dim(`  Min Agents: ${config.agents.minAgentsRequired}`));
         console.log(chalk.dim(`  Edge Threshold: ${(config.consensus.minEdgeThreshold * 100).toFixed(1)}%`));
@@ -1062,6 +1083,822 @@ program
     }
   });
 
+// ============================================================================
+// Backtest Command
+// ============================================================================
+
+program
+  .command('backtest')
+  .description('Replay historical market snapshots offline and score forecasts against outcomes')
+  .requiredOption('--dataset <path>', 'Path to backtest dataset JSON file')
+  .option('--configs <path>', 'Path to JSON array of configuration variants ({ name, overrides })')
+  .option('--stake <amount>', 'Stake per simulated trade in USD (default: 100)', parseFloat)
+  .option('--buckets <count>', 'Number of calibration buckets (default: 10)', parseInt)
+  .option('--output <path>', 'Write the full JSON report to a file')
+  .option('-d, --debug', 'Show per-snapshot results')
+  .action(async (options) => {
+    const spinner = ora('Loading backtest dataset...').start();
+
+    try {
+      const {
+        loadBacktestDataset,
+        loadBacktestConfigurations,
+        runBacktest,
+      } = await import('./backtest/index.js');
+
+      const dataset = await loadBacktestDataset(options.dataset);
+      const configurations = options.configs
+        ? await loadBacktestConfigurations(options.configs)
+        : [{ name: 'default', overrides: {} }];
+      const totalRuns = dataset.snapshots.length * configurations.length;
+      let completedRuns = 0;
+
+      spinner.text = `Replaying ${dataset.snapshots.length} snapshots across ${configurations.length} configuration(s)...`;
+
+      const report = await runBacktest(dataset, configurations, loadConfig(), {
+        stakePerTrade: options.stake,
+        bucketCount: options.buckets,
+        onSnapshotComplete: (configuration, result) => {
+          completedRuns++;
+          spinner.text = `[${completedRuns}/${totalRuns}] ${configuration}: ${result.snapshotId}`;
+        },
+      });
+
+      spinner.succeed(chalk.green('Backtest complete!'));
+
+      console.log(chalk.cyan(`\n📈 Backtest Results: ${report.dataset}`));
+      console.log(chalk.dim('─'.repeat(60)));
+      console.log(chalk.dim(`Duration: ${((report.completedAt - report.startedAt) / 1000).toFixed(1)}s`));
+
+      const formatScore = (value: number): string => (Number.isFinite(value) ? value.toFixed(4) : 'N/A');
+
+      for (const result of report.configurations) {
+        const { metrics } = result;
+
+        console.log(chalk.bold(`\n${result.configuration}`));
+        console.log(`  Scored Snapshots: ${metrics.predictions} (${result.failures} failed)`);
+        console.log(`  Brier Score: ${formatScore(metrics.brierScore)} (market: ${formatScore(metrics.marketBrierScore)})`);
+        console.log(`  Log Loss: ${formatScore(metrics.logLoss)}`);
+
+        const pnlColor = metrics.pnl.totalPnL >= 0 ? chalk.green : chalk.red;
+        console.log(
+          `  Simulated P&L: ${pnlColor(`$${metrics.pnl.totalPnL.toFixed(2)}`)} ` +
+          `over ${metrics.pnl.trades} trades ` +
+          `(ROI ${(metrics.pnl.roi * 100).toFixed(1)}%, hit rate ${(metrics.pnl.hitRate * 100).toFixed(1)}%)`
+        );
+
+        if (metrics.calibration.length > 0) {
+          console.log(chalk.dim('  Calibration:'));
+          for (const bucket of metrics.calibration) {
+            console.log(
+              chalk.dim(
+                `    ${(bucket.lowerBound * 100).toFixed(0)}-${(bucket.upperBound * 100).toFixed(0)}%: ` +
+                `predicted ${(bucket.meanPredicted * 100).toFixed(1)}%, ` +
+                `observed ${(bucket.observedFrequency * 100).toFixed(1)}% (n=${bucket.count})`
+              )
+            );
+          }
+        }
+
+        if (options.debug) {
+          console.log(chalk.dim('  Snapshots:'));
+          for (const snapshot of result.snapshots) {
+            const status = snapshot.success ? chalk.green('✓') : chalk.red('✗');
+            const probability = snapshot.consensusProbability !== null
+              ? `${(snapshot.consensusProbability * 100).toFixed(1)}%`
+              : 'N/A';
+            console.log(
+              `    ${status} ${snapshot.snapshotId}: ${probability} vs market ` +
+              `${(snapshot.marketProbability * 100).toFixed(1)}% → ${snapshot.action ?? 'N/A'} ` +
+              `(outcome ${snapshot.outcome})` +
+              (snapshot.error ? chalk.red(` ${snapshot.error}`) : '')
+            );
+          }
+        }
+      }
+
+      if (options.output) {
+        const { writeFile } = await import('fs/promises');
+        await writeFile(options.output, JSON.stringify(report, null, 2), 'utf-8');
+        console.log(chalk.dim(`\nReport written to ${options.output}`));
+      }
+
+      console.log('');
+    } catch (error) {
+      spinner.fail(chalk.red('Backtest failed'));
+      console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Evaluate Command
+// ============================================================================
+
+program
+  .command('evaluate')
+  .description('Score recorded theses and debates for grounding, consistency and rigor per prompt version')
+  .requiredOption('--dataset <path>', 'Path to evaluation dataset JSON file')
+  .option('--no-judge', 'Run deterministic checks only (no judge model calls)')
+  .option('--output <path>', 'Write the full JSON report to a file')
+  .option('-d, --debug', 'Show per-case scores and issues')
+  .action(async (options) => {
+    const spinner = ora('Loading evaluation dataset...').start();
+
+    try {
+      const {
+        loadEvaluationDataset,
+        runEvaluationSuite,
+        createThesisJudge,
+      } = await import('./evaluation/index.js');
+
+      const dataset = await loadEvaluationDataset(options.dataset);
+      const judge = options.judge ? createThesisJudge(loadConfig()) : undefined;
+      let completedCases = 0;
+
+      spinner.text = `Evaluating ${dataset.cases.length} case(s)${judge ? ' with judge' : ''}...`;
+
+      const report = await runEvaluationSuite(dataset, {
+        judge,
+        onCaseComplete: (evaluation) => {
+          completedCases++;
+          spinner.text = `[${completedCases}/${dataset.cases.length}] ${evaluation.caseId}`;
+        },
+      });
+
+      spinner.succeed(chalk.green('Evaluation complete!'));
+
+      console.log(chalk.cyan(`\n🧪 Evaluation Results: ${report.dataset}`));
+      console.log(chalk.dim('─'.repeat(60)));
+      console.log(chalk.dim(`Duration: ${((report.completedAt - report.startedAt) / 1000).toFixed(1)}s`));
+
+      const formatScore = (value: number): string => (Number.isFinite(value) ? value.toFixed(3) : 'N/A');
+
+      for (const summary of report.promptVersions) {
+        const { scores } = summary;
+
+        console.log(chalk.bold(`\n${summary.promptVersion}`));
+        console.log(`  Cases: ${summary.cases} (${summary.judgedCases} judged)`);
+        console.log(`  Overall: ${formatScore(scores.overall)}`);
+        console.log(`  Evidence Grounding: ${formatScore(scores.evidenceGrounding)}`);
+        console.log(`  Internal Consistency: ${formatScore(scores.internalConsistency)}`);
+        console.log(`  Debate Rigor: ${formatScore(scores.debateRigor)}`);
+        if (summary.judge) {
+          console.log(
+            chalk.dim(
+              `  Deterministic / judge overall: ${formatScore(summary.deterministic.overall)} / ` +
+              `${formatScore(summary.judge.overall)}`
+            )
+          );
+        }
+
+        if (options.debug) {
+          console.log(chalk.dim('  Cases:'));
+          for (const evaluation of report.cases.filter((c) => c.promptVersion === summary.promptVersion)) {
+            console.log(
+              `    ${evaluation.caseId}: ${formatScore(evaluation.scores.overall)}` +
+              (evaluation.judgeError ? chalk.red(` judge failed: ${evaluation.judgeError}`) : '')
+            );
+            for (const issue of evaluation.issues) {
+              console.log(chalk.dim(`      - ${issue}`));
+            }
+            if (evaluation.judge) {
+              console.log(chalk.dim(`      Judge: ${evaluation.judge.rationale}`));
+            }
+          }
+        }
+      }
+
+      if (options.output) {
+        const { writeFile } = await import('fs/promises');
+        await writeFile(options.output, JSON.stringify(report, null, 2), 'utf-8');
+        console.log(chalk.dim(`\nReport written to ${options.output}`));
+      }
+
+      console.log('');
+    } catch (error) {
+      spinner.fail(chalk.red('Evaluation failed'));
+      console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Portfolio Command
+// ============================================================================
+
+program
+  .command('portfolio')
+  .description('Size all open recommendations against one bankroll (fractional Kelly with exposure caps)')
+  .option('--bankroll <amount>', 'Total bankroll in USD', parseFloat)
+  .option('--kelly-fraction <fraction>', 'Fraction of full Kelly to bet (e.g. 0.25)', parseFloat)
+  .option('--max-market <fraction>', 'Max exposure per market as a fraction of bankroll', parseFloat)
+  .option('--max-event <fraction>', 'Max exposure per event/correlation group', parseFloat)
+  .option('--max-category <fraction>', 'Max exposure per category', parseFloat)
+  .option('--max-total <fraction>', 'Max total exposure', parseFloat)
+  .option('--with-correlations', 'Fetch event data from Polymarket to group correlated markets')
+  .option('--no-store', 'Do not store the allocation in the database')
+  .action(async (options) => {
+    const spinner = ora('Loading open recommendations...').start();
+
+    try {
+      const { allocatePortfolio, toAllocationCandidates } = await import('./utils/portfolio-allocator.js');
+      const { createDatabasePersistence } = await import('./database/persistence.js');
+
+      const config = loadConfig();
+      const supabaseManager = createSupabaseClientManager();
+      await supabaseManager.connect();
+      const database = createDatabasePersistence(supabaseManager);
+
+      const openRecommendations = await database.getOpenRecommendations();
+      const candidates = toAllocationCandidates(openRecommendations);
+
+      const hints: CorrelationHints = {};
+      if (options.withCorrelations) {
+        const { createEnhancedEventPolymarketClient } = await import('./utils/enhanced-event-polymarket-client.js');
+        const client = createEnhancedEventPolymarketClient(config.polymarket);
+        const eventIds = [...new Set(candidates.map((c) => c.eventId).filter((id): id is string => !!id))];
+
+        hints.events = [];
+        for (const eventId of eventIds) {
+          spinner.text = `Fetching event ${eventId}...`;
+          try {
+            hints.events.push(await client.fetchEventWithAllMarkets(eventId));
+          } catch (error) {
+            console.warn(chalk.yellow(`\n⚠️  Could not fetch event ${eventId}: ${error instanceof Error ? error.message : String(error)}`));
+          }
+        }
+      }
+
+      spinner.text = `Allocating ${candidates.length} open recommendations...`;
+      const allocation = allocatePortfolio(
+        candidates,
+        {
+          ...config.portfolio,
+          ...(options.bankroll !== undefined && { bankroll: options.bankroll }),
+          ...(options.kellyFraction !== undefined && { kellyFraction: options.kellyFraction }),
+          ...(options.maxMarket !== undefined && { maxMarketExposure: options.maxMarket }),
+          ...(options.maxEvent !== undefined && { maxEventExposure: options.maxEvent }),
+          ...(options.maxCategory !== undefined && { maxCategoryExposure: options.maxCategory }),
+          ...(options.maxTotal !== undefined && { maxTotalExposure: options.maxTotal }),
+        },
+        hints
+      );
+
+      const allocationRunId = options.store ? await database.storePortfolioAllocation(allocation) : null;
+      await supabaseManager.disconnect();
+
+      spinner.succeed(chalk.green('Portfolio allocated!'));
+
+      console.log(chalk.cyan('\n💼 Portfolio Allocation'));
+      console.log(chalk.dim('─'.repeat(60)));
+      console.log(`Bankroll: $${allocation.bankroll.toFixed(2)} (${allocation.kellyFraction}× Kelly)`);
+      console.log(
+        `Allocated: $${allocation.totalAllocatedUsd.toFixed(2)} ` +
+        `(${((allocation.totalAllocatedUsd / allocation.bankroll) * 100).toFixed(1)}% of bankroll)`
+      );
+      if (openRecommendations.length > candidates.length) {
+        console.log(chalk.dim(`Skipped ${openRecommendations.length - candidates.length} recommendation(s) without a market price`));
+      }
+
+      console.log(chalk.bold('\nPositions:'));
+      for (const position of allocation.positions) {
+        const question = openRecommendations.find((r) => r.marketId === position.marketId)?.question ?? position.marketId;
+        const amount = position.allocatedUsd > 0
+          ? chalk.green(`$${position.allocatedUsd.toFixed(2)}`)
+          : chalk.dim('$0.00');
+        console.log(
+          `  ${amount} ${position.action} ${question}` +
+          chalk.dim(
+            ` (fair ${(position.fairProbability * 100).toFixed(1)}% vs ${(position.marketProbability * 100).toFixed(1)}%, ` +
+            `Kelly ${(position.fullKelly * 100).toFixed(1)}%, target $${position.targetUsd.toFixed(2)}` +
+            (position.bindingConstraint !== 'none' ? `, capped by ${position.bindingConstraint}` : '') +
+            ')'
+          )
+        );
+      }
+
+      console.log(chalk.bold('\nExposure by Group:'));
+      for (const [group, exposure] of Object.entries(allocation.exposureByGroup)) {
+        console.log(`  ${group}: $${exposure.toFixed(2)}`);
+      }
+
+      console.log(chalk.bold('\nExposure by Category:'));
+      for (const [category, exposure] of Object.entries(allocation.exposureByCategory)) {
+        console.log(`  ${category}: $${exposure.toFixed(2)}`);
+      }
+
+      if (allocationRunId) {
+        console.log(chalk.dim(`\nStored allocation run ${allocationRunId}`));
+      }
+
+      console.log('');
+    } catch (error) {
+      spinner.fail(chalk.red('Portfolio allocation failed'));
+      console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Performance Report Command
+// ============================================================================
+
+program
+  .command('performance-report')
+  .description('Show agent accuracy on resolved markets from the performance ledger')
+  .option('--category <category>', 'Only include one market category (event type)')
+  .option('--days <days>', 'Only include resolutions from the last N days', parseInt)
+  .option('--min-samples <count>', 'Hide agents with fewer resolved forecasts', parseInt)
+  .option('--by-prompt-version', 'Compare accuracy across prompt versions per agent')
+  .option('--agent <name>', 'Only include one agent in the prompt version comparison')
+  .action(async (options) => {
+    const spinner = ora('Loading performance ledger...').start();
+
+    try {
+      const { summarizeLedger, summarizeLedgerByPromptVersion } = await import(
+        './utils/performance-tracking.js'
+      );
+      const { createDatabasePersistence } = await import('./database/persistence.js');
+
+      const config = loadConfig();
+      const supabaseManager = createSupabaseClientManager();
+      await supabaseManager.connect();
+      const database = createDatabasePersistence(supabaseManager);
+
+      const days = options.days ?? config.performanceTracking.ledgerWindowDays ?? 180;
+      const entries = await database.getAgentPerformanceLedger({
+        since: new Date(Date.now() - days * 24 * 60 * 60 * 1000),
+        category: options.category,
+      });
+      await supabaseManager.disconnect();
+
+      const minSamples = options.minSamples ?? 1;
+      const summaries = summarizeLedger(entries).filter((summary) => summary.predictions >= minSamples);
+
+      spinner.succeed(chalk.green(`Loaded ${entries.length} ledger rows`));
+
+      console.log(chalk.cyan('\n📈 Agent Performance Report'));
+      console.log(chalk.dim('─'.repeat(60)));
+      console.log(`Window: last ${days} days` + (options.category ? `, category ${options.category}` : ''));
+
+      if (summaries.length === 0) {
+        console.log(chalk.yellow('\nNo resolved forecasts recorded yet'));
+        console.log('');
+        return;
+      }
+
+      console.log(chalk.bold('\nAgents (best Brier score first):'));
+      for (const summary of summaries) {
+        const brierColor = summary.brierScore < 0.2 ? chalk.green : summary.brierScore < 0.25 ? chalk.yellow : chalk.red;
+        console.log(
+          `  ${summary.agentName.padEnd(32)} ` +
+          `Brier ${brierColor(summary.brierScore.toFixed(3))}  ` +
+          `Log loss ${summary.logLoss.toFixed(3)}  ` +
+          `Hit rate ${(summary.hitRate * 100).toFixed(1)}%  ` +
+          chalk.dim(`(${summary.predictions} forecasts, avg confidence ${(summary.averageConfidence * 100).toFixed(0)}%)`)
+        );
+      }
+
+      if (options.byPromptVersion) {
+        const versionSummaries = summarizeLedgerByPromptVersion(entries, options.agent).filter(
+          (summary) => summary.predictions >= minSamples
+        );
+        console.log(chalk.bold('\nBy Prompt Version:'));
+        if (versionSummaries.length === 0) {
+          console.log(chalk.yellow('  No resolved forecasts for the selected agent'));
+        }
+        let currentAgent: string | undefined;
+        for (const summary of versionSummaries) {
+          if (summary.agentName !== currentAgent) {
+            currentAgent = summary.agentName;
+            console.log(`  ${chalk.cyan(summary.agentName)}`);
+          }
+          console.log(
+            `    ${summary.promptVersion.padEnd(30)} ` +
+            `Brier ${summary.brierScore.toFixed(3)}  ` +
+            `Log loss ${summary.logLoss.toFixed(3)}  ` +
+            `Hit rate ${(summary.hitRate * 100).toFixed(1)}%  ` +
+            chalk.dim(`(${summary.predictions} forecasts)`)
+          );
+        }
+      }
+
+      const categories = [...new Set(entries.map((entry) => entry.category))].sort();
+      if (!options.category && categories.length > 1) {
+        console.log(chalk.bold('\nBy Category:'));
+        for (const category of categories) {
+          const categorySummaries = summarizeLedger(entries, category);
+          const forecasts = categorySummaries.reduce((sum, summary) => sum + summary.predictions, 0);
+          const best = categorySummaries[0];
+          console.log(
+            `  ${category}: ${forecasts} forecasts` +
+            chalk.dim(best ? `, best ${best.agentName} (Brier ${best.brierScore.toFixed(3)})` : '')
+          );
+        }
+      }
+
+      console.log('');
+    } catch (error) {
+      spinner.fail(chalk.red('Performance report failed'));
+      console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Fit Fusion Weights Command
+// ============================================================================
+
+program
+  .command('fit-fusion-weights')
+  .description('Fit signal fusion weights from resolved markets and store them as a new version')
+  .option('--days <days>', 'Only use markets resolved in the last N days', parseInt)
+  .option('--l2 <strength>', 'L2 regularization strength', parseFloat)
+  .option('--min-category-examples <count>', 'Resolved markets needed for a per-category model', parseInt)
+  .option('--holdout <fraction>', 'Share of the most recent markets held out for evaluation', parseFloat, 0.2)
+  .option('--weights-version <version>', 'Version label for the stored weight set')
+  .option('--dry-run', 'Fit and evaluate without storing the weight set')
+  .action(async (options) => {
+    const spinner = ora('Loading resolved markets...').start();
+
+    try {
+      const { fitAndEvaluateFusionWeights } = await import('./utils/fusion-weights.js');
+      const { createDatabasePersistence } = await import('./database/persistence.js');
+
+      const supabaseManager = createSupabaseClientManager();
+      await supabaseManager.connect();
+      const database = createDatabasePersistence(supabaseManager);
+
+      const examples = await database.getFusionTrainingExamples(
+        options.days !== undefined
+          ? { since: new Date(Date.now() - options.days * 24 * 60 * 60 * 1000) }
+          : {}
+      );
+
+      if (examples.length === 0) {
+        await supabaseManager.disconnect();
+        spinner.fail(chalk.red('No resolved markets with agent signals found'));
+        process.exit(1);
+      }
+
+      spinner.text = `Fitting fusion weights on ${examples.length} resolved markets...`;
+      const weightSet = fitAndEvaluateFusionWeights(examples, options.holdout, {
+        l2: options.l2,
+        minCategoryExamples: options.minCategoryExamples,
+        version: options.weightsVersion,
+      });
+
+      const id = options.dryRun ? null : await database.storeFusionWeightSet(weightSet);
+      await supabaseManager.disconnect();
+
+      spinner.succeed(chalk.green(`Fitted fusion weights ${weightSet.version}`));
+
+      console.log(chalk.cyan('\n⚖️  Learned Fusion Weights'));
+      console.log(chalk.dim('─'.repeat(60)));
+      console.log(`Training examples: ${weightSet.trainingExamples} (L2 ${weightSet.l2})`);
+      console.log(`Intercept: ${weightSet.global.intercept.toFixed(3)}`);
+
+      console.log(chalk.bold('\nGlobal agent weights (on forecast log-odds):'));
+      const sortedWeights = Object.entries(weightSet.global.weights).sort((a, b) => b[1] - a[1]);
+      for (const [agentName, weight] of sortedWeights) {
+        const color = weight > 0 ? chalk.green : chalk.red;
+        console.log(`  ${agentName.padEnd(32)} ${color(weight.toFixed(3))}`);
+      }
+
+      const categories = Object.entries(weightSet.byCategory);
+      if (categories.length > 0) {
+        console.log(chalk.bold('\nCategory models:'));
+        for (const [category, model] of categories) {
+          const top = Object.entries(model.weights).sort((a, b) => b[1] - a[1])[0];
+          console.log(
+            `  ${category}: ${model.examples} markets` +
+            chalk.dim(top ? `, top ${top[0]} (${top[1].toFixed(3)})` : '')
+          );
+        }
+      }
+
+      if (weightSet.evaluation) {
+        const { learned, equalWeight } = weightSet.evaluation;
+        const better = learned.logLoss < equalWeight.logLoss;
+        console.log(chalk.bold(`\nHoldout (${learned.examples} most recent markets):`));
+        console.log(`  Learned:      Brier ${learned.brierScore.toFixed(4)}  Log loss ${learned.logLoss.toFixed(4)}`);
+        console.log(`  Equal weight: Brier ${equalWeight.brierScore.toFixed(4)}  Log loss ${equalWeight.logLoss.toFixed(4)}`);
+        console.log(
+          better
+            ? chalk.green('  Learned weights beat equal weighting on the holdout')
+            : chalk.yellow('  Learned weights did not beat equal weighting on the holdout')
+        );
+      } else {
+        console.log(chalk.dim('\nToo few markets for a holdout evaluation'));
+      }
+
+      if (id) {
+        console.log(chalk.dim(`\nStored as version ${weightSet.version}. Enable with SIGNAL_FUSION_MODE=learned`));
+      }
+
+      console.log('');
+    } catch (error) {
+      spinner.fail(chalk.red('Fitting fusion weights failed'));
+      console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Calibrate Command
+// ============================================================================
+
+program
+  .command('calibrate')
+  .description('Refit probability calibration on resolved recommendations and store a new model version')
+  .option('--method <method>', 'Calibration method: isotonic or platt', 'isotonic')
+  .option('--days <days>', 'Only use markets resolved in the last N days', parseInt)
+  .option('--min-regime-examples <count>', 'Resolved markets needed for a per-regime model', parseInt)
+  .option('--holdout <fraction>', 'Share of the most recent markets held out for evaluation', parseFloat, 0.2)
+  .option('--model-version <version>', 'Version label for the stored model set')
+  .option('--dry-run', 'Fit and evaluate without storing the model set')
+  .action(async (options) => {
+    const spinner = ora('Loading resolved recommendations...').start();
+
+    try {
+      if (options.method !== 'isotonic' && options.method !== 'platt') {
+        throw new Error(`Unknown calibration method: ${options.method} (expected isotonic or platt)`);
+      }
+
+      const { fitAndEvaluateCalibration, calibrateConsensus } = await import('./utils/probability-calibration.js');
+      const { createDatabasePersistence } = await import('./database/persistence.js');
+
+      const supabaseManager = createSupabaseClientManager();
+      await supabaseManager.connect();
+      const database = createDatabasePersistence(supabaseManager);
+
+      const examples = await database.getCalibrationExamples(
+        options.days !== undefined
+          ? { since: new Date(Date.now() - options.days * 24 * 60 * 60 * 1000) }
+          : {}
+      );
+
+      if (examples.length === 0) {
+        await supabaseManager.disconnect();
+        spinner.fail(chalk.red('No resolved markets with recommendations found'));
+        process.exit(1);
+      }
+
+      spinner.text = `Fitting ${options.method} calibration on ${examples.length} resolved markets...`;
+      const modelSet = fitAndEvaluateCalibration(examples, options.holdout, {
+        method: options.method,
+        minRegimeExamples: options.minRegimeExamples,
+        version: options.modelVersion,
+      });
+
+      const id = options.dryRun ? null : await database.storeCalibrationModelSet(modelSet);
+      await supabaseManager.disconnect();
+
+      spinner.succeed(chalk.green(`Fitted calibration ${modelSet.version}`));
+
+      console.log(chalk.cyan('\n🎯 Probability Calibration'));
+      console.log(chalk.dim('─'.repeat(60)));
+      console.log(`Method: ${modelSet.method}`);
+      console.log(`Training examples: ${modelSet.trainingExamples}`);
+      console.log(`Regime models: ${Object.keys(modelSet.byRegime).join(', ') || 'none (global only)'}`);
+
+      console.log(chalk.bold('\nRaw → calibrated (global model):'));
+      for (const raw of [0.05, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 0.95]) {
+        const { probability } = calibrateConsensus(modelSet, raw, [raw, raw]);
+        console.log(`  ${(raw * 100).toFixed(0).padStart(3)}% → ${(probability * 100).toFixed(1)}%`);
+      }
+
+      if (modelSet.evaluation) {
+        const { raw, calibrated, examples: holdoutSize } = modelSet.evaluation;
+        console.log(chalk.bold(`\nHoldout (${holdoutSize} most recent markets):`));
+        console.log(`  Raw:        Brier ${raw.brierScore.toFixed(4)}  Log loss ${raw.logLoss.toFixed(4)}`);
+        console.log(`  Calibrated: Brier ${calibrated.brierScore.toFixed(4)}  Log loss ${calibrated.logLoss.toFixed(4)}`);
+        console.log(
+          calibrated.brierScore < raw.brierScore
+            ? chalk.green('  Calibration improved the holdout Brier score')
+            : chalk.yellow('  Calibration did not improve the holdout Brier score')
+        );
+      } else {
+        console.log(chalk.dim('\nToo few markets for a holdout evaluation'));
+      }
+
+      if (id) {
+        console.log(chalk.dim(`\nStored as version ${modelSet.version}. New analyses will use it unless CALIBRATION_MODEL_VERSION pins another version`));
+      }
+
+      console.log('');
+    } catch (error) {
+      spinner.fail(chalk.red('Calibration failed'));
+      console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Analyze Event Command
+// ============================================================================
+
+program
+  .command('analyze-event')
+  .description('Analyze all outcomes of a multi-outcome event as one probability distribution')
+  .argument('<eventId>', 'Polymarket event ID to analyze')
+  .option('--single-provider <provider>', 'Use single LLM provider (openai|anthropic|google|nova)')
+  .option('--json', 'Print the event analysis as JSON')
+  .action(async (eventId: string, options) => {
+    const spinner = ora('Initializing Market Intelligence Engine...').start();
+
+    try {
+      const { analyzeEvent } = await import('./workflow.js');
+
+      const config = options.singleProvider
+        ? createConfig({
+            llm: { singleProvider: options.singleProvider as 'openai' | 'anthropic' | 'google' | 'nova' },
+          })
+        : loadConfig();
+      const polymarketClient = new PolymarketClient(config.polymarket);
+
+      spinner.text = `Analyzing event ${eventId}...`;
+      const analysis = await analyzeEvent(eventId, config, polymarketClient);
+
+      spinner.succeed(chalk.green('Event analysis complete!'));
+
+      if (options.json) {
+        console.log(JSON.stringify(analysis, null, 2));
+        return;
+      }
+
+      const { distribution } = analysis;
+      console.log(chalk.cyan(`\n🗳️  ${analysis.title}`));
+      console.log(chalk.dim('─'.repeat(80)));
+      console.log(`Outcomes: ${analysis.outcomes.length}${analysis.negRisk ? ' (neg-risk)' : ''}`);
+      console.log(`Market prices sum to: ${(distribution.marketOverround * 100).toFixed(1)}%`);
+      console.log(`Agents: ${analysis.signals.map((signal) => signal.agentName).join(', ')}`);
+
+      console.log(chalk.bold('\nOutcome                              Market    Fair     Edge    EV/$100  Action'));
+      const sorted = [...analysis.recommendations].sort((a, b) => b.fairProbability - a.fairProbability);
+      for (const rec of sorted) {
+        const color = rec.action === 'LONG_YES' ? chalk.green : rec.action === 'LONG_NO' ? chalk.red : chalk.dim;
+        const edge = `${rec.edge >= 0 ? '+' : ''}${(rec.edge * 100).toFixed(1)}%`;
+        console.log(
+          `${rec.label.slice(0, 36).padEnd(36)} ${(rec.marketProbability * 100).toFixed(1).padStart(6)}%` +
+            ` ${(rec.fairProbability * 100).toFixed(1).padStart(6)}% ${edge.padStart(7)}` +
+            ` ${rec.expectedValue.toFixed(2).padStart(9)}  ${color(rec.action)}`
+        );
+      }
+
+      console.log('');
+    } catch (error) {
+      spinner.fail(chalk.red('Event analysis failed'));
+      console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Scan Arbitrage Command
+// ============================================================================
+
+program
+  .command('scan-arbitrage')
+  .description('Scan discovered events for cross-market arbitrage and price inconsistencies')
+  .option('--max-events <count>', 'Events to pull from discovery', parseInt)
+  .option('--min-edge <edge>', 'Minimum edge per share bundle in USD (e.g. 0.01)', parseFloat)
+  .option('--limit <count>', 'Opportunities to display', (value) => parseInt(value, 10), 20)
+  .option('--dry-run', 'Scan without storing the opportunities')
+  .option('--json', 'Print the opportunities as JSON')
+  .action(async (options) => {
+    const spinner = ora('Scanning events for arbitrage...').start();
+
+    try {
+      const { createArbitrageScanner } = await import('./utils/arbitrage-scanner.js');
+
+      const baseConfig = loadConfig();
+      const arbitrageConfig = {
+        ...baseConfig.arbitrage!,
+        ...(options.maxEvents !== undefined ? { maxEvents: options.maxEvents } : {}),
+        ...(options.minEdge !== undefined ? { minEdge: options.minEdge } : {}),
+      };
+      const polymarketClient = new PolymarketClient(baseConfig.polymarket);
+
+      const opportunities = await createArbitrageScanner(polymarketClient, arbitrageConfig).scan();
+
+      if (!options.dryRun) {
+        spinner.text = 'Storing opportunities...';
+        const { createDatabasePersistence } = await import('./database/persistence.js');
+        const supabaseManager = createSupabaseClientManager();
+        await supabaseManager.connect();
+        await createDatabasePersistence(supabaseManager).storeArbitrageOpportunities(opportunities);
+        await supabaseManager.disconnect();
+      }
+
+      spinner.succeed(chalk.green(`Found ${opportunities.length} opportunities`));
+
+      if (options.json) {
+        console.log(JSON.stringify(opportunities.slice(0, options.limit), null, 2));
+        return;
+      }
+
+      console.log(chalk.cyan('\n⚖️  Cross-Market Arbitrage'));
+      console.log(chalk.dim('─'.repeat(80)));
+
+      if (opportunities.length === 0) {
+        console.log(chalk.dim('No price inconsistencies above the minimum edge'));
+      }
+
+      for (const opportunity of opportunities.slice(0, options.limit)) {
+        const riskColor =
+          opportunity.riskLevel === 'low' ? chalk.green : opportunity.riskLevel === 'medium' ? chalk.yellow : chalk.red;
+        const size = opportunity.executableSize > 0
+          ? `$${opportunity.executableSize.toFixed(0)} executable, $${opportunity.expectedProfit.toFixed(2)} profit`
+          : 'size unknown';
+
+        console.log(
+          chalk.bold(`\n#${opportunity.rank} ${opportunity.type}`) +
+            ` ${riskColor(opportunity.riskLevel + ' risk')} · edge ${(opportunity.edge * 100).toFixed(1)}¢ · ${size}`
+        );
+        console.log(chalk.dim(`  ${opportunity.eventTitle}`));
+        console.log(`  ${opportunity.description}`);
+        for (const leg of opportunity.legs) {
+          console.log(chalk.dim(`    Buy ${leg.side} @ ${(leg.price * 100).toFixed(1)}¢ · ${leg.question}`));
+        }
+      }
+
+      console.log('');
+    } catch (error) {
+      spinner.fail(chalk.red('Arbitrage scan failed'));
+      console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// Positions Command
+// ============================================================================
+
+program
+  .command('positions')
+  .description('Show the latest exit and rebalancing advice for open positions')
+  .option('--action <action>', 'Only show advice with this action (HOLD, TAKE_PROFIT, CUT, ADD)')
+  .option('--json', 'Print the advice as JSON')
+  .action(async (options) => {
+    const spinner = ora('Loading position advice...').start();
+
+    try {
+      const action = options.action?.toUpperCase();
+      if (action && !['HOLD', 'TAKE_PROFIT', 'CUT', 'ADD'].includes(action)) {
+        throw new Error(`Unknown action "${options.action}". Use HOLD, TAKE_PROFIT, CUT or ADD`);
+      }
+
+      const { createDatabasePersistence } = await import('./database/persistence.js');
+      const supabaseManager = createSupabaseClientManager();
+      await supabaseManager.connect();
+      const advice = await createDatabasePersistence(supabaseManager).getLatestPositionAdvice({ action });
+      await supabaseManager.disconnect();
+
+      spinner.succeed(chalk.green(`Loaded advice for ${advice.length} positions`));
+
+      if (options.json) {
+        console.log(JSON.stringify(advice, null, 2));
+        return;
+      }
+
+      console.log(chalk.cyan('\n📋 Open Position Advice'));
+      console.log(chalk.dim('─'.repeat(80)));
+
+      if (advice.length === 0) {
+        console.log(chalk.dim('No open positions have been re-analyzed yet'));
+      }
+
+      const actionColors = {
+        HOLD: chalk.white,
+        TAKE_PROFIT: chalk.green,
+        CUT: chalk.red,
+        ADD: chalk.cyan,
+      };
+
+      for (const record of advice) {
+        const returnColor = record.unrealizedReturn >= 0 ? chalk.green : chalk.red;
+
+        console.log(
+          chalk.bold(`\n${actionColors[record.action](record.action)}`) +
+            ` ${record.direction} · ${(record.entryPrice * 100).toFixed(1)}¢ → ${(record.currentPrice * 100).toFixed(1)}¢ ` +
+            returnColor(`(${(record.unrealizedReturn * 100).toFixed(1)}%)`)
+        );
+        console.log(chalk.dim(`  ${record.question}`));
+        for (const reason of record.reasons) {
+          console.log(`  • ${reason}`);
+        }
+      }
+
+      console.log('');
+    } catch (error) {
+      spinner.fail(chalk.red('Failed to load position advice'));
+      console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
 // ============================================================================
 // Parse and Execute
 // ============================================================================
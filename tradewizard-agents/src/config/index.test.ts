@@ -107,6 +107,26 @@ describe('Configuration Error Handling', () => {
 
       expect(config.advancedAgents.eventIntelligence.enabled).toBe(true);
     });
+
+    it('should map the deprecated polling provider onto a polling source', async () => {
+      process.env.NODE_ENV = 'development';
+      process.env.OPENAI_API_KEY = 'test-key';
+      process.env.ADVANCED_AGENTS_POLLING_STATISTICAL_ENABLED = 'true';
+      process.env.EXTERNAL_DATA_POLLING_PROVIDER = '538';
+      process.env.EXTERNAL_DATA_POLLING_API_KEY = 'polling-key';
+      delete process.env.EXTERNAL_DATA_POLLING_SOURCES;
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const { loadConfig } = await import('./index.js');
+      const config = loadConfig();
+
+      expect(config.externalData.polling.sources).toEqual([
+        { type: '538', location: '538', name: '538', apiKey: 'polling-key' },
+      ]);
+      expect(config.advancedAgents.pollingStatistical.enabled).toBe(true);
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('deprecated'));
+      warnSpy.mockRestore();
+    });
   });
 
   describe('Environment-specific configuration', () => {
@@ -36,6 +36,10 @@ const EngineConfigSchema = z
       clobApiUrl: z.string().url(),
       rateLimitBuffer: z.number().min(0).max(100),
       politicsTagId: z.number().positive().default(2),
+      // Category-aware discovery (politics only when unset)
+      discoveryCategories: z.array(z.enum(['politics', 'sports', 'crypto'])).min(1).optional(),
+      sportsTagId: z.number().positive().optional(),
+      cryptoTagId: z.number().positive().optional(),
       // Enhanced event-based configuration (optional with defaults)
       eventsApiEndpoint: z.string().default('/events'),
       includeRelatedTags: z.boolean().default(true),
@@ -68,6 +72,9 @@ const EngineConfigSchema = z
       keywordExtractionMode: z.enum(['event_priority', 'market_priority', 'balanced']).default('event_priority'),
       correlationAnalysisDepth: z.enum(['basic', 'advanced', 'comprehensive']).default('basic'),
       riskAssessmentLevel: z.enum(['conservative', 'moderate', 'aggressive']).default('moderate'),
+      // CLOB order book depth used to price recommendations
+      orderBookNotionals: z.array(z.number().positive()).optional(), // USD sizes to simulate fills for
+      orderBookFixturePath: z.string().optional(), // Local /book JSON used instead of the live CLOB
       // Environment-specific event API configuration
       environment: z.enum(['development', 'staging', 'production']).default('development'),
       environmentConfigs: z.object({
@@ -141,6 +148,16 @@ const EngineConfigSchema = z
           topP: z.number().min(0).max(1).optional(),
         })
         .optional(),
+
+      // Record-and-replay cassette for deterministic runs (CI, reproducing recommendations)
+      cassette: z
+        .object({
+          mode: z.enum(['off', 'record', 'replay']).default('off'),
+          path: z.string().min(1),
+          // Fail on unrecorded prompts in replay mode instead of calling the provider
+          strict: z.boolean().default(false),
+        })
+        .optional(),
     }),
     agents: z.object({
       timeoutMs: z.number().positive(),
@@ -200,16 +217,55 @@ const EngineConfigSchema = z
         maxArticles: z.number().positive().default(20),
       }),
       polling: z.object({
-        provider: z.enum(['538', 'rcp', 'polymarket', 'none']).default('none'),
+        // Deprecated: mapped onto `sources` (see applyDeprecatedPollingSettings)
+        provider: z.enum(['538', 'rcp', 'polymarket', 'none']).optional(),
         apiKey: z.string().optional(),
         cacheTTL: z.number().positive().default(3600), // 1 hour
+        sources: z
+          .array(
+            z.object({
+              type: z.string(), // 'file' | 'http' | custom registered type
+              location: z.string(), // Path or URL, may contain {marketId} / {conditionId}
+              format: z.enum(['csv', 'json']).optional(),
+              name: z.string().optional(),
+              apiKey: z.string().optional(),
+            })
+          )
+          .optional(),
+        halfLifeDays: z.number().positive().optional(),
       }),
       social: z.object({
-        providers: z.array(z.enum(['twitter', 'reddit'])).default([]),
+        providers: z.array(z.enum(['twitter', 'reddit', 'jsonfeed'])).default([]),
         apiKeys: z.record(z.string(), z.string()).optional(),
+        endpoints: z.record(z.string(), z.string()).optional(), // Base URL per provider
         cacheTTL: z.number().positive().default(300), // 5 minutes
         maxMentions: z.number().positive().default(100),
       }),
+      // Team stats and price/on-chain feeds for the sports and crypto agents
+      sports: z
+        .object({
+          sources: z.array(
+            z.object({
+              type: z.string(), // 'file' | 'http'
+              location: z.string(),
+              name: z.string().optional(),
+              apiKey: z.string().optional(),
+            })
+          ),
+        })
+        .optional(),
+      crypto: z
+        .object({
+          sources: z.array(
+            z.object({
+              type: z.string(), // 'file' | 'http'
+              location: z.string(),
+              name: z.string().optional(),
+              apiKey: z.string().optional(),
+            })
+          ),
+        })
+        .optional(),
     }),
     // NewsData.io specific configuration
     newsData: z.object({
@@ -229,6 +285,10 @@ const EngineConfigSchema = z
           archive: z.number().positive().default(1800), // 30 minutes
         }),
         maxSize: z.number().positive().default(1000),
+        // Storage for cached responses (default memory); sqlite and postgres
+        // survive restarts, postgres is shared by every instance
+        backend: z.enum(['memory', 'sqlite', 'postgres']).optional(),
+        sqlitePath: z.string().optional(),
       }),
       circuitBreaker: z.object({
         enabled: z.boolean().default(true),
@@ -274,16 +334,20 @@ const EngineConfigSchema = z
       contextAdjustments: z.boolean().default(true),
       conflictThreshold: z.number().min(0).max(1).default(0.20),
       alignmentBonus: z.number().min(0).max(1).default(0.20),
+      mode: z.enum(['heuristic', 'learned']).optional(), // 'learned' uses stored fusion weights (default: heuristic)
+      learnedWeightsVersion: z.string().optional(), // Stored weight set to use (default: latest)
     }),
     costOptimization: z.object({
       maxCostPerAnalysis: z.number().positive().default(2.0),
       skipLowImpactAgents: z.boolean().default(false),
       batchLLMRequests: z.boolean().default(true),
+      plannedAgents: z.array(z.string()).optional(), // Set per analysis by the budget planner
     }),
     performanceTracking: z.object({
       enabled: z.boolean().default(false),
       evaluateOnResolution: z.boolean().default(true),
       minSampleSize: z.number().positive().default(10),
+      ledgerWindowDays: z.number().positive().optional(), // History loaded from the performance ledger (default: 180)
     }),
     pollingAgent: z.object({
       autonomous: z.boolean().default(true),
@@ -327,8 +391,178 @@ const EngineConfigSchema = z
       queryTimeoutMs: z.number().positive().default(5000),
       // Number of retry attempts for rate limit errors
       retryAttempts: z.number().min(0).max(5).default(3),
+      // Also retrieve each agent's signals on similar markets (same event, type, keywords)
+      comparableMarketsEnabled: z.boolean().optional(),
+      // Maximum number of comparable markets per agent
+      maxComparableMarkets: z.number().min(1).max(10).optional(),
+      // Minimum similarity (0-1) for a market to count as comparable
+      minComparableSimilarity: z.number().min(0).max(1).optional(),
     }),
     // ============================================================================
+    // Portfolio Allocation Configuration
+    // ============================================================================
+    portfolio: z.object({
+      // Total bankroll in USD sized across all open recommendations
+      bankroll: z.number().positive().default(10000),
+      // Fraction of full Kelly to bet (0.25 = quarter Kelly)
+      kellyFraction: z.number().min(0).max(1).default(0.25),
+      // Exposure caps as fractions of bankroll
+      maxMarketExposure: z.number().min(0).max(1).default(0.05),
+      maxEventExposure: z.number().min(0).max(1).default(0.1),
+      maxCategoryExposure: z.number().min(0).max(1).default(0.3),
+      maxTotalExposure: z.number().min(0).max(1).default(0.6),
+      // Positions below this size (USD) are dropped
+      minPositionUsd: z.number().min(0).default(5),
+      // Positive correlation at or above which markets share an exposure group
+      correlationThreshold: z.number().min(0).max(1).default(0.5),
+    }).optional(),
+    // ============================================================================
+    // Probability Calibration Configuration
+    // ============================================================================
+    calibration: z.object({
+      // Apply stored calibration models to the consensus probability
+      enabled: z.boolean().default(true),
+      // Stored model set to use (default: latest)
+      modelVersion: z.string().optional(),
+    }).optional(),
+    // ============================================================================
+    // Arbitrage Scanner Configuration
+    // ============================================================================
+    arbitrage: z.object({
+      // Run the cross-market arbitrage scan as a monitor job
+      enabled: z.boolean().default(false),
+      // Minutes between monitor scans
+      intervalMinutes: z.number().positive().default(60),
+      // Events pulled from discovery per scan
+      maxEvents: z.number().positive().default(50),
+      // Minimum edge per share bundle (USD) to report
+      minEdge: z.number().min(0).max(1).default(0.01),
+      // 24h move that counts as a large move, and the move at or below which a related market is stale
+      staleMoveThreshold: z.number().min(0).max(1).default(0.1),
+      staleMaxMove: z.number().min(0).max(1).default(0.02),
+    }).optional(),
+    // ============================================================================
+    // Position Advisor Configuration
+    // ============================================================================
+    positionAdvisor: z.object({
+      // Re-evaluate open positions whenever their market is re-analyzed
+      enabled: z.boolean().default(true),
+      // Consensus drift on the held side that triggers CUT or ADD
+      driftThreshold: z.number().min(0).max(1).default(0.05),
+    }).optional(),
+    // ============================================================================
+    // Re-analysis Trigger Configuration
+    // ============================================================================
+    triggers: z.object({
+      // Re-analyze tracked markets when a trigger fires
+      enabled: z.boolean().default(false),
+      // Minutes between trigger checks
+      intervalMinutes: z.number().positive().default(15),
+      // Active markets checked per run, and queued markets analyzed per run
+      maxTrackedMarkets: z.number().positive().default(50),
+      maxAnalysesPerCheck: z.number().positive().default(2),
+      // Absolute probability move since the last analysis
+      priceMoveThreshold: z.number().min(0).max(1).default(0.05),
+      // Current / last-analysis 24h volume
+      volumeSpikeMultiplier: z.number().positive().default(3),
+      // Share of market keywords a breaking-news article must match
+      newsRelevanceThreshold: z.number().min(0).max(1).default(0.5),
+      // Hours before expiry at which the market is re-analyzed
+      expiryWindowHours: z.number().positive().default(48),
+      // Per-trigger cooldowns for one market
+      cooldownMinutes: z.object({
+        price_move: z.number().min(0).default(60),
+        volume_spike: z.number().min(0).default(120),
+        breaking_news: z.number().min(0).default(60),
+        expiry_approaching: z.number().min(0).default(720),
+      }),
+    }).optional(),
+    // ============================================================================
+    // Analysis Budget Planner Configuration
+    // ============================================================================
+    budget: z.object({
+      // Plan monitor analyses against a daily budget
+      enabled: z.boolean().default(false),
+      // USD per UTC day across all monitor analyses
+      dailyBudgetUsd: z.number().positive().default(25),
+      // Candidates discovered per cycle, as a multiple of MAX_MARKETS_PER_CYCLE
+      candidateMultiplier: z.number().min(1).default(3),
+      // Candidates with a lower value of information (0-1) are skipped
+      minValueOfInformation: z.number().min(0).max(1).default(0.2),
+    }).optional(),
+    // ============================================================================
+    // Agent Plugin Configuration
+    // ============================================================================
+    agentPlugins: z.object({
+      // Add registered plugin agents to the workflow
+      enabled: z.boolean().default(true),
+      // Plugin agent names to leave out
+      disabled: z.array(z.string()).default([]),
+    }).optional(),
+    // ============================================================================
+    // Prompt Versioning Configuration
+    // ============================================================================
+    prompts: z.object({
+      // JSON file of versioned templates: [{ agentName, version, template, description? }]
+      templatesPath: z.string().optional(),
+      // Per-agent experiments splitting analyses across prompt versions
+      experiments: z.array(z.object({
+        agentName: z.string().min(1),
+        // percentage: random per analysis; market_hash: stable per market
+        assignment: z.enum(['percentage', 'market_hash']).default('market_hash'),
+        variants: z.array(z.object({
+          version: z.string().min(1),
+          weight: z.number().positive(),
+        })).min(1),
+      })).default([]),
+    }).optional(),
+    // ============================================================================
+    // Story Clustering Configuration
+    // ============================================================================
+    storyClustering: z.object({
+      // Group news into stories and build the narrative timeline
+      enabled: z.boolean().default(true),
+      // Minimum headline overlap (0-1) for an article to join a story
+      similarityThreshold: z.number().min(0).max(1).default(0.5),
+      // Window (hours) for story growth rates
+      growthWindowHours: z.number().positive().default(6),
+      // Stories kept per market
+      maxStories: z.number().int().positive().default(50),
+    }).optional(),
+    // ============================================================================
+    // Source Credibility Configuration
+    // ============================================================================
+    sourceCredibility: z.object({
+      // Attach article citations to agent signals and theses
+      enabled: z.boolean().default(true),
+      // Tier overrides by domain, e.g. { "example.com": "low" }
+      tiers: z.record(z.string(), z.enum(['primary', 'high', 'medium', 'low'])).default({}),
+      // Adjust source credibility from resolved markets
+      learningEnabled: z.boolean().default(true),
+      // Resolved citations a source needs before its tier is re-derived
+      minOutcomes: z.number().int().positive().default(20),
+      // How long learned source accuracy is reused before it is reloaded
+      learningRefreshMinutes: z.number().int().positive().default(60),
+      // Only learn from markets resolved within this many days
+      learningLookbackDays: z.number().int().positive().default(365),
+    }).optional(),
+    // ============================================================================
+    // News Provider Configuration
+    // ============================================================================
+    newsProvider: z.object({
+      // News source for the autonomous news agents and news triggers:
+      // 'newsdata' | 'rss' | 'archive' | a registered provider
+      provider: z.string().default('newsdata'),
+      // Providers tried in order when the provider fails
+      fallbackProviders: z.array(z.string()).default([]),
+      // RSS / Atom feed URLs for the rss provider
+      rssFeeds: z.array(z.string().url()).default([]),
+      // JSON / JSON Lines file or directory for the archive provider
+      archivePath: z.string().optional(),
+      // Drop malformed articles before they are cached
+      validationEnabled: z.boolean().default(true),
+    }).optional(),
+    // ============================================================================
     // Workflow Service Configuration (DOA Integration)
     // ============================================================================
     workflowService: z.object({
@@ -386,7 +620,7 @@ const EngineConfigSchema = z
       
       // Polling agents require polling data
       if (config.advancedAgents.pollingStatistical.enabled && 
-          config.externalData.polling.provider === 'none') {
+          (config.externalData.polling.sources?.length ?? 0) === 0) {
         errors.push('Polling & Statistical agents require polling data source to be configured');
       }
       
@@ -448,6 +682,40 @@ function getEnvironmentDefault(environment: 'development' | 'staging' | 'product
   return defaults[environment][setting as keyof typeof defaults[typeof environment]] || '0';
 }
 
+/**
+ * Map the deprecated polling `provider` / `apiKey` settings onto poll sources
+ *
+ * A provider other than 'none' becomes a source of that type when no sources
+ * are configured (register a factory for it with `registerPollingSource`), and
+ * the API key is applied to every source that does not set its own.
+ */
+function applyDeprecatedPollingSettings<T extends EngineConfig['externalData']['polling']>(
+  polling: T
+): T {
+  const { provider, apiKey } = polling;
+  const hasProvider = !!provider && provider !== 'none';
+  if (!hasProvider && !apiKey) {
+    return polling;
+  }
+
+  console.warn(
+    '[Config] externalData.polling.provider/apiKey (EXTERNAL_DATA_POLLING_PROVIDER, EXTERNAL_DATA_POLLING_API_KEY) are deprecated; configure polling sources (EXTERNAL_DATA_POLLING_SOURCES) instead'
+  );
+
+  let sources = polling.sources ?? [];
+  if (hasProvider && sources.length === 0) {
+    sources = [{ type: provider, location: provider, name: provider }];
+  }
+  if (sources.length === 0) {
+    return polling;
+  }
+
+  return {
+    ...polling,
+    sources: apiKey ? sources.map((source) => ({ ...source, apiKey: source.apiKey ?? apiKey })) : sources,
+  };
+}
+
 /**
  * Load and validate configuration from environment variables
  * 
@@ -466,6 +734,15 @@ export function loadConfig(): EngineConfig {
       clobApiUrl: process.env.POLYMARKET_CLOB_API_URL || 'https://clob.polymarket.com',
       rateLimitBuffer: parseInt(process.env.POLYMARKET_RATE_LIMIT_BUFFER || '80', 10),
       politicsTagId: parseInt(process.env.POLYMARKET_POLITICS_TAG_ID || '2', 10),
+      discoveryCategories: process.env.POLYMARKET_DISCOVERY_CATEGORIES
+        ? (process.env.POLYMARKET_DISCOVERY_CATEGORIES.split(',').map((category) => category.trim()) as (
+            | 'politics'
+            | 'sports'
+            | 'crypto'
+          )[])
+        : ['politics'],
+      sportsTagId: parseInt(process.env.POLYMARKET_SPORTS_TAG_ID || '1', 10),
+      cryptoTagId: parseInt(process.env.POLYMARKET_CRYPTO_TAG_ID || '21', 10),
       // Enhanced event-based configuration
       eventsApiEndpoint: process.env.POLYMARKET_EVENTS_API_ENDPOINT || '/events',
       includeRelatedTags: process.env.POLYMARKET_INCLUDE_RELATED_TAGS !== 'false',
@@ -498,6 +775,10 @@ export function loadConfig(): EngineConfig {
       keywordExtractionMode: (process.env.POLYMARKET_KEYWORD_EXTRACTION_MODE as 'event_priority' | 'market_priority' | 'balanced') || 'event_priority',
       correlationAnalysisDepth: (process.env.POLYMARKET_CORRELATION_ANALYSIS_DEPTH as 'basic' | 'advanced' | 'comprehensive') || 'basic',
       riskAssessmentLevel: (process.env.POLYMARKET_RISK_ASSESSMENT_LEVEL as 'conservative' | 'moderate' | 'aggressive') || 'moderate',
+      orderBookNotionals: process.env.POLYMARKET_ORDER_BOOK_NOTIONALS
+        ? process.env.POLYMARKET_ORDER_BOOK_NOTIONALS.split(',').map((size) => parseFloat(size.trim()))
+        : undefined,
+      orderBookFixturePath: process.env.POLYMARKET_ORDER_BOOK_FIXTURE,
       // Environment-specific configuration
       environment: nodeEnv,
       environmentConfigs: {
@@ -569,6 +850,13 @@ export function loadConfig(): EngineConfig {
             topP: process.env.NOVA_TOP_P ? parseFloat(process.env.NOVA_TOP_P) : undefined,
           }
         : undefined,
+      cassette: process.env.LLM_CASSETTE_PATH
+        ? {
+            mode: (process.env.LLM_CASSETTE_MODE as 'off' | 'record' | 'replay') || 'replay',
+            path: process.env.LLM_CASSETTE_PATH,
+            strict: process.env.LLM_CASSETTE_STRICT === 'true',
+          }
+        : undefined,
     },
     agents: {
       timeoutMs: parseInt(process.env.AGENT_TIMEOUT_MS || '10000', 10),
@@ -624,21 +912,36 @@ export function loadConfig(): EngineConfig {
         cacheTTL: parseInt(process.env.EXTERNAL_DATA_NEWS_CACHE_TTL || '900', 10),
         maxArticles: parseInt(process.env.EXTERNAL_DATA_NEWS_MAX_ARTICLES || '20', 10),
       },
-      polling: {
-        provider: (process.env.EXTERNAL_DATA_POLLING_PROVIDER as '538' | 'rcp' | 'polymarket' | 'none') || 'none',
+      polling: applyDeprecatedPollingSettings({
+        provider: process.env.EXTERNAL_DATA_POLLING_PROVIDER as '538' | 'rcp' | 'polymarket' | 'none' | undefined,
         apiKey: process.env.EXTERNAL_DATA_POLLING_API_KEY,
         cacheTTL: parseInt(process.env.EXTERNAL_DATA_POLLING_CACHE_TTL || '3600', 10),
-      },
+        sources: process.env.EXTERNAL_DATA_POLLING_SOURCES
+          ? JSON.parse(process.env.EXTERNAL_DATA_POLLING_SOURCES)
+          : undefined,
+        halfLifeDays: process.env.EXTERNAL_DATA_POLLING_HALF_LIFE_DAYS
+          ? parseFloat(process.env.EXTERNAL_DATA_POLLING_HALF_LIFE_DAYS)
+          : undefined,
+      }),
       social: {
         providers: process.env.EXTERNAL_DATA_SOCIAL_PROVIDERS 
-          ? (process.env.EXTERNAL_DATA_SOCIAL_PROVIDERS.split(',') as ('twitter' | 'reddit')[])
+          ? (process.env.EXTERNAL_DATA_SOCIAL_PROVIDERS.split(',') as ('twitter' | 'reddit' | 'jsonfeed')[])
           : [],
         apiKeys: process.env.EXTERNAL_DATA_SOCIAL_API_KEYS 
           ? JSON.parse(process.env.EXTERNAL_DATA_SOCIAL_API_KEYS)
           : undefined,
+        endpoints: process.env.EXTERNAL_DATA_SOCIAL_ENDPOINTS
+          ? JSON.parse(process.env.EXTERNAL_DATA_SOCIAL_ENDPOINTS)
+          : undefined,
         cacheTTL: parseInt(process.env.EXTERNAL_DATA_SOCIAL_CACHE_TTL || '300', 10),
         maxMentions: parseInt(process.env.EXTERNAL_DATA_SOCIAL_MAX_MENTIONS || '100', 10),
       },
+      sports: process.env.EXTERNAL_DATA_SPORTS_SOURCES
+        ? { sources: JSON.parse(process.env.EXTERNAL_DATA_SPORTS_SOURCES) }
+        : undefined,
+      crypto: process.env.EXTERNAL_DATA_CRYPTO_SOURCES
+        ? { sources: JSON.parse(process.env.EXTERNAL_DATA_CRYPTO_SOURCES) }
+        : undefined,
     },
     newsData: process.env.NEWSDATA_INTEGRATION_ENABLED === 'true' ? {
       enabled: true,
@@ -657,6 +960,9 @@ export function loadConfig(): EngineConfig {
           archive: parseInt(process.env.NEWSDATA_CACHE_TTL_ARCHIVE || '1800', 10),
         },
         maxSize: parseInt(process.env.NEWSDATA_CACHE_MAX_SIZE || '1000', 10),
+        backend:
+          (process.env.NEWSDATA_CACHE_BACKEND as 'memory' | 'sqlite' | 'postgres') || 'memory',
+        sqlitePath: process.env.NEWSDATA_CACHE_SQLITE_PATH,
       },
       circuitBreaker: {
         enabled: process.env.NEWSDATA_CIRCUIT_BREAKER_ENABLED !== 'false',
@@ -704,6 +1010,8 @@ export function loadConfig(): EngineConfig {
       contextAdjustments: process.env.SIGNAL_FUSION_CONTEXT_ADJUSTMENTS !== 'false',
       conflictThreshold: parseFloat(process.env.SIGNAL_FUSION_CONFLICT_THRESHOLD || '0.20'),
       alignmentBonus: parseFloat(process.env.SIGNAL_FUSION_ALIGNMENT_BONUS || '0.20'),
+      mode: process.env.SIGNAL_FUSION_MODE as 'heuristic' | 'learned' | undefined,
+      learnedWeightsVersion: process.env.SIGNAL_FUSION_WEIGHTS_VERSION || undefined,
     },
     costOptimization: {
       maxCostPerAnalysis: parseFloat(process.env.COST_OPTIMIZATION_MAX_COST_PER_ANALYSIS || '2.0'),
@@ -714,6 +1022,9 @@ export function loadConfig(): EngineConfig {
       enabled: process.env.PERFORMANCE_TRACKING_ENABLED === 'true',
       evaluateOnResolution: process.env.PERFORMANCE_TRACKING_EVALUATE_ON_RESOLUTION !== 'false',
       minSampleSize: parseInt(process.env.PERFORMANCE_TRACKING_MIN_SAMPLE_SIZE || '10', 10),
+      ledgerWindowDays: process.env.PERFORMANCE_TRACKING_LEDGER_WINDOW_DAYS
+        ? parseInt(process.env.PERFORMANCE_TRACKING_LEDGER_WINDOW_DAYS, 10)
+        : undefined,
     },
     pollingAgent: loadPollingAgentConfig(),
     newsAgents: loadNewsAgentsConfig(),
@@ -722,6 +1033,104 @@ export function loadConfig(): EngineConfig {
       maxSignalsPerAgent: parseInt(process.env.MEMORY_SYSTEM_MAX_SIGNALS_PER_AGENT || '3', 10),
       queryTimeoutMs: parseInt(process.env.MEMORY_SYSTEM_QUERY_TIMEOUT_MS || '5000', 10),
       retryAttempts: parseInt(process.env.MEMORY_SYSTEM_RETRY_ATTEMPTS || '3', 10),
+      comparableMarketsEnabled: process.env.MEMORY_SYSTEM_COMPARABLE_MARKETS_ENABLED === 'true',
+      maxComparableMarkets: parseInt(process.env.MEMORY_SYSTEM_MAX_COMPARABLE_MARKETS || '3', 10),
+      minComparableSimilarity: parseFloat(
+        process.env.MEMORY_SYSTEM_MIN_COMPARABLE_SIMILARITY || '0.25'
+      ),
+    },
+    portfolio: {
+      bankroll: parseFloat(process.env.PORTFOLIO_BANKROLL || '10000'),
+      kellyFraction: parseFloat(process.env.PORTFOLIO_KELLY_FRACTION || '0.25'),
+      maxMarketExposure: parseFloat(process.env.PORTFOLIO_MAX_MARKET_EXPOSURE || '0.05'),
+      maxEventExposure: parseFloat(process.env.PORTFOLIO_MAX_EVENT_EXPOSURE || '0.1'),
+      maxCategoryExposure: parseFloat(process.env.PORTFOLIO_MAX_CATEGORY_EXPOSURE || '0.3'),
+      maxTotalExposure: parseFloat(process.env.PORTFOLIO_MAX_TOTAL_EXPOSURE || '0.6'),
+      minPositionUsd: parseFloat(process.env.PORTFOLIO_MIN_POSITION_USD || '5'),
+      correlationThreshold: parseFloat(process.env.PORTFOLIO_CORRELATION_THRESHOLD || '0.5'),
+    },
+    calibration: {
+      enabled: process.env.CALIBRATION_ENABLED !== 'false',
+      modelVersion: process.env.CALIBRATION_MODEL_VERSION || undefined,
+    },
+    arbitrage: {
+      enabled: process.env.ARBITRAGE_SCAN_ENABLED === 'true',
+      intervalMinutes: parseInt(process.env.ARBITRAGE_SCAN_INTERVAL_MINUTES || '60', 10),
+      maxEvents: parseInt(process.env.ARBITRAGE_SCAN_MAX_EVENTS || '50', 10),
+      minEdge: parseFloat(process.env.ARBITRAGE_MIN_EDGE || '0.01'),
+      staleMoveThreshold: parseFloat(process.env.ARBITRAGE_STALE_MOVE_THRESHOLD || '0.1'),
+      staleMaxMove: parseFloat(process.env.ARBITRAGE_STALE_MAX_MOVE || '0.02'),
+    },
+    positionAdvisor: {
+      enabled: process.env.POSITION_ADVISOR_ENABLED !== 'false',
+      driftThreshold: parseFloat(process.env.POSITION_ADVISOR_DRIFT_THRESHOLD || '0.05'),
+    },
+    triggers: {
+      enabled: process.env.REANALYSIS_TRIGGERS_ENABLED === 'true',
+      intervalMinutes: parseInt(process.env.REANALYSIS_TRIGGER_INTERVAL_MINUTES || '15', 10),
+      maxTrackedMarkets: parseInt(process.env.REANALYSIS_MAX_TRACKED_MARKETS || '50', 10),
+      maxAnalysesPerCheck: parseInt(process.env.REANALYSIS_MAX_ANALYSES_PER_CHECK || '2', 10),
+      priceMoveThreshold: parseFloat(process.env.REANALYSIS_PRICE_MOVE_THRESHOLD || '0.05'),
+      volumeSpikeMultiplier: parseFloat(process.env.REANALYSIS_VOLUME_SPIKE_MULTIPLIER || '3'),
+      newsRelevanceThreshold: parseFloat(process.env.REANALYSIS_NEWS_RELEVANCE_THRESHOLD || '0.5'),
+      expiryWindowHours: parseFloat(process.env.REANALYSIS_EXPIRY_WINDOW_HOURS || '48'),
+      cooldownMinutes: {
+        price_move: parseInt(process.env.REANALYSIS_PRICE_MOVE_COOLDOWN_MINUTES || '60', 10),
+        volume_spike: parseInt(process.env.REANALYSIS_VOLUME_SPIKE_COOLDOWN_MINUTES || '120', 10),
+        breaking_news: parseInt(process.env.REANALYSIS_NEWS_COOLDOWN_MINUTES || '60', 10),
+        expiry_approaching: parseInt(process.env.REANALYSIS_EXPIRY_COOLDOWN_MINUTES || '720', 10),
+      },
+    },
+    budget: {
+      enabled: process.env.ANALYSIS_BUDGET_ENABLED === 'true',
+      dailyBudgetUsd: parseFloat(process.env.ANALYSIS_DAILY_BUDGET_USD || '25'),
+      candidateMultiplier: parseFloat(process.env.ANALYSIS_BUDGET_CANDIDATE_MULTIPLIER || '3'),
+      minValueOfInformation: parseFloat(process.env.ANALYSIS_BUDGET_MIN_VALUE_OF_INFORMATION || '0.2'),
+    },
+    agentPlugins: {
+      enabled: process.env.AGENT_PLUGINS_ENABLED !== 'false',
+      disabled: process.env.AGENT_PLUGINS_DISABLED
+        ? process.env.AGENT_PLUGINS_DISABLED.split(',').map((name) => name.trim()).filter(Boolean)
+        : [],
+    },
+    prompts: {
+      templatesPath: process.env.PROMPT_TEMPLATES_PATH,
+      experiments: process.env.PROMPT_EXPERIMENTS
+        ? JSON.parse(process.env.PROMPT_EXPERIMENTS)
+        : [],
+    },
+    storyClustering: {
+      enabled: process.env.STORY_CLUSTERING_ENABLED !== 'false',
+      similarityThreshold: parseFloat(process.env.STORY_CLUSTERING_SIMILARITY_THRESHOLD || '0.5'),
+      growthWindowHours: parseFloat(process.env.STORY_CLUSTERING_GROWTH_WINDOW_HOURS || '6'),
+      maxStories: parseInt(process.env.STORY_CLUSTERING_MAX_STORIES || '50', 10),
+    },
+    sourceCredibility: {
+      enabled: process.env.SOURCE_CREDIBILITY_ENABLED !== 'false',
+      tiers: process.env.SOURCE_CREDIBILITY_TIERS
+        ? JSON.parse(process.env.SOURCE_CREDIBILITY_TIERS)
+        : {},
+      learningEnabled: process.env.SOURCE_CREDIBILITY_LEARNING_ENABLED !== 'false',
+      minOutcomes: parseInt(process.env.SOURCE_CREDIBILITY_MIN_OUTCOMES || '20', 10),
+      learningRefreshMinutes: parseInt(
+        process.env.SOURCE_CREDIBILITY_LEARNING_REFRESH_MINUTES || '60',
+        10
+      ),
+      learningLookbackDays: parseInt(
+        process.env.SOURCE_CREDIBILITY_LEARNING_LOOKBACK_DAYS || '365',
+        10
+      ),
+    },
+    newsProvider: {
+      provider: process.env.NEWS_PROVIDER || 'newsdata',
+      fallbackProviders: process.env.NEWS_FALLBACK_PROVIDERS
+        ? process.env.NEWS_FALLBACK_PROVIDERS.split(',').map((name) => name.trim())
+        : [],
+      rssFeeds: process.env.NEWS_RSS_FEEDS
+        ? process.env.NEWS_RSS_FEEDS.split(',').map((url) => url.trim())
+        : [],
+      archivePath: process.env.NEWS_ARCHIVE_PATH,
+      validationEnabled: process.env.NEWS_VALIDATION_ENABLED !== 'false',
     },
     workflowService: process.env.WORKFLOW_SERVICE_URL ? {
       url: process.env.WORKFLOW_SERVICE_URL,
@@ -778,7 +1187,7 @@ function fixMisconfiguredAgentGroups(config: EngineConfig): EngineConfig {
   
   // Polling agents require polling data
   if (fixed.advancedAgents.pollingStatistical.enabled && 
-      fixed.externalData.polling.provider === 'none') {
+      (fixed.externalData.polling.sources?.length ?? 0) === 0) {
     console.warn('[Config] Disabling Polling & Statistical agents: polling data source not configured');
     fixed.advancedAgents.pollingStatistical.enabled = false;
   }
@@ -918,14 +1327,16 @@ export function createConfig(overrides: Partial<EngineConfig>): EngineConfig {
         ...baseConfig.externalData.news,
         ...(overrides.externalData?.news || {}),
       },
-      polling: {
+      polling: applyDeprecatedPollingSettings({
         ...baseConfig.externalData.polling,
         ...(overrides.externalData?.polling || {}),
-      },
+      }),
       social: {
         ...baseConfig.externalData.social,
         ...(overrides.externalData?.social || {}),
       },
+      sports: overrides.externalData?.sports ?? baseConfig.externalData.sports,
+      crypto: overrides.externalData?.crypto ?? baseConfig.externalData.crypto,
     },
     newsData: overrides.newsData || baseConfig.newsData ? {
       ...baseConfig.newsData,
@@ -985,6 +1396,54 @@ export function createConfig(overrides: Partial<EngineConfig>): EngineConfig {
       ...baseConfig.memorySystem,
       ...(overrides.memorySystem || {}),
     },
+    portfolio: overrides.portfolio || baseConfig.portfolio ? {
+      ...baseConfig.portfolio,
+      ...(overrides.portfolio || {}),
+    } as EngineConfig['portfolio'] : undefined,
+    calibration: overrides.calibration || baseConfig.calibration ? {
+      ...baseConfig.calibration,
+      ...(overrides.calibration || {}),
+    } as EngineConfig['calibration'] : undefined,
+    arbitrage: overrides.arbitrage || baseConfig.arbitrage ? {
+      ...baseConfig.arbitrage,
+      ...(overrides.arbitrage || {}),
+    } as EngineConfig['arbitrage'] : undefined,
+    positionAdvisor: overrides.positionAdvisor || baseConfig.positionAdvisor ? {
+      ...baseConfig.positionAdvisor,
+      ...(overrides.positionAdvisor || {}),
+    } as EngineConfig['positionAdvisor'] : undefined,
+    triggers: overrides.triggers || baseConfig.triggers ? {
+      ...baseConfig.triggers,
+      ...(overrides.triggers || {}),
+      cooldownMinutes: {
+        ...baseConfig.triggers?.cooldownMinutes,
+        ...(overrides.triggers?.cooldownMinutes || {}),
+      },
+    } as EngineConfig['triggers'] : undefined,
+    budget: overrides.budget || baseConfig.budget ? {
+      ...baseConfig.budget,
+      ...(overrides.budget || {}),
+    } as EngineConfig['budget'] : undefined,
+    agentPlugins: overrides.agentPlugins || baseConfig.agentPlugins ? {
+      ...baseConfig.agentPlugins,
+      ...(overrides.agentPlugins || {}),
+    } as EngineConfig['agentPlugins'] : undefined,
+    prompts: overrides.prompts || baseConfig.prompts ? {
+      ...baseConfig.prompts,
+      ...(overrides.prompts || {}),
+    } as EngineConfig['prompts'] : undefined,
+    storyClustering: overrides.storyClustering || baseConfig.storyClustering ? {
+      ...baseConfig.storyClustering,
+      ...(overrides.storyClustering || {}),
+    } as EngineConfig['storyClustering'] : undefined,
+    sourceCredibility: overrides.sourceCredibility || baseConfig.sourceCredibility ? {
+      ...baseConfig.sourceCredibility,
+      ...(overrides.sourceCredibility || {}),
+    } as EngineConfig['sourceCredibility'] : undefined,
+    newsProvider: overrides.newsProvider || baseConfig.newsProvider ? {
+      ...baseConfig.newsProvider,
+      ...(overrides.newsProvider || {}),
+    } as EngineConfig['newsProvider'] : undefined,
     workflowService: overrides.workflowService || baseConfig.workflowService ? {
       ...baseConfig.workflowService,
       ...(overrides.workflowService || {}),
@@ -1010,6 +1469,9 @@ export function getDefaultConfig(): Partial<EngineConfig> {
       clobApiUrl: 'https://clob.polymarket.com',
       rateLimitBuffer: 80,
       politicsTagId: 2,
+      discoveryCategories: ['politics'],
+      sportsTagId: 1,
+      cryptoTagId: 21,
       eventsApiEndpoint: '/events',
       includeRelatedTags: true,
       maxEventsPerDiscovery: 20,
@@ -1130,7 +1592,6 @@ export function getDefaultConfig(): Partial<EngineConfig> {
         maxArticles: 20,
       },
       polling: {
-        provider: 'none',
         cacheTTL: 3600,
       },
       social: {
@@ -1155,6 +1616,7 @@ export function getDefaultConfig(): Partial<EngineConfig> {
           archive: 1800,
         },
         maxSize: 1000,
+        backend: 'memory',
       },
       circuitBreaker: {
         enabled: true,
@@ -1233,6 +1695,83 @@ export function getDefaultConfig(): Partial<EngineConfig> {
       maxSignalsPerAgent: 3,
       queryTimeoutMs: 5000,
       retryAttempts: 3,
+      comparableMarketsEnabled: false,
+      maxComparableMarkets: 3,
+      minComparableSimilarity: 0.25,
+    },
+    portfolio: {
+      bankroll: 10000,
+      kellyFraction: 0.25,
+      maxMarketExposure: 0.05,
+      maxEventExposure: 0.1,
+      maxCategoryExposure: 0.3,
+      maxTotalExposure: 0.6,
+      minPositionUsd: 5,
+      correlationThreshold: 0.5,
+    },
+    calibration: {
+      enabled: true,
+    },
+    arbitrage: {
+      enabled: false,
+      intervalMinutes: 60,
+      maxEvents: 50,
+      minEdge: 0.01,
+      staleMoveThreshold: 0.1,
+      staleMaxMove: 0.02,
+    },
+    positionAdvisor: {
+      enabled: true,
+      driftThreshold: 0.05,
+    },
+    triggers: {
+      enabled: false,
+      intervalMinutes: 15,
+      maxTrackedMarkets: 50,
+      maxAnalysesPerCheck: 2,
+      priceMoveThreshold: 0.05,
+      volumeSpikeMultiplier: 3,
+      newsRelevanceThreshold: 0.5,
+      expiryWindowHours: 48,
+      cooldownMinutes: {
+        price_move: 60,
+        volume_spike: 120,
+        breaking_news: 60,
+        expiry_approaching: 720,
+      },
+    },
+    budget: {
+      enabled: false,
+      dailyBudgetUsd: 25,
+      candidateMultiplier: 3,
+      minValueOfInformation: 0.2,
+    },
+    agentPlugins: {
+      enabled: true,
+      disabled: [],
+    },
+    prompts: {
+      experiments: [],
+    },
+    storyClustering: {
+      enabled: true,
+      similarityThreshold: 0.5,
+      growthWindowHours: 6,
+      maxStories: 50,
+    },
+    sourceCredibility: {
+      enabled: true,
+      tiers: {},
+      learningEnabled: true,
+      minOutcomes: 20,
+      learningRefreshMinutes: 60,
+      learningLookbackDays: 365,
+    },
+    newsProvider: {
+      provider: 'newsdata',
+      fallbackProviders: [],
+      rssFeeds: [],
+      validationEnabled: true,
     },
     workflowService: {
       timeoutMs: 120000,
@@ -41,8 +41,12 @@ export {
   MemoryRetrievalService,
   MemoryRetrievalServiceImpl,
   createMemoryRetrievalService,
+  scoreComparableMarket,
+  DEFAULT_MIN_COMPARABLE_SIMILARITY,
   HistoricalSignal,
   AgentMemoryContext,
+  ComparableMarketQuery,
+  ComparableMarketMemory,
 } from './memory-retrieval.js';
 
 export type {
@@ -9,6 +9,7 @@
 
 import { describe, it, expect } from 'vitest';
 import type { AgentMemoryContext, HistoricalSignal } from './memory-retrieval.js';
+import { scoreComparableMarket, DEFAULT_MIN_COMPARABLE_SIMILARITY } from './memory-retrieval.js';
 import { formatMemoryContext } from '../utils/memory-formatter.js';
 
 describe('Memory Retrieval Formatting Integration', () => {
@@ -150,4 +151,35 @@ describe('Memory Retrieval Formatting Integration', () => {
     expect(formatted.text).toContain('Confidence: 60.0%');
     expect(formatted.text).toContain('• Mixed signals from social media');
   });
+
+  it('should rank comparable markets by shared event, type and keywords', () => {
+    const query = {
+      marketId: 'market-current',
+      question: 'Will the Fed cut interest rates in June 2025?',
+      eventType: 'economic',
+      eventId: 'fed-2025',
+      keywords: ['fomc', 'interest rates', 'inflation'],
+    };
+
+    const sameEvent = scoreComparableMarket(query, {
+      question: 'Will the Fed cut interest rates in March 2025?',
+      eventType: 'economic',
+      eventId: 'fed-2025',
+      keyDrivers: ['FOMC minutes signal patience on inflation'],
+    });
+    const sameType = scoreComparableMarket(query, {
+      question: 'Will the ECB cut interest rates in June 2025?',
+      eventType: 'economic',
+      eventId: 'ecb-2025',
+    });
+    const unrelated = scoreComparableMarket(query, {
+      question: 'Will the Lakers win the NBA championship?',
+      eventType: 'sports',
+    });
+
+    expect(sameEvent).toBeGreaterThan(sameType);
+    expect(sameType).toBeGreaterThan(DEFAULT_MIN_COMPARABLE_SIMILARITY);
+    expect(unrelated).toBeLessThan(DEFAULT_MIN_COMPARABLE_SIMILARITY);
+    expect(sameEvent).toBeLessThanOrEqual(1);
+  });
 });
@@ -85,6 +85,112 @@ export interface AgentMemoryContext {
   marketId: string;
   historicalSignals: HistoricalSignal[];
   hasHistory: boolean;
+  comparableMarkets?: ComparableMarketMemory[];
+}
+
+/**
+ * Market to find comparable markets for
+ */
+export interface ComparableMarketQuery {
+  marketId: string;
+  question: string;
+  eventType: string;
+  eventId?: string;
+  keywords?: string[];
+}
+
+/**
+ * An agent's latest signal on a market similar to the one being analyzed
+ */
+export interface ComparableMarketMemory {
+  marketId: string;
+  question: string;
+  eventType: string;
+  sameEvent: boolean;
+  similarity: number; // 0-1
+  resolvedOutcome?: string;
+  signal: HistoricalSignal;
+}
+
+/**
+ * Candidate market row used for comparable-market scoring
+ */
+interface ComparableMarketCandidate {
+  id: string;
+  question: string;
+  event_type: string;
+  event_id: string | null;
+  resolved_outcome: string | null;
+}
+
+/**
+ * Markets scanned per comparable-market lookup
+ */
+const COMPARABLE_CANDIDATE_POOL = 100;
+
+/**
+ * Default minimum similarity for a market to count as comparable
+ */
+export const DEFAULT_MIN_COMPARABLE_SIMILARITY = 0.25;
+
+const SIMILARITY_STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by',
+  'will', 'be', 'is', 'are', 'was', 'were', 'before', 'after', 'than', 'this', 'that', 'from',
+]);
+
+function similarityTerms(texts: string[]): Set<string> {
+  const terms = new Set<string>();
+  for (const text of texts) {
+    for (const word of text.toLowerCase().split(/[^a-z0-9]+/)) {
+      if (word.length > 2 && !SIMILARITY_STOP_WORDS.has(word)) {
+        terms.add(word);
+      }
+    }
+  }
+  return terms;
+}
+
+function intersectionSize(a: Set<string>, b: Set<string>): number {
+  let count = 0;
+  for (const term of a) {
+    if (b.has(term)) {
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Score how comparable a past market is to the market being analyzed
+ *
+ * Weighted blend of question overlap (Jaccard), overlap between this market's
+ * keywords and the past market's question and key drivers (overlap
+ * coefficient), and bonuses for sharing the event and the event type.
+ *
+ * @returns Similarity between 0 and 1
+ */
+export function scoreComparableMarket(
+  query: ComparableMarketQuery,
+  candidate: { question: string; eventType: string; eventId?: string | null; keyDrivers?: string[] }
+): number {
+  const queryQuestion = similarityTerms([query.question]);
+  const candidateQuestion = similarityTerms([candidate.question]);
+  const questionUnion = new Set([...queryQuestion, ...candidateQuestion]).size;
+  const questionOverlap =
+    questionUnion > 0 ? intersectionSize(queryQuestion, candidateQuestion) / questionUnion : 0;
+
+  const queryKeywords = similarityTerms([query.question, ...(query.keywords ?? [])]);
+  const candidateKeywords = similarityTerms([candidate.question, ...(candidate.keyDrivers ?? [])]);
+  const smaller = Math.min(queryKeywords.size, candidateKeywords.size);
+  const keywordOverlap =
+    smaller > 0 ? intersectionSize(queryKeywords, candidateKeywords) / smaller : 0;
+
+  const sameEvent = Boolean(query.eventId && candidate.eventId === query.eventId);
+  const sameType = candidate.eventType === query.eventType;
+
+  const score =
+    0.45 * questionOverlap + 0.25 * keywordOverlap + (sameEvent ? 0.2 : 0) + (sameType ? 0.1 : 0);
+  return Math.round(score * 1000) / 1000;
 }
 
 /**
@@ -116,6 +222,22 @@ export interface MemoryRetrievalService {
     agentNames: string[],
     limit?: number
   ): Promise<Map<string, AgentMemoryContext>>;
+
+  /**
+   * Retrieve each agent's signals on markets similar to the given market
+   * (same event, same event type, overlapping keywords), most similar first
+   * @param query - Market being analyzed
+   * @param agentNames - List of agent names to retrieve comparable markets for
+   * @param limit - Maximum number of comparable markets per agent (default: 3)
+   * @param minSimilarity - Minimum similarity score (default: 0.25)
+   * @returns Map of agent name to comparable market memories
+   */
+  getComparableMarketMemories(
+    query: ComparableMarketQuery,
+    agentNames: string[],
+    limit?: number,
+    minSimilarity?: number
+  ): Promise<Map<string, ComparableMarketMemory[]>>;
 }
 
 /**
@@ -528,6 +650,212 @@ export class MemoryRetrievalServiceImpl implements MemoryRetrievalService {
     }
   }
 
+  /**
+   * Retrieve each agent's signals on comparable markets
+   * Uses the same retry and graceful degradation as getAgentMemory (Requirements 9.1-9.5)
+   */
+  async getComparableMarketMemories(
+    query: ComparableMarketQuery,
+    agentNames: string[],
+    limit: number = 3,
+    minSimilarity: number = DEFAULT_MIN_COMPARABLE_SIMILARITY
+  ): Promise<Map<string, ComparableMarketMemory[]>> {
+    const startTime = Date.now();
+    const context = { marketId: query.marketId, agentCount: agentNames.length, limit };
+    const metricsCollector = getMemoryMetricsCollector();
+
+    try {
+      const result = await this.executeWithRetry(
+        () => this.queryComparableMarkets(query, agentNames, limit, minSimilarity),
+        context
+      );
+
+      const duration = Date.now() - startTime;
+      const signalCount = Array.from(result.values()).reduce(
+        (sum, memories) => sum + memories.length,
+        0
+      );
+
+      metricsCollector.recordRetrieval({
+        duration,
+        success: true,
+        marketId: query.marketId,
+        signalCount,
+      });
+
+      console.log('[MemoryRetrieval] Retrieved comparable market memories:', {
+        marketId: query.marketId,
+        totalAgents: agentNames.length,
+        signalCount,
+        duration,
+      });
+
+      return result;
+    } catch (error) {
+      const duration = Date.now() - startTime;
+
+      metricsCollector.recordRetrieval({
+        duration,
+        success: false,
+        marketId: query.marketId,
+        error: {
+          type: error instanceof MemoryRetrievalError ? error.type : 'UNKNOWN_ERROR',
+          message: error instanceof Error ? error.message : String(error),
+          context: error instanceof MemoryRetrievalError ? error.context : undefined,
+        },
+        timeout:
+          error instanceof MemoryRetrievalError &&
+          error.type === MemoryRetrievalErrorType.TIMEOUT_ERROR,
+      });
+
+      console.error('[MemoryRetrieval] Comparable market retrieval failed:', {
+        errorType: error instanceof MemoryRetrievalError ? error.type : 'UNKNOWN',
+        message: error instanceof Error ? error.message : String(error),
+        context,
+        duration,
+      });
+
+      // Graceful degradation: no comparable markets (Requirement 9.4)
+      return new Map(agentNames.map((agentName) => [agentName, []]));
+    }
+  }
+
+  /**
+   * Query candidate markets and the agents' latest signals on them, then
+   * rank per agent by similarity (Requirement 9.3: 5 second timeout)
+   */
+  private async queryComparableMarkets(
+    query: ComparableMarketQuery,
+    agentNames: string[],
+    limit: number,
+    minSimilarity: number
+  ): Promise<Map<string, ComparableMarketMemory[]>> {
+    const timeoutMs = 5000;
+    const errorContext = { marketId: query.marketId };
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(
+          new MemoryRetrievalError(
+            MemoryRetrievalErrorType.TIMEOUT_ERROR,
+            'Query timeout exceeded',
+            { ...errorContext, timeoutMs }
+          )
+        );
+      }, timeoutMs);
+    });
+
+    const run = async (): Promise<Map<string, ComparableMarketMemory[]>> => {
+      const client = this.supabaseManager.getClient();
+
+      // Same event or same event type, resolved markets first
+      let candidateQuery = client
+        .from('markets')
+        .select('id, question, event_type, event_id, resolved_outcome')
+        .neq('id', query.marketId);
+      candidateQuery = query.eventId
+        ? candidateQuery.or(`event_id.eq.${query.eventId},event_type.eq.${query.eventType}`)
+        : candidateQuery.eq('event_type', query.eventType);
+
+      const { data: candidates, error: candidateError } = await candidateQuery
+        .order('resolved_outcome', { ascending: true, nullsFirst: false })
+        .order('updated_at', { ascending: false })
+        .limit(COMPARABLE_CANDIDATE_POOL);
+
+      if (candidateError) {
+        throw this.classifyDatabaseError(candidateError, errorContext);
+      }
+
+      const memories = new Map<string, ComparableMarketMemory[]>(
+        agentNames.map((agentName) => [agentName, []])
+      );
+      if (!candidates || candidates.length === 0) {
+        return memories;
+      }
+
+      const marketsById = new Map(
+        (candidates as ComparableMarketCandidate[]).map((market) => [market.id, market])
+      );
+
+      const { data: rows, error: signalError } = await client
+        .from('agent_signals')
+        .select('*')
+        .in('market_id', Array.from(marketsById.keys()))
+        .in('agent_name', agentNames)
+        .order('created_at', { ascending: false })
+        .limit(COMPARABLE_CANDIDATE_POOL * agentNames.length);
+
+      if (signalError) {
+        throw this.classifyDatabaseError(signalError, errorContext);
+      }
+
+      // Latest signal per agent-market pair (rows are newest first)
+      const seen = new Set<string>();
+      for (const row of rows ?? []) {
+        const pairKey = `${row.agent_name}:${row.market_id}`;
+        const market = row.market_id ? marketsById.get(row.market_id) : undefined;
+        if (seen.has(pairKey) || !market) {
+          continue;
+        }
+        seen.add(pairKey);
+
+        const signal = this.transformToHistoricalSignal(row);
+        if (!signal) {
+          continue;
+        }
+
+        const similarity = scoreComparableMarket(query, {
+          question: market.question,
+          eventType: market.event_type,
+          eventId: market.event_id,
+          keyDrivers: signal.keyDrivers,
+        });
+        if (similarity < minSimilarity) {
+          continue;
+        }
+
+        memories.get(row.agent_name)?.push({
+          marketId: market.id,
+          question: market.question,
+          eventType: market.event_type,
+          sameEvent: Boolean(query.eventId && market.event_id === query.eventId),
+          similarity,
+          resolvedOutcome: market.resolved_outcome ?? undefined,
+          signal,
+        });
+      }
+
+      for (const [agentName, agentMemories] of memories) {
+        agentMemories.sort(
+          (a, b) =>
+            b.similarity - a.similarity ||
+            Number(Boolean(b.resolvedOutcome)) - Number(Boolean(a.resolvedOutcome))
+        );
+        memories.set(agentName, agentMemories.slice(0, limit));
+      }
+
+      return memories;
+    };
+
+    try {
+      return await Promise.race([run(), timeoutPromise]);
+    } catch (error) {
+      if (error instanceof MemoryRetrievalError) {
+        throw error;
+      }
+
+      throw new MemoryRetrievalError(
+        MemoryRetrievalErrorType.UNKNOWN_ERROR,
+        'Unexpected error during comparable market query',
+        errorContext,
+        error instanceof Error ? error : undefined
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   /**
    * Create empty memory context
    */
@@ -30,9 +30,27 @@ describe('DatabasePersistence - Property Tests', () => {
       storeRecommendation: mockStoreRecommendation as any,
       storeAgentSignals: mockStoreAgentSignals as any,
       getLatestRecommendation: mockGetLatestRecommendation as any,
+      getOpeningRecommendation: vi.fn() as any,
       recordAnalysis: vi.fn() as any,
       getMarketsForUpdate: vi.fn() as any,
       markMarketResolved: vi.fn() as any,
+      getOpenRecommendations: vi.fn() as any,
+      storePortfolioAllocation: vi.fn() as any,
+      getAgentPerformanceLedger: vi.fn() as any,
+      getFusionTrainingExamples: vi.fn() as any,
+      storeFusionWeightSet: vi.fn() as any,
+      getFusionWeightSet: vi.fn() as any,
+      getCalibrationExamples: vi.fn() as any,
+      storeCalibrationModelSet: vi.fn() as any,
+      getCalibrationModelSet: vi.fn() as any,
+      getSourceOutcomes: vi.fn() as any,
+      storeArbitrageOpportunities: vi.fn() as any,
+      getArbitrageOpportunities: vi.fn() as any,
+      storePositionAdvice: vi.fn() as any,
+      getLatestPositionAdvice: vi.fn() as any,
+      recordAnalysisSpend: vi.fn() as any,
+      getAnalysisSpend: vi.fn() as any,
+      getEdgeHistory: vi.fn() as any,
     };
   });
 
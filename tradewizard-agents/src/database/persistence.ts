@@ -5,10 +5,38 @@
  * market analysis data from Supabase PostgreSQL.
  */
 
+import { randomUUID } from 'crypto';
 import type { SupabaseClientManager } from './supabase-client.js';
-import type { TablesInsert, TablesUpdate, Json } from './types.js';
-import type { TradeRecommendation, AgentSignal, MarketId } from '../models/types.js';
+import type { Tables, TablesInsert, TablesUpdate, Json } from './types.js';
+import type {
+  TradeRecommendation,
+  AgentSignal,
+  Citation,
+  MarketId,
+  ArbitrageOpportunity,
+  PositionAction,
+  PositionAdvice,
+} from '../models/types.js';
+import type { PortfolioAllocation } from '../utils/portfolio-allocator.js';
+import type { AnalysisSpendEntry } from '../utils/analysis-planner.js';
+import type { FusionTrainingExample, FusionWeightSet } from '../utils/fusion-weights.js';
+import type {
+  CalibrationExample,
+  CalibrationMethod,
+  CalibrationModelSet,
+} from '../utils/probability-calibration.js';
+import type { SourceOutcome } from '../utils/source-credibility.js';
+import {
+  getLedgerWindowStart,
+  scoreResolvedForecasts,
+  type AgentPerformanceLedgerEntry,
+  type ResolvedAgentForecast,
+} from '../utils/performance-tracking.js';
 import { retryDatabaseOperation } from '../utils/retry-logic.js';
+import {
+  findOpeningRecommendation,
+  type RecommendationHistoryEntry,
+} from '../utils/position-advisor.js';
 
 /**
  * Market data for database storage
@@ -24,6 +52,7 @@ export interface MarketData {
   status?: 'active' | 'inactive' | 'resolved';
   resolvedOutcome?: string;
   trendingScore?: number;
+  eventId?: string;
 }
 
 /**
@@ -38,6 +67,31 @@ export interface AnalysisRecord {
   errorMessage?: string;
 }
 
+/**
+ * Latest actionable recommendation for an active market
+ */
+export interface OpenRecommendation {
+  recommendationId: string;
+  marketId: string;
+  conditionId: string;
+  question: string;
+  eventType: string;
+  eventId?: string;
+  marketProbability?: number;
+  action: 'LONG_YES' | 'LONG_NO';
+  fairProbability: number;
+  createdAt: string | null;
+}
+
+/**
+ * Stored position advice with its market context
+ */
+export interface PositionAdviceRecord extends PositionAdvice {
+  adviceId: string;
+  recommendationId: string | null;
+  question: string;
+}
+
 /**
  * Database Persistence Interface
  */
@@ -76,6 +130,9 @@ export interface DatabasePersistence {
 
   /**
    * Mark market as resolved
+   *
+   * The first time a market resolves YES or NO, each agent's final forecast is
+   * scored into the agent performance ledger.
    */
   markMarketResolved(marketId: MarketId, outcome: string): Promise<void>;
 
@@ -83,8 +140,132 @@ export interface DatabasePersistence {
    * Get latest recommendation for a market
    */
   getLatestRecommendation(marketId: MarketId): Promise<TradeRecommendation | null>;
+
+  /**
+   * Get the recommendation a market's open position was opened on
+   *
+   * Repeated same-direction and NO_TRADE recommendations keep the position
+   * open; CUT/TAKE_PROFIT advice or an opposite-direction recommendation ends it.
+   */
+  getOpeningRecommendation(marketId: MarketId): Promise<TradeRecommendation | null>;
+
+  /**
+   * Get the latest LONG_YES/LONG_NO recommendation for every active market
+   */
+  getOpenRecommendations(): Promise<OpenRecommendation[]>;
+
+  /**
+   * Store a portfolio allocation (one row per sized recommendation)
+   * @returns allocation_run_id (UUID)
+   */
+  storePortfolioAllocation(allocation: PortfolioAllocation): Promise<string>;
+
+  /**
+   * Get agent performance ledger rows
+   * @param options.since - Only windows containing or after this date
+   * @param options.category - Only this market category
+   */
+  getAgentPerformanceLedger(options?: {
+    since?: Date;
+    category?: string;
+  }): Promise<AgentPerformanceLedgerEntry[]>;
+
+  /**
+   * Get resolved YES/NO markets with each agent's final forecast
+   * @param options.since - Only markets resolved on or after this date
+   */
+  getFusionTrainingExamples(options?: { since?: Date }): Promise<FusionTrainingExample[]>;
+
+  /**
+   * Store a learned fusion weight set
+   * @returns weight set row ID (UUID)
+   */
+  storeFusionWeightSet(weightSet: FusionWeightSet): Promise<string>;
+
+  /**
+   * Get a learned fusion weight set
+   * @param version - Version to load (latest when omitted)
+   */
+  getFusionWeightSet(version?: string): Promise<FusionWeightSet | null>;
+
+  /**
+   * Get the latest recommendation's raw consensus probability for each
+   * market resolved YES or NO
+   * @param options.since - Only markets resolved on or after this date
+   */
+  getCalibrationExamples(options?: { since?: Date }): Promise<CalibrationExample[]>;
+
+  /**
+   * Store a calibration model set
+   * @returns model set row ID (UUID)
+   */
+  storeCalibrationModelSet(modelSet: CalibrationModelSet): Promise<string>;
+
+  /**
+   * Get a calibration model set
+   * @param version - Version to load (latest when omitted)
+   */
+  getCalibrationModelSet(version?: string): Promise<CalibrationModelSet | null>;
+
+  /**
+   * Get one outcome per source cited by a YES/NO agent signal on a market
+   * resolved YES or NO (correct when the signal's direction matched)
+   * @param options.since - Only markets resolved on or after this date
+   */
+  getSourceOutcomes(options?: { since?: Date }): Promise<SourceOutcome[]>;
+
+  /**
+   * Store the ranked opportunities of one arbitrage scan
+   * @returns scan ID shared by the stored rows (UUID)
+   */
+  storeArbitrageOpportunities(opportunities: ArbitrageOpportunity[]): Promise<string>;
+
+  /**
+   * Get stored arbitrage opportunities, most recent scan first, best rank first
+   * @param options.since - Only opportunities detected on or after this date
+   * @param options.limit - Maximum rows (default: 50)
+   */
+  getArbitrageOpportunities(options?: { since?: Date; limit?: number }): Promise<ArbitrageOpportunity[]>;
+
+  /**
+   * Store advice for the position implied by a market's previous recommendation
+   * @param recommendationId - Fresh recommendation the advice was derived from
+   * @returns advice ID (UUID)
+   */
+  storePositionAdvice(
+    marketId: MarketId,
+    recommendationId: string,
+    advice: PositionAdvice
+  ): Promise<string>;
+
+  /**
+   * Get the latest position advice for every active market
+   * @param options.action - Only advice with this action
+   */
+  getLatestPositionAdvice(options?: { action?: PositionAction }): Promise<PositionAdviceRecord[]>;
+
+  /**
+   * Record the spend of one analysis in the budget ledger
+   */
+  recordAnalysisSpend(entry: AnalysisSpendEntry): Promise<void>;
+
+  /**
+   * Get total analysis spend (actual cost, else estimate) since a date
+   */
+  getAnalysisSpend(since: Date): Promise<number>;
+
+  /**
+   * Get edges of previous recommendations per market, newest first
+   * @param conditionIds - Markets to look up; unknown markets are omitted
+   */
+  getEdgeHistory(conditionIds: string[]): Promise<Record<string, number[]>>;
 }
 
+/**
+ * Number of recent recommendations searched for a market's opening recommendation
+ */
+const OPENING_RECOMMENDATION_LOOKBACK = 50;
+
 /**
  * Database Persistence Implementation
  */
@@ -130,6 +311,7 @@ export class DatabasePersistenceImpl implements DatabasePersistence {
           status: market.status || 'active',
           resolved_outcome: market.resolvedOutcome,
           trending_score: market.trendingScore,
+          event_id: market.eventId,
           last_analyzed_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         };
@@ -162,6 +344,7 @@ export class DatabasePersistenceImpl implements DatabasePersistence {
           status: market.status || 'active',
           resolved_outcome: market.resolvedOutcome,
           trending_score: market.trendingScore,
+          event_id: market.eventId,
           last_analyzed_at: new Date().toISOString(),
         };
 
@@ -202,6 +385,8 @@ export class DatabasePersistenceImpl implements DatabasePersistence {
         market_id: normalizedMarketId,
         direction: recommendation.action,
         fair_probability: recommendation.metadata.consensusProbability,
+        raw_fair_probability: recommendation.metadata.rawConsensusProbability,
+        probability_regime: recommendation.metadata.probabilityRegime,
         market_edge: recommendation.metadata.edge,
         expected_value: recommendation.expectedValue,
         confidence: this.mapConfidenceLevel(recommendation.metadata.confidenceBand),
@@ -259,6 +444,9 @@ export class DatabasePersistenceImpl implements DatabasePersistence {
         direction: signal.direction,
         key_drivers: signal.keyDrivers as Json,
         metadata: signal.metadata as Json,
+        citations: (signal.citations ?? null) as Json,
+        prompt_version:
+          typeof signal.metadata?.promptVersion === 'string' ? signal.metadata.promptVersion : null,
       }));
 
       const { error } = await client.from('agent_signals').insert(insertData);
@@ -370,14 +558,49 @@ export class DatabasePersistenceImpl implements DatabasePersistence {
         updated_at: new Date().toISOString(),
       };
 
-      const { error } = await client.from('markets').update(updateData).eq('id', normalizedMarketId);
+      // Only the update that moves the market to resolved returns a row, so
+      // concurrent resolvers cannot both score it
+      const { data: transitioned, error } = await client
+        .from('markets')
+        .update(updateData)
+        .eq('id', normalizedMarketId)
+        .neq('status', 'resolved')
+        .select('event_type');
 
       if (error) {
         console.error('[DatabasePersistence] Error marking market as resolved:', error);
         throw new Error(`Failed to mark market as resolved: ${error.message}`);
       }
 
+      const resolvedMarket = transitioned?.[0];
+      if (!resolvedMarket) {
+        // Already resolved (or unknown): refresh the outcome without scoring again
+        const { error: refreshError } = await client
+          .from('markets')
+          .update(updateData)
+          .eq('id', normalizedMarketId);
+
+        if (refreshError) {
+          console.error('[DatabasePersistence] Error marking market as resolved:', refreshError);
+          throw new Error(`Failed to mark market as resolved: ${refreshError.message}`);
+        }
+      }
+
       console.log('[DatabasePersistence] Market marked as resolved:', normalizedMarketId);
+
+      // Score each market once; a ledger failure must not fail the resolution
+      const normalizedOutcome = outcome.toUpperCase();
+      if (resolvedMarket && (normalizedOutcome === 'YES' || normalizedOutcome === 'NO')) {
+        try {
+          await this.updatePerformanceLedger(
+            normalizedMarketId,
+            resolvedMarket.event_type,
+            normalizedOutcome
+          );
+        } catch (ledgerError) {
+          console.error('[DatabasePersistence] Failed to update performance ledger:', ledgerError);
+        }
+      }
     } catch (error) {
       console.error('[DatabasePersistence] markMarketResolved failed:', error);
       throw error;
@@ -424,29 +647,7 @@ export class DatabasePersistenceImpl implements DatabasePersistence {
         throw new Error(`Failed to get market data: ${marketError?.message || 'No data returned'}`);
       }
 
-      // Reconstruct TradeRecommendation from database row
-      const recommendation: TradeRecommendation = {
-        marketId: marketData.condition_id,
-        action: data.direction as 'LONG_YES' | 'LONG_NO' | 'NO_TRADE',
-        entryZone: [data.entry_zone_min || 0, data.entry_zone_max || 0],
-        targetZone: [data.target_zone_min || 0, data.target_zone_max || 0],
-        stopLoss: data.stop_loss || Math.max(0.01, (data.entry_zone_min || 0) - 0.03),
-        expectedValue: data.expected_value || 0,
-        winProbability: data.fair_probability || 0,
-        liquidityRisk: 'medium', // Default value, not stored in DB
-        explanation: {
-          summary: data.explanation || '',
-          coreThesis: '', // Not stored separately
-          keyCatalysts: (data.catalysts as string[]) || [],
-          failureScenarios: (data.risks as string[]) || [],
-        },
-        metadata: {
-          consensusProbability: data.fair_probability || 0,
-          marketProbability: 0, // Not stored in recommendations table
-          edge: data.market_edge || 0,
-          confidenceBand: [0, 1], // Default value, not stored in DB
-        },
-      };
+      const recommendation = this.toTradeRecommendation(data, marketData.condition_id);
 
       console.log('[DatabasePersistence] Latest recommendation retrieved:', data.id);
       return recommendation;
@@ -457,6 +658,1077 @@ export class DatabasePersistenceImpl implements DatabasePersistence {
     }, 'getLatestRecommendation');
   }
 
+  /**
+   * Get the recommendation a market's open position was opened on
+   */
+  async getOpeningRecommendation(marketId: MarketId): Promise<TradeRecommendation | null> {
+    return retryDatabaseOperation(async () => {
+      try {
+        const client = this.clientManager.getClient();
+        const normalizedMarketId = this.normalizeMarketId(marketId);
+
+        const { data: rows, error } = await client
+          .from('recommendations')
+          .select('*')
+          .eq('market_id', normalizedMarketId)
+          .order('created_at', { ascending: false })
+          .limit(OPENING_RECOMMENDATION_LOOKBACK);
+
+        if (error) {
+          console.error('[DatabasePersistence] Error getting recommendation history:', error);
+          throw new Error(`Failed to get recommendation history: ${error.message}`);
+        }
+
+        if (!rows || rows.length === 0) {
+          console.log('[DatabasePersistence] No recommendation found for market:', normalizedMarketId);
+          return null;
+        }
+
+        // Exit advice closes the position held under the recommendation it was derived from
+        const { data: exits, error: exitsError } = await client
+          .from('position_advice')
+          .select('recommendation_id, direction')
+          .in('recommendation_id', rows.map((row) => row.id))
+          .in('action', ['CUT', 'TAKE_PROFIT']);
+
+        if (exitsError) {
+          console.error('[DatabasePersistence] Error getting exit advice:', exitsError);
+          throw new Error(`Failed to get exit advice: ${exitsError.message}`);
+        }
+
+        const closedDirections = new Map(
+          (exits || []).map((exit) => [exit.recommendation_id, exit.direction])
+        );
+
+        const { data: marketData, error: marketError } = await client
+          .from('markets')
+          .select('condition_id')
+          .eq('id', normalizedMarketId)
+          .single();
+
+        if (marketError || !marketData) {
+          console.error('[DatabasePersistence] Error getting market data:', marketError);
+          throw new Error(`Failed to get market data: ${marketError?.message || 'No data returned'}`);
+        }
+
+        const history: RecommendationHistoryEntry[] = rows.map((row) => ({
+          recommendation: this.toTradeRecommendation(row, marketData.condition_id),
+          closedDirection: closedDirections.get(row.id) as RecommendationHistoryEntry['closedDirection'],
+        }));
+
+        const opening = findOpeningRecommendation(history);
+        if (!opening) {
+          console.log('[DatabasePersistence] No open position for market:', normalizedMarketId);
+        }
+        return opening;
+      } catch (error) {
+        console.error('[DatabasePersistence] getOpeningRecommendation failed:', error);
+        throw error;
+      }
+    }, 'getOpeningRecommendation');
+  }
+
+  /**
+   * Get the latest LONG_YES/LONG_NO recommendation for every active market
+   */
+  async getOpenRecommendations(): Promise<OpenRecommendation[]> {
+    return retryDatabaseOperation(async () => {
+      try {
+        const client = this.clientManager.getClient();
+
+      const { data: markets, error: marketsError } = await client
+        .from('markets')
+        .select('id, condition_id, question, event_type, event_id, market_probability')
+        .eq('status', 'active');
+
+      if (marketsError) {
+        console.error('[DatabasePersistence] Error getting active markets:', marketsError);
+        throw new Error(`Failed to get active markets: ${marketsError.message}`);
+      }
+
+      if (!markets || markets.length === 0) {
+        return [];
+      }
+
+      const { data: recommendations, error } = await client
+        .from('recommendations')
+        .select('id, market_id, direction, fair_probability, created_at')
+        .in('market_id', markets.map((market) => market.id))
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('[DatabasePersistence] Error getting open recommendations:', error);
+        throw new Error(`Failed to get open recommendations: ${error.message}`);
+      }
+
+      // Only the latest recommendation per market is considered open
+      const latestByMarket = new Map<string, NonNullable<typeof recommendations>[number]>();
+      for (const row of recommendations || []) {
+        if (row.market_id && !latestByMarket.has(row.market_id)) {
+          latestByMarket.set(row.market_id, row);
+        }
+      }
+
+      const openRecommendations: OpenRecommendation[] = [];
+      for (const market of markets) {
+        const row = latestByMarket.get(market.id);
+        if (!row || (row.direction !== 'LONG_YES' && row.direction !== 'LONG_NO') || row.fair_probability === null) {
+          continue;
+        }
+
+        openRecommendations.push({
+          recommendationId: row.id,
+          marketId: market.id,
+          conditionId: market.condition_id,
+          question: market.question,
+          eventType: market.event_type,
+          eventId: market.event_id || undefined,
+          marketProbability: market.market_probability ?? undefined,
+          action: row.direction,
+          fairProbability: row.fair_probability,
+          createdAt: row.created_at,
+        });
+      }
+
+      console.log('[DatabasePersistence] Found open recommendations:', openRecommendations.length);
+      return openRecommendations;
+    } catch (error) {
+      console.error('[DatabasePersistence] getOpenRecommendations failed:', error);
+      throw error;
+    }
+    }, 'getOpenRecommendations');
+  }
+
+  /**
+   * Store a portfolio allocation
+   */
+  async storePortfolioAllocation(allocation: PortfolioAllocation): Promise<string> {
+    return retryDatabaseOperation(async () => {
+      try {
+        const client = this.clientManager.getClient();
+        const allocationRunId = randomUUID();
+        const createdAt = new Date(allocation.createdAt).toISOString();
+
+      const insertData: TablesInsert<'portfolio_allocations'>[] = allocation.positions.map((position) => ({
+        allocation_run_id: allocationRunId,
+        recommendation_id: position.recommendationId,
+        market_id: position.marketId,
+        exposure_group: position.groupId,
+        category: position.category,
+        direction: position.action,
+        bankroll: allocation.bankroll,
+        kelly_fraction: allocation.kellyFraction,
+        full_kelly: position.fullKelly,
+        target_usd: position.targetUsd,
+        allocated_usd: position.allocatedUsd,
+        binding_constraint: position.bindingConstraint,
+        created_at: createdAt,
+      }));
+
+      if (insertData.length > 0) {
+        const { error } = await client.from('portfolio_allocations').insert(insertData);
+
+        if (error) {
+          console.error('[DatabasePersistence] Error storing portfolio allocation:', error);
+          throw new Error(`Failed to store portfolio allocation: ${error.message}`);
+        }
+      }
+
+      console.log('[DatabasePersistence] Portfolio allocation stored successfully:', allocationRunId);
+      return allocationRunId;
+    } catch (error) {
+      console.error('[DatabasePersistence] storePortfolioAllocation failed:', error);
+      throw error;
+    }
+    }, 'storePortfolioAllocation');
+  }
+
+  /**
+   * Get agent performance ledger rows
+   */
+  async getAgentPerformanceLedger(
+    options: { since?: Date; category?: string } = {}
+  ): Promise<AgentPerformanceLedgerEntry[]> {
+    return retryDatabaseOperation(async () => {
+      try {
+        const client = this.clientManager.getClient();
+
+      let query = client.from('agent_performance_ledger').select('*');
+      if (options.since) {
+        // Include the window containing the cutoff date
+        query = query.gte('window_start', getLedgerWindowStart(options.since.getTime()));
+      }
+      if (options.category) {
+        query = query.eq('category', options.category);
+      }
+
+      const { data, error } = await query.order('window_start', { ascending: false });
+
+      if (error) {
+        console.error('[DatabasePersistence] Error getting agent performance ledger:', error);
+        throw new Error(`Failed to get agent performance ledger: ${error.message}`);
+      }
+
+      return (data || []).map((row) => this.toLedgerEntry(row));
+    } catch (error) {
+      console.error('[DatabasePersistence] getAgentPerformanceLedger failed:', error);
+      throw error;
+    }
+    }, 'getAgentPerformanceLedger');
+  }
+
+  /**
+   * Get resolved YES/NO markets with each agent's final forecast
+   */
+  async getFusionTrainingExamples(options: { since?: Date } = {}): Promise<FusionTrainingExample[]> {
+    return retryDatabaseOperation(async () => {
+      try {
+        const client = this.clientManager.getClient();
+
+      let marketsQuery = client
+        .from('markets')
+        .select('id, event_type, resolved_outcome, updated_at')
+        .eq('status', 'resolved');
+      if (options.since) {
+        marketsQuery = marketsQuery.gte('updated_at', options.since.toISOString());
+      }
+
+      const { data: markets, error: marketsError } = await marketsQuery;
+
+      if (marketsError) {
+        console.error('[DatabasePersistence] Error getting resolved markets:', marketsError);
+        throw new Error(`Failed to get resolved markets: ${marketsError.message}`);
+      }
+
+      const resolved = (markets || []).filter((market) => {
+        const outcome = market.resolved_outcome?.toUpperCase();
+        return outcome === 'YES' || outcome === 'NO';
+      });
+
+      // Latest forecast per market and agent, fetched in chunks to keep the filter short
+      const forecastsByMarket = new Map<string, Record<string, number>>();
+      const chunkSize = 200;
+      for (let i = 0; i < resolved.length; i += chunkSize) {
+        const marketIds = resolved.slice(i, i + chunkSize).map((market) => market.id);
+        const { data: signals, error } = await client
+          .from('agent_signals')
+          .select('market_id, agent_name, fair_probability, created_at')
+          .in('market_id', marketIds)
+          .order('created_at', { ascending: false });
+
+        if (error) {
+          console.error('[DatabasePersistence] Error getting agent signals:', error);
+          throw new Error(`Failed to get agent signals: ${error.message}`);
+        }
+
+        for (const signal of signals || []) {
+          if (!signal.market_id || signal.fair_probability === null) {
+            continue;
+          }
+          const forecasts = forecastsByMarket.get(signal.market_id) ?? {};
+          if (forecasts[signal.agent_name] === undefined) {
+            forecasts[signal.agent_name] = signal.fair_probability;
+          }
+          forecastsByMarket.set(signal.market_id, forecasts);
+        }
+      }
+
+      const examples: FusionTrainingExample[] = [];
+      for (const market of resolved) {
+        const forecasts = forecastsByMarket.get(market.id);
+        if (!forecasts) {
+          continue;
+        }
+        examples.push({
+          marketId: market.id,
+          category: market.event_type,
+          outcome: market.resolved_outcome!.toUpperCase() as 'YES' | 'NO',
+          resolvedAt: market.updated_at ? new Date(market.updated_at).getTime() : 0,
+          forecasts,
+        });
+      }
+
+      console.log('[DatabasePersistence] Found fusion training examples:', examples.length);
+      return examples;
+    } catch (error) {
+      console.error('[DatabasePersistence] getFusionTrainingExamples failed:', error);
+      throw error;
+    }
+    }, 'getFusionTrainingExamples');
+  }
+
+  /**
+   * Store a learned fusion weight set
+   */
+  async storeFusionWeightSet(weightSet: FusionWeightSet): Promise<string> {
+    return retryDatabaseOperation(async () => {
+      try {
+        const client = this.clientManager.getClient();
+
+      const insertData: TablesInsert<'fusion_weight_sets'> = {
+        version: weightSet.version,
+        model: {
+          l2: weightSet.l2,
+          global: weightSet.global,
+          byCategory: weightSet.byCategory,
+        } as unknown as Json,
+        training_examples: weightSet.trainingExamples,
+        evaluation: (weightSet.evaluation ?? null) as unknown as Json,
+        created_at: new Date(weightSet.createdAt).toISOString(),
+      };
+
+      const { data, error } = await client
+        .from('fusion_weight_sets')
+        .insert(insertData)
+        .select('id')
+        .single();
+
+      if (error) {
+        console.error('[DatabasePersistence] Error storing fusion weight set:', error);
+        throw new Error(`Failed to store fusion weight set: ${error.message}`);
+      }
+
+      console.log('[DatabasePersistence] Fusion weight set stored successfully:', weightSet.version);
+      return data.id;
+    } catch (error) {
+      console.error('[DatabasePersistence] storeFusionWeightSet failed:', error);
+      throw error;
+    }
+    }, 'storeFusionWeightSet');
+  }
+
+  /**
+   * Get a learned fusion weight set
+   */
+  async getFusionWeightSet(version?: string): Promise<FusionWeightSet | null> {
+    return retryDatabaseOperation(async () => {
+      try {
+        const client = this.clientManager.getClient();
+
+      let query = client.from('fusion_weight_sets').select('*');
+      if (version) {
+        query = query.eq('version', version);
+      }
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[DatabasePersistence] Error getting fusion weight set:', error);
+        throw new Error(`Failed to get fusion weight set: ${error.message}`);
+      }
+
+      if (!data) {
+        return null;
+      }
+
+      const model = data.model as unknown as Pick<FusionWeightSet, 'l2' | 'global' | 'byCategory'>;
+      return {
+        version: data.version,
+        createdAt: data.created_at ? new Date(data.created_at).getTime() : 0,
+        trainingExamples: data.training_examples,
+        l2: model.l2,
+        global: model.global,
+        byCategory: model.byCategory ?? {},
+        evaluation: (data.evaluation as unknown as FusionWeightSet['evaluation']) ?? undefined,
+      };
+    } catch (error) {
+      console.error('[DatabasePersistence] getFusionWeightSet failed:', error);
+      throw error;
+    }
+    }, 'getFusionWeightSet');
+  }
+
+  /**
+   * Get resolved recommendations for calibration
+   */
+  async getCalibrationExamples(options: { since?: Date } = {}): Promise<CalibrationExample[]> {
+    return retryDatabaseOperation(async () => {
+      try {
+        const client = this.clientManager.getClient();
+
+      let marketsQuery = client
+        .from('markets')
+        .select('id, resolved_outcome, updated_at')
+        .eq('status', 'resolved');
+      if (options.since) {
+        marketsQuery = marketsQuery.gte('updated_at', options.since.toISOString());
+      }
+
+      const { data: markets, error: marketsError } = await marketsQuery;
+
+      if (marketsError) {
+        console.error('[DatabasePersistence] Error getting resolved markets:', marketsError);
+        throw new Error(`Failed to get resolved markets: ${marketsError.message}`);
+      }
+
+      const resolved = (markets || []).filter((market) => {
+        const outcome = market.resolved_outcome?.toUpperCase();
+        return outcome === 'YES' || outcome === 'NO';
+      });
+
+      // Latest recommendation per market, fetched in chunks to keep the filter short
+      const latestByMarket = new Map<string, { probability: number; regime: string | null }>();
+      const chunkSize = 200;
+      for (let i = 0; i < resolved.length; i += chunkSize) {
+        const marketIds = resolved.slice(i, i + chunkSize).map((market) => market.id);
+        const { data: recommendations, error } = await client
+          .from('recommendations')
+          .select('market_id, fair_probability, raw_fair_probability, probability_regime, created_at')
+          .in('market_id', marketIds)
+          .order('created_at', { ascending: false });
+
+        if (error) {
+          console.error('[DatabasePersistence] Error getting recommendations:', error);
+          throw new Error(`Failed to get recommendations: ${error.message}`);
+        }
+
+        for (const row of recommendations || []) {
+          // Recommendations stored before calibration existed only have fair_probability
+          const probability = row.raw_fair_probability ?? row.fair_probability;
+          if (!row.market_id || probability === null || latestByMarket.has(row.market_id)) {
+            continue;
+          }
+          latestByMarket.set(row.market_id, { probability, regime: row.probability_regime });
+        }
+      }
+
+      const examples: CalibrationExample[] = [];
+      for (const market of resolved) {
+        const latest = latestByMarket.get(market.id);
+        if (!latest) {
+          continue;
+        }
+        examples.push({
+          rawProbability: latest.probability,
+          outcome: market.resolved_outcome!.toUpperCase() as 'YES' | 'NO',
+          regime: (latest.regime as CalibrationExample['regime']) ?? undefined,
+          resolvedAt: market.updated_at ? new Date(market.updated_at).getTime() : 0,
+        });
+      }
+
+      console.log('[DatabasePersistence] Found calibration examples:', examples.length);
+      return examples;
+    } catch (error) {
+      console.error('[DatabasePersistence] getCalibrationExamples failed:', error);
+      throw error;
+    }
+    }, 'getCalibrationExamples');
+  }
+
+  /**
+   * Store a calibration model set
+   */
+  async storeCalibrationModelSet(modelSet: CalibrationModelSet): Promise<string> {
+    return retryDatabaseOperation(async () => {
+      try {
+        const client = this.clientManager.getClient();
+
+      const insertData: TablesInsert<'calibration_models'> = {
+        version: modelSet.version,
+        method: modelSet.method,
+        model: { global: modelSet.global, byRegime: modelSet.byRegime } as unknown as Json,
+        training_examples: modelSet.trainingExamples,
+        evaluation: (modelSet.evaluation ?? null) as unknown as Json,
+        created_at: new Date(modelSet.createdAt).toISOString(),
+      };
+
+      const { data, error } = await client
+        .from('calibration_models')
+        .insert(insertData)
+        .select('id')
+        .single();
+
+      if (error) {
+        console.error('[DatabasePersistence] Error storing calibration models:', error);
+        throw new Error(`Failed to store calibration models: ${error.message}`);
+      }
+
+      console.log('[DatabasePersistence] Calibration models stored successfully:', modelSet.version);
+      return data.id;
+    } catch (error) {
+      console.error('[DatabasePersistence] storeCalibrationModelSet failed:', error);
+      throw error;
+    }
+    }, 'storeCalibrationModelSet');
+  }
+
+  /**
+   * Get a calibration model set
+   */
+  async getCalibrationModelSet(version?: string): Promise<CalibrationModelSet | null> {
+    return retryDatabaseOperation(async () => {
+      try {
+        const client = this.clientManager.getClient();
+
+      let query = client.from('calibration_models').select('*');
+      if (version) {
+        query = query.eq('version', version);
+      }
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('[DatabasePersistence] Error getting calibration models:', error);
+        throw new Error(`Failed to get calibration models: ${error.message}`);
+      }
+
+      if (!data) {
+        return null;
+      }
+
+      const model = data.model as unknown as Pick<CalibrationModelSet, 'global' | 'byRegime'>;
+      return {
+        version: data.version,
+        method: data.method as CalibrationMethod,
+        createdAt: data.created_at ? new Date(data.created_at).getTime() : 0,
+        trainingExamples: data.training_examples,
+        global: model.global,
+        byRegime: model.byRegime ?? {},
+        evaluation: (data.evaluation as unknown as CalibrationModelSet['evaluation']) ?? undefined,
+      };
+    } catch (error) {
+      console.error('[DatabasePersistence] getCalibrationModelSet failed:', error);
+      throw error;
+    }
+    }, 'getCalibrationModelSet');
+  }
+
+  /**
+   * Get the outcome of every source citation on resolved markets
+   */
+  async getSourceOutcomes(options: { since?: Date } = {}): Promise<SourceOutcome[]> {
+    return retryDatabaseOperation(async () => {
+      try {
+        const client = this.clientManager.getClient();
+
+      let marketsQuery = client
+        .from('markets')
+        .select('id, resolved_outcome, updated_at')
+        .eq('status', 'resolved');
+      if (options.since) {
+        marketsQuery = marketsQuery.gte('updated_at', options.since.toISOString());
+      }
+
+      const { data: markets, error: marketsError } = await marketsQuery;
+
+      if (marketsError) {
+        console.error('[DatabasePersistence] Error getting resolved markets:', marketsError);
+        throw new Error(`Failed to get resolved markets: ${marketsError.message}`);
+      }
+
+      const outcomeByMarket = new Map<string, 'YES' | 'NO'>();
+      for (const market of markets || []) {
+        const outcome = market.resolved_outcome?.toUpperCase();
+        if (outcome === 'YES' || outcome === 'NO') {
+          outcomeByMarket.set(market.id, outcome);
+        }
+      }
+
+      // A source cited by several agents on one market counts once per direction
+      const outcomes: SourceOutcome[] = [];
+      const seen = new Set<string>();
+      const marketIds = [...outcomeByMarket.keys()];
+      const chunkSize = 200;
+      for (let i = 0; i < marketIds.length; i += chunkSize) {
+        const { data: signals, error } = await client
+          .from('agent_signals')
+          .select('market_id, direction, citations')
+          .in('market_id', marketIds.slice(i, i + chunkSize))
+          .not('citations', 'is', null);
+
+        if (error) {
+          console.error('[DatabasePersistence] Error getting agent signals:', error);
+          throw new Error(`Failed to get agent signals: ${error.message}`);
+        }
+
+        for (const signal of signals || []) {
+          const outcome = signal.market_id ? outcomeByMarket.get(signal.market_id) : undefined;
+          if (!outcome || (signal.direction !== 'YES' && signal.direction !== 'NO')) {
+            continue;
+          }
+          const citations = Array.isArray(signal.citations)
+            ? (signal.citations as unknown as Citation[])
+            : [];
+          for (const citation of citations) {
+            const key = `${signal.market_id}:${signal.direction}:${citation.source}`;
+            if (!citation.source || seen.has(key)) {
+              continue;
+            }
+            seen.add(key);
+            outcomes.push({ source: citation.source, correct: signal.direction === outcome });
+          }
+        }
+      }
+
+      console.log('[DatabasePersistence] Found source outcomes:', outcomes.length);
+      return outcomes;
+    } catch (error) {
+      console.error('[DatabasePersistence] getSourceOutcomes failed:', error);
+      throw error;
+    }
+    }, 'getSourceOutcomes');
+  }
+
+  /**
+   * Store the ranked opportunities of one arbitrage scan
+   */
+  async storeArbitrageOpportunities(opportunities: ArbitrageOpportunity[]): Promise<string> {
+    const scanId = randomUUID();
+    if (opportunities.length === 0) {
+      return scanId;
+    }
+
+    return retryDatabaseOperation(async () => {
+      try {
+        const client = this.clientManager.getClient();
+
+      const insertData: TablesInsert<'arbitrage_opportunities'>[] = opportunities.map(
+        (opportunity) => ({
+          scan_id: scanId,
+          rank: opportunity.rank,
+          opportunity_type: opportunity.type,
+          event_id: opportunity.eventId,
+          event_title: opportunity.eventTitle,
+          legs: opportunity.legs as unknown as Json,
+          bundle_value: opportunity.bundleValue,
+          edge: opportunity.edge,
+          executable_size: opportunity.executableSize,
+          expected_profit: opportunity.expectedProfit,
+          risk_level: opportunity.riskLevel,
+          description: opportunity.description,
+          analysis: opportunity.analysis as unknown as Json,
+          detected_at: new Date(opportunity.detectedAt).toISOString(),
+        })
+      );
+
+      const { error } = await client.from('arbitrage_opportunities').insert(insertData);
+
+      if (error) {
+        console.error('[DatabasePersistence] Error storing arbitrage opportunities:', error);
+        throw new Error(`Failed to store arbitrage opportunities: ${error.message}`);
+      }
+
+      console.log(
+        `[DatabasePersistence] Stored ${opportunities.length} arbitrage opportunities (scan ${scanId})`
+      );
+      return scanId;
+    } catch (error) {
+      console.error('[DatabasePersistence] storeArbitrageOpportunities failed:', error);
+      throw error;
+    }
+    }, 'storeArbitrageOpportunities');
+  }
+
+  /**
+   * Get stored arbitrage opportunities
+   */
+  async getArbitrageOpportunities(
+    options: { since?: Date; limit?: number } = {}
+  ): Promise<ArbitrageOpportunity[]> {
+    return retryDatabaseOperation(async () => {
+      try {
+        const client = this.clientManager.getClient();
+
+      let query = client.from('arbitrage_opportunities').select('*');
+      if (options.since) {
+        query = query.gte('detected_at', options.since.toISOString());
+      }
+
+      const { data, error } = await query
+        .order('detected_at', { ascending: false })
+        .order('rank', { ascending: true })
+        .limit(options.limit ?? 50);
+
+      if (error) {
+        console.error('[DatabasePersistence] Error getting arbitrage opportunities:', error);
+        throw new Error(`Failed to get arbitrage opportunities: ${error.message}`);
+      }
+
+      return (data || []).map((row) => ({
+        type: row.opportunity_type as ArbitrageOpportunity['type'],
+        eventId: row.event_id,
+        eventTitle: row.event_title,
+        legs: row.legs as unknown as ArbitrageOpportunity['legs'],
+        bundleValue: Number(row.bundle_value),
+        edge: Number(row.edge),
+        executableSize: Number(row.executable_size),
+        expectedProfit: Number(row.expected_profit),
+        riskLevel: row.risk_level as ArbitrageOpportunity['riskLevel'],
+        description: row.description,
+        analysis: row.analysis as unknown as ArbitrageOpportunity['analysis'],
+        rank: row.rank,
+        detectedAt: new Date(row.detected_at).getTime(),
+      }));
+    } catch (error) {
+      console.error('[DatabasePersistence] getArbitrageOpportunities failed:', error);
+      throw error;
+    }
+    }, 'getArbitrageOpportunities');
+  }
+
+  /**
+   * Store advice for the position implied by a market's previous recommendation
+   */
+  async storePositionAdvice(
+    marketId: MarketId,
+    recommendationId: string,
+    advice: PositionAdvice
+  ): Promise<string> {
+    return retryDatabaseOperation(async () => {
+      try {
+        const client = this.clientManager.getClient();
+        const normalizedMarketId = this.normalizeMarketId(marketId);
+
+      const insertData: TablesInsert<'position_advice'> = {
+        market_id: normalizedMarketId,
+        recommendation_id: recommendationId,
+        action: advice.action,
+        direction: advice.direction,
+        current_price: advice.currentPrice,
+        entry_price: advice.entryPrice,
+        unrealized_return: advice.unrealizedReturn,
+        target_zone_min: advice.targetZone[0],
+        target_zone_max: advice.targetZone[1],
+        stop_loss: advice.stopLoss,
+        previous_probability: advice.previousProbability,
+        current_probability: advice.currentProbability,
+        consensus_drift: advice.consensusDrift,
+        remaining_edge: advice.remainingEdge,
+        new_catalysts: advice.newCatalysts,
+        reasons: advice.reasons,
+        created_at: new Date(advice.timestamp).toISOString(),
+      };
+
+      const { data, error } = await client
+        .from('position_advice')
+        .insert(insertData)
+        .select('id')
+        .single();
+
+      if (error || !data) {
+        console.error('[DatabasePersistence] Error storing position advice:', error);
+        throw new Error(`Failed to store position advice: ${error?.message || 'No data returned'}`);
+      }
+
+      console.log(`[DatabasePersistence] Position advice stored: ${advice.action} (${data.id})`);
+      return data.id;
+    } catch (error) {
+      console.error('[DatabasePersistence] storePositionAdvice failed:', error);
+      throw error;
+    }
+    }, 'storePositionAdvice');
+  }
+
+  /**
+   * Get the latest position advice for every active market
+   */
+  async getLatestPositionAdvice(
+    options: { action?: PositionAction } = {}
+  ): Promise<PositionAdviceRecord[]> {
+    return retryDatabaseOperation(async () => {
+      try {
+        const client = this.clientManager.getClient();
+
+      const { data: markets, error: marketsError } = await client
+        .from('markets')
+        .select('id, condition_id, question')
+        .eq('status', 'active');
+
+      if (marketsError) {
+        console.error('[DatabasePersistence] Error getting active markets:', marketsError);
+        throw new Error(`Failed to get active markets: ${marketsError.message}`);
+      }
+
+      if (!markets || markets.length === 0) {
+        return [];
+      }
+
+      const { data: rows, error } = await client
+        .from('position_advice')
+        .select('*')
+        .in('market_id', markets.map((market) => market.id))
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('[DatabasePersistence] Error getting position advice:', error);
+        throw new Error(`Failed to get position advice: ${error.message}`);
+      }
+
+      // Only the latest advice per market is current
+      const latestByMarket = new Map<string, NonNullable<typeof rows>[number]>();
+      for (const row of rows || []) {
+        if (row.market_id && !latestByMarket.has(row.market_id)) {
+          latestByMarket.set(row.market_id, row);
+        }
+      }
+
+      const records: PositionAdviceRecord[] = [];
+      for (const market of markets) {
+        const row = latestByMarket.get(market.id);
+        if (!row || (options.action && row.action !== options.action)) {
+          continue;
+        }
+
+        records.push({
+          adviceId: row.id,
+          recommendationId: row.recommendation_id,
+          question: market.question,
+          marketId: market.condition_id,
+          action: row.action as PositionAction,
+          direction: row.direction as PositionAdvice['direction'],
+          currentPrice: Number(row.current_price),
+          entryPrice: Number(row.entry_price),
+          unrealizedReturn: Number(row.unrealized_return),
+          targetZone: [Number(row.target_zone_min), Number(row.target_zone_max)],
+          stopLoss: Number(row.stop_loss),
+          previousProbability: Number(row.previous_probability),
+          currentProbability: Number(row.current_probability),
+          consensusDrift: Number(row.consensus_drift),
+          remainingEdge: Number(row.remaining_edge),
+          newCatalysts: (row.new_catalysts as string[]) || [],
+          reasons: (row.reasons as string[]) || [],
+          timestamp: row.created_at ? new Date(row.created_at).getTime() : 0,
+        });
+      }
+
+      return records;
+    } catch (error) {
+      console.error('[DatabasePersistence] getLatestPositionAdvice failed:', error);
+      throw error;
+    }
+    }, 'getLatestPositionAdvice');
+  }
+
+  /**
+   * Record the spend of one analysis in the budget ledger
+   */
+  async recordAnalysisSpend(entry: AnalysisSpendEntry): Promise<void> {
+    return retryDatabaseOperation(async () => {
+      try {
+        const client = this.clientManager.getClient();
+
+      const insertData: TablesInsert<'analysis_spend'> = {
+        condition_id: entry.conditionId,
+        agents: entry.agents,
+        estimated_cost: entry.estimatedCost,
+        actual_cost: entry.actualCost ?? null,
+        value_of_information: entry.valueOfInformation ?? null,
+        spent_at: new Date(entry.spentAt).toISOString(),
+      };
+
+      const { error } = await client.from('analysis_spend').insert(insertData);
+
+      if (error) {
+        console.error('[DatabasePersistence] Error recording analysis spend:', error);
+        throw new Error(`Failed to record analysis spend: ${error.message}`);
+      }
+    } catch (error) {
+      console.error('[DatabasePersistence] recordAnalysisSpend failed:', error);
+      throw error;
+    }
+    }, 'recordAnalysisSpend');
+  }
+
+  /**
+   * Get total analysis spend since a date
+   */
+  async getAnalysisSpend(since: Date): Promise<number> {
+    return retryDatabaseOperation(async () => {
+      try {
+        const client = this.clientManager.getClient();
+
+      const { data, error } = await client
+        .from('analysis_spend')
+        .select('estimated_cost, actual_cost')
+        .gte('spent_at', since.toISOString());
+
+      if (error) {
+        console.error('[DatabasePersistence] Error getting analysis spend:', error);
+        throw new Error(`Failed to get analysis spend: ${error.message}`);
+      }
+
+      return (data || []).reduce(
+        (sum, row) => sum + Number(row.actual_cost ?? row.estimated_cost),
+        0
+      );
+    } catch (error) {
+      console.error('[DatabasePersistence] getAnalysisSpend failed:', error);
+      throw error;
+    }
+    }, 'getAnalysisSpend');
+  }
+
+  /**
+   * Get edges of previous recommendations per market, newest first
+   */
+  async getEdgeHistory(conditionIds: string[]): Promise<Record<string, number[]>> {
+    if (conditionIds.length === 0) {
+      return {};
+    }
+
+    return retryDatabaseOperation(async () => {
+      try {
+        const client = this.clientManager.getClient();
+
+      const { data: markets, error: marketsError } = await client
+        .from('markets')
+        .select('id, condition_id')
+        .in('condition_id', conditionIds);
+
+      if (marketsError) {
+        console.error('[DatabasePersistence] Error getting markets for edge history:', marketsError);
+        throw new Error(`Failed to get markets: ${marketsError.message}`);
+      }
+
+      if (!markets || markets.length === 0) {
+        return {};
+      }
+
+      const { data: recommendations, error } = await client
+        .from('recommendations')
+        .select('market_id, market_edge')
+        .in('market_id', markets.map((market) => market.id))
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('[DatabasePersistence] Error getting edge history:', error);
+        throw new Error(`Failed to get edge history: ${error.message}`);
+      }
+
+      const conditionIdByMarket = new Map(markets.map((market) => [market.id, market.condition_id]));
+      const history: Record<string, number[]> = {};
+      for (const row of recommendations || []) {
+        const conditionId = row.market_id ? conditionIdByMarket.get(row.market_id) : undefined;
+        if (!conditionId || row.market_edge === null) {
+          continue;
+        }
+        (history[conditionId] ??= []).push(Number(row.market_edge));
+      }
+
+      return history;
+    } catch (error) {
+      console.error('[DatabasePersistence] getEdgeHistory failed:', error);
+      throw error;
+    }
+    }, 'getEdgeHistory');
+  }
+
+  /**
+   * Score the latest signal from each agent on a resolved market into the ledger
+   */
+  private async updatePerformanceLedger(
+    marketId: string,
+    category: string,
+    outcome: 'YES' | 'NO'
+  ): Promise<void> {
+    const client = this.clientManager.getClient();
+
+    const { data: signals, error: signalsError } = await client
+      .from('agent_signals')
+      .select('agent_name, fair_probability, confidence, prompt_version, created_at')
+      .eq('market_id', marketId)
+      .order('created_at', { ascending: false });
+
+    if (signalsError) {
+      throw new Error(`Failed to get agent signals: ${signalsError.message}`);
+    }
+
+    // Only each agent's final forecast counts
+    const forecasts = new Map<string, ResolvedAgentForecast>();
+    for (const signal of signals || []) {
+      if (signal.fair_probability === null || forecasts.has(signal.agent_name)) {
+        continue;
+      }
+      forecasts.set(signal.agent_name, {
+        agentName: signal.agent_name,
+        fairProbability: signal.fair_probability,
+        confidence: signal.confidence ?? 0,
+        promptVersion: signal.prompt_version ?? undefined,
+      });
+    }
+
+    if (forecasts.size === 0) {
+      return;
+    }
+
+    const deltas = scoreResolvedForecasts([...forecasts.values()], outcome, category, Date.now());
+
+    // Increment in the database so concurrent resolutions cannot lose updates
+    const { error } = await client.rpc('increment_agent_performance_ledger', {
+      deltas: deltas.map((delta) => ({
+        agent_name: delta.agentName,
+        category: delta.category,
+        window_start: delta.windowStart,
+        prompt_version: delta.promptVersion,
+        predictions: delta.predictions,
+        brier_sum: delta.brierSum,
+        log_loss_sum: delta.logLossSum,
+        correct_predictions: delta.correctPredictions,
+        confidence_sum: delta.confidenceSum,
+      })),
+    });
+
+    if (error) {
+      throw new Error(`Failed to update agent performance ledger: ${error.message}`);
+    }
+
+    console.log('[DatabasePersistence] Performance ledger updated for agents:', deltas.length);
+  }
+
+  /**
+   * Reconstruct a TradeRecommendation from a recommendations row
+   */
+  private toTradeRecommendation(
+    row: Tables<'recommendations'>,
+    conditionId: string
+  ): TradeRecommendation {
+    return {
+      marketId: conditionId,
+      action: row.direction as 'LONG_YES' | 'LONG_NO' | 'NO_TRADE',
+      entryZone: [row.entry_zone_min || 0, row.entry_zone_max || 0],
+      targetZone: [row.target_zone_min || 0, row.target_zone_max || 0],
+      stopLoss: row.stop_loss || Math.max(0.01, (row.entry_zone_min || 0) - 0.03),
+      expectedValue: row.expected_value || 0,
+      winProbability: row.fair_probability || 0,
+      liquidityRisk: 'medium', // Default value, not stored in DB
+      explanation: {
+        summary: row.explanation || '',
+        coreThesis: '', // Not stored separately
+        keyCatalysts: (row.catalysts as string[]) || [],
+        failureScenarios: (row.risks as string[]) || [],
+      },
+      metadata: {
+        consensusProbability: row.fair_probability || 0,
+        marketProbability: 0, // Not stored in recommendations table
+        edge: row.market_edge || 0,
+        confidenceBand: [0, 1], // Default value, not stored in DB
+      },
+    };
+  }
+
+  /**
+   * Map a ledger row to a ledger entry
+   */
+  private toLedgerEntry(row: Tables<'agent_performance_ledger'>): AgentPerformanceLedgerEntry {
+    return {
+      agentName: row.agent_name,
+      category: row.category,
+      windowStart: row.window_start,
+      promptVersion: row.prompt_version,
+      predictions: row.predictions,
+      brierSum: row.brier_sum,
+      logLossSum: row.log_loss_sum,
+      correctPredictions: row.correct_predictions,
+      confidenceSum: row.confidence_sum,
+    };
+  }
+
   /**
    * Map confidence band to confidence level
    */
@@ -14,10 +14,53 @@ export type Database = {
   }
   public: {
     Tables: {
+      agent_performance_ledger: {
+        Row: {
+          agent_name: string
+          brier_sum: number
+          category: string
+          confidence_sum: number
+          correct_predictions: number
+          id: string
+          log_loss_sum: number
+          predictions: number
+          prompt_version: string
+          updated_at: string | null
+          window_start: string
+        }
+        Insert: {
+          agent_name: string
+          brier_sum?: number
+          category: string
+          confidence_sum?: number
+          correct_predictions?: number
+          id?: string
+          log_loss_sum?: number
+          predictions?: number
+          prompt_version?: string
+          updated_at?: string | null
+          window_start: string
+        }
+        Update: {
+          agent_name?: string
+          brier_sum?: number
+          category?: string
+          confidence_sum?: number
+          correct_predictions?: number
+          id?: string
+          log_loss_sum?: number
+          predictions?: number
+          prompt_version?: string
+          updated_at?: string | null
+          window_start?: string
+        }
+        Relationships: []
+      }
       agent_signals: {
         Row: {
           agent_name: string
           agent_type: string
+          citations: Json | null
           confidence: number | null
           created_at: string | null
           direction: string
@@ -26,11 +69,13 @@ export type Database = {
           key_drivers: Json | null
           market_id: string | null
           metadata: Json | null
+          prompt_version: string | null
           recommendation_id: string | null
         }
         Insert: {
           agent_name: string
           agent_type: string
+          citations?: Json | null
           confidence?: number | null
           created_at?: string | null
           direction: string
@@ -39,11 +84,13 @@ export type Database = {
           key_drivers?: Json | null
           market_id?: string | null
           metadata?: Json | null
+          prompt_version?: string | null
           recommendation_id?: string | null
         }
         Update: {
           agent_name?: string
           agent_type?: string
+          citations?: Json | null
           confidence?: number | null
           created_at?: string | null
           direction?: string
@@ -52,6 +99,7 @@ export type Database = {
           key_drivers?: Json | null
           market_id?: string | null
           metadata?: Json | null
+          prompt_version?: string | null
           recommendation_id?: string | null
         }
         Relationships: [
@@ -136,6 +184,153 @@ export type Database = {
           },
         ]
       }
+      analysis_spend: {
+        Row: {
+          actual_cost: number | null
+          agents: Json
+          condition_id: string
+          created_at: string | null
+          estimated_cost: number
+          id: string
+          spent_at: string
+          value_of_information: number | null
+        }
+        Insert: {
+          actual_cost?: number | null
+          agents?: Json
+          condition_id: string
+          created_at?: string | null
+          estimated_cost: number
+          id?: string
+          spent_at: string
+          value_of_information?: number | null
+        }
+        Update: {
+          actual_cost?: number | null
+          agents?: Json
+          condition_id?: string
+          created_at?: string | null
+          estimated_cost?: number
+          id?: string
+          spent_at?: string
+          value_of_information?: number | null
+        }
+        Relationships: []
+      }
+      arbitrage_opportunities: {
+        Row: {
+          analysis: Json
+          bundle_value: number
+          created_at: string | null
+          description: string
+          detected_at: string
+          edge: number
+          event_id: string
+          event_title: string
+          executable_size: number
+          expected_profit: number
+          id: string
+          legs: Json
+          opportunity_type: string
+          rank: number
+          risk_level: string
+          scan_id: string
+        }
+        Insert: {
+          analysis: Json
+          bundle_value: number
+          created_at?: string | null
+          description: string
+          detected_at: string
+          edge: number
+          event_id: string
+          event_title: string
+          executable_size: number
+          expected_profit: number
+          id?: string
+          legs: Json
+          opportunity_type: string
+          rank: number
+          risk_level: string
+          scan_id: string
+        }
+        Update: {
+          analysis?: Json
+          bundle_value?: number
+          created_at?: string | null
+          description?: string
+          detected_at?: string
+          edge?: number
+          event_id?: string
+          event_title?: string
+          executable_size?: number
+          expected_profit?: number
+          id?: string
+          legs?: Json
+          opportunity_type?: string
+          rank?: number
+          risk_level?: string
+          scan_id?: string
+        }
+        Relationships: []
+      }
+      calibration_models: {
+        Row: {
+          created_at: string | null
+          evaluation: Json | null
+          id: string
+          method: string
+          model: Json
+          training_examples: number
+          version: string
+        }
+        Insert: {
+          created_at?: string | null
+          evaluation?: Json | null
+          id?: string
+          method: string
+          model: Json
+          training_examples: number
+          version: string
+        }
+        Update: {
+          created_at?: string | null
+          evaluation?: Json | null
+          id?: string
+          method?: string
+          model?: Json
+          training_examples?: number
+          version?: string
+        }
+        Relationships: []
+      }
+      fusion_weight_sets: {
+        Row: {
+          created_at: string | null
+          evaluation: Json | null
+          id: string
+          model: Json
+          training_examples: number
+          version: string
+        }
+        Insert: {
+          created_at?: string | null
+          evaluation?: Json | null
+          id?: string
+          model: Json
+          training_examples: number
+          version: string
+        }
+        Update: {
+          created_at?: string | null
+          evaluation?: Json | null
+          id?: string
+          model?: Json
+          training_examples?: number
+          version?: string
+        }
+        Relationships: []
+      }
       langgraph_checkpoints: {
         Row: {
           checkpoint: Json
@@ -168,6 +363,7 @@ export type Database = {
           condition_id: string
           created_at: string | null
           description: string | null
+          event_id: string | null
           event_type: string
           id: string
           last_analyzed_at: string | null
@@ -184,6 +380,7 @@ export type Database = {
           condition_id: string
           created_at?: string | null
           description?: string | null
+          event_id?: string | null
           event_type: string
           id: string
           last_analyzed_at?: string | null
@@ -200,6 +397,7 @@ export type Database = {
           condition_id?: string
           created_at?: string | null
           description?: string | null
+          event_id?: string | null
           event_type?: string
           id?: string
           last_analyzed_at?: string | null
@@ -235,6 +433,228 @@ export type Database = {
         }
         Relationships: []
       }
+      news_stories: {
+        Row: {
+          article_count: number
+          articles: Json
+          first_seen: string
+          headline: string
+          last_seen: string
+          market_id: string
+          snapshots: Json
+          source_count: number
+          story_id: string
+          term_counts: Json
+          updated_at: string | null
+        }
+        Insert: {
+          article_count?: number
+          articles?: Json
+          first_seen: string
+          headline: string
+          last_seen: string
+          market_id: string
+          snapshots?: Json
+          source_count?: number
+          story_id: string
+          term_counts?: Json
+          updated_at?: string | null
+        }
+        Update: {
+          article_count?: number
+          articles?: Json
+          first_seen?: string
+          headline?: string
+          last_seen?: string
+          market_id?: string
+          snapshots?: Json
+          source_count?: number
+          story_id?: string
+          term_counts?: Json
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      newsdata_cache: {
+        Row: {
+          cache_key: string
+          cached_at: string
+          compressed: boolean
+          compressed_size: number | null
+          hit_count: number
+          last_accessed: string
+          original_size: number | null
+          payload: string
+          ttl_ms: number
+        }
+        Insert: {
+          cache_key: string
+          cached_at: string
+          compressed?: boolean
+          compressed_size?: number | null
+          hit_count?: number
+          last_accessed: string
+          original_size?: number | null
+          payload: string
+          ttl_ms: number
+        }
+        Update: {
+          cache_key?: string
+          cached_at?: string
+          compressed?: boolean
+          compressed_size?: number | null
+          hit_count?: number
+          last_accessed?: string
+          original_size?: number | null
+          payload?: string
+          ttl_ms?: number
+        }
+        Relationships: []
+      }
+      portfolio_allocations: {
+        Row: {
+          allocated_usd: number
+          allocation_run_id: string
+          bankroll: number
+          binding_constraint: string
+          category: string
+          created_at: string | null
+          direction: string
+          exposure_group: string
+          full_kelly: number
+          id: string
+          kelly_fraction: number
+          market_id: string | null
+          recommendation_id: string | null
+          target_usd: number
+        }
+        Insert: {
+          allocated_usd: number
+          allocation_run_id: string
+          bankroll: number
+          binding_constraint: string
+          category: string
+          created_at?: string | null
+          direction: string
+          exposure_group: string
+          full_kelly: number
+          id?: string
+          kelly_fraction: number
+          market_id?: string | null
+          recommendation_id?: string | null
+          target_usd: number
+        }
+        Update: {
+          allocated_usd?: number
+          allocation_run_id?: string
+          bankroll?: number
+          binding_constraint?: string
+          category?: string
+          created_at?: string | null
+          direction?: string
+          exposure_group?: string
+          full_kelly?: number
+          id?: string
+          kelly_fraction?: number
+          market_id?: string | null
+          recommendation_id?: string | null
+          target_usd?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "portfolio_allocations_market_id_fkey"
+            columns: ["market_id"]
+            isOneToOne: false
+            referencedRelation: "markets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "portfolio_allocations_recommendation_id_fkey"
+            columns: ["recommendation_id"]
+            isOneToOne: false
+            referencedRelation: "recommendations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      position_advice: {
+        Row: {
+          action: string
+          consensus_drift: number
+          created_at: string | null
+          current_price: number
+          current_probability: number
+          direction: string
+          entry_price: number
+          id: string
+          market_id: string | null
+          new_catalysts: Json
+          previous_probability: number
+          reasons: Json
+          recommendation_id: string | null
+          remaining_edge: number
+          stop_loss: number
+          target_zone_max: number
+          target_zone_min: number
+          unrealized_return: number
+        }
+        Insert: {
+          action: string
+          consensus_drift: number
+          created_at?: string | null
+          current_price: number
+          current_probability: number
+          direction: string
+          entry_price: number
+          id?: string
+          market_id?: string | null
+          new_catalysts?: Json
+          previous_probability: number
+          reasons?: Json
+          recommendation_id?: string | null
+          remaining_edge: number
+          stop_loss: number
+          target_zone_max: number
+          target_zone_min: number
+          unrealized_return: number
+        }
+        Update: {
+          action?: string
+          consensus_drift?: number
+          created_at?: string | null
+          current_price?: number
+          current_probability?: number
+          direction?: string
+          entry_price?: number
+          id?: string
+          market_id?: string | null
+          new_catalysts?: Json
+          previous_probability?: number
+          reasons?: Json
+          recommendation_id?: string | null
+          remaining_edge?: number
+          stop_loss?: number
+          target_zone_max?: number
+          target_zone_min?: number
+          unrealized_return?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "position_advice_market_id_fkey"
+            columns: ["market_id"]
+            isOneToOne: false
+            referencedRelation: "markets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "position_advice_recommendation_id_fkey"
+            columns: ["recommendation_id"]
+            isOneToOne: false
+            referencedRelation: "recommendations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       recommendation_outcomes: {
         Row: {
           actual_outcome: string
@@ -321,6 +741,8 @@ export type Database = {
           id: string
           market_edge: number | null
           market_id: string | null
+          probability_regime: string | null
+          raw_fair_probability: number | null
           risks: Json | null
           stop_loss: number | null
           target_zone_max: number | null
@@ -341,6 +763,8 @@ export type Database = {
           id?: string
           market_edge?: number | null
           market_id?: string | null
+          probability_regime?: string | null
+          raw_fair_probability?: number | null
           risks?: Json | null
           stop_loss?: number | null
           target_zone_max?: number | null
@@ -361,6 +785,8 @@ export type Database = {
           id?: string
           market_edge?: number | null
           market_id?: string | null
+          probability_regime?: string | null
+          raw_fair_probability?: number | null
           risks?: Json | null
           stop_loss?: number | null
           target_zone_max?: number | null
@@ -764,6 +1190,10 @@ export type Database = {
     }
     Functions: {
       acquire_migration_lock: { Args: { locker: string }; Returns: boolean }
+      evict_newsdata_cache: {
+        Args: { keep_key?: string; max_entries: number; policy: string }
+        Returns: string[]
+      }
       get_agent_performance_for_period: {
         Args: { end_date: string; start_date: string }
         Returns: {
@@ -786,6 +1216,10 @@ export type Database = {
           unique_markets: number
         }[]
       }
+      increment_agent_performance_ledger: {
+        Args: { deltas: Json }
+        Returns: undefined
+      }
       is_migration_applied: {
         Args: { migration_version: string }
         Returns: boolean
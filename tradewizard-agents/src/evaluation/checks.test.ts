@@ -0,0 +1,110 @@
+/**
+ * Tests for the deterministic thesis and debate checks
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { DebateRecord, Thesis } from '../models/types.js';
+import {
+  checkDebateRigor,
+  checkEvidenceGrounding,
+  checkInternalConsistency,
+  type EvidenceArticle,
+} from './checks.js';
+
+function createThesis(overrides: Partial<Thesis> = {}): Thesis {
+  return {
+    direction: 'YES',
+    fairProbability: 0.62,
+    marketProbability: 0.5,
+    edge: 0.12,
+    coreArgument: 'Polling momentum and the endorsement put the candidate near 62% to win.',
+    catalysts: ['Union endorsement announced Tuesday', 'Debate performance boosts polling'],
+    failureConditions: ['Turnout among young voters collapses'],
+    supportingSignals: ['polling_intelligence'],
+    ...overrides,
+  };
+}
+
+const articles: EvidenceArticle[] = [
+  {
+    title: 'Largest union announces endorsement of the candidate on Tuesday',
+    summary: 'The endorsement is expected to lift turnout in swing counties.',
+  },
+  { title: 'Weather delays campaign rally in Pittsburgh' },
+];
+
+function createDebate(overrides: Partial<DebateRecord> = {}): DebateRecord {
+  const challenge =
+    'The endorsement was priced in before the debate; polls moved less than 1 point.';
+  return {
+    tests: (['evidence', 'causality', 'timing', 'liquidity', 'tail-risk'] as const).map(
+      (testType) => ({ testType, claim: 'YES thesis', challenge, outcome: 'survived', score: 0.6 })
+    ),
+    bullScore: 0.6,
+    bearScore: -0.2,
+    keyDisagreements: ['Whether the endorsement moves turnout'],
+    ...overrides,
+  };
+}
+
+describe('Thesis Evaluation Checks', () => {
+  it('should ground catalysts that match an article', () => {
+    const result = checkEvidenceGrounding(createThesis(), articles);
+
+    expect(result.catalysts[0].article).toBe(articles[0].title);
+    expect(result.catalysts[1].article).toBeNull();
+    expect(result.score).toBe(0.5);
+    expect(result.issues).toEqual(['Ungrounded YES catalyst: "Debate performance boosts polling"']);
+  });
+
+  it('should score zero grounding without articles or catalysts', () => {
+    expect(checkEvidenceGrounding(createThesis(), []).score).toBe(0);
+    expect(checkEvidenceGrounding(createThesis({ catalysts: [] }), articles).issues).toEqual([
+      'YES thesis lists no catalysts',
+    ]);
+  });
+
+  it('should pass a consistent thesis and flag contradictions', () => {
+    expect(checkInternalConsistency(createThesis())).toEqual({ score: 1, issues: [] });
+
+    const inconsistent = checkInternalConsistency(
+      createThesis({ fairProbability: 0.4, edge: 0.3, failureConditions: [] })
+    );
+    expect(inconsistent.score).toBe(0);
+    expect(inconsistent.issues).toHaveLength(4);
+    expect(inconsistent.issues[0]).toContain('wrong side of market');
+  });
+
+  it('should accept a bear thesis priced below the market', () => {
+    const bear = createThesis({
+      direction: 'NO',
+      fairProbability: 0.35,
+      edge: 0.15,
+      coreArgument: 'The market at 50% overstates a candidate trailing in every recent poll.',
+    });
+
+    expect(checkInternalConsistency(bear).score).toBe(1);
+  });
+
+  it('should reward complete debates and penalize shallow ones', () => {
+    expect(checkDebateRigor(createDebate())).toEqual({ score: 1, issues: [] });
+
+    const shallow = checkDebateRigor(
+      createDebate({
+        tests: [
+          {
+            testType: 'evidence',
+            claim: 'YES thesis',
+            challenge: 'Looks fine',
+            outcome: 'refuted',
+            score: 0.7,
+          },
+        ],
+        keyDisagreements: [],
+      })
+    );
+    expect(shallow.score).toBeCloseTo(0.05);
+    expect(shallow.issues).toHaveLength(4);
+    expect(checkDebateRigor(createDebate({ tests: [] })).score).toBe(0);
+  });
+});
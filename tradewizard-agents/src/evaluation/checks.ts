@@ -0,0 +1,303 @@
+/**
+ * Deterministic Thesis and Debate Checks
+ *
+ * Rule-based scoring of debate-protocol output, run alongside the LLM judge:
+ * evidence grounding (are catalysts traceable to fetched articles?), internal
+ * consistency (do a thesis's numbers agree with its direction and argument?)
+ * and debate rigor (did cross-examination actually test the theses?).
+ *
+ * Every check returns a score in [0, 1] plus the issues that lowered it.
+ */
+
+import type { DebateRecord, DebateTestType, Thesis } from '../models/types.js';
+
+/**
+ * Article a thesis can cite (title and summary are matched against catalysts)
+ */
+export interface EvidenceArticle {
+  title: string;
+  summary?: string;
+  url?: string;
+  source?: string;
+}
+
+/**
+ * Result of a single check
+ */
+export interface CheckResult {
+  /** Score from 0 (fails) to 1 (passes) */
+  score: number;
+  issues: string[];
+}
+
+/**
+ * Catalyst matched against the best article
+ */
+export interface CatalystGrounding {
+  catalyst: string;
+  /** Title of the best-matching article, or null when nothing matched */
+  article: string | null;
+  /** Fraction of the catalyst's content words found in the article */
+  overlap: number;
+}
+
+/**
+ * Evidence grounding result for one thesis
+ */
+export interface GroundingResult extends CheckResult {
+  catalysts: CatalystGrounding[];
+}
+
+/**
+ * Minimum word overlap for a catalyst to count as traceable to an article
+ */
+export const GROUNDING_THRESHOLD = 0.5;
+
+/**
+ * Test types a complete cross-examination runs
+ */
+const DEBATE_TEST_TYPES: DebateTestType[] = [
+  'evidence',
+  'causality',
+  'timing',
+  'liquidity',
+  'tail-risk',
+];
+
+/**
+ * Challenges shorter than this are treated as boilerplate
+ */
+const MIN_CHALLENGE_LENGTH = 40;
+
+const STOP_WORDS = new Set([
+  'the',
+  'and',
+  'for',
+  'that',
+  'this',
+  'with',
+  'from',
+  'will',
+  'would',
+  'could',
+  'should',
+  'are',
+  'was',
+  'were',
+  'has',
+  'have',
+  'had',
+  'its',
+  'their',
+  'than',
+  'into',
+  'over',
+  'after',
+  'before',
+  'about',
+  'which',
+  'while',
+  'more',
+  'most',
+  'any',
+  'can',
+  'may',
+  'not',
+  'but',
+]);
+
+/**
+ * Split text into lowercase content words (numbers are kept)
+ */
+function contentWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9%.]+/)
+      .map((word) => word.replace(/^\.+|\.+$/g, ''))
+      .filter((word) => (word.length >= 3 || /\d/.test(word)) && !STOP_WORDS.has(word))
+  );
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// ============================================================================
+// Evidence Grounding
+// ============================================================================
+
+/**
+ * Check that a thesis's catalysts are traceable to fetched articles
+ *
+ * Each catalyst is matched to the article sharing the largest fraction of its
+ * content words; it counts as grounded at GROUNDING_THRESHOLD or above.
+ *
+ * @param thesis - Thesis to check
+ * @param articles - Articles fetched during the analysis
+ * @returns Fraction of grounded catalysts with per-catalyst matches
+ */
+export function checkEvidenceGrounding(
+  thesis: Thesis,
+  articles: EvidenceArticle[]
+): GroundingResult {
+  if (thesis.catalysts.length === 0) {
+    return { score: 0, issues: [`${thesis.direction} thesis lists no catalysts`], catalysts: [] };
+  }
+
+  const articleWords = articles.map((article) => ({
+    title: article.title,
+    words: contentWords(`${article.title} ${article.summary ?? ''}`),
+  }));
+
+  const catalysts = thesis.catalysts.map((catalyst): CatalystGrounding => {
+    const words = contentWords(catalyst);
+    let best: CatalystGrounding = { catalyst, article: null, overlap: 0 };
+
+    for (const article of articleWords) {
+      const shared = [...words].filter((word) => article.words.has(word)).length;
+      const overlap = words.size === 0 ? 0 : shared / words.size;
+      if (overlap > best.overlap) {
+        best = { catalyst, article: article.title, overlap };
+      }
+    }
+
+    return best;
+  });
+
+  const grounded = catalysts.filter((match) => match.overlap >= GROUNDING_THRESHOLD);
+  const issues =
+    articles.length === 0
+      ? [`No articles available to ground the ${thesis.direction} thesis`]
+      : catalysts
+          .filter((match) => match.overlap < GROUNDING_THRESHOLD)
+          .map((match) => `Ungrounded ${thesis.direction} catalyst: "${match.catalyst}"`);
+
+  return { score: grounded.length / catalysts.length, issues, catalysts };
+}
+
+// ============================================================================
+// Internal Consistency
+// ============================================================================
+
+/**
+ * Check that a thesis's numbers agree with its direction and argument
+ *
+ * Checks: fair probability sits on the thesis's side of the market, the edge
+ * equals |fair - market|, probabilities quoted in the core argument match the
+ * fair or market probability, and failure conditions are acknowledged.
+ *
+ * @param thesis - Thesis to check
+ * @returns Fraction of passed checks with the failures
+ */
+export function checkInternalConsistency(thesis: Thesis): CheckResult {
+  const issues: string[] = [];
+  let checks = 0;
+
+  const { direction, fairProbability, marketProbability } = thesis;
+
+  checks++;
+  const onThesisSide =
+    direction === 'YES'
+      ? fairProbability >= marketProbability
+      : fairProbability <= marketProbability;
+  if (!onThesisSide) {
+    issues.push(
+      `${direction} thesis fair probability ${fairProbability.toFixed(2)} is on the wrong side of ` +
+        `market ${marketProbability.toFixed(2)}`
+    );
+  }
+
+  checks++;
+  if (Math.abs(thesis.edge - Math.abs(fairProbability - marketProbability)) > 0.01) {
+    issues.push(
+      `${direction} thesis edge ${thesis.edge.toFixed(2)} does not match |fair - market|`
+    );
+  }
+
+  const quoted = [...thesis.coreArgument.matchAll(/(\d{1,3}(?:\.\d+)?)\s?%/g)]
+    .map((match) => Number(match[1]) / 100)
+    .filter((value) => value <= 1);
+  if (quoted.length > 0) {
+    checks++;
+    const matches = quoted.some(
+      (value) =>
+        Math.abs(value - fairProbability) <= 0.05 || Math.abs(value - marketProbability) <= 0.05
+    );
+    if (!matches) {
+      const quotedText = quoted.map((value) => `${(value * 100).toFixed(0)}%`).join(', ');
+      issues.push(
+        `${direction} thesis argument quotes ${quotedText} ` +
+          `but estimates ${(fairProbability * 100).toFixed(0)}%`
+      );
+    }
+  }
+
+  checks++;
+  if (thesis.failureConditions.length === 0) {
+    issues.push(`${direction} thesis acknowledges no failure conditions`);
+  }
+
+  return { score: (checks - issues.length) / checks, issues };
+}
+
+// ============================================================================
+// Debate Rigor
+// ============================================================================
+
+/**
+ * Check that cross-examination actually tested the theses
+ *
+ * Averages four components: coverage of the test types, substantive
+ * challenges, scores that agree with outcomes, and recorded disagreements.
+ *
+ * @param debate - Debate record from cross-examination
+ * @returns Rigor score with the shortfalls
+ */
+export function checkDebateRigor(debate: DebateRecord): CheckResult {
+  if (debate.tests.length === 0) {
+    return { score: 0, issues: ['Debate ran no tests'] };
+  }
+
+  const issues: string[] = [];
+
+  const covered = new Set(debate.tests.map((test) => test.testType));
+  const missing = DEBATE_TEST_TYPES.filter((type) => !covered.has(type));
+  const coverage = covered.size / DEBATE_TEST_TYPES.length;
+  if (missing.length > 0) {
+    issues.push(`Debate skipped test types: ${missing.join(', ')}`);
+  }
+
+  const substantive = debate.tests.filter(
+    (test) =>
+      test.challenge.trim().length >= MIN_CHALLENGE_LENGTH &&
+      test.challenge.trim() !== test.claim.trim()
+  );
+  if (substantive.length < debate.tests.length) {
+    issues.push(`${debate.tests.length - substantive.length} test(s) have boilerplate challenges`);
+  }
+
+  const agreeing = debate.tests.filter((test) => {
+    if (test.outcome === 'survived') return test.score > 0;
+    if (test.outcome === 'refuted') return test.score < 0;
+    return Math.abs(test.score) <= 0.5;
+  });
+  if (agreeing.length < debate.tests.length) {
+    issues.push(`${debate.tests.length - agreeing.length} test score(s) contradict their outcome`);
+  }
+
+  const disagreements = debate.keyDisagreements.length > 0 ? 1 : 0;
+  if (!disagreements) {
+    issues.push('Debate recorded no key disagreements');
+  }
+
+  return {
+    score: mean([
+      coverage,
+      substantive.length / debate.tests.length,
+      agreeing.length / debate.tests.length,
+      disagreements,
+    ]),
+    issues,
+  };
+}
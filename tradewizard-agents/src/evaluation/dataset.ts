@@ -0,0 +1,165 @@
+/**
+ * Evaluation Dataset
+ *
+ * Defines the on-disk format for recorded debate-protocol output scored by
+ * the evaluation suite, plus helpers to load datasets and to capture a case
+ * from a completed workflow run.
+ *
+ * A dataset is a JSON file:
+ *
+ * {
+ *   "name": "thesis-prompts-march",
+ *   "cases": [
+ *     {
+ *       "id": "senate-pa-2024-10-01",
+ *       "promptVersion": "thesis-v2",
+ *       "question": "Will the Democratic candidate win the PA Senate race?",
+ *       "bullThesis": { ...Thesis... },
+ *       "bearThesis": { ...Thesis... },
+ *       "debateRecord": { ...DebateRecord... },
+ *       "articles": [{ "title": "...", "summary": "...", "url": "...", "source": "..." }]
+ *     }
+ *   ]
+ * }
+ */
+
+import { readFile } from 'fs/promises';
+import { z } from 'zod';
+import { DebateRecordSchema, ThesisSchema } from '../models/schemas.js';
+import type { DebateRecord, Thesis } from '../models/types.js';
+import type { GraphStateType } from '../models/state.js';
+import type { EvidenceArticle } from './checks.js';
+
+/**
+ * Prompt version assigned to cases recorded without one
+ */
+export const DEFAULT_PROMPT_VERSION = 'unversioned';
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const EvidenceArticleSchema = z.object({
+  title: z.string().min(1),
+  summary: z.string().optional(),
+  url: z.string().optional(),
+  source: z.string().optional(),
+});
+
+/**
+ * A recorded thesis pair and debate to score
+ */
+const ThesisEvaluationCaseSchema = z.object({
+  id: z.string().min(1),
+  promptVersion: z.string().min(1).default(DEFAULT_PROMPT_VERSION),
+  question: z.string().default(''),
+  bullThesis: ThesisSchema,
+  bearThesis: ThesisSchema,
+  debateRecord: DebateRecordSchema,
+  articles: z.array(EvidenceArticleSchema).default([]),
+});
+
+/**
+ * Complete evaluation dataset
+ */
+const EvaluationDatasetSchema = z.object({
+  name: z.string().default('unnamed-dataset'),
+  cases: z.array(ThesisEvaluationCaseSchema).min(1),
+});
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Recorded thesis pair and debate with the articles fetched for it
+ */
+export interface ThesisEvaluationCase {
+  id: string;
+  /** Prompt version that produced the theses; scores are aggregated per version */
+  promptVersion: string;
+  question: string;
+  bullThesis: Thesis;
+  bearThesis: Thesis;
+  debateRecord: DebateRecord;
+  articles: EvidenceArticle[];
+}
+
+/**
+ * Evaluation dataset
+ */
+export interface EvaluationDataset {
+  name: string;
+  cases: ThesisEvaluationCase[];
+}
+
+// ============================================================================
+// Loaders
+// ============================================================================
+
+/**
+ * Parse and validate an evaluation dataset
+ *
+ * @param raw - Parsed JSON value
+ * @returns Validated dataset
+ * @throws Error describing the first validation issue
+ */
+export function parseEvaluationDataset(raw: unknown): EvaluationDataset {
+  const result = EvaluationDatasetSchema.safeParse(raw);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid evaluation dataset at ${issue.path.join('.')}: ${issue.message}`);
+  }
+
+  const ids = new Set<string>();
+  for (const evaluationCase of result.data.cases) {
+    if (ids.has(evaluationCase.id)) {
+      throw new Error(`Invalid evaluation dataset: duplicate case id '${evaluationCase.id}'`);
+    }
+    ids.add(evaluationCase.id);
+  }
+
+  return result.data;
+}
+
+/**
+ * Load an evaluation dataset from a JSON file
+ *
+ * @param path - Path to dataset file
+ * @returns Validated dataset
+ */
+export async function loadEvaluationDataset(path: string): Promise<EvaluationDataset> {
+  const content = await readFile(path, 'utf-8');
+  return parseEvaluationDataset(JSON.parse(content));
+}
+
+/**
+ * Capture an evaluation case from a completed workflow state
+ *
+ * @param state - Final graph state
+ * @param promptVersion - Prompt version the run used
+ * @returns Evaluation case, or null when the run produced no theses or debate
+ */
+export function createEvaluationCase(
+  state: GraphStateType,
+  promptVersion: string = DEFAULT_PROMPT_VERSION
+): ThesisEvaluationCase | null {
+  if (!state.bullThesis || !state.bearThesis || !state.debateRecord) {
+    return null;
+  }
+
+  return {
+    id: state.mbd?.conditionId ?? state.conditionId,
+    promptVersion,
+    question: state.mbd?.question ?? '',
+    bullThesis: state.bullThesis,
+    bearThesis: state.bearThesis,
+    debateRecord: state.debateRecord,
+    articles: (state.externalData?.news ?? []).map((article) => ({
+      title: article.title,
+      summary: article.summary,
+      url: article.url,
+      source: article.source,
+    })),
+  };
+}
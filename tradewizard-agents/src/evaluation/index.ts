@@ -0,0 +1,44 @@
+/**
+ * Thesis evaluation suite
+ *
+ * Scores debate-protocol output (theses and cross-examination) for evidence
+ * grounding, internal consistency and debate rigor using deterministic checks
+ * and an LLM judge, aggregated per prompt version.
+ */
+
+export {
+  checkEvidenceGrounding,
+  checkInternalConsistency,
+  checkDebateRigor,
+  GROUNDING_THRESHOLD,
+  type EvidenceArticle,
+  type CheckResult,
+  type CatalystGrounding,
+  type GroundingResult,
+} from './checks.js';
+export {
+  parseEvaluationDataset,
+  loadEvaluationDataset,
+  createEvaluationCase,
+  DEFAULT_PROMPT_VERSION,
+  type ThesisEvaluationCase,
+  type EvaluationDataset,
+} from './dataset.js';
+export {
+  createLLMJudge,
+  createThesisJudge,
+  JudgeScoresSchema,
+  type JudgeScores,
+  type ThesisJudge,
+} from './judge.js';
+export {
+  scoreThesisCase,
+  evaluateThesisCase,
+  summarizeByPromptVersion,
+  runEvaluationSuite,
+  type EvaluationScores,
+  type CaseEvaluation,
+  type PromptVersionSummary,
+  type EvaluationOptions,
+  type EvaluationReport,
+} from './suite.js';
@@ -0,0 +1,105 @@
+/**
+ * LLM Judge
+ *
+ * Scores a thesis pair and its debate with a judge model on the same three
+ * dimensions as the deterministic checks. The judge catches what rules
+ * cannot (a catalyst paraphrasing an article, an argument that contradicts
+ * its own estimate in words), while the checks keep the judge honest.
+ */
+
+import { z } from 'zod';
+import { createLLMInstance, type LLMInstance } from '../utils/llm-factory.js';
+import type { EngineConfig } from '../config/index.js';
+import type { ThesisEvaluationCase } from './dataset.js';
+
+/**
+ * Zod schema for judge scores
+ */
+export const JudgeScoresSchema = z.object({
+  evidenceGrounding: z.number().min(0).max(1),
+  internalConsistency: z.number().min(0).max(1),
+  debateRigor: z.number().min(0).max(1),
+  rationale: z.string(),
+});
+
+/**
+ * Scores returned by the judge (0-1 per dimension)
+ */
+export type JudgeScores = z.infer<typeof JudgeScoresSchema>;
+
+/**
+ * Judge function; tests and replays can supply their own
+ */
+export type ThesisJudge = (evaluationCase: ThesisEvaluationCase) => Promise<JudgeScores>;
+
+/**
+ * Articles included in the judge prompt
+ */
+const MAX_JUDGE_ARTICLES = 20;
+
+/**
+ * System prompt for the judge
+ */
+const JUDGE_PROMPT = `You are an evaluator of prediction market analysis.
+
+You receive a bull (YES) and bear (NO) thesis for one market, the cross-examination debate between them, and the news articles that were fetched during the analysis.
+
+Score each dimension from 0 (poor) to 1 (excellent):
+- evidenceGrounding: Are the catalysts and claims traceable to the provided articles? Penalize catalysts that no article supports, even if plausible.
+- internalConsistency: Does each thesis's fairProbability match the strength and direction of its coreArgument? Penalize a YES thesis priced below the market, a NO thesis priced above it, or an argument that states a different probability than the estimate.
+- debateRigor: Did the debate challenge the strongest claims with specific counter-evidence? Penalize generic challenges, scores that contradict the stated outcome, and missing test types.
+
+Judge only what is in front of you; do not reward confident language. Give a short rationale (2-4 sentences) naming the weakest point.`;
+
+/**
+ * Build the judge's user message for one case
+ */
+function formatJudgeInput(evaluationCase: ThesisEvaluationCase): string {
+  const articles = evaluationCase.articles
+    .slice(0, MAX_JUDGE_ARTICLES)
+    .map(
+      (article, index) =>
+        `${index + 1}. ${article.title}${article.source ? ` (${article.source})` : ''}` +
+        (article.summary ? `\n   ${article.summary}` : '')
+    );
+
+  return [
+    `Market question: ${evaluationCase.question}`,
+    `\nBull thesis:\n${JSON.stringify(evaluationCase.bullThesis, null, 2)}`,
+    `\nBear thesis:\n${JSON.stringify(evaluationCase.bearThesis, null, 2)}`,
+    `\nDebate record:\n${JSON.stringify(evaluationCase.debateRecord, null, 2)}`,
+    `\nFetched articles:\n${articles.length > 0 ? articles.join('\n') : 'None'}`,
+  ].join('\n');
+}
+
+/**
+ * Create a judge backed by an LLM with structured output
+ *
+ * @param llm - Judge model
+ * @returns Judge function
+ */
+export function createLLMJudge(llm: LLMInstance): ThesisJudge {
+  const structuredLLM = llm.withStructuredOutput(JudgeScoresSchema);
+
+  return async (evaluationCase: ThesisEvaluationCase): Promise<JudgeScores> => {
+    const response = await structuredLLM.invoke([
+      { role: 'system', content: JUDGE_PROMPT },
+      { role: 'user', content: formatJudgeInput(evaluationCase) },
+    ]);
+
+    return JudgeScoresSchema.parse(response);
+  };
+}
+
+/**
+ * Create the default judge from engine configuration
+ *
+ * Prefers Anthropic so the judge differs from the OpenAI-preferred thesis and
+ * cross-examination models in multi-provider mode.
+ *
+ * @param config - Engine configuration
+ * @returns Judge function
+ */
+export function createThesisJudge(config: EngineConfig): ThesisJudge {
+  return createLLMJudge(createLLMInstance(config, 'anthropic', ['openai', 'google', 'nova']));
+}
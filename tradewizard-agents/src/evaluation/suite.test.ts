@@ -0,0 +1,134 @@
+/**
+ * Tests for the thesis evaluation suite
+ *
+ * The judge is a stub function, so these tests run offline.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GraphStateType } from '../models/state.js';
+import type { Thesis } from '../models/types.js';
+import { createEvaluationCase, parseEvaluationDataset } from './dataset.js';
+import type { ThesisJudge } from './judge.js';
+import { evaluateThesisCase, runEvaluationSuite } from './suite.js';
+
+function createThesis(direction: 'YES' | 'NO', fairProbability: number): Thesis {
+  return {
+    direction,
+    fairProbability,
+    marketProbability: 0.5,
+    edge: Math.abs(fairProbability - 0.5),
+    coreArgument: `The ${direction} case rests on the Fed statement and recent CPI data.`,
+    catalysts: ['Fed statement signals a rate cut'],
+    failureConditions: ['CPI surprises to the upside'],
+    supportingSignals: ['breaking_news'],
+  };
+}
+
+function createRawCase(id: string, promptVersion?: string): Record<string, unknown> {
+  return {
+    id,
+    ...(promptVersion && { promptVersion }),
+    question: 'Will the Fed cut rates in June?',
+    bullThesis: createThesis('YES', 0.6),
+    bearThesis: createThesis('NO', 0.4),
+    debateRecord: { tests: [], bullScore: 0, bearScore: 0, keyDisagreements: [] },
+    articles: [{ title: 'Fed statement signals a rate cut is coming' }],
+  };
+}
+
+const stubJudge: ThesisJudge = async () => ({
+  evidenceGrounding: 0.5,
+  internalConsistency: 0.5,
+  debateRigor: 0.5,
+  rationale: 'Debate did not challenge the catalysts.',
+});
+
+describe('Thesis Evaluation Suite', () => {
+  it('should validate datasets and default the prompt version', () => {
+    const dataset = parseEvaluationDataset({ cases: [createRawCase('case-1')] });
+
+    expect(dataset.name).toBe('unnamed-dataset');
+    expect(dataset.cases[0].promptVersion).toBe('unversioned');
+    expect(() =>
+      parseEvaluationDataset({ cases: [createRawCase('dup'), createRawCase('dup')] })
+    ).toThrow("duplicate case id 'dup'");
+    expect(() => parseEvaluationDataset({ cases: [] })).toThrow('Invalid evaluation dataset at');
+  });
+
+  it('should blend judge scores and fall back when the judge fails', async () => {
+    const { cases } = parseEvaluationDataset({ cases: [createRawCase('case-1')] });
+
+    const judged = await evaluateThesisCase(cases[0], stubJudge);
+    expect(judged.deterministic.evidenceGrounding).toBe(1);
+    expect(judged.deterministic.debateRigor).toBe(0);
+    expect(judged.scores.evidenceGrounding).toBe(0.75);
+    expect(judged.scores.debateRigor).toBe(0.25);
+
+    const failed = await evaluateThesisCase(cases[0], async () => {
+      throw new Error('rate limited');
+    });
+    expect(failed.judge).toBeNull();
+    expect(failed.judgeError).toBe('rate limited');
+    expect(failed.scores).toEqual(failed.deterministic);
+  });
+
+  it('should aggregate scores per prompt version', async () => {
+    const dataset = parseEvaluationDataset({
+      name: 'prompt-comparison',
+      cases: [
+        createRawCase('a', 'thesis-v1'),
+        createRawCase('b', 'thesis-v2'),
+        createRawCase('c', 'thesis-v1'),
+      ],
+    });
+    const completed: string[] = [];
+
+    const report = await runEvaluationSuite(dataset, {
+      onCaseComplete: (evaluation) => completed.push(evaluation.caseId),
+    });
+
+    expect(completed).toEqual(['a', 'b', 'c']);
+    expect(report.promptVersions.map((summary) => [summary.promptVersion, summary.cases])).toEqual([
+      ['thesis-v1', 2],
+      ['thesis-v2', 1],
+    ]);
+    expect(report.promptVersions[0].judge).toBeNull();
+    expect(report.promptVersions[0].scores.overall).toBeCloseTo(2 / 3);
+  });
+
+  it('should capture a case from workflow state', () => {
+    const state = {
+      conditionId: 'condition-1',
+      mbd: { conditionId: 'condition-1', question: 'Will the Fed cut rates in June?' },
+      bullThesis: createThesis('YES', 0.6),
+      bearThesis: createThesis('NO', 0.4),
+      debateRecord: { tests: [], bullScore: 0, bearScore: 0, keyDisagreements: [] },
+      externalData: {
+        news: [
+          {
+            title: 'Fed statement',
+            source: 'Reuters',
+            publishedAt: 0,
+            url: 'https://example.com/fed',
+            summary: 'Officials signal a cut.',
+            sentiment: 'neutral',
+            relevanceScore: 0.9,
+          },
+        ],
+        dataFreshness: {},
+      },
+    } as unknown as GraphStateType;
+
+    const evaluationCase = createEvaluationCase(state, 'thesis-v2');
+    expect(evaluationCase?.promptVersion).toBe('thesis-v2');
+    expect(evaluationCase?.articles).toEqual([
+      {
+        title: 'Fed statement',
+        summary: 'Officials signal a cut.',
+        url: 'https://example.com/fed',
+        source: 'Reuters',
+      },
+    ]);
+    expect(createEvaluationCase({ ...state, debateRecord: null })).toBeNull();
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Thesis Evaluation Suite
+ *
+ * Scores recorded theses and debates with the deterministic checks and an
+ * optional LLM judge, then aggregates the scores per prompt version so prompt
+ * changes can be compared on numbers.
+ *
+ * When both are available, each dimension is the mean of the deterministic
+ * and judge scores; a failed judge call falls back to the deterministic score
+ * for that case.
+ */
+
+import { checkDebateRigor, checkEvidenceGrounding, checkInternalConsistency } from './checks.js';
+import type { ThesisEvaluationCase } from './dataset.js';
+import type { JudgeScores, ThesisJudge } from './judge.js';
+
+/**
+ * Scores on the three evaluation dimensions (0-1) and their mean
+ */
+export interface EvaluationScores {
+  evidenceGrounding: number;
+  internalConsistency: number;
+  debateRigor: number;
+  overall: number;
+}
+
+/**
+ * Evaluation of one case
+ */
+export interface CaseEvaluation {
+  caseId: string;
+  promptVersion: string;
+  /** Blended scores (deterministic and judge) */
+  scores: EvaluationScores;
+  deterministic: EvaluationScores;
+  judge: JudgeScores | null;
+  judgeError?: string;
+  /** Issues found by the deterministic checks */
+  issues: string[];
+}
+
+/**
+ * Mean scores for one prompt version
+ */
+export interface PromptVersionSummary {
+  promptVersion: string;
+  cases: number;
+  judgedCases: number;
+  scores: EvaluationScores;
+  deterministic: EvaluationScores;
+  /** Mean judge scores, or null when no case was judged */
+  judge: EvaluationScores | null;
+}
+
+/**
+ * Evaluation suite options
+ */
+export interface EvaluationOptions {
+  /** Judge to score cases with; deterministic checks only when omitted */
+  judge?: ThesisJudge;
+  /** Called after each case is evaluated (for progress reporting) */
+  onCaseComplete?: (evaluation: CaseEvaluation) => void;
+}
+
+/**
+ * Full evaluation report
+ */
+export interface EvaluationReport {
+  dataset: string;
+  startedAt: number;
+  completedAt: number;
+  cases: CaseEvaluation[];
+  promptVersions: PromptVersionSummary[];
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? NaN : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function toScores(
+  evidenceGrounding: number,
+  internalConsistency: number,
+  debateRigor: number
+): EvaluationScores {
+  return {
+    evidenceGrounding,
+    internalConsistency,
+    debateRigor,
+    overall: mean([evidenceGrounding, internalConsistency, debateRigor]),
+  };
+}
+
+function meanScores(scores: EvaluationScores[]): EvaluationScores {
+  return toScores(
+    mean(scores.map((score) => score.evidenceGrounding)),
+    mean(scores.map((score) => score.internalConsistency)),
+    mean(scores.map((score) => score.debateRigor))
+  );
+}
+
+/**
+ * Run the deterministic checks on one case
+ *
+ * @param evaluationCase - Case to check
+ * @returns Deterministic scores and the issues found
+ */
+export function scoreThesisCase(evaluationCase: ThesisEvaluationCase): {
+  scores: EvaluationScores;
+  issues: string[];
+} {
+  const { bullThesis, bearThesis, debateRecord, articles } = evaluationCase;
+  const grounding = [bullThesis, bearThesis].map((thesis) =>
+    checkEvidenceGrounding(thesis, articles)
+  );
+  const consistency = [bullThesis, bearThesis].map(checkInternalConsistency);
+  const rigor = checkDebateRigor(debateRecord);
+
+  return {
+    scores: toScores(
+      mean(grounding.map((result) => result.score)),
+      mean(consistency.map((result) => result.score)),
+      rigor.score
+    ),
+    issues: [...grounding, ...consistency, rigor].flatMap((result) => result.issues),
+  };
+}
+
+/**
+ * Evaluate one case with the deterministic checks and the optional judge
+ *
+ * @param evaluationCase - Case to evaluate
+ * @param judge - Optional judge
+ * @returns Case evaluation
+ */
+export async function evaluateThesisCase(
+  evaluationCase: ThesisEvaluationCase,
+  judge?: ThesisJudge
+): Promise<CaseEvaluation> {
+  const { scores: deterministic, issues } = scoreThesisCase(evaluationCase);
+
+  let judgeScores: JudgeScores | null = null;
+  let judgeError: string | undefined;
+  if (judge) {
+    try {
+      judgeScores = await judge(evaluationCase);
+    } catch (error) {
+      judgeError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  const scores = judgeScores
+    ? toScores(
+        mean([deterministic.evidenceGrounding, judgeScores.evidenceGrounding]),
+        mean([deterministic.internalConsistency, judgeScores.internalConsistency]),
+        mean([deterministic.debateRigor, judgeScores.debateRigor])
+      )
+    : deterministic;
+
+  return {
+    caseId: evaluationCase.id,
+    promptVersion: evaluationCase.promptVersion,
+    scores,
+    deterministic,
+    judge: judgeScores,
+    ...(judgeError && { judgeError }),
+    issues,
+  };
+}
+
+/**
+ * Aggregate case evaluations per prompt version
+ *
+ * @param evaluations - Case evaluations
+ * @returns One summary per prompt version, in first-seen order
+ */
+export function summarizeByPromptVersion(evaluations: CaseEvaluation[]): PromptVersionSummary[] {
+  const byVersion = new Map<string, CaseEvaluation[]>();
+  for (const evaluation of evaluations) {
+    const group = byVersion.get(evaluation.promptVersion) ?? [];
+    group.push(evaluation);
+    byVersion.set(evaluation.promptVersion, group);
+  }
+
+  return [...byVersion.entries()].map(([promptVersion, group]) => {
+    const judged = group
+      .map((evaluation) => evaluation.judge)
+      .filter((judge): judge is JudgeScores => judge !== null);
+
+    return {
+      promptVersion,
+      cases: group.length,
+      judgedCases: judged.length,
+      scores: meanScores(group.map((evaluation) => evaluation.scores)),
+      deterministic: meanScores(group.map((evaluation) => evaluation.deterministic)),
+      judge:
+        judged.length > 0
+          ? meanScores(
+              judged.map((judge) =>
+                toScores(judge.evidenceGrounding, judge.internalConsistency, judge.debateRigor)
+              )
+            )
+          : null,
+    };
+  });
+}
+
+/**
+ * Evaluate every case in a dataset
+ *
+ * Cases are evaluated sequentially to keep judge calls within rate limits.
+ *
+ * @param dataset - Dataset name and cases
+ * @param options - Judge and progress callback
+ * @returns Evaluation report with per-prompt-version summaries
+ */
+export async function runEvaluationSuite(
+  dataset: { name: string; cases: ThesisEvaluationCase[] },
+  options: EvaluationOptions = {}
+): Promise<EvaluationReport> {
+  const startedAt = Date.now();
+  const cases: CaseEvaluation[] = [];
+
+  for (const evaluationCase of dataset.cases) {
+    const evaluation = await evaluateThesisCase(evaluationCase, options.judge);
+    cases.push(evaluation);
+    options.onCaseComplete?.(evaluation);
+  }
+
+  return {
+    dataset: dataset.name,
+    startedAt,
+    completedAt: Date.now(),
+    cases,
+    promptVersions: summarizeByPromptVersion(cases),
+  };
+}
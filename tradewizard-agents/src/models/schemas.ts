@@ -24,6 +24,19 @@ export const AgentSignalLLMOutputSchema = z.object({
   metadata: z.record(z.string(), z.any()).optional().default({}),
 });
 
+/**
+ * Zod schema for a source citation attached to signals and theses
+ */
+export const CitationSchema = z.object({
+  claim: z.string(),
+  url: z.string(),
+  title: z.string(),
+  source: z.string(),
+  tier: z.enum(['primary', 'high', 'medium', 'low', 'unknown']),
+  credibility: z.number().min(0).max(1),
+  publishedAt: z.number().optional(),
+});
+
 /**
  * Zod schema for AgentSignal
  * Used by intelligence agents to structure their analysis output
@@ -37,6 +50,26 @@ export const AgentSignalSchema = z.object({
   keyDrivers: z.array(z.string()).min(1).max(5),
   riskFactors: z.array(z.string()),
   metadata: z.record(z.string(), z.any()).optional().default({}),
+  citations: z.array(CitationSchema).optional(),
+});
+
+/**
+ * Zod schema for event-level LLM output: a joint distribution over all
+ * outcomes of a multi-outcome event (agentName and timestamp are added by
+ * the caller)
+ */
+export const EventDistributionLLMOutputSchema = z.object({
+  confidence: z.number().min(0).max(1),
+  outcomes: z
+    .array(
+      z.object({
+        marketId: z.string(),
+        probability: z.number().min(0).max(1),
+      })
+    )
+    .min(1),
+  keyDrivers: z.array(z.string()).min(1).max(5),
+  riskFactors: z.array(z.string()),
 });
 
 // ============================================================================
@@ -160,7 +193,16 @@ export const CatalystSchema = z.object({
 export const MarketBriefingDocumentSchema = z.object({
   marketId: z.union([z.string(), z.number()]),
   conditionId: z.string(),
-  eventType: z.enum(['election', 'policy', 'court', 'geopolitical', 'economic', 'other']),
+  eventType: z.enum([
+    'election',
+    'policy',
+    'court',
+    'geopolitical',
+    'economic',
+    'sports',
+    'crypto',
+    'other',
+  ]),
   question: z.string().min(10),
   resolutionCriteria: z.string().min(10),
   expiryTimestamp: z.number().positive(),
@@ -17,6 +17,7 @@ import type {
   AgentError,
   RecommendationError,
   AuditEntry,
+  ResolutionRiskAssessment,
 } from './types.js';
 import type { AgentMemoryContext } from '../database/memory-retrieval.js';
 
@@ -55,6 +56,15 @@ export const GraphState = Annotation.Root({
    */
   ingestionError: Annotation<IngestionError | null>,
 
+  // ============================================================================
+  // Resolution Risk
+  // ============================================================================
+
+  /**
+   * Parsed resolution criteria and dispute risk score for the market
+   */
+  resolutionRisk: Annotation<ResolutionRiskAssessment | null>,
+
   // ============================================================================
   // Dynamic Agent Selection (Advanced Agent League)
   // ============================================================================
@@ -94,6 +104,10 @@ export const GraphState = Annotation.Root({
       aggregatedProbability: number;
       momentum: 'rising' | 'falling' | 'stable';
       biasAdjustment: number;
+      uncertainty?: number;
+      confidenceInterval?: [number, number];
+      houseEffects?: Record<string, number>;
+      sources?: string[];
     };
     social?: {
       platforms: Record<string, {
@@ -105,6 +119,7 @@ export const GraphState = Annotation.Root({
       overallSentiment: number;
       narrativeVelocity: number;
     };
+    narrativeTimeline?: import('./types.js').NarrativeTimeline;
     dataFreshness: Record<string, number>;
   } | null>,
 
@@ -387,6 +387,8 @@ export type EventType =
   | 'court'
   | 'geopolitical'
   | 'economic'
+  | 'sports'
+  | 'crypto'
   | 'other';
 
 /**
@@ -409,6 +411,53 @@ export interface Catalyst {
  */
 export type MarketId = string | number;
 
+/**
+ * Single price level in a CLOB order book
+ */
+export interface OrderBookLevel {
+  price: number;
+  size: number; // Shares available at this price
+}
+
+/**
+ * Normalized CLOB order book snapshot for the YES token
+ * Bids are sorted best (highest) first, asks best (lowest) first
+ */
+export interface OrderBookSnapshot {
+  tokenId: string;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+  timestamp: number;
+}
+
+/**
+ * Simulated fill of a market order against the order book
+ */
+export interface FillEstimate {
+  side: 'YES' | 'NO';
+  notional: number; // Requested size in USD
+  filledNotional: number; // USD actually filled against visible depth
+  shares: number;
+  averagePrice: number; // Average price per share paid for this side
+  bestPrice: number; // Top-of-book price for this side
+  worstPrice: number; // Deepest level touched
+  slippage: number; // averagePrice - bestPrice
+  fullyFilled: boolean;
+}
+
+/**
+ * Order book depth summary attached to the Market Briefing Document
+ */
+export interface OrderBookDepth {
+  tokenId: string;
+  timestamp: number;
+  bestBid: number;
+  bestAsk: number;
+  midpoint: number;
+  spread: number; // bestAsk - bestBid, in probability units
+  fills: FillEstimate[]; // Buy YES and buy NO at several notional sizes
+}
+
 /**
  * Enhanced Market Briefing Document - streamlined for single market analysis
  * This is the primary input to all intelligence agents, focused on the core market
@@ -441,6 +490,9 @@ export interface MarketBriefingDocument {
   
   // Essential Keywords (focused on this market)
   keywords?: string[];
+
+  // CLOB order book depth (absent when the book could not be fetched)
+  orderBook?: OrderBookDepth;
   
   // Streamlined Metadata
   metadata: StreamlinedEventMetadata;
@@ -489,6 +541,44 @@ export interface ArbitrageAnalysis {
   liquidityRequirement: number;
 }
 
+/**
+ * Kind of cross-market price inconsistency
+ * - sum_of_outcomes: prices of a mutually exclusive outcome set do not sum to one
+ * - implied_constraint: a market priced above a market it logically implies
+ * - stale_price: a related market has not followed a large move in its partner
+ */
+export type ArbitrageOpportunityType = 'sum_of_outcomes' | 'implied_constraint' | 'stale_price';
+
+/**
+ * One position of an arbitrage opportunity
+ */
+export interface ArbitrageLeg {
+  marketId: string;
+  conditionId: string;
+  question: string;
+  side: 'YES' | 'NO';
+  price: number; // Best price to buy this side when detected
+}
+
+/**
+ * Cross-market arbitrage or inconsistency opportunity found by the scanner
+ */
+export interface ArbitrageOpportunity {
+  type: ArbitrageOpportunityType;
+  eventId: string;
+  eventTitle: string;
+  legs: ArbitrageLeg[]; // Buy one share of each leg per bundle
+  bundleValue: number; // Guaranteed payout per bundle, or expected value for stale_price
+  edge: number; // bundleValue minus the bundle cost at the best prices
+  executableSize: number; // USD that can be spent while the edge stays above the minimum (0 when unknown)
+  expectedProfit: number; // USD at executableSize
+  riskLevel: 'low' | 'medium' | 'high';
+  description: string;
+  analysis: ArbitrageAnalysis;
+  rank: number; // 1 = best
+  detectedAt: number;
+}
+
 /**
  * Cross-market correlation analysis result
  */
@@ -576,6 +666,30 @@ export interface MarketCatalyst {
   impact: 'high' | 'medium' | 'low';
 }
 
+// ============================================================================
+// Source Credibility
+// ============================================================================
+
+/**
+ * Source credibility tier: primary (official records and filings), high
+ * (wire services and papers of record), medium (mainstream outlets), low
+ * (social media, aggregators, partisan outlets) or unknown
+ */
+export type SourceTier = 'primary' | 'high' | 'medium' | 'low' | 'unknown';
+
+/**
+ * Citation - an article or search result backing one of an agent's claims
+ */
+export interface Citation {
+  claim: string; // Key driver the source supports
+  url: string;
+  title: string;
+  source: string; // Publisher domain
+  tier: SourceTier;
+  credibility: number; // 0-1, learned from resolved markets where available
+  publishedAt?: number;
+}
+
 // ============================================================================
 // Agent Signal
 // ============================================================================
@@ -597,6 +711,7 @@ export interface AgentSignal {
   keyDrivers: string[]; // Top 3-5 factors influencing the signal
   riskFactors: string[]; // Identified risks or uncertainties
   metadata: Record<string, unknown>; // Agent-specific data
+  citations?: Citation[]; // Evidence behind keyDrivers
 }
 
 // ============================================================================
@@ -615,6 +730,7 @@ export interface Thesis {
   catalysts: string[];
   failureConditions: string[];
   supportingSignals: string[]; // Agent names that support this thesis
+  citations?: Citation[]; // Evidence cited by the supporting signals
 }
 
 // ============================================================================
@@ -678,6 +794,102 @@ export interface ConsensusProbability {
   disagreementIndex: number; // 0-1, higher = more agent disagreement
   regime: ProbabilityRegime;
   contributingSignals: string[]; // Agent names
+  calibration?: ConsensusCalibration; // Set by the probability calibration stage
+}
+
+/**
+ * Calibration applied to a consensus probability
+ */
+export interface ConsensusCalibration {
+  applied: boolean; // false when no calibration model was available
+  rawProbability: number;
+  rawConfidenceBand: [number, number];
+  method?: 'isotonic' | 'platt';
+  modelVersion?: string;
+  model?: string; // 'global' or the regime whose model was used
+}
+
+// ============================================================================
+// Resolution Risk
+// ============================================================================
+
+/**
+ * Structured conditions parsed from a market's resolution criteria
+ */
+export interface ResolutionConditions {
+  sourcesOfTruth: string[]; // Named resolution sources (agencies, outlets, URLs)
+  deadline: {
+    text: string; // Deadline as written in the criteria
+    timestamp?: number; // Parsed deadline (ms), when the date is unambiguous
+    timezone?: string; // Timezone stated with the deadline
+  } | null;
+  edgeCases: string[]; // Clauses covering postponement, cancellation, ties, revisions
+  conditionalClauses: string[]; // Clauses with if / unless / in the event / provided that
+}
+
+/**
+ * A single contributor to dispute risk
+ */
+export interface ResolutionRiskFactor {
+  factor: string;
+  weight: number; // Probability this factor alone leads to a disputed or surprising resolution
+  detail: string;
+}
+
+/**
+ * Resolution risk level
+ */
+export type ResolutionRiskLevel = 'low' | 'medium' | 'high';
+
+/**
+ * Resolution-criteria analysis with dispute risk score
+ */
+export interface ResolutionRiskAssessment {
+  conditions: ResolutionConditions;
+  factors: ResolutionRiskFactor[];
+  disputeRiskScore: number; // 0-1 probability of a disputed or surprising resolution
+  level: ResolutionRiskLevel;
+  failureScenarios: string[]; // Ways the market could resolve on a technicality
+}
+
+// ============================================================================
+// Narrative Timeline
+// ============================================================================
+
+/**
+ * Growth phase of a news story
+ */
+export type StoryStatus = 'emerging' | 'accelerating' | 'steady' | 'fading';
+
+/**
+ * One story (cluster of articles about the same event) on a market's timeline
+ */
+export interface StoryTimelineEntry {
+  storyId: string;
+  headline: string; // Title of the first article in the story
+  firstSeen: number; // Earliest article publish time (ms)
+  lastSeen: number; // Latest article publish time (ms)
+  articleCount: number;
+  sourceCount: number;
+  sources: string[];
+  articleUrls: string[];
+  articlesInWindow: number; // Articles published in the growth window
+  newSourcesInWindow: number; // Sources whose first article falls in the growth window
+  growthRate: number; // Articles per hour over the growth window
+  acceleration: number; // Growth rate change vs the previous window (articles per hour)
+  status: StoryStatus;
+  snapshots: Array<{ timestamp: number; articleCount: number; sourceCount: number }>;
+}
+
+/**
+ * Stories behind a market's news coverage, fastest-growing first
+ */
+export interface NarrativeTimeline {
+  generatedAt: number;
+  windowHours: number; // Growth window used for rates
+  storyCount: number;
+  articleCount: number;
+  stories: StoryTimelineEntry[];
 }
 
 // ============================================================================
@@ -710,10 +922,21 @@ export interface TradeExplanation {
  * Trade recommendation metadata
  */
 export interface TradeMetadata {
-  consensusProbability: number;
+  consensusProbability: number; // Calibrated when a calibration model is available
   marketProbability: number;
   edge: number;
   confidenceBand: [number, number];
+  rawConsensusProbability?: number; // Consensus before calibration
+  probabilityRegime?: ProbabilityRegime;
+  execution?: TradeExecutionEstimate; // Present when priced against the order book
+  resolutionRiskScore?: number; // Dispute risk from the resolution_risk stage
+}
+
+/**
+ * Expected execution of a recommended trade against the order book
+ */
+export interface TradeExecutionEstimate extends FillEstimate {
+  spread: number;
 }
 
 /**
@@ -732,6 +955,107 @@ export interface TradeRecommendation {
   metadata: TradeMetadata;
 }
 
+// ============================================================================
+// Position Advice
+// ============================================================================
+
+/**
+ * Action on an open position implied by a previous recommendation
+ */
+export type PositionAction = 'HOLD' | 'TAKE_PROFIT' | 'CUT' | 'ADD';
+
+/**
+ * Re-evaluation of an open position against a fresh analysis of its market
+ *
+ * Prices, zones and edges are in terms of the held side (YES for LONG_YES,
+ * NO for LONG_NO); probabilities are the consensus probability of YES.
+ */
+export interface PositionAdvice {
+  marketId: MarketId;
+  action: PositionAction;
+  direction: 'LONG_YES' | 'LONG_NO';
+  currentPrice: number;
+  entryPrice: number; // Midpoint of the previous entry zone
+  unrealizedReturn: number; // (currentPrice - entryPrice) / entryPrice
+  targetZone: [number, number];
+  stopLoss: number;
+  previousProbability: number;
+  currentProbability: number;
+  consensusDrift: number; // Change in the held side's consensus probability
+  remainingEdge: number; // Held side's consensus probability minus currentPrice
+  newCatalysts: string[]; // Catalysts not cited by the previous recommendation
+  reasons: string[];
+  timestamp: number;
+}
+
+// ============================================================================
+// Event Analysis (multi-outcome)
+// ============================================================================
+
+/**
+ * One mutually exclusive outcome of a multi-outcome event, backed by the
+ * binary market that resolves YES if it occurs
+ */
+export interface EventOutcome {
+  marketId: string;
+  conditionId: string;
+  label: string; // groupItemTitle when present, otherwise the market question
+  marketProbability: number; // YES price of the outcome's market
+  liquidity: number;
+  volume24h: number;
+}
+
+/**
+ * Joint distribution over all outcomes of an event from one agent
+ */
+export interface EventDistributionSignal {
+  agentName: string;
+  timestamp: number;
+  confidence: number; // 0-1
+  probabilities: Record<string, number>; // marketId -> probability, normalized to sum to 1
+  keyDrivers: string[];
+  riskFactors: string[];
+}
+
+/**
+ * Fused probability distribution over the outcomes of an event
+ */
+export interface EventProbabilityDistribution {
+  probabilities: Record<string, number>; // marketId -> probability, sums to 1
+  marketProbabilities: Record<string, number>; // marketId -> YES price, normalized to sum to 1
+  marketOverround: number; // Sum of raw YES prices; above 1 means the book is overpriced
+  agentCount: number;
+}
+
+/**
+ * Recommendation for one outcome of an event, derived from the fused
+ * distribution so recommendations across outcomes are mutually consistent
+ */
+export interface EventOutcomeRecommendation {
+  marketId: string;
+  conditionId: string;
+  label: string;
+  action: TradeAction;
+  fairProbability: number;
+  marketProbability: number;
+  edge: number; // fairProbability - marketProbability
+  expectedValue: number; // In dollars per $100 invested
+}
+
+/**
+ * Event-level analysis over all outcomes of a multi-outcome event
+ */
+export interface EventAnalysis {
+  eventId: string;
+  title: string;
+  negRisk: boolean;
+  outcomes: EventOutcome[];
+  signals: EventDistributionSignal[];
+  distribution: EventProbabilityDistribution;
+  recommendations: EventOutcomeRecommendation[];
+  timestamp: number;
+}
+
 // ============================================================================
 // Audit Trail
 // ============================================================================
@@ -18,6 +18,7 @@ import { createPolymarketClient } from './utils/polymarket-client.js';
 import { createMonitorService } from './utils/monitor-service.js';
 import { OpikCallbackHandler } from 'opik-langchain';
 import { createHealthCheckServer } from './utils/health-check-server.js';
+import { createWorkflowProgressBus } from './utils/workflow-progress.js';
 import { validateMonitorEnvOrExit } from './utils/env-validator.js';
 
 // Load .env file
@@ -69,7 +70,8 @@ async function main(): Promise<void> {
     // 6. Create market discovery engine with Opik handler
     const discovery = createMarketDiscoveryEngine(config.polymarket, opikHandler);
 
-    // 7. Create monitor service
+    // 7. Create monitor service, publishing live analysis progress for the SSE endpoint
+    const progressBus = createWorkflowProgressBus();
     monitorService = createMonitorService(
       config,
       supabaseManager,
@@ -77,7 +79,8 @@ async function main(): Promise<void> {
       quotaManager,
       discovery,
       polymarketClient,
-      opikHandler
+      opikHandler,
+      progressBus
     );
 
     // 8. Initialize monitor service
@@ -90,6 +93,8 @@ async function main(): Promise<void> {
     healthCheckServer = createHealthCheckServer(monitorService, {
       port: healthCheckPort,
       enableManualTriggers,
+      progressBus,
+      sseAllowedOrigin: process.env.SSE_ALLOWED_ORIGIN,
     });
 
     // 9. Start health check server
@@ -102,6 +107,7 @@ async function main(): Promise<void> {
     console.log('='.repeat(80));
     console.log('Monitor started successfully');
     console.log(`Health check endpoint: http://localhost:${healthCheckPort}/health`);
+    console.log(`Progress stream (SSE): http://localhost:${healthCheckPort}/events`);
     if (enableManualTriggers) {
       console.log(`Manual trigger endpoint: http://localhost:${healthCheckPort}/trigger`);
     }
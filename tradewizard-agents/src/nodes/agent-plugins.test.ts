@@ -0,0 +1,154 @@
+/**
+ * Unit tests for agent plugin selection and nodes
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createAgentPluginNode, createAgentPluginNodes } from './agent-plugins.js';
+import { dynamicAgentSelectionNode, selectPluginAgents } from './dynamic-agent-selection.js';
+import {
+  BUILT_IN_AGENT_PLUGINS,
+  cryptoAgentPlugin,
+  macroAgentPlugin,
+  registerBuiltInAgentPlugins,
+  sportsAgentPlugin,
+} from './plugins/index.js';
+import {
+  AgentRegistry,
+  defaultAgentRegistry,
+  registerAgentPlugin,
+  type AgentPlugin,
+} from '../utils/agent-registry.js';
+import { getDefaultConfig, type EngineConfig } from '../config/index.js';
+import type { GraphStateType } from '../models/state.js';
+import type { MarketBriefingDocument } from '../models/types.js';
+import type { DataIntegrationLayer } from '../utils/data-integration.js';
+
+const config = getDefaultConfig() as EngineConfig;
+
+const createMBD = (overrides: Partial<MarketBriefingDocument> = {}): MarketBriefingDocument => ({
+  marketId: 'market-1',
+  conditionId: 'condition-1',
+  eventType: 'other',
+  question: 'Will it snow in London on Christmas Day?',
+  resolutionCriteria: 'Resolves YES if the Met Office records snow',
+  expiryTimestamp: Date.now() + 86400000,
+  currentProbability: 0.2,
+  liquidityScore: 6,
+  bidAskSpread: 2,
+  volatilityRegime: 'medium',
+  volume24h: 5000,
+  metadata: { ambiguityFlags: [], keyCatalysts: [] },
+  ...overrides,
+});
+
+const createPlugin = (overrides: Partial<AgentPlugin> = {}): AgentPlugin => ({
+  name: 'weather',
+  description: 'Weather markets',
+  group: 'domain',
+  eventTypes: ['other'],
+  dataRequirements: [],
+  costTier: 'low',
+  priority: 'high',
+  systemPrompt: 'You are a meteorologist.',
+  ...overrides,
+});
+
+const createDataLayer = (newsAvailable: boolean): DataIntegrationLayer =>
+  ({
+    checkDataAvailability: vi.fn(async (source: string) => source !== 'news' || newsAvailable),
+  }) as unknown as DataIntegrationLayer;
+
+describe('Agent Plugins', () => {
+  afterEach(() => {
+    defaultAgentRegistry.unregister('weather');
+  });
+
+  describe('selectPluginAgents', () => {
+    it('should select plugins by event type and applicability', () => {
+      const registry = new AgentRegistry();
+      registry.register(createPlugin());
+      registry.register(
+        createPlugin({ name: 'snow', appliesTo: (mbd) => mbd.question.includes('snow') })
+      );
+      registry.register(createPlugin({ name: 'fed_watch', eventTypes: ['economic'] }));
+
+      expect(selectPluginAgents(createMBD(), config, registry)).toEqual(['weather', 'snow']);
+      expect(
+        selectPluginAgents(createMBD({ question: 'Will it rain?' }), config, registry)
+      ).toEqual(['weather']);
+    });
+
+    it('should leave out plugins disabled in configuration', () => {
+      const registry = new AgentRegistry();
+      registry.register(createPlugin());
+
+      expect(
+        selectPluginAgents(
+          createMBD(),
+          { ...config, agentPlugins: { enabled: true, disabled: ['weather'] } },
+          registry
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe('dynamic agent selection', () => {
+    it('should activate registered plugins whose data requirements are met', async () => {
+      registerAgentPlugin(createPlugin({ dataRequirements: ['news'] }));
+      const state = { mbd: createMBD() } as GraphStateType;
+
+      const withNews = await dynamicAgentSelectionNode(state, config, createDataLayer(true));
+      const withoutNews = await dynamicAgentSelectionNode(state, config, createDataLayer(false));
+
+      expect(withNews.activeAgents).toContain('weather');
+      expect(withoutNews.activeAgents).not.toContain('weather');
+    });
+  });
+
+  describe('createAgentPluginNode', () => {
+    it('should only run the plugin node when the agent was selected', async () => {
+      const node = vi.fn().mockResolvedValue({ agentSignals: [] });
+      const pluginNode = createAgentPluginNode(createPlugin({ createNode: () => node }), config);
+
+      const skipped = await pluginNode({ activeAgents: ['momentum'] } as GraphStateType);
+      await pluginNode({ activeAgents: ['weather'] } as GraphStateType);
+
+      expect(skipped.auditLog?.[0].data).toMatchObject({ agentName: 'weather', skipped: true });
+      expect(node).toHaveBeenCalledTimes(1);
+    });
+
+    it('should name graph nodes after the plugin', () => {
+      const registry = new AgentRegistry();
+      registry.register(createPlugin({ createNode: () => vi.fn() }));
+
+      expect(createAgentPluginNodes(config, registry).map((p) => p.nodeName)).toEqual([
+        'weather_agent',
+      ]);
+    });
+  });
+
+  describe('built-in plugins', () => {
+    it('should register each built-in plugin once', () => {
+      const registry = new AgentRegistry();
+      registerBuiltInAgentPlugins(registry);
+      registerBuiltInAgentPlugins(registry);
+
+      expect(registry.list()).toEqual(BUILT_IN_AGENT_PLUGINS);
+    });
+
+    it('should apply domain plugins to matching markets only', () => {
+      const sports = createMBD({ question: 'Will the Lakers win the NBA Finals?' });
+      const crypto = createMBD({ question: 'Will Bitcoin reach $150k by December?' });
+      const fed = createMBD({ eventType: 'policy', question: 'Will the Fed cut rates in March?' });
+
+      expect(sportsAgentPlugin.appliesTo!(sports)).toBe(true);
+      expect(sportsAgentPlugin.appliesTo!(crypto)).toBe(false);
+      expect(sportsAgentPlugin.appliesTo!(createMBD({ eventType: 'sports' }))).toBe(true);
+      expect(cryptoAgentPlugin.appliesTo!(crypto)).toBe(true);
+      expect(cryptoAgentPlugin.appliesTo!(createMBD({ question: 'Will Beth win?' }))).toBe(false);
+      expect(cryptoAgentPlugin.appliesTo!(createMBD({ eventType: 'crypto' }))).toBe(true);
+      expect(macroAgentPlugin.appliesTo!(fed)).toBe(true);
+      expect(macroAgentPlugin.appliesTo!(createMBD({ eventType: 'policy' }))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Agent Plugin Nodes
+ *
+ * Builds LangGraph nodes for the plugin agents in the agent registry. A plugin
+ * either supplies its own node factory or gets the standard prompt-based
+ * agent node with its declared prompt, output schema and LLM preference.
+ *
+ * Plugin nodes only run when dynamic agent selection activated them; otherwise
+ * they return without calling the LLM.
+ */
+
+import type { GraphStateType } from '../models/state.js';
+import type { MarketBriefingDocument } from '../models/types.js';
+import type { EngineConfig } from '../config/index.js';
+import { createLLMInstance } from '../utils/llm-factory.js';
+import { getLogger } from '../utils/logger.js';
+import {
+  defaultAgentRegistry,
+  getEnabledAgentPlugins,
+  type AgentNodeFunction,
+  type AgentPlugin,
+  type AgentRegistry,
+} from '../utils/agent-registry.js';
+import { createAgentNode } from './agents.js';
+
+const logger = getLogger();
+
+/**
+ * Graph node name of a plugin agent
+ */
+export function getAgentPluginNodeName(plugin: AgentPlugin): string {
+  return `${plugin.name}_agent`;
+}
+
+/**
+ * Create the LangGraph node for a plugin agent
+ *
+ * @param plugin - Registered plugin
+ * @param config - Engine configuration
+ * @returns Node function that skips when the agent was not selected
+ */
+export function createAgentPluginNode(
+  plugin: AgentPlugin,
+  config: EngineConfig
+): AgentNodeFunction {
+  const node = plugin.createNode
+    ? plugin.createNode(config)
+    : createAgentNode(
+        plugin.name,
+        createLLMInstance(config, plugin.llm?.preferredProvider, plugin.llm?.fallbackProviders),
+        plugin.systemPrompt,
+        plugin.outputSchema
+      );
+
+  return async (state: GraphStateType): Promise<Partial<GraphStateType>> => {
+    if (!state.activeAgents?.includes(plugin.name)) {
+      return {
+        auditLog: [
+          {
+            stage: `agent_${plugin.name}`,
+            timestamp: Date.now(),
+            data: {
+              agentName: plugin.name,
+              skipped: true,
+              reason: 'Not selected by dynamic agent selection',
+            },
+          },
+        ],
+      };
+    }
+
+    return node(state);
+  };
+}
+
+/**
+ * Create a prompt-based agent node whose prompt is extended with market data
+ *
+ * Used by plugins backed by external feeds (team stats, price data). The
+ * loader runs per market; when it fails or finds nothing the agent runs on its
+ * base prompt.
+ *
+ * @param plugin - Plugin supplying the prompt, output schema and LLM preference
+ * @param config - Engine configuration
+ * @param loadContext - Returns a prompt section for the market, or null
+ * @returns Agent node function
+ */
+export function createContextualAgentNode(
+  plugin: AgentPlugin,
+  config: EngineConfig,
+  loadContext: (mbd: MarketBriefingDocument) => Promise<string | null>
+): AgentNodeFunction {
+  const llm = createLLMInstance(config, plugin.llm?.preferredProvider, plugin.llm?.fallbackProviders);
+
+  return async (state: GraphStateType): Promise<Partial<GraphStateType>> => {
+    let context: string | null = null;
+    if (state.mbd) {
+      try {
+        context = await loadContext(state.mbd);
+      } catch (error) {
+        logger.warn(
+          { agentName: plugin.name, error: error instanceof Error ? error.message : String(error) },
+          '[AgentPlugins] Failed to load agent data context, continuing without it'
+        );
+      }
+    }
+
+    const systemPrompt = context ? `${plugin.systemPrompt}\n\n${context}` : plugin.systemPrompt;
+    return createAgentNode(plugin.name, llm, systemPrompt, plugin.outputSchema)(state);
+  };
+}
+
+/**
+ * Create nodes for every plugin enabled by configuration
+ *
+ * @param config - Engine configuration
+ * @param registry - Agent registry (defaults to the shared registry)
+ * @returns Plugins with their graph node names and node functions
+ */
+export function createAgentPluginNodes(
+  config: EngineConfig,
+  registry: AgentRegistry = defaultAgentRegistry
+): Array<{ plugin: AgentPlugin; nodeName: string; node: AgentNodeFunction }> {
+  return getEnabledAgentPlugins(config, registry).map((plugin) => ({
+    plugin,
+    nodeName: getAgentPluginNodeName(plugin),
+    node: createAgentPluginNode(plugin, config),
+  }));
+}
@@ -2,8 +2,8 @@
  * Unit tests for agent signal fusion error handling
  */
 
-import { describe, it, expect } from 'vitest';
-import { agentSignalFusionNode } from './agent-signal-fusion.js';
+import { describe, it, expect, vi } from 'vitest';
+import { agentSignalFusionNode, createAgentSignalFusionNode } from './agent-signal-fusion.js';
 import type { GraphStateType } from '../models/state.js';
 import type { AgentSignal } from '../models/types.js';
 import type { EngineConfig } from '../config/index.js';
@@ -246,4 +246,94 @@ describe('Agent Signal Fusion Error Handling', () => {
       expect(Object.keys(result.fusedSignal!.weights).length).toBe(2);
     });
   });
+  describe('Historical performance', () => {
+    const createState = (): GraphStateType =>
+      ({
+        mbd: {
+          marketId: 'test-market',
+          question: 'Test?',
+          description: 'Test',
+          endDate: Date.now() + 86400000,
+          volume24h: 10000,
+          liquidityScore: 8,
+          currentProbability: 0.5,
+          eventType: 'election',
+          tags: [],
+          outcomes: ['YES', 'NO'],
+        },
+        agentSignals: [
+          createMockSignal('market_microstructure', 0.4),
+          createMockSignal('probability_baseline', 0.8),
+        ],
+        activeAgents: ['market_microstructure', 'probability_baseline'],
+        agentPerformance: {},
+        auditLog: [],
+      }) as unknown as GraphStateType;
+
+    const metrics = (agentName: string, accuracyScore: number) => ({
+      agentName,
+      totalAnalyses: 50,
+      averageConfidence: 0.8,
+      accuracyScore,
+      averageExecutionTime: 0,
+      errorRate: 0,
+      lastUpdated: Date.now(),
+    });
+
+    it('should weight agents by their persisted record for the market category', async () => {
+      const config = { ...mockConfig, performanceTracking: { ...mockConfig.performanceTracking, enabled: true } };
+      const loader = vi.fn().mockResolvedValue({
+        market_microstructure: metrics('market_microstructure', 0.3),
+        probability_baseline: metrics('probability_baseline', 0.95),
+      });
+
+      const baseline = await agentSignalFusionNode(createState(), config);
+      const result = await createAgentSignalFusionNode(config, { loadHistoricalPerformance: loader })(createState());
+
+      expect(loader).toHaveBeenCalledWith('election');
+      expect(result.fusedSignal!.weights.probability_baseline).toBeGreaterThan(
+        baseline.fusedSignal!.weights.probability_baseline
+      );
+      expect(result.fusedSignal!.fairProbability).toBeGreaterThan(baseline.fusedSignal!.fairProbability);
+      expect(result.agentPerformance!.probability_baseline.accuracyScore).toBe(0.95);
+    });
+
+    it('should use learned weights when fusion mode is learned', async () => {
+      const config = { ...mockConfig, signalFusion: { ...mockConfig.signalFusion, mode: 'learned' as const } };
+      const loadFusionWeights = vi.fn().mockResolvedValue({
+        version: 'fw-test',
+        createdAt: 0,
+        trainingExamples: 100,
+        l2: 1,
+        global: { intercept: 0, weights: { probability_baseline: 1 }, examples: 100 },
+        byCategory: {},
+      });
+
+      const result = await createAgentSignalFusionNode(config, { loadFusionWeights })(createState());
+
+      expect(result.fusedSignal!.fairProbability).toBeCloseTo(0.8);
+      expect(result.fusedSignal!.weights).toEqual({ market_microstructure: 0, probability_baseline: 1 });
+      expect(result.auditLog![0].data).toMatchObject({ fusionMode: 'learned', fusionWeightsVersion: 'fw-test' });
+    });
+
+    it('should fall back to heuristic weights without a learned weight set', async () => {
+      const config = { ...mockConfig, signalFusion: { ...mockConfig.signalFusion, mode: 'learned' as const } };
+
+      const result = await createAgentSignalFusionNode(config, {
+        loadFusionWeights: vi.fn().mockResolvedValue(null),
+      })(createState());
+
+      expect(result.fusedSignal!.weights.market_microstructure).toBeGreaterThan(0);
+      expect(result.auditLog![0].data).toMatchObject({ fusionMode: 'heuristic' });
+    });
+
+    it('should skip the loader when performance tracking is disabled', async () => {
+      const loader = vi.fn();
+
+      const result = await createAgentSignalFusionNode(mockConfig, { loadHistoricalPerformance: loader })(createState());
+
+      expect(loader).not.toHaveBeenCalled();
+      expect(result.fusedSignal).not.toBeNull();
+    });
+  });
 });
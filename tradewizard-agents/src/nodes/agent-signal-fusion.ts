@@ -11,65 +11,42 @@
  * 4. Calculates signal alignment (how much agents agree)
  * 5. Computes fusion confidence with alignment bonus and quality penalty
  * 6. Produces a FusedSignal with weighted consensus probability
+ *
+ * With signalFusion.mode = 'learned', steps 1-2 use a stored weight set fitted
+ * from resolved markets (see utils/fusion-weights.ts) instead of the
+ * hand-tuned per-agent-type weights.
  */
 
 import type { GraphStateType } from '../models/state.js';
 import type { AgentSignal } from '../models/types.js';
 import type { EngineConfig } from '../config/index.js';
-import { getPerformanceWeightAdjustment } from '../utils/performance-tracking.js';
+import {
+  getPerformanceWeightAdjustment,
+  type PerformanceLedgerLoader,
+} from '../utils/performance-tracking.js';
+import {
+  applyFusionWeights,
+  type FusionWeightSet,
+  type FusionWeightsLoader,
+} from '../utils/fusion-weights.js';
+import { getAgentDefinition, type AgentGroup } from '../utils/agent-registry.js';
 
 /**
  * Agent type classification for weighting
  */
-type AgentType =
-  | 'mvp'
-  | 'event_intelligence'
-  | 'polling_statistical'
-  | 'sentiment_narrative'
-  | 'price_action'
-  | 'event_scenario';
+type AgentType = AgentGroup;
 
 /**
  * Classify agent by type based on agent name
  *
+ * Built-in and plugin agents declare their group in the agent registry.
+ *
  * @param agentName - Name of the agent
  * @returns Agent type classification
  */
 function classifyAgentType(agentName: string): AgentType {
-  // MVP agents
-  if (
-    ['market_microstructure', 'probability_baseline', 'risk_assessment'].includes(agentName)
-  ) {
-    return 'mvp';
-  }
-
-  // Event intelligence agents
-  if (['breaking_news', 'event_impact'].includes(agentName)) {
-    return 'event_intelligence';
-  }
-
-  // Polling & statistical agents
-  if (['polling_intelligence', 'historical_pattern'].includes(agentName)) {
-    return 'polling_statistical';
-  }
-
-  // Sentiment & narrative agents
-  if (['media_sentiment', 'social_sentiment', 'narrative_velocity'].includes(agentName)) {
-    return 'sentiment_narrative';
-  }
-
-  // Price action agents
-  if (['momentum', 'mean_reversion'].includes(agentName)) {
-    return 'price_action';
-  }
-
-  // Event scenario agents
-  if (['catalyst', 'tail_risk'].includes(agentName)) {
-    return 'event_scenario';
-  }
-
   // Default to MVP for unknown agents
-  return 'mvp';
+  return getAgentDefinition(agentName)?.group ?? 'mvp';
 }
 
 /**
@@ -82,6 +59,7 @@ function classifyAgentType(agentName: string): AgentType {
  * - Sentiment: 0.8x (noisy but useful)
  * - Price action: 1.0x (reliable for liquid markets)
  * - Event scenario: 1.0x (forward-looking analysis)
+ * - Domain (plugin agents): 1.0x unless the plugin declares a fusion weight
  *
  * @param agentType - Agent type classification
  * @param config - Engine configuration
@@ -109,6 +87,8 @@ function getBaseWeight(agentType: AgentType, config: EngineConfig): number {
       return 1.0;
     case 'event_scenario':
       return 1.0;
+    case 'domain':
+      return 1.0;
     default:
       return 1.0;
   }
@@ -228,7 +208,8 @@ function calculateDynamicWeights(
     // Calculate raw weights for each agent
     for (const signal of signals) {
       const agentType = classifyAgentType(signal.agentName);
-      const baseWeight = getBaseWeight(agentType, config);
+      const baseWeight =
+        getAgentDefinition(signal.agentName)?.fusionWeight ?? getBaseWeight(agentType, config);
       const adjustedWeight = applyContextAdjustments(signal, baseWeight, state, config);
       weights[signal.agentName] = Math.max(0, adjustedWeight); // Ensure non-negative
     }
@@ -455,11 +436,13 @@ function calculateFusionConfidence(
  *
  * @param state - Current graph state
  * @param config - Engine configuration
+ * @param learnedWeights - Learned weight set, used when signalFusion.mode is 'learned'
  * @returns Partial state update with fusedSignal and audit log
  */
 export async function agentSignalFusionNode(
   state: GraphStateType,
-  config: EngineConfig
+  config: EngineConfig,
+  learnedWeights?: FusionWeightSet | null
 ): Promise<Partial<GraphStateType>> {
   const startTime = Date.now();
   const { agentSignals, activeAgents } = state;
@@ -483,11 +466,19 @@ export async function agentSignalFusionNode(
   }
 
   try {
-    // Step 1: Calculate dynamic weights
-    const weights = calculateDynamicWeights(agentSignals, state, config);
+    // Steps 1-2: Learned weights when configured and available, otherwise
+    // dynamic weights and the weighted consensus probability
+    const learned =
+      config.signalFusion.mode === 'learned' && learnedWeights
+        ? applyFusionWeights(learnedWeights, agentSignals, state.mbd?.eventType)
+        : null;
+    if (config.signalFusion.mode === 'learned' && !learned) {
+      console.warn('[SignalFusion] Learned weights unavailable for these agents, using heuristic weights');
+    }
 
-    // Step 2: Calculate weighted consensus probability
-    const fairProbability = calculateWeightedProbability(agentSignals, weights);
+    const weights = learned?.weights ?? calculateDynamicWeights(agentSignals, state, config);
+    const fairProbability =
+      learned?.fairProbability ?? calculateWeightedProbability(agentSignals, weights);
 
     // Step 3: Identify conflicting signals
     const conflictingSignals = identifyConflicts(agentSignals, config);
@@ -547,6 +538,8 @@ export async function agentSignalFusionNode(
         dataQuality,
         extremeDivergence,
         probabilityRange,
+        fusionMode: learned ? 'learned' : 'heuristic',
+        ...(learned && { fusionWeightsVersion: learnedWeights!.version, fusionModel: learned.model }),
       },
     };
 
@@ -569,6 +562,8 @@ export async function agentSignalFusionNode(
             extremeDivergence,
             probabilityRange,
             weights,
+            fusionMode: learned ? 'learned' : 'heuristic',
+            fusionWeightsVersion: learned ? learnedWeights!.version : undefined,
             duration: Date.now() - startTime,
           },
         },
@@ -601,12 +596,38 @@ export async function agentSignalFusionNode(
  * Create agent signal fusion node with bound configuration
  *
  * This factory function creates a node function that can be added to the LangGraph.
+ * When a performance ledger loader is provided, historical accuracy for the
+ * market's category takes precedence over in-run metrics for weighting. When
+ * signalFusion.mode is 'learned', the weight set from loadFusionWeights is used.
  *
  * @param config - Engine configuration
+ * @param loaders - Optional loaders for persisted performance and learned weights
  * @returns Node function for LangGraph
  */
-export function createAgentSignalFusionNode(config: EngineConfig) {
+export function createAgentSignalFusionNode(
+  config: EngineConfig,
+  loaders: {
+    loadHistoricalPerformance?: PerformanceLedgerLoader;
+    loadFusionWeights?: FusionWeightsLoader;
+  } = {}
+) {
   return async (state: GraphStateType): Promise<Partial<GraphStateType>> => {
-    return agentSignalFusionNode(state, config);
+    const learnedWeights =
+      config.signalFusion.mode === 'learned' && loaders.loadFusionWeights
+        ? await loaders.loadFusionWeights()
+        : null;
+
+    if (!loaders.loadHistoricalPerformance || !config.performanceTracking.enabled || !state.mbd) {
+      return agentSignalFusionNode(state, config, learnedWeights);
+    }
+
+    const historicalPerformance = await loaders.loadHistoricalPerformance(state.mbd.eventType);
+    if (Object.keys(historicalPerformance).length === 0) {
+      return agentSignalFusionNode(state, config, learnedWeights);
+    }
+
+    const agentPerformance = { ...state.agentPerformance, ...historicalPerformance };
+    const result = await agentSignalFusionNode({ ...state, agentPerformance }, config, learnedWeights);
+    return { ...result, agentPerformance: historicalPerformance };
   };
 }
@@ -12,6 +12,9 @@ import { AgentSignalSchema, AgentSignalLLMOutputSchema } from '../models/schemas
 import type { EngineConfig } from '../config/index.js';
 import { formatMemoryContext } from '../utils/memory-formatter.js';
 import { formatMarketContextForAgent } from '../utils/agent-context-formatter.js';
+import type { AgentPluginOutputSchema } from '../utils/agent-registry.js';
+import { resolvePrompt } from '../utils/prompt-registry.js';
+import { citeSignal, newsCitationCandidates } from '../utils/source-credibility.js';
 
 /**
  * Type for supported LLM instances
@@ -25,13 +28,15 @@ import { formatMarketContextForAgent } from '../utils/agent-context-formatter.js
  *
  * @param agentName - Unique identifier for the agent
  * @param llm - LLM instance to use for analysis
- * @param systemPrompt - System prompt defining the agent's perspective
+ * @param systemPrompt - System prompt defining the agent's perspective (the baseline prompt version)
+ * @param outputSchema - Structured output schema (defaults to the standard signal fields)
  * @returns LangGraph node function
  */
 export function createAgentNode(
   agentName: string,
   llm: LLMInstance,
-  systemPrompt: string
+  systemPrompt: string,
+  outputSchema: AgentPluginOutputSchema = AgentSignalLLMOutputSchema
 ): (state: GraphStateType) => Promise<Partial<GraphStateType>> {
   return async (state: GraphStateType): Promise<Partial<GraphStateType>> => {
     const startTime = Date.now();
@@ -69,8 +74,15 @@ export function createAgentNode(
       ? formatMemoryContext(memoryContext, { maxLength: 1000 })
       : { text: 'No previous analysis available for this market.', signalCount: 0, truncated: false };
 
+    // Prompt version from the registry (baseline unless an experiment assigns another)
+    const { prompt, version: promptVersion } = resolvePrompt(
+      agentName,
+      systemPrompt,
+      state.mbd.conditionId
+    );
+
     // Requirement 3.1, 3.2, 3.3, 3.4, 3.5: Enhanced prompt with memory context and instructions
-    const enhancedSystemPrompt = `${systemPrompt}
+    const enhancedSystemPrompt = `${prompt}
 
 ## Your Previous Analysis
 
@@ -84,6 +96,7 @@ When you have previous analysis available:
 3. If your view has changed significantly, explain the reasoning for the change in your key drivers
 4. If your view remains consistent, acknowledge the continuity and reinforce your reasoning
 5. Reference specific changes from previous analysis when relevant
+6. Treat lessons from comparable markets as base-rate evidence about how your reasoning has held up, not as history of this market
 
 Your analysis should show thoughtful evolution over time, not random fluctuation.`;
 
@@ -104,7 +117,7 @@ Your analysis should show thoughtful evolution over time, not random fluctuation
     for (let attempt = 1; attempt <= maxAttempts; attempt++) {
       try {
         // Use structured output with Zod schema (without agentName/timestamp)
-        const structuredLLM = llm.withStructuredOutput(AgentSignalLLMOutputSchema);
+        const structuredLLM = llm.withStructuredOutput(outputSchema);
 
         // Invoke the LLM with system prompt and market data
         const response = await structuredLLM.invoke(messages);
@@ -114,7 +127,7 @@ Your analysis should show thoughtful evolution over time, not random fluctuation
           ...response,
           agentName,
           timestamp: Date.now(),
-          metadata: response.metadata ?? {},
+          metadata: { ...(response.metadata ?? {}), promptVersion },
         };
 
         // Validate the complete signal against the full schema
@@ -164,8 +177,11 @@ Your analysis should show thoughtful evolution over time, not random fluctuation
           };
         }
 
-        // Validation successful - use the validated signal
-        const signal: AgentSignal = validationResult.data;
+        // Validation successful - cite the news behind the key drivers
+        const signal: AgentSignal = citeSignal(
+          validationResult.data,
+          newsCitationCandidates(state.externalData?.news ?? [])
+        );
 
         // Return successful signal
         return {
@@ -180,6 +196,8 @@ Your analysis should show thoughtful evolution over time, not random fluctuation
                 direction: signal.direction,
                 confidence: signal.confidence,
                 fairProbability: signal.fairProbability,
+                citationCount: signal.citations?.length,
+                promptVersion,
                 attempts: attempt,
                 duration: Date.now() - startTime,
               },
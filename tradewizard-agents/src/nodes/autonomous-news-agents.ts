@@ -36,7 +36,8 @@
 import { createReactAgent } from '@langchain/langgraph/prebuilt';
 import type { DynamicStructuredTool } from '@langchain/core/tools';
 import { createLLMInstance, type LLMInstance } from '../utils/llm-factory.js';
-import { createNewsDataClient } from '../utils/newsdata-client.js';
+import { createNewsClient } from '../utils/news-providers.js';
+import type { NewsDataCacheManager } from '../utils/newsdata-cache-manager.js';
 import { ToolCache } from '../utils/tool-cache.js';
 import {
   createFetchLatestNewsTool,
@@ -45,11 +46,12 @@ import {
   createFetchMarketNewsTool,
   getToolUsageSummary as getNewsToolUsageSummary,
 } from '../tools/newsdata-tools.js';
-import type { ToolContext, ToolAuditEntry } from '../tools/newsdata-tools.js';
+import type { ToolContext, ToolAuditEntry, NewsArticle } from '../tools/newsdata-tools.js';
 import type { GraphStateType } from '../models/state.js';
 import type { AgentSignal } from '../models/types.js';
 import { AgentSignalSchema } from '../models/schemas.js';
 import type { EngineConfig } from '../config/index.js';
+import { citeSignal, newsToolCitationCandidates } from '../utils/source-credibility.js';
 
 // ============================================================================
 // Types and Interfaces
@@ -391,11 +393,13 @@ export function createAutonomousNewsAgent(
  *
  * @param agentType - Type of news agent
  * @param config - Engine configuration
+ * @param newsDataCache - Response cache shared across runs (optional)
  * @returns LangGraph node function
  */
 function createAutonomousNewsAgentNode(
   agentType: NewsAgentType,
-  config: EngineConfig
+  config: EngineConfig,
+  newsDataCache?: NewsDataCacheManager
 ): (state: GraphStateType) => Promise<Partial<GraphStateType>> {
   return async (state: GraphStateType): Promise<Partial<GraphStateType>> => {
     const startTime = Date.now();
@@ -435,11 +439,15 @@ function createAutonomousNewsAgentNode(
         };
       }
 
-      // Step 1.5: Check for NewsData configuration
-      if (!config.newsData || !config.newsData.apiKey) {
-        const errorMessage = !config.newsData 
-          ? 'NewsData configuration not available'
-          : 'NewsData API key not configured';
+      // Step 1.5: Create the news client for the configured provider (Requirement 6.1, 7.1, 8.1)
+      const newsClient = createNewsClient(config, newsDataCache);
+      if (!newsClient) {
+        const provider = config.newsProvider?.provider ?? 'newsdata';
+        const errorMessage = provider !== 'newsdata'
+          ? `News provider ${provider} not configured`
+          : !config.newsData
+            ? 'NewsData configuration not available'
+            : 'NewsData API key not configured';
         console.error(`[${agentName}] ${errorMessage}`);
 
         return {
@@ -458,7 +466,7 @@ function createAutonomousNewsAgentNode(
                 agentName,
                 success: false,
                 error: errorMessage,
-                errorContext: 'Missing NewsData configuration or API key',
+                errorContext: 'Missing news provider configuration',
                 duration: Date.now() - startTime,
               },
             },
@@ -466,13 +474,6 @@ function createAutonomousNewsAgentNode(
         };
       }
 
-      // Initialize NewsDataClient (Requirement 6.1, 7.1, 8.1)
-      // At this point, TypeScript knows config.newsData and apiKey are defined
-      const newsDataClient = createNewsDataClient({
-        ...config.newsData,
-        apiKey: config.newsData.apiKey,
-      });
-
       // Step 2: Create tool cache with session ID (Requirement 1.6)
       const sessionId = state.mbd.conditionId || 'unknown';
       cache = new ToolCache(sessionId);
@@ -482,7 +483,7 @@ function createAutonomousNewsAgentNode(
 
       // Step 4: Create tool context
       const toolContext: ToolContext = {
-        newsDataClient,
+        newsClient,
         cache,
         auditLog: toolAuditLog,
         agentName,
@@ -731,6 +732,12 @@ Use the available tools to gather additional news data as needed, then provide y
         };
       }
 
+      // Step 10.6: Cite the fetched articles behind the key drivers
+      const fetchedArticles = toolAuditLog.flatMap((entry) =>
+        Array.isArray(entry.result) ? (entry.result as NewsArticle[]) : []
+      );
+      signal.citations = citeSignal(signal, newsToolCitationCandidates(fetchedArticles)).citations;
+
       // Step 11: Return agent signal and comprehensive audit log
       // Requirements: 19.5, 19.6 - Include tool usage summary in audit log
       const totalDuration = Date.now() - startTime;
@@ -901,12 +908,14 @@ Use the available tools to gather additional news data as needed, then provide y
  * Requirements: 6.1, 6.2, 6.3, 6.6, 6.7, 6.8
  *
  * @param config - Engine configuration
+ * @param newsDataCache - NewsData response cache (optional)
  * @returns LangGraph node function
  */
 export function createAutonomousBreakingNewsAgentNode(
-  config: EngineConfig
+  config: EngineConfig,
+  newsDataCache?: NewsDataCacheManager
 ): (state: GraphStateType) => Promise<Partial<GraphStateType>> {
-  return createAutonomousNewsAgentNode('breaking_news', config);
+  return createAutonomousNewsAgentNode('breaking_news', config, newsDataCache);
 }
 
 /**
@@ -915,12 +924,14 @@ export function createAutonomousBreakingNewsAgentNode(
  * Requirements: 7.1, 7.2, 7.3, 7.6, 7.7, 7.8
  *
  * @param config - Engine configuration
+ * @param newsDataCache - NewsData response cache (optional)
  * @returns LangGraph node function
  */
 export function createAutonomousMediaSentimentAgentNode(
-  config: EngineConfig
+  config: EngineConfig,
+  newsDataCache?: NewsDataCacheManager
 ): (state: GraphStateType) => Promise<Partial<GraphStateType>> {
-  return createAutonomousNewsAgentNode('media_sentiment', config);
+  return createAutonomousNewsAgentNode('media_sentiment', config, newsDataCache);
 }
 
 /**
@@ -929,10 +940,12 @@ export function createAutonomousMediaSentimentAgentNode(
  * Requirements: 8.1, 8.2, 8.3, 8.6, 8.7, 8.8
  *
  * @param config - Engine configuration
+ * @param newsDataCache - NewsData response cache (optional)
  * @returns LangGraph node function
  */
 export function createAutonomousMarketMicrostructureAgentNode(
-  config: EngineConfig
+  config: EngineConfig,
+  newsDataCache?: NewsDataCacheManager
 ): (state: GraphStateType) => Promise<Partial<GraphStateType>> {
-  return createAutonomousNewsAgentNode('market_microstructure', config);
+  return createAutonomousNewsAgentNode('market_microstructure', config, newsDataCache);
 }
@@ -424,6 +424,10 @@ export function createAutonomousPollingAgentNode(
       const keywordsContext = state.marketKeywords
         ? JSON.stringify(state.marketKeywords, null, 2)
         : 'None';
+      // Polls loaded by the external_data node from the configured poll feeds
+      const pollingContext = state.externalData?.polling
+        ? JSON.stringify(state.externalData.polling, null, 2)
+        : '';
 
       const input = {
         messages: [
@@ -434,7 +438,7 @@ export function createAutonomousPollingAgentNode(
 MARKET DATA:
 ${marketContext}
 
-KEYWORDS:
+${pollingContext ? `POLLING DATA:\n${pollingContext}\n\n` : ''}KEYWORDS:
 ${keywordsContext}
 
 Use the available tools to gather additional data as needed, then provide your structured analysis.`,
@@ -423,6 +423,39 @@ describe('Cross-Examination Node', () => {
         expect(test.score).toBeLessThanOrEqual(1);
       });
     });
+
+    it('should scale surviving evidence scores by citation credibility', async () => {
+      const state: Partial<GraphStateType> = {
+        conditionId: 'test-condition-456',
+        mbd: sampleMBD,
+        bullThesis: {
+          ...sampleBullThesis,
+          citations: [
+            {
+              claim: 'Candidate X leads swing state polls',
+              url: 'https://www.reuters.com/world/us/swing-state-polls',
+              title: 'Candidate X leads in swing state polls',
+              source: 'reuters.com',
+              tier: 'high',
+              credibility: 0.85,
+            },
+          ],
+        },
+        bearThesis: { ...sampleBearThesis, citations: [] },
+        agentSignals: [],
+        agentErrors: [],
+        auditLog: [],
+      };
+
+      const result = await crossExaminationNode(state as GraphStateType);
+
+      const [bullEvidence, bearEvidence] = result.debateRecord!.tests.filter(
+        (test) => test.testType === 'evidence'
+      );
+      expect(bullEvidence.outcome).toBe('survived');
+      expect(bullEvidence.score).toBeCloseTo(0.7 * (0.5 + 0.5 * 0.85));
+      expect(bearEvidence.score).toBeCloseTo(0.35);
+    });
   });
 
   describe('Argument Survival Determination', () => {
@@ -10,6 +10,8 @@ import type { GraphStateType } from '../models/state.js';
 import type { DebateRecord, DebateTest, Thesis } from '../models/types.js';
 import type { EngineConfig } from '../config/index.js';
 import { formatTimestamp } from '../utils/timestamp-formatter.js';
+import { resolvePrompt } from '../utils/prompt-registry.js';
+import { citationStrength } from '../utils/source-credibility.js';
 
 /**
  * Type for supported LLM instances
@@ -40,11 +42,15 @@ You are a fact-checker for prediction market theses.
 
 Your role is to verify factual claims made in a thesis against available data.
 
-Given a thesis and its claims, evaluate:
+Given a thesis, its claims and the sources cited for them, evaluate:
 - Are the factual claims verifiable?
 - Is the evidence cited accurate and relevant?
+- Do the cited sources actually support the claims, and how credible are they?
 - Are there contradictory facts that weaken the claim?
 
+Claims backed only by low-credibility or unknown sources, or by no cited source at all,
+should not be rated SURVIVED on their own.
+
 For each claim, determine if it:
 - SURVIVED: The claim is well-supported by evidence
 - WEAKENED: The claim has some support but also contradictory evidence
@@ -161,26 +167,49 @@ Respond with a structured test result including:
 - outcome: "survived", "weakened", or "refuted"
 - score: A number from -1 (refuted) to 1 (survived), with 0 being neutral`;
 
+/**
+ * Format a thesis's citations for the evidence test
+ */
+function formatCitedEvidence(thesis: Thesis): string {
+  if (!thesis.citations) {
+    return '';
+  }
+  if (thesis.citations.length === 0) {
+    return '\nCited Evidence: none - no claim could be linked to a source article\n';
+  }
+
+  const lines = thesis.citations.map(
+    ({ claim, title, source, tier, url }, index) =>
+      `${index + 1}. "${claim}" - ${title} (${source}, ${tier} credibility) ${url}`
+  );
+  return `\nCited Evidence:\n${lines.join('\n')}\n`;
+}
+
 /**
  * Execute evidence test on a thesis
+ *
+ * When the thesis carries citations, the score of a surviving thesis is
+ * scaled by the credibility of its cited sources (halved when nothing is
+ * cited), so uncited claims cannot pass the test at full strength.
  */
 async function executeEvidenceTest(
   llm: LLMInstance,
   thesis: Thesis,
-  opposingThesis: Thesis
+  opposingThesis: Thesis,
+  systemPrompt: string
 ): Promise<DebateTest> {
   const prompt = `Evaluate the factual claims in this thesis:
 
 Thesis Direction: ${thesis.direction}
 Core Argument: ${thesis.coreArgument}
 Catalysts: ${thesis.catalysts.join(', ')}
-
+${formatCitedEvidence(thesis)}
 Opposing Thesis: ${opposingThesis.coreArgument}
 
 Analyze the factual claims and determine if they are well-supported by evidence.`;
 
   const response = await llm.invoke([
-    { role: 'system', content: EVIDENCE_TEST_PROMPT },
+    { role: 'system', content: systemPrompt },
     { role: 'user', content: prompt },
   ]);
 
@@ -197,7 +226,10 @@ Analyze the factual claims and determine if they are well-supported by evidence.
     outcome = 'weakened';
   }
   
-  const score = outcome === 'survived' ? 0.7 : outcome === 'weakened' ? 0 : -0.7;
+  let score = outcome === 'survived' ? 0.7 : outcome === 'weakened' ? 0 : -0.7;
+  if (outcome === 'survived' && thesis.citations) {
+    score *= 0.5 + 0.5 * citationStrength(thesis.citations);
+  }
 
   return {
     testType: 'evidence',
@@ -214,7 +246,8 @@ Analyze the factual claims and determine if they are well-supported by evidence.
 async function executeCausalityTest(
   llm: LLMInstance,
   thesis: Thesis,
-  opposingThesis: Thesis
+  opposingThesis: Thesis,
+  systemPrompt: string
 ): Promise<DebateTest> {
   const prompt = `Evaluate the causal claims in this thesis:
 
@@ -227,7 +260,7 @@ Opposing Thesis: ${opposingThesis.coreArgument}
 Analyze whether the thesis confuses correlation with causation.`;
 
   const response = await llm.invoke([
-    { role: 'system', content: CAUSALITY_TEST_PROMPT },
+    { role: 'system', content: systemPrompt },
     { role: 'user', content: prompt },
   ]);
 
@@ -259,7 +292,8 @@ Analyze whether the thesis confuses correlation with causation.`;
 async function executeTimingTest(
   llm: LLMInstance,
   thesis: Thesis,
-  mbd: GraphStateType['mbd']
+  mbd: GraphStateType['mbd'],
+  systemPrompt: string
 ): Promise<DebateTest> {
   if (!mbd) {
     return {
@@ -281,7 +315,7 @@ Market Expiry: ${marketExpiry.formatted}
 Analyze whether the catalyst timeline is realistic given the market expiry.`;
 
   const response = await llm.invoke([
-    { role: 'system', content: TIMING_TEST_PROMPT },
+    { role: 'system', content: systemPrompt },
     { role: 'user', content: prompt },
   ]);
 
@@ -313,7 +347,8 @@ Analyze whether the catalyst timeline is realistic given the market expiry.`;
 async function executeLiquidityTest(
   llm: LLMInstance,
   thesis: Thesis,
-  mbd: GraphStateType['mbd']
+  mbd: GraphStateType['mbd'],
+  systemPrompt: string
 ): Promise<DebateTest> {
   if (!mbd) {
     return {
@@ -335,7 +370,7 @@ Bid-Ask Spread: ${mbd.bidAskSpread} cents
 Analyze whether the position can be executed without significant slippage.`;
 
   const response = await llm.invoke([
-    { role: 'system', content: LIQUIDITY_TEST_PROMPT },
+    { role: 'system', content: systemPrompt },
     { role: 'user', content: prompt },
   ]);
 
@@ -366,7 +401,8 @@ Analyze whether the position can be executed without significant slippage.`;
  */
 async function executeTailRiskTest(
   llm: LLMInstance,
-  thesis: Thesis
+  thesis: Thesis,
+  systemPrompt: string
 ): Promise<DebateTest> {
   const prompt = `Evaluate the tail risk considerations in this thesis:
 
@@ -377,7 +413,7 @@ Failure Conditions: ${thesis.failureConditions.join(', ')}
 Analyze whether the thesis adequately considers low-probability, high-impact scenarios.`;
 
   const response = await llm.invoke([
-    { role: 'system', content: TAIL_RISK_TEST_PROMPT },
+    { role: 'system', content: systemPrompt },
     { role: 'user', content: prompt },
   ]);
 
@@ -510,12 +546,21 @@ export function createCrossExaminationNode(
 
     try {
       const tests: DebateTest[] = [];
+      const marketId = state.mbd?.conditionId ?? state.conditionId;
+      const prompts = {
+        evidence_test: resolvePrompt('evidence_test', EVIDENCE_TEST_PROMPT, marketId),
+        causality_test: resolvePrompt('causality_test', CAUSALITY_TEST_PROMPT, marketId),
+        timing_test: resolvePrompt('timing_test', TIMING_TEST_PROMPT, marketId),
+        liquidity_test: resolvePrompt('liquidity_test', LIQUIDITY_TEST_PROMPT, marketId),
+        tail_risk_test: resolvePrompt('tail_risk_test', TAIL_RISK_TEST_PROMPT, marketId),
+      };
 
       // Execute evidence test on bull thesis
       const bullEvidenceTest = await executeEvidenceTest(
         llm,
         state.bullThesis,
-        state.bearThesis
+        state.bearThesis,
+        prompts.evidence_test.prompt
       );
       tests.push(bullEvidenceTest);
 
@@ -523,7 +568,8 @@ export function createCrossExaminationNode(
       const bearEvidenceTest = await executeEvidenceTest(
         llm,
         state.bearThesis,
-        state.bullThesis
+        state.bullThesis,
+        prompts.evidence_test.prompt
       );
       tests.push(bearEvidenceTest);
 
@@ -531,7 +577,8 @@ export function createCrossExaminationNode(
       const bullCausalityTest = await executeCausalityTest(
         llm,
         state.bullThesis,
-        state.bearThesis
+        state.bearThesis,
+        prompts.causality_test.prompt
       );
       tests.push(bullCausalityTest);
 
@@ -539,23 +586,35 @@ export function createCrossExaminationNode(
       const bearCausalityTest = await executeCausalityTest(
         llm,
         state.bearThesis,
-        state.bullThesis
+        state.bullThesis,
+        prompts.causality_test.prompt
       );
       tests.push(bearCausalityTest);
 
       // Execute timing test on bull thesis
-      const bullTimingTest = await executeTimingTest(llm, state.bullThesis, state.mbd);
+      const bullTimingTest = await executeTimingTest(
+        llm,
+        state.bullThesis,
+        state.mbd,
+        prompts.timing_test.prompt
+      );
       tests.push(bullTimingTest);
 
       // Execute timing test on bear thesis
-      const bearTimingTest = await executeTimingTest(llm, state.bearThesis, state.mbd);
+      const bearTimingTest = await executeTimingTest(
+        llm,
+        state.bearThesis,
+        state.mbd,
+        prompts.timing_test.prompt
+      );
       tests.push(bearTimingTest);
 
       // Execute liquidity test on bull thesis
       const bullLiquidityTest = await executeLiquidityTest(
         llm,
         state.bullThesis,
-        state.mbd
+        state.mbd,
+        prompts.liquidity_test.prompt
       );
       tests.push(bullLiquidityTest);
 
@@ -563,16 +622,25 @@ export function createCrossExaminationNode(
       const bearLiquidityTest = await executeLiquidityTest(
         llm,
         state.bearThesis,
-        state.mbd
+        state.mbd,
+        prompts.liquidity_test.prompt
       );
       tests.push(bearLiquidityTest);
 
       // Execute tail risk test on bull thesis
-      const bullTailRiskTest = await executeTailRiskTest(llm, state.bullThesis);
+      const bullTailRiskTest = await executeTailRiskTest(
+        llm,
+        state.bullThesis,
+        prompts.tail_risk_test.prompt
+      );
       tests.push(bullTailRiskTest);
 
       // Execute tail risk test on bear thesis
-      const bearTailRiskTest = await executeTailRiskTest(llm, state.bearThesis);
+      const bearTailRiskTest = await executeTailRiskTest(
+        llm,
+        state.bearThesis,
+        prompts.tail_risk_test.prompt
+      );
       tests.push(bearTailRiskTest);
 
       // Calculate aggregate scores
@@ -605,6 +673,9 @@ export function createCrossExaminationNode(
               bullScore,
               bearScore,
               keyDisagreements: keyDisagreements.length,
+              promptVersions: Object.fromEntries(
+                Object.entries(prompts).map(([site, { version }]) => [site, version])
+              ),
               duration: Date.now() - startTime,
             },
           },
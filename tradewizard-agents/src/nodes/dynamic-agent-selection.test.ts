@@ -311,6 +311,33 @@ describe('Dynamic Agent Selection Node', () => {
       );
     });
 
+    it('should select sentiment agents but not polling agents for sports markets', async () => {
+      const mbd = createMockMBD({ eventType: 'sports' });
+      const state = createMockState(mbd);
+      const config = createMockConfig();
+      const dataLayer = createMockDataLayer();
+
+      const result = await dynamicAgentSelectionNode(state, config, dataLayer);
+
+      expect(result.activeAgents).toEqual(
+        expect.arrayContaining(['breaking_news', 'social_sentiment'])
+      );
+      expect(result.activeAgents).not.toContain('polling_intelligence');
+    });
+
+    it('should select price action agents for crypto markets', async () => {
+      const mbd = createMockMBD({ eventType: 'crypto' });
+      const state = createMockState(mbd);
+      const config = createMockConfig();
+      const dataLayer = createMockDataLayer();
+
+      const result = await dynamicAgentSelectionNode(state, config, dataLayer);
+
+      expect(result.activeAgents).toEqual(
+        expect.arrayContaining(['breaking_news', 'media_sentiment', 'momentum'])
+      );
+    });
+
     it('should select all available agents for unknown market types', async () => {
       const mbd = createMockMBD({ eventType: 'other' });
       const state = createMockState(mbd);
@@ -514,6 +541,28 @@ describe('Dynamic Agent Selection Node', () => {
       // Should include many agents
       expect(result.activeAgents!.length).toBeGreaterThan(MVP_AGENTS.length + 5);
     });
+
+    it('should run only the planned agents for a planned analysis', async () => {
+      const mbd = createMockMBD({ eventType: 'election' });
+      const state = createMockState(mbd);
+      const config = createMockConfig({
+        costOptimization: {
+          maxCostPerAnalysis: 10.0,
+          skipLowImpactAgents: true,
+          batchLLMRequests: true,
+          plannedAgents: [...MVP_AGENTS, 'polling_intelligence', 'media_sentiment'],
+        },
+      });
+      const dataLayer = createMockDataLayer();
+
+      const result = await dynamicAgentSelectionNode(state, config, dataLayer);
+
+      expect(result.activeAgents).toEqual([
+        ...MVP_AGENTS,
+        'polling_intelligence',
+        'media_sentiment',
+      ]);
+    });
   });
 
   describe('Audit Logging', () => {
@@ -2,7 +2,7 @@
  * Dynamic Agent Selection Node
  *
  * This LangGraph node determines which agents to activate based on:
- * - Market type (election, court, policy, etc.)
+ * - Market type (election, court, policy, etc.), including registered plugin agents
  * - Data availability (external data sources)
  * - Configuration (enabled/disabled agent groups)
  * - Cost optimization (budget constraints)
@@ -11,37 +11,33 @@
 import type { GraphStateType } from '../models/state.js';
 import type { EngineConfig } from '../config/index.js';
 import type { DataIntegrationLayer } from '../utils/data-integration.js';
-import type { EventType } from '../models/types.js';
+import type { EventType, MarketBriefingDocument } from '../models/types.js';
 import {
   applyCostOptimization,
   createCostOptimizationAuditEntry,
 } from '../utils/cost-optimization.js';
+import {
+  defaultAgentRegistry,
+  getBuiltInAgentNames,
+  getEnabledAgentPlugins,
+  type AgentDataRequirement,
+  type AgentRegistry,
+} from '../utils/agent-registry.js';
 
 /**
- * Agent name constants
+ * Agent name constants (built-in agents by group, from the agent registry)
  */
-export const MVP_AGENTS = [
-  'market_microstructure',
-  'probability_baseline',
-  'risk_assessment',
-] as const;
+export const MVP_AGENTS = getBuiltInAgentNames('mvp');
 
-export const EVENT_INTELLIGENCE_AGENTS = ['breaking_news', 'event_impact'] as const;
+export const EVENT_INTELLIGENCE_AGENTS = getBuiltInAgentNames('event_intelligence');
 
-export const POLLING_STATISTICAL_AGENTS = [
-  'polling_intelligence',
-  'historical_pattern',
-] as const;
+export const POLLING_STATISTICAL_AGENTS = getBuiltInAgentNames('polling_statistical');
 
-export const SENTIMENT_NARRATIVE_AGENTS = [
-  'media_sentiment',
-  'social_sentiment',
-  'narrative_velocity',
-] as const;
+export const SENTIMENT_NARRATIVE_AGENTS = getBuiltInAgentNames('sentiment_narrative');
 
-export const PRICE_ACTION_AGENTS = ['momentum', 'mean_reversion'] as const;
+export const PRICE_ACTION_AGENTS = getBuiltInAgentNames('price_action');
 
-export const EVENT_SCENARIO_AGENTS = ['catalyst', 'tail_risk'] as const;
+export const EVENT_SCENARIO_AGENTS = getBuiltInAgentNames('event_scenario');
 
 export const RISK_PHILOSOPHY_AGENTS = ['aggressive', 'conservative', 'neutral'] as const;
 
@@ -93,7 +89,10 @@ export async function dynamicAgentSelectionNode(
   // Step 1: Market Type-Based Agent Selection
   // ============================================================================
 
-  const marketTypeAgents = selectAgentsByMarketType(mbd.eventType);
+  const marketTypeAgents = [
+    ...selectAgentsByMarketType(mbd.eventType),
+    ...selectPluginAgents(mbd, config),
+  ];
   selectionDecisions.market_type = `Market type: ${mbd.eventType}, suggested agents: ${marketTypeAgents.join(', ')}`;
 
   // ============================================================================
@@ -118,7 +117,16 @@ export async function dynamicAgentSelectionNode(
   // Step 4: Cost Optimization Filtering
   // ============================================================================
 
-  const costOptimizationResult = applyCostOptimization(dataAvailableAgents, config);
+  // A planned analysis runs only the agents the budget planner chose for it
+  const plannedAgents = config.costOptimization.plannedAgents;
+  const costCandidates = plannedAgents
+    ? dataAvailableAgents.filter((agent) => plannedAgents.includes(agent))
+    : dataAvailableAgents;
+  if (plannedAgents) {
+    selectionDecisions.planned_agents = `After budget plan: ${costCandidates.join(', ')}`;
+  }
+
+  const costOptimizationResult = applyCostOptimization(costCandidates, config);
   
   selectionDecisions.cost_optimization = 
     `Budget: $${costOptimizationResult.maxCost.toFixed(2)}, ` +
@@ -159,82 +167,53 @@ export async function dynamicAgentSelectionNode(
 /**
  * Select agents based on market type
  *
- * Different market types benefit from different agent specializations:
- * - Election: Polling, sentiment, narrative agents
- * - Court: Event intelligence, polling, historical pattern agents
- * - Policy: Event intelligence, polling, sentiment, catalyst agents
- * - Economic: Event intelligence, polling, historical pattern agents
- * - Geopolitical: Event intelligence, polling, sentiment, catalyst agents
+ * Each built-in agent declares the market types it applies to in the agent
+ * registry (see BUILT_IN_AGENTS), for example:
+ * - Election: Polling, sentiment, narrative and event intelligence agents
+ * - Sports: Event intelligence (injury/lineup news), sentiment agents
+ * - Crypto: Event intelligence, sentiment, price action agents
  * - Other: All available agents
  *
- * Note: Polling intelligence is valuable for all market types as it provides
- * insights into public opinion, statistical patterns, and historical trends.
+ * Event scenario agents apply to every market type. MVP agents always run and
+ * are not selected here.
  *
  * @param eventType - Market event type
+ * @param registry - Agent registry (defaults to the shared registry)
  * @returns Array of agent names appropriate for this market type
  */
-function selectAgentsByMarketType(eventType: EventType): string[] {
-  const agents: string[] = [];
-
-  switch (eventType) {
-    case 'election':
-      // Elections benefit from polling data and sentiment analysis
-      agents.push(
-        ...POLLING_STATISTICAL_AGENTS,
-        ...SENTIMENT_NARRATIVE_AGENTS,
-        ...EVENT_INTELLIGENCE_AGENTS
-      );
-      break;
-
-    case 'court':
-      // Court cases benefit from event intelligence and historical patterns
-      agents.push(...EVENT_INTELLIGENCE_AGENTS, ...POLLING_STATISTICAL_AGENTS);
-      break;
-
-    case 'policy':
-      // Policy markets benefit from event intelligence, polling, sentiment, and catalysts
-      agents.push(
-        ...EVENT_INTELLIGENCE_AGENTS,
-        ...POLLING_STATISTICAL_AGENTS,
-        ...SENTIMENT_NARRATIVE_AGENTS,
-        ...EVENT_SCENARIO_AGENTS
-      );
-      break;
-
-    case 'economic':
-      // Economic markets benefit from event intelligence and historical patterns
-      agents.push(...EVENT_INTELLIGENCE_AGENTS, ...POLLING_STATISTICAL_AGENTS);
-      break;
-
-    case 'geopolitical':
-      // Geopolitical markets benefit from event intelligence, polling, sentiment, and catalysts
-      agents.push(
-        ...EVENT_INTELLIGENCE_AGENTS,
-        ...POLLING_STATISTICAL_AGENTS,
-        ...SENTIMENT_NARRATIVE_AGENTS,
-        ...EVENT_SCENARIO_AGENTS
-      );
-      break;
-
-    case 'other':
-    default:
-      // Unknown market types get all available agents
-      agents.push(
-        ...EVENT_INTELLIGENCE_AGENTS,
-        ...POLLING_STATISTICAL_AGENTS,
-        ...SENTIMENT_NARRATIVE_AGENTS,
-        ...PRICE_ACTION_AGENTS,
-        ...EVENT_SCENARIO_AGENTS
-      );
-      break;
-  }
-
-  // Always consider event scenario agents
-  if (!agents.includes('catalyst')) {
-    agents.push(...EVENT_SCENARIO_AGENTS);
-  }
+export function selectAgentsByMarketType(
+  eventType: EventType,
+  registry: AgentRegistry = defaultAgentRegistry
+): string[] {
+  return registry
+    .listBuiltIn()
+    .filter((agent) => agent.group !== 'mvp' && agent.eventTypes.includes(eventType))
+    .map((agent) => agent.name);
+}
 
-  return agents;
+/**
+ * Select registered plugin agents for a market
+ *
+ * A plugin is selected when it is enabled in configuration, declares the
+ * market's event type and, if it has an applicability check, accepts the
+ * market.
+ *
+ * @param mbd - Market briefing document
+ * @param config - Engine configuration
+ * @param registry - Agent registry (defaults to the shared registry)
+ * @returns Plugin agent names appropriate for this market
+ */
+export function selectPluginAgents(
+  mbd: MarketBriefingDocument,
+  config: EngineConfig,
+  registry: AgentRegistry = defaultAgentRegistry
+): string[] {
+  return getEnabledAgentPlugins(config, registry)
+    .filter(
+      (plugin) =>
+        plugin.eventTypes.includes(mbd.eventType) && (plugin.appliesTo?.(mbd) ?? true)
+    )
+    .map((plugin) => plugin.name);
 }
 
 /**
@@ -246,7 +225,7 @@ function selectAgentsByMarketType(eventType: EventType): string[] {
  * @param config - Engine configuration
  * @returns Filtered agent names
  */
-function applyConfigurationFilters(agents: string[], config: EngineConfig): string[] {
+export function applyConfigurationFilters(agents: string[], config: EngineConfig): string[] {
   const filtered: string[] = [];
 
   for (const agent of agents) {
@@ -322,9 +301,22 @@ async function filterByDataAvailability(
   const pollingAvailable = await dataLayer.checkDataAvailability('polling');
   const socialAvailable = await dataLayer.checkDataAvailability('social');
 
+  const availableData: Record<AgentDataRequirement, boolean> = {
+    news: newsAvailable,
+    polling: pollingAvailable,
+    social: socialAvailable,
+    trading_history: mbd.volume24h >= 1000,
+  };
+
   for (const agent of agents) {
     let shouldInclude = true;
 
+    // Plugin agents declare the data they require
+    const plugin = defaultAgentRegistry.get(agent);
+    if (plugin && !plugin.dataRequirements.every((requirement) => availableData[requirement])) {
+      shouldInclude = false;
+    }
+
     // Event intelligence agents require news data
     if (EVENT_INTELLIGENCE_AGENTS.includes(agent as any)) {
       if (!newsAvailable) {
@@ -0,0 +1,176 @@
+/**
+ * Unit tests for event-level analysis
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createEventDistributionAgent,
+  generateEventRecommendations,
+  runEventAnalysis,
+  type EventDistributionAgent,
+} from './event-analysis.js';
+import type { EngineConfig } from '../config/index.js';
+import type {
+  EventWithMarkets,
+  PolymarketMarket,
+} from '../utils/enhanced-event-polymarket-client.js';
+import type { EventOutcome, EventProbabilityDistribution } from '../models/types.js';
+
+const createMarket = (id: string, price: number) =>
+  ({
+    id,
+    conditionId: `0x${id}`,
+    question: `Will ${id} win?`,
+    groupItemTitle: id,
+    active: true,
+    closed: false,
+    outcomes: '["Yes","No"]',
+    outcomePrices: JSON.stringify([String(price), String(1 - price)]),
+    liquidityNum: 5000,
+    volume24hr: 100,
+  }) as PolymarketMarket;
+
+// Prices sum to 140%, as in an overpriced candidate field
+const eventWithMarkets = {
+  event: {
+    id: 'event-1',
+    title: 'Who will win the primary?',
+    description: 'Resolves to the winning candidate',
+    resolutionSource: '',
+    endDate: '2026-11-03',
+    negRisk: true,
+  },
+  markets: [createMarket('alice', 0.6), createMarket('bob', 0.5), createMarket('carol', 0.3)],
+  crossMarketCorrelations: [],
+} as unknown as EventWithMarkets;
+
+const config = {
+  agents: { minAgentsRequired: 2 },
+  consensus: { minEdgeThreshold: 0.05 },
+} as EngineConfig;
+
+const agentReturning =
+  (
+    agentName: string,
+    probabilities: Record<string, number>,
+    confidence = 0.8
+  ): EventDistributionAgent =>
+  async () => ({
+    agentName,
+    timestamp: Date.now(),
+    confidence,
+    probabilities,
+    keyDrivers: ['driver'],
+    riskFactors: [],
+  });
+
+describe('Event Analysis', () => {
+  describe('createEventDistributionAgent', () => {
+    it('should return a normalized distribution over known outcomes', async () => {
+      const invoke = vi.fn().mockResolvedValue({
+        confidence: 0.7,
+        outcomes: [
+          { marketId: 'alice', probability: 0.6 },
+          { marketId: 'bob', probability: 0.3 },
+          { marketId: 'carol', probability: 0.3 },
+          { marketId: 'unknown', probability: 0.2 },
+        ],
+        keyDrivers: ['Polling lead'],
+        riskFactors: [],
+      });
+      const llm = { withStructuredOutput: vi.fn().mockReturnValue({ invoke }) } as any;
+      const outcomes = eventWithMarkets.markets.map((market) => ({
+        marketId: market.id,
+        conditionId: market.conditionId,
+        label: market.id,
+        marketProbability: 0.5,
+        liquidity: 0,
+        volume24h: 0,
+      }));
+
+      const agent = createEventDistributionAgent('probability_baseline', llm, 'prompt');
+      const result = await agent(eventWithMarkets, outcomes);
+
+      expect(result.agentName).toBe('probability_baseline');
+      expect(result.probabilities).toEqual({ alice: 0.5, bob: 0.25, carol: 0.25 });
+      expect(invoke.mock.calls[0][0][1].content).toContain('marketId: carol');
+    });
+  });
+
+  describe('generateEventRecommendations', () => {
+    it('should measure edges against each outcome price', () => {
+      const outcomes: EventOutcome[] = [
+        {
+          marketId: 'a',
+          conditionId: '0xa',
+          label: 'A',
+          marketProbability: 0.4,
+          liquidity: 0,
+          volume24h: 0,
+        },
+        {
+          marketId: 'b',
+          conditionId: '0xb',
+          label: 'B',
+          marketProbability: 0.35,
+          liquidity: 0,
+          volume24h: 0,
+        },
+        {
+          marketId: 'c',
+          conditionId: '0xc',
+          label: 'C',
+          marketProbability: 0.25,
+          liquidity: 0,
+          volume24h: 0,
+        },
+      ];
+      const distribution = {
+        probabilities: { a: 0.5, b: 0.32, c: 0.18 },
+      } as unknown as EventProbabilityDistribution;
+
+      const recommendations = generateEventRecommendations(outcomes, distribution, 0.05);
+
+      expect(recommendations.map((r) => r.action)).toEqual(['LONG_YES', 'NO_TRADE', 'LONG_NO']);
+      expect(recommendations[0].edge).toBeCloseTo(0.1);
+      expect(recommendations[0].expectedValue).toBeCloseTo(25);
+      expect(recommendations[2].expectedValue).toBeGreaterThan(0);
+    });
+  });
+
+  describe('runEventAnalysis', () => {
+    it('should produce a distribution that sums to one with consistent recommendations', async () => {
+      const analysis = await runEventAnalysis(eventWithMarkets, config, [
+        agentReturning('one', { alice: 0.5, bob: 0.3, carol: 0.2 }),
+        agentReturning('two', { alice: 0.4, bob: 0.35, carol: 0.25 }),
+      ]);
+
+      const total = Object.values(analysis.distribution.probabilities).reduce((s, p) => s + p, 0);
+      expect(total).toBeCloseTo(1);
+      expect(analysis.negRisk).toBe(true);
+      expect(analysis.distribution.marketOverround).toBeCloseTo(1.4);
+      expect(analysis.recommendations.filter((r) => r.action === 'LONG_YES')).toHaveLength(0);
+      expect(analysis.recommendations.find((r) => r.marketId === 'bob')!.action).toBe('LONG_NO');
+    });
+
+    it('should skip failed agents and fail below the minimum', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const failing: EventDistributionAgent = async () => {
+        throw new Error('rate limited');
+      };
+
+      await expect(
+        runEventAnalysis(eventWithMarkets, config, [
+          agentReturning('one', { alice: 0.5, bob: 0.3, carol: 0.2 }),
+          failing,
+        ])
+      ).rejects.toThrow('Only 1 event agent(s) succeeded');
+    });
+
+    it('should reject events with fewer than two outcomes', async () => {
+      const single = { ...eventWithMarkets, markets: [createMarket('alice', 0.6)] };
+
+      await expect(runEventAnalysis(single, config, [])).rejects.toThrow('needs at least 2');
+    });
+  });
+});
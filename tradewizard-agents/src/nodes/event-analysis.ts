@@ -0,0 +1,293 @@
+/**
+ * Event Analysis
+ *
+ * Event-level analysis mode for multi-outcome (neg-risk) events. Instead of
+ * analyzing each outcome's binary market independently, agents see every
+ * outcome at once and return a joint distribution. The distributions are
+ * fused and normalized to sum to one, and per-outcome recommendations are
+ * derived from that single distribution so they are mutually consistent.
+ */
+
+import { createLLMInstance, type LLMInstance } from '../utils/llm-factory.js';
+import { EventDistributionLLMOutputSchema } from '../models/schemas.js';
+import type {
+  EventAnalysis,
+  EventDistributionSignal,
+  EventOutcome,
+  EventOutcomeRecommendation,
+  EventProbabilityDistribution,
+} from '../models/types.js';
+import type { EngineConfig } from '../config/index.js';
+import type { EventWithMarkets } from '../utils/enhanced-event-polymarket-client.js';
+import {
+  extractEventOutcomes,
+  fuseEventDistributions,
+  normalizeDistribution,
+} from '../utils/event-distribution.js';
+import { calculateExpectedValue } from './recommendation-generation.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Event distribution agent: produces a joint distribution over all outcomes
+ */
+export type EventDistributionAgent = (
+  eventWithMarkets: EventWithMarkets,
+  outcomes: EventOutcome[]
+) => Promise<EventDistributionSignal>;
+
+// ============================================================================
+// Agents
+// ============================================================================
+
+const JOINT_DISTRIBUTION_INSTRUCTIONS = `The event has several mutually exclusive outcomes; exactly one of them will occur. Each outcome trades as its own YES/NO market.
+
+Estimate the probability of EVERY listed outcome, reasoning about them jointly:
+- Your probabilities must sum to 1 across all outcomes
+- Raising one outcome's probability means lowering others
+- Use the marketId of each outcome exactly as given
+- Market prices often sum to more than 1; do not copy that overround
+
+Provide your confidence (0-1) in the distribution, up to 5 key drivers and the main risk factors.`;
+
+/**
+ * System prompts for event-level agents
+ */
+const EVENT_AGENT_PROMPTS = {
+  probability_baseline: `Current date and time: ${new Date().toISOString()}
+
+You are a probability estimation expert specializing in multi-outcome prediction markets.
+
+Your role is to provide a baseline distribution using fundamental analysis, historical base rates and statistical reasoning.
+
+${JOINT_DISTRIBUTION_INSTRUCTIONS}`,
+
+  market_microstructure: `Current date and time: ${new Date().toISOString()}
+
+You are a market microstructure analyst specializing in multi-outcome prediction markets.
+
+Your role is to read the relative pricing, liquidity and trading activity across all outcome markets, identify where the book is mispriced relative to the others and account for thin or stale markets.
+
+${JOINT_DISTRIBUTION_INSTRUCTIONS}`,
+
+  risk_assessment: `Current date and time: ${new Date().toISOString()}
+
+You are a risk assessment specialist for multi-outcome prediction markets.
+
+Your role is to identify longshot bias, tail outcomes the market ignores, resolution edge cases and scenarios that would shift probability between outcomes.
+
+${JOINT_DISTRIBUTION_INSTRUCTIONS}`,
+};
+
+/**
+ * Format the event and its outcomes for an event-level agent
+ */
+function formatEventContext(eventWithMarkets: EventWithMarkets, outcomes: EventOutcome[]): string {
+  const { event } = eventWithMarkets;
+  const outcomeLines = outcomes.map(
+    (outcome) =>
+      `- marketId: ${outcome.marketId} | ${outcome.label} | price: ${(outcome.marketProbability * 100).toFixed(1)}% | liquidity: $${Math.round(outcome.liquidity)} | 24h volume: $${Math.round(outcome.volume24h)}`
+  );
+  const overround = outcomes.reduce((sum, outcome) => sum + outcome.marketProbability, 0);
+
+  return `Event: ${event.title}
+Description: ${event.description}
+Resolution source: ${event.resolutionSource || 'Not specified'}
+End date: ${event.endDate}
+
+Outcomes (${outcomes.length}, market prices sum to ${(overround * 100).toFixed(1)}%):
+${outcomeLines.join('\n')}`;
+}
+
+/**
+ * Create an event distribution agent
+ *
+ * @param agentName - Unique identifier for the agent
+ * @param llm - LLM instance to use for analysis
+ * @param systemPrompt - System prompt defining the agent's perspective
+ * @returns Event distribution agent
+ */
+export function createEventDistributionAgent(
+  agentName: string,
+  llm: LLMInstance,
+  systemPrompt: string
+): EventDistributionAgent {
+  return async (eventWithMarkets, outcomes) => {
+    const structuredLLM = llm.withStructuredOutput(EventDistributionLLMOutputSchema);
+    const response = await structuredLLM.invoke([
+      { role: 'system', content: systemPrompt },
+      {
+        role: 'user',
+        content: `Analyze the following multi-outcome event and provide your distribution:\n\n${formatEventContext(eventWithMarkets, outcomes)}`,
+      },
+    ]);
+
+    const marketIds = outcomes.map((outcome) => outcome.marketId);
+    const unknownIds = response.outcomes
+      .map((entry) => entry.marketId)
+      .filter((marketId) => !marketIds.includes(marketId));
+    if (unknownIds.length === response.outcomes.length) {
+      throw new Error(`Agent ${agentName} returned no known outcomes`);
+    }
+
+    const raw = Object.fromEntries(
+      response.outcomes.map((entry) => [entry.marketId, entry.probability])
+    );
+
+    return {
+      agentName,
+      timestamp: Date.now(),
+      confidence: response.confidence,
+      probabilities: normalizeDistribution(
+        raw,
+        marketIds.filter((marketId) => marketId in raw)
+      ),
+      keyDrivers: response.keyDrivers,
+      riskFactors: response.riskFactors,
+    };
+  };
+}
+
+/**
+ * Create the event-level agents
+ *
+ * Uses the same provider preferences as the market-level agents: one LLM for
+ * all agents in single-provider mode, otherwise a provider per agent.
+ *
+ * @param config - Engine configuration
+ * @returns Event distribution agents
+ */
+export function createEventDistributionAgents(config: EngineConfig): EventDistributionAgent[] {
+  const shared = config.llm.singleProvider
+    ? createLLMInstance(config, config.llm.singleProvider)
+    : undefined;
+
+  const llms = {
+    probability_baseline:
+      shared || createLLMInstance(config, 'google', ['anthropic', 'openai', 'nova']),
+    market_microstructure:
+      shared || createLLMInstance(config, 'openai', ['anthropic', 'google', 'nova']),
+    risk_assessment: shared || createLLMInstance(config, 'anthropic', ['openai', 'google', 'nova']),
+  };
+
+  return (Object.keys(EVENT_AGENT_PROMPTS) as Array<keyof typeof EVENT_AGENT_PROMPTS>).map(
+    (agentName) =>
+      createEventDistributionAgent(agentName, llms[agentName], EVENT_AGENT_PROMPTS[agentName])
+  );
+}
+
+// ============================================================================
+// Recommendations
+// ============================================================================
+
+/**
+ * Derive per-outcome recommendations from the fused distribution
+ *
+ * Edges are measured against each outcome's own YES price, which is what a
+ * trade would pay. Because fair probabilities sum to one while prices sum to
+ * the overround, recommendations cannot go long YES on every outcome of an
+ * overpriced book the way independent binary analyses can.
+ *
+ * @param outcomes - Event outcomes
+ * @param distribution - Fused distribution
+ * @param minEdgeThreshold - Minimum absolute edge to recommend a trade
+ * @returns Recommendations in outcome order
+ */
+export function generateEventRecommendations(
+  outcomes: EventOutcome[],
+  distribution: EventProbabilityDistribution,
+  minEdgeThreshold: number
+): EventOutcomeRecommendation[] {
+  return outcomes.map((outcome) => {
+    const fairProbability = distribution.probabilities[outcome.marketId] ?? 0;
+    const edge = fairProbability - outcome.marketProbability;
+    const direction = edge >= 0 ? 'LONG_YES' : 'LONG_NO';
+    const expectedValue = calculateExpectedValue(
+      fairProbability,
+      outcome.marketProbability,
+      direction
+    );
+    const action = Math.abs(edge) >= minEdgeThreshold && expectedValue > 0 ? direction : 'NO_TRADE';
+
+    return {
+      marketId: outcome.marketId,
+      conditionId: outcome.conditionId,
+      label: outcome.label,
+      action,
+      fairProbability,
+      marketProbability: outcome.marketProbability,
+      edge,
+      expectedValue,
+    };
+  });
+}
+
+// ============================================================================
+// Event Analysis
+// ============================================================================
+
+/**
+ * Run an event-level analysis over all outcomes of a multi-outcome event
+ *
+ * Agents run in parallel; failed agents are logged and skipped, and the
+ * analysis fails when fewer than `agents.minAgentsRequired` succeed.
+ *
+ * @param eventWithMarkets - Event with all of its markets
+ * @param config - Engine configuration
+ * @param agents - Event distribution agents (defaults to the configured LLM agents)
+ * @returns Event analysis
+ */
+export async function runEventAnalysis(
+  eventWithMarkets: EventWithMarkets,
+  config: EngineConfig,
+  agents: EventDistributionAgent[] = createEventDistributionAgents(config)
+): Promise<EventAnalysis> {
+  const { event } = eventWithMarkets;
+  const outcomes = extractEventOutcomes(eventWithMarkets);
+
+  if (outcomes.length < 2) {
+    throw new Error(
+      `Event ${event.id} has ${outcomes.length} tradable outcome(s); event analysis needs at least 2`
+    );
+  }
+
+  const results = await Promise.allSettled(
+    agents.map((agent) => agent(eventWithMarkets, outcomes))
+  );
+
+  const signals: EventDistributionSignal[] = [];
+  for (const result of results) {
+    if (result.status === 'fulfilled') {
+      signals.push(result.value);
+    } else {
+      console.warn('[EventAnalysis] Agent failed:', result.reason);
+    }
+  }
+
+  const minAgents = Math.min(config.agents.minAgentsRequired, agents.length);
+  if (signals.length < minAgents) {
+    throw new Error(
+      `Only ${signals.length} event agent(s) succeeded; at least ${minAgents} required`
+    );
+  }
+
+  const distribution = fuseEventDistributions(outcomes, signals);
+  const recommendations = generateEventRecommendations(
+    outcomes,
+    distribution,
+    config.consensus.minEdgeThreshold
+  );
+
+  return {
+    eventId: event.id,
+    title: event.title,
+    negRisk: event.negRisk,
+    outcomes,
+    signals,
+    distribution,
+    recommendations,
+    timestamp: Date.now(),
+  };
+}
@@ -10,6 +10,7 @@ import type { GraphStateType } from '../models/state.js';
 import type { AgentSignal } from '../models/types.js';
 import type { EngineConfig } from '../config/index.js';
 import { createLLMInstance } from '../utils/llm-factory.js';
+import { resolvePrompt } from '../utils/prompt-registry.js';
 
 // ============================================================================
 // Event Impact Agent Signal Schema
@@ -161,9 +162,15 @@ export function createEventImpactAgentNode(
         `\n\nEvent-Based Keywords for Impact Analysis:\n${JSON.stringify(keywordContext, null, 2)}` : 
         '';
 
+      const { prompt, version: promptVersion } = resolvePrompt(
+        'event_impact',
+        EVENT_IMPACT_PROMPT,
+        state.mbd.conditionId
+      );
+
       // Invoke the LLM with enhanced context
       const response = await structuredLLM.invoke([
-        { role: 'system', content: EVENT_IMPACT_PROMPT },
+        { role: 'system', content: prompt },
         {
           role: 'user',
           content: `Analyze the following prediction market and model event impacts:\n\nMarket:\n${marketContext}${catalystsContext}${keywordContextStr}`,
@@ -179,7 +186,7 @@ export function createEventImpactAgentNode(
         fairProbability: response.fairProbability,
         keyDrivers: response.keyDrivers,
         riskFactors: response.riskFactors,
-        metadata: response.metadata,
+        metadata: { ...response.metadata, promptVersion },
       };
 
       return {
@@ -194,6 +201,7 @@ export function createEventImpactAgentNode(
               direction: signal.direction,
               confidence: signal.confidence,
               fairProbability: signal.fairProbability,
+              promptVersion,
               historicalAnalogsCount: response.metadata.historicalAnalogs.length,
               scenarioCount: response.metadata.scenarioTree.length,
               duration: Date.now() - startTime,
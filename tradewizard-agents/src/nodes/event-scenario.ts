@@ -10,6 +10,9 @@ import type { GraphStateType } from '../models/state.js';
 import type { AgentSignal } from '../models/types.js';
 import type { EngineConfig } from '../config/index.js';
 import { createLLMInstance } from '../utils/llm-factory.js';
+import { formatResolutionRiskContext } from '../utils/resolution-risk.js';
+import { resolvePrompt } from '../utils/prompt-registry.js';
+import { citeSignal, newsCitationCandidates } from '../utils/source-credibility.js';
 
 // ============================================================================
 // Catalyst Agent Signal Schema
@@ -151,6 +154,12 @@ When event-based keywords are provided, use them to improve tail risk identifica
 - Use political keywords to identify politically driven tail risks and black swan events
 - Consider cross-market risks when analyzing tail scenarios that could affect multiple related markets
 
+RESOLUTION RISK:
+When a resolution risk assessment is provided, treat a disputed or technicality resolution as a tail scenario:
+- Estimate how likely the market resolves against the apparent real-world outcome
+- Name the clause, missing source or deadline that would cause it
+- Markets often misprice this risk because traders read the question, not the criteria
+
 Provide your analysis as a structured signal with:
 - confidence: Your confidence in this tail-risk analysis (0-1)
 - direction: Your view on the outcome (YES/NO/NEUTRAL)
@@ -237,26 +246,35 @@ export function createCatalystAgentNode(
         `\n\nEvent-Based Keywords for Catalyst Analysis:\n${JSON.stringify(keywordContext, null, 2)}` : 
         '';
 
+      const { prompt, version: promptVersion } = resolvePrompt(
+        'catalyst',
+        CATALYST_PROMPT,
+        state.mbd.conditionId
+      );
+
       // Invoke the LLM with enhanced context
       const response = await structuredLLM.invoke([
-        { role: 'system', content: CATALYST_PROMPT },
+        { role: 'system', content: prompt },
         {
           role: 'user',
           content: `Analyze the following prediction market and identify upcoming catalysts:\n\nMarket:\n${marketContext}${catalystsContext}${newsContext}${keywordContextStr}`,
         },
       ]);
 
-      // Create the agent signal
-      const signal: AgentSignal = {
-        agentName: 'catalyst',
-        timestamp: Date.now(),
-        confidence: response.confidence,
-        direction: response.direction,
-        fairProbability: response.fairProbability,
-        keyDrivers: response.keyDrivers,
-        riskFactors: response.riskFactors,
-        metadata: response.metadata,
-      };
+      // Create the agent signal, citing the news shown to the agent
+      const signal: AgentSignal = citeSignal(
+        {
+          agentName: 'catalyst',
+          timestamp: Date.now(),
+          confidence: response.confidence,
+          direction: response.direction,
+          fairProbability: response.fairProbability,
+          keyDrivers: response.keyDrivers,
+          riskFactors: response.riskFactors,
+          metadata: { ...response.metadata, promptVersion },
+        },
+        newsCitationCandidates(newsData.slice(0, 10))
+      );
 
       return {
         agentSignals: [signal],
@@ -270,6 +288,7 @@ export function createCatalystAgentNode(
               direction: signal.direction,
               confidence: signal.confidence,
               fairProbability: signal.fairProbability,
+              promptVersion,
               catalystCount: response.metadata.upcomingCatalysts.length,
               optimalEntryTiming: response.metadata.optimalEntryTiming,
               duration: Date.now() - startTime,
@@ -361,13 +380,22 @@ export function createTailRiskAgentNode(
       const keywordContextStr = keywordContext ? 
         `\n\nEvent-Based Keywords for Tail Risk Analysis:\n${JSON.stringify(keywordContext, null, 2)}` : 
         '';
+      const resolutionRiskStr = state.resolutionRisk
+        ? `\n\nResolution Risk Assessment:\n${formatResolutionRiskContext(state.resolutionRisk)}`
+        : '';
+
+      const { prompt, version: promptVersion } = resolvePrompt(
+        'tail_risk',
+        TAIL_RISK_PROMPT,
+        state.mbd.conditionId
+      );
 
       // Invoke the LLM with enhanced context
       const response = await structuredLLM.invoke([
-        { role: 'system', content: TAIL_RISK_PROMPT },
+        { role: 'system', content: prompt },
         {
           role: 'user',
-          content: `Analyze the following prediction market and identify tail-risk scenarios:\n\nMarket:\n${marketContext}${keywordContextStr}`,
+          content: `Analyze the following prediction market and identify tail-risk scenarios:\n\nMarket:\n${marketContext}${keywordContextStr}${resolutionRiskStr}`,
         },
       ]);
 
@@ -380,7 +408,7 @@ export function createTailRiskAgentNode(
         fairProbability: response.fairProbability,
         keyDrivers: response.keyDrivers,
         riskFactors: response.riskFactors,
-        metadata: response.metadata,
+        metadata: { ...response.metadata, promptVersion },
       };
 
       return {
@@ -395,6 +423,7 @@ export function createTailRiskAgentNode(
               direction: signal.direction,
               confidence: signal.confidence,
               fairProbability: signal.fairProbability,
+              promptVersion,
               tailScenarioCount: response.metadata.tailScenarios.length,
               convexOpportunityCount: response.metadata.convexOpportunities.length,
               duration: Date.now() - startTime,
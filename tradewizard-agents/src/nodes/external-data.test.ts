@@ -0,0 +1,333 @@
+/**
+ * Unit tests for the external data node and its place in the workflow
+ */
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { END, START, StateGraph } from '@langchain/langgraph';
+import { createExternalDataNode } from './external-data.js';
+import { createSocialSentimentAgentNode } from './sentiment-narrative.js';
+import { createAutonomousPollingAgentNode } from './autonomous-polling-agent.js';
+import { GraphState, type GraphStateType } from '../models/state.js';
+import { createWorkflow } from '../workflow.js';
+import { setLLMInstanceOverride, type LLMInstance } from '../utils/llm-factory.js';
+import type { EngineConfig } from '../config/index.js';
+import type { MarketBriefingDocument } from '../models/types.js';
+import {
+  createDataIntegrationLayer,
+  type DataIntegrationLayer,
+  type PollingData,
+  type SocialSentiment,
+} from '../utils/data-integration.js';
+import type { PollingSourceSpec } from '../utils/polling-providers.js';
+import type { PolymarketClient } from '../utils/polymarket-client.js';
+
+const reactAgent = vi.hoisted(() => ({ invoke: vi.fn() }));
+
+vi.mock('@langchain/langgraph/prebuilt', () => ({
+  createReactAgent: vi.fn(() => reactAgent),
+}));
+
+const mbd: MarketBriefingDocument = {
+  marketId: 'market-1',
+  conditionId: 'condition-1',
+  eventType: 'election',
+  question: 'Will candidate X win the election?',
+  resolutionCriteria: 'Resolves YES if candidate X is declared the winner',
+  expiryTimestamp: Date.now() + 30 * 86400000,
+  currentProbability: 0.55,
+  liquidityScore: 7.5,
+  bidAskSpread: 0.02,
+  volatilityRegime: 'medium',
+  volume24h: 50000,
+  metadata: { ambiguityFlags: [], keyCatalysts: [] },
+};
+
+const social: SocialSentiment = {
+  platforms: {
+    reddit: { volume: 420, sentiment: 0.35, viralScore: 0.6, topKeywords: ['candidate', 'debate'] },
+  },
+  overallSentiment: 0.35,
+  narrativeVelocity: 1.8,
+};
+
+const polling: PollingData = {
+  polls: [],
+  aggregatedProbability: 0.52,
+  momentum: 'stable',
+  biasAdjustment: 0,
+};
+
+const autonomousAgent = {
+  autonomous: true,
+  maxToolCalls: 5,
+  timeout: 45000,
+  cacheEnabled: true,
+  fallbackToBasic: true,
+};
+
+function createConfig(
+  socialProviders: Array<'twitter' | 'reddit' | 'jsonfeed'>,
+  pollingSources: PollingSourceSpec[] = []
+): EngineConfig {
+  return {
+    polymarket: {
+      gammaApiUrl: 'https://gamma-api.polymarket.com',
+      clobApiUrl: 'https://clob.polymarket.com',
+      rateLimitBuffer: 80,
+    },
+    langgraph: { checkpointer: 'memory', recursionLimit: 25, streamMode: 'values' },
+    opik: { projectName: 'test-project', tags: [], trackCosts: true },
+    llm: { singleProvider: 'openai', openai: { apiKey: 'test-key', defaultModel: 'gpt-4o-mini' } },
+    agents: { timeoutMs: 10000, minAgentsRequired: 2 },
+    consensus: { minEdgeThreshold: 0.05, highDisagreementThreshold: 0.15 },
+    logging: { level: 'info', auditTrailRetentionDays: 30 },
+    advancedAgents: {
+      eventIntelligence: { enabled: false, breakingNews: true, eventImpact: true },
+      pollingStatistical: { enabled: true, pollingIntelligence: true, historicalPattern: true },
+      sentimentNarrative: {
+        enabled: true,
+        mediaSentiment: true,
+        socialSentiment: true,
+        narrativeVelocity: true,
+      },
+      priceAction: {
+        enabled: false,
+        momentum: true,
+        meanReversion: true,
+        minVolumeThreshold: 1000,
+      },
+      eventScenario: { enabled: false, catalyst: true, tailRisk: true },
+      riskPhilosophy: { enabled: false, aggressive: true, conservative: true, neutral: true },
+    },
+    externalData: {
+      news: { provider: 'none', cacheTTL: 900, maxArticles: 20 },
+      polling: { cacheTTL: 3600, sources: pollingSources },
+      social: { providers: socialProviders, cacheTTL: 300, maxMentions: 100 },
+    },
+    signalFusion: {
+      baseWeights: {},
+      contextAdjustments: true,
+      conflictThreshold: 0.2,
+      alignmentBonus: 0.2,
+    },
+    costOptimization: {
+      maxCostPerAnalysis: 2.0,
+      skipLowImpactAgents: false,
+      batchLLMRequests: true,
+    },
+    performanceTracking: { enabled: false, evaluateOnResolution: true, minSampleSize: 10 },
+    pollingAgent: autonomousAgent,
+    newsAgents: {
+      breakingNewsAgent: autonomousAgent,
+      mediaSentimentAgent: autonomousAgent,
+      marketMicrostructureAgent: autonomousAgent,
+    },
+  } as unknown as EngineConfig;
+}
+
+function createDataLayer(result: SocialSentiment | null = social) {
+  return {
+    fetchPollingData: vi.fn(async (): Promise<PollingData | null> => polling),
+    fetchSocialSentiment: vi.fn(async () => result),
+    getDataFreshness: vi.fn(() => 1700000000000),
+  };
+}
+
+function asDataLayer(stub: ReturnType<typeof createDataLayer>): DataIntegrationLayer {
+  return stub as unknown as DataIntegrationLayer;
+}
+
+function createState(overrides: Partial<GraphStateType> = {}): GraphStateType {
+  return { mbd, externalData: null, auditLog: [], ...overrides } as unknown as GraphStateType;
+}
+
+afterEach(() => {
+  setLLMInstanceOverride(null);
+  vi.restoreAllMocks();
+});
+
+describe('External Data Node', () => {
+  it('should load social sentiment into externalData with its freshness', async () => {
+    const dataLayer = createDataLayer();
+    const node = createExternalDataNode(createConfig(['reddit']), asDataLayer(dataLayer));
+
+    const result = await node(
+      createState({ externalData: { news: [], dataFreshness: { news: 1 } } })
+    );
+
+    expect(dataLayer.fetchSocialSentiment).toHaveBeenCalledWith(mbd);
+    expect(result.externalData).toEqual({
+      news: [],
+      social,
+      dataFreshness: { news: 1, social: 1700000000000 },
+    });
+    expect(result.auditLog?.[0]).toMatchObject({
+      stage: 'external_data',
+      data: { success: true, loaded: ['social'], socialPlatforms: ['reddit'] },
+    });
+  });
+
+  it('should load polling data when poll feeds are configured', async () => {
+    const dataLayer = createDataLayer();
+    const node = createExternalDataNode(
+      createConfig([], [{ type: 'file', location: './polls/{conditionId}.csv' }]),
+      asDataLayer(dataLayer)
+    );
+
+    const result = await node(createState());
+
+    expect(dataLayer.fetchPollingData).toHaveBeenCalledWith(mbd);
+    expect(dataLayer.fetchSocialSentiment).not.toHaveBeenCalled();
+    expect(result.externalData).toEqual({
+      polling,
+      dataFreshness: { polling: 1700000000000 },
+    });
+    expect(result.auditLog?.[0].data).toMatchObject({ loaded: ['polling'], pollCount: 0 });
+  });
+
+  it('should not fetch sources that are unconfigured or already present', async () => {
+    const dataLayer = createDataLayer();
+
+    const unconfigured = await createExternalDataNode(
+      createConfig([]),
+      asDataLayer(dataLayer)
+    )(createState());
+    const present = await createExternalDataNode(
+      createConfig(['reddit']),
+      asDataLayer(dataLayer)
+    )(createState({ externalData: { social, dataFreshness: {} } }));
+
+    expect(dataLayer.fetchSocialSentiment).not.toHaveBeenCalled();
+    expect(dataLayer.fetchPollingData).not.toHaveBeenCalled();
+    expect(unconfigured.externalData).toBeUndefined();
+    expect(present.externalData).toBeUndefined();
+  });
+
+  it('should leave social data unset when the fetch fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const dataLayer = createDataLayer();
+    dataLayer.fetchSocialSentiment.mockRejectedValueOnce(new Error('circuit open'));
+    const node = createExternalDataNode(createConfig(['reddit']), asDataLayer(dataLayer));
+
+    const result = await node(createState());
+
+    expect(result.externalData).toBeUndefined();
+    expect(result.auditLog?.[0].data).toMatchObject({ success: true, loaded: [] });
+  });
+});
+
+describe('External Data in the workflow', () => {
+  it('should run between story clustering and agent selection', async () => {
+    const { app } = await createWorkflow(
+      createConfig(['reddit']),
+      {} as PolymarketClient,
+      undefined,
+      {}
+    );
+    const edges = (await app.getGraphAsync()).edges.map(
+      ({ source, target }) => `${source}->${target}`
+    );
+
+    expect(edges).toContain('story_clustering->external_data');
+    expect(edges).toContain('external_data->dynamic_agent_selection');
+    expect(edges).not.toContain('story_clustering->dynamic_agent_selection');
+  });
+
+  it('should feed fetched social data to the social sentiment agent', async () => {
+    const invoke = vi.fn(async () => ({
+      agentName: 'social_sentiment',
+      timestamp: Date.now(),
+      confidence: 0.6,
+      direction: 'YES' as const,
+      fairProbability: 0.6,
+      keyDrivers: ['Positive Reddit discussion'],
+      riskFactors: [],
+      metadata: {
+        platformSentiment: { twitter: 0, reddit: 0.35, overall: 0.35 },
+        viralNarratives: [],
+        crowdPsychology: 'greed' as const,
+        retailPositioning: 'bullish' as const,
+        mentionVelocity: 1.8,
+      },
+    }));
+    setLLMInstanceOverride(
+      () => ({ withStructuredOutput: () => ({ invoke }) }) as unknown as LLMInstance
+    );
+    const config = createConfig(['reddit']);
+
+    const graph = new StateGraph(GraphState)
+      .addNode('external_data', createExternalDataNode(config, asDataLayer(createDataLayer())))
+      .addNode('social_sentiment_agent', createSocialSentimentAgentNode(config))
+      .addEdge(START, 'external_data')
+      .addEdge('external_data', 'social_sentiment_agent')
+      .addEdge('social_sentiment_agent', END)
+      .compile();
+
+    const result = await graph.invoke({ mbd });
+
+    expect(invoke).toHaveBeenCalledTimes(1);
+    expect(JSON.stringify(invoke.mock.calls[0])).toContain('\\"volume\\": 420');
+    expect(result.agentSignals).toEqual([
+      expect.objectContaining({ agentName: 'social_sentiment', direction: 'YES' }),
+    ]);
+  });
+
+  it('should feed polls from a configured feed to the polling agent', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'external-data-'));
+    try {
+      const daysAgo = (days: number) =>
+        new Date(Date.now() - days * 86400000).toISOString().slice(0, 10);
+      await writeFile(
+        join(dir, 'condition-1.csv'),
+        [
+          'pollster,end_date,sample_size,yes,no',
+          `Acme Research,${daysAgo(2)},800,54,46`,
+          `Beta Polling,${daysAgo(4)},1000,51,49`,
+        ].join('\n')
+      );
+      reactAgent.invoke.mockResolvedValueOnce({
+        messages: [
+          {
+            content: JSON.stringify({
+              confidence: 0.7,
+              direction: 'YES',
+              fairProbability: 0.58,
+              keyDrivers: ['Candidate X leads recent polls'],
+              riskFactors: ['Small number of polls'],
+              metadata: {},
+            }),
+          },
+        ],
+      });
+      const config = createConfig([], [{ type: 'file', location: join(dir, '{conditionId}.csv') }]);
+      const dataLayer = createDataIntegrationLayer({
+        news: { provider: 'none', cacheTTL: 900, maxArticles: 20 },
+        polling: config.externalData.polling,
+        social: config.externalData.social,
+      });
+
+      const graph = new StateGraph(GraphState)
+        .addNode('external_data', createExternalDataNode(config, dataLayer))
+        .addNode('polling_intelligence_agent', createAutonomousPollingAgentNode(config))
+        .addEdge(START, 'external_data')
+        .addEdge('external_data', 'polling_intelligence_agent')
+        .addEdge('polling_intelligence_agent', END)
+        .compile();
+
+      const result = await graph.invoke({ mbd });
+
+      expect(result.externalData?.polling?.polls).toHaveLength(2);
+      const [input] = reactAgent.invoke.mock.calls[0];
+      expect(input.messages[0].content).toContain('POLLING DATA:');
+      expect(input.messages[0].content).toContain('"pollster": "Acme Research"');
+      expect(result.agentSignals).toEqual([
+        expect.objectContaining({ agentName: 'autonomous_polling', fairProbability: 0.58 }),
+      ]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
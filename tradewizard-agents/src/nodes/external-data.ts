@@ -0,0 +1,121 @@
+/**
+ * External Data Node
+ *
+ * This module loads polling data and social sentiment from the data layer
+ * before agents are selected, so the polling and sentiment & narrative agents
+ * read them from externalData instead of running without data. Sources already present in externalData
+ * are kept as-is; failed fetches are logged and leave the source unset.
+ */
+
+import type { GraphStateType } from '../models/state.js';
+import type { EngineConfig } from '../config/index.js';
+import type { DataIntegrationLayer } from '../utils/data-integration.js';
+
+/**
+ * Run one source fetch, logging failures instead of failing the node
+ */
+async function fetchSource<T>(
+  source: 'polling' | 'social',
+  marketId: string,
+  fetch: () => Promise<T | null>
+): Promise<T | null> {
+  try {
+    return await fetch();
+  } catch (error) {
+    console.warn(`[ExternalData] Failed to fetch ${source} data:`, {
+      marketId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Create external data node factory
+ *
+ * @param config - Engine configuration
+ * @param dataLayer - Data integration layer the sources are fetched from
+ * @returns External data node function
+ */
+export function createExternalDataNode(
+  config: EngineConfig,
+  dataLayer: DataIntegrationLayer
+): (state: GraphStateType) => Promise<Partial<GraphStateType>> {
+  // Polls feed the polling intelligence agent; social data feeds the social
+  // sentiment and narrative velocity agents
+  const pollingWanted =
+    config.advancedAgents.pollingStatistical.enabled &&
+    (config.externalData.polling.sources?.length ?? 0) > 0;
+  const socialWanted =
+    config.advancedAgents.sentimentNarrative.enabled &&
+    config.externalData.social.providers.length > 0;
+
+  return async (state: GraphStateType): Promise<Partial<GraphStateType>> => {
+    const startTime = Date.now();
+
+    if (!state.mbd) {
+      return {
+        auditLog: [
+          {
+            stage: 'external_data',
+            timestamp: Date.now(),
+            data: {
+              success: false,
+              skipped: true,
+              reason: 'No Market Briefing Document available',
+              duration: Date.now() - startTime,
+            },
+          },
+        ],
+      };
+    }
+
+    const externalData = state.externalData ?? { dataFreshness: {} };
+    const fetched: Partial<NonNullable<GraphStateType['externalData']>> = {};
+    const dataFreshness: Record<string, number> = {};
+
+    const mbd = state.mbd;
+    const [polling, social] = await Promise.all([
+      pollingWanted && !externalData.polling
+        ? fetchSource('polling', mbd.conditionId, () => dataLayer.fetchPollingData(mbd))
+        : null,
+      socialWanted && !externalData.social
+        ? fetchSource('social', mbd.conditionId, () => dataLayer.fetchSocialSentiment(mbd))
+        : null,
+    ]);
+
+    if (polling) {
+      fetched.polling = polling;
+      dataFreshness.polling = dataLayer.getDataFreshness('polling', mbd.marketId) ?? Date.now();
+    }
+    if (social) {
+      fetched.social = social;
+      dataFreshness.social = dataLayer.getDataFreshness('social', mbd.marketId) ?? Date.now();
+    }
+
+    const loaded = Object.keys(dataFreshness);
+
+    return {
+      ...(loaded.length > 0 && {
+        externalData: {
+          ...externalData,
+          ...fetched,
+          dataFreshness: { ...externalData.dataFreshness, ...dataFreshness },
+        },
+      }),
+      auditLog: [
+        {
+          stage: 'external_data',
+          timestamp: Date.now(),
+          data: {
+            success: true,
+            loaded,
+            pollCount: fetched.polling?.polls.length ?? 0,
+            socialPlatforms: fetched.social ? Object.keys(fetched.social.platforms) : [],
+            duration: Date.now() - startTime,
+          },
+        },
+      ],
+    };
+  };
+}
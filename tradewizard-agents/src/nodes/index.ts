@@ -30,6 +30,10 @@ export {
   createConsensusEngineNode,
   consensusEngineNode,
 } from './consensus-engine.js';
+export { createProbabilityCalibrationNode } from './probability-calibration.js';
+export { createResolutionRiskNode } from './resolution-risk.js';
+export { createStoryClusteringNode } from './story-clustering.js';
+export { createExternalDataNode } from './external-data.js';
 export {
   createRecommendationGenerationNode,
   recommendationGenerationNode,
@@ -44,7 +48,21 @@ export {
   PRICE_ACTION_AGENTS,
   EVENT_SCENARIO_AGENTS,
   RISK_PHILOSOPHY_AGENTS,
+  selectPluginAgents,
 } from './dynamic-agent-selection.js';
+export {
+  createAgentPluginNode,
+  createAgentPluginNodes,
+  createContextualAgentNode,
+  getAgentPluginNodeName,
+} from './agent-plugins.js';
+export {
+  BUILT_IN_AGENT_PLUGINS,
+  registerBuiltInAgentPlugins,
+  sportsAgentPlugin,
+  cryptoAgentPlugin,
+  macroAgentPlugin,
+} from './plugins/index.js';
 export {
   createEventImpactAgentNode,
   EventImpactSignalSchema,
@@ -86,6 +104,13 @@ export {
   ConservativeSignalSchema,
   NeutralSignalSchema,
 } from './risk-philosophy.js';
+export {
+  createEventDistributionAgent,
+  createEventDistributionAgents,
+  generateEventRecommendations,
+  runEventAnalysis,
+} from './event-analysis.js';
+export type { EventDistributionAgent } from './event-analysis.js';
 export { createAutonomousPollingAgentNode } from './autonomous-polling-agent.js';
 export {
   createAutonomousNewsAgent,
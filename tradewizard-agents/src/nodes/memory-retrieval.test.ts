@@ -38,6 +38,7 @@ describe('Memory Retrieval Node', () => {
     mockMemoryService = {
       getAgentMemory: vi.fn(),
       getAllAgentMemories: vi.fn(),
+      getComparableMarketMemories: vi.fn(),
     } as unknown as MemoryRetrievalService;
   });
 
@@ -539,4 +540,96 @@ describe('Memory Retrieval Node', () => {
       expect(result.auditLog?.[0].data.duration).toBeLessThan(100);
     });
   });
+
+  describe('Comparable markets', () => {
+    it('should attach comparable markets when enabled', async () => {
+      const conditionId = 'test-market-123';
+      const config = {
+        memorySystem: {
+          ...mockConfig.memorySystem,
+          comparableMarketsEnabled: true,
+          maxComparableMarkets: 2,
+          minComparableSimilarity: 0.3,
+        },
+      } as any;
+
+      vi.mocked(mockMemoryService.getAllAgentMemories).mockResolvedValue(new Map());
+      vi.mocked(mockMemoryService.getComparableMarketMemories).mockResolvedValue(
+        new Map([
+          [
+            'Polling Intelligence Agent',
+            [
+              {
+                marketId: 'past-market',
+                question: 'Will the incumbent win the 2022 governor race?',
+                eventType: 'election',
+                sameEvent: false,
+                similarity: 0.55,
+                resolvedOutcome: 'YES',
+                signal: {
+                  agentName: 'Polling Intelligence Agent',
+                  marketId: 'past-market',
+                  timestamp: new Date('2022-10-01T10:00:00Z'),
+                  direction: 'YES',
+                  fairProbability: 0.7,
+                  confidence: 0.8,
+                  keyDrivers: ['Incumbent led every poll'],
+                  metadata: {},
+                },
+              },
+            ],
+          ],
+          ['Risk Assessment Agent', []],
+        ])
+      );
+
+      const state = {
+        conditionId,
+        mbd: {
+          question: 'Will the incumbent win the 2026 governor race?',
+          eventType: 'election',
+          eventContext: { eventId: 'governor-2026' },
+          keywords: ['governor', 'incumbent'],
+        },
+        marketKeywords: null,
+        memoryContext: new Map(),
+        auditLog: [],
+      } as unknown as GraphStateType;
+
+      const result = await memoryRetrievalNode(state, mockMemoryService, agentNames, config);
+
+      expect(mockMemoryService.getComparableMarketMemories).toHaveBeenCalledWith(
+        {
+          marketId: conditionId,
+          question: 'Will the incumbent win the 2026 governor race?',
+          eventType: 'election',
+          eventId: 'governor-2026',
+          keywords: ['governor', 'incumbent'],
+        },
+        agentNames,
+        2,
+        0.3
+      );
+      const pollingMemory = result.memoryContext?.get('Polling Intelligence Agent');
+      expect(pollingMemory?.hasHistory).toBe(false);
+      expect(pollingMemory?.comparableMarkets).toHaveLength(1);
+      expect(result.memoryContext?.has('Risk Assessment Agent')).toBe(false);
+      expect(result.auditLog?.[0].data).toMatchObject({ success: true, comparableMarketCount: 1 });
+    });
+
+    it('should not query comparable markets when disabled', async () => {
+      vi.mocked(mockMemoryService.getAllAgentMemories).mockResolvedValue(new Map());
+
+      const state = {
+        conditionId: 'test-market-123',
+        mbd: { question: 'Q', eventType: 'election' },
+        memoryContext: new Map(),
+        auditLog: [],
+      } as unknown as GraphStateType;
+
+      await memoryRetrievalNode(state, mockMemoryService, agentNames, mockConfig);
+
+      expect(mockMemoryService.getComparableMarketMemories).not.toHaveBeenCalled();
+    });
+  });
 });
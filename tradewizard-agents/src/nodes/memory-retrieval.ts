@@ -9,10 +9,18 @@
  * - 5.4: Preserve memoryContext in audit log for debugging
  * - 9.1: Handle database errors gracefully
  * - 9.3: Implement timeout logic (5 seconds)
+ *
+ * When comparable markets are enabled, each agent's context also carries its
+ * signals on similar markets so the formatter can add lessons from how those
+ * resolved.
  */
 
 import type { GraphStateType } from '../models/state.js';
-import type { MemoryRetrievalService } from '../database/memory-retrieval.js';
+import type {
+  AgentMemoryContext,
+  ComparableMarketQuery,
+  MemoryRetrievalService,
+} from '../database/memory-retrieval.js';
 import type { EngineConfig } from '../config/index.js';
 import { getMemoryMetricsCollector } from '../utils/memory-metrics.js';
 
@@ -83,14 +91,42 @@ export async function memoryRetrievalNode(
       agentNames,
       config.memorySystem.maxSignalsPerAgent
     );
-    const timeoutPromise = new Promise<Map<string, any>>((_, reject) =>
+    const comparablePromise =
+      config.memorySystem.comparableMarketsEnabled && state.mbd
+        ? memoryService.getComparableMarketMemories(
+            buildComparableMarketQuery(state, marketId),
+            agentNames,
+            config.memorySystem.maxComparableMarkets,
+            config.memorySystem.minComparableSimilarity
+          )
+        : Promise.resolve(undefined);
+    const timeoutPromise = new Promise<never>((_, reject) =>
       setTimeout(
         () => reject(new Error('Memory retrieval timeout')),
         config.memorySystem.queryTimeoutMs
       )
     );
 
-    const memoryContext = await Promise.race([memoryPromise, timeoutPromise]);
+    const [sameMarketContext, comparableMarkets] = await Promise.race([
+      Promise.all([memoryPromise, comparablePromise]),
+      timeoutPromise,
+    ]);
+
+    const memoryContext = new Map<string, AgentMemoryContext>(sameMarketContext);
+    let comparableMarketCount = 0;
+    for (const [agentName, markets] of comparableMarkets ?? []) {
+      if (markets.length === 0) {
+        continue;
+      }
+      const agentMemory = memoryContext.get(agentName) ?? {
+        agentName,
+        marketId,
+        historicalSignals: [],
+        hasHistory: false,
+      };
+      memoryContext.set(agentName, { ...agentMemory, comparableMarkets: markets });
+      comparableMarketCount += markets.length;
+    }
 
     // Count agents with historical signals
     const agentsWithHistory = Array.from(memoryContext.values()).filter(
@@ -119,6 +155,7 @@ export async function memoryRetrievalNode(
             totalAgents: agentNames.length,
             agentsWithHistory,
             totalSignals,
+            ...(comparableMarkets && { comparableMarketCount }),
             maxSignalsPerAgent: config.memorySystem.maxSignalsPerAgent,
             queryTimeoutMs: config.memorySystem.queryTimeoutMs,
             duration: Date.now() - startTime,
@@ -148,6 +185,25 @@ export async function memoryRetrievalNode(
   }
 }
 
+/**
+ * Build the comparable-market query for the market being analyzed
+ *
+ * Memory retrieval runs before keyword extraction, so the ingestion keywords
+ * on the MBD are used unless event keywords are already in state.
+ */
+function buildComparableMarketQuery(
+  state: GraphStateType,
+  marketId: string
+): ComparableMarketQuery {
+  return {
+    marketId,
+    question: state.mbd!.question,
+    eventType: state.mbd!.eventType,
+    eventId: state.mbd!.eventContext?.eventId,
+    keywords: state.marketKeywords?.combined ?? state.mbd!.keywords ?? [],
+  };
+}
+
 /**
  * Create a memory retrieval node with bound dependencies
  *
@@ -0,0 +1,78 @@
+/**
+ * Crypto Agent Plugin
+ *
+ * Analyzes crypto markets (price thresholds, ETF approvals, protocol events)
+ * from price structure, volatility and on-chain context. Prices and on-chain
+ * metrics from the configured crypto feeds are added to the prompt.
+ */
+
+import { z } from 'zod';
+import { AgentSignalLLMOutputSchema } from '../../models/schemas.js';
+import type { AgentPlugin } from '../../utils/agent-registry.js';
+import { CRYPTO_MARKET_TERMS } from '../../utils/market-category.js';
+import { getCryptoPriceSources, loadCryptoContext } from '../../utils/domain-data-sources.js';
+import { createContextualAgentNode } from '../agent-plugins.js';
+import { marketMentions } from './market-terms.js';
+
+export { CRYPTO_MARKET_TERMS };
+
+/**
+ * Zod schema for Crypto Agent signal metadata
+ */
+export const CryptoSignalMetadataSchema = z.object({
+  asset: z.string(),
+  referencePrice: z.number().optional(),
+  targetPrice: z.number().optional(),
+  requiredMove: z.number().optional(), // Fractional move needed to resolve YES
+  impliedVolatility: z.number().min(0).optional(), // Annualized
+  onChainSignals: z.array(z.string()),
+});
+
+export const CryptoSignalLLMOutputSchema = AgentSignalLLMOutputSchema.extend({
+  metadata: CryptoSignalMetadataSchema,
+});
+
+const CRYPTO_PROMPT = `You are a crypto markets analyst specializing in prediction markets on digital assets.
+
+Your role is to estimate the outcome probability from market structure and volatility.
+
+Given a crypto market, analyze:
+1. The asset, the reference price and the move required to resolve YES before expiry
+2. The probability of that move given realized and implied volatility (treat price as roughly lognormal)
+3. Scheduled catalysts (ETF decisions, upgrades, token unlocks, macro releases)
+4. On-chain and flow signals (exchange flows, funding rates, stablecoin supply)
+5. Regulatory and exchange-specific risks
+
+Provide your analysis as a structured signal with:
+- confidence: Your confidence in this assessment (0-1)
+- direction: Your view on the outcome (YES/NO/NEUTRAL)
+- fairProbability: Your estimated probability of YES (0-1)
+- keyDrivers: Top 3-5 factors behind your view
+- riskFactors: Volatility regime shifts, regulatory and liquidity risks
+- metadata:
+  - asset: Asset symbol
+  - referencePrice, targetPrice, requiredMove: Price levels when the market has a threshold
+  - impliedVolatility: Annualized volatility you assumed
+  - onChainSignals: Notable on-chain or flow observations
+
+When CRYPTO MARKET DATA is provided below, take the reference price and volatility from it rather than from memory.
+
+Price-threshold markets are mostly a volatility question. Anchor on the required move before adjusting for narrative.`;
+
+export const cryptoAgentPlugin: AgentPlugin = {
+  name: 'crypto',
+  description: 'Price structure, volatility and on-chain analysis for crypto markets',
+  group: 'domain',
+  eventTypes: ['crypto', 'economic', 'policy', 'other'],
+  dataRequirements: [],
+  costTier: 'medium',
+  priority: 'high',
+  systemPrompt: CRYPTO_PROMPT,
+  outputSchema: CryptoSignalLLMOutputSchema,
+  llm: { preferredProvider: 'openai', fallbackProviders: ['anthropic', 'google', 'nova'] },
+  appliesTo: (mbd) => mbd.eventType === 'crypto' || marketMentions(mbd, CRYPTO_MARKET_TERMS),
+  createNode: (config) =>
+    createContextualAgentNode(cryptoAgentPlugin, config, (mbd) =>
+      loadCryptoContext(mbd, getCryptoPriceSources(config))
+    ),
+};
@@ -0,0 +1,40 @@
+/**
+ * Built-in Domain Agent Plugins
+ *
+ * Sports, crypto and macro agents shipped as agent plugins. Each module can
+ * also be registered on its own.
+ */
+
+import {
+  defaultAgentRegistry,
+  type AgentPlugin,
+  type AgentRegistry,
+} from '../../utils/agent-registry.js';
+import { sportsAgentPlugin } from './sports.js';
+import { cryptoAgentPlugin } from './crypto.js';
+import { macroAgentPlugin } from './macro.js';
+
+export { sportsAgentPlugin, SportsSignalLLMOutputSchema, SPORTS_MARKET_TERMS } from './sports.js';
+export { cryptoAgentPlugin, CryptoSignalLLMOutputSchema, CRYPTO_MARKET_TERMS } from './crypto.js';
+export { macroAgentPlugin, MacroSignalLLMOutputSchema, MACRO_MARKET_TERMS } from './macro.js';
+export { marketMentions } from './market-terms.js';
+
+export const BUILT_IN_AGENT_PLUGINS: AgentPlugin[] = [
+  sportsAgentPlugin,
+  cryptoAgentPlugin,
+  macroAgentPlugin,
+];
+
+/**
+ * Register the built-in plugins that are not registered yet
+ *
+ * Safe to call more than once; a plugin registered under the same name
+ * beforehand (for example a customized version) is left in place.
+ */
+export function registerBuiltInAgentPlugins(registry: AgentRegistry = defaultAgentRegistry): void {
+  for (const plugin of BUILT_IN_AGENT_PLUGINS) {
+    if (!registry.has(plugin.name)) {
+      registry.register(plugin);
+    }
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Macro Agent Plugin
+ *
+ * Analyzes macroeconomic markets (central bank decisions, inflation, jobs,
+ * GDP, recessions) from data releases, forward guidance and market pricing.
+ */
+
+import { z } from 'zod';
+import { AgentSignalLLMOutputSchema } from '../../models/schemas.js';
+import type { AgentPlugin } from '../../utils/agent-registry.js';
+import { marketMentions } from './market-terms.js';
+
+export const MACRO_MARKET_TERMS = [
+  'fed',
+  'federal reserve',
+  'fomc',
+  'ecb',
+  'interest rate',
+  'rate cut',
+  'rate hike',
+  'inflation',
+  'cpi',
+  'pce',
+  'gdp',
+  'recession',
+  'unemployment',
+  'jobs report',
+  'payrolls',
+  'treasury',
+  'tariff',
+] as const;
+
+/**
+ * Zod schema for Macro Agent signal metadata
+ */
+export const MacroSignalMetadataSchema = z.object({
+  indicators: z.array(
+    z.object({
+      name: z.string(),
+      latest: z.string(),
+      trend: z.enum(['rising', 'stable', 'falling']),
+    })
+  ),
+  nextRelease: z.string().optional(), // Next data release or meeting that moves the market
+  marketPricedProbability: z.number().min(0).max(1).optional(), // e.g. fed funds futures
+});
+
+export const MacroSignalLLMOutputSchema = AgentSignalLLMOutputSchema.extend({
+  metadata: MacroSignalMetadataSchema,
+});
+
+const MACRO_PROMPT = `You are a macroeconomist specializing in prediction markets on economic data and central bank decisions.
+
+Your role is to estimate the outcome probability from the data path and policy reaction functions.
+
+Given a macro market, analyze:
+1. The latest readings and trend of the indicators the market resolves on
+2. Central bank forward guidance and reaction function
+3. What rates, futures and inflation markets already price for the same outcome
+4. Data releases and meetings scheduled before expiry
+5. Revision risk and how the resolution source defines the figure
+
+Provide your analysis as a structured signal with:
+- confidence: Your confidence in this assessment (0-1)
+- direction: Your view on the outcome (YES/NO/NEUTRAL)
+- fairProbability: Your estimated probability of YES (0-1)
+- keyDrivers: Top 3-5 data or policy factors behind your view
+- riskFactors: Data surprises, revisions and policy shocks
+- metadata:
+  - indicators: Relevant indicators with latest value and trend
+  - nextRelease: The next release or meeting that will move this market
+  - marketPricedProbability: Probability implied by futures or rates markets if known
+
+Futures markets are usually well calibrated on central bank decisions. Explain any deviation from them.`;
+
+export const macroAgentPlugin: AgentPlugin = {
+  name: 'macro',
+  description: 'Data-release and central bank analysis for macroeconomic markets',
+  group: 'domain',
+  eventTypes: ['economic', 'policy', 'geopolitical'],
+  dataRequirements: [],
+  costTier: 'medium',
+  priority: 'medium',
+  systemPrompt: MACRO_PROMPT,
+  outputSchema: MacroSignalLLMOutputSchema,
+  llm: { preferredProvider: 'anthropic', fallbackProviders: ['openai', 'google', 'nova'] },
+  appliesTo: (mbd) => mbd.eventType === 'economic' || marketMentions(mbd, MACRO_MARKET_TERMS),
+};
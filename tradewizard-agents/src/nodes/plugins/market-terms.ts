@@ -0,0 +1,16 @@
+/**
+ * Market term matching shared by the domain agent plugins
+ */
+
+import type { MarketBriefingDocument } from '../../models/types.js';
+import { mentionsAny } from '../../utils/market-category.js';
+
+/**
+ * Whether the market question, event title or keywords mention any term
+ */
+export function marketMentions(mbd: MarketBriefingDocument, terms: readonly string[]): boolean {
+  return mentionsAny(
+    [mbd.question, mbd.eventContext?.eventTitle ?? '', ...(mbd.keywords ?? [])].join(' '),
+    terms
+  );
+}
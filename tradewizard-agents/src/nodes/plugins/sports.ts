@@ -0,0 +1,80 @@
+/**
+ * Sports Agent Plugin
+ *
+ * Analyzes sports markets (game outcomes, championships, player awards) from
+ * team form, injuries, schedule and betting-market context. Stats for the
+ * teams in the market are added to the prompt from the configured sports feeds.
+ */
+
+import { z } from 'zod';
+import { AgentSignalLLMOutputSchema } from '../../models/schemas.js';
+import type { AgentPlugin } from '../../utils/agent-registry.js';
+import { SPORTS_MARKET_TERMS } from '../../utils/market-category.js';
+import { getSportsStatsSources, loadSportsContext } from '../../utils/domain-data-sources.js';
+import { createContextualAgentNode } from '../agent-plugins.js';
+import { marketMentions } from './market-terms.js';
+
+export { SPORTS_MARKET_TERMS };
+
+/**
+ * Zod schema for Sports Agent signal metadata
+ */
+export const SportsSignalMetadataSchema = z.object({
+  teamForm: z.array(
+    z.object({
+      team: z.string(),
+      recentRecord: z.string(),
+      trend: z.enum(['improving', 'stable', 'declining']),
+    })
+  ),
+  keyAbsences: z.array(z.string()),
+  bookmakerImpliedProbability: z.number().min(0).max(1).optional(),
+});
+
+export const SportsSignalLLMOutputSchema = AgentSignalLLMOutputSchema.extend({
+  metadata: SportsSignalMetadataSchema,
+});
+
+const SPORTS_PROMPT = `You are a sports analyst specializing in prediction markets on games, tournaments and awards.
+
+Your role is to estimate the outcome probability from the competitive picture, not from headlines.
+
+Given a sports market, analyze:
+1. Recent form and head-to-head record of the teams or athletes involved
+2. Injuries, suspensions and rotation risk for key players
+3. Schedule effects (rest days, travel, home advantage)
+4. How sportsbooks price the same outcome, and why the prediction market may differ
+5. Format effects (series length, tiebreakers, award voting criteria)
+
+Provide your analysis as a structured signal with:
+- confidence: Your confidence in this assessment (0-1)
+- direction: Your view on the outcome (YES/NO/NEUTRAL)
+- fairProbability: Your estimated probability of YES (0-1)
+- keyDrivers: Top 3-5 competitive factors behind your view
+- riskFactors: Late-breaking team news, variance and officiating risks
+- metadata:
+  - teamForm: Array of teams/athletes with recent record and trend
+  - keyAbsences: Players missing or doubtful
+  - bookmakerImpliedProbability: Sportsbook-implied probability if you can infer it
+
+When TEAM STATS are provided below, ground form and injury assessments in them.
+
+Single games are high-variance. Do not exceed 0.85 confidence on a single game.`;
+
+export const sportsAgentPlugin: AgentPlugin = {
+  name: 'sports',
+  description: 'Team form, injuries and schedule analysis for sports markets',
+  group: 'domain',
+  eventTypes: ['sports', 'other'],
+  dataRequirements: [],
+  costTier: 'medium',
+  priority: 'high',
+  systemPrompt: SPORTS_PROMPT,
+  outputSchema: SportsSignalLLMOutputSchema,
+  llm: { preferredProvider: 'openai', fallbackProviders: ['anthropic', 'google', 'nova'] },
+  appliesTo: (mbd) => mbd.eventType === 'sports' || marketMentions(mbd, SPORTS_MARKET_TERMS),
+  createNode: (config) =>
+    createContextualAgentNode(sportsAgentPlugin, config, (mbd) =>
+      loadSportsContext(mbd, getSportsStatsSources(config))
+    ),
+};
@@ -10,6 +10,7 @@ import type { GraphStateType } from '../models/state.js';
 import type { AgentSignal } from '../models/types.js';
 import type { EngineConfig } from '../config/index.js';
 import { createLLMInstance } from '../utils/llm-factory.js';
+import { resolvePrompt } from '../utils/prompt-registry.js';
 
 // ============================================================================
 // Polling Intelligence Agent Signal Schema
@@ -245,9 +246,15 @@ export function createPollingIntelligenceAgentNode(
         `\n\nEvent-Based Keywords for Polling Analysis:\n${JSON.stringify(keywordContext, null, 2)}` : 
         '';
 
+      const { prompt, version: promptVersion } = resolvePrompt(
+        'polling_intelligence',
+        POLLING_INTELLIGENCE_PROMPT,
+        state.mbd.conditionId
+      );
+
       // Invoke the LLM with enhanced context
       const response = await structuredLLM.invoke([
-        { role: 'system', content: POLLING_INTELLIGENCE_PROMPT },
+        { role: 'system', content: prompt },
         {
           role: 'user',
           content: `Analyze the following prediction market with polling data:\n\nMarket:\n${marketContext}\n\nPolling Data:\n${pollingContext}${keywordContextStr}`,
@@ -263,7 +270,7 @@ export function createPollingIntelligenceAgentNode(
         fairProbability: response.fairProbability,
         keyDrivers: response.keyDrivers,
         riskFactors: response.riskFactors,
-        metadata: response.metadata,
+        metadata: { ...response.metadata, promptVersion },
       };
 
       return {
@@ -278,6 +285,7 @@ export function createPollingIntelligenceAgentNode(
               direction: signal.direction,
               confidence: signal.confidence,
               fairProbability: signal.fairProbability,
+              promptVersion,
               pollCount: response.metadata.pollCount,
               momentum: response.metadata.momentum,
               duration: Date.now() - startTime,
@@ -359,9 +367,15 @@ export function createHistoricalPatternAgentNode(
       // Prepare market context
       const marketContext = JSON.stringify(state.mbd, null, 2);
 
+      const { prompt, version: promptVersion } = resolvePrompt(
+        'historical_pattern',
+        HISTORICAL_PATTERN_PROMPT,
+        state.mbd.conditionId
+      );
+
       // Invoke the LLM
       const response = await structuredLLM.invoke([
-        { role: 'system', content: HISTORICAL_PATTERN_PROMPT },
+        { role: 'system', content: prompt },
         {
           role: 'user',
           content: `Analyze the following prediction market and identify historical patterns:\n\nMarket:\n${marketContext}`,
@@ -377,7 +391,7 @@ export function createHistoricalPatternAgentNode(
         fairProbability: response.fairProbability,
         keyDrivers: response.keyDrivers,
         riskFactors: response.riskFactors,
-        metadata: response.metadata,
+        metadata: { ...response.metadata, promptVersion },
       };
 
       return {
@@ -392,6 +406,7 @@ export function createHistoricalPatternAgentNode(
               direction: signal.direction,
               confidence: signal.confidence,
               fairProbability: signal.fairProbability,
+              promptVersion,
               analogCount: response.metadata.analogs.length,
               patternSuccessRate: response.metadata.patternSuccessRate,
               duration: Date.now() - startTime,
@@ -11,6 +11,7 @@ import type { GraphStateType } from '../models/state.js';
 import type { AgentSignal } from '../models/types.js';
 import { AgentSignalSchema } from '../models/schemas.js';
 import type { EngineConfig } from '../config/index.js';
+import { resolvePrompt } from '../utils/prompt-registry.js';
 
 // ============================================================================
 // Momentum Signal Schema
@@ -261,9 +262,15 @@ export function createMomentumAgentNode(
         momentumIndicators: indicators,
       }, null, 2);
 
+      const { prompt, version: promptVersion } = resolvePrompt(
+        agentName,
+        MOMENTUM_AGENT_PROMPT,
+        state.mbd.conditionId
+      );
+
       // Invoke the LLM with system prompt and market data
       const response = await structuredLLM.invoke([
-        { role: 'system', content: MOMENTUM_AGENT_PROMPT },
+        { role: 'system', content: prompt },
         {
           role: 'user',
           content: `Analyze the following prediction market for momentum signals:\n\n${marketContext}`,
@@ -275,6 +282,7 @@ export function createMomentumAgentNode(
         ...response,
         agentName,
         timestamp: Date.now(),
+        metadata: { ...response.metadata, promptVersion },
       };
 
       // Return successful signal
@@ -290,6 +298,7 @@ export function createMomentumAgentNode(
               direction: signal.direction,
               confidence: signal.confidence,
               fairProbability: signal.fairProbability,
+              promptVersion,
               momentumScore: (signal.metadata as any).momentumScore,
               duration: Date.now() - startTime,
             },
@@ -404,9 +413,15 @@ export function createMeanReversionAgentNode(
         reversionIndicators: indicators,
       }, null, 2);
 
+      const { prompt, version: promptVersion } = resolvePrompt(
+        agentName,
+        MEAN_REVERSION_AGENT_PROMPT,
+        state.mbd.conditionId
+      );
+
       // Invoke the LLM with system prompt and market data
       const response = await structuredLLM.invoke([
-        { role: 'system', content: MEAN_REVERSION_AGENT_PROMPT },
+        { role: 'system', content: prompt },
         {
           role: 'user',
           content: `Analyze the following prediction market for mean reversion opportunities:\n\n${marketContext}`,
@@ -418,6 +433,7 @@ export function createMeanReversionAgentNode(
         ...response,
         agentName,
         timestamp: Date.now(),
+        metadata: { ...response.metadata, promptVersion },
       };
 
       // Return successful signal
@@ -433,6 +449,7 @@ export function createMeanReversionAgentNode(
               direction: signal.direction,
               confidence: signal.confidence,
               fairProbability: signal.fairProbability,
+              promptVersion,
               overextensionScore: (signal.metadata as any).overextensionScore,
               duration: Date.now() - startTime,
             },
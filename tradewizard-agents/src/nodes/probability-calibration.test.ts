@@ -0,0 +1,96 @@
+/**
+ * Unit tests for the probability calibration node
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createProbabilityCalibrationNode } from './probability-calibration.js';
+import type { GraphStateType } from '../models/state.js';
+import type { EngineConfig } from '../config/index.js';
+import type { ConsensusProbability } from '../models/types.js';
+import type { CalibrationModelSet } from '../utils/probability-calibration.js';
+
+const consensus: ConsensusProbability = {
+  consensusProbability: 0.9,
+  confidenceBand: [0.85, 0.95],
+  disagreementIndex: 0.05,
+  regime: 'high-confidence',
+  contributingSignals: ['market_microstructure', 'probability_baseline'],
+};
+
+const modelSet: CalibrationModelSet = {
+  version: 'cal-test',
+  method: 'platt',
+  createdAt: 0,
+  trainingExamples: 200,
+  global: { method: 'platt', a: 0.5, b: 0, examples: 200 },
+  byRegime: {},
+};
+
+const createState = (value: ConsensusProbability | null): GraphStateType =>
+  ({ consensus: value, auditLog: [] }) as unknown as GraphStateType;
+
+describe('Probability Calibration Node', () => {
+  const config = { calibration: { enabled: true } } as EngineConfig;
+
+  it('should replace the consensus with calibrated values and keep the raw ones', async () => {
+    const node = createProbabilityCalibrationNode(config, vi.fn().mockResolvedValue(modelSet));
+
+    const result = await node(createState(consensus));
+
+    expect(result.consensus!.consensusProbability).toBeCloseTo(0.75);
+    expect(result.consensus!.confidenceBand[1]).toBeLessThan(0.95);
+    expect(result.consensus!.calibration).toMatchObject({
+      applied: true,
+      rawProbability: 0.9,
+      rawConfidenceBand: [0.85, 0.95],
+      method: 'platt',
+      modelVersion: 'cal-test',
+      model: 'global',
+    });
+    expect(result.auditLog![0]).toMatchObject({
+      stage: 'probability_calibration',
+      data: { applied: true, rawProbability: 0.9, modelVersion: 'cal-test' },
+    });
+    expect(result.auditLog![0].data.calibratedProbability).toBeCloseTo(0.75);
+  });
+
+  it('should pass the consensus through without a model', async () => {
+    const node = createProbabilityCalibrationNode(config, vi.fn().mockResolvedValue(null));
+
+    const result = await node(createState(consensus));
+
+    expect(result.consensus!.consensusProbability).toBe(0.9);
+    expect(result.consensus!.calibration).toEqual({
+      applied: false,
+      rawProbability: 0.9,
+      rawConfidenceBand: [0.85, 0.95],
+    });
+    expect(result.auditLog![0].data).toMatchObject({
+      applied: false,
+      rawProbability: 0.9,
+      calibratedProbability: 0.9,
+    });
+  });
+
+  it('should not load models when calibration is disabled', async () => {
+    const loader = vi.fn();
+    const node = createProbabilityCalibrationNode(
+      { calibration: { enabled: false } } as EngineConfig,
+      loader
+    );
+
+    const result = await node(createState(consensus));
+
+    expect(loader).not.toHaveBeenCalled();
+    expect(result.auditLog![0].data.reason).toBe('Calibration disabled');
+  });
+
+  it('should leave state alone without a consensus', async () => {
+    const node = createProbabilityCalibrationNode(config);
+
+    const result = await node(createState(null));
+
+    expect(result.consensus).toBeUndefined();
+    expect(result.auditLog![0].data.success).toBe(false);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Probability Calibration Node
+ *
+ * This module applies a calibration model to the consensus probability between
+ * the consensus engine and recommendation generation. The consensus engine's
+ * raw probability tends to be overconfident at the extremes; the calibrated
+ * probability and confidence band replace the raw values in state.consensus,
+ * so edge and expected value are computed from the calibrated number.
+ *
+ * Raw and calibrated values are both recorded in the audit log and in
+ * consensus.calibration. Without a calibration model the consensus passes
+ * through unchanged.
+ */
+
+import type { GraphStateType } from '../models/state.js';
+import type { EngineConfig } from '../config/index.js';
+import {
+  calibrateConsensus,
+  type CalibrationModelLoader,
+} from '../utils/probability-calibration.js';
+
+/**
+ * Create probability calibration node factory
+ *
+ * @param config - Engine configuration
+ * @param loadCalibrationModels - Optional loader for stored calibration models
+ * @returns Probability calibration node function
+ */
+export function createProbabilityCalibrationNode(
+  config: EngineConfig,
+  loadCalibrationModels?: CalibrationModelLoader
+): (state: GraphStateType) => Promise<Partial<GraphStateType>> {
+  return async (state: GraphStateType): Promise<Partial<GraphStateType>> => {
+    const startTime = Date.now();
+    const { consensus } = state;
+
+    if (!consensus) {
+      return {
+        auditLog: [
+          {
+            stage: 'probability_calibration',
+            timestamp: Date.now(),
+            data: {
+              success: false,
+              reason: 'No consensus probability to calibrate',
+              duration: Date.now() - startTime,
+            },
+          },
+        ],
+      };
+    }
+
+    const rawProbability = consensus.consensusProbability;
+    const rawConfidenceBand = consensus.confidenceBand;
+
+    const enabled = config.calibration?.enabled !== false;
+    const modelSet = enabled && loadCalibrationModels ? await loadCalibrationModels() : null;
+
+    if (!modelSet) {
+      return {
+        consensus: {
+          ...consensus,
+          calibration: { applied: false, rawProbability, rawConfidenceBand },
+        },
+        auditLog: [
+          {
+            stage: 'probability_calibration',
+            timestamp: Date.now(),
+            data: {
+              success: true,
+              applied: false,
+              reason: enabled ? 'No calibration model available' : 'Calibration disabled',
+              rawProbability,
+              calibratedProbability: rawProbability,
+              rawConfidenceBand,
+              calibratedConfidenceBand: rawConfidenceBand,
+              regime: consensus.regime,
+              duration: Date.now() - startTime,
+            },
+          },
+        ],
+      };
+    }
+
+    const calibrated = calibrateConsensus(
+      modelSet,
+      rawProbability,
+      rawConfidenceBand,
+      consensus.regime
+    );
+
+    console.log(
+      `[ProbabilityCalibration] ${(rawProbability * 100).toFixed(1)}% -> ` +
+        `${(calibrated.probability * 100).toFixed(1)}% (${modelSet.method} ${modelSet.version}, ${calibrated.model} model)`
+    );
+
+    return {
+      consensus: {
+        ...consensus,
+        consensusProbability: calibrated.probability,
+        confidenceBand: calibrated.confidenceBand,
+        calibration: {
+          applied: true,
+          rawProbability,
+          rawConfidenceBand,
+          method: modelSet.method,
+          modelVersion: modelSet.version,
+          model: calibrated.model,
+        },
+      },
+      auditLog: [
+        {
+          stage: 'probability_calibration',
+          timestamp: Date.now(),
+          data: {
+            success: true,
+            applied: true,
+            method: modelSet.method,
+            modelVersion: modelSet.version,
+            model: calibrated.model,
+            rawProbability,
+            calibratedProbability: calibrated.probability,
+            rawConfidenceBand,
+            calibratedConfidenceBand: calibrated.confidenceBand,
+            regime: consensus.regime,
+            duration: Date.now() - startTime,
+          },
+        },
+      ],
+    };
+  };
+}
@@ -9,7 +9,13 @@
  */
 
 import { describe, test, expect } from 'vitest';
+import { fileURLToPath } from 'url';
 import { createRecommendationGenerationNode } from './recommendation-generation.js';
+import {
+  analyzeOrderBookDepth,
+  loadOrderBookFixture,
+  parseOrderBook,
+} from '../utils/order-book.js';
 import type { GraphStateType } from '../models/state.js';
 import type { EngineConfig } from '../config/index.js';
 import type {
@@ -360,6 +366,93 @@ describe('Recommendation Generation Unit Tests', () => {
     }
   });
 
+  test('should recommend NO_TRADE when slippage consumes the edge', async () => {
+    // 10% edge against the midpoint, but the ask side is too thin to fill $100 near it
+    const consensus = createSampleConsensus(0.6);
+    const bullThesis = createSampleThesis('YES', 0.6, 0.5);
+    const bearThesis = createSampleThesis('NO', 0.4, 0.5);
+    const book = parseOrderBook({
+      asset_id: 'thin-token',
+      bids: [{ price: '0.49', size: '1000' }],
+      asks: [
+        { price: '0.51', size: '20' },
+        { price: '0.75', size: '1000' },
+      ],
+    });
+    const mbd = { ...createSampleMBD(0.5), orderBook: analyzeOrderBookDepth(book)! };
+
+    const state: GraphStateType = {
+      conditionId: 'test-condition',
+      mbd,
+      ingestionError: null,
+      agentSignals: [],
+      agentErrors: [],
+      bullThesis,
+      bearThesis,
+      debateRecord: null,
+      consensus,
+      consensusError: null,
+      recommendation: null,
+      auditLog: [],
+    };
+
+    const config = createTestConfig();
+    const recommendationNode = createRecommendationGenerationNode(config);
+    const result = await recommendationNode(state);
+
+    const execution = result.recommendation!.metadata.execution!;
+    expect(result.recommendation!.action).toBe('NO_TRADE');
+    expect(result.recommendation!.expectedValue).toBeLessThan(0);
+    expect(execution.side).toBe('YES');
+    expect(execution.averagePrice).toBeGreaterThan(0.6);
+    expect(execution.slippage).toBeGreaterThan(0.1);
+    expect(result.recommendation!.liquidityRisk).toBe('high');
+    expect(result.auditLog![0].data.reason).toBe('Negative expected value');
+  });
+
+  test('should set entry zone from order book fill prices', async () => {
+    // Skip if no OpenAI API key (explanation generation requires LLM)
+    if (!process.env.OPENAI_API_KEY) {
+      return;
+    }
+
+    const consensus = createSampleConsensus(0.6);
+    const bullThesis = createSampleThesis('YES', 0.6, 0.45);
+    const bearThesis = createSampleThesis('NO', 0.4, 0.45);
+    const book = await loadOrderBookFixture(
+      fileURLToPath(new URL('../utils/fixtures/clob-order-book.json', import.meta.url))
+    );
+    const mbd = { ...createSampleMBD(0.45), orderBook: analyzeOrderBookDepth(book)! };
+
+    const state: GraphStateType = {
+      conditionId: 'test-condition',
+      mbd,
+      ingestionError: null,
+      agentSignals: [],
+      agentErrors: [],
+      bullThesis,
+      bearThesis,
+      debateRecord: null,
+      consensus,
+      consensusError: null,
+      recommendation: null,
+      auditLog: [],
+    };
+
+    const config = createTestConfig();
+    const recommendationNode = createRecommendationGenerationNode(config);
+    const result = await recommendationNode(state);
+
+    // Entry runs from the best ask to the deepest profitable average fill price
+    expect(result.recommendation!.action).toBe('LONG_YES');
+    expect(result.recommendation!.entryZone[0]).toBeCloseTo(0.46);
+    expect(result.recommendation!.entryZone[1]).toBeGreaterThan(0.46);
+    expect(result.recommendation!.entryZone[1]).toBeLessThan(0.6);
+    // EV priced at the $100 fill (0.46), not the 0.45 midpoint
+    expect(result.recommendation!.expectedValue).toBeCloseTo((0.6 / 0.46 - 1) * 100);
+    expect(result.recommendation!.metadata.execution!.averagePrice).toBeCloseTo(0.46);
+  });
+
   test('should generate LONG_YES recommendation when consensus > market', async () => {
     // Skip if no OpenAI API key (explanation generation requires LLM)
     if (!process.env.OPENAI_API_KEY) {
@@ -8,8 +8,19 @@
 
 import { createLLMInstance, type LLMInstance } from '../utils/llm-factory.js';
 import type { GraphStateType } from '../models/state.js';
-import type { TradeRecommendation, TradeAction, LiquidityRisk } from '../models/types.js';
+import type {
+  TradeRecommendation,
+  TradeAction,
+  LiquidityRisk,
+  OrderBookDepth,
+  TradeExecutionEstimate,
+} from '../models/types.js';
 import type { EngineConfig } from '../config/index.js';
+import { getFillEstimate, REFERENCE_NOTIONAL } from '../utils/order-book.js';
+import {
+  applyResolutionRiskToLiquidity,
+  mergeResolutionFailureScenarios,
+} from '../utils/resolution-risk.js';
 
 /**
  * Type for supported LLM instances
@@ -24,19 +35,25 @@ import type { EngineConfig } from '../config/index.js';
  * - If LONG_YES: EV = (consensusProb * (100/marketProb - 100)) - ((1-consensusProb) * 100)
  * - If LONG_NO: EV = ((1-consensusProb) * (100/(1-marketProb) - 100)) - (consensusProb * 100)
  *
+ * When an order book execution estimate is available, the average fill price
+ * replaces the market price as the cost per share, so spread and slippage
+ * reduce the expected value.
+ *
  * @param consensusProbability - Consensus probability estimate
  * @param marketProbability - Market-implied probability
  * @param direction - Trade direction
+ * @param executionPrice - Average fill price per share for the traded side
  * @returns Expected value in dollars per $100 invested
  */
-function calculateExpectedValue(
+export function calculateExpectedValue(
   consensusProbability: number,
   marketProbability: number,
-  direction: 'LONG_YES' | 'LONG_NO'
+  direction: 'LONG_YES' | 'LONG_NO',
+  executionPrice?: number
 ): number {
   if (direction === 'LONG_YES') {
     // Buying YES shares at market price
-    const costPerShare = marketProbability;
+    const costPerShare = executionPrice ?? marketProbability;
     if (costPerShare === 0) return 0; // Avoid division by zero
     
     const sharesPerDollar = 1 / costPerShare;
@@ -46,7 +63,7 @@ function calculateExpectedValue(
     return ev * 100; // Scale to $100 investment
   } else {
     // Buying NO shares at market price
-    const costPerShare = 1 - marketProbability;
+    const costPerShare = executionPrice ?? 1 - marketProbability;
     if (costPerShare === 0) return 0; // Avoid division by zero
     
     const sharesPerDollar = 1 / costPerShare;
@@ -92,6 +109,38 @@ function calculateEntryZone(
   return [min, max];
 }
 
+/**
+ * Calculate entry zone from order book fill estimates
+ *
+ * The zone runs from the top-of-book price to the highest average fill price
+ * (across simulated order sizes that fill completely) that still leaves
+ * positive expected value at the consensus probability.
+ *
+ * @param orderBook - Order book depth summary
+ * @param direction - Trade direction
+ * @param winProbability - Consensus probability of the traded side winning
+ * @returns Entry zone [min, max], or null if the book has no fills for the side
+ */
+function calculateOrderBookEntryZone(
+  orderBook: OrderBookDepth,
+  direction: 'LONG_YES' | 'LONG_NO',
+  winProbability: number
+): [number, number] | null {
+  const side = direction === 'LONG_YES' ? 'YES' : 'NO';
+  const fills = orderBook.fills.filter((fill) => fill.side === side);
+  if (fills.length === 0) {
+    return null;
+  }
+
+  const bestPrice = fills[0].bestPrice;
+  const profitablePrices = fills
+    .filter((fill) => fill.fullyFilled && fill.averagePrice < winProbability)
+    .map((fill) => fill.averagePrice);
+  const max = profitablePrices.length > 0 ? Math.max(...profitablePrices) : bestPrice;
+
+  return [bestPrice, Math.max(bestPrice, max)];
+}
+
 /**
  * Calculate stop-loss zone (below entry zone for risk management)
  *
@@ -158,6 +207,52 @@ function determineLiquidityRisk(liquidityScore: number): LiquidityRisk {
   }
 }
 
+/**
+ * Determine liquidity risk from the execution estimate
+ *
+ * A reference order that cannot fill, or a wide spread, is high risk.
+ * Slippage of more than 1 cent at the reference size is medium risk.
+ *
+ * @param execution - Execution estimate at the reference notional
+ * @returns Liquidity risk level
+ */
+function determineExecutionLiquidityRisk(execution: TradeExecutionEstimate): LiquidityRisk {
+  if (!execution.fullyFilled || execution.spread > 0.05 || execution.slippage > 0.03) {
+    return 'high';
+  } else if (execution.slippage > 0.01 || execution.spread > 0.02) {
+    return 'medium';
+  } else {
+    return 'low';
+  }
+}
+
+/**
+ * Estimate execution of the reference order against the order book
+ *
+ * @param orderBook - Order book depth summary (absent when not fetched)
+ * @param direction - Trade direction
+ * @returns Execution estimate, or undefined without usable depth
+ */
+function estimateExecution(
+  orderBook: OrderBookDepth | undefined,
+  direction: 'LONG_YES' | 'LONG_NO'
+): TradeExecutionEstimate | undefined {
+  if (!orderBook) {
+    return undefined;
+  }
+
+  const fill = getFillEstimate(
+    orderBook,
+    direction === 'LONG_YES' ? 'YES' : 'NO',
+    REFERENCE_NOTIONAL
+  );
+  if (!fill || fill.shares === 0) {
+    return undefined;
+  }
+
+  return { ...fill, spread: orderBook.spread };
+}
+
 /**
  * Create LLM instance for explanation generation
  *
@@ -181,6 +276,7 @@ function createExplanationLLM(config: EngineConfig): LLMInstance {
  * @param action - Trade action
  * @param expectedValue - Expected value
  * @param edge - Market edge
+ * @param execution - Order book execution estimate
  * @returns Trade explanation
  */
 async function generateExplanation(
@@ -188,7 +284,8 @@ async function generateExplanation(
   state: GraphStateType,
   action: TradeAction,
   expectedValue: number,
-  edge: number
+  edge: number,
+  execution?: TradeExecutionEstimate
 ): Promise<TradeRecommendation['explanation']> {
   const { consensus, bullThesis, bearThesis, mbd, riskPhilosophySignals } = state;
 
@@ -213,6 +310,8 @@ async function generateExplanation(
       edge,
       consensusProbability: consensus.consensusProbability,
       disagreementIndex: consensus.disagreementIndex,
+      averageFillPrice: execution?.averagePrice,
+      slippage: execution?.slippage,
     },
     primaryThesis: {
       direction: primaryThesis.direction,
@@ -393,6 +492,8 @@ export function createRecommendationGenerationNode(
 
     try {
       const { consensus, mbd } = state;
+      // Calibrated by the probability_calibration stage when a model is available,
+      // so edge and expected value below use the calibrated probability
       const consensusProbability = consensus.consensusProbability;
       const marketProbability = mbd.currentProbability;
 
@@ -409,7 +510,10 @@ export function createRecommendationGenerationNode(
           stopLoss: 0,
           expectedValue: 0,
           winProbability: 0,
-          liquidityRisk: determineLiquidityRisk(mbd.liquidityScore),
+          liquidityRisk: applyResolutionRiskToLiquidity(
+            determineLiquidityRisk(mbd.liquidityScore),
+            state.resolutionRisk
+          ),
           explanation: {
             summary: `No trade recommended. The edge (${(edge * 100).toFixed(1)}%) is below the minimum threshold of ${(config.consensus.minEdgeThreshold * 100).toFixed(1)}%.`,
             coreThesis: 'Market is efficiently priced with no significant edge.',
@@ -421,6 +525,11 @@ export function createRecommendationGenerationNode(
             marketProbability,
             edge,
             confidenceBand: consensus.confidenceBand,
+            rawConsensusProbability: consensus.calibration?.rawProbability ?? consensusProbability,
+            probabilityRegime: consensus.regime,
+            ...(state.resolutionRisk && {
+              resolutionRiskScore: state.resolutionRisk.disputeRiskScore,
+            }),
           },
         };
 
@@ -447,11 +556,16 @@ export function createRecommendationGenerationNode(
       const direction = determineTradeDirection(consensusProbability, marketProbability);
       console.log('[RecommendationGeneration] Trade direction:', direction, 'consensus:', consensusProbability, 'market:', marketProbability);
 
+      // Price the reference order against the order book when depth is available,
+      // so expected value accounts for spread and slippage
+      const execution = estimateExecution(mbd.orderBook, direction);
+
       // Calculate expected value
       const expectedValue = calculateExpectedValue(
         consensusProbability,
         marketProbability,
-        direction
+        direction,
+        execution?.averagePrice
       );
       console.log('[RecommendationGeneration] Expected value:', expectedValue);
 
@@ -465,7 +579,12 @@ export function createRecommendationGenerationNode(
           stopLoss: 0,
           expectedValue,
           winProbability: direction === 'LONG_YES' ? consensusProbability : 1 - consensusProbability,
-          liquidityRisk: determineLiquidityRisk(mbd.liquidityScore),
+          liquidityRisk: applyResolutionRiskToLiquidity(
+            execution
+              ? determineExecutionLiquidityRisk(execution)
+              : determineLiquidityRisk(mbd.liquidityScore),
+            state.resolutionRisk
+          ),
           explanation: {
             summary: `No trade recommended. Expected value is negative ($${expectedValue.toFixed(2)} per $100 invested).`,
             coreThesis: 'Trade has negative expected value despite edge.',
@@ -477,6 +596,12 @@ export function createRecommendationGenerationNode(
             marketProbability,
             edge,
             confidenceBand: consensus.confidenceBand,
+            rawConsensusProbability: consensus.calibration?.rawProbability ?? consensusProbability,
+            probabilityRegime: consensus.regime,
+            execution,
+            ...(state.resolutionRisk && {
+              resolutionRiskScore: state.resolutionRisk.disputeRiskScore,
+            }),
           },
         };
 
@@ -492,6 +617,8 @@ export function createRecommendationGenerationNode(
                 reason: 'Negative expected value',
                 expectedValue,
                 edge,
+                averageFillPrice: execution?.averagePrice,
+                slippage: execution?.slippage,
                 duration: Date.now() - startTime,
               },
             },
@@ -499,8 +626,14 @@ export function createRecommendationGenerationNode(
         };
       }
 
-      // Calculate entry and target zones
-      const entryZone = calculateEntryZone(marketProbability, direction);
+      // Calculate win probability
+      const winProbability = direction === 'LONG_YES' ? consensusProbability : 1 - consensusProbability;
+
+      // Calculate entry and target zones (entry from real fill prices when the book is known)
+      const entryZone =
+        (mbd.orderBook &&
+          calculateOrderBookEntryZone(mbd.orderBook, direction, winProbability)) ||
+        calculateEntryZone(marketProbability, direction);
       const targetZone = calculateTargetZone(
         consensus.confidenceBand,
         direction
@@ -509,11 +642,13 @@ export function createRecommendationGenerationNode(
       // Calculate stop-loss price
       const stopLoss = calculateStopLoss(entryZone, mbd.liquidityScore);
 
-      // Determine liquidity risk
-      const liquidityRisk = determineLiquidityRisk(mbd.liquidityScore);
-
-      // Calculate win probability
-      const winProbability = direction === 'LONG_YES' ? consensusProbability : 1 - consensusProbability;
+      // Determine liquidity risk (books thin out while a resolution is disputed)
+      const liquidityRisk = applyResolutionRiskToLiquidity(
+        execution
+          ? determineExecutionLiquidityRisk(execution)
+          : determineLiquidityRisk(mbd.liquidityScore),
+        state.resolutionRisk
+      );
 
       // Generate natural language explanation
       let explanation;
@@ -523,7 +658,8 @@ export function createRecommendationGenerationNode(
           state,
           direction,
           expectedValue,
-          edge
+          edge,
+          execution
         );
       } catch (explanationError) {
         console.error('[RecommendationGeneration] Failed to generate explanation:', explanationError);
@@ -537,6 +673,12 @@ export function createRecommendationGenerationNode(
         };
       }
 
+      // Markets that can resolve on a technicality carry that as a failure scenario
+      explanation.failureScenarios = mergeResolutionFailureScenarios(
+        explanation.failureScenarios,
+        state.resolutionRisk
+      );
+
       // Create recommendation
       const recommendation: TradeRecommendation = {
         marketId: mbd.marketId,
@@ -553,6 +695,12 @@ export function createRecommendationGenerationNode(
           marketProbability,
           edge,
           confidenceBand: consensus.confidenceBand,
+          rawConsensusProbability: consensus.calibration?.rawProbability ?? consensusProbability,
+          probabilityRegime: consensus.regime,
+          execution,
+          ...(state.resolutionRisk && {
+            resolutionRiskScore: state.resolutionRisk.disputeRiskScore,
+          }),
         },
       };
 
@@ -572,6 +720,8 @@ export function createRecommendationGenerationNode(
               entryZone,
               targetZone,
               stopLoss,
+              averageFillPrice: execution?.averagePrice,
+              slippage: execution?.slippage,
               riskPhilosophyIncluded: !!state.riskPhilosophySignals,
               riskPhilosophyAgents: state.riskPhilosophySignals ? Object.keys(state.riskPhilosophySignals).filter(k => state.riskPhilosophySignals![k as keyof typeof state.riskPhilosophySignals]) : [],
               duration: Date.now() - startTime,
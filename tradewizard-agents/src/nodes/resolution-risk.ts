@@ -0,0 +1,62 @@
+/**
+ * Resolution Risk Node
+ *
+ * This module analyzes the market's resolution criteria right after ingestion.
+ * The criteria are parsed into structured conditions and scored for the
+ * probability of a disputed or surprising resolution; the assessment is read
+ * by the tail-risk agent and by recommendation generation.
+ */
+
+import type { GraphStateType } from '../models/state.js';
+import { analyzeResolutionRisk } from '../utils/resolution-risk.js';
+
+/**
+ * Create resolution risk node factory
+ *
+ * @returns Resolution risk node function
+ */
+export function createResolutionRiskNode(): (
+  state: GraphStateType
+) => Promise<Partial<GraphStateType>> {
+  return async (state: GraphStateType): Promise<Partial<GraphStateType>> => {
+    const startTime = Date.now();
+
+    if (!state.mbd) {
+      return {
+        resolutionRisk: null,
+        auditLog: [
+          {
+            stage: 'resolution_risk',
+            timestamp: Date.now(),
+            data: {
+              success: false,
+              reason: 'No Market Briefing Document available',
+              duration: Date.now() - startTime,
+            },
+          },
+        ],
+      };
+    }
+
+    const assessment = analyzeResolutionRisk(state.mbd);
+
+    return {
+      resolutionRisk: assessment,
+      auditLog: [
+        {
+          stage: 'resolution_risk',
+          timestamp: Date.now(),
+          data: {
+            success: true,
+            disputeRiskScore: assessment.disputeRiskScore,
+            level: assessment.level,
+            factors: assessment.factors.map((factor) => factor.factor),
+            sourcesOfTruth: assessment.conditions.sourcesOfTruth,
+            deadline: assessment.conditions.deadline?.text,
+            duration: Date.now() - startTime,
+          },
+        },
+      ],
+    };
+  };
+}
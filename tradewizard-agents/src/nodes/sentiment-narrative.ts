@@ -11,6 +11,9 @@ import type { GraphStateType } from '../models/state.js';
 import type { AgentSignal } from '../models/types.js';
 import type { EngineConfig } from '../config/index.js';
 import { createLLMInstance } from '../utils/llm-factory.js';
+import { resolvePrompt } from '../utils/prompt-registry.js';
+import { formatNarrativeTimeline } from '../utils/agent-context-formatter.js';
+import { citeSignal, newsCitationCandidates } from '../utils/source-credibility.js';
 
 // ============================================================================
 // Social Sentiment Agent Signal Schema
@@ -141,6 +144,12 @@ Given media and social data, analyze:
 
 Focus on predictive signals, not just current state.
 
+STORY TIMELINE:
+When a story timeline is provided, news has already been grouped into stories:
+- Measure velocity on story growth (articles per hour, new sources joining), not raw article counts
+- Many outlets repeating one event is a single narrative, not many
+- Emerging and accelerating stories are the candidates for next-cycle dominance; fading stories have peaked
+
 ENHANCED EVENT-BASED ANALYSIS:
 When event-based keywords are provided, use them to improve narrative velocity analysis:
 - Track velocity of narratives matching event-level keywords for more accurate predictions
@@ -248,9 +257,15 @@ export function createSocialSentimentAgentNode(
         `\n\nEvent-Based Keywords for Social Sentiment Analysis:\n${JSON.stringify(keywordContext, null, 2)}` : 
         '';
 
+      const { prompt, version: promptVersion } = resolvePrompt(
+        'social_sentiment',
+        SOCIAL_SENTIMENT_PROMPT,
+        state.mbd.conditionId
+      );
+
       // Invoke the LLM with enhanced context
       const response = await structuredLLM.invoke([
-        { role: 'system', content: SOCIAL_SENTIMENT_PROMPT },
+        { role: 'system', content: prompt },
         {
           role: 'user',
           content: `Analyze social sentiment for the following prediction market:\n\nMarket:\n${marketContext}\n\nSocial Data:\n${socialContext}${keywordContextStr}`,
@@ -275,7 +290,7 @@ export function createSocialSentimentAgentNode(
         fairProbability: response.fairProbability,
         keyDrivers: response.keyDrivers,
         riskFactors: response.riskFactors,
-        metadata: response.metadata,
+        metadata: { ...response.metadata, promptVersion },
       };
 
       return {
@@ -290,6 +305,7 @@ export function createSocialSentimentAgentNode(
               direction: signal.direction,
               confidence: signal.confidence,
               fairProbability: signal.fairProbability,
+              promptVersion,
               crowdPsychology: response.metadata.crowdPsychology,
               retailPositioning: response.metadata.retailPositioning,
               duration: Date.now() - startTime,
@@ -402,32 +418,46 @@ export function createNarrativeVelocityAgentNode(
 
       // Prepare enhanced market context with media and social data and event-based keywords
       const marketContext = JSON.stringify(state.mbd, null, 2);
-      const newsContext = newsArticles.length > 0 ? JSON.stringify(newsArticles, null, 2) : 'No news data available';
+      // Story growth replaces the raw article list once news has been clustered
+      const timeline = state.externalData?.narrativeTimeline;
+      const hasStories = Boolean(timeline && timeline.stories.length > 0);
+      const newsContext = hasStories
+        ? formatNarrativeTimeline(timeline!)
+        : newsArticles.length > 0 ? JSON.stringify(newsArticles, null, 2) : 'No news data available';
       const socialContext = socialData ? JSON.stringify(socialData, null, 2) : 'No social data available';
       const keywordContextStr = keywordContext ? 
         `\n\nEvent-Based Keywords for Narrative Velocity Analysis:\n${JSON.stringify(keywordContext, null, 2)}` : 
         '';
 
+      const { prompt, version: promptVersion } = resolvePrompt(
+        'narrative_velocity',
+        NARRATIVE_VELOCITY_PROMPT,
+        state.mbd.conditionId
+      );
+
       // Invoke the LLM with enhanced context
       const response = await structuredLLM.invoke([
-        { role: 'system', content: NARRATIVE_VELOCITY_PROMPT },
+        { role: 'system', content: prompt },
         {
           role: 'user',
-          content: `Analyze narrative velocity for the following prediction market:\n\nMarket:\n${marketContext}\n\nNews Articles:\n${newsContext}\n\nSocial Data:\n${socialContext}${keywordContextStr}`,
+          content: `Analyze narrative velocity for the following prediction market:\n\nMarket:\n${marketContext}\n\nNews ${hasStories ? 'Stories' : 'Articles'}:\n${newsContext}\n\nSocial Data:\n${socialContext}${keywordContextStr}`,
         },
       ]);
 
-      // Create the agent signal
-      const signal: AgentSignal = {
-        agentName: 'narrative_velocity',
-        timestamp: Date.now(),
-        confidence: response.confidence,
-        direction: response.direction,
-        fairProbability: response.fairProbability,
-        keyDrivers: response.keyDrivers,
-        riskFactors: response.riskFactors,
-        metadata: response.metadata,
-      };
+      // Create the agent signal, citing the articles behind its key drivers
+      const signal: AgentSignal = citeSignal(
+        {
+          agentName: 'narrative_velocity',
+          timestamp: Date.now(),
+          confidence: response.confidence,
+          direction: response.direction,
+          fairProbability: response.fairProbability,
+          keyDrivers: response.keyDrivers,
+          riskFactors: response.riskFactors,
+          metadata: { ...response.metadata, promptVersion },
+        },
+        newsCitationCandidates(newsArticles)
+      );
 
       return {
         agentSignals: [signal],
@@ -441,8 +471,10 @@ export function createNarrativeVelocityAgentNode(
               direction: signal.direction,
               confidence: signal.confidence,
               fairProbability: signal.fairProbability,
+              promptVersion,
               narrativeCount: response.metadata.narratives.length,
               emergingNarrativeCount: response.metadata.emergingNarratives.length,
+              storyCount: timeline?.storyCount,
               duration: Date.now() - startTime,
             },
           },
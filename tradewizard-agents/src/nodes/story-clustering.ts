@@ -0,0 +1,108 @@
+/**
+ * Story Clustering Node
+ *
+ * This module groups the market's news articles into stories after keyword
+ * extraction. Articles already in externalData are used as-is; otherwise news
+ * is fetched from the data layer. The resulting NarrativeTimeline is stored
+ * on externalData, where formatExternalDataForAgent and the narrative
+ * velocity agent read it.
+ */
+
+import type { GraphStateType } from '../models/state.js';
+import type { EngineConfig } from '../config/index.js';
+import type { DataIntegrationLayer } from '../utils/data-integration.js';
+import type { StoryTracker } from '../utils/story-clustering.js';
+
+/**
+ * Create story clustering node factory
+ *
+ * @param config - Engine configuration
+ * @param dataLayer - Data integration layer used when state has no news yet
+ * @param tracker - Story tracker holding each market's stories across runs
+ * @returns Story clustering node function
+ */
+export function createStoryClusteringNode(
+  config: EngineConfig,
+  dataLayer: DataIntegrationLayer,
+  tracker: StoryTracker
+): (state: GraphStateType) => Promise<Partial<GraphStateType>> {
+  return async (state: GraphStateType): Promise<Partial<GraphStateType>> => {
+    const startTime = Date.now();
+
+    if (config.storyClustering?.enabled === false || !state.mbd) {
+      return {
+        auditLog: [
+          {
+            stage: 'story_clustering',
+            timestamp: Date.now(),
+            data: {
+              success: false,
+              skipped: true,
+              reason: state.mbd
+                ? 'Story clustering disabled via configuration'
+                : 'No Market Briefing Document available',
+              duration: Date.now() - startTime,
+            },
+          },
+        ],
+      };
+    }
+
+    const existingNews = state.externalData?.news;
+    let news = existingNews ?? [];
+    if (!existingNews) {
+      try {
+        news = await dataLayer.fetchNews(state.mbd);
+      } catch (error) {
+        console.warn('[StoryClustering] Failed to fetch news:', {
+          marketId: state.mbd.conditionId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (news.length === 0) {
+      return {
+        auditLog: [
+          {
+            stage: 'story_clustering',
+            timestamp: Date.now(),
+            data: {
+              success: true,
+              articleCount: 0,
+              storyCount: 0,
+              reason: 'No news articles',
+              duration: Date.now() - startTime,
+            },
+          },
+        ],
+      };
+    }
+
+    const timeline = await tracker.update(state.mbd.conditionId, news);
+    const dataFreshness = state.externalData?.dataFreshness ?? {};
+
+    return {
+      externalData: {
+        ...state.externalData,
+        news,
+        narrativeTimeline: timeline,
+        dataFreshness: existingNews ? dataFreshness : { ...dataFreshness, news: Date.now() },
+      },
+      auditLog: [
+        {
+          stage: 'story_clustering',
+          timestamp: Date.now(),
+          data: {
+            success: true,
+            articleCount: news.length,
+            storyCount: timeline.storyCount,
+            emergingStories: timeline.stories.filter((story) => story.status === 'emerging').length,
+            topStory: timeline.stories[0]?.headline,
+            duration: Date.now() - startTime,
+          },
+        },
+      ],
+    };
+  };
+}
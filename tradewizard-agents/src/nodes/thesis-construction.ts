@@ -7,10 +7,12 @@
 
 import { createLLMInstance, type LLMInstance } from '../utils/llm-factory.js';
 import type { GraphStateType } from '../models/state.js';
-import type { Thesis } from '../models/types.js';
+import type { Citation, Thesis } from '../models/types.js';
 import { ThesisSchema } from '../models/schemas.js';
 import type { EngineConfig } from '../config/index.js';
 import { formatTimestamp } from '../utils/timestamp-formatter.js';
+import { resolvePrompt } from '../utils/prompt-registry.js';
+import { mergeCitations } from '../utils/source-credibility.js';
 
 /**
  * Type for supported LLM instances
@@ -95,6 +97,35 @@ function createThesisLLM(config: EngineConfig): LLMInstance {
   return createLLMInstance(config, 'openai', ['anthropic', 'google', 'nova']);
 }
 
+/**
+ * Collect the citations behind a thesis
+ *
+ * Uses the signals the thesis names as supporting, or every signal in the
+ * thesis direction when it names none. Returns undefined when no signal
+ * carries citation data, so an uncited thesis is distinguishable from one
+ * built without any sources to cite.
+ *
+ * @param signals - Array of agent signals
+ * @param supportingSignals - Agent names the thesis lists as supporting
+ * @param direction - Thesis direction
+ * @returns Merged citations, most credible first
+ */
+function collectThesisCitations(
+  signals: GraphStateType['agentSignals'],
+  supportingSignals: string[],
+  direction: Thesis['direction']
+): Citation[] | undefined {
+  if (!signals.some((signal) => signal.citations)) {
+    return undefined;
+  }
+
+  const named = signals.filter((signal) => supportingSignals.includes(signal.agentName));
+  const supporting = named.length > 0
+    ? named
+    : signals.filter((signal) => signal.direction === direction);
+  return mergeCitations(supporting.flatMap((signal) => signal.citations ?? []));
+}
+
 /**
  * System prompt for bull thesis generation
  */
@@ -319,21 +350,29 @@ export function createThesisConstructionNode(
 
       // Use structured output for thesis generation
       const structuredLLM = llm.withStructuredOutput(ThesisSchema);
+      const bullPrompt = resolvePrompt('bull_thesis', BULL_THESIS_PROMPT, state.mbd.conditionId);
+      const bearPrompt = resolvePrompt('bear_thesis', BEAR_THESIS_PROMPT, state.mbd.conditionId);
 
       // Generate bull thesis
       const bullThesisResponse = await structuredLLM.invoke([
-        { role: 'system', content: BULL_THESIS_PROMPT },
+        { role: 'system', content: bullPrompt.prompt },
         {
           role: 'user',
           content: `Generate a bull thesis (YES outcome) based on this market analysis:\n\n${contextString}`,
         },
       ]);
 
+      const bullCitations = collectThesisCitations(
+        state.agentSignals,
+        bullThesisResponse.supportingSignals,
+        'YES'
+      );
       const bullThesis: Thesis = {
         ...bullThesisResponse,
         direction: 'YES',
         marketProbability,
         edge: Math.abs(bullThesisResponse.fairProbability - marketProbability),
+        ...(bullCitations ? { citations: bullCitations } : {}),
       };
       
       // Validate bull thesis edge is finite
@@ -343,18 +382,24 @@ export function createThesisConstructionNode(
 
       // Generate bear thesis
       const bearThesisResponse = await structuredLLM.invoke([
-        { role: 'system', content: BEAR_THESIS_PROMPT },
+        { role: 'system', content: bearPrompt.prompt },
         {
           role: 'user',
           content: `Generate a bear thesis (NO outcome) based on this market analysis:\n\n${contextString}`,
         },
       ]);
 
+      const bearCitations = collectThesisCitations(
+        state.agentSignals,
+        bearThesisResponse.supportingSignals,
+        'NO'
+      );
       const bearThesis: Thesis = {
         ...bearThesisResponse,
         direction: 'NO',
         marketProbability,
         edge: Math.abs(bearThesisResponse.fairProbability - marketProbability),
+        ...(bearCitations ? { citations: bearCitations } : {}),
       };
       
       // Validate bear thesis edge is finite
@@ -383,6 +428,12 @@ export function createThesisConstructionNode(
               isFairlyPriced,
               bullEdge: bullThesis.edge,
               bearEdge: bearThesis.edge,
+              bullCitationCount: bullThesis.citations?.length,
+              bearCitationCount: bearThesis.citations?.length,
+              promptVersions: {
+                bull_thesis: bullPrompt.version,
+                bear_thesis: bearPrompt.version,
+              },
               agentCount: state.agentSignals.length,
               contributingAgents: source === 'fused' && state.fusedSignal
                 ? state.fusedSignal.contributingAgents
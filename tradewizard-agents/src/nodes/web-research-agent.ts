@@ -27,9 +27,11 @@ import {
   getToolUsageSummary,
 } from '../tools/serper-tools.js';
 import type { ToolContext, ToolAuditEntry } from '../tools/serper-tools.js';
+import type { SerperSearchResult } from '../utils/serper-client.js';
 import type { GraphStateType } from '../models/state.js';
 import type { AgentSignal } from '../models/types.js';
 import type { EngineConfig } from '../config/index.js';
+import { citeSignal, searchResultCitationCandidates } from '../utils/source-credibility.js';
 
 // ============================================================================
 // System Prompt
@@ -75,6 +77,7 @@ SEARCH PRIORITIZATION:
 
 SOURCE SELECTION FOR SCRAPING:
 - Prioritize authoritative sources: major news outlets, official government sites, research institutions
+- Use each search result's sourceTier: prefer primary and high tiers, corroborate low and unknown tiers
 - Scrape 2-4 highly relevant URLs that provide comprehensive information
 - Avoid low-quality sources, social media posts, or opinion blogs
 - Focus on recent sources (within relevant timeframe for the market)
@@ -395,6 +398,14 @@ Please search the web and scrape relevant sources to provide comprehensive conte
         toolBreakdown: toolUsage.toolBreakdown,
       };
 
+      // Step 14.5: Cite the search results behind the key drivers
+      const searchResults = toolAuditLog.flatMap((entry) =>
+        entry.toolName === 'search_web' && Array.isArray(entry.result)
+          ? (entry.result as SerperSearchResult[])
+          : []
+      );
+      signal = citeSignal(signal, searchResultCitationCandidates(searchResults));
+
       // Step 15: Return state update (Requirement 6.3, 6.4)
       return {
         agentSignals: [signal],
@@ -8,7 +8,7 @@
  */
 
 import { z } from 'zod';
-import type { NewsDataClient } from '../utils/newsdata-client.js';
+import type { NewsClient } from '../utils/news-providers.js';
 import type { ToolCache } from '../utils/tool-cache.js';
 
 // ============================================================================
@@ -19,13 +19,13 @@ import type { ToolCache } from '../utils/tool-cache.js';
  * Tool execution context
  *
  * Provides access to shared resources needed by all tools:
- * - newsDataClient: For fetching news data
+ * - newsClient: For fetching news data from the configured news provider(s)
  * - cache: For caching tool results within a session
  * - auditLog: For logging all tool calls
  * - agentName: Name of the agent using the tool
  */
 export interface ToolContext {
-  newsDataClient: NewsDataClient;
+  newsClient: NewsClient;
   cache: ToolCache;
   auditLog: ToolAuditEntry[];
   agentName: string;
@@ -643,7 +643,7 @@ export async function fetchLatestNews(
       }
 
       // Call NewsData API
-      const response = await ctx.newsDataClient.fetchLatestNews(apiParams, ctx.agentName);
+      const response = await ctx.newsClient.fetchLatestNews(apiParams, ctx.agentName);
 
       // Handle no results case (Requirement 2.6)
       if (!response.results || response.results.length === 0) {
@@ -815,7 +815,7 @@ export async function fetchArchiveNews(
       }
 
       // Call NewsData API
-      const response = await ctx.newsDataClient.fetchArchiveNews(apiParams, ctx.agentName);
+      const response = await ctx.newsClient.fetchArchiveNews(apiParams, ctx.agentName);
 
       // Handle no results case
       if (!response.results || response.results.length === 0) {
@@ -982,7 +982,7 @@ export async function fetchCryptoNews(
       }
 
       // Call NewsData API
-      const response = await ctx.newsDataClient.fetchCryptoNews(apiParams, ctx.agentName);
+      const response = await ctx.newsClient.fetchCryptoNews(apiParams, ctx.agentName);
 
       // Handle no results case (Requirement 4.6)
       if (!response.results || response.results.length === 0) {
@@ -1165,7 +1165,7 @@ export async function fetchMarketNews(
       }
 
       // Call NewsData API
-      const response = await ctx.newsDataClient.fetchMarketNews(apiParams, ctx.agentName);
+      const response = await ctx.newsClient.fetchMarketNews(apiParams, ctx.agentName);
 
       // Handle no results case (Requirement 5.6)
       if (!response.results || response.results.length === 0) {
@@ -10,6 +10,7 @@
 import { z } from 'zod';
 import type { SerperClient, SerperSearchResult, SerperScrapeResponse } from '../utils/serper-client.js';
 import type { ToolCache } from '../utils/tool-cache.js';
+import { assessSource } from '../utils/source-credibility.js';
 
 // ============================================================================
 // Types and Interfaces
@@ -413,7 +414,8 @@ Parameters:
 - numResults: Number of results (1-20, default: 10)
 - timeRange: Filter by time - 'hour', 'day', 'week', 'month', 'year', or 'all'
 
-Returns: Array of search results with title, link, snippet, and date.
+Returns: Array of search results with title, link, snippet, date, and sourceTier
+(publisher credibility: primary, high, medium, low, or unknown).
 
 Example usage:
 - Recent news: { query: "Ukraine conflict latest", timeRange: "day" }
@@ -433,7 +435,7 @@ Example usage:
       return JSON.stringify({
         success: true,
         resultCount: result.length,
-        results: result,
+        results: result.map((item) => ({ ...item, sourceTier: assessSource(item.link).tier })),
       });
     },
   };
@@ -13,9 +13,11 @@
 import type {
   MarketBriefingDocument,
   AgentSignal,
+  NarrativeTimeline,
 } from '../models/types.js';
 import type { GraphStateType } from '../models/state.js';
 import { formatTimestamp, getConfig } from './timestamp-formatter.js';
+import { assessSource } from './source-credibility.js';
 
 /**
  * Check if human-readable timestamp formatting is enabled
@@ -273,7 +275,10 @@ export function formatMarketBriefingForAgent(
  * All timestamps are converted to natural language format.
  * 
  * Formatted sections include:
- * - News articles (title, source, published time, sentiment, relevance, summary, URL)
+ * - Story timeline, when news has been clustered into stories (see formatNarrativeTimeline)
+ * - News articles (title, source and its credibility tier, published time, sentiment,
+ *   relevance, summary, URL);
+ *   with a story timeline, one representative article per story
  * - Polling data (aggregated probability, momentum, bias adjustment, individual polls)
  * - Social media sentiment (overall sentiment, narrative velocity, platform breakdown)
  * - Data freshness (last update times for each source)
@@ -308,7 +313,7 @@ export function formatMarketBriefingForAgent(
  * // Returns multi-line string:
  * // === NEWS ARTICLES ===
  * // 1. Biden announces new policy
- * //    Source: CNN
+ * //    Source: CNN (medium credibility)
  * //    Published: 2 hours ago
  * //    Sentiment: positive
  * //    Relevance: 85%
@@ -325,13 +330,40 @@ export function formatExternalDataForAgent(
   
   const lines: string[] = [];
   
-  // News Articles
-  if (externalData.news && externalData.news.length > 0) {
+  // Story Timeline
+  const timeline = externalData.narrativeTimeline;
+  if (timeline && timeline.stories.length > 0) {
+    lines.push(formatNarrativeTimeline(timeline));
+    lines.push('');
+  }
+  
+  // News Articles (one report per story when a timeline is available)
+  const storyByUrl = new Map(
+    (timeline?.stories ?? []).flatMap((story) => story.articleUrls.map((url) => [url, story]))
+  );
+  const shownStories = new Set<string>();
+  const articles = (externalData.news ?? []).filter((article) => {
+    const story = storyByUrl.get(article.url);
+    if (!story) {
+      return true;
+    }
+    if (shownStories.has(story.storyId)) {
+      return false;
+    }
+    shownStories.add(story.storyId);
+    return true;
+  });
+  if (articles.length > 0) {
     lines.push('=== NEWS ARTICLES ===');
-    externalData.news.forEach((article, index) => {
+    articles.forEach((article, index) => {
       const publishedTime = formatTimestamp(article.publishedAt);
+      const story = storyByUrl.get(article.url);
       lines.push(`${index + 1}. ${article.title}`);
-      lines.push(`   Source: ${article.source}`);
+      if (story && story.articleCount > 1) {
+        lines.push(`   Story: ${story.articleCount} reports from ${story.sourceCount} sources`);
+      }
+      const { tier } = assessSource(article.url, article.source);
+      lines.push(`   Source: ${article.source} (${tier} credibility)`);
       lines.push(`   Published: ${publishedTime.formatted}`);
       lines.push(`   Sentiment: ${article.sentiment}`);
       lines.push(`   Relevance: ${(article.relevanceScore * 100).toFixed(0)}%`);
@@ -396,6 +428,55 @@ export function formatExternalDataForAgent(
   return lines.join('\n');
 }
 
+/**
+ * Format a narrative timeline for agent consumption
+ *
+ * Lists each story once with when it was first seen, how many outlets carry
+ * it and how fast it is growing, so narrative velocity is read from story
+ * growth rather than raw article counts.
+ *
+ * @param timeline - Narrative timeline from story clustering
+ * @param maxStories - Maximum number of stories to list (default: 10)
+ * @returns Formatted string for LLM prompt
+ *
+ * @example
+ * formatNarrativeTimeline(externalData.narrativeTimeline);
+ * // === STORY TIMELINE ===
+ * // 3 stories across 14 articles (growth over the last 6h)
+ * // 1. Senate passes budget bill [accelerating]
+ * //    First Seen: 5 hours ago
+ * //    Coverage: 9 articles from 6 sources (3 new sources in window)
+ * //    Growth: 1.2 articles/hour (+0.8 vs previous window)
+ */
+export function formatNarrativeTimeline(
+  timeline: Readonly<NarrativeTimeline>,
+  maxStories: number = 10
+): string {
+  const lines: string[] = ['=== STORY TIMELINE ==='];
+  lines.push(
+    `${timeline.storyCount} ${timeline.storyCount === 1 ? 'story' : 'stories'} across ${timeline.articleCount} articles (growth over the last ${timeline.windowHours}h)`
+  );
+
+  timeline.stories.slice(0, maxStories).forEach((story, index) => {
+    const firstSeen = formatTimestamp(story.firstSeen);
+    const sign = story.acceleration >= 0 ? '+' : '';
+    lines.push(`${index + 1}. ${story.headline} [${story.status}]`);
+    lines.push(`   First Seen: ${firstSeen.formatted}`);
+    lines.push(
+      `   Coverage: ${story.articleCount} articles from ${story.sourceCount} sources (${story.newSourcesInWindow} new sources in window)`
+    );
+    lines.push(
+      `   Growth: ${story.growthRate.toFixed(1)} articles/hour (${sign}${story.acceleration.toFixed(1)} vs previous window)`
+    );
+  });
+
+  if (timeline.stories.length > maxStories) {
+    lines.push(`[${timeline.stories.length - maxStories} smaller stories omitted]`);
+  }
+
+  return lines.join('\n');
+}
+
 /**
  * Format agent signals for agent consumption (for memory context)
  * Converts all timestamps to human-readable format
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for the agent plugin registry
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  AgentRegistry,
+  BUILT_IN_AGENTS,
+  getAgentDefinition,
+  getEnabledAgentPlugins,
+  registerAgentPlugin,
+  defaultAgentRegistry,
+  type AgentPlugin,
+} from './agent-registry.js';
+import { AgentPriority, estimateAgentCost, getAgentPriority } from './cost-optimization.js';
+import { selectAgentsByMarketType } from '../nodes/dynamic-agent-selection.js';
+import type { EngineConfig } from '../config/index.js';
+
+const createPlugin = (overrides: Partial<AgentPlugin> = {}): AgentPlugin => ({
+  name: 'weather',
+  description: 'Weather markets',
+  group: 'domain',
+  eventTypes: ['other'],
+  dataRequirements: [],
+  costTier: 'high',
+  systemPrompt: 'You are a meteorologist.',
+  ...overrides,
+});
+
+describe('Agent Registry', () => {
+  afterEach(() => {
+    defaultAgentRegistry.unregister('weather');
+  });
+
+  it('should register plugins in order and reject duplicates', () => {
+    const registry = new AgentRegistry();
+    registry.register(createPlugin());
+    registry.register(createPlugin({ name: 'elections_plus' }));
+
+    expect(registry.list().map((plugin) => plugin.name)).toEqual(['weather', 'elections_plus']);
+    expect(() => registry.register(createPlugin())).toThrow('already registered');
+  });
+
+  it('should reject names that cannot be graph node names', () => {
+    const registry = new AgentRegistry();
+
+    expect(() => registry.register(createPlugin({ name: 'Weather Agent' }))).toThrow(
+      'Invalid agent plugin name'
+    );
+    expect(() => registry.register(createPlugin({ name: 'momentum' }))).toThrow(
+      'conflicts with a built-in agent'
+    );
+  });
+
+  it('should register the built-in agents for selection, fusion and cost', () => {
+    expect(getAgentDefinition('polling_intelligence')?.group).toBe('polling_statistical');
+    expect(estimateAgentCost(['polling_intelligence', 'momentum'])).toBeCloseTo(0.23);
+    expect(getAgentPriority('market_microstructure')).toBe(AgentPriority.CRITICAL);
+
+    expect(selectAgentsByMarketType('sports')).toEqual([
+      'breaking_news',
+      'event_impact',
+      'media_sentiment',
+      'social_sentiment',
+      'narrative_velocity',
+      'catalyst',
+      'tail_risk',
+    ]);
+
+    // Built-in agents survive clearing the plugins
+    const registry = new AgentRegistry([
+      ...BUILT_IN_AGENTS,
+      { ...BUILT_IN_AGENTS[3], name: 'wire_feed', eventTypes: ['sports'] },
+    ]);
+    registry.register(createPlugin());
+    registry.clear();
+    expect(selectAgentsByMarketType('sports', registry)).toContain('wire_feed');
+    expect(registry.getAgent('weather')).toBeUndefined();
+  });
+
+  it('should filter plugins by configuration', () => {
+    const registry = new AgentRegistry();
+    registry.register(createPlugin());
+    registry.register(createPlugin({ name: 'tides' }));
+
+    const enabled = (agentPlugins: EngineConfig['agentPlugins']) =>
+      getEnabledAgentPlugins({ agentPlugins } as EngineConfig, registry).map((p) => p.name);
+
+    expect(enabled(undefined)).toEqual(['weather', 'tides']);
+    expect(enabled({ enabled: true, disabled: ['tides'] })).toEqual(['weather']);
+    expect(enabled({ enabled: false, disabled: [] })).toEqual([]);
+  });
+
+  it('should derive cost estimates and priority from the registered plugin', () => {
+    expect(estimateAgentCost(['weather'])).toBeCloseTo(0.1);
+    expect(getAgentPriority('weather')).toBe(AgentPriority.LOW);
+
+    registerAgentPlugin(createPlugin({ priority: 'high' }));
+
+    expect(estimateAgentCost(['weather'])).toBeCloseTo(0.15);
+    expect(getAgentPriority('weather')).toBe(AgentPriority.HIGH);
+    expect(getAgentPriority('breaking_news')).toBe(AgentPriority.HIGH);
+  });
+});
@@ -0,0 +1,427 @@
+/**
+ * Agent Plugin Registry
+ *
+ * Lets intelligence agents be added without editing the workflow. A plugin
+ * declares its name, group, applicable event types, data requirements, cost
+ * tier, prompt and output schema; the workflow graph, dynamic agent
+ * selection, signal fusion weighting and cost model all read the registry.
+ *
+ * The built-in agents are registered with their definitions (group, event
+ * types, cost and priority) so agent selection, fusion and the cost model
+ * treat them the same way; their nodes are wired by the workflow.
+ *
+ * Plugins are registered on the default registry before the workflow is
+ * created:
+ *
+ *   registerAgentPlugin(myAgentPlugin);
+ *   const { app } = await createWorkflow(config, polymarketClient);
+ */
+
+import type { z } from 'zod';
+import type { EngineConfig } from '../config/index.js';
+import type { GraphStateType } from '../models/state.js';
+import type { EventType, MarketBriefingDocument } from '../models/types.js';
+import type { AgentSignalLLMOutputSchema } from '../models/schemas.js';
+import type { LLMProvider } from './llm-factory.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Agent group, used for fusion weighting
+ */
+export type AgentGroup =
+  | 'mvp'
+  | 'event_intelligence'
+  | 'polling_statistical'
+  | 'sentiment_narrative'
+  | 'price_action'
+  | 'event_scenario'
+  | 'domain';
+
+/**
+ * External data an agent needs to produce a useful signal
+ *
+ * - news / polling / social: the data integration layer source is available
+ * - trading_history: the market has enough volume for price analysis
+ */
+export type AgentDataRequirement = 'news' | 'polling' | 'social' | 'trading_history';
+
+/**
+ * Cost tier of a plugin agent
+ */
+export type AgentCostTier = 'low' | 'medium' | 'high';
+
+/**
+ * Priority of an agent when the cost budget is constrained
+ */
+export type AgentPriorityLevel = 'critical' | 'high' | 'medium' | 'low';
+
+/**
+ * Priority of a plugin agent when the cost budget is constrained
+ *
+ * Plugins cannot be critical; only MVP agents always run.
+ */
+export type AgentPluginPriority = Exclude<AgentPriorityLevel, 'critical'>;
+
+/**
+ * LLM output schema of a plugin agent
+ *
+ * Must produce the standard signal fields; plugins typically extend
+ * AgentSignalLLMOutputSchema with a typed metadata object.
+ */
+export type AgentPluginOutputSchema = z.ZodType<z.output<typeof AgentSignalLLMOutputSchema>>;
+
+/**
+ * LangGraph node function of an agent
+ */
+export type AgentNodeFunction = (state: GraphStateType) => Promise<Partial<GraphStateType>>;
+
+/**
+ * Intelligence agent known to the registry
+ */
+export interface AgentDefinition {
+  name: string; // Unique agent name; the graph node is `${name}_agent`
+  description: string;
+  group: AgentGroup;
+  eventTypes: EventType[]; // Market types the agent is selected for
+  costTier: AgentCostTier;
+  costEstimate?: number; // USD per analysis; defaults to the cost tier estimate
+  priority?: AgentPriorityLevel; // Defaults to 'medium'
+  fusionWeight?: number; // Base fusion weight; defaults to the group weight
+}
+
+/**
+ * Custom intelligence agent
+ */
+export interface AgentPlugin extends AgentDefinition {
+  dataRequirements: AgentDataRequirement[]; // All must be available
+  priority?: AgentPluginPriority; // Defaults to 'medium'
+  systemPrompt: string;
+  outputSchema?: AgentPluginOutputSchema; // Defaults to AgentSignalLLMOutputSchema
+  llm?: {
+    preferredProvider: LLMProvider;
+    fallbackProviders?: LLMProvider[];
+  };
+
+  /**
+   * Narrower applicability check within the declared event types
+   */
+  appliesTo?: (mbd: MarketBriefingDocument) => boolean;
+
+  /**
+   * Custom node factory for agents that need more than a prompt (tools,
+   * external feeds). The prompt-based node is used when absent.
+   */
+  createNode?: (config: EngineConfig) => AgentNodeFunction;
+}
+
+/**
+ * Estimated cost per analysis (USD) of each cost tier
+ */
+export const AGENT_COST_TIER_ESTIMATES: Record<AgentCostTier, number> = {
+  low: 0.06,
+  medium: 0.1,
+  high: 0.15,
+};
+
+// ============================================================================
+// Built-in Agents
+// ============================================================================
+
+const ALL_EVENT_TYPES: EventType[] = [
+  'election',
+  'policy',
+  'court',
+  'geopolitical',
+  'economic',
+  'sports',
+  'crypto',
+  'other',
+];
+
+/**
+ * Built-in intelligence agents
+ *
+ * Event types encode which markets each agent is selected for:
+ * - Event intelligence and event scenario agents apply to every market
+ * - Polling applies wherever public opinion or precedent matters (not sports or crypto)
+ * - Sentiment applies where public narrative moves the market (not court or economic)
+ * - Price action applies to continuously traded crypto markets
+ * - Unclassified ('other') markets get every agent
+ *
+ * Cost estimates assume ~2K input and ~500 output tokens per call.
+ */
+export const BUILT_IN_AGENTS: AgentDefinition[] = [
+  // MVP agents (always run)
+  {
+    name: 'market_microstructure',
+    description: 'Order book, spread and liquidity analysis',
+    group: 'mvp',
+    eventTypes: ALL_EVENT_TYPES,
+    costTier: 'medium',
+    costEstimate: 0.1,
+    priority: 'critical',
+  },
+  {
+    name: 'probability_baseline',
+    description: 'Base-rate probability estimate',
+    group: 'mvp',
+    eventTypes: ALL_EVENT_TYPES,
+    costTier: 'low',
+    costEstimate: 0.08,
+    priority: 'critical',
+  },
+  {
+    name: 'risk_assessment',
+    description: 'Resolution and tail risk review',
+    group: 'mvp',
+    eventTypes: ALL_EVENT_TYPES,
+    costTier: 'medium',
+    costEstimate: 0.1,
+    priority: 'critical',
+  },
+
+  // Event intelligence agents (high value)
+  {
+    name: 'breaking_news',
+    description: 'Breaking news relevant to the market',
+    group: 'event_intelligence',
+    eventTypes: ALL_EVENT_TYPES,
+    costTier: 'medium',
+    costEstimate: 0.12,
+    priority: 'high',
+  },
+  {
+    name: 'event_impact',
+    description: 'Impact of scheduled and past events',
+    group: 'event_intelligence',
+    eventTypes: ALL_EVENT_TYPES,
+    costTier: 'medium',
+    costEstimate: 0.12,
+    priority: 'high',
+  },
+
+  // Polling & statistical agents (high value for elections)
+  {
+    name: 'polling_intelligence',
+    description: 'Polls and public opinion',
+    group: 'polling_statistical',
+    eventTypes: ['election', 'policy', 'court', 'geopolitical', 'economic', 'other'],
+    costTier: 'high',
+    costEstimate: 0.15,
+    priority: 'high',
+  },
+  {
+    name: 'historical_pattern',
+    description: 'Historical analogues and precedent',
+    group: 'polling_statistical',
+    eventTypes: ['election', 'policy', 'court', 'geopolitical', 'economic', 'other'],
+    costTier: 'medium',
+    costEstimate: 0.1,
+    priority: 'medium',
+  },
+
+  // Sentiment & narrative agents (can be noisy)
+  {
+    name: 'media_sentiment',
+    description: 'Media coverage sentiment',
+    group: 'sentiment_narrative',
+    eventTypes: ['election', 'policy', 'geopolitical', 'sports', 'crypto', 'other'],
+    costTier: 'medium',
+    costEstimate: 0.1,
+    priority: 'low',
+  },
+  {
+    name: 'social_sentiment',
+    description: 'Social media sentiment',
+    group: 'sentiment_narrative',
+    eventTypes: ['election', 'policy', 'geopolitical', 'sports', 'crypto', 'other'],
+    costTier: 'medium',
+    costEstimate: 0.1,
+    priority: 'low',
+  },
+  {
+    name: 'narrative_velocity',
+    description: 'Speed and spread of emerging narratives',
+    group: 'sentiment_narrative',
+    eventTypes: ['election', 'policy', 'geopolitical', 'sports', 'crypto', 'other'],
+    costTier: 'medium',
+    costEstimate: 0.1,
+    priority: 'low',
+  },
+
+  // Price action agents (market-dependent)
+  {
+    name: 'momentum',
+    description: 'Price momentum',
+    group: 'price_action',
+    eventTypes: ['crypto', 'other'],
+    costTier: 'low',
+    costEstimate: 0.08,
+    priority: 'medium',
+  },
+  {
+    name: 'mean_reversion',
+    description: 'Overreaction and mean reversion',
+    group: 'price_action',
+    eventTypes: ['crypto', 'other'],
+    costTier: 'low',
+    costEstimate: 0.08,
+    priority: 'medium',
+  },
+
+  // Event scenario agents (always considered)
+  {
+    name: 'catalyst',
+    description: 'Upcoming catalysts and their timing',
+    group: 'event_scenario',
+    eventTypes: ALL_EVENT_TYPES,
+    costTier: 'medium',
+    costEstimate: 0.1,
+    priority: 'medium',
+  },
+  {
+    name: 'tail_risk',
+    description: 'Low-probability, high-impact scenarios',
+    group: 'event_scenario',
+    eventTypes: ALL_EVENT_TYPES,
+    costTier: 'medium',
+    costEstimate: 0.1,
+    priority: 'medium',
+  },
+];
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * Registry of built-in and plugin agents
+ */
+export class AgentRegistry {
+  private builtInAgents = new Map<string, AgentDefinition>();
+  private plugins = new Map<string, AgentPlugin>();
+
+  constructor(builtInAgents: AgentDefinition[] = BUILT_IN_AGENTS) {
+    for (const agent of builtInAgents) {
+      this.builtInAgents.set(agent.name, agent);
+    }
+  }
+
+  /**
+   * Register a plugin
+   *
+   * @throws Error if the name is already registered or is not a valid node name
+   */
+  register(plugin: AgentPlugin): void {
+    if (!/^[a-z][a-z0-9_]*$/.test(plugin.name)) {
+      throw new Error(
+        `Invalid agent plugin name "${plugin.name}": use lowercase letters, digits and underscores`
+      );
+    }
+    if (this.plugins.has(plugin.name)) {
+      throw new Error(`Agent plugin "${plugin.name}" is already registered`);
+    }
+    if (this.builtInAgents.has(plugin.name)) {
+      throw new Error(`Agent plugin "${plugin.name}" conflicts with a built-in agent`);
+    }
+
+    this.plugins.set(plugin.name, plugin);
+  }
+
+  unregister(name: string): boolean {
+    return this.plugins.delete(name);
+  }
+
+  get(name: string): AgentPlugin | undefined {
+    return this.plugins.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.plugins.has(name);
+  }
+
+  /**
+   * Registered plugins in registration order
+   */
+  list(): AgentPlugin[] {
+    return [...this.plugins.values()];
+  }
+
+  /**
+   * Remove all plugins (built-in agents stay registered)
+   */
+  clear(): void {
+    this.plugins.clear();
+  }
+
+  /**
+   * Built-in agent or plugin definition
+   */
+  getAgent(name: string): AgentDefinition | undefined {
+    return this.builtInAgents.get(name) ?? this.plugins.get(name);
+  }
+
+  /**
+   * Built-in agents, optionally of one group, in definition order
+   */
+  listBuiltIn(group?: AgentGroup): AgentDefinition[] {
+    return [...this.builtInAgents.values()].filter((agent) => !group || agent.group === group);
+  }
+}
+
+/**
+ * Registry read by the workflow, agent selection, fusion and cost model
+ */
+export const defaultAgentRegistry = new AgentRegistry();
+
+export function registerAgentPlugin(plugin: AgentPlugin): void {
+  defaultAgentRegistry.register(plugin);
+}
+
+export function getAgentPlugin(name: string): AgentPlugin | undefined {
+  return defaultAgentRegistry.get(name);
+}
+
+export function getAgentDefinition(name: string): AgentDefinition | undefined {
+  return defaultAgentRegistry.getAgent(name);
+}
+
+/**
+ * Names of the built-in agents of a group
+ */
+export function getBuiltInAgentNames(group: AgentGroup): string[] {
+  return defaultAgentRegistry.listBuiltIn(group).map((agent) => agent.name);
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Plugins enabled by configuration
+ */
+export function getEnabledAgentPlugins(
+  config: EngineConfig,
+  registry: AgentRegistry = defaultAgentRegistry
+): AgentPlugin[] {
+  if (config.agentPlugins?.enabled === false) {
+    return [];
+  }
+
+  const disabled = new Set(config.agentPlugins?.disabled ?? []);
+  return registry.list().filter((plugin) => !disabled.has(plugin.name));
+}
+
+/**
+ * Estimated cost of a registered agent, or undefined for unregistered agents
+ */
+export function getAgentCost(
+  agentName: string,
+  registry: AgentRegistry = defaultAgentRegistry
+): number | undefined {
+  const agent = registry.getAgent(agentName);
+  return agent ? (agent.costEstimate ?? AGENT_COST_TIER_ESTIMATES[agent.costTier]) : undefined;
+}
@@ -0,0 +1,176 @@
+/**
+ * Unit tests for the budget-aware analysis planner
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  AnalysisBudgetPlanner,
+  planAnalyses,
+  scoreValueOfInformation,
+  startOfUtcDay,
+  type AnalysisCandidate,
+  type AnalysisPlannerOptions,
+  type AnalysisSpendStore,
+} from './analysis-planner.js';
+import { recordUsage } from './cost-optimization.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 9, 1, 12);
+
+const coreAgents = ['market_microstructure', 'probability_baseline', 'risk_assessment']; // $0.28
+const advancedAgents = ['breaking_news', 'polling_intelligence', 'media_sentiment']; // $0.37
+
+const createCandidate = (
+  conditionId: string,
+  overrides: Partial<AnalysisCandidate> = {}
+): AnalysisCandidate => ({
+  conditionId,
+  question: `Market ${conditionId}?`,
+  liquidityScore: 8,
+  expiryTimestamp: NOW + 10 * DAY,
+  edgeHistory: [0.1],
+  agents: advancedAgents,
+  ...overrides,
+});
+
+const options: AnalysisPlannerOptions = {
+  dailyBudget: 2,
+  minValueOfInformation: 0.3,
+  coreAgents,
+};
+
+const createStore = (spend = 0): AnalysisSpendStore => ({
+  recordAnalysisSpend: vi.fn().mockResolvedValue(undefined),
+  getAnalysisSpend: vi.fn().mockResolvedValue(spend),
+});
+
+describe('Analysis Planner', () => {
+  describe('scoreValueOfInformation', () => {
+    it('should favor liquid markets with past edge that resolve soon', () => {
+      const strong = scoreValueOfInformation(createCandidate('a', { liquidityScore: 10 }), NOW);
+      const illiquid = scoreValueOfInformation(createCandidate('b', { liquidityScore: 1 }), NOW);
+      const noEdge = scoreValueOfInformation(createCandidate('c', { edgeHistory: [0, 0.01] }), NOW);
+      const distant = scoreValueOfInformation(
+        createCandidate('d', { expiryTimestamp: NOW + 300 * DAY }),
+        NOW
+      );
+
+      expect(strong).toBeCloseTo(1);
+      expect(illiquid).toBeLessThan(strong);
+      expect(noEdge).toBeLessThan(strong);
+      expect(distant).toBeLessThan(strong);
+    });
+
+    it('should treat unknown edge history and expiry as neutral', () => {
+      const score = scoreValueOfInformation(
+        createCandidate('a', { liquidityScore: 5, edgeHistory: [], expiryTimestamp: undefined }),
+        NOW
+      );
+
+      expect(score).toBeCloseTo(0.5);
+    });
+  });
+
+  describe('planAnalyses', () => {
+    it('should plan the most valuable markets first and scale their agent sets', () => {
+      const plan = planAnalyses(
+        [
+          createCandidate('weak', { liquidityScore: 3, edgeHistory: [0.02] }),
+          createCandidate('strong', { liquidityScore: 10 }),
+          createCandidate('noise', {
+            liquidityScore: 0,
+            edgeHistory: [0],
+            expiryTimestamp: NOW - 1,
+          }),
+        ],
+        options,
+        0,
+        5,
+        NOW
+      );
+
+      expect(plan.planned.map((p) => p.conditionId)).toEqual(['strong', 'weak']);
+      expect(plan.planned[0].agents).toEqual([...coreAgents, ...advancedAgents]);
+      expect(plan.planned[1].agents.length).toBeLessThan(plan.planned[0].agents.length);
+      expect(plan.skipped).toMatchObject([{ conditionId: 'noise' }]);
+    });
+
+    it('should stop planning when the daily budget is exhausted', () => {
+      const candidates = ['a', 'b', 'c', 'd'].map((id) => createCandidate(id));
+
+      const plan = planAnalyses(candidates, options, 0.9, 10, NOW);
+
+      expect(plan.plannedCost).toBeLessThanOrEqual(options.dailyBudget - 0.9);
+      expect(plan.planned.length).toBeGreaterThan(0);
+      expect(plan.skipped.some((s) => s.reason === 'Daily budget exhausted')).toBe(true);
+    });
+
+    it('should respect the per-cycle market limit', () => {
+      const plan = planAnalyses(
+        [createCandidate('a'), createCandidate('b')],
+        { ...options, dailyBudget: 100 },
+        0,
+        1,
+        NOW
+      );
+
+      expect(plan.planned).toHaveLength(1);
+      expect(plan.skipped[0].reason).toBe('Cycle market limit reached');
+    });
+  });
+
+  describe('AnalysisBudgetPlanner', () => {
+    it('should resume the day from persisted spend', async () => {
+      const store = createStore(1.5);
+      const planner = new AnalysisBudgetPlanner(store, options);
+
+      await planner.refresh(NOW);
+
+      expect(store.getAnalysisSpend).toHaveBeenCalledWith(startOfUtcDay(NOW));
+      expect(planner.getRemainingBudget()).toBeCloseTo(0.5);
+      expect(planner.plan([createCandidate('a')], 3, NOW).planned).toHaveLength(1);
+      expect(planner.getStatus().lastPlan?.spentToday).toBe(1.5);
+    });
+
+    it('should count actual usage cost over the estimate and persist it', async () => {
+      const store = createStore();
+      const planner = new AnalysisBudgetPlanner(store, options);
+      const usage = [
+        recordUsage({ provider: 'openai', modelName: 'gpt-4', inputTokens: 1000, outputTokens: 0 }),
+      ];
+
+      await planner.recordSpend({ conditionId: 'a', agents: [], estimatedCost: 0.5 }, usage, NOW);
+      await planner.recordSpend(
+        { conditionId: 'b', agents: [], estimatedCost: 0.5 },
+        undefined,
+        NOW
+      );
+
+      expect(planner.getStatus().spentToday).toBeCloseTo(usage[0].totalCost + 0.5);
+      expect(store.recordAnalysisSpend).toHaveBeenCalledWith(
+        expect.objectContaining({ conditionId: 'a', actualCost: usage[0].totalCost })
+      );
+    });
+
+    it('should reset spend at the start of a new UTC day', async () => {
+      const planner = new AnalysisBudgetPlanner(createStore(), options);
+
+      await planner.recordSpend({ conditionId: 'a', agents: [], estimatedCost: 1 }, undefined, NOW);
+      planner.plan([], 3, NOW + DAY);
+
+      expect(planner.getStatus().spentToday).toBe(0);
+    });
+
+    it('should keep the in-memory spend when the ledger is unavailable', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const store = createStore();
+      vi.mocked(store.getAnalysisSpend).mockRejectedValue(new Error('offline'));
+      const planner = new AnalysisBudgetPlanner(store, options);
+
+      await planner.recordSpend({ conditionId: 'a', agents: [], estimatedCost: 1 }, undefined, NOW);
+      await planner.refresh(NOW);
+
+      expect(planner.getStatus().spentToday).toBe(1);
+    });
+  });
+});
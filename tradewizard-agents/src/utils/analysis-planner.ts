@@ -0,0 +1,369 @@
+/**
+ * Budget-Aware Analysis Planner
+ *
+ * Spreads a daily LLM budget across the markets the monitor could analyze.
+ * Each candidate is scored by the expected value of information of analyzing
+ * it (liquidity, edge found by previous analyses, time to expiry), then
+ * markets are planned greedily by that score. Each planned market gets an
+ * agent budget proportional to its score, so high-value markets run the full
+ * agent set while marginal ones run the core agents only.
+ *
+ * Spend is persisted per analysis so a restart does not reset the day's
+ * budget.
+ */
+
+import type { EngineConfig } from '../config/index.js';
+import { estimateAgentCost, filterAgentsByCost, type UsageRecord } from './cost-optimization.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Market the planner may schedule for analysis
+ */
+export interface AnalysisCandidate {
+  conditionId: string;
+  question: string;
+  liquidityScore: number; // 0-10
+  expiryTimestamp?: number;
+  edgeHistory: number[]; // Edges of previous recommendations, newest first
+  agents: string[]; // Non-core agents the workflow could run for this market
+}
+
+/**
+ * Market scheduled for analysis with its agent set
+ */
+export interface PlannedAnalysis {
+  conditionId: string;
+  question: string;
+  agents: string[]; // Core agents plus the advanced agents that fit the agent budget
+  advancedBudget: number; // USD available to non-core agents
+  estimatedCost: number;
+  valueOfInformation: number; // 0-1
+}
+
+/**
+ * Candidate the planner decided not to analyze
+ */
+export interface SkippedAnalysis {
+  conditionId: string;
+  question: string;
+  valueOfInformation: number;
+  reason: string;
+}
+
+/**
+ * Planner decisions for one monitor cycle
+ */
+export interface AnalysisPlan {
+  createdAt: number;
+  dailyBudget: number;
+  spentToday: number;
+  remainingBudget: number; // After the planned analyses
+  plannedCost: number;
+  planned: PlannedAnalysis[];
+  skipped: SkippedAnalysis[];
+}
+
+/**
+ * Spend of one analysis
+ */
+export interface AnalysisSpendEntry {
+  conditionId: string;
+  agents: string[];
+  estimatedCost: number;
+  actualCost?: number; // From usage records when available
+  valueOfInformation?: number;
+  spentAt: number;
+}
+
+/**
+ * Persistent spend ledger
+ */
+export interface AnalysisSpendStore {
+  recordAnalysisSpend(entry: AnalysisSpendEntry): Promise<void>;
+  getAnalysisSpend(since: Date): Promise<number>;
+}
+
+/**
+ * Budget status exposed in monitor health
+ */
+export interface AnalysisBudgetStatus {
+  dailyBudget: number;
+  spentToday: number;
+  remainingBudget: number;
+  lastPlan: AnalysisPlan | null;
+}
+
+/**
+ * Planner options
+ */
+export interface AnalysisPlannerOptions {
+  dailyBudget: number; // USD per UTC day
+  minValueOfInformation: number; // Candidates scoring below this are skipped
+  coreAgents: string[]; // Agents every analysis runs
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Edge at which previous analyses count as maximally informative
+const FULL_VALUE_EDGE = 0.1;
+
+// Markets resolving within this many days get full time value
+const FULL_VALUE_DAYS = 30;
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Expected value of information of analyzing a market (0-1)
+ *
+ * Liquid markets can absorb a position, markets where previous analyses found
+ * an edge tend to keep offering one, and markets resolving soon turn an edge
+ * into profit sooner. Unknown edge history and expiry score as neutral 0.5.
+ */
+export function scoreValueOfInformation(
+  candidate: AnalysisCandidate,
+  now: number = Date.now()
+): number {
+  const liquidity = Math.max(0, Math.min(1, candidate.liquidityScore / 10));
+
+  const recentEdges = candidate.edgeHistory.slice(0, 3);
+  const edge =
+    recentEdges.length === 0
+      ? 0.5
+      : Math.min(
+          1,
+          recentEdges.reduce((sum, value) => sum + Math.abs(value), 0) /
+            recentEdges.length /
+            FULL_VALUE_EDGE
+        );
+
+  let time = 0.5;
+  if (candidate.expiryTimestamp !== undefined) {
+    const daysLeft = (candidate.expiryTimestamp - now) / DAY_MS;
+    time = daysLeft <= 0 ? 0 : daysLeft <= FULL_VALUE_DAYS ? 1 : FULL_VALUE_DAYS / daysLeft;
+  }
+
+  return 0.4 * liquidity + 0.35 * edge + 0.25 * time;
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * Decide which markets to analyze and with which agents
+ *
+ * @param candidates - Markets that could be analyzed this cycle
+ * @param options - Planner options
+ * @param spentToday - Spend so far in the current UTC day
+ * @param maxMarkets - Maximum analyses this cycle
+ */
+export function planAnalyses(
+  candidates: AnalysisCandidate[],
+  options: AnalysisPlannerOptions,
+  spentToday: number,
+  maxMarkets: number,
+  now: number = Date.now()
+): AnalysisPlan {
+  const coreCost = estimateAgentCost(options.coreAgents);
+  const scored = candidates
+    .map((candidate) => ({ candidate, value: scoreValueOfInformation(candidate, now) }))
+    .sort((a, b) => b.value - a.value);
+
+  const planned: PlannedAnalysis[] = [];
+  const skipped: SkippedAnalysis[] = [];
+  let remaining = Math.max(0, options.dailyBudget - spentToday);
+
+  for (const { candidate, value } of scored) {
+    const skip = (reason: string): void => {
+      skipped.push({
+        conditionId: candidate.conditionId,
+        question: candidate.question,
+        valueOfInformation: value,
+        reason,
+      });
+    };
+
+    if (value < options.minValueOfInformation) {
+      skip(`Value of information ${value.toFixed(2)} below ${options.minValueOfInformation}`);
+      continue;
+    }
+    if (planned.length >= maxMarkets) {
+      skip('Cycle market limit reached');
+      continue;
+    }
+    if (remaining < coreCost) {
+      skip('Daily budget exhausted');
+      continue;
+    }
+
+    const advancedBudget = Math.min(
+      value * estimateAgentCost(candidate.agents),
+      remaining - coreCost
+    );
+    const selection = filterAgentsByCost(candidate.agents, advancedBudget, true);
+    const estimatedCost = coreCost + selection.estimatedCost;
+
+    planned.push({
+      conditionId: candidate.conditionId,
+      question: candidate.question,
+      agents: [...options.coreAgents, ...selection.selectedAgents],
+      advancedBudget,
+      estimatedCost,
+      valueOfInformation: value,
+    });
+    remaining -= estimatedCost;
+  }
+
+  const plannedCost = planned.reduce((sum, analysis) => sum + analysis.estimatedCost, 0);
+
+  return {
+    createdAt: now,
+    dailyBudget: options.dailyBudget,
+    spentToday,
+    remainingBudget: Math.max(0, options.dailyBudget - spentToday - plannedCost),
+    plannedCost,
+    planned,
+    skipped,
+  };
+}
+
+/**
+ * Total cost of a set of LLM usage records
+ */
+export function sumUsageCost(records: UsageRecord[]): number {
+  return records.reduce((sum, record) => sum + record.totalCost, 0);
+}
+
+/**
+ * Start of the UTC day containing `now`
+ */
+export function startOfUtcDay(now: number = Date.now()): Date {
+  return new Date(Math.floor(now / DAY_MS) * DAY_MS);
+}
+
+// ============================================================================
+// Planner
+// ============================================================================
+
+/**
+ * Stateful planner that tracks the day's spend against a persistent ledger
+ */
+export class AnalysisBudgetPlanner {
+  private spentToday = 0;
+  private dayStart = startOfUtcDay().getTime();
+  private lastPlan: AnalysisPlan | null = null;
+
+  constructor(
+    private store: AnalysisSpendStore,
+    private options: AnalysisPlannerOptions
+  ) {}
+
+  /**
+   * Reload the day's spend from the ledger
+   *
+   * Keeps the in-memory figure if the ledger is unavailable.
+   */
+  async refresh(now: number = Date.now()): Promise<void> {
+    this.rollDay(now);
+
+    try {
+      this.spentToday = await this.store.getAnalysisSpend(new Date(this.dayStart));
+    } catch (error) {
+      console.warn('[AnalysisPlanner] Failed to load spend, using in-memory total:', error);
+    }
+  }
+
+  /**
+   * Plan this cycle's analyses against the remaining daily budget
+   */
+  plan(
+    candidates: AnalysisCandidate[],
+    maxMarkets: number,
+    now: number = Date.now()
+  ): AnalysisPlan {
+    this.rollDay(now);
+    this.lastPlan = planAnalyses(candidates, this.options, this.spentToday, maxMarkets, now);
+    return this.lastPlan;
+  }
+
+  /**
+   * Record the spend of one analysis
+   *
+   * @param usage - Actual cost, or the usage records it is summed from; the
+   *   estimate is counted when absent
+   */
+  async recordSpend(
+    entry: Omit<AnalysisSpendEntry, 'actualCost' | 'spentAt'>,
+    usage?: number | UsageRecord[],
+    now: number = Date.now()
+  ): Promise<void> {
+    this.rollDay(now);
+
+    const actualCost = Array.isArray(usage)
+      ? usage.length > 0
+        ? sumUsageCost(usage)
+        : undefined
+      : usage;
+    this.spentToday += actualCost ?? entry.estimatedCost;
+
+    try {
+      await this.store.recordAnalysisSpend({ ...entry, actualCost, spentAt: now });
+    } catch (error) {
+      console.warn('[AnalysisPlanner] Failed to persist spend:', error);
+    }
+  }
+
+  /**
+   * Estimated cost of an analysis the planner did not schedule
+   *
+   * @param maxAdvancedCost - Configured per-analysis budget for non-core agents
+   */
+  estimateUnplannedCost(maxAdvancedCost: number): number {
+    return estimateAgentCost(this.options.coreAgents) + maxAdvancedCost;
+  }
+
+  canAfford(cost: number): boolean {
+    return this.getRemainingBudget() >= cost;
+  }
+
+  getRemainingBudget(): number {
+    return Math.max(0, this.options.dailyBudget - this.spentToday);
+  }
+
+  getStatus(): AnalysisBudgetStatus {
+    return {
+      dailyBudget: this.options.dailyBudget,
+      spentToday: this.spentToday,
+      remainingBudget: this.getRemainingBudget(),
+      lastPlan: this.lastPlan,
+    };
+  }
+
+  private rollDay(now: number): void {
+    const dayStart = startOfUtcDay(now).getTime();
+    if (dayStart !== this.dayStart) {
+      this.dayStart = dayStart;
+      this.spentToday = 0;
+    }
+  }
+}
+
+/**
+ * Create a planner from engine configuration
+ */
+export function createAnalysisBudgetPlanner(
+  store: AnalysisSpendStore,
+  coreAgents: string[],
+  config?: EngineConfig['budget']
+): AnalysisBudgetPlanner {
+  return new AnalysisBudgetPlanner(store, {
+    dailyBudget: config?.dailyBudgetUsd ?? 25,
+    minValueOfInformation: config?.minValueOfInformation ?? 0.2,
+    coreAgents,
+  });
+}
@@ -0,0 +1,285 @@
+/**
+ * Unit tests for the cross-market arbitrage scanner
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  ArbitrageScanner,
+  DEFAULT_ARBITRAGE_SCAN_OPTIONS,
+  detectImpliedConstraintViolations,
+  detectStalePriceGaps,
+  detectSumOfOutcomeViolations,
+  findImplicationPairs,
+  rankArbitrageOpportunities,
+  sizeBundle,
+} from './arbitrage-scanner.js';
+import type { PolymarketEvent, PolymarketMarket } from './enhanced-event-polymarket-client.js';
+import type { PolymarketClient } from './polymarket-client.js';
+import type { ArbitrageOpportunity, OrderBookSnapshot } from '../models/types.js';
+
+const createMarket = (
+  id: string,
+  question: string,
+  bid: number,
+  ask: number,
+  overrides: Partial<PolymarketMarket> = {}
+) =>
+  ({
+    id,
+    conditionId: `0x${id}`,
+    question,
+    active: true,
+    closed: false,
+    outcomePrices: JSON.stringify([String((bid + ask) / 2), String(1 - (bid + ask) / 2)]),
+    bestBid: bid,
+    bestAsk: ask,
+    clobTokenIds: JSON.stringify([`token-${id}`, `token-${id}-no`]),
+    ...overrides,
+  }) as PolymarketMarket;
+
+const createEvent = (
+  id: string,
+  markets: PolymarketMarket[],
+  overrides: Partial<PolymarketEvent> = {}
+) =>
+  ({
+    id,
+    title: `Event ${id}`,
+    endDate: '2026-12-31T00:00:00Z',
+    negRisk: false,
+    negRiskAugmented: false,
+    markets,
+    ...overrides,
+  }) as PolymarketEvent;
+
+const options = DEFAULT_ARBITRAGE_SCAN_OPTIONS;
+
+describe('Arbitrage Scanner', () => {
+  describe('detectSumOfOutcomeViolations', () => {
+    it('should flag a YES bundle that costs less than $1', () => {
+      const event = createEvent(
+        'primary',
+        [
+          createMarket('a', 'Will A win?', 0.38, 0.4),
+          createMarket('b', 'Will B win?', 0.28, 0.3),
+          createMarket('c', 'Will C win?', 0.18, 0.2),
+        ],
+        { negRisk: true }
+      );
+
+      const [candidate] = detectSumOfOutcomeViolations(event, 0.01);
+
+      expect(candidate.legs.map((leg) => leg.side)).toEqual(['YES', 'YES', 'YES']);
+      expect(candidate.bundleValue).toBe(1);
+      expect(candidate.edge).toBeCloseTo(0.1);
+    });
+
+    it('should flag a NO bundle when bids sum above one', () => {
+      const event = createEvent(
+        'primary',
+        [createMarket('a', 'Will A win?', 0.6, 0.62), createMarket('b', 'Will B win?', 0.5, 0.52)],
+        { negRisk: true }
+      );
+
+      const [candidate] = detectSumOfOutcomeViolations(event, 0.01);
+
+      expect(candidate.legs.map((leg) => leg.side)).toEqual(['NO', 'NO']);
+      expect(candidate.bundleValue).toBe(1);
+      expect(candidate.edge).toBeCloseTo(0.1);
+    });
+
+    it('should ignore events that are not neg-risk or could gain outcomes', () => {
+      const markets = [
+        createMarket('a', 'Will A win?', 0.38, 0.4),
+        createMarket('b', 'Will B win?', 0.28, 0.3),
+      ];
+
+      expect(detectSumOfOutcomeViolations(createEvent('plain', markets), 0.01)).toEqual([]);
+      expect(
+        detectSumOfOutcomeViolations(
+          createEvent('augmented', markets, { negRisk: true, negRiskAugmented: true }),
+          0.01
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe('implied constraints', () => {
+    const presidency = createMarket(
+      'pres',
+      'Will Jane Doe win the 2028 US Presidential Election?',
+      0.3,
+      0.32
+    );
+    const nomination = createMarket(
+      'nom',
+      'Will Jane Doe win the 2028 Democratic presidential nomination?',
+      0.24,
+      0.25
+    );
+
+    it('should pair markets by subject across events', () => {
+      const pairs = findImplicationPairs([
+        createEvent('general', [presidency]),
+        createEvent('primary', [
+          nomination,
+          createMarket('other', 'Will John Roe win the 2028 Democratic nomination?', 0.1, 0.11),
+        ]),
+      ]);
+
+      expect(pairs).toHaveLength(1);
+      expect(pairs[0].stronger.id).toBe('pres');
+      expect(pairs[0].weaker.id).toBe('nom');
+    });
+
+    it('should pair deadline ladders within an event', () => {
+      const pairs = findImplicationPairs([
+        createEvent('ceasefire', [
+          createMarket('jun', 'Ceasefire by June 30?', 0.2, 0.22),
+          createMarket('dec', 'Ceasefire by December 31?', 0.4, 0.42),
+        ]),
+      ]);
+
+      expect(pairs).toHaveLength(1);
+      expect(pairs[0].stronger.id).toBe('jun');
+    });
+
+    it('should flag the implying market priced above the implied one', () => {
+      const pairs = findImplicationPairs([createEvent('all', [presidency, nomination])]);
+
+      const [candidate] = detectImpliedConstraintViolations(pairs, 0.01);
+
+      expect(candidate.legs).toMatchObject([
+        { marketId: 'nom', side: 'YES', price: 0.25 },
+        { marketId: 'pres', side: 'NO', price: 0.7 },
+      ]);
+      expect(candidate.edge).toBeCloseTo(0.05);
+    });
+  });
+
+  describe('detectStalePriceGaps', () => {
+    it('should flag a related market that did not follow a large move', () => {
+      const pairs = findImplicationPairs([
+        createEvent('ceasefire', [
+          createMarket('jun', 'Ceasefire by June 30?', 0.34, 0.36, { oneDayPriceChange: 0.15 }),
+          createMarket('dec', 'Ceasefire by December 31?', 0.39, 0.41, {
+            oneDayPriceChange: 0.01,
+          }),
+        ]),
+      ]);
+
+      const [candidate] = detectStalePriceGaps(pairs, options);
+
+      expect(candidate.type).toBe('stale_price');
+      expect(candidate.legs).toMatchObject([{ marketId: 'dec', side: 'YES', price: 0.41 }]);
+      expect(candidate.bundleValue).toBeCloseTo(0.4 + 0.075);
+      expect(candidate.riskLevel).toBe('high');
+    });
+  });
+
+  describe('sizeBundle', () => {
+    it('should buy bundles while the marginal cost keeps the edge', () => {
+      const result = sizeBundle(
+        [
+          [
+            { price: 0.4, size: 100 },
+            { price: 0.45, size: 100 },
+          ],
+          [
+            { price: 0.5, size: 50 },
+            { price: 0.56, size: 500 },
+          ],
+        ],
+        1,
+        0.02
+      );
+
+      // 50 @ 0.90, 50 @ 0.96, then 0.45 + 0.56 = 1.01 stops
+      expect(result.shares).toBeCloseTo(100);
+      expect(result.cost).toBeCloseTo(50 * 0.9 + 50 * 0.96);
+    });
+  });
+
+  describe('rankArbitrageOpportunities', () => {
+    it('should rank sized opportunities by risk-weighted profit', () => {
+      const base = { edge: 0.05, executableSize: 100 } as ArbitrageOpportunity;
+      const ranked = rankArbitrageOpportunities([
+        { ...base, eventId: 'stale', riskLevel: 'high', expectedProfit: 20 },
+        { ...base, eventId: 'unsized', riskLevel: 'low', expectedProfit: 0, executableSize: 0 },
+        { ...base, eventId: 'riskless', riskLevel: 'low', expectedProfit: 10 },
+      ]);
+
+      expect(ranked.map((o) => [o.eventId, o.rank])).toEqual([
+        ['riskless', 1],
+        ['stale', 2],
+        ['unsized', 3],
+      ]);
+    });
+  });
+
+  describe('ArbitrageScanner', () => {
+    const books: Record<string, OrderBookSnapshot> = {
+      'token-a': {
+        tokenId: 'token-a',
+        bids: [{ price: 0.38, size: 1000 }],
+        asks: [
+          { price: 0.4, size: 100 },
+          { price: 0.5, size: 1000 },
+        ],
+        timestamp: 0,
+      },
+      'token-b': {
+        tokenId: 'token-b',
+        bids: [{ price: 0.48, size: 1000 }],
+        asks: [{ price: 0.5, size: 1000 }],
+        timestamp: 0,
+      },
+    };
+
+    it('should size candidates against the order books and drop unexecutable ones', async () => {
+      const client = {
+        discoverPoliticalEvents: vi
+          .fn()
+          .mockResolvedValue([
+            createEvent(
+              'primary',
+              [
+                createMarket('a', 'Will A win?', 0.38, 0.4),
+                createMarket('b', 'Will B win?', 0.48, 0.5),
+              ],
+              { negRisk: true }
+            ),
+          ]),
+        fetchOrderBook: vi.fn(async (tokenId: string) => books[tokenId]),
+      } as unknown as PolymarketClient;
+
+      const [opportunity] = await new ArbitrageScanner(client, options).scan();
+
+      expect(opportunity.rank).toBe(1);
+      expect(opportunity.executableSize).toBeCloseTo(90);
+      expect(opportunity.expectedProfit).toBeCloseTo(10);
+      expect(opportunity.analysis.liquidityRequirement).toBeCloseTo(90);
+    });
+
+    it('should keep candidates with unknown size when a book is unavailable', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const client = {
+        fetchOrderBook: vi.fn().mockRejectedValue(new Error('CLOB unavailable')),
+      } as unknown as PolymarketClient;
+
+      const [opportunity] = await new ArbitrageScanner(client, options).scanEvents([
+        createEvent(
+          'primary',
+          [
+            createMarket('a', 'Will A win?', 0.38, 0.4),
+            createMarket('b', 'Will B win?', 0.48, 0.5),
+          ],
+          { negRisk: true }
+        ),
+      ]);
+
+      expect(opportunity.executableSize).toBe(0);
+      expect(opportunity.analysis.riskFactors).toContain('Order book unavailable; size unknown');
+    });
+  });
+});
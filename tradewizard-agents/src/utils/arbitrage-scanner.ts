@@ -0,0 +1,648 @@
+/**
+ * Cross-Market Arbitrage Scanner
+ *
+ * Scans discovered events for prices that are inconsistent across markets:
+ * - Sum-of-outcomes violations in mutually exclusive (neg-risk) outcome sets
+ * - Logically implied constraints, e.g. "wins the presidency" can never be
+ *   more likely than "wins the nomination", and an earlier deadline can never
+ *   be more likely than a later one
+ * - Stale-price gaps, where a related market has not followed a large move
+ *
+ * Candidates are detected from Gamma API quotes, then sized by walking the
+ * CLOB order books of every leg, so each opportunity carries the notional
+ * that can actually be executed while the edge holds.
+ */
+
+import type { EngineConfig } from '../config/index.js';
+import type {
+  ArbitrageLeg,
+  ArbitrageOpportunity,
+  ArbitrageOpportunityType,
+  OrderBookLevel,
+} from '../models/types.js';
+import type { PolymarketEvent, PolymarketMarket } from './enhanced-event-polymarket-client.js';
+import type { PolymarketClient } from './polymarket-client.js';
+import { getBuyLevels, parseYesTokenId } from './order-book.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Scanner options
+ */
+export interface ArbitrageScanOptions {
+  maxEvents: number; // Events pulled from discovery per scan
+  minEdge: number; // Minimum edge per bundle (USD per share) to report
+  staleMoveThreshold: number; // 24h move that counts as a large move
+  staleMaxMove: number; // 24h move at or below which a related market counts as stale
+}
+
+/**
+ * Logical implication between two kinds of market: the stronger market
+ * resolving YES implies the weaker one resolves YES for the same subject
+ */
+export interface ImpliedConstraintRule {
+  name: string;
+  stronger: RegExp;
+  weaker: RegExp;
+}
+
+/**
+ * Pair of markets where `stronger` YES implies `weaker` YES
+ */
+interface ImplicationPair {
+  rule: string;
+  event: PolymarketEvent;
+  stronger: PolymarketMarket;
+  weaker: PolymarketMarket;
+}
+
+/**
+ * Opportunity before order book sizing
+ */
+type ArbitrageCandidate = Omit<ArbitrageOpportunity, 'executableSize' | 'expectedProfit' | 'rank'>;
+
+export const DEFAULT_ARBITRAGE_SCAN_OPTIONS: ArbitrageScanOptions = {
+  maxEvents: 50,
+  minEdge: 0.01,
+  staleMoveThreshold: 0.1,
+  staleMaxMove: 0.02,
+};
+
+/**
+ * Built-in implication rules
+ */
+export const DEFAULT_IMPLIED_CONSTRAINT_RULES: ImpliedConstraintRule[] = [
+  {
+    name: 'presidency_implies_nomination',
+    stronger: /\bwin the (?:\d{4} )?(?:US |U\.S\. )?presiden(?:tial election|cy)\b/i,
+    weaker: /\bwin the (?:\d{4} )?(?:[a-z]+ )?(?:presidential )?nomination\b/i,
+  },
+  {
+    name: 'general_election_implies_primary',
+    stronger:
+      /\bwin the (?:\d{4} )?(?:[a-z]+ )?(?:senate|house|governor(?:ship)?|gubernatorial) (?:general )?election\b/i,
+    weaker:
+      /\bwin the (?:\d{4} )?(?:[a-z]+ )?(?:senate|house|governor(?:ship)?|gubernatorial) primary\b/i,
+  },
+];
+
+// ============================================================================
+// Quotes
+// ============================================================================
+
+/**
+ * Best bid and ask for a market's YES token
+ *
+ * Falls back to the Gamma outcome price on both sides when the market has no
+ * quotes; order book sizing filters out anything that is not executable.
+ */
+function getQuote(market: PolymarketMarket): { bid: number; ask: number } | null {
+  if (market.bestBid !== undefined && market.bestAsk !== undefined && market.bestAsk > 0) {
+    return { bid: market.bestBid, ask: market.bestAsk };
+  }
+
+  try {
+    const price = Number((JSON.parse(market.outcomePrices || '[]') as unknown[])[0]);
+    return Number.isFinite(price) && price > 0 && price < 1 ? { bid: price, ask: price } : null;
+  } catch {
+    return null;
+  }
+}
+
+function isOpen(market: PolymarketMarket): boolean {
+  return market.active && !market.closed;
+}
+
+function createLeg(market: PolymarketMarket, side: 'YES' | 'NO', price: number): ArbitrageLeg {
+  return {
+    marketId: market.id,
+    conditionId: market.conditionId,
+    question: market.question,
+    side,
+    price,
+  };
+}
+
+function getExecutionComplexity(legs: number): 'low' | 'medium' | 'high' {
+  if (legs <= 2) return 'low';
+  if (legs <= 5) return 'medium';
+  return 'high';
+}
+
+function createCandidate(
+  type: ArbitrageOpportunityType,
+  event: PolymarketEvent,
+  legs: ArbitrageLeg[],
+  bundleValue: number,
+  description: string,
+  riskFactors: string[],
+  riskLevel: ArbitrageOpportunity['riskLevel'],
+  timeWindow: string
+): ArbitrageCandidate {
+  const cost = legs.reduce((sum, leg) => sum + leg.price, 0);
+  const edge = bundleValue - cost;
+
+  return {
+    type,
+    eventId: event.id,
+    eventTitle: event.title,
+    legs,
+    bundleValue,
+    edge,
+    riskLevel,
+    description,
+    analysis: {
+      priceDiscrepancy: edge,
+      expectedReturn: cost > 0 ? edge / cost : 0,
+      riskFactors,
+      executionComplexity: getExecutionComplexity(legs.length),
+      timeWindow,
+      liquidityRequirement: 0,
+    },
+    detectedAt: Date.now(),
+  };
+}
+
+// ============================================================================
+// Detectors
+// ============================================================================
+
+/**
+ * Detect sum-of-outcomes violations in a neg-risk event
+ *
+ * Exactly one outcome of a neg-risk event resolves YES, so buying YES on
+ * every outcome pays 1 and buying NO on every outcome pays n - 1. Either
+ * bundle is an arbitrage when it costs less than it pays.
+ *
+ * @param event - Event with nested markets
+ * @param minEdge - Minimum edge per bundle
+ * @returns Candidates (at most one per bundle direction)
+ */
+export function detectSumOfOutcomeViolations(
+  event: PolymarketEvent,
+  minEdge: number
+): ArbitrageCandidate[] {
+  if (!event.negRisk) return [];
+
+  const quoted = (event.markets || [])
+    .filter(isOpen)
+    .map((market) => ({ market, quote: getQuote(market) }))
+    .filter(
+      (entry): entry is { market: PolymarketMarket; quote: { bid: number; ask: number } } =>
+        entry.quote !== null
+    );
+  if (quoted.length < 2) return [];
+
+  const candidates: ArbitrageCandidate[] = [];
+  const askSum = quoted.reduce((sum, { quote }) => sum + quote.ask, 0);
+  const bidSum = quoted.reduce((sum, { quote }) => sum + quote.bid, 0);
+
+  // Augmented neg-risk events can add outcomes later, so the listed set may
+  // not be exhaustive and the YES bundle is not guaranteed to pay out
+  if (!event.negRiskAugmented && 1 - askSum >= minEdge) {
+    candidates.push(
+      createCandidate(
+        'sum_of_outcomes',
+        event,
+        quoted.map(({ market, quote }) => createLeg(market, 'YES', quote.ask)),
+        1,
+        `YES on all ${quoted.length} outcomes costs ${(askSum * 100).toFixed(1)}¢ and pays $1`,
+        ['Assumes the listed outcomes are exhaustive', 'Capital locked until resolution'],
+        'low',
+        'Until the next price update'
+      )
+    );
+  }
+
+  if (bidSum - 1 >= minEdge) {
+    candidates.push(
+      createCandidate(
+        'sum_of_outcomes',
+        event,
+        quoted.map(({ market, quote }) => createLeg(market, 'NO', 1 - quote.bid)),
+        quoted.length - 1,
+        `YES prices of ${quoted.length} mutually exclusive outcomes sum to ${(bidSum * 100).toFixed(1)}%; NO on all outcomes pays $${quoted.length - 1}`,
+        ['Capital locked until resolution'],
+        'low',
+        'Until the next price update'
+      )
+    );
+  }
+
+  return candidates;
+}
+
+/**
+ * Get the subject of a market question (the part before the rule's phrase)
+ */
+function getSubject(market: PolymarketMarket, match: RegExpMatchArray): string {
+  const before = market.question.slice(0, match.index).replace(/^\s*will\s+/i, '');
+  return before.trim().toLowerCase();
+}
+
+function getYear(question: string): string | null {
+  return question.match(/\b(20\d{2})\b/)?.[1] ?? null;
+}
+
+/**
+ * Find market pairs linked by an implication rule
+ *
+ * Pairs are matched across all events by subject (e.g. the candidate's name)
+ * and, when both questions name a year, by year.
+ */
+function findRulePairs(
+  events: PolymarketEvent[],
+  rules: ImpliedConstraintRule[]
+): ImplicationPair[] {
+  const markets = events.flatMap((event) =>
+    (event.markets || []).filter(isOpen).map((market) => ({ event, market }))
+  );
+  const pairs: ImplicationPair[] = [];
+
+  for (const rule of rules) {
+    const stronger = markets.flatMap(({ event, market }) => {
+      const match = market.question.match(rule.stronger);
+      return match ? [{ event, market, subject: getSubject(market, match) }] : [];
+    });
+    const weaker = markets.flatMap(({ market }) => {
+      const match = market.question.match(rule.weaker);
+      return match ? [{ market, subject: getSubject(market, match) }] : [];
+    });
+
+    for (const a of stronger) {
+      if (!a.subject) continue;
+      const yearA = getYear(a.market.question);
+      for (const b of weaker) {
+        if (b.subject !== a.subject || b.market.id === a.market.id) continue;
+        const yearB = getYear(b.market.question);
+        if (yearA && yearB && yearA !== yearB) continue;
+        pairs.push({ rule: rule.name, event: a.event, stronger: a.market, weaker: b.market });
+      }
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Find deadline ladders within events: "X by <earlier date>" implies
+ * "X by <later date>"
+ */
+function findDeadlinePairs(events: PolymarketEvent[]): ImplicationPair[] {
+  const pairs: ImplicationPair[] = [];
+
+  for (const event of events) {
+    const fallbackYear = new Date(event.endDate).getUTCFullYear();
+    const deadlines = (event.markets || []).filter(isOpen).flatMap((market) => {
+      const match = market.question.match(/^(.*)\bby\s+(.+?)\??$/i);
+      if (!match) return [];
+      const dateText = /\b\d{4}\b/.test(match[2]) ? match[2] : `${match[2]} ${fallbackYear}`;
+      const deadline = Date.parse(dateText);
+      return Number.isFinite(deadline)
+        ? [{ market, stem: match[1].trim().toLowerCase(), deadline }]
+        : [];
+    });
+
+    for (const earlier of deadlines) {
+      for (const later of deadlines) {
+        if (earlier.stem === later.stem && earlier.deadline < later.deadline) {
+          pairs.push({
+            rule: 'deadline_ladder',
+            event,
+            stronger: earlier.market,
+            weaker: later.market,
+          });
+        }
+      }
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Find all implication pairs among the scanned events
+ *
+ * @param events - Events with nested markets
+ * @param rules - Implication rules
+ * @returns Pairs where the stronger market YES implies the weaker market YES
+ */
+export function findImplicationPairs(
+  events: PolymarketEvent[],
+  rules: ImpliedConstraintRule[] = DEFAULT_IMPLIED_CONSTRAINT_RULES
+): ImplicationPair[] {
+  return [...findRulePairs(events, rules), ...findDeadlinePairs(events)];
+}
+
+/**
+ * Detect implied-constraint violations
+ *
+ * When A implies B, P(A) <= P(B). If A's bid is above B's ask, buying YES on
+ * B and NO on A costs less than 1 and pays at least 1 in every outcome.
+ *
+ * @param pairs - Implication pairs
+ * @param minEdge - Minimum edge per bundle
+ * @returns Candidates
+ */
+export function detectImpliedConstraintViolations(
+  pairs: ImplicationPair[],
+  minEdge: number
+): ArbitrageCandidate[] {
+  const candidates: ArbitrageCandidate[] = [];
+
+  for (const { rule, event, stronger, weaker } of pairs) {
+    const strongerQuote = getQuote(stronger);
+    const weakerQuote = getQuote(weaker);
+    if (!strongerQuote || !weakerQuote) continue;
+    if (strongerQuote.bid - weakerQuote.ask < minEdge) continue;
+
+    candidates.push(
+      createCandidate(
+        'implied_constraint',
+        event,
+        [
+          createLeg(weaker, 'YES', weakerQuote.ask),
+          createLeg(stronger, 'NO', 1 - strongerQuote.bid),
+        ],
+        1,
+        `"${stronger.question}" (${(strongerQuote.bid * 100).toFixed(1)}%) is priced above "${weaker.question}" (${(weakerQuote.ask * 100).toFixed(1)}%), which it implies`,
+        [
+          `Relies on the ${rule.replace(/_/g, ' ')} relationship holding under both markets' resolution criteria`,
+          'Capital locked until resolution',
+        ],
+        'low',
+        'Until the next price update'
+      )
+    );
+  }
+
+  return candidates;
+}
+
+/**
+ * Detect stale prices between related markets
+ *
+ * When one market of an implication pair moved by at least
+ * `staleMoveThreshold` over 24h and its partner barely moved, the partner is
+ * assumed to close half of the gap. Unlike the other detectors this is not
+ * riskless: the move may be specific to one market.
+ *
+ * @param pairs - Implication pairs (both markets move in the same direction)
+ * @param options - Scan options
+ * @returns Candidates
+ */
+export function detectStalePriceGaps(
+  pairs: ImplicationPair[],
+  options: ArbitrageScanOptions
+): ArbitrageCandidate[] {
+  const candidates: ArbitrageCandidate[] = [];
+  const seen = new Set<string>();
+
+  for (const { event, stronger, weaker } of pairs) {
+    for (const [leader, lagger] of [
+      [stronger, weaker],
+      [weaker, stronger],
+    ]) {
+      const move = leader.oneDayPriceChange ?? 0;
+      const lag = lagger.oneDayPriceChange ?? 0;
+      if (Math.abs(move) < options.staleMoveThreshold || Math.abs(lag) > options.staleMaxMove) {
+        continue;
+      }
+      if (seen.has(lagger.id)) continue;
+
+      const quote = getQuote(lagger);
+      if (!quote) continue;
+
+      const side = move > 0 ? 'YES' : 'NO';
+      const price = side === 'YES' ? quote.ask : 1 - quote.bid;
+      const midpoint = (quote.bid + quote.ask) / 2;
+      const expectedValue = (side === 'YES' ? midpoint : 1 - midpoint) + Math.abs(move) / 2;
+      if (expectedValue - price < options.minEdge) continue;
+
+      seen.add(lagger.id);
+      candidates.push(
+        createCandidate(
+          'stale_price',
+          event,
+          [createLeg(lagger, side, price)],
+          Math.min(1, expectedValue),
+          `"${leader.question}" moved ${(move * 100).toFixed(1)} pts in 24h while related "${lagger.question}" moved ${(lag * 100).toFixed(1)} pts`,
+          [
+            'Not riskless: the move may be specific to the leading market',
+            'Gap may close against the position',
+          ],
+          Math.abs(move) >= 2 * options.staleMoveThreshold ? 'medium' : 'high',
+          'Hours'
+        )
+      );
+    }
+  }
+
+  return candidates;
+}
+
+// ============================================================================
+// Sizing and Ranking
+// ============================================================================
+
+/**
+ * Size a bundle by walking the buy levels of every leg together
+ *
+ * Bundles (one share per leg) are bought while the marginal bundle cost stays
+ * at least `minEdge` below the bundle value.
+ *
+ * @param legLevels - Buy levels per leg, best first
+ * @param bundleValue - Payout per bundle
+ * @param minEdge - Minimum edge per bundle
+ * @returns Bundles bought and their total cost
+ */
+export function sizeBundle(
+  legLevels: OrderBookLevel[][],
+  bundleValue: number,
+  minEdge: number
+): { shares: number; cost: number } {
+  const positions = legLevels.map(() => ({ index: 0, used: 0 }));
+  let shares = 0;
+  let cost = 0;
+
+  while (legLevels.length > 0) {
+    const current = legLevels.map((levels, i) => levels[positions[i].index]);
+    if (current.some((level) => level === undefined)) break;
+
+    const unitCost = current.reduce((sum, level) => sum + level.price, 0);
+    if (bundleValue - unitCost < minEdge) break;
+
+    const take = Math.min(...current.map((level, i) => level.size - positions[i].used));
+    shares += take;
+    cost += take * unitCost;
+
+    positions.forEach((position, i) => {
+      position.used += take;
+      if (position.used >= current[i].size - 1e-9) {
+        position.index++;
+        position.used = 0;
+      }
+    });
+  }
+
+  return { shares, cost };
+}
+
+const RISK_WEIGHTS: Record<ArbitrageOpportunity['riskLevel'], number> = {
+  low: 1,
+  medium: 0.5,
+  high: 0.25,
+};
+
+/**
+ * Rank opportunities by risk-weighted expected profit
+ *
+ * Opportunities with unknown size rank after sized ones, by edge.
+ *
+ * @param opportunities - Opportunities to rank
+ * @returns Opportunities sorted best-first with `rank` set
+ */
+export function rankArbitrageOpportunities(
+  opportunities: ArbitrageOpportunity[]
+): ArbitrageOpportunity[] {
+  const score = (opportunity: ArbitrageOpportunity): number =>
+    opportunity.expectedProfit * RISK_WEIGHTS[opportunity.riskLevel];
+
+  return [...opportunities]
+    .sort((a, b) => {
+      const sizedA = a.executableSize > 0;
+      const sizedB = b.executableSize > 0;
+      if (sizedA !== sizedB) return sizedA ? -1 : 1;
+      return score(b) - score(a) || b.edge - a.edge;
+    })
+    .map((opportunity, index) => ({ ...opportunity, rank: index + 1 }));
+}
+
+// ============================================================================
+// Scanner
+// ============================================================================
+
+/**
+ * Arbitrage scanner over discovered political events
+ */
+export class ArbitrageScanner {
+  constructor(
+    private polymarketClient: PolymarketClient,
+    private options: ArbitrageScanOptions = DEFAULT_ARBITRAGE_SCAN_OPTIONS,
+    private rules: ImpliedConstraintRule[] = DEFAULT_IMPLIED_CONSTRAINT_RULES
+  ) {}
+
+  /**
+   * Scan discovered events and return ranked, sized opportunities
+   */
+  async scan(): Promise<ArbitrageOpportunity[]> {
+    const events = await this.polymarketClient.discoverPoliticalEvents({
+      active: true,
+      closed: false,
+      limit: this.options.maxEvents,
+    });
+    console.log(`[ArbitrageScanner] Scanning ${events.length} events`);
+
+    return this.scanEvents(events);
+  }
+
+  /**
+   * Detect, size and rank opportunities in the given events
+   */
+  async scanEvents(events: PolymarketEvent[]): Promise<ArbitrageOpportunity[]> {
+    const pairs = findImplicationPairs(events, this.rules);
+    const candidates = [
+      ...events.flatMap((event) => detectSumOfOutcomeViolations(event, this.options.minEdge)),
+      ...detectImpliedConstraintViolations(pairs, this.options.minEdge),
+      ...detectStalePriceGaps(pairs, this.options),
+    ];
+
+    const marketsById = new Map(
+      events.flatMap((event) => (event.markets || []).map((market) => [market.id, market] as const))
+    );
+    const opportunities: ArbitrageOpportunity[] = [];
+
+    for (const candidate of candidates) {
+      const sized = await this.sizeCandidate(candidate, marketsById);
+      if (sized) opportunities.push(sized);
+    }
+
+    const ranked = rankArbitrageOpportunities(opportunities);
+    console.log(
+      `[ArbitrageScanner] Found ${ranked.length} opportunities from ${candidates.length} candidates`
+    );
+    return ranked;
+  }
+
+  /**
+   * Size a candidate against the order books of its legs
+   *
+   * @returns Sized opportunity, the unsized candidate when a book is
+   * unavailable, or null when the edge does not survive the books
+   */
+  private async sizeCandidate(
+    candidate: ArbitrageCandidate,
+    marketsById: Map<string, PolymarketMarket>
+  ): Promise<ArbitrageOpportunity | null> {
+    const legLevels: OrderBookLevel[][] = [];
+
+    for (const leg of candidate.legs) {
+      const tokenId = parseYesTokenId(marketsById.get(leg.marketId)?.clobTokenIds);
+      try {
+        if (!tokenId) throw new Error(`No CLOB token for market ${leg.marketId}`);
+        const book = await this.polymarketClient.fetchOrderBook(tokenId);
+        legLevels.push(getBuyLevels(book, leg.side));
+      } catch (error) {
+        console.warn(
+          `[ArbitrageScanner] Order book unavailable for ${leg.marketId}, size unknown:`,
+          error instanceof Error ? error.message : error
+        );
+        return {
+          ...candidate,
+          executableSize: 0,
+          expectedProfit: 0,
+          rank: 0,
+          analysis: {
+            ...candidate.analysis,
+            riskFactors: [
+              ...candidate.analysis.riskFactors,
+              'Order book unavailable; size unknown',
+            ],
+          },
+        };
+      }
+    }
+
+    const { shares, cost } = sizeBundle(legLevels, candidate.bundleValue, this.options.minEdge);
+    if (shares <= 0) return null;
+
+    return {
+      ...candidate,
+      executableSize: cost,
+      expectedProfit: shares * candidate.bundleValue - cost,
+      rank: 0,
+      analysis: { ...candidate.analysis, liquidityRequirement: cost },
+    };
+  }
+}
+
+/**
+ * Create an arbitrage scanner
+ *
+ * @param polymarketClient - Polymarket API client
+ * @param config - Arbitrage configuration (defaults when absent)
+ */
+export function createArbitrageScanner(
+  polymarketClient: PolymarketClient,
+  config?: EngineConfig['arbitrage']
+): ArbitrageScanner {
+  return new ArbitrageScanner(polymarketClient, {
+    maxEvents: config?.maxEvents ?? DEFAULT_ARBITRAGE_SCAN_OPTIONS.maxEvents,
+    minEdge: config?.minEdge ?? DEFAULT_ARBITRAGE_SCAN_OPTIONS.minEdge,
+    staleMoveThreshold:
+      config?.staleMoveThreshold ?? DEFAULT_ARBITRAGE_SCAN_OPTIONS.staleMoveThreshold,
+    staleMaxMove: config?.staleMaxMove ?? DEFAULT_ARBITRAGE_SCAN_OPTIONS.staleMaxMove,
+  });
+}
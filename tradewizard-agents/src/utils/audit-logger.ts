@@ -179,6 +179,9 @@ function extractStageName(state: GraphStateType, metadata: any): string {
   if (state.debateRecord && !state.consensus) {
     return 'cross_examination';
   }
+  if (state.consensus?.calibration && !state.recommendation) {
+    return 'probability_calibration';
+  }
   if (state.consensus && !state.recommendation) {
     return 'consensus_engine';
   }
@@ -10,6 +10,7 @@
  */
 
 import type { EngineConfig } from '../config/index.js';
+import { getAgentCost, getAgentDefinition, type AgentPriorityLevel } from './agent-registry.js';
 
 /**
  * Nova model pricing (per 1K tokens)
@@ -54,9 +55,10 @@ export const NOVA_PRICING = {
 } as const;
 
 /**
- * Cost estimates per agent type (in USD)
- * 
- * These are rough estimates based on typical LLM API costs:
+ * Cost estimates of the risk philosophy agents (in USD)
+ *
+ * Intelligence agents (built-in and plugin) are estimated from the agent
+ * registry. These are rough estimates based on typical LLM API costs:
  * - GPT-4: ~$0.03 per 1K input tokens, ~$0.06 per 1K output tokens
  * - Claude: ~$0.015 per 1K input tokens, ~$0.075 per 1K output tokens
  * - Gemini: ~$0.00025 per 1K input tokens, ~$0.0005 per 1K output tokens
@@ -67,32 +69,6 @@ export const NOVA_PRICING = {
  * Average agent call: ~2K input tokens, ~500 output tokens
  */
 const AGENT_COST_ESTIMATES: Record<string, number> = {
-  // MVP agents (always run, higher priority)
-  'market_microstructure': 0.10,
-  'probability_baseline': 0.08,
-  'risk_assessment': 0.10,
-  
-  // Event Intelligence agents (high value)
-  'breaking_news': 0.12,
-  'event_impact': 0.12,
-  
-  // Polling & Statistical agents (high value for elections)
-  'polling_intelligence': 0.15,
-  'historical_pattern': 0.10,
-  
-  // Sentiment & Narrative agents (medium value, can be noisy)
-  'media_sentiment': 0.10,
-  'social_sentiment': 0.10,
-  'narrative_velocity': 0.10,
-  
-  // Price Action agents (medium value, market-dependent)
-  'momentum': 0.08,
-  'mean_reversion': 0.08,
-  
-  // Event Scenario agents (medium value)
-  'catalyst': 0.10,
-  'tail_risk': 0.10,
-  
   // Risk Philosophy agents (lower cost, run after consensus)
   'aggressive': 0.06,
   'conservative': 0.06,
@@ -115,35 +91,38 @@ export enum AgentPriority {
   LOW = 4,
 }
 
+/**
+ * Priorities of the risk philosophy agents
+ *
+ * Intelligence agents declare their priority in the agent registry.
+ */
 const AGENT_PRIORITIES: Record<string, AgentPriority> = {
-  // MVP agents - always run
-  'market_microstructure': AgentPriority.CRITICAL,
-  'probability_baseline': AgentPriority.CRITICAL,
-  'risk_assessment': AgentPriority.CRITICAL,
-  
-  // High-value advanced agents
-  'breaking_news': AgentPriority.HIGH,
-  'event_impact': AgentPriority.HIGH,
-  'polling_intelligence': AgentPriority.HIGH,
-  
-  // Medium-value agents
-  'catalyst': AgentPriority.MEDIUM,
-  'historical_pattern': AgentPriority.MEDIUM,
-  'momentum': AgentPriority.MEDIUM,
-  'mean_reversion': AgentPriority.MEDIUM,
-  'tail_risk': AgentPriority.MEDIUM,
-  
-  // Lower-priority agents (can be skipped if budget tight)
-  'media_sentiment': AgentPriority.LOW,
-  'social_sentiment': AgentPriority.LOW,
-  'narrative_velocity': AgentPriority.LOW,
-  
   // Risk philosophy agents (run after consensus, lower cost)
   'aggressive': AgentPriority.MEDIUM,
   'conservative': AgentPriority.MEDIUM,
   'neutral': AgentPriority.MEDIUM,
 };
 
+const PRIORITY_LEVELS: Record<AgentPriorityLevel, AgentPriority> = {
+  critical: AgentPriority.CRITICAL,
+  high: AgentPriority.HIGH,
+  medium: AgentPriority.MEDIUM,
+  low: AgentPriority.LOW,
+};
+
+/**
+ * Estimated cost of a single agent
+ *
+ * Registered agents are estimated from their definition in the agent registry.
+ *
+ * @param agentName - Agent name
+ * @returns Estimated cost in USD
+ */
+function getAgentCostEstimate(agentName: string): number {
+  // Default to $0.10 if unknown
+  return getAgentCost(agentName) ?? AGENT_COST_ESTIMATES[agentName] ?? 0.10;
+}
+
 /**
  * Estimate cost for a set of agents
  * 
@@ -152,7 +131,7 @@ const AGENT_PRIORITIES: Record<string, AgentPriority> = {
  */
 export function estimateAgentCost(agentNames: string[]): number {
   return agentNames.reduce((total, agentName) => {
-    const cost = AGENT_COST_ESTIMATES[agentName] ?? 0.10; // Default to $0.10 if unknown
+    const cost = getAgentCostEstimate(agentName);
     return total + cost;
   }, 0);
 }
@@ -164,6 +143,10 @@ export function estimateAgentCost(agentNames: string[]): number {
  * @returns Priority level
  */
 export function getAgentPriority(agentName: string): AgentPriority {
+  const agent = getAgentDefinition(agentName);
+  if (agent) {
+    return PRIORITY_LEVELS[agent.priority ?? 'medium'];
+  }
   return AGENT_PRIORITIES[agentName] ?? AgentPriority.LOW;
 }
 
@@ -215,7 +198,7 @@ export function filterAgentsByCost(
   // Helper function to try adding agents from a priority level
   const tryAddAgents = (agents: string[], canSkip: boolean): void => {
     for (const agent of agents) {
-      const agentCost = AGENT_COST_ESTIMATES[agent] ?? 0.10;
+      const agentCost = getAgentCostEstimate(agent);
       
       // If we've already skipped a higher priority agent due to budget,
       // we must skip all lower priority agents to maintain priority ordering
@@ -286,7 +269,7 @@ export function applyCostOptimization(
     const estimatedCost = estimateAgentCost(candidateAgents);
     const costBreakdown: Record<string, number> = {};
     candidateAgents.forEach(agent => {
-      costBreakdown[agent] = AGENT_COST_ESTIMATES[agent] ?? 0.10;
+      costBreakdown[agent] = getAgentCostEstimate(agent);
     });
 
     return {
@@ -639,5 +622,5 @@ export function trackAgentCost(
   }
 
   // Otherwise, return estimated cost
-  return AGENT_COST_ESTIMATES[agentName] ?? 0.10;
+  return getAgentCostEstimate(agentName);
 }
@@ -307,8 +307,6 @@ export function createEnhancedDataSourceConfigFromEnv(): EnhancedDataSourceConfi
       maxArticles: parseInt(process.env.NEWS_API_MAX_ARTICLES || '50'),
     },
     polling: {
-      provider: (process.env.POLLING_API_PROVIDER as any) || 'none',
-      apiKey: process.env.POLLING_API_KEY,
       cacheTTL: parseInt(process.env.POLLING_API_CACHE_TTL || '3600'),
     },
     social: {
@@ -360,7 +358,6 @@ export function migrateDataIntegrationLayer(
       maxArticles: 50,
     },
     polling: {
-      provider: 'none',
       cacheTTL: 3600,
     },
     social: {
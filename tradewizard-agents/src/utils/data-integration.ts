@@ -8,6 +8,20 @@
 import type { MarketBriefingDocument, MarketId } from '../models/types.js';
 import type { AdvancedObservabilityLogger } from './audit-logger.js';
 import { retryApiCall, CircuitBreaker } from './retry-logic.js';
+import {
+  buildPollingData,
+  createPollingSource,
+  type PollingSource,
+  type PollingSourceSpec,
+  type PollRecord,
+} from './polling-providers.js';
+import {
+  aggregateSocialSentiment,
+  buildSocialQueryTerms,
+  createSocialProvider,
+  type SocialMention,
+  type SocialProvider,
+} from './social-providers.js';
 
 // ============================================================================
 // Data Schemas
@@ -36,6 +50,10 @@ export interface PollingData {
   aggregatedProbability: number; // Weighted average
   momentum: 'rising' | 'falling' | 'stable';
   biasAdjustment: number; // Adjustment factor for known pollster bias
+  uncertainty?: number; // Standard error of the aggregated probability
+  confidenceInterval?: [number, number]; // 95% interval of the aggregated probability
+  houseEffects?: Record<string, number>; // Pollster lean in YES share (0-1 scale)
+  sources?: string[]; // Polling sources that contributed
 }
 
 export interface SocialSentiment {
@@ -70,13 +88,18 @@ export interface DataSourceConfig {
     maxArticles: number;
   };
   polling: {
-    provider: '538' | 'rcp' | 'polymarket' | 'none';
+    /** @deprecated Use `sources`; a provider other than 'none' is read as a source of that type */
+    provider?: '538' | 'rcp' | 'polymarket' | 'none';
+    /** @deprecated Use `sources[].apiKey` */
     apiKey?: string;
     cacheTTL: number;
+    sources?: PollingSourceSpec[]; // Poll feeds (CSV/JSON from files or HTTP)
+    halfLifeDays?: number; // Recency half-life for the polling average
   };
   social: {
-    providers: Array<'twitter' | 'reddit'>;
+    providers: Array<'twitter' | 'reddit' | 'jsonfeed'>;
     apiKeys?: Record<string, string>;
+    endpoints?: Record<string, string>; // Base URL per provider (required for jsonfeed)
     cacheTTL: number;
     maxMentions: number;
   };
@@ -193,6 +216,9 @@ export class DataIntegrationLayer {
   private pollingCircuitBreaker: CircuitBreaker;
   private socialCircuitBreaker: CircuitBreaker;
 
+  private pollingSources: PollingSource[] | null = null;
+  private socialProviders = new Map<string, SocialProvider | null>();
+
   private observabilityLogger?: AdvancedObservabilityLogger;
 
   constructor(private config: DataSourceConfig, observabilityLogger?: AdvancedObservabilityLogger) {
@@ -432,7 +458,7 @@ export class DataIntegrationLayer {
     }
 
     // Check if provider is configured
-    if (this.config.polling.provider === 'none' || !this.config.polling.apiKey) {
+    if (!this.isPollingConfigured()) {
       console.warn('[DataIntegration] Polling provider not configured');
       if (cached) {
         console.log('[DataIntegration] Returning stale cached polling data');
@@ -474,7 +500,7 @@ export class DataIntegrationLayer {
    */
   async fetchSocialSentiment(
     market: MarketBriefingDocument,
-    platforms: string[] = ['twitter', 'reddit']
+    platforms: string[] = this.config.social.providers
   ): Promise<SocialSentiment | null> {
     const cacheKey = `social:${market.marketId}:${platforms.join(',')}`;
 
@@ -539,11 +565,7 @@ export class DataIntegrationLayer {
           this.newsRateLimiter.getTokens() > 0
         );
       case 'polling':
-        return (
-          this.config.polling.provider !== 'none' &&
-          !!this.config.polling.apiKey &&
-          this.pollingRateLimiter.getTokens() > 0
-        );
+        return this.isPollingConfigured() && this.pollingRateLimiter.getTokens() > 0;
       case 'social':
         return (
           this.config.social.providers.length > 0 &&
@@ -568,7 +590,7 @@ export class DataIntegrationLayer {
         cached = this.pollingCache.get(`polling:${marketId}`);
         break;
       case 'social':
-        cached = this.socialCache.get(`social:${marketId}:twitter,reddit`);
+        cached = this.socialCache.get(`social:${marketId}:${this.config.social.providers.join(',')}`);
         break;
     }
 
@@ -585,7 +607,7 @@ export class DataIntegrationLayer {
   }
 
   // ============================================================================
-  // Private Provider Methods (Stubs for now)
+  // Private Provider Methods
   // ============================================================================
 
   private async fetchNewsFromProvider(
@@ -600,23 +622,163 @@ export class DataIntegrationLayer {
     return [];
   }
 
+  private isPollingConfigured(): boolean {
+    return this.getPollingSourceSpecs().length > 0;
+  }
+
+  /**
+   * Configured poll feeds, falling back to a source of the deprecated
+   * `provider` type (with the deprecated `apiKey`) when none are listed
+   */
+  private getPollingSourceSpecs(): PollingSourceSpec[] {
+    const { sources, provider, apiKey } = this.config.polling;
+    if (sources && sources.length > 0) {
+      return sources;
+    }
+    if (provider && provider !== 'none') {
+      return [{ type: provider, location: provider, name: provider, apiKey }];
+    }
+    return [];
+  }
+
+  /**
+   * Load polls from every configured source and aggregate them
+   *
+   * Sources that fail are skipped as long as at least one succeeds; if every
+   * source fails the last error is rethrown so retry and circuit breaking apply.
+   */
   private async fetchPollingFromProvider(
     market: MarketBriefingDocument
   ): Promise<PollingData | null> {
-    // TODO: Implement actual API calls based on provider
     console.log(`[DataIntegration] Fetching polling data for market ${market.marketId}`);
-    return null;
+
+    const sources = this.getPollingSources();
+    if (sources.length === 0) {
+      return null;
+    }
+
+    const polls: PollRecord[] = [];
+    const contributing: string[] = [];
+    let succeeded = 0;
+    let lastError: unknown = null;
+
+    for (const source of sources) {
+      try {
+        const sourcePolls = await source.fetchPolls(market);
+        succeeded++;
+        if (sourcePolls.length > 0) {
+          polls.push(...sourcePolls);
+          contributing.push(source.name);
+        }
+      } catch (error) {
+        lastError = error;
+        console.warn(
+          `[DataIntegration] Polling source ${source.name} failed:`,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+
+    if (succeeded === 0 && lastError) {
+      throw lastError;
+    }
+
+    return buildPollingData(polls, contributing, {
+      halfLifeDays: this.config.polling.halfLifeDays,
+    });
+  }
+
+  private getPollingSources(): PollingSource[] {
+    if (!this.pollingSources) {
+      this.pollingSources = [];
+      for (const spec of this.getPollingSourceSpecs()) {
+        try {
+          this.pollingSources.push(createPollingSource(spec));
+        } catch (error) {
+          console.warn(
+            '[DataIntegration] Invalid polling source:',
+            error instanceof Error ? error.message : String(error)
+          );
+        }
+      }
+    }
+    return this.pollingSources;
   }
 
+  /**
+   * Fetch mentions from each configured platform and normalize them
+   *
+   * Platforms that fail are skipped as long as at least one succeeds; if every
+   * platform fails the last error is rethrown so retry and circuit breaking apply.
+   */
   private async fetchSocialFromProvider(
     market: MarketBriefingDocument,
     platforms: string[]
   ): Promise<SocialSentiment | null> {
-    // TODO: Implement actual API calls based on provider
     console.log(
       `[DataIntegration] Fetching social sentiment for market ${market.marketId} from ${platforms.join(', ')}`
     );
-    return null;
+
+    const terms = buildSocialQueryTerms(market);
+    if (terms.length === 0) {
+      console.warn(`[DataIntegration] No search terms for market ${market.marketId}`);
+      return null;
+    }
+
+    const mentionsByPlatform: Record<string, SocialMention[]> = {};
+    let lastError: unknown = null;
+
+    for (const platform of platforms) {
+      const provider = this.getSocialProvider(platform);
+      if (!provider) {
+        continue;
+      }
+
+      try {
+        mentionsByPlatform[platform] = await provider.fetchMentions({
+          marketId: market.marketId,
+          terms,
+          maxMentions: this.config.social.maxMentions,
+        });
+      } catch (error) {
+        lastError = error;
+        console.warn(
+          `[DataIntegration] Social provider ${platform} failed:`,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+
+    if (Object.keys(mentionsByPlatform).length === 0) {
+      if (lastError) {
+        throw lastError;
+      }
+      console.warn(`[DataIntegration] No social providers available for ${platforms.join(', ')}`);
+      return null;
+    }
+
+    const totalMentions = Object.values(mentionsByPlatform).reduce((sum, m) => sum + m.length, 0);
+    if (totalMentions === 0) {
+      return null;
+    }
+
+    return aggregateSocialSentiment(mentionsByPlatform, terms);
+  }
+
+  /**
+   * Get (and memoize) the provider adapter for a platform
+   */
+  private getSocialProvider(platform: string): SocialProvider | null {
+    if (!this.socialProviders.has(platform)) {
+      const provider = this.config.social.providers.includes(platform as never)
+        ? createSocialProvider(platform, this.config.social)
+        : null;
+      if (!provider) {
+        console.warn(`[DataIntegration] No social provider adapter configured for ${platform}`);
+      }
+      this.socialProviders.set(platform, provider);
+    }
+    return this.socialProviders.get(platform) ?? null;
   }
 }
 
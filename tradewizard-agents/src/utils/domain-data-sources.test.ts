@@ -0,0 +1,159 @@
+/**
+ * Unit tests for sports and crypto domain data sources
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { MarketBriefingDocument } from '../models/types.js';
+import { getDefaultConfig, type EngineConfig } from '../config/index.js';
+import {
+  DomainDataSourceError,
+  FileDomainDataSource,
+  extractCryptoSymbols,
+  getCryptoPriceSources,
+  getSportsStatsSources,
+  loadCryptoContext,
+  loadSportsContext,
+  parseCryptoPriceFeed,
+  parseTeamStatsFeed,
+  setSportsStatsSources,
+  type SportsStatsSource,
+} from './domain-data-sources.js';
+
+const createMBD = (question: string): MarketBriefingDocument => ({
+  marketId: 'market-1',
+  conditionId: 'condition-1',
+  eventType: 'other',
+  question,
+  resolutionCriteria: 'Resolves per the official result',
+  expiryTimestamp: Date.now() + 86400000,
+  currentProbability: 0.5,
+  liquidityScore: 6,
+  bidAskSpread: 2,
+  volatilityRegime: 'medium',
+  volume24h: 5000,
+  metadata: { ambiguityFlags: [], keyCatalysts: [] },
+});
+
+const teamFeed = JSON.stringify({
+  teams: [
+    {
+      team: 'Los Angeles Lakers',
+      aliases: ['Lakers', 'LAL'],
+      league: 'NBA',
+      wins: 30,
+      losses: 12,
+      recentForm: 'WWLWW',
+      injuries: ['LeBron James (ankle, questionable)'],
+    },
+    { team: 'Boston Celtics', aliases: ['Celtics'], wins: 33, losses: 9, injuries: [] },
+    { league: 'NBA', wins: 1 },
+  ],
+});
+
+const priceFeed = JSON.stringify([
+  {
+    symbol: 'btc',
+    name: 'Bitcoin',
+    price: 97250.5,
+    change24h: -0.021,
+    volatility30d: 0.48,
+    onChain: { exchangeNetflow: -1200, junk: 'n/a' },
+  },
+  { symbol: 'SOL', price: '182.4' },
+  { symbol: 'ETH' },
+]);
+
+describe('Domain Data Sources', () => {
+  let tempDir: string;
+  let config: EngineConfig;
+
+  beforeAll(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'domain-sources-'));
+    await writeFile(join(tempDir, 'teams.json'), teamFeed, 'utf-8');
+    await writeFile(join(tempDir, 'prices.json'), priceFeed, 'utf-8');
+    config = {
+      ...(getDefaultConfig() as EngineConfig),
+      externalData: {
+        ...(getDefaultConfig() as EngineConfig).externalData,
+        sports: { sources: [{ type: 'file', location: join(tempDir, 'teams.json') }] },
+        crypto: { sources: [{ type: 'file', location: join(tempDir, 'prices.json') }] },
+      },
+    };
+  });
+
+  afterAll(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    setSportsStatsSources(null);
+  });
+
+  it('should parse feeds and drop incomplete entries', () => {
+    const teams = parseTeamStatsFeed(teamFeed);
+    const assets = parseCryptoPriceFeed(priceFeed);
+
+    expect(teams.map((team) => team.team)).toEqual(['Los Angeles Lakers', 'Boston Celtics']);
+    expect(assets.map((asset) => [asset.symbol, asset.price])).toEqual([
+      ['BTC', 97250.5],
+      ['SOL', 182.4],
+    ]);
+    expect(assets[0].onChain).toEqual({ exchangeNetflow: -1200 });
+  });
+
+  it('should extract crypto symbols from names and tickers', () => {
+    expect(extractCryptoSymbols(createMBD('Will Bitcoin outperform SOL this week?'))).toEqual([
+      'BTC',
+      'SOL',
+    ]);
+    expect(extractCryptoSymbols(createMBD('Will Beth win the primary?'))).toEqual([]);
+  });
+
+  it('should load stats for the teams in the market from configured files', async () => {
+    const context = await loadSportsContext(
+      createMBD('Will the Lakers beat the Celtics on Friday?'),
+      getSportsStatsSources(config)
+    );
+
+    expect(context).toContain('Los Angeles Lakers: NBA; record 30-12; form WWLWW');
+    expect(context).toContain('injuries: LeBron James (ankle, questionable)');
+    expect(context).toContain('Boston Celtics');
+    expect(
+      await loadSportsContext(createMBD('Will the Knicks win?'), getSportsStatsSources(config))
+    ).toBeNull();
+  });
+
+  it('should load price context for the assets in the market', async () => {
+    const context = await loadCryptoContext(
+      createMBD('Will Bitcoin close above $100k?'),
+      getCryptoPriceSources(config)
+    );
+
+    expect(context).toContain('BTC (Bitcoin): price $97,250.5; 24h -2.1%');
+    expect(context).toContain('30d volatility 48% annualized; exchangeNetflow -1200');
+    expect(context).not.toContain('SOL');
+  });
+
+  it('should skip failing sources and prefer installed overrides', async () => {
+    const missing = new FileDomainDataSource(
+      { type: 'file', location: join(tempDir, 'missing.json') },
+      parseTeamStatsFeed
+    );
+    await expect(missing.fetchAll()).rejects.toThrow(DomainDataSourceError);
+
+    const override: SportsStatsSource = {
+      name: 'fixture',
+      fetchAll: async () => [{ team: 'New York Knicks', aliases: ['Knicks'], injuries: [] }],
+    };
+    setSportsStatsSources([missing, override]);
+
+    const context = await loadSportsContext(
+      createMBD('Will the Knicks win?'),
+      getSportsStatsSources(config)
+    );
+    expect(context).toContain('New York Knicks');
+  });
+});
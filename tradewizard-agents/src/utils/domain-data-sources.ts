@@ -0,0 +1,482 @@
+/**
+ * Domain Data Sources
+ *
+ * Pluggable team-stats and crypto price/on-chain feeds for the sports and
+ * crypto agents. Feeds are JSON documents read from local files or HTTP
+ * endpoints (configured under `externalData.sports` / `externalData.crypto`);
+ * the agents receive the entries relevant to the market as prompt context.
+ */
+
+import { readFile } from 'fs/promises';
+import type { EngineConfig } from '../config/index.js';
+import type { MarketBriefingDocument } from '../models/types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Season and recent-form stats for one team or athlete
+ */
+export interface TeamStats {
+  team: string;
+  aliases: string[]; // Other names the market question may use ("Lakers", "LAL")
+  league?: string;
+  wins?: number;
+  losses?: number;
+  draws?: number;
+  recentForm?: string; // Most recent results first, e.g. "WWLWD"
+  injuries: string[];
+  pointsFor?: number; // Per game
+  pointsAgainst?: number; // Per game
+  rating?: number; // Power rating (Elo or similar)
+  updatedAt?: number; // Unix timestamp (ms)
+}
+
+/**
+ * Price and on-chain snapshot for one crypto asset
+ */
+export interface CryptoAssetSnapshot {
+  symbol: string; // Upper case ticker, e.g. "BTC"
+  name?: string;
+  price: number; // USD
+  change24h?: number; // Fractional, e.g. -0.031
+  change7d?: number; // Fractional
+  volatility30d?: number; // Annualized, fractional
+  volume24h?: number; // USD
+  marketCap?: number; // USD
+  onChain: Record<string, number>; // Free-form metrics, e.g. exchangeNetflow, activeAddresses
+  updatedAt?: number; // Unix timestamp (ms)
+}
+
+/**
+ * Source definition as it appears in config
+ */
+export interface DomainDataSourceSpec {
+  type: string; // 'file' | 'http'
+  location: string; // Path or URL
+  name?: string;
+  apiKey?: string;
+}
+
+/**
+ * A feed of domain records
+ */
+export interface DomainDataSource<T> {
+  readonly name: string;
+  fetchAll(): Promise<T[]>;
+}
+
+export type SportsStatsSource = DomainDataSource<TeamStats>;
+export type CryptoPriceSource = DomainDataSource<CryptoAssetSnapshot>;
+
+/**
+ * Error raised when a domain data source cannot be read or parsed
+ */
+export class DomainDataSourceError extends Error {
+  constructor(
+    message: string,
+    public source: string,
+    public statusCode?: number
+  ) {
+    super(message);
+    this.name = 'DomainDataSourceError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+// Tickers commonly written out in full in market questions
+const CRYPTO_ASSET_NAMES: Record<string, string> = {
+  bitcoin: 'BTC',
+  ethereum: 'ETH',
+  ether: 'ETH',
+  solana: 'SOL',
+  ripple: 'XRP',
+  dogecoin: 'DOGE',
+  cardano: 'ADA',
+  litecoin: 'LTC',
+};
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function toNumber(value: unknown): number | undefined {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function toTimestamp(value: unknown): number | undefined {
+  if (typeof value === 'number') return value;
+  const parsed = Date.parse(String(value ?? ''));
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function toStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String) : [];
+}
+
+function extractItems(content: string, key: string): Record<string, unknown>[] {
+  const body = JSON.parse(content) as unknown;
+  const items = Array.isArray(body)
+    ? body
+    : ((body as Record<string, unknown[]>)[key] ?? (body as { data?: unknown[] }).data ?? []);
+  return items.filter(
+    (item): item is Record<string, unknown> => !!item && typeof item === 'object'
+  );
+}
+
+/**
+ * Parse a team-stats feed (array, `{ teams }` or `{ data }`)
+ *
+ * Entries without a team name are dropped.
+ */
+export function parseTeamStatsFeed(content: string): TeamStats[] {
+  return extractItems(content, 'teams').flatMap((row): TeamStats[] => {
+    const team = row.team ?? row.name;
+    if (!team) return [];
+
+    return [
+      {
+        team: String(team),
+        aliases: toStrings(row.aliases),
+        league: row.league !== undefined ? String(row.league) : undefined,
+        wins: toNumber(row.wins),
+        losses: toNumber(row.losses),
+        draws: toNumber(row.draws),
+        recentForm: row.recentForm !== undefined ? String(row.recentForm) : undefined,
+        injuries: toStrings(row.injuries),
+        pointsFor: toNumber(row.pointsFor),
+        pointsAgainst: toNumber(row.pointsAgainst),
+        rating: toNumber(row.rating),
+        updatedAt: toTimestamp(row.updatedAt),
+      },
+    ];
+  });
+}
+
+/**
+ * Parse a crypto price feed (array, `{ assets }` or `{ data }`)
+ *
+ * Entries without a symbol or price are dropped.
+ */
+export function parseCryptoPriceFeed(content: string): CryptoAssetSnapshot[] {
+  return extractItems(content, 'assets').flatMap((row): CryptoAssetSnapshot[] => {
+    const price = toNumber(row.price);
+    if (!row.symbol || price === undefined) return [];
+
+    const onChain: Record<string, number> = {};
+    for (const [key, value] of Object.entries((row.onChain as Record<string, unknown>) ?? {})) {
+      const metric = toNumber(value);
+      if (metric !== undefined) onChain[key] = metric;
+    }
+
+    return [
+      {
+        symbol: String(row.symbol).toUpperCase(),
+        name: row.name !== undefined ? String(row.name) : undefined,
+        price,
+        change24h: toNumber(row.change24h),
+        change7d: toNumber(row.change7d),
+        volatility30d: toNumber(row.volatility30d),
+        volume24h: toNumber(row.volume24h),
+        marketCap: toNumber(row.marketCap),
+        onChain,
+        updatedAt: toTimestamp(row.updatedAt),
+      },
+    ];
+  });
+}
+
+// ============================================================================
+// Built-in Sources
+// ============================================================================
+
+/**
+ * JSON feed read from a local file
+ */
+export class FileDomainDataSource<T> implements DomainDataSource<T> {
+  readonly name: string;
+
+  constructor(
+    private spec: DomainDataSourceSpec,
+    private parse: (content: string) => T[]
+  ) {
+    this.name = spec.name ?? `file:${spec.location}`;
+  }
+
+  async fetchAll(): Promise<T[]> {
+    let content: string;
+    try {
+      content = await readFile(this.spec.location, 'utf-8');
+    } catch (error) {
+      throw new DomainDataSourceError(
+        `Failed to read ${this.spec.location}: ${error instanceof Error ? error.message : String(error)}`,
+        this.name
+      );
+    }
+
+    try {
+      return this.parse(content);
+    } catch (error) {
+      throw new DomainDataSourceError(
+        `Failed to parse ${this.spec.location}: ${error instanceof Error ? error.message : String(error)}`,
+        this.name
+      );
+    }
+  }
+}
+
+/**
+ * JSON feed served over HTTP
+ */
+export class HttpDomainDataSource<T> implements DomainDataSource<T> {
+  readonly name: string;
+
+  constructor(
+    private spec: DomainDataSourceSpec,
+    private parse: (content: string) => T[]
+  ) {
+    this.name = spec.name ?? `http:${new URL(spec.location).host}`;
+  }
+
+  async fetchAll(): Promise<T[]> {
+    let response: Response;
+    try {
+      response = await fetch(this.spec.location, {
+        headers: {
+          Accept: 'application/json',
+          ...(this.spec.apiKey && { Authorization: `Bearer ${this.spec.apiKey}` }),
+        },
+        signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new DomainDataSourceError(
+        `${this.name} request failed: network error: ${error instanceof Error ? error.message : String(error)}`,
+        this.name
+      );
+    }
+
+    if (!response.ok) {
+      throw new DomainDataSourceError(
+        `${this.name} request failed: HTTP ${response.status} ${response.statusText}`,
+        this.name,
+        response.status
+      );
+    }
+
+    try {
+      return this.parse(await response.text());
+    } catch (error) {
+      throw new DomainDataSourceError(
+        `${this.name} returned an unparseable feed: ${error instanceof Error ? error.message : String(error)}`,
+        this.name,
+        response.status
+      );
+    }
+  }
+}
+
+function createSource<T>(
+  spec: DomainDataSourceSpec,
+  parse: (content: string) => T[]
+): DomainDataSource<T> {
+  switch (spec.type) {
+    case 'file':
+      return new FileDomainDataSource(spec, parse);
+    case 'http':
+      return new HttpDomainDataSource(spec, parse);
+    default:
+      throw new DomainDataSourceError(
+        `Unknown domain data source type: ${spec.type}`,
+        spec.name ?? spec.type
+      );
+  }
+}
+
+// ============================================================================
+// Source Overrides
+// ============================================================================
+
+/**
+ * Process-wide source overrides. When set they replace the sources from config
+ * (used by tests and by deployments with their own feeds).
+ */
+let sportsStatsSourcesOverride: SportsStatsSource[] | null = null;
+let cryptoPriceSourcesOverride: CryptoPriceSource[] | null = null;
+
+/**
+ * Install (or clear with null) the team-stats sources used by the sports agent
+ */
+export function setSportsStatsSources(sources: SportsStatsSource[] | null): void {
+  sportsStatsSourcesOverride = sources;
+}
+
+/**
+ * Install (or clear with null) the price sources used by the crypto agent
+ */
+export function setCryptoPriceSources(sources: CryptoPriceSource[] | null): void {
+  cryptoPriceSourcesOverride = sources;
+}
+
+/**
+ * Team-stats sources: the installed override, else those configured
+ */
+export function getSportsStatsSources(config: EngineConfig): SportsStatsSource[] {
+  return (
+    sportsStatsSourcesOverride ??
+    (config.externalData.sports?.sources ?? []).map((spec) =>
+      createSource(spec, parseTeamStatsFeed)
+    )
+  );
+}
+
+/**
+ * Crypto price sources: the installed override, else those configured
+ */
+export function getCryptoPriceSources(config: EngineConfig): CryptoPriceSource[] {
+  return (
+    cryptoPriceSourcesOverride ??
+    (config.externalData.crypto?.sources ?? []).map((spec) =>
+      createSource(spec, parseCryptoPriceFeed)
+    )
+  );
+}
+
+// ============================================================================
+// Market Matching
+// ============================================================================
+
+function marketText(mbd: MarketBriefingDocument): string {
+  return [mbd.question, mbd.eventContext?.eventTitle ?? '', ...(mbd.keywords ?? [])]
+    .join(' ')
+    .toLowerCase();
+}
+
+function mentions(text: string, name: string): boolean {
+  const escaped = name.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\b${escaped}\\b`).test(text);
+}
+
+/**
+ * Teams named in the market question, event title or keywords
+ */
+export function findTeamsInMarket(stats: TeamStats[], mbd: MarketBriefingDocument): TeamStats[] {
+  const text = marketText(mbd);
+  return stats.filter((entry) =>
+    [entry.team, ...entry.aliases].some((name) => mentions(text, name))
+  );
+}
+
+/**
+ * Crypto tickers named in the market, by symbol ("BTC") or name ("Bitcoin")
+ */
+export function extractCryptoSymbols(mbd: MarketBriefingDocument): string[] {
+  const text = marketText(mbd);
+  const symbols = new Set<string>();
+
+  for (const [name, symbol] of Object.entries(CRYPTO_ASSET_NAMES)) {
+    if (mentions(text, name) || mentions(text, symbol)) {
+      symbols.add(symbol);
+    }
+  }
+
+  return [...symbols];
+}
+
+// ============================================================================
+// Agent Context
+// ============================================================================
+
+function formatPercent(value: number): string {
+  return `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+}
+
+/**
+ * Format team stats as a prompt section
+ */
+export function formatTeamStatsContext(teams: TeamStats[]): string {
+  const lines = teams.map((entry) => {
+    const record = [entry.wins, entry.losses, entry.draws]
+      .filter((value) => value !== undefined)
+      .join('-');
+    const details = [
+      entry.league,
+      record && `record ${record}`,
+      entry.recentForm && `form ${entry.recentForm}`,
+      entry.pointsFor !== undefined &&
+        entry.pointsAgainst !== undefined &&
+        `${entry.pointsFor.toFixed(1)} for / ${entry.pointsAgainst.toFixed(1)} against per game`,
+      entry.rating !== undefined && `rating ${entry.rating}`,
+      entry.injuries.length > 0 && `injuries: ${entry.injuries.join(', ')}`,
+    ].filter(Boolean);
+
+    return `- ${entry.team}: ${details.join('; ')}`;
+  });
+
+  return `TEAM STATS (from configured feeds):\n${lines.join('\n')}`;
+}
+
+/**
+ * Format crypto snapshots as a prompt section
+ */
+export function formatCryptoContext(assets: CryptoAssetSnapshot[]): string {
+  const lines = assets.map((asset) => {
+    const details = [
+      `price $${asset.price.toLocaleString('en-US', { maximumFractionDigits: 2 })}`,
+      asset.change24h !== undefined && `24h ${formatPercent(asset.change24h)}`,
+      asset.change7d !== undefined && `7d ${formatPercent(asset.change7d)}`,
+      asset.volatility30d !== undefined &&
+        `30d volatility ${(asset.volatility30d * 100).toFixed(0)}% annualized`,
+      asset.volume24h !== undefined && `24h volume $${(asset.volume24h / 1e6).toFixed(1)}M`,
+      ...Object.entries(asset.onChain).map(([metric, value]) => `${metric} ${value}`),
+    ].filter(Boolean);
+
+    return `- ${asset.symbol}${asset.name ? ` (${asset.name})` : ''}: ${details.join('; ')}`;
+  });
+
+  return `CRYPTO MARKET DATA (from configured feeds):\n${lines.join('\n')}`;
+}
+
+async function fetchFromSources<T>(sources: DomainDataSource<T>[]): Promise<T[]> {
+  const results = await Promise.allSettled(sources.map((source) => source.fetchAll()));
+  return results.flatMap((result) => (result.status === 'fulfilled' ? result.value : []));
+}
+
+/**
+ * Load the team-stats prompt section for a market
+ *
+ * Sources that fail are skipped.
+ *
+ * @returns Prompt section, or null when no source has stats for the teams
+ */
+export async function loadSportsContext(
+  mbd: MarketBriefingDocument,
+  sources: SportsStatsSource[]
+): Promise<string | null> {
+  if (sources.length === 0) return null;
+
+  const teams = findTeamsInMarket(await fetchFromSources(sources), mbd);
+  return teams.length > 0 ? formatTeamStatsContext(teams) : null;
+}
+
+/**
+ * Load the price/on-chain prompt section for a market
+ *
+ * Sources that fail are skipped.
+ *
+ * @returns Prompt section, or null when no source covers the assets
+ */
+export async function loadCryptoContext(
+  mbd: MarketBriefingDocument,
+  sources: CryptoPriceSource[]
+): Promise<string | null> {
+  const symbols = extractCryptoSymbols(mbd);
+  if (sources.length === 0 || symbols.length === 0) return null;
+
+  const assets = (await fetchFromSources(sources)).filter((asset) =>
+    symbols.includes(asset.symbol)
+  );
+  return assets.length > 0 ? formatCryptoContext(assets) : null;
+}
@@ -16,6 +16,7 @@ import type {
   Catalyst,
 } from '../models/types.js';
 import { getLogger } from './logger.js';
+import { detectSportsOrCrypto } from './market-category.js';
 
 const logger = getLogger();
 
@@ -288,6 +289,16 @@ export class EnhancedEventBriefingGenerator {
         event: 'Policy announcement or legislative action',
         timestamp: Date.now() + (30 * 24 * 60 * 60 * 1000), // 30 days from now
       });
+    } else if (eventType === 'sports') {
+      catalysts.push({
+        event: 'Final injury report and confirmed lineups',
+        timestamp: new Date(market.endDate).getTime() - (24 * 60 * 60 * 1000), // 1 day before
+      });
+    } else if (eventType === 'crypto') {
+      catalysts.push({
+        event: 'Price check against the resolution source at expiry',
+        timestamp: new Date(market.endDate).getTime(),
+      });
     }
     
     return catalysts;
@@ -330,6 +341,14 @@ export class EnhancedEventBriefingGenerator {
       insights.push('Low competition may indicate pricing inefficiencies');
     }
     
+    // Category insight
+    const eventType = this.classifyEventType(event);
+    if (eventType === 'sports') {
+      insights.push('Sports market: team news and lineups usually move the price in the final day');
+    } else if (eventType === 'crypto') {
+      insights.push('Crypto market: the underlying trades 24/7, so the price can move outside US hours');
+    }
+    
     return insights;
   }
 
@@ -372,6 +391,14 @@ export class EnhancedEventBriefingGenerator {
       riskFactors.push('High price volatility increases timing risk');
     }
     
+    // Category risk
+    const eventType = this.classifyEventType(event);
+    if (eventType === 'sports') {
+      riskFactors.push('Single-game outcomes are high variance; late lineup changes can reprice the market');
+    } else if (eventType === 'crypto') {
+      riskFactors.push('Resolution depends on a specific price source and timestamp; exchange prices can diverge');
+    }
+    
     return riskFactors;
   }
 
@@ -510,8 +537,15 @@ export class EnhancedEventBriefingGenerator {
     if (text.includes('war') || text.includes('conflict') || text.includes('treaty')) {
       return 'geopolitical';
     }
+    const category = detectSportsOrCrypto(
+      `${event.title} ${event.description}`,
+      (event.tags ?? []).map((tag) => tag.label)
+    );
+    if (category) {
+      return category;
+    }
     if (text.includes('gdp') || text.includes('inflation') || text.includes('economy') || 
-        text.includes('bitcoin') || text.includes('stock') || text.includes('price')) {
+        text.includes('stock') || text.includes('price')) {
       return 'economic';
     }
 
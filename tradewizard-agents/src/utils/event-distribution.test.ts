@@ -0,0 +1,122 @@
+/**
+ * Unit tests for event probability distributions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  extractEventOutcomes,
+  fuseEventDistributions,
+  getMarketDistribution,
+  normalizeDistribution,
+} from './event-distribution.js';
+import type { EventWithMarkets, PolymarketMarket } from './enhanced-event-polymarket-client.js';
+import type { EventDistributionSignal, EventOutcome } from '../models/types.js';
+
+const createMarket = (id: string, price: string, overrides: Partial<PolymarketMarket> = {}) =>
+  ({
+    id,
+    conditionId: `0x${id}`,
+    question: `Will ${id} win?`,
+    groupItemTitle: id,
+    active: true,
+    closed: false,
+    outcomes: '["Yes","No"]',
+    outcomePrices: `["${price}","${(1 - parseFloat(price)).toFixed(2)}"]`,
+    liquidityNum: 1000,
+    volume24hr: 50,
+    ...overrides,
+  }) as PolymarketMarket;
+
+const outcome = (marketId: string, marketProbability: number): EventOutcome => ({
+  marketId,
+  conditionId: `0x${marketId}`,
+  label: marketId,
+  marketProbability,
+  liquidity: 1000,
+  volume24h: 50,
+});
+
+const signal = (
+  agentName: string,
+  confidence: number,
+  probabilities: Record<string, number>
+): EventDistributionSignal => ({
+  agentName,
+  timestamp: 0,
+  confidence,
+  probabilities,
+  keyDrivers: ['driver'],
+  riskFactors: [],
+});
+
+describe('Event Distribution', () => {
+  describe('extractEventOutcomes', () => {
+    it('should extract priced outcomes of active markets', () => {
+      const outcomes = extractEventOutcomes({
+        event: { id: 'event-1' },
+        markets: [
+          createMarket('alice', '0.60'),
+          createMarket('bob', '0.30', { groupItemTitle: undefined }),
+          createMarket('carol', '0.20', { closed: true }),
+          createMarket('dave', '0.10', { outcomePrices: 'not json', lastTradePrice: 0.12 }),
+        ],
+      } as unknown as EventWithMarkets);
+
+      expect(outcomes.map((o) => o.marketId)).toEqual(['alice', 'bob', 'dave']);
+      expect(outcomes[0].marketProbability).toBe(0.6);
+      expect(outcomes[1].label).toBe('Will bob win?');
+      expect(outcomes[2].marketProbability).toBe(0.12);
+    });
+  });
+
+  describe('normalizeDistribution', () => {
+    it('should scale probabilities to sum to one', () => {
+      const normalized = normalizeDistribution({ a: 0.6, b: 0.5, c: 0.3 });
+
+      expect(normalized.a).toBeCloseTo(0.6 / 1.4);
+      expect(Object.values(normalized).reduce((sum, p) => sum + p, 0)).toBeCloseTo(1);
+    });
+
+    it('should treat invalid entries as zero and fall back to uniform', () => {
+      expect(normalizeDistribution({ a: -1, b: NaN }, ['a', 'b', 'c'])).toEqual({
+        a: 1 / 3,
+        b: 1 / 3,
+        c: 1 / 3,
+      });
+      expect(normalizeDistribution({ a: 2, b: -1 }, ['a', 'b'])).toEqual({ a: 1, b: 0 });
+    });
+  });
+
+  describe('fuseEventDistributions', () => {
+    const outcomes = [outcome('a', 0.6), outcome('b', 0.5), outcome('c', 0.3)];
+
+    it('should pool agent distributions by confidence and normalize', () => {
+      const distribution = fuseEventDistributions(outcomes, [
+        signal('one', 0.9, { a: 0.5, b: 0.3, c: 0.2 }),
+        signal('two', 0.3, { a: 0.3, b: 0.5, c: 0.2 }),
+      ]);
+
+      expect(distribution.probabilities.a).toBeCloseTo((0.9 * 0.5 + 0.3 * 0.3) / 1.2);
+      expect(distribution.probabilities.b).toBeCloseTo((0.9 * 0.3 + 0.3 * 0.5) / 1.2);
+      expect(Object.values(distribution.probabilities).reduce((s, p) => s + p, 0)).toBeCloseTo(1);
+      expect(distribution.marketOverround).toBeCloseTo(1.4);
+      expect(distribution.agentCount).toBe(2);
+    });
+
+    it('should fill outcomes an agent left out from the market distribution', () => {
+      const market = getMarketDistribution(outcomes);
+
+      const distribution = fuseEventDistributions(outcomes, [signal('one', 1, { a: 0.5, b: 0.2 })]);
+
+      const total = 0.5 + 0.2 + market.c;
+      expect(distribution.probabilities.c).toBeCloseTo(market.c / total);
+    });
+
+    it('should return the market distribution without usable signals', () => {
+      const distribution = fuseEventDistributions(outcomes, [signal('zero', 0, { a: 1 })]);
+
+      expect(distribution.probabilities).toEqual(distribution.marketProbabilities);
+      expect(distribution.agentCount).toBe(0);
+    });
+  });
+});
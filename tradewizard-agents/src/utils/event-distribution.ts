@@ -0,0 +1,169 @@
+/**
+ * Event Probability Distributions
+ *
+ * Math for multi-outcome (neg-risk) events: extracting the outcome set from an
+ * event's binary markets, normalizing probabilities so they sum to one and
+ * fusing per-agent joint distributions into a single coherent distribution.
+ *
+ * Each outcome of a multi-outcome event is a separate binary market that
+ * resolves YES if that outcome occurs, so exactly one of them resolves YES and
+ * a coherent view assigns probabilities that sum to one across them.
+ */
+
+import type {
+  EventDistributionSignal,
+  EventOutcome,
+  EventProbabilityDistribution,
+} from '../models/types.js';
+import type { EventWithMarkets, PolymarketMarket } from './enhanced-event-polymarket-client.js';
+
+// ============================================================================
+// Outcome Extraction
+// ============================================================================
+
+/**
+ * Parse the YES price of a binary market
+ *
+ * Prefers the first entry of `outcomePrices`, falling back to the last trade
+ * price and then the bid/ask midpoint.
+ */
+function parseYesPrice(market: PolymarketMarket): number | null {
+  try {
+    const prices = JSON.parse(market.outcomePrices || '[]') as Array<string | number>;
+    const price = Number(prices[0]);
+    if (Number.isFinite(price) && prices.length > 0) return price;
+  } catch {
+    // Fall through to the other price sources
+  }
+
+  if (market.lastTradePrice !== undefined && Number.isFinite(market.lastTradePrice)) {
+    return market.lastTradePrice;
+  }
+  if (market.bestBid !== undefined && market.bestAsk !== undefined) {
+    return (market.bestBid + market.bestAsk) / 2;
+  }
+  return null;
+}
+
+/**
+ * Extract the tradable outcomes of a multi-outcome event
+ *
+ * Closed or inactive markets and markets without a usable price are skipped.
+ *
+ * @param eventWithMarkets - Event with all of its markets
+ * @returns Outcomes in the event's market order
+ */
+export function extractEventOutcomes(eventWithMarkets: EventWithMarkets): EventOutcome[] {
+  const outcomes: EventOutcome[] = [];
+
+  for (const market of eventWithMarkets.markets) {
+    if (!market.active || market.closed) continue;
+
+    const price = parseYesPrice(market);
+    if (price === null) continue;
+
+    outcomes.push({
+      marketId: market.id,
+      conditionId: market.conditionId,
+      label: market.groupItemTitle || market.question,
+      marketProbability: Math.min(1, Math.max(0, price)),
+      liquidity: market.liquidityNum ?? parseFloat(market.liquidity || '0'),
+      volume24h: market.volume24hr ?? 0,
+    });
+  }
+
+  return outcomes;
+}
+
+// ============================================================================
+// Normalization and Fusion
+// ============================================================================
+
+/**
+ * Normalize a distribution over the given outcomes so it sums to one
+ *
+ * Negative, non-finite and missing entries count as zero. When nothing is
+ * left, the distribution is uniform.
+ *
+ * @param probabilities - Unnormalized probabilities keyed by market ID
+ * @param marketIds - Outcome set to normalize over (entries outside it are dropped)
+ * @returns Normalized probabilities keyed by market ID
+ */
+export function normalizeDistribution(
+  probabilities: Record<string, number>,
+  marketIds: string[] = Object.keys(probabilities)
+): Record<string, number> {
+  const cleaned = marketIds.map((id) => {
+    const value = probabilities[id];
+    return Number.isFinite(value) && value > 0 ? value : 0;
+  });
+  const total = cleaned.reduce((sum, value) => sum + value, 0);
+
+  const normalized: Record<string, number> = {};
+  marketIds.forEach((id, index) => {
+    normalized[id] = total > 0 ? cleaned[index] / total : 1 / marketIds.length;
+  });
+  return normalized;
+}
+
+/**
+ * Get the market-implied distribution of an event
+ *
+ * Removes the overround by normalizing the YES prices.
+ *
+ * @param outcomes - Event outcomes
+ * @returns Normalized market probabilities keyed by market ID
+ */
+export function getMarketDistribution(outcomes: EventOutcome[]): Record<string, number> {
+  return normalizeDistribution(
+    Object.fromEntries(outcomes.map((outcome) => [outcome.marketId, outcome.marketProbability])),
+    outcomes.map((outcome) => outcome.marketId)
+  );
+}
+
+/**
+ * Fuse agent distributions into a single event distribution
+ *
+ * Each agent distribution is normalized over the outcome set (outcomes an
+ * agent left out take their market-implied probability first), then the
+ * distributions are pooled linearly with confidence weights and the result
+ * is normalized again. With no usable signals the market distribution is
+ * returned.
+ *
+ * @param outcomes - Event outcomes
+ * @param signals - Agent distributions
+ * @returns Fused distribution
+ */
+export function fuseEventDistributions(
+  outcomes: EventOutcome[],
+  signals: EventDistributionSignal[]
+): EventProbabilityDistribution {
+  const marketIds = outcomes.map((outcome) => outcome.marketId);
+  const marketProbabilities = getMarketDistribution(outcomes);
+  const marketOverround = outcomes.reduce((sum, outcome) => sum + outcome.marketProbability, 0);
+
+  const pooled: Record<string, number> = Object.fromEntries(marketIds.map((id) => [id, 0]));
+  let totalWeight = 0;
+
+  for (const signal of signals) {
+    const weight = Math.max(0, signal.confidence);
+    if (weight === 0) continue;
+
+    const completed = Object.fromEntries(
+      marketIds.map((id) => [id, signal.probabilities[id] ?? marketProbabilities[id]])
+    );
+    const distribution = normalizeDistribution(completed, marketIds);
+
+    for (const id of marketIds) {
+      pooled[id] += weight * distribution[id];
+    }
+    totalWeight += weight;
+  }
+
+  return {
+    probabilities: totalWeight > 0 ? normalizeDistribution(pooled, marketIds) : marketProbabilities,
+    marketProbabilities,
+    marketOverround,
+    agentCount: totalWeight > 0 ? signals.filter((signal) => signal.confidence > 0).length : 0,
+  };
+}
@@ -19,7 +19,9 @@ import { ChatOpenAI } from '@langchain/openai';
 import { ChatAnthropic } from '@langchain/anthropic';
 import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
 import { BedrockClient } from './bedrock-client.js';
-import { config } from '../config/index.js';
+import { createLLMInstance, hasLLMInstanceOverride, type LLMInstance } from './llm-factory.js';
+import { wrapWithCassette } from './llm-cassette.js';
+import { config, type EngineConfig } from '../config/index.js';
 import { z } from 'zod';
 import type {
   PolymarketEvent,
@@ -165,6 +167,18 @@ export class EventMultiMarketKeywordExtractor {
    * Respects the LLM_SINGLE_PROVIDER setting
    */
   private createBaseLLMInstance(config: any, temperature: number): ChatOpenAI | ChatAnthropic | ChatGoogleGenerativeAI | any {
+    // Respect an installed LLM override (deterministic backtests, replay runs)
+    if (hasLLMInstanceOverride()) {
+      return createLLMInstance(config, 'google', ['openai', 'anthropic', 'nova']);
+    }
+
+    return wrapWithCassette(this.createProviderLLMInstance(config, temperature), config.llm.cassette);
+  }
+
+  /**
+   * Creates a live provider LLM instance
+   */
+  private createProviderLLMInstance(config: EngineConfig, temperature: number): LLMInstance {
     const singleProvider = config.llm.singleProvider;
     
     // If single provider is set, use only that provider
@@ -0,0 +1,176 @@
+/**
+ * Unit tests for learned signal fusion weights
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { AgentSignal } from '../models/types.js';
+import type { EngineConfig } from '../config/index.js';
+import {
+  applyFusionWeights,
+  createFusionWeightsLoader,
+  evaluateEqualWeightFusion,
+  evaluateFusionWeights,
+  fitAndEvaluateFusionWeights,
+  fitFusionWeights,
+  type FusionTrainingExample,
+  type FusionWeightSet,
+} from './fusion-weights.js';
+
+/**
+ * Deterministic synthetic history: 'sharp' forecasts close to the outcome,
+ * 'noisy' forecasts are uninformative, 'contrarian' points the wrong way.
+ */
+function createExamples(count: number, category = 'election'): FusionTrainingExample[] {
+  return Array.from({ length: count }, (_, i) => {
+    const yes = i % 3 !== 0;
+    const jitter = ((i * 37) % 11) / 100; // 0.00 - 0.10
+    return {
+      marketId: `${category}-${i}`,
+      category,
+      outcome: yes ? 'YES' : 'NO',
+      resolvedAt: i,
+      forecasts: {
+        sharp: yes ? 0.75 + jitter : 0.25 - jitter,
+        noisy: 0.4 + ((i * 53) % 20) / 100,
+        contrarian: yes ? 0.35 - jitter : 0.65 + jitter,
+      },
+    };
+  });
+}
+
+const signal = (agentName: string, fairProbability: number): AgentSignal =>
+  ({
+    agentName,
+    timestamp: Date.now(),
+    confidence: 0.8,
+    direction: fairProbability > 0.5 ? 'YES' : 'NO',
+    fairProbability,
+    keyDrivers: [],
+    riskFactors: [],
+    metadata: {},
+  }) as AgentSignal;
+
+describe('Fusion Weights', () => {
+  describe('fitFusionWeights', () => {
+    it('should learn to trust informative agents', () => {
+      const weightSet = fitFusionWeights(createExamples(90), { minCategoryExamples: 1000 });
+
+      expect(weightSet.trainingExamples).toBe(90);
+      expect(weightSet.version).toMatch(/^fw-\d{14}$/);
+      expect(weightSet.global.weights.sharp).toBeGreaterThan(weightSet.global.weights.noisy);
+      expect(weightSet.global.weights.sharp).toBeGreaterThan(weightSet.global.weights.contrarian);
+      expect(Object.keys(weightSet.byCategory)).toEqual([]);
+    });
+
+    it('should shrink weights with stronger regularization', () => {
+      const weak = fitFusionWeights(createExamples(60), { l2: 0.1 });
+      const strong = fitFusionWeights(createExamples(60), { l2: 100 });
+
+      const norm = (set: FusionWeightSet): number =>
+        Object.values(set.global.weights).reduce((sum, w) => sum + w * w, 0);
+      expect(norm(strong)).toBeLessThan(norm(weak));
+    });
+
+    it('should fit category models only with enough examples', () => {
+      const weightSet = fitFusionWeights(
+        [...createExamples(40, 'election'), ...createExamples(10, 'sports')],
+        { minCategoryExamples: 30, version: 'test-v1' }
+      );
+
+      expect(weightSet.version).toBe('test-v1');
+      expect(Object.keys(weightSet.byCategory)).toEqual(['election']);
+      expect(weightSet.byCategory.election.examples).toBe(40);
+    });
+
+    it('should reject empty training data', () => {
+      expect(() => fitFusionWeights([])).toThrow('without resolved examples');
+    });
+  });
+
+  describe('evaluation', () => {
+    it('should beat equal weighting when one agent is informative', () => {
+      const examples = createExamples(90);
+      const weightSet = fitFusionWeights(examples);
+
+      const learned = evaluateFusionWeights(weightSet, examples);
+      const equal = evaluateEqualWeightFusion(examples);
+
+      expect(learned.examples).toBe(90);
+      expect(learned.logLoss).toBeLessThan(equal.logLoss);
+      expect(learned.brierScore).toBeLessThan(equal.brierScore);
+    });
+
+    it('should evaluate on the most recent markets and refit on all', () => {
+      const weightSet = fitAndEvaluateFusionWeights(createExamples(50), 0.2);
+
+      expect(weightSet.trainingExamples).toBe(50);
+      expect(weightSet.evaluation!.learned.examples).toBe(10);
+      expect(weightSet.evaluation!.equalWeight.examples).toBe(10);
+    });
+  });
+
+  describe('applyFusionWeights', () => {
+    const weightSet: FusionWeightSet = {
+      version: 'v1',
+      createdAt: 0,
+      trainingExamples: 100,
+      l2: 1,
+      global: { intercept: 0, weights: { sharp: 1, noisy: 0 }, examples: 100 },
+      byCategory: {
+        sports: { intercept: 0, weights: { sharp: 0.5, noisy: 0.5 }, examples: 40 },
+      },
+    };
+
+    it('should combine agent log-odds and report normalized weights', () => {
+      const result = applyFusionWeights(
+        weightSet,
+        [signal('sharp', 0.7), signal('noisy', 0.2), signal('unknown', 0.9)],
+        'election'
+      );
+
+      expect(result!.model).toBe('global');
+      expect(result!.fairProbability).toBeCloseTo(0.7);
+      expect(result!.weights).toEqual({ sharp: 1, noisy: 0, unknown: 0 });
+    });
+
+    it('should use the category model when one exists', () => {
+      const result = applyFusionWeights(
+        weightSet,
+        [signal('sharp', 0.7), signal('noisy', 0.7)],
+        'sports'
+      );
+
+      expect(result!.model).toBe('sports');
+      expect(result!.fairProbability).toBeCloseTo(0.7);
+      expect(result!.weights.sharp).toBeCloseTo(0.5);
+    });
+
+    it('should return null when no agent is in the weight set', () => {
+      expect(applyFusionWeights(weightSet, [signal('unknown', 0.6)])).toBeNull();
+    });
+  });
+
+  describe('createFusionWeightsLoader', () => {
+    const config = { signalFusion: { learnedWeightsVersion: 'v1' } } as EngineConfig;
+
+    it('should load the configured version once and cache it', async () => {
+      const weightSet = fitFusionWeights(createExamples(30));
+      const database = { getFusionWeightSet: vi.fn().mockResolvedValue(weightSet) };
+      const loader = createFusionWeightsLoader(database, config);
+
+      expect(await loader()).toBe(weightSet);
+      expect(await loader()).toBe(weightSet);
+      expect(database.getFusionWeightSet).toHaveBeenCalledTimes(1);
+      expect(database.getFusionWeightSet).toHaveBeenCalledWith('v1');
+    });
+
+    it('should return null when loading fails', async () => {
+      const loader = createFusionWeightsLoader(
+        { getFusionWeightSet: vi.fn().mockRejectedValue(new Error('connection refused')) },
+        config
+      );
+
+      expect(await loader()).toBeNull();
+    });
+  });
+});
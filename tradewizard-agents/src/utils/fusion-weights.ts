@@ -0,0 +1,417 @@
+/**
+ * Learned Signal Fusion Weights
+ *
+ * Fits agent weights for signal fusion from resolved markets instead of the
+ * hand-tuned per-agent-type multipliers. The model is a logistic stack:
+ *
+ *   P(YES) = sigmoid(intercept + sum_a w_a * logit(p_a))
+ *
+ * where p_a is agent a's final fair probability on the market. Agents that did
+ * not run contribute logit(0.5) = 0. Weights are L2-regularized toward zero for
+ * the global model, and per-category models are regularized toward the global
+ * weights so sparse categories stay close to it.
+ *
+ * Fitted weight sets are versioned and stored in the database; the fusion node
+ * selects one via config.signalFusion.mode / learnedWeightsVersion.
+ */
+
+import type { AgentSignal } from '../models/types.js';
+import type { EngineConfig } from '../config/index.js';
+import type { DatabasePersistence } from '../database/persistence.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A resolved market with each agent's final forecast
+ */
+export interface FusionTrainingExample {
+  marketId: string;
+  category: string;
+  outcome: 'YES' | 'NO';
+  resolvedAt: number;
+  forecasts: Record<string, number>; // agentName -> fair probability
+}
+
+/**
+ * Logistic stacking model over agent logits
+ */
+export interface LogisticStackModel {
+  intercept: number;
+  weights: Record<string, number>;
+  examples: number;
+}
+
+/**
+ * Forecast quality of a fusion method on a set of examples
+ */
+export interface FusionEvaluation {
+  examples: number;
+  brierScore: number;
+  logLoss: number;
+}
+
+/**
+ * Versioned set of learned fusion weights
+ */
+export interface FusionWeightSet {
+  version: string;
+  createdAt: number;
+  trainingExamples: number;
+  l2: number;
+  global: LogisticStackModel;
+  byCategory: Record<string, LogisticStackModel>;
+  /** Holdout comparison against an equal-weight average, when computed */
+  evaluation?: {
+    learned: FusionEvaluation;
+    equalWeight: FusionEvaluation;
+  };
+}
+
+/**
+ * Options for fitting fusion weights
+ */
+export interface FusionFitOptions {
+  /** L2 penalty strength (default: 1.0) */
+  l2?: number;
+  /** Minimum resolved markets before a category gets its own model (default: 30) */
+  minCategoryExamples?: number;
+  /** Gradient descent iterations (default: 2000) */
+  iterations?: number;
+  /** Gradient descent step size (default: 0.1) */
+  learningRate?: number;
+  /** Version label (default: timestamp-based) */
+  version?: string;
+}
+
+/**
+ * Result of applying a weight set to live agent signals
+ */
+export interface LearnedFusionResult {
+  fairProbability: number;
+  weights: Record<string, number>;
+  model: string; // 'global' or the category name
+}
+
+/**
+ * Loads the active fusion weight set
+ */
+export type FusionWeightsLoader = () => Promise<FusionWeightSet | null>;
+
+// ============================================================================
+// Fitting
+// ============================================================================
+
+const EPSILON = 0.001;
+
+function logit(probability: number): number {
+  const p = Math.max(EPSILON, Math.min(1 - EPSILON, probability));
+  return Math.log(p / (1 - p));
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+function predictModel(model: LogisticStackModel, forecasts: Record<string, number>): number {
+  let z = model.intercept;
+  for (const [agentName, probability] of Object.entries(forecasts)) {
+    z += (model.weights[agentName] ?? 0) * logit(probability);
+  }
+  return sigmoid(z);
+}
+
+/**
+ * Fit one logistic stacking model with full-batch gradient descent
+ */
+function fitLogisticStack(
+  examples: FusionTrainingExample[],
+  agents: string[],
+  l2: number,
+  iterations: number,
+  learningRate: number,
+  prior?: LogisticStackModel
+): LogisticStackModel {
+  const features = examples.map((example) =>
+    agents.map((agent) =>
+      example.forecasts[agent] !== undefined ? logit(example.forecasts[agent]) : 0
+    )
+  );
+  const targets = examples.map((example) => (example.outcome === 'YES' ? 1 : 0));
+  const priorWeights = agents.map((agent) => prior?.weights[agent] ?? 0);
+
+  let intercept = prior?.intercept ?? 0;
+  const weights = [...priorWeights];
+  const n = examples.length;
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    let interceptGradient = 0;
+    const gradient = new Array<number>(agents.length).fill(0);
+
+    for (let i = 0; i < n; i++) {
+      let z = intercept;
+      for (let j = 0; j < agents.length; j++) {
+        z += weights[j] * features[i][j];
+      }
+      const residual = sigmoid(z) - targets[i];
+      interceptGradient += residual;
+      for (let j = 0; j < agents.length; j++) {
+        gradient[j] += residual * features[i][j];
+      }
+    }
+
+    intercept -= (learningRate * interceptGradient) / n;
+    for (let j = 0; j < agents.length; j++) {
+      const penalty = l2 * (weights[j] - priorWeights[j]);
+      weights[j] -= learningRate * (gradient[j] / n + penalty / n);
+    }
+  }
+
+  return {
+    intercept,
+    weights: Object.fromEntries(agents.map((agent, j) => [agent, weights[j]])),
+    examples: n,
+  };
+}
+
+/**
+ * Fit a fusion weight set from resolved markets
+ *
+ * @param examples - Resolved markets with agents' final forecasts
+ * @param options - Fitting options
+ * @returns Versioned weight set (global model plus per-category models)
+ */
+export function fitFusionWeights(
+  examples: FusionTrainingExample[],
+  options: FusionFitOptions = {}
+): FusionWeightSet {
+  if (examples.length === 0) {
+    throw new Error('Cannot fit fusion weights without resolved examples');
+  }
+
+  const l2 = options.l2 ?? 1.0;
+  const minCategoryExamples = options.minCategoryExamples ?? 30;
+  const iterations = options.iterations ?? 2000;
+  const learningRate = options.learningRate ?? 0.1;
+  const agents = [...new Set(examples.flatMap((example) => Object.keys(example.forecasts)))].sort();
+
+  const global = fitLogisticStack(examples, agents, l2, iterations, learningRate);
+
+  const byCategory: Record<string, LogisticStackModel> = {};
+  const categories = [...new Set(examples.map((example) => example.category))].sort();
+  for (const category of categories) {
+    const categoryExamples = examples.filter((example) => example.category === category);
+    if (categoryExamples.length >= minCategoryExamples) {
+      byCategory[category] = fitLogisticStack(
+        categoryExamples,
+        agents,
+        l2,
+        iterations,
+        learningRate,
+        global
+      );
+    }
+  }
+
+  const createdAt = Date.now();
+  return {
+    version:
+      options.version ??
+      `fw-${new Date(createdAt)
+        .toISOString()
+        .replace(/[-:TZ.]/g, '')
+        .slice(0, 14)}`,
+    createdAt,
+    trainingExamples: examples.length,
+    l2,
+    global,
+    byCategory,
+  };
+}
+
+// ============================================================================
+// Prediction and Evaluation
+// ============================================================================
+
+/**
+ * Predict P(YES) for a resolved-market example with a weight set
+ */
+export function predictFusion(weightSet: FusionWeightSet, example: FusionTrainingExample): number {
+  return predictModel(
+    weightSet.byCategory[example.category] ?? weightSet.global,
+    example.forecasts
+  );
+}
+
+/**
+ * Apply a weight set to live agent signals
+ *
+ * Reported weights are each agent's share of the positive learned weights, so
+ * they stay comparable with heuristic fusion weights (non-negative, sum to 1).
+ *
+ * @param weightSet - Learned weight set
+ * @param signals - Agent signals for the market
+ * @param category - Market category (event type)
+ * @returns Fused probability and weights, or null if the set knows none of the agents
+ */
+export function applyFusionWeights(
+  weightSet: FusionWeightSet,
+  signals: AgentSignal[],
+  category?: string
+): LearnedFusionResult | null {
+  const categoryModel = category ? weightSet.byCategory[category] : undefined;
+  const model = categoryModel ?? weightSet.global;
+
+  const known = signals.filter((signal) => model.weights[signal.agentName] !== undefined);
+  if (known.length === 0) {
+    return null;
+  }
+
+  const forecasts = Object.fromEntries(
+    known.map((signal) => [signal.agentName, signal.fairProbability])
+  );
+  const fairProbability = predictModel(model, forecasts);
+
+  const positive = known.map((signal) => Math.max(0, model.weights[signal.agentName]));
+  const total = positive.reduce((sum, weight) => sum + weight, 0);
+  const weights: Record<string, number> = {};
+  for (const signal of signals) {
+    weights[signal.agentName] = 0;
+  }
+  known.forEach((signal, index) => {
+    weights[signal.agentName] = total > 0 ? positive[index] / total : 1 / known.length;
+  });
+
+  return {
+    fairProbability,
+    weights,
+    model: categoryModel ? category! : 'global',
+  };
+}
+
+function score(predictions: number[], examples: FusionTrainingExample[]): FusionEvaluation {
+  let brierSum = 0;
+  let logLossSum = 0;
+  examples.forEach((example, index) => {
+    const actual = example.outcome === 'YES' ? 1 : 0;
+    const p = Math.max(EPSILON, Math.min(1 - EPSILON, predictions[index]));
+    brierSum += Math.pow(predictions[index] - actual, 2);
+    logLossSum += -Math.log(actual === 1 ? p : 1 - p);
+  });
+
+  const n = Math.max(examples.length, 1);
+  return { examples: examples.length, brierScore: brierSum / n, logLoss: logLossSum / n };
+}
+
+/**
+ * Score a weight set on examples
+ */
+export function evaluateFusionWeights(
+  weightSet: FusionWeightSet,
+  examples: FusionTrainingExample[]
+): FusionEvaluation {
+  return score(
+    examples.map((example) => predictFusion(weightSet, example)),
+    examples
+  );
+}
+
+/**
+ * Score the equal-weight average of agent forecasts on examples
+ */
+export function evaluateEqualWeightFusion(examples: FusionTrainingExample[]): FusionEvaluation {
+  return score(
+    examples.map((example) => {
+      const probabilities = Object.values(example.forecasts);
+      return probabilities.length > 0
+        ? probabilities.reduce((sum, p) => sum + p, 0) / probabilities.length
+        : 0.5;
+    }),
+    examples
+  );
+}
+
+/**
+ * Fit on the older resolved markets and compare against equal weighting on
+ * the most recent ones, then refit on everything
+ *
+ * @param examples - Resolved markets
+ * @param holdoutFraction - Share of the most recent markets held out (default: 0.2)
+ * @param options - Fitting options
+ * @returns Weight set fitted on all examples, with holdout evaluation attached
+ */
+export function fitAndEvaluateFusionWeights(
+  examples: FusionTrainingExample[],
+  holdoutFraction: number = 0.2,
+  options: FusionFitOptions = {}
+): FusionWeightSet {
+  const sorted = [...examples].sort((a, b) => a.resolvedAt - b.resolvedAt);
+  const holdoutSize = Math.floor(sorted.length * holdoutFraction);
+  const weightSet = fitFusionWeights(sorted, options);
+
+  if (holdoutSize === 0 || holdoutSize === sorted.length) {
+    return weightSet;
+  }
+
+  const training = sorted.slice(0, sorted.length - holdoutSize);
+  const holdout = sorted.slice(sorted.length - holdoutSize);
+  const trainedOnly = fitFusionWeights(training, options);
+
+  return {
+    ...weightSet,
+    evaluation: {
+      learned: evaluateFusionWeights(trainedOnly, holdout),
+      equalWeight: evaluateEqualWeightFusion(holdout),
+    },
+  };
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Create a loader for the weight set selected in config
+ *
+ * Loads config.signalFusion.learnedWeightsVersion, or the latest stored set
+ * when unset. The result is cached; failures degrade to null so fusion falls
+ * back to heuristic weights.
+ *
+ * @param database - Database persistence layer
+ * @param config - Engine configuration
+ * @param cacheTtlMs - How long to reuse the loaded set
+ * @returns Loader for the signal fusion node
+ */
+export function createFusionWeightsLoader(
+  database: Pick<DatabasePersistence, 'getFusionWeightSet'>,
+  config: EngineConfig,
+  cacheTtlMs: number = 10 * 60 * 1000
+): FusionWeightsLoader {
+  let cached: { weightSet: FusionWeightSet | null; loadedAt: number } | null = null;
+
+  return async () => {
+    if (cached && Date.now() - cached.loadedAt <= cacheTtlMs) {
+      return cached.weightSet;
+    }
+
+    try {
+      const weightSet = await database.getFusionWeightSet(
+        config.signalFusion.learnedWeightsVersion
+      );
+      if (!weightSet) {
+        console.warn(
+          `[FusionWeights] No learned weights found (version: ${config.signalFusion.learnedWeightsVersion ?? 'latest'})`
+        );
+      }
+      cached = { weightSet, loadedAt: Date.now() };
+      return weightSet;
+    } catch (error) {
+      console.warn(
+        '[FusionWeights] Failed to load learned weights:',
+        error instanceof Error ? error.message : String(error)
+      );
+      return null;
+    }
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Graph Node Context
+ *
+ * Resolves which LangGraph node issued the current runnable call, using the
+ * async-local run config LangChain propagates through every invocation.
+ */
+
+import { AsyncLocalStorageProviderSingleton } from '@langchain/core/singletons';
+
+/**
+ * Resolve the top-level LangGraph node for the current call
+ *
+ * Nested graphs (ReAct agents invoked inside a node) report their own inner node
+ * name, so the first segment of the checkpoint namespace is used instead.
+ *
+ * @returns Node name, or null when called outside a graph run
+ */
+export function getCurrentGraphNode(): string | null {
+  const runConfig = AsyncLocalStorageProviderSingleton.getRunnableConfig() as
+    | { metadata?: Record<string, unknown> }
+    | undefined;
+  const metadata = runConfig?.metadata;
+  if (!metadata) {
+    return null;
+  }
+
+  const namespace = metadata.langgraph_checkpoint_ns ?? metadata.checkpoint_ns;
+  if (typeof namespace === 'string' && namespace.length > 0) {
+    return namespace.split('|')[0].split(':')[0];
+  }
+
+  return typeof metadata.langgraph_node === 'string' ? metadata.langgraph_node : null;
+}
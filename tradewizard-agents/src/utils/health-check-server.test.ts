@@ -11,6 +11,7 @@ import {
   type HealthCheckServerConfig,
 } from './health-check-server.js';
 import type { MonitorService, HealthStatus } from './monitor-service.js';
+import { createWorkflowProgressBus } from './workflow-progress.js';
 
 describe('HealthCheckServer', () => {
   let server: HealthCheckServer;
@@ -271,6 +272,71 @@ describe('HealthCheckServer', () => {
     });
   });
 
+  describe('progress event stream', () => {
+    it('should replay in-flight events and stream new ones over SSE', async () => {
+      const progressBus = createWorkflowProgressBus();
+      const streamServer = createHealthCheckServer(mockMonitor, {
+        port: config.port + 1,
+        progressBus,
+      });
+      await streamServer.start();
+
+      progressBus.publish('market-1', { type: 'analysis_started' });
+      progressBus.publish('market-2', { type: 'analysis_started' });
+      progressBus.publish('market-1', { type: 'node_started', node: 'market_ingestion' });
+
+      const stream = await openEventStream(config.port + 1, '/events?conditionId=market-1');
+      expect(stream.statusCode).toBe(200);
+      expect(stream.contentType).toBe('text/event-stream');
+      expect(stream.allowOrigin).toBe('*');
+
+      progressBus.publish('market-1', {
+        type: 'node_finished',
+        node: 'market_ingestion',
+        durationMs: 12,
+      });
+      const body = await stream.readUntil('event: node_finished');
+      stream.close();
+
+      expect(body).toContain('id: 1\nevent: analysis_started\n');
+      expect(body).toContain('event: node_started');
+      expect(body).not.toContain('"conditionId":"market-2"');
+      const finished = body.split('\n').find((line) => line.includes('"node_finished"'))!;
+      expect(JSON.parse(finished.slice('data: '.length))).toMatchObject({
+        conditionId: 'market-1',
+        node: 'market_ingestion',
+        durationMs: 12,
+      });
+
+      await streamServer.stop();
+      expect(progressBus.getSubscriberCount()).toBe(0);
+    });
+
+    it('should allow the configured origin to subscribe', async () => {
+      const streamServer = createHealthCheckServer(mockMonitor, {
+        port: config.port + 1,
+        progressBus: createWorkflowProgressBus(),
+        sseAllowedOrigin: 'https://dashboard.example.com',
+      });
+      await streamServer.start();
+
+      const stream = await openEventStream(config.port + 1, '/events');
+      stream.close();
+
+      expect(stream.allowOrigin).toBe('https://dashboard.example.com');
+
+      await streamServer.stop();
+    });
+
+    it('should return 404 when no progress bus is configured', async () => {
+      await server.start();
+
+      const response = await makeRequest(config.port, '/events', 'GET');
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
   describe('error handling', () => {
     it('should return 404 for unknown endpoints', async () => {
       await server.start();
@@ -423,3 +489,45 @@ function makeRawRequest(
     req.end();
   });
 }
+
+/**
+ * Open an SSE stream and collect its body
+ */
+function openEventStream(
+  port: number,
+  path: string
+): Promise<{
+  statusCode: number;
+  contentType: string | undefined;
+  allowOrigin: string | string[] | undefined;
+  readUntil: (marker: string) => Promise<string>;
+  close: () => void;
+}> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({ hostname: 'localhost', port, path, method: 'GET' }, (res) => {
+      let body = '';
+      const waiters: Array<{ marker: string; resolve: (body: string) => void }> = [];
+      res.on('data', (chunk) => {
+        body += chunk.toString();
+        for (const waiter of waiters.filter((w) => body.includes(w.marker))) {
+          waiters.splice(waiters.indexOf(waiter), 1);
+          waiter.resolve(body);
+        }
+      });
+
+      resolve({
+        statusCode: res.statusCode || 0,
+        contentType: res.headers['content-type'],
+        allowOrigin: res.headers['access-control-allow-origin'],
+        readUntil: (marker) =>
+          body.includes(marker)
+            ? Promise.resolve(body)
+            : new Promise((resolveBody) => waiters.push({ marker, resolve: resolveBody })),
+        close: () => req.destroy(),
+      });
+    });
+
+    req.on('error', reject);
+    req.end();
+  });
+}
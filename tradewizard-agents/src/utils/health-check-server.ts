@@ -2,11 +2,13 @@
  * Health Check Server
  *
  * Provides HTTP endpoints for monitoring the Automated Market Monitor service.
- * Exposes health status, service metrics, and manual trigger capabilities.
+ * Exposes health status, service metrics, manual trigger capabilities, and a
+ * Server-Sent Events stream of in-flight analysis progress.
  */
 
 import http from 'node:http';
 import type { MonitorService } from './monitor-service.js';
+import type { WorkflowProgressBus, WorkflowProgressEvent } from './workflow-progress.js';
 
 /**
  * Health check server configuration
@@ -14,6 +16,12 @@ import type { MonitorService } from './monitor-service.js';
 export interface HealthCheckServerConfig {
   port: number;
   enableManualTriggers?: boolean;
+  /** Source of workflow progress events; enables GET /events when set */
+  progressBus?: WorkflowProgressBus;
+  /** Interval between SSE keep-alive comments (default: 15000) */
+  sseHeartbeatMs?: number;
+  /** Access-Control-Allow-Origin sent with GET /events so dashboards on other origins can subscribe (default: '*') */
+  sseAllowedOrigin?: string;
 }
 
 /**
@@ -47,6 +55,7 @@ export interface HealthCheckServer {
 export class HealthCheckServerImpl implements HealthCheckServer {
   private server: http.Server | null = null;
   private running: boolean = false;
+  private eventStreams = new Set<http.ServerResponse>();
 
   constructor(
     private monitor: MonitorService,
@@ -94,6 +103,12 @@ export class HealthCheckServerImpl implements HealthCheckServer {
       return;
     }
 
+    // Open event streams would otherwise keep close() waiting indefinitely
+    for (const stream of this.eventStreams) {
+      stream.end();
+    }
+    this.eventStreams.clear();
+
     return new Promise((resolve, reject) => {
       this.server!.close((error) => {
         if (error) {
@@ -143,6 +158,13 @@ export class HealthCheckServerImpl implements HealthCheckServer {
         return;
       }
 
+      // Workflow progress stream (if a progress bus is configured)
+      const { pathname, searchParams } = new URL(url, 'http://localhost');
+      if (pathname === '/events' && method === 'GET' && this.config.progressBus) {
+        this.handleEventStream(req, res, this.config.progressBus, searchParams.get('conditionId'));
+        return;
+      }
+
       // 404 Not Found
       this.sendResponse(res, 404, { error: 'Not Found' });
     } catch (error) {
@@ -226,6 +248,54 @@ export class HealthCheckServerImpl implements HealthCheckServer {
     });
   }
 
+  /**
+   * Handle Server-Sent Events stream of workflow progress
+   *
+   * Replays buffered events of in-flight analyses, then streams new events
+   * until the client disconnects. `?conditionId=` limits the stream to one market.
+   */
+  private handleEventStream(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    progressBus: WorkflowProgressBus,
+    conditionId: string | null
+  ): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx)
+      'Access-Control-Allow-Origin': this.config.sseAllowedOrigin ?? '*',
+    });
+    res.write('retry: 3000\n\n');
+
+    const filter = conditionId || undefined;
+    for (const event of progressBus.getBufferedEvents(filter)) {
+      this.writeEvent(res, event);
+    }
+
+    const unsubscribe = progressBus.subscribe((event) => this.writeEvent(res, event), filter);
+    const heartbeat = setInterval(() => {
+      res.write(': keep-alive\n\n');
+    }, this.config.sseHeartbeatMs ?? 15000);
+    this.eventStreams.add(res);
+
+    const cleanup = (): void => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      this.eventStreams.delete(res);
+    };
+    req.on('close', cleanup);
+    res.on('close', cleanup);
+  }
+
+  /**
+   * Write a progress event in SSE format
+   */
+  private writeEvent(res: http.ServerResponse, event: WorkflowProgressEvent): void {
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  }
+
   /**
    * Send JSON response
    */
@@ -255,6 +325,7 @@ export function createHealthCheckServerFromEnv(monitor: MonitorService): HealthC
   const config: HealthCheckServerConfig = {
     port: parseInt(process.env.HEALTH_CHECK_PORT || '3000', 10),
     enableManualTriggers: process.env.ENABLE_MANUAL_TRIGGERS === 'true',
+    sseAllowedOrigin: process.env.SSE_ALLOWED_ORIGIN,
   };
 
   return createHealthCheckServer(monitor, config);
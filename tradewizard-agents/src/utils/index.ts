@@ -23,6 +23,87 @@ export {
   type CachedData,
   type DataSourceConfig,
 } from './data-integration.js';
+export {
+  FilePollingSource,
+  HttpPollingSource,
+  PollingSourceError,
+  registerPollingSource,
+  createPollingSource,
+  parsePollFeed,
+  normalizePollRow,
+  aggregatePolls,
+  buildPollingData,
+  type PollRecord,
+  type PollingSource,
+  type PollingSourceSpec,
+  type PollingSourceFactory,
+  type PollAggregationOptions,
+  type PollAggregate,
+} from './polling-providers.js';
+export {
+  RedditSocialProvider,
+  JsonFeedSocialProvider,
+  SocialProviderError,
+  registerSocialProvider,
+  createSocialProvider,
+  aggregateSocialSentiment,
+  buildSocialQueryTerms,
+  scoreTextSentiment,
+  type SocialMention,
+  type SocialProvider,
+  type SocialProviderQuery,
+  type SocialProviderOptions,
+  type SocialProviderFactory,
+} from './social-providers.js';
+export {
+  NewsDataNewsProvider,
+  RssNewsProvider,
+  LocalArchiveNewsProvider,
+  NewsProviderClient,
+  NewsProviderError,
+  registerNewsProvider,
+  createNewsProvider,
+  createNewsClient,
+  toNewsQuery,
+  toNewsDataArticle,
+  selectArticles,
+  parseNewsFeed,
+  normalizeArchiveRecord,
+  type NewsEndpoint,
+  type NewsQuery,
+  type NewsProvider,
+  type NewsClient,
+  type ArticleFields,
+  type NewsProviderFactory,
+  type NewsProviderClientOptions,
+  type RssNewsProviderOptions,
+  type LocalArchiveNewsProviderOptions,
+} from './news-providers.js';
+export {
+  FileDomainDataSource,
+  HttpDomainDataSource,
+  DomainDataSourceError,
+  setSportsStatsSources,
+  setCryptoPriceSources,
+  getSportsStatsSources,
+  getCryptoPriceSources,
+  parseTeamStatsFeed,
+  parseCryptoPriceFeed,
+  loadSportsContext,
+  loadCryptoContext,
+  type TeamStats,
+  type CryptoAssetSnapshot,
+  type DomainDataSource,
+  type DomainDataSourceSpec,
+  type SportsStatsSource,
+  type CryptoPriceSource,
+} from './domain-data-sources.js';
+export {
+  detectSportsOrCrypto,
+  SPORTS_MARKET_TERMS,
+  CRYPTO_MARKET_TERMS,
+  type MarketCategory,
+} from './market-category.js';
 export {
   updateAgentMetrics,
   calculateAccuracyScore,
@@ -130,3 +211,66 @@ export {
   type EvolutionEvent,
   type EvolutionEventType,
 } from './evolution-tracker.js';
+export {
+  CassetteChatModel,
+  LLMCassette,
+  LLMCassetteMissError,
+  getLLMCassette,
+  resetLLMCassettes,
+  wrapWithCassette,
+  hashPrompt,
+  normalizePromptText,
+  type LLMCassetteConfig,
+  type LLMCassetteMode,
+  type LLMCassetteFile,
+} from './llm-cassette.js';
+export {
+  PromptRegistry,
+  defaultPromptRegistry,
+  registerPromptTemplate,
+  setPromptExperiment,
+  resolvePrompt,
+  configurePromptRegistry,
+  hashToUnitInterval,
+  BASELINE_PROMPT_VERSION,
+  type PromptTemplate,
+  type PromptAssignment,
+  type PromptExperiment,
+  type ResolvedPrompt,
+} from './prompt-registry.js';
+export {
+  StoryTracker,
+  MemoryStoryStore,
+  SupabaseStoryStore,
+  clusterArticles,
+  storySimilarity,
+  summarizeStory,
+  buildNarrativeTimeline,
+  DEFAULT_STORY_CLUSTERING_OPTIONS,
+  type StoryArticle,
+  type StoryCluster,
+  type StoryClusteringOptions,
+  type StoryStore,
+} from './story-clustering.js';
+export {
+  SourceRegistry,
+  defaultSourceRegistry,
+  assessSource,
+  configureSourceRegistry,
+  citeSignal,
+  citationStrength,
+  mergeCitations,
+  sourceDomain,
+  tierForCredibility,
+  newsCitationCandidates,
+  newsToolCitationCandidates,
+  searchResultCitationCandidates,
+  SOURCE_TIER_CREDIBILITY,
+  DEFAULT_SOURCE_REGISTRY_OPTIONS,
+  DEFAULT_CITATION_OPTIONS,
+  type CitationCandidate,
+  type CitationOptions,
+  type SourceAssessment,
+  type SourceOutcome,
+  type SourceRegistryOptions,
+} from './source-credibility.js';
@@ -0,0 +1,180 @@
+/**
+ * Unit tests for the LLM cassette layer
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import { HumanMessage, SystemMessage } from '@langchain/core/messages';
+import { DeterministicChatModel } from '../backtest/deterministic-chat-model.js';
+import type { EngineConfig } from '../config/index.js';
+import { createLLMInstance } from './llm-factory.js';
+import {
+  CassetteChatModel,
+  LLMCassetteMissError,
+  hashPrompt,
+  normalizePromptText,
+  resetLLMCassettes,
+  wrapWithCassette,
+  type LLMCassetteConfig,
+  type LLMCassetteFile,
+} from './llm-cassette.js';
+
+describe('LLM Cassette', () => {
+  let tempDir: string;
+  let cassettePath: string;
+  let liveCalls: number;
+
+  const createLiveModel = (): DeterministicChatModel =>
+    new DeterministicChatModel(() => {
+      liveCalls++;
+      return { fairProbability: 0.42, summary: `live response ${liveCalls}` };
+    });
+
+  const cassette = (mode: 'record' | 'replay', strict = false): LLMCassetteConfig => ({
+    mode,
+    path: cassettePath,
+    strict,
+  });
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'llm-cassette-'));
+    cassettePath = join(tempDir, 'nested', 'cassette.json');
+    liveCalls = 0;
+    resetLLMCassettes();
+  });
+
+  afterEach(async () => {
+    resetLLMCassettes();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('normalizePromptText', () => {
+    it('should collapse whitespace and mask timestamps', () => {
+      expect(normalizePromptText('  Current time:\n\n2024-10-01T12:30:00.000Z  (1727785800000) ')).toBe(
+        'Current time: <timestamp> (<timestamp>)'
+      );
+    });
+  });
+
+  describe('hashPrompt', () => {
+    it('should ignore formatting and timestamp differences', () => {
+      const a = hashPrompt([new HumanMessage('Analyze market\nat 2024-10-01T12:30:00Z')]);
+      const b = hashPrompt([new HumanMessage('Analyze   market at 2025-01-15T08:00:00Z')]);
+      expect(a).toBe(b);
+    });
+
+    it('should distinguish message roles and bound tools', () => {
+      const human = hashPrompt([new HumanMessage('Analyze market')]);
+      expect(hashPrompt([new SystemMessage('Analyze market')])).not.toBe(human);
+      expect(
+        hashPrompt([new HumanMessage('Analyze market')], [{ function: { name: 'extract' } }])
+      ).not.toBe(human);
+    });
+  });
+
+  describe('record and replay', () => {
+    it('should record responses to disk and replay them without the provider', async () => {
+      const recorder = wrapWithCassette(createLiveModel(), cassette('record'));
+      const recorded = await recorder.invoke([new HumanMessage('What is the fair price?')]);
+      expect(liveCalls).toBe(1);
+
+      const file = JSON.parse(await readFile(cassettePath, 'utf-8')) as LLMCassetteFile;
+      const entries = Object.values(file.entries);
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({ agent: 'unknown', model: 'deterministic' });
+
+      // Fresh process state, replay strictly
+      resetLLMCassettes();
+      const player = wrapWithCassette(createLiveModel(), cassette('replay', true));
+      const replayed = await player.invoke([new HumanMessage('What is the fair price?')]);
+
+      expect(liveCalls).toBe(1);
+      expect(replayed.content).toBe(recorded.content);
+    });
+
+    it('should replay structured output', async () => {
+      const schema = z.object({ fairProbability: z.number().min(0).max(1) });
+
+      const recorder = wrapWithCassette(createLiveModel(), cassette('record'));
+      const recorded = await recorder.withStructuredOutput(schema).invoke('Estimate probability');
+
+      resetLLMCassettes();
+      const player = wrapWithCassette(createLiveModel(), cassette('replay', true));
+      const replayed = await player.withStructuredOutput(schema).invoke('Estimate probability');
+
+      expect(recorded).toEqual({ fairProbability: 0.42 });
+      expect(replayed).toEqual(recorded);
+      expect(liveCalls).toBe(1);
+    });
+
+    it('should replay repeated identical prompts in recorded order', async () => {
+      const recorder = wrapWithCassette(createLiveModel(), cassette('record'));
+      await recorder.invoke('Same prompt');
+      await recorder.invoke('Same prompt');
+
+      resetLLMCassettes();
+      const player = wrapWithCassette(createLiveModel(), cassette('replay', true));
+      const first = await player.invoke('Same prompt');
+      const second = await player.invoke('Same prompt');
+      const third = await player.invoke('Same prompt');
+
+      expect(first.content).toContain('live response 1');
+      expect(second.content).toContain('live response 2');
+      expect(third.content).toContain('live response 2');
+    });
+
+    it('should fail on unrecorded prompts in strict mode', async () => {
+      const player = wrapWithCassette(createLiveModel(), cassette('replay', true));
+
+      await expect(player.invoke('Never recorded')).rejects.toBeInstanceOf(LLMCassetteMissError);
+      expect(liveCalls).toBe(0);
+    });
+
+    it('should call the provider and record misses in non-strict replay mode', async () => {
+      const player = wrapWithCassette(createLiveModel(), cassette('replay'));
+      await player.invoke('Not yet recorded');
+      await player.invoke('Not yet recorded');
+
+      expect(liveCalls).toBe(1);
+    });
+
+    it('should overwrite stale recordings in record mode', async () => {
+      await wrapWithCassette(createLiveModel(), cassette('record')).invoke('Prompt');
+
+      resetLLMCassettes();
+      await wrapWithCassette(createLiveModel(), cassette('record')).invoke('Prompt');
+
+      const file = JSON.parse(await readFile(cassettePath, 'utf-8')) as LLMCassetteFile;
+      const [entry] = Object.values(file.entries);
+      expect(entry.responses).toHaveLength(1);
+      expect(entry.responses[0].content).toContain('live response 2');
+    });
+  });
+
+  describe('wrapWithCassette', () => {
+    it('should return the original model when disabled', () => {
+      const model = createLiveModel();
+      expect(wrapWithCassette(model, undefined)).toBe(model);
+      expect(wrapWithCassette(model, { mode: 'off', path: cassettePath, strict: false })).toBe(model);
+    });
+  });
+
+  describe('createLLMInstance', () => {
+    it('should wrap provider instances when a cassette is configured', () => {
+      const config = {
+        llm: {
+          openai: { apiKey: 'test-key', defaultModel: 'gpt-4o-mini' },
+          cassette: cassette('replay', true),
+        },
+      } as EngineConfig;
+
+      const llm = createLLMInstance(config, 'openai', []);
+
+      expect(llm).toBeInstanceOf(CassetteChatModel);
+      expect((llm as unknown as CassetteChatModel).modelName).toBe('gpt-4o-mini');
+    });
+  });
+});
@@ -0,0 +1,424 @@
+/**
+ * LLM Cassette Layer
+ *
+ * Records prompt/response pairs from live LLM calls to a JSON file on disk and
+ * replays them on later runs, so a full workflow run can be reproduced exactly
+ * (e.g. a recommendation restored from a checkpoint) or executed in CI without
+ * provider access.
+ *
+ * Entries are keyed by agent name (the LangGraph node issuing the call), model
+ * name and a SHA-256 hash of the normalized prompt. Normalization collapses
+ * whitespace and masks timestamps so prompts that embed the current time still
+ * match their recording.
+ *
+ * Modes:
+ * - `record`: every call goes to the live provider and the response is saved
+ *   (replacing whatever was previously recorded for that key)
+ * - `replay`: recorded responses are served; unrecorded prompts go to the live
+ *   provider and are recorded, or fail with LLMCassetteMissError in strict mode
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { AIMessageChunk, type BaseMessage, type ToolCall } from '@langchain/core/messages';
+import type { ChatResult } from '@langchain/core/outputs';
+import type { Runnable } from '@langchain/core/runnables';
+import { getCurrentGraphNode } from './graph-node-context.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Cassette operating mode
+ */
+export type LLMCassetteMode = 'off' | 'record' | 'replay';
+
+/**
+ * Cassette configuration (mirrors EngineConfig.llm.cassette)
+ */
+export interface LLMCassetteConfig {
+  mode: LLMCassetteMode;
+  /** Path to the cassette JSON file */
+  path: string;
+  /** In replay mode, fail on unrecorded prompts instead of calling the provider */
+  strict: boolean;
+}
+
+/**
+ * Recorded model response
+ */
+export interface RecordedLLMResponse {
+  content: AIMessageChunk['content'];
+  toolCalls: ToolCall[];
+  usageMetadata?: AIMessageChunk['usage_metadata'];
+  recordedAt: number;
+}
+
+/**
+ * All responses recorded for one cassette key, in call order
+ */
+export interface LLMCassetteEntry {
+  agent: string;
+  model: string;
+  promptHash: string;
+  responses: RecordedLLMResponse[];
+}
+
+/**
+ * On-disk cassette format
+ */
+export interface LLMCassetteFile {
+  version: 1;
+  entries: Record<string, LLMCassetteEntry>;
+}
+
+/**
+ * Cassette key components
+ */
+export interface LLMCassetteKey {
+  agent: string;
+  model: string;
+  promptHash: string;
+}
+
+/**
+ * Raised in strict replay mode when a prompt has no recording
+ */
+export class LLMCassetteMissError extends Error {
+  constructor(
+    public key: LLMCassetteKey,
+    public cassettePath: string
+  ) {
+    super(
+      `No recorded LLM response for agent '${key.agent}', model '${key.model}', ` +
+        `prompt ${key.promptHash.slice(0, 12)} in cassette ${cassettePath}`
+    );
+    this.name = 'LLMCassetteMissError';
+  }
+}
+
+/**
+ * Agent name used for calls made outside a graph node
+ */
+const UNKNOWN_AGENT = 'unknown';
+
+/**
+ * Bound tool shape as passed through bindTools()
+ */
+type BoundTool = {
+  name?: string;
+  description?: string;
+  schema?: unknown;
+  function?: { name?: string; description?: string; parameters?: unknown };
+};
+
+// ============================================================================
+// Prompt Normalization
+// ============================================================================
+
+/**
+ * Normalize prompt text so semantically identical prompts hash identically
+ *
+ * Collapses whitespace and masks ISO-8601 timestamps and epoch-millisecond
+ * values, which prompts commonly embed for the current time.
+ *
+ * @param text - Prompt text
+ * @returns Normalized text
+ */
+export function normalizePromptText(text: string): string {
+  return text
+    .replace(/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?/g, '<timestamp>')
+    .replace(/\b1\d{12}\b/g, '<timestamp>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Hash the normalized prompt (messages plus any bound tool definitions)
+ *
+ * @param messages - Messages sent to the model
+ * @param tools - Tools bound to the model
+ * @returns Hex SHA-256 digest
+ */
+export function hashPrompt(messages: BaseMessage[], tools: unknown[] = []): string {
+  const normalized = {
+    messages: messages.map((message) => ({
+      role: message.getType(),
+      content: normalizePromptText(
+        typeof message.content === 'string' ? message.content : JSON.stringify(message.content)
+      ),
+      toolCalls: 'tool_calls' in message ? (message.tool_calls as ToolCall[] | undefined)?.map(
+        (call) => ({ name: call.name, args: call.args })
+      ) : undefined,
+    })),
+    tools: (tools as BoundTool[]).map((tool) => tool.function?.name ?? tool.name ?? 'tool'),
+  };
+
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+/**
+ * Build the string key for a cassette entry
+ */
+export function formatCassetteKey(key: LLMCassetteKey): string {
+  return `${key.agent}::${key.model}::${key.promptHash}`;
+}
+
+// ============================================================================
+// Cassette Storage
+// ============================================================================
+
+/**
+ * A cassette file loaded into memory
+ *
+ * Writes are serialized and performed atomically (temp file + rename) after
+ * every recorded response, so an interrupted run keeps what it recorded.
+ */
+export class LLMCassette {
+  private entries: Record<string, LLMCassetteEntry> = {};
+  private loadPromise: Promise<void> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+  private readonly replayCursors = new Map<string, number>();
+  private readonly rerecordedKeys = new Set<string>();
+
+  constructor(public readonly path: string) {}
+
+  /**
+   * Load the cassette from disk (once). A missing file is an empty cassette.
+   */
+  async load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async (): Promise<void> => {
+        try {
+          const content = await readFile(this.path, 'utf-8');
+          const parsed = JSON.parse(content) as LLMCassetteFile;
+          this.entries = parsed.entries ?? {};
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw new Error(
+              `Failed to load LLM cassette ${this.path}: ${error instanceof Error ? error.message : String(error)}`
+            );
+          }
+          this.entries = {};
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Get the next recorded response for a key
+   *
+   * Repeated identical calls replay responses in recorded order; once exhausted,
+   * the last response is served again.
+   */
+  next(key: LLMCassetteKey): RecordedLLMResponse | null {
+    const id = formatCassetteKey(key);
+    const entry = this.entries[id];
+    if (!entry || entry.responses.length === 0) {
+      return null;
+    }
+
+    const cursor = this.replayCursors.get(id) ?? 0;
+    this.replayCursors.set(id, cursor + 1);
+    return entry.responses[Math.min(cursor, entry.responses.length - 1)];
+  }
+
+  /**
+   * Record a response and persist the cassette
+   *
+   * The first recording for a key in this process replaces any responses
+   * recorded by earlier runs.
+   */
+  async record(key: LLMCassetteKey, response: RecordedLLMResponse): Promise<void> {
+    const id = formatCassetteKey(key);
+
+    if (!this.rerecordedKeys.has(id)) {
+      this.rerecordedKeys.add(id);
+      this.entries[id] = { ...key, responses: [] };
+    }
+    this.entries[id].responses.push(response);
+
+    await this.save();
+  }
+
+  /**
+   * Number of recorded keys
+   */
+  size(): number {
+    return Object.keys(this.entries).length;
+  }
+
+  /**
+   * Persist the cassette to disk
+   */
+  async save(): Promise<void> {
+    this.writeChain = this.writeChain.then(async () => {
+      const file: LLMCassetteFile = { version: 1, entries: this.entries };
+      const tempPath = `${this.path}.${process.pid}.tmp`;
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(tempPath, JSON.stringify(file, null, 2), 'utf-8');
+      await rename(tempPath, this.path);
+    });
+    return this.writeChain;
+  }
+}
+
+/**
+ * Loaded cassettes by path, so every agent in a run shares one file
+ */
+const cassettes = new Map<string, LLMCassette>();
+
+/**
+ * Get the shared cassette for a path
+ *
+ * @param path - Cassette file path
+ * @returns Cassette instance
+ */
+export function getLLMCassette(path: string): LLMCassette {
+  let cassette = cassettes.get(path);
+  if (!cassette) {
+    cassette = new LLMCassette(path);
+    cassettes.set(path, cassette);
+  }
+  return cassette;
+}
+
+/**
+ * Drop all loaded cassettes (useful for testing)
+ */
+export function resetLLMCassettes(): void {
+  cassettes.clear();
+}
+
+// ============================================================================
+// Cassette Chat Model
+// ============================================================================
+
+/**
+ * Chat model that serves responses from a cassette and delegates misses to a
+ * live model
+ *
+ * Structured output goes through BaseChatModel.withStructuredOutput(), which
+ * binds an `extract` tool on this wrapper; the bound tools are forwarded to the
+ * live model and included in the prompt hash.
+ */
+export class CassetteChatModel extends BaseChatModel {
+  private readonly inner: BaseChatModel;
+  private readonly cassetteConfig: LLMCassetteConfig;
+  private readonly boundTools: unknown[];
+  private readonly bindOptions: Record<string, unknown> | undefined;
+
+  constructor(
+    inner: BaseChatModel,
+    cassetteConfig: LLMCassetteConfig,
+    boundTools: unknown[] = [],
+    bindOptions?: Record<string, unknown>
+  ) {
+    super({});
+    this.inner = inner;
+    this.cassetteConfig = cassetteConfig;
+    this.boundTools = boundTools;
+    this.bindOptions = bindOptions;
+  }
+
+  _llmType(): string {
+    return 'cassette';
+  }
+
+  /**
+   * Model name used in cassette keys
+   */
+  get modelName(): string {
+    const inner = this.inner as unknown as { model?: string; modelName?: string };
+    return inner.model ?? inner.modelName ?? this.inner._llmType();
+  }
+
+  bindTools(tools: unknown[], kwargs?: Record<string, unknown>): CassetteChatModel {
+    return new CassetteChatModel(this.inner, this.cassetteConfig, tools, kwargs);
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this['ParsedCallOptions']
+  ): Promise<ChatResult> {
+    const cassette = getLLMCassette(this.cassetteConfig.path);
+    await cassette.load();
+
+    const key: LLMCassetteKey = {
+      agent: getCurrentGraphNode() ?? UNKNOWN_AGENT,
+      model: this.modelName,
+      promptHash: hashPrompt(messages, this.boundTools),
+    };
+
+    if (this.cassetteConfig.mode === 'replay') {
+      const recorded = cassette.next(key);
+      if (recorded) {
+        return toChatResult(recorded);
+      }
+      if (this.cassetteConfig.strict) {
+        throw new LLMCassetteMissError(key, cassette.path);
+      }
+    }
+
+    const live: Runnable<BaseMessage[], AIMessageChunk> =
+      this.boundTools.length > 0 && this.inner.bindTools
+        ? (this.inner.bindTools(this.boundTools as never, this.bindOptions as never) as Runnable<
+            BaseMessage[],
+            AIMessageChunk
+          >)
+        : (this.inner as unknown as Runnable<BaseMessage[], AIMessageChunk>);
+
+    const message = await live.invoke(messages, { signal: options.signal });
+    const response: RecordedLLMResponse = {
+      content: message.content,
+      toolCalls: message.tool_calls ?? [],
+      usageMetadata: message.usage_metadata,
+      recordedAt: Date.now(),
+    };
+
+    await cassette.record(key, response);
+    return toChatResult(response);
+  }
+}
+
+/**
+ * Convert a recorded response into a chat result
+ *
+ * Responses are returned as AIMessageChunk so structured output parsing (which
+ * requires a chunk carrying tool calls) behaves the same as for live models.
+ */
+function toChatResult(response: RecordedLLMResponse): ChatResult {
+  const message = new AIMessageChunk({
+    content: response.content,
+    tool_calls: response.toolCalls,
+    usage_metadata: response.usageMetadata,
+  });
+
+  return {
+    generations: [
+      {
+        text: typeof response.content === 'string' ? response.content : '',
+        message,
+      },
+    ],
+  };
+}
+
+/**
+ * Wrap a model with the cassette layer when enabled
+ *
+ * @param llm - Live model
+ * @param cassetteConfig - Cassette configuration (no-op when absent or mode is 'off')
+ * @returns Cassette-backed model, or the original model
+ */
+export function wrapWithCassette<T>(llm: T, cassetteConfig: LLMCassetteConfig | undefined): T {
+  if (!cassetteConfig || cassetteConfig.mode === 'off') {
+    return llm;
+  }
+
+  return new CassetteChatModel(llm as unknown as BaseChatModel, cassetteConfig) as unknown as T;
+}
@@ -11,6 +11,7 @@ import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
 import { ChatBedrockConverse } from '@langchain/aws';
 import type { EngineConfig } from '../config/index.js';
 import { BedrockClient } from './bedrock-client.js';
+import { wrapWithCassette } from './llm-cassette.js';
 import type { LLMConfig, NovaConfig } from '../config/llm-config.js';
 
 /**
@@ -31,9 +32,51 @@ export function supportsStructuredOutput(llm: LLMInstance): llm is ChatOpenAI |
  */
 export type LLMProvider = 'openai' | 'anthropic' | 'google' | 'nova';
 
+/**
+ * Request passed to an installed LLM instance override
+ */
+export interface LLMInstanceRequest {
+  config: EngineConfig;
+  preferredProvider: LLMProvider;
+  fallbackProviders: LLMProvider[];
+}
+
+/**
+ * Function that replaces provider instantiation (used by backtests and replay runs)
+ */
+export type LLMInstanceOverride = (request: LLMInstanceRequest) => LLMInstance;
+
+/**
+ * Process-wide LLM instance override. When set, createLLMInstance delegates to it
+ * instead of constructing a live provider client.
+ */
+let llmInstanceOverride: LLMInstanceOverride | null = null;
+
+/**
+ * Install (or clear with null) a process-wide LLM instance override
+ *
+ * Node factories call createLLMInstance when the workflow is built, so the
+ * override must be installed before createWorkflow() is invoked.
+ *
+ * @param override - Override function, or null to restore live providers
+ */
+export function setLLMInstanceOverride(override: LLMInstanceOverride | null): void {
+  llmInstanceOverride = override;
+}
+
+/**
+ * Check whether an LLM instance override is currently installed
+ */
+export function hasLLMInstanceOverride(): boolean {
+  return llmInstanceOverride !== null;
+}
+
 /**
  * Create an LLM instance respecting single/multi provider mode
  * 
+ * When `config.llm.cassette` is enabled the instance is wrapped with the
+ * record-and-replay cassette layer (see llm-cassette.ts).
+ * 
  * @param config - Engine configuration
  * @param preferredProvider - Preferred provider (ignored in single mode)
  * @param fallbackProviders - Fallback providers in order of preference (ignored in single mode)
@@ -43,6 +86,25 @@ export function createLLMInstance(
   config: EngineConfig,
   preferredProvider: LLMProvider = 'openai',
   fallbackProviders: LLMProvider[] = ['anthropic', 'google']
+): LLMInstance {
+  // Installed override (deterministic backtests, replay) takes precedence over live providers
+  if (llmInstanceOverride) {
+    return llmInstanceOverride({ config, preferredProvider, fallbackProviders });
+  }
+
+  return wrapWithCassette(
+    createProviderInstance(config, preferredProvider, fallbackProviders),
+    config.llm.cassette
+  );
+}
+
+/**
+ * Instantiate the live provider client for createLLMInstance
+ */
+function createProviderInstance(
+  config: EngineConfig,
+  preferredProvider: LLMProvider,
+  fallbackProviders: LLMProvider[]
 ): LLMInstance {
   // Single provider mode: use the configured single provider for all agents
   if (config.llm.singleProvider) {
@@ -0,0 +1,36 @@
+/**
+ * Unit tests for market category detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectSportsOrCrypto, mentionsAny } from './market-category.js';
+import { PolymarketClient } from './polymarket-client.js';
+import { getDefaultConfig, type EngineConfig } from '../config/index.js';
+
+describe('Market Category', () => {
+  it('should match terms on word boundaries', () => {
+    expect(mentionsAny('Will ETH flip BTC?', ['eth'])).toBe(true);
+    expect(mentionsAny('Will Beth Smith win?', ['eth'])).toBe(false);
+    expect(mentionsAny('Who wins the Premier League?', ['premier league'])).toBe(true);
+  });
+
+  it('should detect sports and crypto markets from text', () => {
+    expect(detectSportsOrCrypto('Will the Chiefs win Super Bowl LX?')).toBe('sports');
+    expect(detectSportsOrCrypto('Will Bitcoin close above $120k on Friday?')).toBe('crypto');
+    expect(detectSportsOrCrypto('Will the Senate pass the budget bill?')).toBeNull();
+  });
+
+  it('should prefer Polymarket tags over text', () => {
+    expect(detectSportsOrCrypto('Will Real Madrid beat Barcelona?', ['Soccer'])).toBe('sports');
+    expect(detectSportsOrCrypto('Will the token list on Binance?', ['Sports'])).toBe('sports');
+  });
+
+  it('should classify market event types as sports and crypto', () => {
+    const client = new PolymarketClient((getDefaultConfig() as EngineConfig).polymarket);
+    const classify = (question: string) => (client as any).classifyEventType(question);
+
+    expect(classify('Will the Lakers win the NBA Finals?')).toBe('sports');
+    expect(classify('Will Solana reach $500 in 2025?')).toBe('crypto');
+    expect(classify('Will inflation exceed 3% in March?')).toBe('economic');
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Market Category Detection
+ *
+ * Shared term lists and classification for the market categories discovery
+ * covers (politics, sports, crypto). Used by market discovery, event type
+ * classification and the sports/crypto agents.
+ */
+
+/**
+ * Discovery category, each backed by a Polymarket tag
+ */
+export type MarketCategory = 'politics' | 'sports' | 'crypto';
+
+export const SPORTS_MARKET_TERMS = [
+  'nfl',
+  'nba',
+  'mlb',
+  'nhl',
+  'mls',
+  'ufc',
+  'fifa',
+  'premier league',
+  'champions league',
+  'la liga',
+  'serie a',
+  'bundesliga',
+  'world cup',
+  'super bowl',
+  'stanley cup',
+  'world series',
+  'nba finals',
+  'playoffs',
+  'grand slam',
+  'wimbledon',
+  'formula 1',
+  'grand prix',
+  'boxing',
+  'mvp',
+] as const;
+
+export const CRYPTO_MARKET_TERMS = [
+  'bitcoin',
+  'btc',
+  'ethereum',
+  'eth',
+  'solana',
+  'xrp',
+  'dogecoin',
+  'crypto',
+  'cryptocurrency',
+  'stablecoin',
+  'memecoin',
+  'defi',
+  'blockchain',
+  'coinbase',
+  'binance',
+  'microstrategy',
+] as const;
+
+// Polymarket tag labels that identify a category directly
+const CATEGORY_TAG_LABELS: Record<Exclude<MarketCategory, 'politics'>, string[]> = {
+  sports: ['sports', 'nfl', 'nba', 'mlb', 'nhl', 'soccer', 'tennis', 'ufc', 'f1', 'golf'],
+  crypto: ['crypto', 'bitcoin', 'ethereum', 'solana', 'crypto prices'],
+};
+
+/**
+ * Whether the text mentions any of the terms
+ *
+ * Terms match on word boundaries so short terms ("nba", "eth") do not match
+ * inside unrelated words.
+ */
+export function mentionsAny(text: string, terms: readonly string[]): boolean {
+  const lower = text.toLowerCase();
+
+  return terms.some((term) =>
+    new RegExp(`\\b${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(lower)
+  );
+}
+
+/**
+ * Detect whether a market is a sports or crypto market
+ *
+ * Tags are checked before text since they are set by Polymarket. The result
+ * doubles as the market's EventType.
+ *
+ * @param text - Question, title and description of the market or event
+ * @param tagLabels - Polymarket tag labels, when available
+ * @returns The category, or null for neither
+ */
+export function detectSportsOrCrypto(
+  text: string,
+  tagLabels: string[] = []
+): 'sports' | 'crypto' | null {
+  const labels = tagLabels.map((label) => label.toLowerCase());
+  for (const category of ['sports', 'crypto'] as const) {
+    if (labels.some((label) => CATEGORY_TAG_LABELS[category].includes(label))) {
+      return category;
+    }
+  }
+
+  if (mentionsAny(text, CRYPTO_MARKET_TERMS)) {
+    return 'crypto';
+  }
+  if (mentionsAny(text, SPORTS_MARKET_TERMS)) {
+    return 'sports';
+  }
+
+  return null;
+}
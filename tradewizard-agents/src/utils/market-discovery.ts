@@ -11,6 +11,7 @@
  * - Cross-market analysis and correlation detection within events
  * - Backward compatibility with existing MarketDiscoveryEngine interface
  * - Enhanced ranking algorithm incorporating event-level metrics
+ * - Category-aware discovery for sports and crypto markets alongside politics
  */
 
 import type { EngineConfig } from '../config/index.js';
@@ -24,6 +25,7 @@ import {
   EventMultiMarketKeywordExtractor,
 } from './event-multi-market-keyword-extractor.js';
 import type { EventKeywords } from '../models/types.js';
+import type { MarketCategory } from './market-category.js';
 import { getLogger } from './logger.js';
 
 const logger = getLogger();
@@ -108,8 +110,32 @@ export interface RankedMarket {
     eventTags: string[];
     crossMarketCorrelations: number;
   };
+  // Discovery category the market was selected under
+  category?: MarketCategory;
 }
 
+/**
+ * Category-specific discovery filters
+ */
+export interface CategoryDiscoveryFilter {
+  minHoursToExpiry?: number; // Skip markets about to resolve
+  maxDaysToExpiry?: number; // Skip markets resolving too far out
+  nearExpiryBoost?: number; // Max ranking boost for markets resolving within 48 hours
+}
+
+/**
+ * Discovery filters per category
+ *
+ * Sports markets are mostly single games, so discovery favors the next two
+ * weeks of fixtures and boosts games about to be played. Crypto price markets
+ * with far-off expiries are mostly noise around the current price.
+ */
+export const CATEGORY_DISCOVERY_FILTERS: Record<MarketCategory, CategoryDiscoveryFilter> = {
+  politics: {},
+  sports: { minHoursToExpiry: 1, maxDaysToExpiry: 14, nearExpiryBoost: 0.5 },
+  crypto: { minHoursToExpiry: 6, maxDaysToExpiry: 90 },
+};
+
 // ============================================================================
 // Market Discovery Engine Interface - Maintaining Backward Compatibility
 // ============================================================================
@@ -172,6 +198,11 @@ export class PolymarketDiscoveryEngine implements MarketDiscoveryEngine {
    * Implements Requirements 1.1, 1.2, 1.3 with backward compatibility
    */
   async discoverMarkets(limit: number): Promise<RankedMarket[]> {
+    const categories = this.config.discoveryCategories ?? ['politics'];
+    if (categories.some((category) => category !== 'politics')) {
+      return this.discoverMarketsByCategory(categories, limit);
+    }
+
     logger.info({ limit }, '[PolymarketDiscoveryEngine] Starting trending market discovery (frontend-matching approach)');
 
     try {
@@ -345,6 +376,153 @@ export class PolymarketDiscoveryEngine implements MarketDiscoveryEngine {
     return sorted;
   }
 
+  // ==========================================================================
+  // Category-Aware Discovery
+  // ==========================================================================
+
+  /**
+   * Fetch active markets for one discovery category
+   *
+   * Uses the direct /markets endpoint with the category's Polymarket tag and
+   * applies the category's expiry window.
+   *
+   * @param category - Discovery category
+   * @param limit - Maximum number of markets to fetch before filtering
+   * @returns Markets that pass the category filters, by 24h volume
+   */
+  async fetchMarketsByCategory(
+    category: MarketCategory,
+    limit: number = 100
+  ): Promise<PolymarketMarket[]> {
+    const filter = CATEGORY_DISCOVERY_FILTERS[category];
+    const markets = await this.fetchTrendingMarketsDirectly(limit, this.getCategoryTagId(category));
+
+    const filtered = markets.filter((market) => {
+      const hoursToExpiry = this.getHoursToExpiry(market);
+      // Markets without an end date cannot be windowed
+      if (hoursToExpiry === null) return true;
+      if (filter.minHoursToExpiry !== undefined && hoursToExpiry < filter.minHoursToExpiry) {
+        return false;
+      }
+      if (filter.maxDaysToExpiry !== undefined && hoursToExpiry > filter.maxDaysToExpiry * 24) {
+        return false;
+      }
+      return true;
+    });
+
+    logger.info({
+      category,
+      marketsFetched: markets.length,
+      marketsInWindow: filtered.length,
+    }, '[PolymarketDiscoveryEngine] Category markets fetched');
+
+    return filtered;
+  }
+
+  /**
+   * Discover markets across several categories
+   *
+   * Each category gets an equal share of the limit; slots a category cannot
+   * fill go to the best remaining markets of the other categories. A category
+   * whose fetch fails is skipped.
+   */
+  private async discoverMarketsByCategory(
+    categories: MarketCategory[],
+    limit: number
+  ): Promise<RankedMarket[]> {
+    logger.info({ categories, limit }, '[PolymarketDiscoveryEngine] Starting category-aware market discovery');
+
+    const quota = Math.ceil(limit / categories.length);
+    const rankedByCategory = await Promise.all(
+      categories.map(async (category) => {
+        try {
+          const markets = await this.fetchMarketsByCategory(category, quota * 2);
+          return this.rankMarketsForCategory(markets, category);
+        } catch (error) {
+          logger.warn({ category, error: (error as Error).message },
+            '[PolymarketDiscoveryEngine] Category discovery failed, skipping category');
+          return [];
+        }
+      })
+    );
+
+    const byScore = (a: RankedMarket, b: RankedMarket): number => b.trendingScore - a.trendingScore;
+    const seen = new Set<string>();
+    const selected: RankedMarket[] = [];
+    const candidates = [
+      ...rankedByCategory.flatMap((ranked) => ranked.slice(0, quota)).sort(byScore),
+      ...rankedByCategory.flatMap((ranked) => ranked.slice(quota)).sort(byScore),
+    ];
+
+    // A market tagged with several categories is only selected once
+    for (const market of candidates) {
+      if (selected.length >= limit) break;
+      if (seen.has(market.conditionId)) continue;
+      seen.add(market.conditionId);
+      selected.push(market);
+    }
+
+    logger.info({
+      perCategory: Object.fromEntries(
+        categories.map((category) => [
+          category,
+          selected.filter((market) => market.category === category).length,
+        ])
+      ),
+      finalSelection: selected.length,
+    }, '[PolymarketDiscoveryEngine] Category-aware market discovery completed');
+
+    return selected;
+  }
+
+  /**
+   * Rank markets of one category, applying the category's near-expiry boost
+   */
+  private rankMarketsForCategory(
+    markets: PolymarketMarket[],
+    category: MarketCategory
+  ): RankedMarket[] {
+    const boost = CATEGORY_DISCOVERY_FILTERS[category].nearExpiryBoost ?? 0;
+    const hoursToExpiry = new Map(
+      markets.map((market) => [
+        market.conditionId || market.condition_id || '',
+        this.getHoursToExpiry(market),
+      ])
+    );
+
+    return this.rankMarkets(markets)
+      .map((market) => {
+        const hours = hoursToExpiry.get(market.conditionId) ?? null;
+        // Linear boost from the full amount at expiry down to none at 48 hours
+        const multiplier = boost > 0 && hours !== null && hours < 48 ? 1 + boost * (1 - hours / 48) : 1;
+        return { ...market, trendingScore: market.trendingScore * multiplier, category };
+      })
+      .sort((a, b) => b.trendingScore - a.trendingScore);
+  }
+
+  /**
+   * Polymarket tag ID for a discovery category
+   */
+  private getCategoryTagId(category: MarketCategory): number {
+    switch (category) {
+      case 'sports':
+        return this.config.sportsTagId ?? 1;
+      case 'crypto':
+        return this.config.cryptoTagId ?? 21;
+      case 'politics':
+      default:
+        return this.config.politicsTagId;
+    }
+  }
+
+  /**
+   * Hours until the market's end date, or null when it has none
+   */
+  private getHoursToExpiry(market: PolymarketMarket): number | null {
+    const endTime = Date.parse(market.endDate || market.end_date_iso || '');
+    return Number.isFinite(endTime) ? (endTime - Date.now()) / (60 * 60 * 1000) : null;
+  }
+
   // ==========================================================================
   // Enhanced Event-Based Methods
   // ==========================================================================
@@ -957,7 +1135,10 @@ export class PolymarketDiscoveryEngine implements MarketDiscoveryEngine {
    * - Fetches 3x requested limit to account for filtering
    * - Minimum fetch limit: 100 markets
    */
-  private async fetchTrendingMarketsDirectly(limit: number = 100): Promise<PolymarketMarket[]> {
+  private async fetchTrendingMarketsDirectly(
+    limit: number = 100,
+    tagId: number = this.config.politicsTagId
+  ): Promise<PolymarketMarket[]> {
     const maxRetries = 3;
     let lastError: Error | null = null;
 
@@ -981,7 +1162,7 @@ export class PolymarketDiscoveryEngine implements MarketDiscoveryEngine {
         // - offset: Pagination offset (currently 0)
         // - tag_id: Filter by category (e.g., politics)
         let url = `${this.config.gammaApiUrl}/markets?closed=false&order=volume24hr&ascending=false&limit=${fetchLimit}&offset=0`;
-        url += `&tag_id=${this.config.politicsTagId}`;
+        url += `&tag_id=${tagId}`;
 
         const response = await fetch(url, {
           method: 'GET',
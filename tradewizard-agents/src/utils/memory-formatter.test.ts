@@ -10,7 +10,11 @@ import {
   type MemoryFormatOptions,
   type FormattedMemoryContext,
 } from './memory-formatter.js';
-import type { AgentMemoryContext, HistoricalSignal } from '../database/memory-retrieval.js';
+import type {
+  AgentMemoryContext,
+  ComparableMarketMemory,
+  HistoricalSignal,
+} from '../database/memory-retrieval.js';
 
 describe('Memory Context Formatter', () => {
   // Helper to create test signals
@@ -420,4 +424,72 @@ describe('Memory Context Formatter', () => {
       expect(probMatches![2]).toContain('80.0%'); // Jan 20
     });
   });
+
+  describe('Comparable Markets', () => {
+    const createComparable = (
+      overrides: Partial<ComparableMarketMemory> = {}
+    ): ComparableMarketMemory => ({
+      marketId: 'past-market-1',
+      question: 'Will the Fed cut rates in March 2025?',
+      eventType: 'economic',
+      sameEvent: false,
+      similarity: 0.62,
+      resolvedOutcome: 'NO',
+      signal: createSignal({ marketId: 'past-market-1', direction: 'YES' }),
+      ...overrides,
+    });
+
+    it('should append lessons with resolution and call accuracy', () => {
+      const memory: AgentMemoryContext = {
+        ...createMemoryContext([createSignal()]),
+        comparableMarkets: [
+          createComparable(),
+          createComparable({
+            marketId: 'past-market-2',
+            question: 'Will the Fed cut rates in May 2025?',
+            sameEvent: true,
+            resolvedOutcome: undefined,
+          }),
+        ],
+      };
+
+      const result = formatMemoryContext(memory);
+
+      expect(result.text).toContain('Previous Analysis History (1 signal)');
+      expect(result.text).toContain('Lessons from Comparable Markets (2 markets)');
+      expect(result.text).toContain(
+        '"Will the Fed cut rates in March 2025?" (same economic category, 62.0% similar)'
+      );
+      expect(result.text).toContain('Resolution: NO (your call was wrong)');
+      expect(result.text).toContain('(same event, 62.0% similar)');
+      expect(result.text).toContain('Resolution: Not yet resolved');
+      expect(result.signalCount).toBe(1);
+      expect(result.comparableMarketCount).toBe(2);
+    });
+
+    it('should show lessons when the market itself has no history', () => {
+      const memory: AgentMemoryContext = {
+        ...createMemoryContext([], false),
+        comparableMarkets: [createComparable({ resolvedOutcome: 'yes' })],
+      };
+
+      const result = formatMemoryContext(memory);
+
+      expect(result.text.startsWith('No previous analysis available for this market.')).toBe(true);
+      expect(result.text).toContain('Resolution: YES (your call was right)');
+      expect(result.signalCount).toBe(0);
+    });
+
+    it('should truncate lessons to their own budget', () => {
+      const memory: AgentMemoryContext = {
+        ...createMemoryContext([createSignal()]),
+        comparableMarkets: [createComparable(), createComparable(), createComparable()],
+      };
+
+      const result = formatMemoryContext(memory, { comparableMaxLength: 300 });
+
+      expect(result.text).toContain('[Additional comparable markets truncated for brevity]');
+      expect(result.truncated).toBe(true);
+    });
+  });
 });
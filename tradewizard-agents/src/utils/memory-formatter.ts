@@ -7,7 +7,11 @@
  * Requirements: 2.2, 2.3, 2.5, 7.1, 7.2, 7.3, 7.4, 7.5
  */
 
-import type { AgentMemoryContext, HistoricalSignal } from '../database/memory-retrieval.js';
+import type {
+  AgentMemoryContext,
+  ComparableMarketMemory,
+  HistoricalSignal,
+} from '../database/memory-retrieval.js';
 import { getMemoryMetricsCollector } from './memory-metrics.js';
 import { formatTimestamp as formatTimestampHumanReadable } from './timestamp-formatter.js';
 
@@ -18,6 +22,7 @@ export interface MemoryFormatOptions {
   maxLength?: number; // Maximum character length (default: 1000)
   includeMetadata?: boolean; // Include metadata fields (default: false)
   dateFormat?: 'iso' | 'relative' | 'human'; // Date formatting style (default: 'human')
+  comparableMaxLength?: number; // Character budget for comparable-market lessons (default: 800)
 }
 
 /**
@@ -27,6 +32,7 @@ export interface FormattedMemoryContext {
   text: string;
   signalCount: number;
   truncated: boolean;
+  comparableMarketCount?: number;
 }
 
 /**
@@ -57,15 +63,19 @@ export function formatMemoryContext(
     maxLength = 1000,
     includeMetadata = false,
     dateFormat = 'human',
+    comparableMaxLength = 800,
   } = options;
+  const comparableMarkets = memory.comparableMarkets ?? [];
 
   try {
     // Requirement 2.4: Handle empty memory context
     if (!memory.hasHistory || memory.historicalSignals.length === 0) {
+      const lessons = formatComparableMarkets(comparableMarkets, dateFormat, comparableMaxLength);
       const result = {
-        text: 'No previous analysis available for this market.',
+        text: 'No previous analysis available for this market.' + lessons.text,
         signalCount: 0,
-        truncated: false,
+        truncated: lessons.truncated,
+        ...(comparableMarkets.length > 0 && { comparableMarketCount: comparableMarkets.length }),
       };
       
       // Record formatting metrics
@@ -77,7 +87,7 @@ export function formatMemoryContext(
         agentName: memory.agentName,
         signalCount: 0,
         contextSize,
-        truncated: false,
+        truncated: result.truncated,
       });
       
       return result;
@@ -104,10 +114,13 @@ export function formatMemoryContext(
       text += signalText + '\n\n';
     }
 
+    const lessons = formatComparableMarkets(comparableMarkets, dateFormat, comparableMaxLength);
+
     const result = {
-      text: text.trim(),
+      text: text.trim() + lessons.text,
       signalCount: sortedSignals.length,
-      truncated,
+      truncated: truncated || lessons.truncated,
+      ...(comparableMarkets.length > 0 && { comparableMarketCount: comparableMarkets.length }),
     };
     
     // Record formatting metrics
@@ -119,7 +132,7 @@ export function formatMemoryContext(
       agentName: memory.agentName,
       signalCount: sortedSignals.length,
       contextSize,
-      truncated,
+      truncated: result.truncated,
     });
 
     return result;
@@ -195,6 +208,76 @@ function formatSingleSignal(
   return text;
 }
 
+/**
+ * Format lessons from comparable markets
+ *
+ * Each entry shows the agent's call on a similar market and, once the market
+ * has resolved, the outcome and whether the call was right.
+ *
+ * @param markets - Comparable markets, most similar first
+ * @param dateFormat - Date formatting style
+ * @param maxLength - Character budget for the section
+ * @returns Section text (prefixed with a blank line, empty when there are no markets)
+ */
+function formatComparableMarkets(
+  markets: ComparableMarketMemory[],
+  dateFormat: 'iso' | 'relative' | 'human',
+  maxLength: number
+): { text: string; truncated: boolean } {
+  if (markets.length === 0) {
+    return { text: '', truncated: false };
+  }
+
+  let text = `Lessons from Comparable Markets (${markets.length} market${markets.length > 1 ? 's' : ''}):\n\n`;
+  let truncated = false;
+
+  for (const market of markets) {
+    const marketText = formatComparableMarket(market, dateFormat);
+
+    if (text.length + marketText.length > maxLength) {
+      text += '\n[Additional comparable markets truncated for brevity]';
+      truncated = true;
+      break;
+    }
+
+    text += marketText + '\n\n';
+  }
+
+  return { text: '\n\n' + text.trim(), truncated };
+}
+
+/**
+ * Format one comparable market with its resolution
+ */
+function formatComparableMarket(
+  market: ComparableMarketMemory,
+  dateFormat: 'iso' | 'relative' | 'human'
+): string {
+  const { signal } = market;
+  const relation = market.sameEvent ? 'same event' : `same ${market.eventType} category`;
+
+  let text = `"${market.question}" (${relation}, ${formatPercentage(market.similarity)} similar):\n`;
+  text += `  Your Call (${formatTimestamp(signal.timestamp, dateFormat)}): ${signal.direction} at ${formatPercentage(signal.fairProbability)} fair probability, ${formatPercentage(signal.confidence)} confidence\n`;
+
+  const outcome = market.resolvedOutcome?.toUpperCase();
+  if (!outcome) {
+    text += `  Resolution: Not yet resolved\n`;
+  } else if (signal.direction === 'NEUTRAL' || (outcome !== 'YES' && outcome !== 'NO')) {
+    text += `  Resolution: ${outcome}\n`;
+  } else {
+    text += `  Resolution: ${outcome} (your call was ${signal.direction === outcome ? 'right' : 'wrong'})\n`;
+  }
+
+  if (signal.keyDrivers.length > 0) {
+    text += `  Key Drivers:\n`;
+    signal.keyDrivers.forEach((driver) => {
+      text += `    • ${driver}\n`;
+    });
+  }
+
+  return text;
+}
+
 /**
  * Format timestamp according to specified format
  *
@@ -116,6 +116,24 @@ describe('MonitorService', () => {
       getMarketsForUpdate: vi.fn().mockResolvedValue([]),
       markMarketResolved: vi.fn().mockResolvedValue(undefined),
       getLatestRecommendation: vi.fn().mockResolvedValue(null),
+      getOpeningRecommendation: vi.fn().mockResolvedValue(null),
+      getOpenRecommendations: vi.fn().mockResolvedValue([]),
+      storePortfolioAllocation: vi.fn().mockResolvedValue('mock-allocation-run-id'),
+      getAgentPerformanceLedger: vi.fn().mockResolvedValue([]),
+      getFusionTrainingExamples: vi.fn().mockResolvedValue([]),
+      storeFusionWeightSet: vi.fn().mockResolvedValue('mock-weight-set-id'),
+      getFusionWeightSet: vi.fn().mockResolvedValue(null),
+      getCalibrationExamples: vi.fn().mockResolvedValue([]),
+      storeCalibrationModelSet: vi.fn().mockResolvedValue('mock-calibration-id'),
+      getCalibrationModelSet: vi.fn().mockResolvedValue(null),
+      getSourceOutcomes: vi.fn().mockResolvedValue([]),
+      storeArbitrageOpportunities: vi.fn().mockResolvedValue('scan-id'),
+      getArbitrageOpportunities: vi.fn().mockResolvedValue([]),
+      storePositionAdvice: vi.fn().mockResolvedValue('advice-id'),
+      getLatestPositionAdvice: vi.fn().mockResolvedValue([]),
+      recordAnalysisSpend: vi.fn().mockResolvedValue(undefined),
+      getAnalysisSpend: vi.fn().mockResolvedValue(0),
+      getEdgeHistory: vi.fn().mockResolvedValue({}),
     } as any;
 
     // Create mock quota manager
@@ -300,6 +318,73 @@ describe('MonitorService', () => {
       await monitor.initialize();
       await expect(monitor.analyzeMarket('test-condition-1')).rejects.toThrow('Analysis failed');
     });
+
+    describe('with budget planning', () => {
+      const plan = {
+        conditionId: 'test-condition-1',
+        question: 'Test market 1',
+        agents: ['market_microstructure', 'polling_intelligence'],
+        advancedBudget: 0.4,
+        estimatedCost: 0.9,
+        valueOfInformation: 0.7,
+      };
+      let plannedMonitor: AutomatedMarketMonitor;
+
+      beforeEach(() => {
+        plannedMonitor = new AutomatedMarketMonitor(
+          {
+            ...mockConfig,
+            budget: { enabled: true, dailyBudgetUsd: 25, candidateMultiplier: 3, minValueOfInformation: 0.2 },
+          },
+          mockSupabaseManager,
+          mockDatabase,
+          mockQuotaManager,
+          mockDiscovery,
+          mockPolymarketClient
+        );
+      });
+
+      it('should run the agents chosen by the planner', async () => {
+        const { analyzeMarket: mockAnalyzeMarket } = await import('../workflow.js');
+        vi.mocked(mockAnalyzeMarket).mockResolvedValue({
+          recommendation: { marketId: 'test-market' },
+          agentSignals: [],
+          cost: 0.8,
+        } as any);
+
+        await plannedMonitor.initialize();
+        await plannedMonitor.analyzeMarket('test-condition-1', plan);
+
+        const analysisConfig = vi.mocked(mockAnalyzeMarket).mock.calls[0][1];
+        expect(analysisConfig.costOptimization.plannedAgents).toEqual(plan.agents);
+        expect(analysisConfig.costOptimization.maxCostPerAnalysis).toBe(plan.advancedBudget);
+        expect(mockDatabase.recordAnalysisSpend).toHaveBeenCalledWith(
+          expect.objectContaining({ agents: plan.agents, actualCost: 0.8 })
+        );
+      });
+
+      it('should record spend once when persisting the results fails', async () => {
+        const { analyzeMarket: mockAnalyzeMarket } = await import('../workflow.js');
+        vi.mocked(mockAnalyzeMarket).mockResolvedValue({
+          recommendation: { marketId: 'test-market' },
+          agentSignals: [],
+          cost: 0.8,
+        } as any);
+        vi.spyOn(plannedMonitor as any, 'storeAnalysisResults').mockRejectedValue(
+          new Error('Database unavailable')
+        );
+
+        await plannedMonitor.initialize();
+        await expect(plannedMonitor.analyzeMarket('test-condition-1', plan)).rejects.toThrow(
+          'Database unavailable'
+        );
+
+        expect(mockDatabase.recordAnalysisSpend).toHaveBeenCalledTimes(1);
+        expect(mockDatabase.recordAnalysisSpend).toHaveBeenCalledWith(
+          expect.objectContaining({ actualCost: 0.8 })
+        );
+      });
+    });
   });
 
   describe('discoverAndAnalyze', () => {
@@ -12,9 +12,34 @@ import type { Scheduler } from './scheduler.js';
 import type { APIQuotaManager } from './api-quota-manager.js';
 import type { MarketDiscoveryEngine } from './market-discovery.js';
 import type { PolymarketClient } from './polymarket-client.js';
-import type { TradeRecommendation, AgentSignal } from '../models/types.js';
+import type { WorkflowProgressBus } from './workflow-progress.js';
+import type { TradeRecommendation, AgentSignal, ArbitrageOpportunity } from '../models/types.js';
 import { analyzeMarket } from '../workflow.js';
 import { createScheduler } from './scheduler.js';
+import { createArbitrageScanner } from './arbitrage-scanner.js';
+import { evaluatePosition, getPositionAdvisorOptions } from './position-advisor.js';
+import {
+  createReanalysisTriggerEngine,
+  type ReanalysisTrigger,
+  type ReanalysisTriggerEngine,
+  type TrackedMarketState,
+  type TriggerNewsArticle,
+} from './reanalysis-triggers.js';
+import { createNewsClient, type NewsClient } from './news-providers.js';
+import { createNewsDataCacheFromConfig } from './newsdata-cache-manager.js';
+import {
+  createAnalysisBudgetPlanner,
+  type AnalysisBudgetPlanner,
+  type AnalysisBudgetStatus,
+  type AnalysisCandidate,
+  type PlannedAnalysis,
+} from './analysis-planner.js';
+import {
+  MVP_AGENTS,
+  applyConfigurationFilters,
+  selectAgentsByMarketType,
+  selectPluginAgents,
+} from '../nodes/dynamic-agent-selection.js';
 import {
   createOpikMonitorIntegration,
   type OpikMonitorIntegration,
@@ -55,6 +80,7 @@ export interface HealthStatus {
     reddit: { used: number; limit: number };
     recommendedMarkets: number;
   };
+  budget?: AnalysisBudgetStatus; // Present when the analysis budget planner is enabled
 }
 
 // ============================================================================
@@ -87,6 +113,17 @@ export interface MonitorService {
    */
   analyzeMarket(conditionId: string): Promise<TradeRecommendation>;
 
+  /**
+   * Scan discovered events for cross-market arbitrage and store the ranked opportunities
+   */
+  scanArbitrage(): Promise<ArbitrageOpportunity[]>;
+
+  /**
+   * Evaluate re-analysis triggers for tracked markets and analyze the
+   * highest-priority queued markets
+   */
+  checkReanalysisTriggers(): Promise<ReanalysisTrigger[]>;
+
   /**
    * Get Opik integration metrics
    */
@@ -111,6 +148,12 @@ export class AutomatedMarketMonitor implements MonitorService {
   private lastWorkflowServiceSuccess: Date | null = null;
   private workflowServiceConsecutiveFailures: number = 0;
 
+  private arbitrageScheduler: Scheduler | null = null;
+  private triggerScheduler: Scheduler | null = null;
+  private triggerEngine: ReanalysisTriggerEngine | null = null;
+  private newsClient: NewsClient | null | undefined = undefined; // undefined until resolved
+  private budgetPlanner: AnalysisBudgetPlanner | null = null;
+
   constructor(
     private config: EngineConfig,
     private supabaseManager: SupabaseClientManager,
@@ -118,10 +161,30 @@ export class AutomatedMarketMonitor implements MonitorService {
     private quotaManager: APIQuotaManager,
     private discovery: MarketDiscoveryEngine,
     private polymarketClient: PolymarketClient,
-    private opikHandler?: any
+    private opikHandler?: any,
+    private progressBus?: WorkflowProgressBus
   ) {
     // Create scheduler with bound analysis cycle function
     this.scheduler = this.createScheduler();
+
+    // Arbitrage scanning runs as a separate job on its own interval
+    if (config.arbitrage?.enabled) {
+      this.arbitrageScheduler = createScheduler(async () => {
+        await this.scanArbitrage();
+      });
+    }
+
+    if (config.budget?.enabled) {
+      this.budgetPlanner = createAnalysisBudgetPlanner(database, [...MVP_AGENTS], config.budget);
+    }
+
+    // Event-driven re-analysis of tracked markets runs as its own job
+    if (config.triggers?.enabled) {
+      this.triggerEngine = createReanalysisTriggerEngine(config.triggers);
+      this.triggerScheduler = createScheduler(async () => {
+        await this.checkReanalysisTriggers();
+      });
+    }
     
     // Create Opik integration
     this.opikIntegration = createOpikMonitorIntegration(config);
@@ -171,6 +234,18 @@ export class AutomatedMarketMonitor implements MonitorService {
 
     this.scheduler.start(intervalMs);
 
+    if (this.arbitrageScheduler) {
+      const arbitrageIntervalMinutes = this.config.arbitrage?.intervalMinutes ?? 60;
+      this.arbitrageScheduler.start(arbitrageIntervalMinutes * 60 * 1000);
+      console.log(`[MonitorService] Arbitrage scan started with ${arbitrageIntervalMinutes}m interval`);
+    }
+
+    if (this.triggerScheduler) {
+      const triggerIntervalMinutes = this.config.triggers?.intervalMinutes ?? 15;
+      this.triggerScheduler.start(triggerIntervalMinutes * 60 * 1000);
+      console.log(`[MonitorService] Re-analysis triggers checked every ${triggerIntervalMinutes}m`);
+    }
+
     // Start daily quota reset scheduler
     this.startQuotaResetScheduler();
 
@@ -186,6 +261,8 @@ export class AutomatedMarketMonitor implements MonitorService {
 
     // Stop scheduler (waits for current cycle to complete)
     await this.scheduler.stop();
+    await this.arbitrageScheduler?.stop();
+    await this.triggerScheduler?.stop();
 
     // Log final aggregate metrics
     const aggregateMetrics = this.opikIntegration.getAggregateMetrics();
@@ -235,6 +312,7 @@ export class AutomatedMarketMonitor implements MonitorService {
         },
         recommendedMarkets: parseInt(process.env.MAX_MARKETS_PER_CYCLE || '3', 10),
       },
+      ...(this.budgetPlanner ? { budget: this.budgetPlanner.getStatus() } : {}),
     };
   }
 
@@ -257,18 +335,33 @@ export class AutomatedMarketMonitor implements MonitorService {
    * - Health metrics are updated on failures
    * - Errors are propagated to allow callers to handle them appropriately
    */
-  async analyzeMarket(conditionId: string): Promise<TradeRecommendation> {
+  async analyzeMarket(conditionId: string, plan?: PlannedAnalysis): Promise<TradeRecommendation> {
     console.log(`[MonitorService] Analyzing market: ${conditionId}`);
     const startTime = Date.now();
 
+    // A planned analysis runs the planner's agents within its agent budget
+    const analysisConfig: EngineConfig = plan
+      ? {
+          ...this.config,
+          costOptimization: {
+            ...this.config.costOptimization,
+            maxCostPerAnalysis: plan.advancedBudget,
+            skipLowImpactAgents: true,
+            plannedAgents: plan.agents,
+          },
+        }
+      : this.config;
+    let spendRecorded = false;
+
     try {
       // Run Market Intelligence Engine
       const analysisResult = await analyzeMarket(
         conditionId,
-        this.config,
+        analysisConfig,
         this.polymarketClient,
         this.supabaseManager,
-        this.opikHandler
+        this.opikHandler,
+        this.progressBus
       );
 
       if (!analysisResult.recommendation) {
@@ -278,6 +371,9 @@ export class AutomatedMarketMonitor implements MonitorService {
       // Extract agent signals and cost from analysis result
       const { recommendation, agentSignals, cost = 0 } = analysisResult;
 
+      await this.recordAnalysisSpend(conditionId, plan, cost);
+      spendRecorded = true;
+
       // Store results in database ONLY if using local workflow execution
       // When using remote workflow service, it handles its own persistence
       if (!this.config.workflowService?.url) {
@@ -321,6 +417,11 @@ export class AutomatedMarketMonitor implements MonitorService {
       
       // Record failed analysis in Opik integration
       this.opikIntegration.recordAnalysis(conditionId, duration, 0, false, [], errorMessage);
+
+      // A failed analysis may still have spent on LLM calls
+      if (!spendRecorded) {
+        await this.recordAnalysisSpend(conditionId, plan, 0);
+      }
       
       // Log full error details for debugging
       console.error(`[MonitorService] Market analysis failed after ${duration}ms:`, error);
@@ -331,6 +432,107 @@ export class AutomatedMarketMonitor implements MonitorService {
     }
   }
 
+  /**
+   * Scan discovered events for cross-market arbitrage
+   *
+   * Opportunities are stored as one ranked scan. A storage failure is logged
+   * and the opportunities are still returned.
+   */
+  async scanArbitrage(): Promise<ArbitrageOpportunity[]> {
+    console.log('[MonitorService] Starting arbitrage scan');
+
+    const scanner = createArbitrageScanner(this.polymarketClient, this.config.arbitrage);
+    const opportunities = await scanner.scan();
+
+    try {
+      await this.database.storeArbitrageOpportunities(opportunities);
+    } catch (error) {
+      console.error('[MonitorService] Failed to store arbitrage opportunities:', error);
+    }
+
+    console.log(`[MonitorService] Arbitrage scan complete: ${opportunities.length} opportunities`);
+    return opportunities;
+  }
+
+  /**
+   * Evaluate re-analysis triggers and analyze the highest-priority queued markets
+   *
+   * Markets that fired but did not fit in this run's analysis budget stay
+   * queued for the next run.
+   */
+  async checkReanalysisTriggers(): Promise<ReanalysisTrigger[]> {
+    if (!this.triggerEngine) {
+      this.triggerEngine = createReanalysisTriggerEngine(this.config.triggers);
+    }
+
+    const maxTracked = this.config.triggers?.maxTrackedMarkets ?? 50;
+    const maxAnalyses = this.config.triggers?.maxAnalysesPerCheck ?? 2;
+
+    // An interval of 0 returns every active market, most trending first
+    const trackedMarkets = (await this.database.getMarketsForUpdate(0)).slice(0, maxTracked);
+    const states: TrackedMarketState[] = [];
+    for (const market of trackedMarkets) {
+      const result = await this.polymarketClient.fetchMarketData(market.conditionId);
+      if (!result.ok) {
+        console.warn(
+          `[MonitorService] Skipping trigger check for ${market.conditionId}: ${result.error.type}`
+        );
+        continue;
+      }
+
+      states.push({
+        conditionId: market.conditionId,
+        question: market.question,
+        keywords: result.data.keywords ?? [],
+        currentProbability: result.data.currentProbability,
+        volume24h: result.data.volume24h,
+        expiryTimestamp: result.data.expiryTimestamp,
+        baselineProbability: market.marketProbability,
+        baselineVolume24h: market.volume24h,
+      });
+    }
+
+    const fired = this.triggerEngine.evaluate(states, await this.fetchBreakingNews());
+    console.log(
+      `[MonitorService] Checked ${states.length} markets: ${fired.length} triggers fired, ` +
+        `${this.triggerEngine.queue.size()} markets queued`
+    );
+
+    // Trigger checks can run before any scheduled cycle, so load today's spend
+    // before judging what is affordable
+    await this.budgetPlanner?.refresh();
+
+    for (let i = 0; i < maxAnalyses; i++) {
+      if (
+        this.budgetPlanner &&
+        !this.budgetPlanner.canAfford(
+          this.budgetPlanner.estimateUnplannedCost(this.config.costOptimization.maxCostPerAnalysis)
+        )
+      ) {
+        console.log('[MonitorService] Daily analysis budget exhausted, leaving triggered markets queued');
+        break;
+      }
+
+      const next = this.triggerEngine.queue.dequeue();
+      if (!next) {
+        break;
+      }
+
+      console.log(
+        `[MonitorService] Re-analyzing ${next.conditionId} (priority ${next.priority.toFixed(2)}): ` +
+          next.triggers.map((trigger) => trigger.reason).join('; ')
+      );
+      try {
+        await this.analyzeMarket(next.conditionId);
+        this.opikIntegration.recordUpdate(next.conditionId);
+      } catch (error) {
+        console.error(`[MonitorService] Triggered re-analysis of ${next.conditionId} failed:`, error);
+      }
+    }
+
+    return fired;
+  }
+
   // ==========================================================================
   // Private Methods
   // ==========================================================================
@@ -364,18 +566,25 @@ export class AutomatedMarketMonitor implements MonitorService {
       
       console.log(`[MonitorService] Analyzing up to ${maxMarkets} NEW markets per cycle (updates disabled)`);
 
+      // With the budget planner, discover a wider pool and let the planner pick
+      const candidateMultiplier = this.budgetPlanner ? this.config.budget?.candidateMultiplier ?? 3 : 1;
+
       // Discover new markets (use full quota for discovery since updates are disabled)
-      const markets = await this.discovery.discoverMarkets(maxMarkets);
+      const markets = await this.discovery.discoverMarkets(Math.ceil(maxMarkets * candidateMultiplier));
       console.log(`[MonitorService] Discovered ${markets.length} new markets for analysis`);
       
       // Record discovery in Opik
       this.opikIntegration.recordDiscovery(markets.length);
 
+      const plans = this.budgetPlanner
+        ? await this.planAnalyses(markets, maxMarkets)
+        : markets.map((market) => ({ conditionId: market.conditionId, plan: undefined }));
+
       // Analyze each discovered market
       // Error handling: Each market analysis is isolated - failures don't stop the cycle
-      for (const market of markets) {
+      for (const market of plans) {
         try {
-          await this.analyzeMarket(market.conditionId);
+          await this.analyzeMarket(market.conditionId, market.plan);
         } catch (error) {
           // Log error but continue processing other markets (Requirement 4.3)
           console.error(
@@ -532,11 +741,24 @@ export class AutomatedMarketMonitor implements MonitorService {
         volume24h: mbd.volume24h,
         liquidity: mbd.liquidityScore,
         status: 'active',
+        eventId: mbd.eventContext?.eventId ?? mbd.metadata.eventId,
       });
 
+      // Opening recommendation of the open position, if any
+      const openingRecommendation = await this.getOpeningRecommendation(marketId);
+
       // Store recommendation
       const recommendationId = await this.database.storeRecommendation(marketId, recommendation);
 
+      if (openingRecommendation) {
+        await this.reviewPosition(
+          marketId,
+          recommendationId,
+          openingRecommendation,
+          recommendation
+        );
+      }
+
       // Store agent signals
       if (agentSignals.length > 0) {
         await this.database.storeAgentSignals(marketId, recommendationId, agentSignals);
@@ -558,6 +780,153 @@ export class AutomatedMarketMonitor implements MonitorService {
     }
   }
 
+  /**
+   * Plan which discovered markets to analyze within the daily budget
+   */
+  private async planAnalyses(
+    markets: Array<{ conditionId: string; question: string }>,
+    maxMarkets: number
+  ): Promise<Array<{ conditionId: string; plan: PlannedAnalysis }>> {
+    const planner = this.budgetPlanner!;
+    await planner.refresh();
+
+    let edgeHistory: Record<string, number[]> = {};
+    try {
+      edgeHistory = await this.database.getEdgeHistory(markets.map((market) => market.conditionId));
+    } catch (error) {
+      console.warn('[MonitorService] Failed to load edge history for planning:', error);
+    }
+
+    const candidates: AnalysisCandidate[] = [];
+    for (const market of markets) {
+      const result = await this.polymarketClient.fetchMarketData(market.conditionId);
+      if (!result.ok) {
+        console.warn(`[MonitorService] Skipping ${market.conditionId} in planning: ${result.error.type}`);
+        continue;
+      }
+
+      candidates.push({
+        conditionId: market.conditionId,
+        question: market.question,
+        liquidityScore: result.data.liquidityScore,
+        expiryTimestamp: result.data.expiryTimestamp,
+        edgeHistory: edgeHistory[market.conditionId] ?? [],
+        agents: applyConfigurationFilters(
+          [
+            ...selectAgentsByMarketType(result.data.eventType),
+            ...selectPluginAgents(result.data, this.config),
+          ],
+          this.config
+        ),
+      });
+    }
+
+    const plan = planner.plan(candidates, maxMarkets);
+    console.log(
+      `[MonitorService] Budget plan: ${plan.planned.length} analyses ($${plan.plannedCost.toFixed(2)}), ` +
+        `${plan.skipped.length} skipped, $${plan.remainingBudget.toFixed(2)} of ` +
+        `$${plan.dailyBudget.toFixed(2)} left today`
+    );
+
+    return plan.planned.map((planned) => ({ conditionId: planned.conditionId, plan: planned }));
+  }
+
+  /**
+   * Record an analysis against the daily budget when the planner is enabled
+   */
+  private async recordAnalysisSpend(
+    conditionId: string,
+    plan: PlannedAnalysis | undefined,
+    cost: number
+  ): Promise<void> {
+    if (!this.budgetPlanner) {
+      return;
+    }
+
+    await this.budgetPlanner.recordSpend(
+      {
+        conditionId,
+        agents: plan?.agents ?? [],
+        estimatedCost:
+          plan?.estimatedCost ??
+          this.budgetPlanner.estimateUnplannedCost(this.config.costOptimization.maxCostPerAnalysis),
+        valueOfInformation: plan?.valueOfInformation,
+      },
+      cost > 0 ? cost : undefined
+    );
+  }
+
+  /**
+   * Fetch breaking news for news triggers
+   *
+   * Returns no articles when no news provider is configured or the request fails.
+   */
+  private async fetchBreakingNews(): Promise<TriggerNewsArticle[]> {
+    try {
+      if (this.newsClient === undefined) {
+        const newsData = this.config.newsData;
+        const cache = newsData?.enabled && newsData.cache.enabled
+          ? createNewsDataCacheFromConfig(newsData.cache, this.supabaseManager)
+          : undefined;
+        this.newsClient = createNewsClient(this.config, cache);
+      }
+      if (!this.newsClient) {
+        return [];
+      }
+      return await this.newsClient.getBreakingNews({ limit: 50, language: 'en' });
+    } catch (error) {
+      console.warn('[MonitorService] Failed to fetch breaking news for triggers:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the recommendation a re-analyzed market's open position was opened on
+   *
+   * Returns null when the position advisor is disabled or the lookup fails.
+   */
+  private async getOpeningRecommendation(marketId: string): Promise<TradeRecommendation | null> {
+    if (this.config.positionAdvisor?.enabled === false) {
+      return null;
+    }
+
+    try {
+      return await this.database.getOpeningRecommendation(marketId);
+    } catch (error) {
+      console.warn('[MonitorService] Failed to load opening recommendation:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Compare a fresh recommendation with the position opened on an earlier
+   * one and store HOLD / TAKE_PROFIT / CUT / ADD advice
+   */
+  private async reviewPosition(
+    marketId: string,
+    recommendationId: string,
+    previous: TradeRecommendation,
+    current: TradeRecommendation
+  ): Promise<void> {
+    try {
+      const advice = evaluatePosition(
+        previous,
+        current,
+        getPositionAdvisorOptions(this.config.positionAdvisor)
+      );
+      if (!advice) {
+        return;
+      }
+
+      await this.database.storePositionAdvice(marketId, recommendationId, advice);
+      console.log(
+        `[MonitorService] Position advice for ${current.marketId}: ${advice.action} - ${advice.reasons[0]}`
+      );
+    } catch (error) {
+      console.error('[MonitorService] Failed to store position advice:', error);
+    }
+  }
+
   /**
    * Check database connection
    */
@@ -659,7 +1028,8 @@ export function createMonitorService(
   quotaManager: APIQuotaManager,
   discovery: MarketDiscoveryEngine,
   polymarketClient: PolymarketClient,
-  opikHandler?: any
+  opikHandler?: any,
+  progressBus?: WorkflowProgressBus
 ): MonitorService {
   return new AutomatedMarketMonitor(
     config,
@@ -668,6 +1038,7 @@ export function createMonitorService(
     quotaManager,
     discovery,
     polymarketClient,
-    opikHandler
+    opikHandler,
+    progressBus
   );
 }
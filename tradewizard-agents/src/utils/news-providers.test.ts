@@ -0,0 +1,266 @@
+/**
+ * Unit tests for pluggable news providers
+ */
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  LocalArchiveNewsProvider,
+  NewsProviderClient,
+  RssNewsProvider,
+  createNewsClient,
+  parseNewsFeed,
+  selectArticles,
+  toNewsDataArticle,
+  toNewsQuery,
+  type NewsProvider,
+} from './news-providers.js';
+import { createNewsDataCacheManager } from './newsdata-cache-manager.js';
+import {
+  AggregateCircuitBreaker,
+  CircuitBreakerState,
+  createNewsDataCircuitBreaker,
+} from './newsdata-circuit-breaker.js';
+import { createNewsDataValidator } from './newsdata-validator.js';
+import type { EngineConfig } from '../config/index.js';
+
+const NOW = Date.now();
+const HOUR = 60 * 60 * 1000;
+
+const RSS = `<?xml version="1.0"?>
+<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>Example Wire</title>
+    <language>en-gb</language>
+    <item>
+      <title><![CDATA[Senate passes budget bill]]></title>
+      <link>https://example.com/senate-budget</link>
+      <description>&lt;p&gt;Vote was 52&#8211;48 &amp; bipartisan&lt;/p&gt;</description>
+      <pubDate>${new Date(NOW - HOUR).toUTCString()}</pubDate>
+      <dc:creator>Jane Doe</dc:creator>
+      <category>Politics</category>
+    </item>
+    <item>
+      <title>Undated item</title>
+      <link>https://example.com/undated</link>
+    </item>
+  </channel>
+</rss>`;
+
+const ATOM = `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="de">
+  <title>Atom Desk</title>
+  <entry>
+    <title>Bitcoin ETF approved</title>
+    <link rel="self" href="https://atom.example/self"/>
+    <link rel="alternate" href="https://atom.example/btc-etf"/>
+    <updated>${new Date(NOW - 2 * HOUR).toISOString()}</updated>
+    <summary>Regulators approve spot bitcoin ETF</summary>
+    <author><name>Max Muster</name></author>
+    <category term="crypto"/>
+  </entry>
+</feed>`;
+
+function article(title: string, hoursAgo: number, description = '') {
+  return toNewsDataArticle({
+    title,
+    url: `https://news.example/${encodeURIComponent(title)}`,
+    publishedAt: NOW - hoursAgo * HOUR,
+    description,
+  });
+}
+
+function stubProvider(name: string, fetchArticles: NewsProvider['fetchArticles']): NewsProvider {
+  return { name, endpoints: ['latest', 'archive'], fetchArticles: vi.fn(fetchArticles) };
+}
+
+const config = (overrides: Partial<EngineConfig>) => overrides as EngineConfig;
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('News Providers', () => {
+  it('should parse RSS items and Atom entries', () => {
+    const [rssItem, ...rest] = parseNewsFeed(RSS);
+    expect(rest).toHaveLength(0);
+    expect(rssItem).toMatchObject({
+      title: 'Senate passes budget bill',
+      url: 'https://example.com/senate-budget',
+      source: 'Example Wire',
+      description: 'Vote was 52–48 & bipartisan',
+      creators: ['Jane Doe'],
+      categories: ['Politics'],
+      language: 'en',
+    });
+
+    expect(parseNewsFeed(ATOM)).toEqual([
+      expect.objectContaining({
+        title: 'Bitcoin ETF approved',
+        url: 'https://atom.example/btc-etf',
+        source: 'Atom Desk',
+        creators: ['Max Muster'],
+        categories: ['crypto'],
+        language: 'de',
+      }),
+    ]);
+  });
+
+  it('should filter and rank articles by query terms, exclusions and time window', () => {
+    const articles = [
+      article('Fed holds rates', 1, 'Inflation remains sticky'),
+      article('Fed cuts rates as inflation cools', 3),
+      article('Fed rates explainer', 2, 'Sponsored content'),
+      article('Fed rates last month', 24 * 30),
+    ];
+
+    const query = toNewsQuery(
+      { q: 'fed AND (rates OR inflation) NOT sponsored', timeframe: '48' },
+      NOW
+    );
+    const selected = selectArticles(articles, query);
+
+    expect(selected.map(({ title }) => title)).toEqual([
+      'Fed holds rates',
+      'Fed cuts rates as inflation cools',
+    ]);
+    expect(selectArticles(articles, { ...query, limit: 1 })).toHaveLength(1);
+    expect(selectArticles(articles, toNewsQuery({ qInTitle: 'cuts' }, NOW))).toHaveLength(1);
+  });
+
+  it('should read a local archive directory of JSON and JSON Lines files', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'news-archive-'));
+    try {
+      await writeFile(
+        join(dir, 'newsapi.json'),
+        JSON.stringify({
+          articles: [
+            {
+              title: 'Election results certified',
+              url: 'https://archive.example/certified',
+              publishedAt: new Date(NOW - HOUR).toISOString(),
+              source: { id: null, name: 'Archive Times' },
+            },
+          ],
+        })
+      );
+      await writeFile(
+        join(dir, 'export.jsonl'),
+        [
+          JSON.stringify({
+            headline: 'Election recount ordered',
+            link: 'https://archive.example/recount',
+            date: Math.floor(NOW / 1000),
+          }),
+          JSON.stringify({ title: 'Missing link' }),
+        ].join('\n')
+      );
+      await writeFile(join(dir, 'notes.txt'), 'ignored');
+
+      const provider = new LocalArchiveNewsProvider({ path: dir });
+      const results = await provider.fetchArticles('archive', toNewsQuery({ q: 'election' }, NOW));
+
+      expect(results.map(({ title }) => title)).toEqual([
+        'Election recount ordered',
+        'Election results certified',
+      ]);
+      expect(results[1]).toMatchObject({
+        source_name: 'Archive Times',
+        source_id: 'archive.example',
+      });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should skip failed feeds as long as one succeeds', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) =>
+        url.includes('down')
+          ? new Response('', { status: 503, statusText: 'Service Unavailable' })
+          : new Response(RSS, { status: 200 })
+      )
+    );
+
+    const provider = new RssNewsProvider({
+      feeds: ['https://down.example/rss', 'https://up.example/rss'],
+    });
+    const results = await provider.fetchArticles('latest', toNewsQuery({ q: 'budget' }, NOW));
+
+    expect(results).toHaveLength(1);
+    expect(results[0].link).toBe('https://example.com/senate-budget');
+  });
+
+  it('should fall back to the next provider, validate and cache results', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const primary = stubProvider('primary', async () => {
+      throw new Error('upstream rejected the request');
+    });
+    const secondary = stubProvider('secondary', async () => [
+      article('Budget vote scheduled', 1),
+      { ...article('Broken link', 1), link: 'not a url' },
+    ]);
+    const client = new NewsProviderClient([primary, secondary], {
+      cacheManager: createNewsDataCacheManager(),
+      validator: createNewsDataValidator(),
+    });
+
+    const response = await client.fetchLatestNews({ q: 'budget', size: 5 });
+    expect(response.status).toBe('success');
+    expect(response.results?.map(({ title }) => title)).toEqual(['Budget vote scheduled']);
+
+    await client.fetchLatestNews({ q: 'budget', size: 5 });
+    expect(secondary.fetchArticles).toHaveBeenCalledTimes(1);
+
+    await expect(client.fetchCryptoNews({ coin: 'btc' })).rejects.toThrow(
+      'No news provider supports the crypto endpoint'
+    );
+  });
+
+  it('should create the client for the configured providers', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(createNewsClient(config({}))).toBeNull();
+
+    const client = createNewsClient(
+      config({
+        newsProvider: {
+          provider: 'rss',
+          fallbackProviders: ['archive', 'unknown', 'newsdata'],
+          rssFeeds: ['https://feeds.example/rss'],
+          validationEnabled: true,
+        },
+      })
+    );
+    expect(client).toBeInstanceOf(NewsProviderClient);
+    expect(client?.getProviderNames()).toEqual(['rss']);
+
+    const newsDataClient = createNewsClient(
+      config({
+        newsData: {
+          apiKey: 'test-key',
+          cache: { enabled: false, ttl: {} },
+          circuitBreaker: { failureThreshold: 5, resetTimeoutMs: 60000 },
+        } as unknown as EngineConfig['newsData'],
+      })
+    );
+    expect(newsDataClient).toBeInstanceOf(NewsProviderClient);
+    expect(newsDataClient?.getProviderNames()).toEqual(['newsdata']);
+  });
+
+  it('should only report the aggregate circuit open once every provider circuit is open', () => {
+    const primary = createNewsDataCircuitBreaker({ provider: 'primary' });
+    const secondary = createNewsDataCircuitBreaker({ provider: 'secondary' });
+    const aggregate = new AggregateCircuitBreaker([primary, secondary]);
+
+    primary.trip();
+    expect(aggregate.getState()).toBe(CircuitBreakerState.CLOSED);
+
+    secondary.trip();
+    expect(aggregate.getState()).toBe(CircuitBreakerState.OPEN);
+  });
+});
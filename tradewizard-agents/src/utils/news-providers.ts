@@ -0,0 +1,1066 @@
+/**
+ * News Providers
+ *
+ * Pluggable news sources behind the autonomous news agents and news triggers.
+ * A provider only fetches articles and normalizes them; NewsProviderClient
+ * wraps one or more providers in the rate limiting, caching, circuit breaking,
+ * validation and fallback layers and exposes the endpoint methods the news
+ * tools call, so NewsData can be swapped for another source by configuration.
+ *
+ * Built-in providers:
+ * - newsdata: NewsData.io API (via NewsDataClient)
+ * - rss: RSS 2.0 / Atom feeds, filtered locally by the query
+ * - archive: Local JSON or JSON Lines files (a single file or a directory)
+ *
+ * Articles are normalized to the NewsDataArticle record the validator, cache
+ * and tools already consume.
+ */
+
+import { createHash } from 'crypto';
+import { readFile, readdir, stat } from 'fs/promises';
+import { extname, join } from 'path';
+import type { EngineConfig } from '../config/index.js';
+import {
+  createNewsDataClient,
+  type ArchiveNewsParams,
+  type CryptoNewsParams,
+  type LatestNewsParams,
+  type MarketNewsParams,
+  type NewsDataArticle,
+  type NewsDataClient,
+  type NewsDataResponse,
+} from './newsdata-client.js';
+import { createNewsDataCacheManager, type NewsCacheManager } from './newsdata-cache-manager.js';
+import {
+  AggregateCircuitBreaker,
+  createNewsDataCircuitBreaker,
+  type CircuitBreakerConfig,
+  type NewsCircuitBreaker,
+} from './newsdata-circuit-breaker.js';
+import {
+  createNewsDataFallbackManager,
+  type FallbackConfig,
+  type NewsFallbackManager,
+} from './newsdata-fallback-manager.js';
+import {
+  createNewsDataRateLimiter,
+  createRateLimiterConfigFromEnv,
+  type NewsRateLimiter,
+  type RateLimiterConfig,
+} from './newsdata-rate-limiter.js';
+import { createNewsDataValidator, type NewsDataValidator } from './newsdata-validator.js';
+import { sourceDomain } from './source-credibility.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * News endpoint (also the rate limiter bucket and cache TTL key)
+ */
+export type NewsEndpoint = 'latest' | 'archive' | 'crypto' | 'market';
+
+/**
+ * Provider-neutral news query
+ */
+export interface NewsQuery {
+  text?: string; // Free-text query; may use quotes, AND / OR / NOT
+  titleText?: string; // Query matched against titles only
+  languages: string[];
+  countries: string[];
+  categories: string[];
+  coins: string[];
+  symbols: string[];
+  from?: number; // Unix timestamp (ms)
+  to?: number; // Unix timestamp (ms)
+  limit: number;
+}
+
+/**
+ * News provider interface
+ */
+export interface NewsProvider {
+  readonly name: string;
+  readonly endpoints: readonly NewsEndpoint[];
+  fetchArticles(endpoint: NewsEndpoint, query: NewsQuery): Promise<NewsDataArticle[]>;
+}
+
+/**
+ * Endpoint methods used by the news tools and news triggers
+ *
+ * Implemented by NewsDataClient and NewsProviderClient.
+ */
+export interface NewsClient {
+  fetchLatestNews(params?: LatestNewsParams, agentName?: string): Promise<NewsDataResponse>;
+  fetchArchiveNews(params: ArchiveNewsParams, agentName?: string): Promise<NewsDataResponse>;
+  fetchCryptoNews(params?: CryptoNewsParams, agentName?: string): Promise<NewsDataResponse>;
+  fetchMarketNews(params?: MarketNewsParams, agentName?: string): Promise<NewsDataResponse>;
+  getBreakingNews(options?: {
+    limit?: number;
+    country?: string;
+    language?: string;
+    category?: string;
+  }): Promise<NewsDataArticle[]>;
+}
+
+/**
+ * Fields a provider extracts from its source before normalization
+ */
+export interface ArticleFields {
+  title: string;
+  url: string;
+  publishedAt: number; // Unix timestamp (ms)
+  source?: string;
+  description?: string;
+  content?: string;
+  creators?: string[];
+  categories?: string[];
+  keywords?: string[];
+  language?: string;
+}
+
+/**
+ * Factory used to construct a provider from the engine configuration
+ *
+ * Returns null when the provider is not configured.
+ */
+export type NewsProviderFactory = (config: EngineConfig) => NewsProvider | null;
+
+/**
+ * Error raised when a provider cannot fetch or parse its source
+ *
+ * The message includes the HTTP status so retry logic can classify it.
+ */
+export class NewsProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: string,
+    public statusCode?: number
+  ) {
+    super(message);
+    this.name = 'NewsProviderError';
+  }
+}
+
+const ALL_ENDPOINTS: readonly NewsEndpoint[] = ['latest', 'archive', 'crypto', 'market'];
+const DEFAULT_LIMIT = 10;
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_USER_AGENT = 'tradewizard-agents/1.0';
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const BREAKING_NEWS_HOURS = 2;
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+function toList(value: string | string[] | undefined): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  return (Array.isArray(value) ? value : value.split(','))
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Parse a NewsData timeframe ("6" hours, "90m" minutes) into milliseconds
+ */
+function parseTimeframe(timeframe: string): number | null {
+  const match = /^(\d+)(m?)$/.exec(timeframe.trim());
+  if (!match) {
+    return null;
+  }
+  return parseInt(match[1], 10) * (match[2] ? 60 * 1000 : HOUR_MS);
+}
+
+function parseDate(value: string | undefined, endOfDay = false): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) {
+    return undefined;
+  }
+  // Date-only bounds are inclusive of the whole day
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? parsed + DAY_MS - 1 : parsed;
+}
+
+type EndpointParams = LatestNewsParams & CryptoNewsParams & MarketNewsParams & ArchiveNewsParams;
+
+/**
+ * Convert endpoint parameters (as built by the news tools) to a NewsQuery
+ */
+export function toNewsQuery(
+  params: EndpointParams,
+  now: number = Date.now()
+): NewsQuery {
+  const timeframe = params.timeframe ? parseTimeframe(params.timeframe) : null;
+
+  return {
+    text: params.q,
+    titleText: params.qInTitle,
+    languages: toList(params.language),
+    countries: toList(params.country),
+    categories: toList(params.category),
+    coins: toList(params.coin),
+    symbols: toList(params.symbol),
+    from: parseDate(params.from_date) ?? (timeframe !== null ? now - timeframe : undefined),
+    to: parseDate(params.to_date, true),
+    limit: params.size ?? DEFAULT_LIMIT,
+  };
+}
+
+interface QueryTerms {
+  include: string[];
+  exclude: string[];
+}
+
+/**
+ * Split a free-text query into lowercase terms and quoted phrases
+ *
+ * Terms preceded by NOT (or prefixed with "-") must not appear; AND / OR are
+ * ignored, so an article matches when it contains any included term.
+ */
+function parseQueryTerms(text: string | undefined): QueryTerms {
+  const terms: QueryTerms = { include: [], exclude: [] };
+  if (!text) {
+    return terms;
+  }
+
+  const tokens = text.toLowerCase().match(/-?"[^"]+"|[^\s()"]+/g) ?? [];
+  let negate = false;
+  for (const token of tokens) {
+    if (token === 'not') {
+      negate = true;
+      continue;
+    }
+    if (token === 'and' || token === 'or') {
+      continue;
+    }
+
+    const excluded = negate || token.startsWith('-');
+    const term = token.replace(/^-/, '').replace(/"/g, '').trim();
+    negate = false;
+    if (term.length < 2) {
+      continue;
+    }
+    (excluded ? terms.exclude : terms.include).push(term);
+  }
+  return terms;
+}
+
+function matchesAny(values: string[] | undefined, wanted: string[]): boolean {
+  if (wanted.length === 0 || !values || values.length === 0) {
+    return true;
+  }
+  const normalized = values.map((value) => value.toLowerCase());
+  return wanted.some((item) => normalized.includes(item.toLowerCase()));
+}
+
+/**
+ * Filter and rank articles for a query
+ *
+ * Used by providers that cannot search server-side. Articles are ranked by the
+ * number of matched terms, then recency.
+ */
+export function selectArticles(articles: NewsDataArticle[], query: NewsQuery): NewsDataArticle[] {
+  const terms = parseQueryTerms(query.text);
+  terms.include.push(...[...query.coins, ...query.symbols].map((term) => term.toLowerCase()));
+  const titleTerms = parseQueryTerms(query.titleText);
+
+  const scored: Array<{ article: NewsDataArticle; score: number; publishedAt: number }> = [];
+  for (const article of articles) {
+    const publishedAt = Date.parse(article.pubDate);
+    if (
+      (query.from !== undefined && publishedAt < query.from) ||
+      (query.to !== undefined && publishedAt > query.to)
+    ) {
+      continue;
+    }
+    if (
+      !matchesAny(article.category, query.categories) ||
+      !matchesAny(article.country, query.countries) ||
+      !matchesAny([article.language], query.languages)
+    ) {
+      continue;
+    }
+
+    const title = article.title.toLowerCase();
+    const body = `${title} ${article.description ?? ''} ${article.content ?? ''}`.toLowerCase();
+    if ([...terms.exclude, ...titleTerms.exclude].some((term) => body.includes(term))) {
+      continue;
+    }
+    if (titleTerms.include.length > 0 && !titleTerms.include.some((term) => title.includes(term))) {
+      continue;
+    }
+
+    const score = terms.include.filter((term) => body.includes(term)).length;
+    if (terms.include.length > 0 && score === 0) {
+      continue;
+    }
+    scored.push({ article, score, publishedAt });
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || b.publishedAt - a.publishedAt)
+    .slice(0, query.limit)
+    .map(({ article }) => article);
+}
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+/**
+ * Build a NewsDataArticle record from provider fields
+ *
+ * The article id is derived from the URL so repeated fetches deduplicate.
+ */
+export function toNewsDataArticle(fields: ArticleFields): NewsDataArticle {
+  const domain = sourceDomain(fields.url) ?? 'unknown';
+  let sourceUrl = '';
+  try {
+    sourceUrl = new URL(fields.url).origin;
+  } catch {
+    // Keep empty source URL for relative or malformed links
+  }
+
+  return {
+    article_id: createHash('sha1')
+      .update(fields.url || fields.title)
+      .digest('hex')
+      .slice(0, 32),
+    title: fields.title,
+    link: fields.url,
+    source_id: domain,
+    source_name: fields.source || domain,
+    source_url: sourceUrl,
+    source_priority: 0,
+    keywords: fields.keywords,
+    creator: fields.creators,
+    description: fields.description,
+    pubDate: new Date(fields.publishedAt).toISOString().replace('T', ' ').slice(0, 19),
+    pubDateTZ: 'UTC',
+    content: fields.content,
+    category: fields.categories,
+    language: fields.language ?? 'en',
+    duplicate: false,
+  };
+}
+
+// ============================================================================
+// NewsData Adapter
+// ============================================================================
+
+function toDateParam(timestamp: number | undefined): string | undefined {
+  return timestamp === undefined ? undefined : new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * NewsData.io provider
+ *
+ * The client should be created without its own cache and circuit breaker;
+ * NewsProviderClient supplies them.
+ */
+export class NewsDataNewsProvider implements NewsProvider {
+  readonly name = 'newsdata';
+  readonly endpoints = ALL_ENDPOINTS;
+
+  constructor(private client: NewsDataClient) {}
+
+  async fetchArticles(endpoint: NewsEndpoint, query: NewsQuery): Promise<NewsDataArticle[]> {
+    const base = {
+      q: query.text,
+      qInTitle: query.titleText,
+      language: query.languages.length > 0 ? query.languages : undefined,
+      country: query.countries.length > 0 ? query.countries : undefined,
+      size: query.limit,
+    };
+    const category = query.categories.length > 0 ? query.categories : undefined;
+    const range = { from_date: toDateParam(query.from), to_date: toDateParam(query.to) };
+    // The latest endpoint only takes a relative timeframe (in hours)
+    const timeframe =
+      query.from !== undefined
+        ? String(Math.max(1, Math.ceil((Date.now() - query.from) / HOUR_MS)))
+        : undefined;
+
+    let response: NewsDataResponse;
+    switch (endpoint) {
+      case 'latest':
+        response = await this.client.fetchLatestNews({ ...base, category, timeframe });
+        break;
+      case 'archive':
+        response = await this.client.fetchArchiveNews({ ...base, category, ...range });
+        break;
+      case 'crypto':
+        response = await this.client.fetchCryptoNews({
+          ...base,
+          coin: query.coins.length > 0 ? query.coins : undefined,
+          ...range,
+        });
+        break;
+      case 'market':
+        response = await this.client.fetchMarketNews({
+          ...base,
+          symbol: query.symbols.length > 0 ? query.symbols : undefined,
+          ...range,
+        });
+        break;
+    }
+
+    if (response.status === 'error') {
+      throw new NewsProviderError(
+        `newsdata request failed: ${response.message ?? response.code ?? 'unknown error'}`,
+        this.name
+      );
+    }
+    return response.results ?? [];
+  }
+}
+
+// ============================================================================
+// RSS / Atom Adapter
+// ============================================================================
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeXmlText(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code.startsWith('#x') || code.startsWith('#X')) {
+        return String.fromCodePoint(parseInt(code.slice(2), 16));
+      }
+      if (code.startsWith('#')) {
+        return String.fromCodePoint(parseInt(code.slice(1), 10));
+      }
+      return XML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    // Descriptions often carry escaped HTML
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function tagValues(block: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'gi');
+  return [...block.matchAll(pattern)].map((match) => decodeXmlText(match[1])).filter(Boolean);
+}
+
+function tagValue(block: string, ...tags: string[]): string | undefined {
+  for (const tag of tags) {
+    const [value] = tagValues(block, tag);
+    if (value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function attributeValues(block: string, tag: string, attribute: string): string[] {
+  const pattern = new RegExp(`<${tag}\\s[^>]*${attribute}\\s*=\\s*["']([^"']+)["']`, 'gi');
+  return [...block.matchAll(pattern)].map((match) => decodeXmlText(match[1]));
+}
+
+function atomLink(entry: string): string | undefined {
+  const links = [...entry.matchAll(/<link\s[^>]*>/gi)].map((match) => match[0]);
+  const alternate =
+    links.find((link) => /rel\s*=\s*["']alternate["']/i.test(link)) ??
+    links.find((link) => !/rel\s*=/i.test(link)) ??
+    links[0];
+  return alternate ? /href\s*=\s*["']([^"']+)["']/i.exec(alternate)?.[1] : undefined;
+}
+
+/**
+ * Parse an RSS 2.0 or Atom document into article fields
+ *
+ * Items without a title, link or parseable date are skipped.
+ */
+export function parseNewsFeed(xml: string): ArticleFields[] {
+  const isAtom = /<feed[\s>]/i.test(xml) && !/<rss[\s>]/i.test(xml);
+  const header = xml.split(isAtom ? /<entry[\s>]/i : /<item[\s>]/i)[0];
+  const feedTitle = tagValue(header, 'title');
+  const language =
+    tagValue(header, 'language') ?? /xml:lang\s*=\s*["']([^"']+)["']/i.exec(header)?.[1];
+  const blocks =
+    xml.match(isAtom ? /<entry[\s>][\s\S]*?<\/entry>/gi : /<item[\s>][\s\S]*?<\/item>/gi) ?? [];
+
+  const articles: ArticleFields[] = [];
+  for (const block of blocks) {
+    const title = tagValue(block, 'title');
+    const url = isAtom ? atomLink(block) : (tagValue(block, 'link') ?? tagValue(block, 'guid'));
+    const publishedAt = Date.parse(
+      (isAtom ? tagValue(block, 'published', 'updated') : tagValue(block, 'pubDate', 'dc:date')) ??
+        ''
+    );
+    if (!title || !url || Number.isNaN(publishedAt)) {
+      continue;
+    }
+
+    const author = isAtom
+      ? tagValues(block, 'name')
+      : [...tagValues(block, 'dc:creator'), ...tagValues(block, 'author')];
+    const categories = isAtom
+      ? attributeValues(block, 'category', 'term')
+      : tagValues(block, 'category');
+
+    articles.push({
+      title,
+      url,
+      publishedAt,
+      source: tagValue(block, 'source') ?? feedTitle,
+      description: tagValue(block, isAtom ? 'summary' : 'description'),
+      content: tagValue(block, isAtom ? 'content' : 'content:encoded'),
+      creators: author.length > 0 ? author : undefined,
+      categories: categories.length > 0 ? categories : undefined,
+      language: language?.slice(0, 2).toLowerCase(),
+    });
+  }
+  return articles;
+}
+
+/**
+ * Settings for the RSS / Atom provider
+ */
+export interface RssNewsProviderOptions {
+  feeds: string[];
+  timeoutMs?: number;
+  userAgent?: string;
+}
+
+/**
+ * RSS 2.0 / Atom feed reader
+ *
+ * Every feed is read on each request and filtered locally, so all endpoints
+ * are served from the same items. Feeds that fail are skipped as long as at
+ * least one succeeds.
+ */
+export class RssNewsProvider implements NewsProvider {
+  readonly name = 'rss';
+  readonly endpoints = ALL_ENDPOINTS;
+
+  constructor(private options: RssNewsProviderOptions) {}
+
+  async fetchArticles(_endpoint: NewsEndpoint, query: NewsQuery): Promise<NewsDataArticle[]> {
+    const results = await Promise.allSettled(
+      this.options.feeds.map((feed) => this.fetchFeed(feed))
+    );
+
+    const articles: NewsDataArticle[] = [];
+    let lastError: unknown = null;
+    for (const result of results) {
+      if (result.status === 'fulfilled') {
+        articles.push(...result.value.map(toNewsDataArticle));
+      } else {
+        lastError = result.reason;
+        console.warn(
+          '[NewsProviders] RSS feed failed:',
+          result.reason instanceof Error ? result.reason.message : String(result.reason)
+        );
+      }
+    }
+
+    if (articles.length === 0 && lastError) {
+      throw lastError;
+    }
+    return selectArticles(articles, query);
+  }
+
+  private async fetchFeed(url: string): Promise<ArticleFields[]> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: {
+          Accept: 'application/rss+xml, application/atom+xml, application/xml, text/xml',
+          'User-Agent': this.options.userAgent ?? DEFAULT_USER_AGENT,
+        },
+        signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new NewsProviderError(
+        `rss request failed for ${url}: network error: ${error instanceof Error ? error.message : String(error)}`,
+        this.name
+      );
+    }
+
+    if (!response.ok) {
+      throw new NewsProviderError(
+        `rss request failed for ${url}: HTTP ${response.status} ${response.statusText}`,
+        this.name,
+        response.status
+      );
+    }
+    return parseNewsFeed(await response.text());
+  }
+}
+
+// ============================================================================
+// Local Archive Adapter
+// ============================================================================
+
+const ARCHIVE_EXTENSIONS = new Set(['.json', '.jsonl', '.ndjson']);
+
+const FIELD_ALIASES = {
+  title: ['title', 'headline'],
+  url: ['url', 'link'],
+  publishedAt: ['publishedAt', 'pubDate', 'published_at', 'published', 'date'],
+  source: ['source', 'source_name', 'source_id', 'publisher'],
+  description: ['description', 'summary'],
+  content: ['content', 'body', 'text'],
+  creators: ['creator', 'author', 'authors'],
+  categories: ['category', 'categories'],
+  keywords: ['keywords', 'tags'],
+  language: ['language', 'lang'],
+};
+
+function pickField(record: Record<string, unknown>, field: keyof typeof FIELD_ALIASES): unknown {
+  for (const alias of FIELD_ALIASES[field]) {
+    const value = record[alias];
+    if (value !== undefined && value !== null && value !== '') {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function toText(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value.trim() || undefined;
+  }
+  // NewsAPI-style { id, name } source objects
+  if (value && typeof value === 'object' && 'name' in value) {
+    return toText((value as { name: unknown }).name);
+  }
+  return undefined;
+}
+
+function toTextList(value: unknown): string[] | undefined {
+  const list = (Array.isArray(value) ? value : [value])
+    .map(toText)
+    .filter((item): item is string => !!item);
+  return list.length > 0 ? list : undefined;
+}
+
+/**
+ * Normalize an archived article record (NewsData, NewsAPI or plain JSON)
+ *
+ * @returns Article fields, or null if the title, URL or date is missing
+ */
+export function normalizeArchiveRecord(record: Record<string, unknown>): ArticleFields | null {
+  const title = toText(pickField(record, 'title'));
+  const url = toText(pickField(record, 'url'));
+  const date = pickField(record, 'publishedAt');
+  const publishedAt =
+    typeof date === 'number' ? (date < 1e12 ? date * 1000 : date) : Date.parse(toText(date) ?? '');
+  if (!title || !url || Number.isNaN(publishedAt)) {
+    return null;
+  }
+
+  return {
+    title,
+    url,
+    publishedAt,
+    source: toText(pickField(record, 'source')),
+    description: toText(pickField(record, 'description')),
+    content: toText(pickField(record, 'content')),
+    creators: toTextList(pickField(record, 'creators')),
+    categories: toTextList(pickField(record, 'categories')),
+    keywords: toTextList(pickField(record, 'keywords')),
+    language: toText(pickField(record, 'language')),
+  };
+}
+
+function parseArchiveFile(content: string, path: string): Record<string, unknown>[] {
+  if (extname(path) !== '.json') {
+    return content
+      .split('\n')
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as Record<string, unknown>);
+  }
+
+  const parsed = JSON.parse(content) as unknown;
+  if (Array.isArray(parsed)) {
+    return parsed as Record<string, unknown>[];
+  }
+  const container = parsed as Record<string, unknown>;
+  const items = container.results ?? container.articles ?? container.items;
+  return Array.isArray(items) ? (items as Record<string, unknown>[]) : [];
+}
+
+/**
+ * Settings for the local archive provider
+ */
+export interface LocalArchiveNewsProviderOptions {
+  path: string; // JSON / JSON Lines file, or a directory of them
+}
+
+/**
+ * File-based news archive
+ *
+ * Accepts a bare array, a `{ results | articles | items: [...] }` container or
+ * JSON Lines. Files are re-read on every request so new exports are picked up.
+ */
+export class LocalArchiveNewsProvider implements NewsProvider {
+  readonly name = 'archive';
+  readonly endpoints = ALL_ENDPOINTS;
+
+  constructor(private options: LocalArchiveNewsProviderOptions) {}
+
+  async fetchArticles(_endpoint: NewsEndpoint, query: NewsQuery): Promise<NewsDataArticle[]> {
+    const articles: NewsDataArticle[] = [];
+    for (const path of await this.listFiles()) {
+      for (const record of await this.readRecords(path)) {
+        const fields = normalizeArchiveRecord(record);
+        if (fields) {
+          articles.push(toNewsDataArticle(fields));
+        }
+      }
+    }
+    return selectArticles(articles, query);
+  }
+
+  private async listFiles(): Promise<string[]> {
+    const { path } = this.options;
+    try {
+      if (!(await stat(path)).isDirectory()) {
+        return [path];
+      }
+      return (await readdir(path))
+        .filter((file) => ARCHIVE_EXTENSIONS.has(extname(file)))
+        .sort()
+        .map((file) => join(path, file));
+    } catch (error) {
+      throw new NewsProviderError(
+        `Failed to read news archive ${path}: ${error instanceof Error ? error.message : String(error)}`,
+        this.name
+      );
+    }
+  }
+
+  private async readRecords(path: string): Promise<Record<string, unknown>[]> {
+    try {
+      return parseArchiveFile(await readFile(path, 'utf-8'), path);
+    } catch (error) {
+      throw new NewsProviderError(
+        `Failed to parse news archive ${path}: ${error instanceof Error ? error.message : String(error)}`,
+        this.name
+      );
+    }
+  }
+}
+
+// ============================================================================
+// Resilient Client
+// ============================================================================
+
+/**
+ * Layers shared by the providers of a NewsProviderClient
+ */
+export interface NewsProviderClientOptions {
+  cacheManager?: NewsCacheManager;
+  cacheTTL?: Partial<Record<NewsEndpoint, number>>; // seconds
+  validator?: NewsDataValidator;
+  rateLimiter?: Partial<RateLimiterConfig>;
+  rateLimiters?: Record<string, NewsRateLimiter>; // Shared limiters by provider name
+  circuitBreaker?: Partial<CircuitBreakerConfig>;
+  fallback?: Partial<FallbackConfig>;
+}
+
+interface ProviderLayers {
+  provider: NewsProvider;
+  rateLimiter: NewsRateLimiter;
+  circuitBreaker: NewsCircuitBreaker;
+}
+
+/**
+ * News client over an ordered list of providers
+ *
+ * Each request is served from fresh cache when possible; otherwise providers
+ * supporting the endpoint are tried in order, each behind its own rate limiter
+ * and circuit breaker. Valid articles are cached per endpoint and query, so a
+ * secondary provider's results are reused and the fallback manager can serve
+ * stale data when every provider fails. The fallback manager sees the
+ * providers' breakers as one aggregate circuit.
+ */
+export class NewsProviderClient implements NewsClient {
+  private layers: ProviderLayers[];
+  private fallbackManager?: NewsFallbackManager;
+
+  constructor(
+    providers: NewsProvider[],
+    private options: NewsProviderClientOptions = {}
+  ) {
+    if (providers.length === 0) {
+      throw new Error('NewsProviderClient requires at least one provider');
+    }
+
+    this.layers = providers.map((provider) => ({
+      provider,
+      rateLimiter:
+        options.rateLimiters?.[provider.name] ??
+        createNewsDataRateLimiter({ ...options.rateLimiter, provider: provider.name }),
+      circuitBreaker: createNewsDataCircuitBreaker({
+        ...options.circuitBreaker,
+        provider: provider.name,
+      }),
+    }));
+
+    if (options.cacheManager) {
+      this.fallbackManager = createNewsDataFallbackManager(
+        { ...options.fallback, provider: this.getProviderNames().join(',') },
+        options.cacheManager,
+        new AggregateCircuitBreaker(this.layers.map(({ circuitBreaker }) => circuitBreaker))
+      );
+    }
+  }
+
+  /**
+   * Names of the providers, in the order they are tried
+   */
+  getProviderNames(): string[] {
+    return this.layers.map(({ provider }) => provider.name);
+  }
+
+  async fetchLatestNews(
+    params: LatestNewsParams = {},
+    agentName?: string
+  ): Promise<NewsDataResponse> {
+    return this.request('latest', params, agentName);
+  }
+
+  async fetchArchiveNews(params: ArchiveNewsParams, agentName?: string): Promise<NewsDataResponse> {
+    return this.request('archive', params, agentName);
+  }
+
+  async fetchCryptoNews(
+    params: CryptoNewsParams = {},
+    agentName?: string
+  ): Promise<NewsDataResponse> {
+    return this.request('crypto', params, agentName);
+  }
+
+  async fetchMarketNews(
+    params: MarketNewsParams = {},
+    agentName?: string
+  ): Promise<NewsDataResponse> {
+    return this.request('market', params, agentName);
+  }
+
+  async getBreakingNews(
+    options: { limit?: number; country?: string; language?: string; category?: string } = {}
+  ): Promise<NewsDataArticle[]> {
+    const { limit = 10, country, language, category } = options;
+    const response = await this.fetchLatestNews({
+      size: Math.min(limit, 50),
+      country,
+      language,
+      category,
+      timeframe: String(BREAKING_NEWS_HOURS),
+    });
+    return response.results ?? [];
+  }
+
+  private async request(
+    endpoint: NewsEndpoint,
+    params: EndpointParams,
+    agentName?: string
+  ): Promise<NewsDataResponse> {
+    const { cacheManager, validator } = this.options;
+    const cacheKey = cacheManager?.generateCacheKey(endpoint, params) ?? endpoint;
+
+    if (cacheManager) {
+      const cached = await cacheManager.get<NewsDataResponse>(cacheKey);
+      if (cached && !cached.isStale) {
+        return cached.data;
+      }
+    }
+
+    const query = toNewsQuery(params);
+    let lastError: Error | null = null;
+
+    for (const { provider, rateLimiter, circuitBreaker } of this.layers) {
+      if (!provider.endpoints.includes(endpoint)) {
+        continue;
+      }
+
+      const result = await circuitBreaker.execute(() =>
+        rateLimiter.executeWithRateLimit(endpoint, () => provider.fetchArticles(endpoint, query), {
+          agentId: agentName,
+          requestType: endpoint,
+        })
+      );
+      if (!result.success || !result.data) {
+        lastError = result.error ?? new Error(`${provider.name} request failed`);
+        console.warn(
+          `[NewsProviders] ${provider.name} ${endpoint} request failed:`,
+          lastError.message
+        );
+        continue;
+      }
+
+      const articles = validator
+        ? (await validator.validateArticles(result.data)).validArticles
+        : result.data;
+      const response: NewsDataResponse = {
+        status: 'success',
+        totalResults: articles.length,
+        results: articles,
+      };
+      if (cacheManager) {
+        const ttl = this.options.cacheTTL?.[endpoint];
+        await cacheManager.set(cacheKey, response, ttl !== undefined ? ttl * 1000 : undefined);
+      }
+      return response;
+    }
+
+    if (this.fallbackManager && lastError) {
+      const fallback = await this.fallbackManager.executeFallback(cacheKey, lastError);
+      if (fallback.success && fallback.data) {
+        return fallback.data;
+      }
+    }
+
+    throw (
+      lastError ??
+      new NewsProviderError(
+        `No news provider supports the ${endpoint} endpoint`,
+        this.getProviderNames().join(',')
+      )
+    );
+  }
+}
+
+// ============================================================================
+// Provider Registry
+// ============================================================================
+
+const providerFactories = new Map<string, NewsProviderFactory>([
+  [
+    'newsdata',
+    (config): NewsProvider | null =>
+      config.newsData?.apiKey
+        ? new NewsDataNewsProvider(
+            createNewsDataClient({ ...config.newsData, apiKey: config.newsData.apiKey })
+          )
+        : null,
+  ],
+  [
+    'rss',
+    (config): NewsProvider | null =>
+      config.newsProvider?.rssFeeds.length
+        ? new RssNewsProvider({ feeds: config.newsProvider.rssFeeds })
+        : null,
+  ],
+  [
+    'archive',
+    (config): NewsProvider | null =>
+      config.newsProvider?.archivePath
+        ? new LocalArchiveNewsProvider({ path: config.newsProvider.archivePath })
+        : null,
+  ],
+]);
+
+/**
+ * Register (or replace) a news provider type
+ *
+ * @param type - Provider name used in `newsProvider.provider` / `fallbackProviders`
+ * @param factory - Factory creating the provider from the engine configuration
+ */
+export function registerNewsProvider(type: string, factory: NewsProviderFactory): void {
+  providerFactories.set(type, factory);
+}
+
+/**
+ * Create a news provider by name
+ *
+ * @returns The provider, or null if it is not configured
+ * @throws NewsProviderError if the type is not registered
+ */
+export function createNewsProvider(type: string, config: EngineConfig): NewsProvider | null {
+  const factory = providerFactories.get(type);
+  if (!factory) {
+    throw new NewsProviderError(`Unknown news provider: ${type}`, type);
+  }
+  return factory(config);
+}
+
+const sharedRateLimiters = new Map<string, NewsRateLimiter>();
+
+/**
+ * Rate limiter shared by every client of a provider
+ *
+ * Agents and news triggers each create their own client, so limiters are kept
+ * per provider for the life of the process; that is what lets the limiter
+ * coordinate concurrent requests across agents and track one daily quota.
+ */
+function getSharedRateLimiter(provider: string): NewsRateLimiter {
+  let rateLimiter = sharedRateLimiters.get(provider);
+  if (!rateLimiter) {
+    rateLimiter = createNewsDataRateLimiter({ ...createRateLimiterConfigFromEnv(), provider });
+    sharedRateLimiters.set(provider, rateLimiter);
+  }
+  return rateLimiter;
+}
+
+/**
+ * Create the news client for the configured provider and fallbacks
+ *
+ * Every setup, NewsData on its own included, is served by a NewsProviderClient
+ * using the NewsData cache, TTL and circuit breaker settings when present.
+ *
+ * @param config - Engine configuration
+ * @param cacheManager - Response cache shared across runs (optional)
+ * @returns The client, or null if no configured provider is available
+ */
+export function createNewsClient(
+  config: EngineConfig,
+  cacheManager?: NewsCacheManager
+): NewsProviderClient | null {
+  const settings = config.newsProvider;
+  const names = [
+    ...new Set([settings?.provider ?? 'newsdata', ...(settings?.fallbackProviders ?? [])]),
+  ];
+
+  const providers: NewsProvider[] = [];
+  for (const name of names) {
+    try {
+      const provider = createNewsProvider(name, config);
+      if (provider) {
+        providers.push(provider);
+      } else {
+        console.warn(`[NewsProviders] News provider ${name} is not configured`);
+      }
+    } catch (error) {
+      console.warn(
+        '[NewsProviders] Invalid news provider:',
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+  if (providers.length === 0) {
+    return null;
+  }
+
+  return new NewsProviderClient(providers, {
+    cacheManager:
+      cacheManager ??
+      (config.newsData?.cache.enabled === false ? undefined : createNewsDataCacheManager()),
+    cacheTTL: config.newsData?.cache.ttl,
+    validator: settings?.validationEnabled === false ? undefined : createNewsDataValidator(),
+    rateLimiters: Object.fromEntries(
+      providers.map(({ name }) => [name, getSharedRateLimiter(name)])
+    ),
+    circuitBreaker: config.newsData && {
+      failureThreshold: config.newsData.circuitBreaker.failureThreshold,
+      resetTimeoutMs: config.newsData.circuitBreaker.resetTimeoutMs,
+    },
+  });
+}
@@ -10,6 +10,9 @@
  * - Configuration support for both APIs during transition
  * - Seamless interface compatibility
  * - Gradual migration support
+ *
+ * @deprecated New code should go through a NewsProvider (see news-providers.ts),
+ * which serves NewsData, RSS / Atom feeds and local archives behind one client.
  */
 
 import type { NewsDataClient, NewsDataArticle, NewsDataResponse } from './newsdata-client.js';
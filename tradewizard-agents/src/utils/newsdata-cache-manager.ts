@@ -3,6 +3,8 @@
  *
  * Enhanced caching system for NewsData.io API responses with intelligent TTL,
  * stale data handling, LRU eviction policy, compression, and cache warming.
+ * Entries live in a pluggable storage backend (memory, SQLite or Postgres) so
+ * the cache can survive restarts and be shared across monitor instances.
  *
  * Requirements: 4.1, 4.3, 4.4, 4.5, 4.6
  */
@@ -10,6 +12,16 @@
 import { getLogger } from './logger.js';
 import { gzip, gunzip } from 'zlib';
 import { promisify } from 'util';
+import {
+  MemoryCacheBackend,
+  createCacheStorageBackend,
+  type CacheBackendType,
+  type CacheEvictionPolicy,
+  type CacheStorageBackend,
+  type StoredCacheEntry,
+} from './newsdata-cache-storage.js';
+import type { SupabaseClientManager } from '../database/supabase-client.js';
+import type { NewsDataConfig } from './newsdata-client.js';
 
 const gzipAsync = promisify(gzip);
 const gunzipAsync = promisify(gunzip);
@@ -38,7 +50,7 @@ export interface CacheConfig {
   maxSize: number;
   defaultTTL: number;
   staleTTL: number; // How long to keep stale data
-  evictionPolicy: 'lru' | 'lfu' | 'ttl';
+  evictionPolicy: CacheEvictionPolicy;
   compressionThreshold: number; // Compress entries larger than this (bytes)
   enableCompression: boolean;
   warmingEnabled: boolean;
@@ -46,15 +58,18 @@ export interface CacheConfig {
   keyOptimization: boolean;
 }
 
-interface CacheEntry<T> {
-  data: T | Buffer; // Can be compressed data
-  timestamp: number;
-  ttl: number;
-  hitCount: number;
-  lastAccessed: number;
-  compressed: boolean;
-  originalSize?: number;
-  compressedSize?: number;
+/**
+ * Response cache used by the news clients and fallback manager
+ *
+ * Keys are built from the endpoint and query parameters only, so providers
+ * serving the same query share entries.
+ */
+export interface NewsCacheManager {
+  get<T>(key: string): Promise<CachedData<T> | null>;
+  set<T>(key: string, data: T, ttl?: number): Promise<void>;
+  has(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  generateCacheKey(endpoint: string, params: Record<string, any>): string;
 }
 
 interface CacheWarmingSpec<T> {
@@ -76,9 +91,8 @@ interface CacheKeyPattern {
 // NewsData Cache Manager
 // ============================================================================
 
-export class NewsDataCacheManager {
-  private cache: Map<string, CacheEntry<any>> = new Map();
-  private accessOrder: string[] = []; // For LRU tracking
+export class NewsDataCacheManager implements NewsCacheManager {
+  private storage: CacheStorageBackend;
   private hits: number = 0;
   private misses: number = 0;
   private config: CacheConfig;
@@ -92,7 +106,7 @@ export class NewsDataCacheManager {
     compressionRatio: 0,
   };
 
-  constructor(config: Partial<CacheConfig> = {}) {
+  constructor(config: Partial<CacheConfig> = {}, storage?: CacheStorageBackend) {
     this.config = {
       maxSize: config.maxSize || 1000,
       defaultTTL: config.defaultTTL || 15 * 60 * 1000, // 15 minutes
@@ -104,10 +118,25 @@ export class NewsDataCacheManager {
       warmingBatchSize: config.warmingBatchSize || 10,
       keyOptimization: config.keyOptimization ?? true,
     };
+    this.storage = storage ?? new MemoryCacheBackend();
     this.logger = getLogger();
     this.initializeKeyPatterns();
   }
 
+  /**
+   * Storage backend type (memory, sqlite or postgres)
+   */
+  getBackendType(): CacheBackendType {
+    return this.storage.type;
+  }
+
+  /**
+   * Release the storage backend (closes the SQLite file)
+   */
+  async close(): Promise<void> {
+    await this.storage.close();
+  }
+
   /**
    * Initialize key patterns for optimization
    */
@@ -181,7 +210,7 @@ export class NewsDataCacheManager {
   /**
    * Decompress data if needed
    */
-  private async decompressData<T>(entry: CacheEntry<T>): Promise<T> {
+  private async decompressData<T>(entry: StoredCacheEntry<T>): Promise<T> {
     if (!entry.compressed || !(entry.data instanceof Buffer)) {
       return entry.data as T;
     }
@@ -198,7 +227,13 @@ export class NewsDataCacheManager {
    * Get cached data with stale handling
    */
   async get<T>(key: string): Promise<CachedData<T> | null> {
-    const entry = this.cache.get(key);
+    let entry: StoredCacheEntry | undefined;
+    try {
+      entry = await this.storage.get(key);
+    } catch (error) {
+      // A shared backend being unavailable degrades to a cache miss
+      this.logger.warn(`Cache read failed for key ${key}: ${error}`);
+    }
 
     if (!entry) {
       this.misses++;
@@ -210,30 +245,30 @@ export class NewsDataCacheManager {
     const isExpired = age > entry.ttl;
     const isStale = isExpired && age <= (entry.ttl + this.config.staleTTL);
 
-    // Update access tracking for LRU
-    this.updateAccessOrder(key);
-    entry.lastAccessed = now;
-    entry.hitCount++;
-
     if (isExpired && !isStale) {
       // Data is too old, remove it
-      this.cache.delete(key);
-      this.removeFromAccessOrder(key);
+      await this.deleteExpired(key);
       this.misses++;
       return null;
     }
 
+    // Persist access tracking so LRU/LFU eviction sees reads from every instance
+    const hitCount = entry.hitCount + 1;
+    await this.storage.touch(key, hitCount, now).catch((error) => {
+      this.logger.warn(`Cache access update failed for key ${key}: ${error}`);
+    });
+
     this.hits++;
     
     // Decompress data if needed
-    const data = await this.decompressData(entry);
+    const data = await this.decompressData<T>(entry as StoredCacheEntry<T>);
 
     return {
       data,
       timestamp: entry.timestamp,
       ttl: entry.ttl,
       isStale: isStale,
-      hitCount: entry.hitCount,
+      hitCount,
     };
   }
 
@@ -241,15 +276,10 @@ export class NewsDataCacheManager {
    * Set cached data with TTL and compression
    */
   async set<T>(key: string, data: T, ttl?: number): Promise<void> {
-    // Evict entries if cache is full
-    if (this.cache.size >= this.config.maxSize && !this.cache.has(key)) {
-      await this.evictEntries(1);
-    }
-
     const now = Date.now();
     const { data: processedData, compressed, originalSize, compressedSize } = await this.compressData(data);
 
-    const entry: CacheEntry<T> = {
+    const entry: StoredCacheEntry<T> = {
       data: processedData,
       timestamp: now,
       ttl: ttl || this.config.defaultTTL,
@@ -260,8 +290,15 @@ export class NewsDataCacheManager {
       compressedSize,
     };
 
-    this.cache.set(key, entry);
-    this.updateAccessOrder(key);
+    try {
+      await this.storage.set(key, entry);
+    } catch (error) {
+      this.logger.warn(`Cache write failed for key ${key}: ${error}`);
+      return;
+    }
+
+    // Evict entries if cache is full
+    await this.evictEntries(key);
 
     this.logger.debug(`Cache set: ${key} (TTL: ${entry.ttl}ms, Compressed: ${compressed}, Size: ${compressedSize || originalSize} bytes)`);
   }
@@ -270,7 +307,12 @@ export class NewsDataCacheManager {
    * Check if key exists and is not expired
    */
   async has(key: string): Promise<boolean> {
-    const entry = this.cache.get(key);
+    let entry: StoredCacheEntry | undefined;
+    try {
+      entry = await this.storage.get(key);
+    } catch (error) {
+      this.logger.warn(`Cache read failed for key ${key}: ${error}`);
+    }
 
     if (!entry) {
       return false;
@@ -283,8 +325,7 @@ export class NewsDataCacheManager {
 
     if (isExpired && !isStale) {
       // Data is too old, remove it
-      this.cache.delete(key);
-      this.removeFromAccessOrder(key);
+      await this.deleteExpired(key);
       return false;
     }
 
@@ -295,8 +336,7 @@ export class NewsDataCacheManager {
    * Delete cached data
    */
   async delete(key: string): Promise<void> {
-    this.cache.delete(key);
-    this.removeFromAccessOrder(key);
+    await this.storage.delete(key);
     this.logger.debug(`Cache delete: ${key}`);
   }
 
@@ -304,8 +344,7 @@ export class NewsDataCacheManager {
    * Clear all cache
    */
   async clear(): Promise<void> {
-    this.cache.clear();
-    this.accessOrder = [];
+    await this.storage.clear();
     this.hits = 0;
     this.misses = 0;
     this.logger.debug('Cache cleared');
@@ -318,8 +357,9 @@ export class NewsDataCacheManager {
     const now = Date.now();
     let staleKeys = 0;
     let memoryUsage = 0;
+    const entries = await this.storage.entries();
 
-    for (const [key, entry] of this.cache.entries()) {
+    for (const [key, entry] of entries) {
       const age = now - entry.timestamp;
       const isExpired = age > entry.ttl;
       const isStale = isExpired && age <= (entry.ttl + this.config.staleTTL);
@@ -337,7 +377,7 @@ export class NewsDataCacheManager {
     const missRate = total > 0 ? this.misses / total : 0;
 
     return {
-      totalKeys: this.cache.size,
+      totalKeys: entries.length,
       hitRate,
       missRate,
       memoryUsage,
@@ -361,15 +401,16 @@ export class NewsDataCacheManager {
     let totalHitCount = 0;
     let oldestAge = 0;
     let newestAge = Infinity;
+    const entries = await this.storage.entries();
 
-    for (const entry of this.cache.values()) {
+    for (const [, entry] of entries) {
       totalHitCount += entry.hitCount;
       const age = now - entry.timestamp;
       oldestAge = Math.max(oldestAge, age);
       newestAge = Math.min(newestAge, age);
     }
 
-    const averageHitCount = this.cache.size > 0 ? totalHitCount / this.cache.size : 0;
+    const averageHitCount = entries.length > 0 ? totalHitCount / entries.length : 0;
 
     return {
       ...baseStats,
@@ -404,8 +445,9 @@ export class NewsDataCacheManager {
     let dataMemory = 0;
     let largestEntrySize = 0;
     let smallestEntrySize = Infinity;
+    const entries = await this.storage.entries();
 
-    for (const [key, entry] of this.cache.entries()) {
+    for (const [key, entry] of entries) {
       const keySize = key.length * 2; // Rough UTF-16 size
       let dataSize: number;
       
@@ -430,7 +472,7 @@ export class NewsDataCacheManager {
       smallestEntrySize = Math.min(smallestEntrySize, entrySize);
     }
 
-    const averageEntrySize = this.cache.size > 0 ? totalMemory / this.cache.size : 0;
+    const averageEntrySize = entries.length > 0 ? totalMemory / entries.length : 0;
     const spaceSaved = this.compressionStats.totalOriginalSize - this.compressionStats.totalCompressedSize;
 
     return {
@@ -451,7 +493,12 @@ export class NewsDataCacheManager {
    * Get stale data as fallback
    */
   async getStaleData<T>(key: string): Promise<T | null> {
-    const entry = this.cache.get(key);
+    let entry: StoredCacheEntry | undefined;
+    try {
+      entry = await this.storage.get(key);
+    } catch (error) {
+      this.logger.warn(`Cache read failed for key ${key}: ${error}`);
+    }
 
     if (!entry) {
       return null;
@@ -463,7 +510,7 @@ export class NewsDataCacheManager {
 
     if (isStale) {
       this.logger.warn(`Returning stale data for key: ${key} (age: ${age}ms)`);
-      return await this.decompressData(entry);
+      return await this.decompressData<T>(entry as StoredCacheEntry<T>);
     }
 
     return null;
@@ -745,7 +792,7 @@ export class NewsDataCacheManager {
         const key = this.generateCacheKey(pattern.endpoint, params);
         
         // Check if this key is frequently accessed
-        const existing = this.cache.get(key);
+        const existing = await this.storage.get(key);
         const shouldWarm = !existing || 
           existing.hitCount > 2 || 
           (existing.hitCount > 0 && Date.now() - existing.timestamp > existing.ttl * 0.8);
@@ -876,14 +923,13 @@ export class NewsDataCacheManager {
     const now = Date.now();
     let evicted = 0;
 
-    for (const [key, entry] of this.cache.entries()) {
+    for (const [key, entry] of await this.storage.entries()) {
       const age = now - entry.timestamp;
       const isExpired = age > entry.ttl;
       const isStale = isExpired && age <= (entry.ttl + this.config.staleTTL);
 
       if (isExpired && !isStale) {
-        this.cache.delete(key);
-        this.removeFromAccessOrder(key);
+        await this.storage.delete(key);
         evicted++;
       }
     }
@@ -962,96 +1008,38 @@ export class NewsDataCacheManager {
   // ============================================================================
 
   /**
-   * Update access order for LRU tracking
-   */
-  private updateAccessOrder(key: string): void {
-    // Remove key from current position
-    this.removeFromAccessOrder(key);
-    // Add to end (most recently used)
-    this.accessOrder.push(key);
-  }
-
-  /**
-   * Remove key from access order
-   */
-  private removeFromAccessOrder(key: string): void {
-    const index = this.accessOrder.indexOf(key);
-    if (index > -1) {
-      this.accessOrder.splice(index, 1);
-    }
-  }
-
-  /**
-   * Evict entries based on configured policy
-   */
-  private async evictEntries(count: number): Promise<void> {
-    switch (this.config.evictionPolicy) {
-      case 'lru':
-        await this.evictLRU(count);
-        break;
-      case 'lfu':
-        await this.evictLFU(count);
-        break;
-      case 'ttl':
-        await this.evictByTTL(count);
-        break;
-    }
-  }
-
-  /**
-   * Evict least recently used entries
-   */
-  private async evictLRU(count: number): Promise<void> {
-    const toEvict = this.accessOrder.slice(0, count);
-    
-    for (const key of toEvict) {
-      this.cache.delete(key);
-      this.removeFromAccessOrder(key);
-    }
-
-    if (toEvict.length > 0) {
-      this.logger.debug(`Evicted ${toEvict.length} LRU entries`);
-    }
-  }
-
-  /**
-   * Evict least frequently used entries
+   * Delete an entry past its stale window (a failed delete leaves it for the
+   * next read or evictExpired())
    */
-  private async evictLFU(count: number): Promise<void> {
-    const entries = Array.from(this.cache.entries())
-      .sort(([, a], [, b]) => a.hitCount - b.hitCount)
-      .slice(0, count);
-
-    for (const [key] of entries) {
-      this.cache.delete(key);
-      this.removeFromAccessOrder(key);
-    }
-
-    if (entries.length > 0) {
-      this.logger.debug(`Evicted ${entries.length} LFU entries`);
+  private async deleteExpired(key: string): Promise<void> {
+    try {
+      await this.storage.delete(key);
+    } catch (error) {
+      this.logger.warn(`Cache delete failed for key ${key}: ${error}`);
     }
   }
 
   /**
-   * Evict entries with shortest remaining TTL
+   * Evict entries beyond maxSize based on configured policy
+   *
+   * The backend orders by the persisted access time and hit count, so on a
+   * shared backend keys other instances just read are kept. The entry just
+   * written is never evicted.
    */
-  private async evictByTTL(count: number): Promise<void> {
-    const now = Date.now();
-    const entries = Array.from(this.cache.entries())
-      .map(([key, entry]) => ({
-        key,
-        remainingTTL: entry.ttl - (now - entry.timestamp),
-      }))
-      .sort((a, b) => a.remainingTTL - b.remainingTTL)
-      .slice(0, count);
-
-    for (const { key } of entries) {
-      this.cache.delete(key);
-      this.removeFromAccessOrder(key);
-    }
-
-    if (entries.length > 0) {
-      this.logger.debug(`Evicted ${entries.length} entries by TTL`);
+  private async evictEntries(keepKey: string): Promise<void> {
+    try {
+      const evicted = await this.storage.evict(
+        this.config.maxSize,
+        this.config.evictionPolicy,
+        keepKey
+      );
+      if (evicted.length > 0) {
+        this.logger.debug(
+          `Evicted ${evicted.length} entries (${this.config.evictionPolicy.toUpperCase()})`
+        );
+      }
+    } catch (error) {
+      this.logger.warn(`Cache eviction failed: ${error}`);
     }
   }
 }
@@ -1099,4 +1087,33 @@ export function createHighPerformanceNewsDataCache(): NewsDataCacheManager {
     warmingBatchSize: 10,
     keyOptimization: true,
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Create the cache manager for a NewsData client from its cache configuration
+ *
+ * TTLs in the configuration are in seconds; the `latest` TTL becomes the
+ * default entry TTL.
+ *
+ * @param cache - NewsData cache configuration
+ * @param supabaseManager - Supabase client manager (required for the postgres backend)
+ * @throws Error if the postgres backend is configured without a Supabase client manager
+ */
+export function createNewsDataCacheFromConfig(
+  cache: NewsDataConfig['cache'],
+  supabaseManager?: SupabaseClientManager
+): NewsDataCacheManager {
+  const storage = createCacheStorageBackend({
+    type: cache.backend ?? 'memory',
+    sqlitePath: cache.sqlitePath,
+    supabaseManager,
+  });
+
+  return new NewsDataCacheManager(
+    {
+      maxSize: cache.maxSize,
+      defaultTTL: cache.ttl.latest * 1000,
+    },
+    storage
+  );
+}
@@ -0,0 +1,164 @@
+/**
+ * Unit tests for NewsData cache storage backends
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  MemoryCacheBackend,
+  SqliteCacheBackend,
+  createCacheStorageBackend,
+} from './newsdata-cache-storage.js';
+import { NewsDataCacheManager, createNewsDataCacheFromConfig } from './newsdata-cache-manager.js';
+import { NewsDataClient, DEFAULT_NEWSDATA_CONFIG } from './newsdata-client.js';
+
+describe('NewsData Cache Storage', () => {
+  let tempDir: string;
+  let dbPath: string;
+  const managers: NewsDataCacheManager[] = [];
+
+  const openManager = (config = {}): NewsDataCacheManager => {
+    const manager = new NewsDataCacheManager(
+      { staleTTL: 60_000, ...config },
+      new SqliteCacheBackend(dbPath)
+    );
+    managers.push(manager);
+    return manager;
+  };
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'newsdata-cache-'));
+    dbPath = join(tempDir, 'cache.sqlite');
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    for (const manager of managers.splice(0)) {
+      await manager.close();
+    }
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should share entries between cache managers on one SQLite file', async () => {
+    const first = openManager({ compressionThreshold: 100 });
+    const articles = Array.from({ length: 50 }, (_, i) => ({
+      title: `Senate vote scheduled for Tuesday ${i}`,
+    }));
+    await first.set('newsdata:latest:large', { results: articles });
+    await first.set('newsdata:latest:small', { results: [] });
+
+    const second = openManager();
+    const large = await second.get<{ results: typeof articles }>('newsdata:latest:large');
+
+    expect(large?.data.results).toEqual(articles);
+    expect(large?.hitCount).toBe(1);
+    expect((await second.get('newsdata:latest:small'))?.data).toEqual({ results: [] });
+    expect((await first.getMemoryBreakdown()).compressionStats.totalCompressed).toBe(1);
+  });
+
+  it('should keep TTL and stale-TTL semantics on a persistent backend', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-04-15T12:00:00Z'));
+    const manager = openManager();
+    await manager.set('key', { value: 1 }, 1000);
+
+    vi.advanceTimersByTime(1500);
+    expect((await manager.get('key'))?.isStale).toBe(true);
+    expect(await manager.getStaleData('key')).toEqual({ value: 1 });
+
+    vi.advanceTimersByTime(60_000);
+    expect(await manager.get('key')).toBeNull();
+    expect(await openManager().has('key')).toBe(false);
+  });
+
+  it('should evict entries written by other instances first when full', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-04-15T12:00:00Z'));
+    const other = openManager({ maxSize: 3 });
+    await other.set('old', 1);
+    vi.advanceTimersByTime(10);
+    await other.set('newer', 2);
+
+    const manager = openManager({ maxSize: 3 });
+    await manager.set('mine', 3);
+    await manager.set('trigger', 4);
+
+    expect(await manager.has('old')).toBe(false);
+    expect(await manager.has('newer')).toBe(true);
+    expect(await manager.has('mine')).toBe(true);
+  });
+
+  it('should keep keys another instance just read when evicting', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-04-15T12:00:00Z'));
+    const manager = openManager({ maxSize: 3 });
+    for (const key of ['a', 'b', 'c']) {
+      await manager.set(key, key);
+      vi.advanceTimersByTime(10);
+    }
+
+    await openManager().get('a');
+    vi.advanceTimersByTime(10);
+    await manager.set('d', 'd');
+
+    expect(await manager.has('a')).toBe(true);
+    expect(await manager.has('b')).toBe(false);
+    expect((await manager.getStats()).totalKeys).toBe(3);
+  });
+
+  it('should treat backend read and delete failures as misses', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-04-15T12:00:00Z'));
+    const backend = new MemoryCacheBackend();
+    const manager = new NewsDataCacheManager({ staleTTL: 1000 }, backend);
+    await manager.set('expired', 1, 1000);
+    vi.advanceTimersByTime(5000);
+
+    vi.spyOn(backend, 'delete').mockRejectedValue(new Error('connection reset'));
+    expect(await manager.get('expired')).toBeNull();
+    expect(await manager.has('expired')).toBe(false);
+
+    vi.spyOn(backend, 'get').mockRejectedValue(new Error('connection reset'));
+    expect(await manager.has('expired')).toBe(false);
+  });
+
+  it('should create backends from configuration', async () => {
+    expect(createCacheStorageBackend({ type: 'memory' })).toBeInstanceOf(MemoryCacheBackend);
+    expect(() => createCacheStorageBackend({ type: 'postgres' })).toThrow(
+      'requires a Supabase client manager'
+    );
+
+    const manager = createNewsDataCacheFromConfig({
+      ...DEFAULT_NEWSDATA_CONFIG.cache!,
+      backend: 'sqlite',
+      sqlitePath: join(tempDir, 'nested', 'cache.sqlite'),
+    });
+    managers.push(manager);
+    expect(manager.getBackendType()).toBe('sqlite');
+  });
+
+  it('should serve repeated NewsData requests from the cache', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ status: 'success', totalResults: 0, results: [] }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const cacheManager = openManager();
+    const client = new NewsDataClient(
+      { ...DEFAULT_NEWSDATA_CONFIG, apiKey: 'test-key' } as any,
+      undefined,
+      cacheManager
+    );
+
+    await client.fetchLatestNews({ q: 'election' });
+    await client.fetchLatestNews({ q: 'election' });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect((await cacheManager.getStats()).totalKeys).toBe(1);
+  });
+});
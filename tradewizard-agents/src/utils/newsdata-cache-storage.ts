@@ -0,0 +1,515 @@
+/**
+ * NewsData Cache Storage Backends
+ *
+ * Storage behind NewsDataCacheManager. The memory backend keeps entries in the
+ * process; the SQLite backend persists them to a local file so restarts and
+ * repeated CLI runs on one host keep the warm cache; the Postgres backend
+ * stores them in the newsdata_cache table so every monitor replica shares one
+ * cache and NewsData quota is spent once per query.
+ *
+ * Backends store entries and delete the overflow in eviction order, so a
+ * shared cache evicts by the access times every replica recorded. TTL and
+ * stale-TTL checks and compression stay in the cache manager, so they behave
+ * the same on every backend.
+ */
+
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import Database from 'better-sqlite3';
+import type { SupabaseClientManager } from '../database/supabase-client.js';
+import type { Tables, TablesInsert } from '../database/types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CacheBackendType = 'memory' | 'sqlite' | 'postgres';
+
+/**
+ * Order entries are evicted in: least recently accessed, least hit, or
+ * soonest to expire
+ */
+export type CacheEvictionPolicy = 'lru' | 'lfu' | 'ttl';
+
+/**
+ * Cache entry as stored by a backend
+ */
+export interface StoredCacheEntry<T = unknown> {
+  data: T | Buffer; // Buffer when compressed
+  timestamp: number;
+  ttl: number;
+  hitCount: number;
+  lastAccessed: number;
+  compressed: boolean;
+  originalSize?: number;
+  compressedSize?: number;
+}
+
+/**
+ * Storage backend for NewsDataCacheManager
+ */
+export interface CacheStorageBackend {
+  readonly type: CacheBackendType;
+  get(key: string): Promise<StoredCacheEntry | undefined>;
+  set(key: string, entry: StoredCacheEntry): Promise<void>;
+  /**
+   * Record a read of an entry (hit count and last access time)
+   */
+  touch(key: string, hitCount: number, lastAccessed: number): Promise<void>;
+  has(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  size(): Promise<number>;
+  entries(): Promise<Array<[string, StoredCacheEntry]>>;
+  /**
+   * Delete entries beyond maxSize in eviction order, never keepKey
+   * @returns Evicted keys
+   */
+  evict(maxSize: number, policy: CacheEvictionPolicy, keepKey?: string): Promise<string[]>;
+  close(): Promise<void>;
+}
+
+export interface CacheBackendOptions {
+  type: CacheBackendType;
+  /** SQLite database file (sqlite backend) */
+  sqlitePath?: string;
+  /** Supabase client manager (postgres backend) */
+  supabaseManager?: SupabaseClientManager;
+}
+
+export const DEFAULT_SQLITE_CACHE_PATH = './data/newsdata-cache.sqlite';
+
+const TABLE_NAME = 'newsdata_cache';
+
+/**
+ * Rows fetched per request when listing the Postgres cache
+ */
+const POSTGRES_PAGE_SIZE = 1000;
+
+// ============================================================================
+// Memory Backend
+// ============================================================================
+
+/**
+ * In-process backend (entries are lost on restart and not shared)
+ */
+export class MemoryCacheBackend implements CacheStorageBackend {
+  readonly type = 'memory' as const;
+  private store = new Map<string, StoredCacheEntry>();
+
+  async get(key: string): Promise<StoredCacheEntry | undefined> {
+    return this.store.get(key);
+  }
+
+  async set(key: string, entry: StoredCacheEntry): Promise<void> {
+    // Re-insert so map order stays access order for same-millisecond ties
+    this.store.delete(key);
+    this.store.set(key, entry);
+  }
+
+  async touch(key: string, hitCount: number, lastAccessed: number): Promise<void> {
+    const entry = this.store.get(key);
+    if (entry) {
+      entry.hitCount = hitCount;
+      entry.lastAccessed = lastAccessed;
+      this.store.delete(key);
+      this.store.set(key, entry);
+    }
+  }
+
+  async has(key: string): Promise<boolean> {
+    return this.store.has(key);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.store.clear();
+  }
+
+  async size(): Promise<number> {
+    return this.store.size;
+  }
+
+  async entries(): Promise<Array<[string, StoredCacheEntry]>> {
+    return Array.from(this.store.entries());
+  }
+
+  async evict(maxSize: number, policy: CacheEvictionPolicy, keepKey?: string): Promise<string[]> {
+    const overflow = this.store.size - maxSize;
+    if (overflow <= 0) {
+      return [];
+    }
+
+    const sortKey = (entry: StoredCacheEntry): number[] => {
+      switch (policy) {
+        case 'lru':
+          return [entry.lastAccessed];
+        case 'lfu':
+          return [entry.hitCount, entry.lastAccessed];
+        case 'ttl':
+          return [entry.timestamp + entry.ttl, entry.lastAccessed];
+      }
+    };
+    const compare = (a: number[], b: number[]): number =>
+      a.map((value, i) => value - b[i]).find((diff) => diff !== 0) ?? 0;
+
+    const evicted = Array.from(this.store.entries())
+      .filter(([key]) => key !== keepKey)
+      .sort(([, a], [, b]) => compare(sortKey(a), sortKey(b)))
+      .slice(0, overflow)
+      .map(([key]) => key);
+
+    for (const key of evicted) {
+      this.store.delete(key);
+    }
+    return evicted;
+  }
+
+  async close(): Promise<void> {}
+}
+
+// ============================================================================
+// SQLite Backend
+// ============================================================================
+
+interface SqliteCacheRow {
+  cache_key: string;
+  payload: string | Buffer;
+  compressed: number;
+  cached_at: number;
+  ttl_ms: number;
+  hit_count: number;
+  last_accessed: number;
+  original_size: number | null;
+  compressed_size: number | null;
+}
+
+/**
+ * SQLite ORDER BY clause per eviction policy
+ */
+const SQLITE_EVICTION_ORDER: Record<CacheEvictionPolicy, string> = {
+  lru: 'last_accessed, cache_key',
+  lfu: 'hit_count, last_accessed, cache_key',
+  ttl: 'cached_at + ttl_ms, last_accessed, cache_key',
+};
+
+function fromSqliteRow(row: SqliteCacheRow): StoredCacheEntry {
+  return {
+    data: row.compressed ? Buffer.from(row.payload) : JSON.parse(row.payload.toString()),
+    timestamp: row.cached_at,
+    ttl: row.ttl_ms,
+    hitCount: row.hit_count,
+    lastAccessed: row.last_accessed,
+    compressed: row.compressed === 1,
+    originalSize: row.original_size ?? undefined,
+    compressedSize: row.compressed_size ?? undefined,
+  };
+}
+
+/**
+ * Local SQLite file backend
+ *
+ * Uses WAL mode with a busy timeout so several processes on one host can
+ * share the file.
+ */
+export class SqliteCacheBackend implements CacheStorageBackend {
+  readonly type = 'sqlite' as const;
+  private db: Database.Database;
+
+  constructor(path: string = DEFAULT_SQLITE_CACHE_PATH) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new Database(path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${TABLE_NAME} (
+        cache_key TEXT PRIMARY KEY,
+        payload BLOB NOT NULL,
+        compressed INTEGER NOT NULL DEFAULT 0,
+        cached_at INTEGER NOT NULL,
+        ttl_ms INTEGER NOT NULL,
+        hit_count INTEGER NOT NULL DEFAULT 0,
+        last_accessed INTEGER NOT NULL,
+        original_size INTEGER,
+        compressed_size INTEGER
+      )
+    `);
+  }
+
+  async get(key: string): Promise<StoredCacheEntry | undefined> {
+    const row = this.db.prepare(`SELECT * FROM ${TABLE_NAME} WHERE cache_key = ?`).get(key) as
+      SqliteCacheRow | undefined;
+    return row ? fromSqliteRow(row) : undefined;
+  }
+
+  async set(key: string, entry: StoredCacheEntry): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO ${TABLE_NAME}
+          (cache_key, payload, compressed, cached_at, ttl_ms, hit_count, last_accessed,
+           original_size, compressed_size)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        key,
+        entry.compressed ? (entry.data as Buffer) : JSON.stringify(entry.data),
+        entry.compressed ? 1 : 0,
+        entry.timestamp,
+        entry.ttl,
+        entry.hitCount,
+        entry.lastAccessed,
+        entry.originalSize ?? null,
+        entry.compressedSize ?? null
+      );
+  }
+
+  async touch(key: string, hitCount: number, lastAccessed: number): Promise<void> {
+    this.db
+      .prepare(`UPDATE ${TABLE_NAME} SET hit_count = ?, last_accessed = ? WHERE cache_key = ?`)
+      .run(hitCount, lastAccessed, key);
+  }
+
+  async has(key: string): Promise<boolean> {
+    return !!this.db.prepare(`SELECT 1 FROM ${TABLE_NAME} WHERE cache_key = ?`).get(key);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.db.prepare(`DELETE FROM ${TABLE_NAME} WHERE cache_key = ?`).run(key);
+  }
+
+  async clear(): Promise<void> {
+    this.db.prepare(`DELETE FROM ${TABLE_NAME}`).run();
+  }
+
+  async size(): Promise<number> {
+    const row = this.db.prepare(`SELECT COUNT(*) AS count FROM ${TABLE_NAME}`).get() as {
+      count: number;
+    };
+    return row.count;
+  }
+
+  async entries(): Promise<Array<[string, StoredCacheEntry]>> {
+    const rows = this.db.prepare(`SELECT * FROM ${TABLE_NAME}`).all() as SqliteCacheRow[];
+    return rows.map((row) => [row.cache_key, fromSqliteRow(row)]);
+  }
+
+  async evict(maxSize: number, policy: CacheEvictionPolicy, keepKey?: string): Promise<string[]> {
+    const rows = this.db
+      .prepare(
+        `DELETE FROM ${TABLE_NAME} WHERE cache_key IN (
+           SELECT cache_key FROM ${TABLE_NAME}
+           WHERE cache_key IS NOT ?
+           ORDER BY ${SQLITE_EVICTION_ORDER[policy]}
+           LIMIT max((SELECT COUNT(*) FROM ${TABLE_NAME}) - ?, 0)
+         ) RETURNING cache_key`
+      )
+      .all(keepKey ?? null, maxSize) as Array<{ cache_key: string }>;
+    return rows.map((row) => row.cache_key);
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+}
+
+// ============================================================================
+// Postgres Backend
+// ============================================================================
+
+type PostgresCacheRow = Tables<'newsdata_cache'>;
+
+function fromPostgresRow(row: PostgresCacheRow): StoredCacheEntry {
+  return {
+    data: row.compressed ? Buffer.from(row.payload, 'base64') : JSON.parse(row.payload),
+    timestamp: new Date(row.cached_at).getTime(),
+    ttl: row.ttl_ms,
+    hitCount: row.hit_count,
+    lastAccessed: new Date(row.last_accessed).getTime(),
+    compressed: row.compressed,
+    originalSize: row.original_size ?? undefined,
+    compressedSize: row.compressed_size ?? undefined,
+  };
+}
+
+/**
+ * Postgres backend on the newsdata_cache table (shared by every process
+ * connected to the same Supabase project)
+ */
+export class PostgresCacheBackend implements CacheStorageBackend {
+  readonly type = 'postgres' as const;
+
+  constructor(private readonly clientManager: SupabaseClientManager) {}
+
+  async get(key: string): Promise<StoredCacheEntry | undefined> {
+    const { data, error } = await this.clientManager
+      .getClient()
+      .from(TABLE_NAME)
+      .select('*')
+      .eq('cache_key', key)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to read NewsData cache entry: ${error.message}`);
+    }
+    return data ? fromPostgresRow(data) : undefined;
+  }
+
+  async set(key: string, entry: StoredCacheEntry): Promise<void> {
+    const row: TablesInsert<'newsdata_cache'> = {
+      cache_key: key,
+      payload: entry.compressed
+        ? (entry.data as Buffer).toString('base64')
+        : JSON.stringify(entry.data),
+      compressed: entry.compressed,
+      cached_at: new Date(entry.timestamp).toISOString(),
+      ttl_ms: entry.ttl,
+      hit_count: entry.hitCount,
+      last_accessed: new Date(entry.lastAccessed).toISOString(),
+      original_size: entry.originalSize ?? null,
+      compressed_size: entry.compressedSize ?? null,
+    };
+
+    const { error } = await this.clientManager
+      .getClient()
+      .from(TABLE_NAME)
+      .upsert(row, { onConflict: 'cache_key' });
+
+    if (error) {
+      throw new Error(`Failed to write NewsData cache entry: ${error.message}`);
+    }
+  }
+
+  async touch(key: string, hitCount: number, lastAccessed: number): Promise<void> {
+    const { error } = await this.clientManager
+      .getClient()
+      .from(TABLE_NAME)
+      .update({ hit_count: hitCount, last_accessed: new Date(lastAccessed).toISOString() })
+      .eq('cache_key', key);
+
+    if (error) {
+      throw new Error(`Failed to update NewsData cache entry: ${error.message}`);
+    }
+  }
+
+  async has(key: string): Promise<boolean> {
+    const { count, error } = await this.clientManager
+      .getClient()
+      .from(TABLE_NAME)
+      .select('cache_key', { count: 'exact', head: true })
+      .eq('cache_key', key);
+
+    if (error) {
+      throw new Error(`Failed to read NewsData cache entry: ${error.message}`);
+    }
+    return (count ?? 0) > 0;
+  }
+
+  async delete(key: string): Promise<void> {
+    const { error } = await this.clientManager
+      .getClient()
+      .from(TABLE_NAME)
+      .delete()
+      .eq('cache_key', key);
+
+    if (error) {
+      throw new Error(`Failed to delete NewsData cache entry: ${error.message}`);
+    }
+  }
+
+  async clear(): Promise<void> {
+    // PostgREST rejects unfiltered deletes
+    const { error } = await this.clientManager
+      .getClient()
+      .from(TABLE_NAME)
+      .delete()
+      .neq('cache_key', '');
+
+    if (error) {
+      throw new Error(`Failed to clear NewsData cache: ${error.message}`);
+    }
+  }
+
+  async size(): Promise<number> {
+    const { count, error } = await this.clientManager
+      .getClient()
+      .from(TABLE_NAME)
+      .select('cache_key', { count: 'exact', head: true });
+
+    if (error) {
+      throw new Error(`Failed to count NewsData cache entries: ${error.message}`);
+    }
+    return count ?? 0;
+  }
+
+  async entries(): Promise<Array<[string, StoredCacheEntry]>> {
+    const entries: Array<[string, StoredCacheEntry]> = [];
+
+    for (let from = 0; ; from += POSTGRES_PAGE_SIZE) {
+      const { data, error } = await this.clientManager
+        .getClient()
+        .from(TABLE_NAME)
+        .select('*')
+        .order('cache_key')
+        .range(from, from + POSTGRES_PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to list NewsData cache entries: ${error.message}`);
+      }
+
+      for (const row of data ?? []) {
+        entries.push([row.cache_key, fromPostgresRow(row)]);
+      }
+      if (!data || data.length < POSTGRES_PAGE_SIZE) {
+        return entries;
+      }
+    }
+  }
+
+  async evict(maxSize: number, policy: CacheEvictionPolicy, keepKey?: string): Promise<string[]> {
+    // PostgREST has no ordered, limited delete; evict_newsdata_cache runs it in one statement
+    const { data, error } = await this.clientManager.getClient().rpc('evict_newsdata_cache', {
+      max_entries: maxSize,
+      policy,
+      keep_key: keepKey,
+    });
+
+    if (error) {
+      throw new Error(`Failed to evict NewsData cache entries: ${error.message}`);
+    }
+    return data ?? [];
+  }
+
+  /**
+   * No-op: the Supabase client manager is owned by the caller
+   */
+  async close(): Promise<void> {}
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Create a cache storage backend
+ *
+ * @throws Error if the postgres backend is requested without a Supabase client manager
+ */
+export function createCacheStorageBackend(options: CacheBackendOptions): CacheStorageBackend {
+  switch (options.type) {
+    case 'memory':
+      return new MemoryCacheBackend();
+    case 'sqlite':
+      return new SqliteCacheBackend(options.sqlitePath ?? DEFAULT_SQLITE_CACHE_PATH);
+    case 'postgres':
+      if (!options.supabaseManager) {
+        throw new Error('Postgres NewsData cache backend requires a Supabase client manager');
+      }
+      return new PostgresCacheBackend(options.supabaseManager);
+  }
+}
@@ -35,6 +35,7 @@ export interface CircuitBreakerConfig {
   monitoringPeriod: number; // Time window for failure rate calculation (ms)
   successThreshold: number; // Successes needed in half-open to close circuit
   volumeThreshold: number; // Minimum calls before failure rate is considered
+  provider?: string; // Provider reported in data fetch logs (default newsdata.io)
 }
 
 export interface CircuitBreakerStats {
@@ -59,11 +60,19 @@ export interface CircuitBreakerResult<T> {
   circuitState: CircuitBreakerState;
 }
 
+/**
+ * Circuit breaker used by the news clients and fallback manager
+ */
+export interface NewsCircuitBreaker {
+  execute<T>(fn: () => Promise<T>, fallbackFn?: () => Promise<T>): Promise<CircuitBreakerResult<T>>;
+  getState(): CircuitBreakerState;
+}
+
 // ============================================================================
 // Circuit Breaker Implementation
 // ============================================================================
 
-export class NewsDataCircuitBreaker {
+export class NewsDataCircuitBreaker implements NewsCircuitBreaker {
   private state: CircuitBreakerState = CircuitBreakerState.CLOSED;
   private failureCount: number = 0;
   private successCount: number = 0;
@@ -115,7 +124,7 @@ export class NewsDataCircuitBreaker {
           this.observabilityLogger?.logDataFetch({
             timestamp: Date.now(),
             source: 'news',
-            provider: 'newsdata.io',
+            provider: this.config.provider ?? 'newsdata.io',
             success: true,
             cached: true,
             stale: true,
@@ -161,7 +170,7 @@ export class NewsDataCircuitBreaker {
       this.observabilityLogger?.logDataFetch({
         timestamp: Date.now(),
         source: 'news',
-        provider: 'newsdata.io',
+        provider: this.config.provider ?? 'newsdata.io',
         success: true,
         cached: false,
         stale: false,
@@ -184,7 +193,7 @@ export class NewsDataCircuitBreaker {
       this.observabilityLogger?.logDataFetch({
         timestamp: Date.now(),
         source: 'news',
-        provider: 'newsdata.io',
+        provider: this.config.provider ?? 'newsdata.io',
         success: false,
         cached: false,
         stale: false,
@@ -345,7 +354,7 @@ export class NewsDataCircuitBreaker {
     this.observabilityLogger?.logDataFetch({
       timestamp: Date.now(),
       source: 'news',
-      provider: 'newsdata.io',
+      provider: this.config.provider ?? 'newsdata.io',
       success: true,
       cached: false,
       stale: false,
@@ -370,7 +379,7 @@ export class NewsDataCircuitBreaker {
     this.observabilityLogger?.logDataFetch({
       timestamp: Date.now(),
       source: 'news',
-      provider: 'newsdata.io',
+      provider: this.config.provider ?? 'newsdata.io',
       success: false,
       cached: false,
       stale: false,
@@ -540,6 +549,45 @@ export class NewsDataCircuitBreaker {
   }
 }
 
+// ============================================================================
+// Aggregate Circuit Breaker
+// ============================================================================
+
+/**
+ * Circuit breaker over the breakers of several providers tried in turn
+ *
+ * Reports the healthiest member state: the circuit is only OPEN once every
+ * provider's circuit is open. execute() runs through the first member that is
+ * not open.
+ */
+export class AggregateCircuitBreaker implements NewsCircuitBreaker {
+  constructor(private breakers: NewsCircuitBreaker[]) {
+    if (breakers.length === 0) {
+      throw new Error('AggregateCircuitBreaker requires at least one circuit breaker');
+    }
+  }
+
+  async execute<T>(
+    fn: () => Promise<T>,
+    fallbackFn?: () => Promise<T>
+  ): Promise<CircuitBreakerResult<T>> {
+    const breaker =
+      this.breakers.find((member) => member.getState() !== CircuitBreakerState.OPEN) ??
+      this.breakers[0];
+    return breaker.execute(fn, fallbackFn);
+  }
+
+  getState(): CircuitBreakerState {
+    const states = this.breakers.map((breaker) => breaker.getState());
+    if (states.includes(CircuitBreakerState.CLOSED)) {
+      return CircuitBreakerState.CLOSED;
+    }
+    return states.includes(CircuitBreakerState.HALF_OPEN)
+      ? CircuitBreakerState.HALF_OPEN
+      : CircuitBreakerState.OPEN;
+  }
+}
+
 // ============================================================================
 // Default Configuration
 // ============================================================================
@@ -55,6 +55,8 @@ export interface NewsDataConfig {
       archive: number; // seconds
     };
     maxSize?: number; // maximum cache entries
+    backend?: 'memory' | 'sqlite' | 'postgres'; // cache manager storage (default memory)
+    sqlitePath?: string; // SQLite file for the sqlite backend
   };
   
   // Circuit breaker configuration
@@ -593,10 +595,21 @@ export class NewsDataClient {
     let timeout = false;
     
     try {
-      // Generate cache key for fallback purposes
+      // Generate cache key for caching and fallback purposes
       const cacheKey = this.cacheManager?.generateCacheKey(endpoint, this.extractParamsFromUrl(url)) || url;
+      const useCache = !!this.cacheManager && this.config.cache.enabled;
+      
+      // Serve fresh cached responses without spending quota
+      if (useCache) {
+        const cached = await this.cacheManager!.get<NewsDataResponse>(cacheKey);
+        if (cached && !cached.isStale) {
+          this.performanceMonitor?.recordResponseTime(endpoint, Date.now() - startTime, true, false);
+          return cached.data;
+        }
+      }
       
       let result: NewsDataResponse;
+      let fetched = false;
       
       // If circuit breaker is available, use it with fallback
       if (this.circuitBreaker && this.fallbackManager) {
@@ -608,6 +621,7 @@ export class NewsDataClient {
         if (circuitResult.success && circuitResult.data) {
           result = circuitResult.data;
           success = true;
+          fetched = !circuitResult.fromFallback;
         } else if (circuitResult.fromFallback && circuitResult.data) {
           result = circuitResult.data;
           success = true;
@@ -618,6 +632,11 @@ export class NewsDataClient {
         // Fallback to direct request if circuit breaker not available
         result = await this.makeDirectRequest(url, endpoint, agentName);
         success = true;
+        fetched = true;
+      }
+      
+      if (useCache && fetched) {
+        await this.cacheManager!.set(cacheKey, result, this.getCacheTTL(endpoint));
       }
       
       // Record performance metrics
@@ -649,6 +668,15 @@ export class NewsDataClient {
     }
   }
   
+  /**
+   * Cache TTL for an endpoint in milliseconds
+   */
+  private getCacheTTL(endpoint: string): number {
+    const ttl = this.config.cache.ttl;
+    const seconds = endpoint in ttl ? ttl[endpoint as keyof typeof ttl] : ttl.latest;
+    return seconds * 1000;
+  }
+  
   /**
    * Execute fallback strategy when primary request fails
    */
@@ -14,8 +14,8 @@
  * Requirements: 6.3, 6.4
  */
 
-import type { NewsDataCacheManager } from './newsdata-cache-manager.js';
-import type { NewsDataCircuitBreaker, CircuitBreakerState } from './newsdata-circuit-breaker.js';
+import type { NewsCacheManager } from './newsdata-cache-manager.js';
+import type { NewsCircuitBreaker, CircuitBreakerState } from './newsdata-circuit-breaker.js';
 import type { NewsDataResponse, NewsDataArticle } from './newsdata-client.js';
 import type { AdvancedObservabilityLogger } from './audit-logger.js';
 import { getLogger } from './logger.js';
@@ -40,6 +40,7 @@ export interface FallbackConfig {
     stepDurationMs: number; // Duration of each recovery step
     successRateThreshold: number; // Success rate needed to proceed to next step
   };
+  provider?: string; // Provider reported in data fetch logs (default newsdata.io)
 }
 
 export enum FallbackStrategy {
@@ -75,11 +76,21 @@ export interface RecoveryState {
   overallSuccessRate: number;
 }
 
+/**
+ * Fallback used by the news clients once every provider request has failed
+ */
+export interface NewsFallbackManager {
+  executeFallback(
+    cacheKey: string,
+    originalError?: Error
+  ): Promise<FallbackResult<NewsDataResponse>>;
+}
+
 // ============================================================================
 // Fallback Manager Implementation
 // ============================================================================
 
-export class NewsDataFallbackManager {
+export class NewsDataFallbackManager implements NewsFallbackManager {
   private recoveryState: RecoveryState = {
     enabled: false,
     currentStep: 0,
@@ -94,8 +105,8 @@ export class NewsDataFallbackManager {
   
   constructor(
     private config: FallbackConfig,
-    private cacheManager: NewsDataCacheManager,
-    private circuitBreaker: NewsDataCircuitBreaker,
+    private cacheManager: NewsCacheManager,
+    private circuitBreaker: NewsCircuitBreaker,
     private observabilityLogger?: AdvancedObservabilityLogger
   ) {
     this.logger = getLogger();
@@ -132,7 +143,7 @@ export class NewsDataFallbackManager {
           this.observabilityLogger?.logDataFetch({
             timestamp: Date.now(),
             source: 'news',
-            provider: 'newsdata.io',
+            provider: this.config.provider ?? 'newsdata.io',
             success: true,
             cached: result.metadata.cacheHit,
             stale: result.staleness ? result.staleness > 0 : false,
@@ -166,7 +177,7 @@ export class NewsDataFallbackManager {
     this.observabilityLogger?.logDataFetch({
       timestamp: Date.now(),
       source: 'news',
-      provider: 'newsdata.io',
+      provider: this.config.provider ?? 'newsdata.io',
       success: false,
       cached: false,
       stale: false,
@@ -580,8 +591,8 @@ export const DEFAULT_FALLBACK_CONFIG: FallbackConfig = {
  */
 export function createNewsDataFallbackManager(
   config: Partial<FallbackConfig>,
-  cacheManager: NewsDataCacheManager,
-  circuitBreaker: NewsDataCircuitBreaker,
+  cacheManager: NewsCacheManager,
+  circuitBreaker: NewsCircuitBreaker,
   observabilityLogger?: AdvancedObservabilityLogger
 ): NewsDataFallbackManager {
   const mergedConfig: FallbackConfig = {
@@ -123,7 +123,7 @@ export class NewsDataIntegrationWrapper extends DataIntegrationLayer {
    */
   async fetchSocialSentiment(
     market: MarketBriefingDocument,
-    platforms: string[] = ['twitter', 'reddit']
+    platforms?: string[]
   ): Promise<SocialSentiment | null> {
     // NewsData.io doesn't provide social sentiment data
     // Fall back to parent implementation or return null
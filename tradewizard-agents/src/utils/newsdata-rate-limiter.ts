@@ -56,6 +56,8 @@ export interface RateLimiterConfig {
   adaptiveRefill: boolean; // Enable adaptive refill rate based on usage patterns
   burstMultiplier: number; // Multiplier for burst capacity during low usage
   throttleThreshold: number; // Quota percentage to start throttling (0-1)
+  
+  provider?: string; // Provider reported in data fetch logs (default newsdata.io)
 }
 
 export interface RequestPriority {
@@ -104,6 +106,26 @@ export interface RequestResult {
   reason?: string;
 }
 
+export interface RateLimitedRequestOptions {
+  tokens?: number;
+  maxRetries?: number;
+  priority?: RequestPriority;
+  agentId?: string;
+  requestType?: string;
+  onRetry?: (attempt: number, delay: number, reason: string) => void;
+}
+
+/**
+ * Rate limiter used by the news clients, one bucket per news endpoint
+ */
+export interface NewsRateLimiter {
+  executeWithRateLimit<T>(
+    bucket: string,
+    fn: () => Promise<T>,
+    options?: RateLimitedRequestOptions
+  ): Promise<T>;
+}
+
 // ============================================================================
 // Token Bucket Implementation
 // ============================================================================
@@ -310,7 +332,7 @@ class TokenBucket {
 // Rate Limiter Implementation
 // ============================================================================
 
-export class NewsDataRateLimiter {
+export class NewsDataRateLimiter implements NewsRateLimiter {
   private buckets: Map<string, TokenBucket> = new Map();
   private coordinationQueue: Map<string, number[]> = new Map(); // Track request timestamps per bucket
   private observabilityLogger?: AdvancedObservabilityLogger;
@@ -607,7 +629,7 @@ export class NewsDataRateLimiter {
       this.observabilityLogger?.logDataFetch({
         timestamp: Date.now(),
         source: 'news',
-        provider: 'newsdata.io',
+        provider: this.config.provider ?? 'newsdata.io',
         success: false,
         cached: false,
         stale: false,
@@ -787,14 +809,7 @@ export class NewsDataRateLimiter {
   async executeWithRateLimit<T>(
     bucket: string,
     fn: () => Promise<T>,
-    options: {
-      tokens?: number;
-      maxRetries?: number;
-      priority?: RequestPriority;
-      agentId?: string;
-      requestType?: string;
-      onRetry?: (attempt: number, delay: number, reason: string) => void;
-    } = {}
+    options: RateLimitedRequestOptions = {}
   ): Promise<T> {
     const {
       tokens = 1,
@@ -0,0 +1,136 @@
+/**
+ * Unit tests for CLOB order book analysis
+ */
+
+import { describe, it, expect } from 'vitest';
+import { fileURLToPath } from 'url';
+import {
+  analyzeOrderBookDepth,
+  estimateFill,
+  getFillEstimate,
+  loadOrderBookFixture,
+  parseOrderBook,
+} from './order-book.js';
+
+const FIXTURE_PATH = fileURLToPath(new URL('./fixtures/clob-order-book.json', import.meta.url));
+
+describe('Order Book', () => {
+  describe('parseOrderBook', () => {
+    it('should sort levels best-first and drop empty levels', () => {
+      const book = parseOrderBook({
+        asset_id: 'token-1',
+        bids: [
+          { price: '0.40', size: '100' },
+          { price: '0.42', size: '0' },
+          { price: '0.41', size: '50' },
+        ],
+        asks: [
+          { price: '0.50', size: '100' },
+          { price: '0.45', size: '10' },
+        ],
+        timestamp: '1700000000000',
+      });
+
+      expect(book.tokenId).toBe('token-1');
+      expect(book.bids.map((level) => level.price)).toEqual([0.41, 0.4]);
+      expect(book.asks.map((level) => level.price)).toEqual([0.45, 0.5]);
+      expect(book.timestamp).toBe(1700000000000);
+    });
+  });
+
+  describe('loadOrderBookFixture', () => {
+    it('should load the local fixture book', async () => {
+      const book = await loadOrderBookFixture(FIXTURE_PATH);
+
+      expect(book.bids[0]).toEqual({ price: 0.44, size: 250 });
+      expect(book.asks[0]).toEqual({ price: 0.46, size: 250 });
+    });
+  });
+
+  describe('estimateFill', () => {
+    it('should fill small orders at the top of book', async () => {
+      const book = await loadOrderBookFixture(FIXTURE_PATH);
+
+      const fill = estimateFill(book, 'YES', 100);
+
+      expect(fill.fullyFilled).toBe(true);
+      expect(fill.averagePrice).toBeCloseTo(0.46);
+      expect(fill.slippage).toBeCloseTo(0);
+    });
+
+    it('should walk the book for larger orders', async () => {
+      const book = await loadOrderBookFixture(FIXTURE_PATH);
+
+      // 250 @ 0.46 + 600 @ 0.47 = $397, remaining $103 @ 0.48
+      const fill = estimateFill(book, 'YES', 500);
+
+      expect(fill.fullyFilled).toBe(true);
+      expect(fill.shares).toBeCloseTo(250 + 600 + 103 / 0.48);
+      expect(fill.averagePrice).toBeCloseTo(500 / fill.shares);
+      expect(fill.worstPrice).toBe(0.48);
+      expect(fill.slippage).toBeGreaterThan(0.009);
+    });
+
+    it('should price NO against the YES bids', async () => {
+      const book = await loadOrderBookFixture(FIXTURE_PATH);
+
+      const fill = estimateFill(book, 'NO', 100);
+
+      expect(fill.bestPrice).toBeCloseTo(0.56);
+      expect(fill.averagePrice).toBeCloseTo(0.56);
+    });
+
+    it('should report partial fills when depth runs out', () => {
+      const book = parseOrderBook({
+        asset_id: 'thin',
+        bids: [{ price: '0.40', size: '10' }],
+        asks: [{ price: '0.50', size: '10' }],
+      });
+
+      const fill = estimateFill(book, 'YES', 100);
+
+      expect(fill.fullyFilled).toBe(false);
+      expect(fill.filledNotional).toBeCloseTo(5);
+      expect(fill.shares).toBeCloseTo(10);
+    });
+  });
+
+  describe('analyzeOrderBookDepth', () => {
+    it('should summarize both sides at each notional size', async () => {
+      const book = await loadOrderBookFixture(FIXTURE_PATH);
+
+      const depth = analyzeOrderBookDepth(book, [500, 100]);
+
+      expect(depth!.bestBid).toBe(0.44);
+      expect(depth!.bestAsk).toBe(0.46);
+      expect(depth!.midpoint).toBeCloseTo(0.45);
+      expect(depth!.spread).toBeCloseTo(0.02);
+      expect(depth!.fills.map((fill) => `${fill.side}:${fill.notional}`)).toEqual([
+        'YES:100',
+        'YES:500',
+        'NO:100',
+        'NO:500',
+      ]);
+    });
+
+    it('should return null for a one-sided book', () => {
+      const book = parseOrderBook({
+        asset_id: 'one-sided',
+        bids: [],
+        asks: [{ price: '0.50', size: '10' }],
+      });
+
+      expect(analyzeOrderBookDepth(book)).toBeNull();
+    });
+  });
+
+  describe('getFillEstimate', () => {
+    it('should pick the smallest simulated size covering the notional', async () => {
+      const depth = analyzeOrderBookDepth(await loadOrderBookFixture(FIXTURE_PATH))!;
+
+      expect(getFillEstimate(depth, 'YES', 300)!.notional).toBe(500);
+      expect(getFillEstimate(depth, 'NO')!.notional).toBe(100);
+      expect(getFillEstimate(depth, 'YES', 1e6)!.notional).toBe(5000);
+    });
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * CLOB Order Book Analysis
+ *
+ * Normalizes Polymarket CLOB order book snapshots and simulates market orders
+ * against them, so entry zones, expected value and liquidity risk can be based
+ * on executable prices instead of the midpoint.
+ *
+ * Books are snapshots of the YES token. Buying NO is priced against the YES
+ * bids (a NO share at 1 - bid), which is how the CLOB matches complementary
+ * orders in a binary market.
+ */
+
+import { readFile } from 'fs/promises';
+import type {
+  FillEstimate,
+  OrderBookDepth,
+  OrderBookLevel,
+  OrderBookSnapshot,
+} from '../models/types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Raw order book as returned by the CLOB `/book` endpoint
+ */
+export interface RawClobOrderBook {
+  market?: string;
+  asset_id: string;
+  bids: Array<{ price: string; size: string }>;
+  asks: Array<{ price: string; size: string }>;
+  timestamp?: number | string;
+  [key: string]: unknown;
+}
+
+/**
+ * Notional sizes (USD) simulated by default
+ */
+export const DEFAULT_DEPTH_NOTIONALS = [100, 500, 1000, 5000];
+
+/**
+ * Notional size (USD) used to price recommendations; matches the
+ * "per $100 invested" convention of expectedValue
+ */
+export const REFERENCE_NOTIONAL = 100;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function parseLevels(levels: Array<{ price: string; size: string }> | undefined): OrderBookLevel[] {
+  return (levels || [])
+    .map((level) => ({ price: parseFloat(level.price), size: parseFloat(level.size) }))
+    .filter(
+      (level) =>
+        Number.isFinite(level.price) &&
+        Number.isFinite(level.size) &&
+        level.size > 0 &&
+        level.price > 0 &&
+        level.price < 1
+    );
+}
+
+/**
+ * Normalize a raw CLOB order book
+ *
+ * The CLOB API does not guarantee level ordering, so levels are sorted
+ * best-first and empty or out-of-range levels are dropped.
+ *
+ * @param raw - Raw order book from the CLOB API
+ * @returns Normalized snapshot
+ */
+export function parseOrderBook(raw: RawClobOrderBook): OrderBookSnapshot {
+  const timestamp = raw.timestamp !== undefined ? Number(raw.timestamp) : NaN;
+
+  return {
+    tokenId: raw.asset_id,
+    bids: parseLevels(raw.bids).sort((a, b) => b.price - a.price),
+    asks: parseLevels(raw.asks).sort((a, b) => a.price - b.price),
+    timestamp: Number.isFinite(timestamp) ? timestamp : Date.now(),
+  };
+}
+
+/**
+ * Get the YES token ID from a Gamma API clobTokenIds field (JSON-encoded array, YES first)
+ */
+export function parseYesTokenId(clobTokenIds: string | undefined): string | null {
+  if (!clobTokenIds) return null;
+  try {
+    const tokenIds = JSON.parse(clobTokenIds) as unknown;
+    return Array.isArray(tokenIds) && typeof tokenIds[0] === 'string' ? tokenIds[0] : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load an order book from a local JSON fixture
+ *
+ * The file holds either a single `/book` response or an array of them (the
+ * `/books` response shape). With an array, the book matching the token ID is
+ * used, falling back to the first one.
+ *
+ * @param path - Fixture file path
+ * @param tokenId - Token to select from a multi-book fixture
+ * @returns Normalized snapshot
+ */
+export async function loadOrderBookFixture(
+  path: string,
+  tokenId?: string
+): Promise<OrderBookSnapshot> {
+  const content = JSON.parse(await readFile(path, 'utf-8')) as
+    RawClobOrderBook | RawClobOrderBook[];
+  const books = Array.isArray(content) ? content : [content];
+  const book = books.find((candidate) => candidate.asset_id === tokenId) || books[0];
+
+  if (!book) {
+    throw new Error(`Order book fixture ${path} is empty`);
+  }
+
+  return parseOrderBook(book);
+}
+
+// ============================================================================
+// Fill Simulation
+// ============================================================================
+
+/**
+ * Price levels available to a buyer of the given side, best first
+ */
+export function getBuyLevels(book: OrderBookSnapshot, side: 'YES' | 'NO'): OrderBookLevel[] {
+  return side === 'YES'
+    ? book.asks
+    : book.bids.map((level) => ({ price: 1 - level.price, size: level.size }));
+}
+
+/**
+ * Simulate a market buy of the given notional against the book
+ *
+ * Walks the levels best-first until the notional is spent. When visible
+ * depth runs out, the estimate covers the part that could be filled and
+ * `fullyFilled` is false.
+ *
+ * @param book - Order book snapshot
+ * @param side - Outcome to buy
+ * @param notional - Order size in USD
+ * @returns Fill estimate
+ */
+export function estimateFill(
+  book: OrderBookSnapshot,
+  side: 'YES' | 'NO',
+  notional: number
+): FillEstimate {
+  const levels = getBuyLevels(book, side);
+  const bestPrice = levels[0]?.price ?? NaN;
+  let remaining = notional;
+  let shares = 0;
+  let worstPrice = bestPrice;
+
+  for (const level of levels) {
+    if (remaining <= 1e-9) break;
+    const levelNotional = level.price * level.size;
+    const spent = Math.min(remaining, levelNotional);
+    shares += spent / level.price;
+    remaining -= spent;
+    worstPrice = level.price;
+  }
+
+  const filledNotional = notional - Math.max(0, remaining);
+  const averagePrice = shares > 0 ? filledNotional / shares : bestPrice;
+
+  return {
+    side,
+    notional,
+    filledNotional,
+    shares,
+    averagePrice,
+    bestPrice,
+    worstPrice,
+    slippage: averagePrice - bestPrice,
+    fullyFilled: remaining <= 1e-9,
+  };
+}
+
+/**
+ * Summarize order book depth for both sides at several notional sizes
+ *
+ * @param book - Order book snapshot
+ * @param notionals - Order sizes in USD
+ * @returns Depth summary, or null when either side of the book is empty
+ */
+export function analyzeOrderBookDepth(
+  book: OrderBookSnapshot,
+  notionals: number[] = DEFAULT_DEPTH_NOTIONALS
+): OrderBookDepth | null {
+  if (book.bids.length === 0 || book.asks.length === 0) {
+    return null;
+  }
+
+  const bestBid = book.bids[0].price;
+  const bestAsk = book.asks[0].price;
+  const sizes = [...new Set(notionals)].sort((a, b) => a - b);
+
+  return {
+    tokenId: book.tokenId,
+    timestamp: book.timestamp,
+    bestBid,
+    bestAsk,
+    midpoint: (bestBid + bestAsk) / 2,
+    spread: bestAsk - bestBid,
+    fills: (['YES', 'NO'] as const).flatMap((side) =>
+      sizes.map((notional) => estimateFill(book, side, notional))
+    ),
+  };
+}
+
+/**
+ * Get the fill estimate for a side at the smallest simulated size that
+ * covers the requested notional (or the largest simulated size)
+ *
+ * @param depth - Depth summary
+ * @param side - Outcome to buy
+ * @param notional - Order size in USD
+ * @returns Fill estimate, or undefined when the side has no estimates
+ */
+export function getFillEstimate(
+  depth: OrderBookDepth,
+  side: 'YES' | 'NO',
+  notional: number = REFERENCE_NOTIONAL
+): FillEstimate | undefined {
+  const fills = depth.fills
+    .filter((fill) => fill.side === side)
+    .sort((a, b) => a.notional - b.notional);
+
+  return fills.find((fill) => fill.notional >= notional) || fills[fills.length - 1];
+}
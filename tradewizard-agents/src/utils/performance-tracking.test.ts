@@ -8,7 +8,7 @@
  * - Performance dashboard queries
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import {
   updateAgentMetrics,
   calculateAccuracyScore,
@@ -17,7 +17,15 @@ import {
   getPerformanceLeaderboard,
   getPerformanceDashboard,
   trackAgentExecution,
+  scoreResolvedForecasts,
+  mergeLedgerEntries,
+  summarizeLedger,
+  summarizeLedgerByPromptVersion,
+  ledgerToAgentPerformance,
+  createPerformanceLedgerLoader,
+  getLedgerWindowStart,
   type AgentPerformanceMetrics,
+  type AgentPerformanceLedgerEntry,
   type MarketResolution,
 } from './performance-tracking.js';
 import type { AgentSignal } from '../models/types.js';
@@ -645,3 +653,140 @@ describe('trackAgentExecution', () => {
     expect(updated.agent2).toEqual(existingMetrics);
   });
 });
+
+// ============================================================================
+// Performance Ledger Tests
+// ============================================================================
+
+describe('Performance Ledger', () => {
+  const resolvedAt = Date.UTC(2026, 2, 16);
+
+  const entry = (
+    agentName: string,
+    category: string,
+    predictions: number,
+    brierSum: number
+  ): AgentPerformanceLedgerEntry => ({
+    agentName,
+    category,
+    windowStart: '2026-03-01',
+    predictions,
+    brierSum,
+    logLossSum: predictions * 0.5,
+    correctPredictions: predictions,
+    confidenceSum: predictions * 0.8,
+  });
+
+  it('should use the first day of the UTC month as the window', () => {
+    expect(getLedgerWindowStart(resolvedAt)).toBe('2026-03-01');
+    expect(getLedgerWindowStart(Date.UTC(2026, 11, 31, 23, 59))).toBe('2026-12-01');
+  });
+
+  it('should score Brier, log loss and hit rate for resolved forecasts', () => {
+    const [good, bad, certainWrong] = scoreResolvedForecasts(
+      [
+        { agentName: 'good', fairProbability: 0.8, confidence: 0.9 },
+        { agentName: 'bad', fairProbability: 0.3, confidence: 0.6 },
+        { agentName: 'certain_wrong', fairProbability: 0, confidence: 1 },
+      ],
+      'YES',
+      'election',
+      resolvedAt
+    );
+
+    expect(good).toMatchObject({ category: 'election', windowStart: '2026-03-01', predictions: 1 });
+    expect(good.brierSum).toBeCloseTo(0.04);
+    expect(good.logLossSum).toBeCloseTo(-Math.log(0.8));
+    expect(good.correctPredictions).toBe(1);
+    expect(bad.brierSum).toBeCloseTo(0.49);
+    expect(bad.correctPredictions).toBe(0);
+    // Log loss is clipped so a certain wrong forecast stays finite
+    expect(certainWrong.logLossSum).toBeCloseTo(-Math.log(0.001));
+  });
+
+  it('should add deltas to matching rows and append new ones', () => {
+    const merged = mergeLedgerEntries(
+      [entry('agent1', 'election', 4, 0.4)],
+      [entry('agent1', 'election', 1, 0.1), entry('agent2', 'election', 1, 0.2)]
+    );
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toMatchObject({ agentName: 'agent1', predictions: 5 });
+    expect(merged[0].brierSum).toBeCloseTo(0.5);
+    expect(merged[1]).toMatchObject({ agentName: 'agent2', predictions: 1 });
+  });
+
+  it('should summarize across windows and sort by Brier score', () => {
+    const summaries = summarizeLedger([
+      entry('agent1', 'election', 10, 3),
+      { ...entry('agent1', 'election', 10, 1), windowStart: '2026-02-01' },
+      entry('agent2', 'election', 10, 1),
+      entry('agent2', 'sports', 10, 4),
+    ]);
+
+    expect(summaries.map((s) => s.agentName)).toEqual(['agent1', 'agent2']);
+    expect(summaries[0]).toMatchObject({ predictions: 20, hitRate: 1 });
+    expect(summaries[0].brierScore).toBeCloseTo(0.2);
+    expect(summarizeLedger([entry('agent2', 'sports', 10, 4)], 'election')).toEqual([]);
+  });
+
+  it('should keep prompt versions apart when summarizing by version', () => {
+    const entries = [
+      entry('agent1', 'election', 10, 3),
+      { ...entry('agent1', 'sports', 10, 1), promptVersion: 'v2' },
+      { ...entry('agent1', 'election', 10, 1), promptVersion: 'v2' },
+      { ...entry('agent2', 'election', 10, 2), promptVersion: 'v2' },
+    ];
+
+    const byVersion = summarizeLedgerByPromptVersion(entries);
+
+    expect(byVersion.map((s) => [s.agentName, s.promptVersion])).toEqual([
+      ['agent1', 'v2'],
+      ['agent1', 'baseline'],
+      ['agent2', 'v2'],
+    ]);
+    expect(byVersion[0]).toMatchObject({ predictions: 20 });
+    expect(byVersion[0].brierScore).toBeCloseTo(0.1);
+    expect(summarizeLedgerByPromptVersion(entries, 'agent2')).toHaveLength(1);
+    // The overall summary still combines every version
+    expect(summarizeLedger(entries)[0]).toMatchObject({ agentName: 'agent1', predictions: 30 });
+  });
+
+  it('should prefer category records with enough samples', () => {
+    const entries = [
+      entry('agent1', 'election', 10, 0.5), // Brier 0.05 in elections
+      entry('agent1', 'sports', 10, 4.5), // Brier 0.45 in sports
+      entry('agent2', 'election', 2, 0),
+      entry('agent2', 'sports', 18, 3.6),
+    ];
+
+    const performance = ledgerToAgentPerformance(entries, 'election', 10);
+
+    expect(performance.agent1.accuracyScore).toBeCloseTo(0.95);
+    expect(performance.agent1.totalAnalyses).toBe(10);
+    // agent2 has too few election forecasts, so its overall record is used
+    expect(performance.agent2.totalAnalyses).toBe(20);
+    expect(performance.agent2.accuracyScore).toBeCloseTo(0.82);
+  });
+
+  it('should load and cache the ledger and degrade to empty on failure', async () => {
+    const config = createMockConfig(true);
+    const database = {
+      getAgentPerformanceLedger: vi.fn().mockResolvedValue([entry('agent1', 'election', 12, 1.2)]),
+    };
+    const loader = createPerformanceLedgerLoader(database, config);
+
+    const first = await loader('election');
+    await loader('sports');
+
+    expect(first.agent1.accuracyScore).toBeCloseTo(0.9);
+    expect(database.getAgentPerformanceLedger).toHaveBeenCalledTimes(1);
+    expect(database.getAgentPerformanceLedger.mock.calls[0][0].since).toBeInstanceOf(Date);
+
+    const failing = createPerformanceLedgerLoader(
+      { getAgentPerformanceLedger: vi.fn().mockRejectedValue(new Error('connection refused')) },
+      config
+    );
+    expect(await failing('election')).toEqual({});
+  });
+});
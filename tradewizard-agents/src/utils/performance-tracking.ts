@@ -10,11 +10,14 @@
  * - Calculate accuracy scores when markets resolve
  * - Provide performance-based weight adjustments for signal fusion
  * - Query performance dashboards and leaderboards
+ * - Score resolved markets into the persisted per-agent performance ledger
  */
 
 import type { AgentSignal, MarketId } from '../models/types.js';
 import type { GraphStateType } from '../models/state.js';
 import type { EngineConfig } from '../config/index.js';
+import type { DatabasePersistence } from '../database/persistence.js';
+import { BASELINE_PROMPT_VERSION } from './prompt-registry.js';
 
 /**
  * Agent Performance Metrics
@@ -366,3 +369,288 @@ export function trackAgentExecution(
     [signal.agentName]: updatedMetrics,
   };
 }
+
+// ============================================================================
+// Persisted Performance Ledger
+// ============================================================================
+
+/**
+ * Ledger row: accumulated forecast scores for one agent, market category,
+ * monthly window and prompt version
+ */
+export interface AgentPerformanceLedgerEntry {
+  agentName: string;
+  category: string;
+  windowStart: string; // YYYY-MM-DD, first day of the month (UTC)
+  promptVersion?: string; // Baseline when absent
+  predictions: number;
+  brierSum: number;
+  logLossSum: number;
+  correctPredictions: number;
+  confidenceSum: number;
+}
+
+/**
+ * An agent's final forecast on a market that has resolved
+ */
+export interface ResolvedAgentForecast {
+  agentName: string;
+  fairProbability: number;
+  confidence: number;
+  promptVersion?: string;
+}
+
+/**
+ * Per-agent summary of ledger entries
+ */
+export interface AgentLedgerSummary {
+  agentName: string;
+  predictions: number;
+  brierScore: number;
+  logLoss: number;
+  hitRate: number;
+  averageConfidence: number;
+}
+
+/**
+ * Per-agent, per-prompt-version summary of ledger entries
+ */
+export interface PromptVersionLedgerSummary extends AgentLedgerSummary {
+  promptVersion: string;
+}
+
+/**
+ * Loads historical performance for a market category
+ */
+export type PerformanceLedgerLoader = (
+  category: string
+) => Promise<Record<string, AgentPerformanceMetrics>>;
+
+/**
+ * Get the ledger window (first day of the month, UTC) containing a timestamp
+ */
+export function getLedgerWindowStart(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}-01`;
+}
+
+/**
+ * Score agents' final forecasts against a market outcome
+ *
+ * @param forecasts - Final forecast per agent
+ * @param outcome - Resolved outcome
+ * @param category - Market category (event type)
+ * @param resolutionTimestamp - When the market resolved
+ * @returns One ledger delta per agent
+ */
+export function scoreResolvedForecasts(
+  forecasts: ResolvedAgentForecast[],
+  outcome: 'YES' | 'NO',
+  category: string,
+  resolutionTimestamp: number
+): AgentPerformanceLedgerEntry[] {
+  const actual = outcome === 'YES' ? 1 : 0;
+  const windowStart = getLedgerWindowStart(resolutionTimestamp);
+  const epsilon = 0.001;
+
+  return forecasts.map((forecast) => {
+    const p = Math.max(epsilon, Math.min(1 - epsilon, forecast.fairProbability));
+    return {
+      agentName: forecast.agentName,
+      category,
+      windowStart,
+      promptVersion: forecast.promptVersion ?? BASELINE_PROMPT_VERSION,
+      predictions: 1,
+      brierSum: Math.pow(forecast.fairProbability - actual, 2),
+      logLossSum: -Math.log(actual === 1 ? p : 1 - p),
+      correctPredictions:
+        forecast.fairProbability !== 0.5 && forecast.fairProbability > 0.5 === (actual === 1) ? 1 : 0,
+      confidenceSum: forecast.confidence,
+    };
+  });
+}
+
+/**
+ * Add ledger deltas to existing rows (matched by agent, category, window and
+ * prompt version)
+ */
+export function mergeLedgerEntries(
+  existing: AgentPerformanceLedgerEntry[],
+  deltas: AgentPerformanceLedgerEntry[]
+): AgentPerformanceLedgerEntry[] {
+  const key = (entry: AgentPerformanceLedgerEntry): string =>
+    `${entry.agentName}|${entry.category}|${entry.windowStart}|` +
+    (entry.promptVersion ?? BASELINE_PROMPT_VERSION);
+  const merged = new Map(existing.map((entry) => [key(entry), { ...entry }]));
+
+  for (const delta of deltas) {
+    const current = merged.get(key(delta));
+    if (!current) {
+      merged.set(key(delta), { ...delta });
+      continue;
+    }
+    current.predictions += delta.predictions;
+    current.brierSum += delta.brierSum;
+    current.logLossSum += delta.logLossSum;
+    current.correctPredictions += delta.correctPredictions;
+    current.confidenceSum += delta.confidenceSum;
+  }
+
+  return [...merged.values()];
+}
+
+/**
+ * Convert accumulated ledger sums to averages
+ */
+function toLedgerSummary(entry: AgentPerformanceLedgerEntry): AgentLedgerSummary {
+  return {
+    agentName: entry.agentName,
+    predictions: entry.predictions,
+    brierScore: entry.brierSum / entry.predictions,
+    logLoss: entry.logLossSum / entry.predictions,
+    hitRate: entry.correctPredictions / entry.predictions,
+    averageConfidence: entry.confidenceSum / entry.predictions,
+  };
+}
+
+/**
+ * Summarize ledger entries per agent
+ *
+ * @param entries - Ledger entries (any categories, windows and prompt versions)
+ * @param category - Only include this category (all categories when omitted)
+ * @returns Summaries sorted by Brier score (best first)
+ */
+export function summarizeLedger(
+  entries: AgentPerformanceLedgerEntry[],
+  category?: string
+): AgentLedgerSummary[] {
+  const totals = mergeLedgerEntries(
+    [],
+    entries
+      .filter((entry) => !category || entry.category === category)
+      .map((entry) => ({ ...entry, category: '*', windowStart: '*', promptVersion: '*' }))
+  );
+
+  return totals
+    .filter((entry) => entry.predictions > 0)
+    .map(toLedgerSummary)
+    .sort((a, b) => a.brierScore - b.brierScore || a.agentName.localeCompare(b.agentName));
+}
+
+/**
+ * Summarize ledger entries per agent and prompt version
+ *
+ * @param entries - Ledger entries (any categories and windows)
+ * @param agentName - Only include this agent (all agents when omitted)
+ * @returns Summaries grouped by agent name, best Brier score first within each agent
+ */
+export function summarizeLedgerByPromptVersion(
+  entries: AgentPerformanceLedgerEntry[],
+  agentName?: string
+): PromptVersionLedgerSummary[] {
+  const totals = mergeLedgerEntries(
+    [],
+    entries
+      .filter((entry) => !agentName || entry.agentName === agentName)
+      .map((entry) => ({ ...entry, category: '*', windowStart: '*' }))
+  );
+
+  return totals
+    .filter((entry) => entry.predictions > 0)
+    .map((entry) => ({
+      ...toLedgerSummary(entry),
+      promptVersion: entry.promptVersion ?? BASELINE_PROMPT_VERSION,
+    }))
+    .sort(
+      (a, b) =>
+        a.agentName.localeCompare(b.agentName) ||
+        a.brierScore - b.brierScore ||
+        a.promptVersion.localeCompare(b.promptVersion)
+    );
+}
+
+/**
+ * Convert ledger entries into performance metrics for signal fusion
+ *
+ * Uses the agent's record in the given category when it has at least
+ * minSampleSize resolved forecasts there, otherwise its record across all
+ * categories. Accuracy is 1 - Brier score, matching calculateAccuracyScore.
+ *
+ * @param entries - Ledger entries
+ * @param category - Market category being analyzed
+ * @param minSampleSize - Minimum resolved forecasts for a category-specific record
+ * @returns Performance metrics keyed by agent name
+ */
+export function ledgerToAgentPerformance(
+  entries: AgentPerformanceLedgerEntry[],
+  category: string,
+  minSampleSize: number
+): Record<string, AgentPerformanceMetrics> {
+  const overall = new Map(summarizeLedger(entries).map((summary) => [summary.agentName, summary]));
+  const inCategory = new Map(
+    summarizeLedger(entries, category).map((summary) => [summary.agentName, summary])
+  );
+
+  const performance: Record<string, AgentPerformanceMetrics> = {};
+  for (const [agentName, allCategories] of overall) {
+    const categorySummary = inCategory.get(agentName);
+    const summary =
+      categorySummary && categorySummary.predictions >= minSampleSize
+        ? categorySummary
+        : allCategories;
+
+    performance[agentName] = {
+      agentName,
+      totalAnalyses: summary.predictions,
+      averageConfidence: summary.averageConfidence,
+      accuracyScore: Math.max(0, Math.min(1, 1 - summary.brierScore)),
+      averageExecutionTime: 0,
+      errorRate: 0,
+      lastUpdated: Date.now(),
+    };
+  }
+
+  return performance;
+}
+
+/**
+ * Create a loader that reads historical performance from the database
+ *
+ * Ledger rows are cached for a few minutes so back-to-back analyses do not
+ * re-query. Failures degrade to an empty record (neutral weights).
+ *
+ * @param database - Database persistence layer
+ * @param config - Engine configuration
+ * @param cacheTtlMs - How long to reuse loaded ledger rows
+ * @returns Loader for the signal fusion node
+ */
+export function createPerformanceLedgerLoader(
+  database: Pick<DatabasePersistence, 'getAgentPerformanceLedger'>,
+  config: EngineConfig,
+  cacheTtlMs: number = 5 * 60 * 1000
+): PerformanceLedgerLoader {
+  let cached: { entries: AgentPerformanceLedgerEntry[]; loadedAt: number } | null = null;
+
+  return async (category: string) => {
+    try {
+      if (!cached || Date.now() - cached.loadedAt > cacheTtlMs) {
+        const windowDays = config.performanceTracking.ledgerWindowDays ?? 180;
+        const entries = await database.getAgentPerformanceLedger({
+          since: new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000),
+        });
+        cached = { entries, loadedAt: Date.now() };
+      }
+      return ledgerToAgentPerformance(
+        cached.entries,
+        category,
+        config.performanceTracking.minSampleSize
+      );
+    } catch (error) {
+      console.warn(
+        '[PerformanceTracking] Failed to load performance ledger:',
+        error instanceof Error ? error.message : String(error)
+      );
+      return {};
+    }
+  };
+}
@@ -0,0 +1,253 @@
+/**
+ * Unit tests for polling data sources and aggregation
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { MarketBriefingDocument } from '../models/types.js';
+import { DataIntegrationLayer } from './data-integration.js';
+import {
+  HttpPollingSource,
+  FilePollingSource,
+  PollingSourceError,
+  aggregatePolls,
+  buildPollingData,
+  createPollingSource,
+  parsePollFeed,
+  type PollRecord,
+} from './polling-providers.js';
+
+const NOW = Date.UTC(2024, 9, 20);
+const DAY = 24 * 60 * 60 * 1000;
+
+const poll = (pollster: string, yes: number, daysAgo: number, sampleSize = 1000): PollRecord => ({
+  pollster,
+  date: NOW - daysAgo * DAY,
+  sampleSize,
+  yesPercentage: yes,
+  noPercentage: 100 - yes,
+  marginOfError: 3,
+  methodology: 'online',
+});
+
+const market = {
+  marketId: 'mkt-1',
+  conditionId: '0xcond',
+  question: 'Will the incumbent win?',
+} as MarketBriefingDocument;
+
+const csvFeed = [
+  'Pollster,End Date,Sample Size,Yes,No,MoE,Methodology,Market ID',
+  '"Smith, Jones & Co",2024-10-18,1200,52,48,2.8,phone,0xcond',
+  'Acme Research,2024-10-15,800,49,51,,online,0xcond',
+  'Other Race Polls,2024-10-15,800,30,70,,online,0xother',
+].join('\n');
+
+describe('Polling Providers', () => {
+  describe('parsePollFeed', () => {
+    it('should parse CSV with quoted fields and header aliases', () => {
+      const polls = parsePollFeed(csvFeed, 'csv');
+
+      expect(polls).toHaveLength(3);
+      expect(polls[0]).toMatchObject({
+        pollster: 'Smith, Jones & Co',
+        date: Date.UTC(2024, 9, 18),
+        sampleSize: 1200,
+        yesPercentage: 52,
+        noPercentage: 48,
+        marginOfError: 2.8,
+        methodology: 'phone',
+        marketId: '0xcond',
+      });
+      // Margin of error derived from sample size when missing
+      expect(polls[1].marginOfError).toBeCloseTo(3.46, 1);
+    });
+
+    it('should parse JSON feeds and scale fractional shares', () => {
+      const polls = parsePollFeed(
+        JSON.stringify({ polls: [{ pollster: 'A', date: '2024-10-01', n: 500, yes: 0.55, no: 0.45 }, { yes: 50 }] }),
+        'json'
+      );
+
+      expect(polls).toHaveLength(1);
+      expect(polls[0]).toMatchObject({ pollster: 'A', sampleSize: 500 });
+      expect(polls[0].yesPercentage).toBeCloseTo(55);
+      expect(polls[0].noPercentage).toBeCloseTo(45);
+    });
+  });
+
+  describe('aggregatePolls', () => {
+    it('should weight recent polls more heavily', () => {
+      const aggregate = aggregatePolls([poll('A', 60, 0), poll('B', 40, 60)], { now: NOW });
+
+      expect(aggregate.average).toBeGreaterThan(0.55);
+    });
+
+    it('should estimate and remove house effects', () => {
+      const polls = [
+        poll('Lean Yes', 56, 1),
+        poll('Lean Yes', 55, 5),
+        poll('Lean Yes', 57, 9),
+        poll('Neutral', 50, 2),
+        poll('Neutral', 51, 6),
+        poll('Neutral', 49, 10),
+      ];
+
+      const aggregate = aggregatePolls(polls, { now: NOW });
+
+      expect(aggregate.houseEffects['Lean Yes']).toBeGreaterThan(0.01);
+      expect(aggregate.houseEffects['Neutral']).toBeLessThan(-0.01);
+      expect(aggregate.average).toBeCloseTo(aggregate.rawAverage, 1);
+      // Adjusted polls agree closely, so spread shrinks relative to the raw data
+      expect(aggregate.standardError).toBeLessThan(0.02);
+    });
+
+    it('should apply known house effects', () => {
+      const aggregate = aggregatePolls([poll('A', 55, 0)], { now: NOW, houseEffects: { A: 0.03 } });
+
+      expect(aggregate.average).toBeCloseTo(0.52);
+      expect(aggregate.rawAverage).toBeCloseTo(0.55);
+    });
+
+    it('should report wider uncertainty for fewer and smaller polls', () => {
+      const single = aggregatePolls([poll('A', 50, 0, 400)], { now: NOW });
+      const many = aggregatePolls(
+        [poll('A', 50, 0, 2000), poll('B', 50, 1, 2000), poll('C', 50, 2, 2000)],
+        { now: NOW }
+      );
+
+      expect(single.standardError).toBeCloseTo(Math.sqrt(0.25 / 400), 4);
+      expect(many.standardError).toBeLessThan(single.standardError);
+      expect(single.interval[0]).toBeLessThan(0.5);
+      expect(single.interval[1]).toBeGreaterThan(0.5);
+    });
+
+    it('should detect momentum between recent and older polls', () => {
+      const aggregate = aggregatePolls([poll('A', 55, 2), poll('A', 48, 30)], { now: NOW });
+
+      expect(aggregate.momentum).toBe('rising');
+    });
+  });
+
+  describe('buildPollingData', () => {
+    it('should return null without polls', () => {
+      expect(buildPollingData([], [])).toBeNull();
+    });
+
+    it('should produce PollingData sorted newest first', () => {
+      const data = buildPollingData([poll('A', 50, 5), poll('B', 52, 1)], ['file:polls.csv'], { now: NOW });
+
+      expect(data!.polls.map((p) => p.pollster)).toEqual(['B', 'A']);
+      expect(data!.sources).toEqual(['file:polls.csv']);
+      expect(data!.uncertainty).toBeGreaterThan(0);
+      expect(data!.confidenceInterval![0]).toBeLessThan(data!.aggregatedProbability);
+    });
+  });
+
+  describe('sources', () => {
+    let tempDir: string;
+    let server: http.Server;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+      tempDir = await mkdtemp(join(tmpdir(), 'polling-sources-'));
+      await writeFile(join(tempDir, '0xcond.csv'), csvFeed, 'utf-8');
+      await writeFile(join(tempDir, 'broken.json'), '{not json', 'utf-8');
+
+      server = http.createServer((req, res) => {
+        if (req.url === '/polls/0xcond.json') {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify([{ pollster: 'Http Poll', date: '2024-10-19', sample_size: 900, yes: 51, no: 49 }]));
+        } else if (req.url === '/polls.csv') {
+          res.writeHead(200, { 'Content-Type': 'text/csv' });
+          res.end(csvFeed);
+        } else if (req.url === '/error') {
+          res.writeHead(403);
+          res.end();
+        } else {
+          res.writeHead(404);
+          res.end();
+        }
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      await rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should read per-market files and filter by market ID', async () => {
+      const source = new FilePollingSource({ type: 'file', location: join(tempDir, '{conditionId}.csv') });
+
+      const polls = await source.fetchPolls(market);
+
+      expect(polls.map((p) => p.pollster)).toEqual(['Smith, Jones & Co', 'Acme Research']);
+    });
+
+    it('should treat missing files as no polls and reject unparseable files', async () => {
+      await expect(
+        new FilePollingSource({ type: 'file', location: join(tempDir, 'missing.csv') }).fetchPolls(market)
+      ).resolves.toEqual([]);
+      await expect(
+        new FilePollingSource({ type: 'file', location: join(tempDir, 'broken.json') }).fetchPolls(market)
+      ).rejects.toBeInstanceOf(PollingSourceError);
+    });
+
+    it('should fetch JSON and CSV over HTTP', async () => {
+      const json = await new HttpPollingSource({ type: 'http', location: `${baseUrl}/polls/{conditionId}.json` }).fetchPolls(market);
+      const csv = await new HttpPollingSource({ type: 'http', location: `${baseUrl}/polls.csv` }).fetchPolls(market);
+
+      expect(json).toHaveLength(1);
+      expect(json[0].pollster).toBe('Http Poll');
+      expect(csv).toHaveLength(2);
+    });
+
+    it('should report HTTP errors with their status', async () => {
+      const error = await new HttpPollingSource({ type: 'http', location: `${baseUrl}/error` })
+        .fetchPolls(market)
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(PollingSourceError);
+      expect(error.statusCode).toBe(403);
+    });
+
+    it('should reject unknown source types', () => {
+      expect(() => createPollingSource({ type: 'ftp', location: 'ftp://example.com' })).toThrow(
+        'Unknown polling source type'
+      );
+    });
+
+    it('should aggregate all sources through DataIntegrationLayer.fetchPollingData', async () => {
+      const layer = new DataIntegrationLayer({
+        news: { provider: 'none', cacheTTL: 900, maxArticles: 20 },
+        polling: {
+          provider: 'none',
+          cacheTTL: 3600,
+          sources: [
+            { type: 'file', location: join(tempDir, '{conditionId}.csv'), name: 'local' },
+            { type: 'http', location: `${baseUrl}/polls/{conditionId}.json`, name: 'feed' },
+            { type: 'http', location: `${baseUrl}/error`, name: 'broken' },
+          ],
+        },
+        social: { providers: [], cacheTTL: 300, maxMentions: 100 },
+      });
+
+      expect(await layer.checkDataAvailability('polling')).toBe(true);
+
+      const data = await layer.fetchPollingData(market);
+
+      expect(data).not.toBeNull();
+      expect(data!.polls).toHaveLength(3);
+      expect(data!.sources).toEqual(['local', 'feed']);
+      expect(data!.aggregatedProbability).toBeGreaterThan(0.45);
+      expect(data!.aggregatedProbability).toBeLessThan(0.55);
+      expect(layer.getDataFreshness('polling', 'mkt-1')).not.toBeNull();
+    });
+  });
+});
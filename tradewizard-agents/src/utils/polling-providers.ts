@@ -0,0 +1,537 @@
+/**
+ * Polling Data Sources
+ *
+ * Pluggable sources for raw polls (CSV or JSON, from local files or HTTP
+ * endpoints) and the aggregation step that turns them into the PollingData
+ * shape consumed by the polling agents. Caching, rate limiting and circuit
+ * breaking are handled by DataIntegrationLayer.
+ *
+ * Aggregation produces a house-effect-adjusted, recency-weighted average:
+ * 1. Each poll is reduced to its two-way YES share.
+ * 2. Polls are weighted by recency (exponential half-life) and sqrt(sample size).
+ * 3. Each pollster's house effect is its weighted mean deviation from the raw
+ *    average, shrunk toward zero for pollsters with few polls.
+ * 4. The adjusted average combines sampling error with between-poll spread
+ *    into a standard error.
+ */
+
+import { readFile } from 'fs/promises';
+import type { MarketBriefingDocument } from '../models/types.js';
+import type { PollingData } from './data-integration.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A single normalized poll
+ */
+export interface PollRecord {
+  pollster: string;
+  date: number; // Unix timestamp (ms), fieldwork end date
+  sampleSize: number;
+  yesPercentage: number; // 0-100
+  noPercentage: number; // 0-100
+  marginOfError: number; // Percentage points
+  methodology: string;
+  marketId?: string; // Market or condition ID the poll applies to (if the source covers several)
+}
+
+/**
+ * Source definition as it appears in config
+ *
+ * `location` may contain `{marketId}` and `{conditionId}` placeholders so one
+ * definition can serve per-market files or endpoints.
+ */
+export interface PollingSourceSpec {
+  type: string; // 'file' | 'http' | custom registered type
+  location: string;
+  format?: 'csv' | 'json';
+  name?: string;
+  apiKey?: string;
+}
+
+/**
+ * Polling source interface
+ */
+export interface PollingSource {
+  readonly name: string;
+  fetchPolls(market: MarketBriefingDocument): Promise<PollRecord[]>;
+}
+
+/**
+ * Factory used to construct a source from its spec
+ */
+export type PollingSourceFactory = (spec: PollingSourceSpec) => PollingSource;
+
+/**
+ * Aggregation options
+ */
+export interface PollAggregationOptions {
+  /** Days for a poll's recency weight to halve (default: 14) */
+  halfLifeDays?: number;
+  /** Known house effects in YES share (0-1 scale); estimated from the data when omitted */
+  houseEffects?: Record<string, number>;
+  /** Pseudo-count shrinking estimated house effects toward zero (default: 2) */
+  houseEffectPrior?: number;
+  /** Reference time (default: now) */
+  now?: number;
+}
+
+/**
+ * Aggregated polling average with uncertainty
+ */
+export interface PollAggregate {
+  average: number; // House-effect-adjusted YES share (0-1)
+  rawAverage: number; // Recency-weighted YES share before adjustment (0-1)
+  standardError: number; // 0-1 scale
+  interval: [number, number]; // 95% interval
+  houseEffects: Record<string, number>;
+  effectiveSampleSize: number; // Number of equally weighted polls with the same information
+  momentum: 'rising' | 'falling' | 'stable';
+}
+
+/**
+ * Error raised when a polling source cannot be read or parsed
+ */
+export class PollingSourceError extends Error {
+  constructor(
+    message: string,
+    public source: string,
+    public statusCode?: number
+  ) {
+    super(message);
+    this.name = 'PollingSourceError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const FIELD_ALIASES: Record<keyof PollRecord, string[]> = {
+  pollster: ['pollster', 'firm', 'source'],
+  date: ['date', 'end_date', 'enddate', 'field_date', 'published_at'],
+  sampleSize: ['sample_size', 'samplesize', 'sample', 'n'],
+  yesPercentage: ['yes', 'yes_percentage', 'yespercentage', 'yes_pct', 'support'],
+  noPercentage: ['no', 'no_percentage', 'nopercentage', 'no_pct', 'oppose'],
+  marginOfError: ['margin_of_error', 'marginoferror', 'moe'],
+  methodology: ['methodology', 'method', 'mode'],
+  marketId: ['market_id', 'marketid', 'condition_id', 'conditionid'],
+};
+
+function pick(row: Record<string, unknown>, field: keyof PollRecord): unknown {
+  for (const alias of FIELD_ALIASES[field]) {
+    if (row[alias] !== undefined && row[alias] !== '') {
+      return row[alias];
+    }
+  }
+  return undefined;
+}
+
+function toNumber(value: unknown): number | null {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Normalize a loosely typed row into a PollRecord
+ *
+ * Keys are matched case-insensitively against common aliases. Shares given as
+ * fractions (0-1) are scaled to percentages. Rows without a pollster, date or
+ * YES share are dropped.
+ */
+export function normalizePollRow(raw: Record<string, unknown>): PollRecord | null {
+  const row: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    row[key.trim().toLowerCase().replace(/[\s-]+/g, '_')] = value;
+  }
+
+  const pollster = pick(row, 'pollster');
+  const rawDate = pick(row, 'date');
+  const date = typeof rawDate === 'number' ? rawDate : Date.parse(String(rawDate ?? ''));
+  let yes = toNumber(pick(row, 'yesPercentage'));
+  let no = toNumber(pick(row, 'noPercentage'));
+
+  if (!pollster || !Number.isFinite(date) || yes === null) {
+    return null;
+  }
+
+  if (yes <= 1 && (no === null || no <= 1)) {
+    yes *= 100;
+    no = no === null ? null : no * 100;
+  }
+
+  const sampleSize = toNumber(pick(row, 'sampleSize')) ?? 0;
+  const marketId = pick(row, 'marketId');
+
+  return {
+    pollster: String(pollster),
+    date,
+    sampleSize,
+    yesPercentage: yes,
+    noPercentage: no ?? 100 - yes,
+    marginOfError:
+      toNumber(pick(row, 'marginOfError')) ??
+      (sampleSize > 0 ? 196 * Math.sqrt(0.25 / sampleSize) : 0),
+    methodology: String(pick(row, 'methodology') ?? 'unknown'),
+    ...(marketId !== undefined && { marketId: String(marketId) }),
+  };
+}
+
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+/**
+ * Parse a poll feed in CSV (header row required) or JSON (array, `{ polls }` or `{ data }`)
+ */
+export function parsePollFeed(content: string, format: 'csv' | 'json'): PollRecord[] {
+  let rows: Record<string, unknown>[];
+
+  if (format === 'json') {
+    const body = JSON.parse(content) as unknown;
+    const items = Array.isArray(body)
+      ? body
+      : ((body as { polls?: unknown[] }).polls ?? (body as { data?: unknown[] }).data ?? []);
+    rows = items.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object');
+  } else {
+    const lines = content.split(/\r?\n/).filter((line) => line.trim().length > 0);
+    const header = splitCsvLine(lines[0] ?? '');
+    rows = lines.slice(1).map((line) => {
+      const cells = splitCsvLine(line);
+      return Object.fromEntries(header.map((key, i) => [key, cells[i] ?? '']));
+    });
+  }
+
+  return rows.map(normalizePollRow).filter((poll): poll is PollRecord => poll !== null);
+}
+
+function inferFormat(location: string, format?: 'csv' | 'json'): 'csv' | 'json' {
+  return format ?? (/\.csv($|\?)/i.test(location) ? 'csv' : 'json');
+}
+
+function resolveLocation(location: string, market: MarketBriefingDocument): string {
+  return location
+    .replace(/\{marketId\}/g, encodeURIComponent(String(market.marketId)))
+    .replace(/\{conditionId\}/g, encodeURIComponent(market.conditionId));
+}
+
+function appliesToMarket(poll: PollRecord, market: MarketBriefingDocument): boolean {
+  return (
+    poll.marketId === undefined ||
+    poll.marketId === String(market.marketId) ||
+    poll.marketId === market.conditionId
+  );
+}
+
+// ============================================================================
+// Built-in Sources
+// ============================================================================
+
+/**
+ * Poll feed read from a local file
+ */
+export class FilePollingSource implements PollingSource {
+  readonly name: string;
+
+  constructor(private spec: PollingSourceSpec) {
+    this.name = spec.name ?? `file:${spec.location}`;
+  }
+
+  async fetchPolls(market: MarketBriefingDocument): Promise<PollRecord[]> {
+    const path = resolveLocation(this.spec.location, market);
+
+    let content: string;
+    try {
+      content = await readFile(path, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        // No polls for this market
+        return [];
+      }
+      throw new PollingSourceError(
+        `Failed to read polling file ${path}: ${error instanceof Error ? error.message : String(error)}`,
+        this.name
+      );
+    }
+
+    return this.parse(content, path).filter((poll) => appliesToMarket(poll, market));
+  }
+
+  private parse(content: string, path: string): PollRecord[] {
+    try {
+      return parsePollFeed(content, inferFormat(path, this.spec.format));
+    } catch (error) {
+      throw new PollingSourceError(
+        `Failed to parse polling file ${path}: ${error instanceof Error ? error.message : String(error)}`,
+        this.name
+      );
+    }
+  }
+}
+
+/**
+ * Poll feed served over HTTP
+ *
+ * A 404 means no polls for the market; other non-2xx responses raise a
+ * PollingSourceError whose message carries the status for retry classification.
+ */
+export class HttpPollingSource implements PollingSource {
+  readonly name: string;
+
+  constructor(private spec: PollingSourceSpec) {
+    this.name = spec.name ?? `http:${new URL(spec.location.replace(/[{}]/g, '')).host}`;
+  }
+
+  async fetchPolls(market: MarketBriefingDocument): Promise<PollRecord[]> {
+    const url = resolveLocation(this.spec.location, market);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: {
+          Accept: 'application/json, text/csv',
+          ...(this.spec.apiKey && { Authorization: `Bearer ${this.spec.apiKey}` }),
+        },
+        signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS),
+      });
+    } catch (error) {
+      throw new PollingSourceError(
+        `${this.name} request failed: network error: ${error instanceof Error ? error.message : String(error)}`,
+        this.name
+      );
+    }
+
+    if (response.status === 404) {
+      return [];
+    }
+    if (!response.ok) {
+      throw new PollingSourceError(
+        `${this.name} request failed: HTTP ${response.status} ${response.statusText}`,
+        this.name,
+        response.status
+      );
+    }
+
+    const contentType = response.headers.get('content-type') ?? '';
+    const format = this.spec.format ?? (contentType.includes('csv') ? 'csv' : inferFormat(url));
+
+    try {
+      return parsePollFeed(await response.text(), format).filter((poll) => appliesToMarket(poll, market));
+    } catch (error) {
+      throw new PollingSourceError(
+        `${this.name} returned an unparseable ${format} feed: ${error instanceof Error ? error.message : String(error)}`,
+        this.name,
+        response.status
+      );
+    }
+  }
+}
+
+// ============================================================================
+// Source Registry
+// ============================================================================
+
+const sourceFactories = new Map<string, PollingSourceFactory>([
+  ['file', (spec): PollingSource => new FilePollingSource(spec)],
+  ['http', (spec): PollingSource => new HttpPollingSource(spec)],
+]);
+
+/**
+ * Register (or replace) a polling source type
+ *
+ * @param type - Source type used in `externalData.polling.sources[].type`
+ * @param factory - Factory creating the source from its spec
+ */
+export function registerPollingSource(type: string, factory: PollingSourceFactory): void {
+  sourceFactories.set(type, factory);
+}
+
+/**
+ * Create a polling source from its spec
+ *
+ * @throws PollingSourceError if the type is not registered
+ */
+export function createPollingSource(spec: PollingSourceSpec): PollingSource {
+  const factory = sourceFactories.get(spec.type);
+  if (!factory) {
+    throw new PollingSourceError(`Unknown polling source type: ${spec.type}`, spec.name ?? spec.type);
+  }
+  return factory(spec);
+}
+
+// ============================================================================
+// Aggregation
+// ============================================================================
+
+function yesShare(poll: PollRecord): number {
+  const total = poll.yesPercentage + poll.noPercentage;
+  return total > 0 ? poll.yesPercentage / total : poll.yesPercentage / 100;
+}
+
+function weightedMean(values: number[], weights: number[]): number {
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  return totalWeight > 0
+    ? values.reduce((sum, value, i) => sum + value * weights[i], 0) / totalWeight
+    : 0;
+}
+
+/**
+ * Aggregate polls into a house-effect-adjusted, recency-weighted average
+ *
+ * @param polls - Polls to aggregate (must be non-empty)
+ * @param options - Aggregation options
+ * @returns Polling average with uncertainty
+ */
+export function aggregatePolls(polls: PollRecord[], options: PollAggregationOptions = {}): PollAggregate {
+  const now = options.now ?? Date.now();
+  const halfLifeDays = options.halfLifeDays ?? 14;
+  const prior = options.houseEffectPrior ?? 2;
+
+  const shares = polls.map(yesShare);
+  // Polls without a sample size count as a typical 600-person poll
+  const weights = polls.map((poll) => {
+    const ageDays = Math.max(0, (now - poll.date) / DAY_MS);
+    return Math.pow(0.5, ageDays / halfLifeDays) * Math.sqrt(poll.sampleSize > 0 ? poll.sampleSize : 600);
+  });
+
+  const rawAverage = weightedMean(shares, weights);
+
+  // House effects: weighted mean residual per pollster, shrunk by n / (n + prior)
+  const houseEffects: Record<string, number> = {};
+  const byPollster = new Map<string, number[]>();
+  polls.forEach((poll, i) => {
+    byPollster.set(poll.pollster, [...(byPollster.get(poll.pollster) ?? []), i]);
+  });
+  for (const [pollster, indexes] of byPollster) {
+    if (options.houseEffects && pollster in options.houseEffects) {
+      houseEffects[pollster] = options.houseEffects[pollster];
+      continue;
+    }
+    // A single pollster has nothing to be compared against
+    if (byPollster.size < 2) {
+      houseEffects[pollster] = 0;
+      continue;
+    }
+    const residual = weightedMean(
+      indexes.map((i) => shares[i] - rawAverage),
+      indexes.map((i) => weights[i])
+    );
+    houseEffects[pollster] = residual * (indexes.length / (indexes.length + prior));
+  }
+
+  const adjusted = shares.map((share, i) =>
+    Math.min(1, Math.max(0, share - houseEffects[polls[i].pollster]))
+  );
+  const average = weightedMean(adjusted, weights);
+
+  // Uncertainty: sampling error of the weighted mean plus between-poll spread
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const sumSquaredWeights = weights.reduce((sum, w) => sum + w * w, 0);
+  const effectiveSampleSize = sumSquaredWeights > 0 ? (totalWeight * totalWeight) / sumSquaredWeights : 0;
+
+  const samplingVariance =
+    polls.reduce((sum, poll, i) => {
+      const n = poll.sampleSize > 0 ? poll.sampleSize : 600;
+      return sum + weights[i] * weights[i] * ((adjusted[i] * (1 - adjusted[i])) / n);
+    }, 0) /
+    (totalWeight * totalWeight);
+  const betweenVariance = weightedMean(
+    adjusted.map((value) => (value - average) ** 2),
+    weights
+  );
+  const standardError = Math.sqrt(samplingVariance + betweenVariance / Math.max(effectiveSampleSize, 1));
+
+  // Momentum: recent half-life window vs everything older
+  const recentCutoff = now - halfLifeDays * DAY_MS;
+  const recent = polls.map((poll, i) => (poll.date >= recentCutoff ? i : -1)).filter((i) => i >= 0);
+  const older = polls.map((poll, i) => (poll.date < recentCutoff ? i : -1)).filter((i) => i >= 0);
+  let momentum: PollAggregate['momentum'] = 'stable';
+  if (recent.length > 0 && older.length > 0) {
+    const shift =
+      weightedMean(recent.map((i) => adjusted[i]), recent.map((i) => weights[i])) -
+      weightedMean(older.map((i) => adjusted[i]), older.map((i) => weights[i]));
+    if (shift > 0.01) momentum = 'rising';
+    else if (shift < -0.01) momentum = 'falling';
+  }
+
+  return {
+    average,
+    rawAverage,
+    standardError,
+    interval: [Math.max(0, average - 1.96 * standardError), Math.min(1, average + 1.96 * standardError)],
+    houseEffects,
+    effectiveSampleSize,
+    momentum,
+  };
+}
+
+/**
+ * Build PollingData from raw polls
+ *
+ * @param polls - Polls from all sources
+ * @param sources - Names of the sources that contributed
+ * @param options - Aggregation options
+ * @returns PollingData, or null when there are no polls
+ */
+export function buildPollingData(
+  polls: PollRecord[],
+  sources: string[],
+  options: PollAggregationOptions = {}
+): PollingData | null {
+  if (polls.length === 0) {
+    return null;
+  }
+
+  const aggregate = aggregatePolls(polls, options);
+
+  return {
+    polls: [...polls]
+      .sort((a, b) => b.date - a.date)
+      .map(({ pollster, date, sampleSize, yesPercentage, noPercentage, marginOfError, methodology }) => ({
+        pollster,
+        date,
+        sampleSize,
+        yesPercentage,
+        noPercentage,
+        marginOfError,
+        methodology,
+      })),
+    aggregatedProbability: aggregate.average,
+    momentum: aggregate.momentum,
+    biasAdjustment: aggregate.average - aggregate.rawAverage,
+    uncertainty: aggregate.standardError,
+    confidenceInterval: aggregate.interval,
+    houseEffects: aggregate.houseEffects,
+    sources,
+  };
+}
@@ -9,6 +9,7 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { fileURLToPath } from 'url';
 import { PolymarketClient } from './polymarket-client.js';
 import type { EngineConfig } from '../config/index.js';
 
@@ -88,6 +89,43 @@ describe('PolymarketClient', () => {
       }
     });
 
+    it('should use the YES token price when the order book is one-sided', async () => {
+      vi.spyOn(client as any, 'findEventByMarketCondition').mockResolvedValueOnce(null);
+
+      (globalThis.fetch as ReturnType<typeof vi.fn>)
+        .mockReset()
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            condition_id: 'test-condition-123',
+            question: 'Will Bitcoin reach $100k by end of 2024?',
+            description: 'Market resolves YES if Bitcoin reaches $100,000 by December 31, 2024',
+            end_date_iso: '2024-12-31T23:59:59Z',
+            market_slug: 'bitcoin-100k-2024',
+            tokens: [
+              { token_id: 'yes-token', outcome: 'Yes', price: 0.82 },
+              { token_id: 'no-token', outcome: 'No', price: 0.18 },
+            ],
+          }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            asset_id: 'yes-token',
+            bids: [{ price: '0.80', size: '500' }],
+            asks: [],
+          }),
+        });
+
+      const result = await client.fetchMarketData('test-condition-123');
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        // Midpoint against the empty ask side would be (0.80 + 1) / 2 = 0.90
+        expect(result.data.currentProbability).toBe(0.82);
+      }
+    });
+
     it('should handle invalid market ID (404 error)', async () => {
       // Mock 404 response
       (globalThis.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
@@ -202,6 +240,61 @@ describe('PolymarketClient', () => {
     }, 60000); // 60 second timeout for multiple retries with exponential backoff
   });
 
+  describe('fetchOrderBook', () => {
+    it('should fetch and normalize the CLOB book for a token', async () => {
+      (globalThis.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          asset_id: 'token-123',
+          bids: [
+            { price: '0.43', size: '2000' },
+            { price: '0.44', size: '1000' },
+          ],
+          asks: [
+            { price: '0.47', size: '2500' },
+            { price: '0.46', size: '1500' },
+          ],
+        }),
+      });
+
+      const book = await client.fetchOrderBook('token-123');
+
+      expect(globalThis.fetch).toHaveBeenCalledWith(
+        'https://test-clob.polymarket.com/book?token_id=token-123',
+        expect.anything()
+      );
+      expect(book.bids[0]).toEqual({ price: 0.44, size: 1000 });
+      expect(book.asks[0]).toEqual({ price: 0.46, size: 1500 });
+    });
+
+    it('should read the local fixture book instead of the API when configured', async () => {
+      const fixtureClient = new PolymarketClient({
+        ...config,
+        orderBookFixturePath: fileURLToPath(
+          new URL('./fixtures/clob-order-book.json', import.meta.url)
+        ),
+        orderBookNotionals: [100, 1000],
+      });
+
+      const depth = await fixtureClient.fetchOrderBookDepth('any-token');
+
+      expect(globalThis.fetch).not.toHaveBeenCalled();
+      expect(depth!.bestBid).toBe(0.44);
+      expect(depth!.bestAsk).toBe(0.46);
+      expect(depth!.fills).toHaveLength(4);
+    });
+
+    it('should return null depth when the book is unavailable', async () => {
+      (globalThis.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+      });
+
+      expect(await client.fetchOrderBookDepth('missing-token')).toBeNull();
+    });
+  });
+
   describe('healthCheck', () => {
     it('should return true when both APIs are healthy', async () => {
       (globalThis.fetch as ReturnType<typeof vi.fn>)
@@ -7,7 +7,12 @@
  */
 
 import type { EngineConfig } from '../config/index.js';
-import type { IngestionError, MarketBriefingDocument } from '../models/types.js';
+import type {
+  IngestionError,
+  MarketBriefingDocument,
+  OrderBookDepth,
+  OrderBookSnapshot,
+} from '../models/types.js';
 import { 
   EnhancedEventPolymarketClient,
   type PolymarketEvent,
@@ -18,6 +23,15 @@ import {
   type RateLimitStatus
 } from './enhanced-event-polymarket-client.js';
 import { EnhancedEventBriefingGenerator } from './enhanced-event-briefing-generator.js';
+import {
+  analyzeOrderBookDepth,
+  loadOrderBookFixture,
+  parseOrderBook,
+  parseYesTokenId,
+  DEFAULT_DEPTH_NOTIONALS,
+  type RawClobOrderBook,
+} from './order-book.js';
+import { detectSportsOrCrypto } from './market-category.js';
 
 // ============================================================================
 // Types
@@ -41,18 +55,6 @@ interface GammaMarketData {
   [key: string]: unknown;
 }
 
-/**
- * Order book data from Polymarket CLOB API
- */
-interface OrderBookData {
-  market: string;
-  asset_id: string;
-  bids: Array<{ price: string; size: string }>;
-  asks: Array<{ price: string; size: string }>;
-  timestamp: number;
-  [key: string]: unknown;
-}
-
 /**
  * Circuit breaker state
  */
@@ -76,6 +78,8 @@ export class PolymarketClient {
   private readonly gammaApiUrl: string;
   private readonly clobApiUrl: string;
   private readonly rateLimitBuffer: number;
+  private readonly orderBookNotionals: number[];
+  private readonly orderBookFixturePath?: string;
   private readonly enhancedEventClient: EnhancedEventPolymarketClient;
   private readonly eventBriefingGenerator: EnhancedEventBriefingGenerator;
 
@@ -99,6 +103,8 @@ export class PolymarketClient {
     this.gammaApiUrl = config.gammaApiUrl;
     this.clobApiUrl = config.clobApiUrl;
     this.rateLimitBuffer = config.rateLimitBuffer;
+    this.orderBookNotionals = config.orderBookNotionals || DEFAULT_DEPTH_NOTIONALS;
+    this.orderBookFixturePath = config.orderBookFixturePath;
     
     // Initialize enhanced event client and briefing generator
     this.enhancedEventClient = new EnhancedEventPolymarketClient(config);
@@ -329,6 +335,15 @@ export class PolymarketClient {
       if (event) {
         // Use enhanced event-based briefing generation
         const enhancedBriefing = await this.eventBriefingGenerator.generateEventBriefing(event, conditionId);
+
+        // Price against the real CLOB book when the market's token is known
+        const market = event.markets.find((m) => m.conditionId === conditionId);
+        const tokenId = parseYesTokenId(market?.clobTokenIds);
+        const orderBook = tokenId ? await this.fetchOrderBookDepth(tokenId) : null;
+        if (orderBook) {
+          enhancedBriefing.orderBook = orderBook;
+          enhancedBriefing.bidAskSpread = orderBook.spread * 100;
+        }
         
         // Reset circuit breaker on success
         this.onSuccess();
@@ -402,7 +417,6 @@ export class PolymarketClient {
         3
       );
 
-      // Create a mock order book from token prices (CLOB API provides current prices)
       const yesToken = marketData.tokens?.find((t: any) => t.outcome === 'Yes');
       const noToken = marketData.tokens?.find((t: any) => t.outcome === 'No');
       
@@ -410,17 +424,27 @@ export class PolymarketClient {
         throw new Error('Market tokens not found');
       }
 
-      // Create mock order book with current prices
-      const orderBook = {
-        market: conditionId,
-        asset_id: yesToken.token_id,
-        bids: [{ price: (yesToken.price * 0.99).toString(), size: '100' }], // Slightly below current price
-        asks: [{ price: (yesToken.price * 1.01).toString(), size: '100' }], // Slightly above current price
-        timestamp: Date.now(),
-      };
+      // Fetch the YES token order book, falling back to a synthetic book around the token price
+      let orderBook: OrderBookSnapshot;
+      let depth: OrderBookDepth | null = null;
+      try {
+        orderBook = await this.fetchOrderBook(yesToken.token_id);
+        depth = analyzeOrderBookDepth(orderBook, this.orderBookNotionals);
+      } catch (error) {
+        console.warn(`Failed to fetch order book for market ${conditionId}:`, error);
+        orderBook = {
+          tokenId: yesToken.token_id,
+          bids: [{ price: yesToken.price * 0.99, size: 100 }], // Slightly below current price
+          asks: [{ price: yesToken.price * 1.01, size: 100 }], // Slightly above current price
+          timestamp: Date.now(),
+        };
+      }
 
       // Transform to MBD
       const mbd = this.transformToMBD(conditionId, marketData, orderBook);
+      if (depth) {
+        mbd.orderBook = depth;
+      }
 
       // Reset circuit breaker on success
       this.onSuccess();
@@ -634,6 +658,42 @@ export class PolymarketClient {
     }
   }
 
+  /**
+   * Fetch the CLOB order book for a token
+   * Reads the configured local fixture instead of the live API when one is set
+   * @param tokenId - CLOB token ID (YES token for binary markets)
+   * @returns Normalized order book snapshot
+   */
+  async fetchOrderBook(tokenId: string): Promise<OrderBookSnapshot> {
+    if (this.orderBookFixturePath) {
+      return loadOrderBookFixture(this.orderBookFixturePath, tokenId);
+    }
+
+    await this.waitForRateLimit();
+
+    // No retries: the book is an enrichment and callers fall back without it
+    const raw = await this.fetchWithRetry<RawClobOrderBook>(
+      `${this.clobApiUrl}/book?token_id=${encodeURIComponent(tokenId)}`,
+      0
+    );
+    return parseOrderBook(raw);
+  }
+
+  /**
+   * Fetch the order book for a token and simulate fills at the configured sizes
+   * @param tokenId - CLOB token ID (YES token for binary markets)
+   * @returns Depth summary, or null if the book is unavailable or one-sided
+   */
+  async fetchOrderBookDepth(tokenId: string): Promise<OrderBookDepth | null> {
+    try {
+      const book = await this.fetchOrderBook(tokenId);
+      return analyzeOrderBookDepth(book, this.orderBookNotionals);
+    } catch (error) {
+      console.warn(`Failed to fetch order book for token ${tokenId}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Health check endpoint with enhanced events API monitoring
    * Enhanced to check both traditional APIs and events API health
@@ -903,19 +963,23 @@ export class PolymarketClient {
   private transformToMBD(
     conditionId: string,
     marketData: any, // CLOB API format
-    orderBook: OrderBookData
+    orderBook: OrderBookSnapshot
   ): MarketBriefingDocument {
     // Calculate bid-ask spread
-    const bestBid = orderBook.bids[0] ? parseFloat(orderBook.bids[0].price) : 0;
-    const bestAsk = orderBook.asks[0] ? parseFloat(orderBook.asks[0].price) : 1;
+    const bestBid = orderBook.bids[0] ? orderBook.bids[0].price : 0;
+    const bestAsk = orderBook.asks[0] ? orderBook.asks[0].price : 1;
     const bidAskSpread = (bestAsk - bestBid) * 100; // in cents
 
-    // Calculate current probability (midpoint)
-    const currentProbability = (bestBid + bestAsk) / 2;
+    // Calculate current probability (midpoint); a one-sided book has no
+    // meaningful midpoint, so use the YES token's last price instead
+    const yesTokenPrice = Number(marketData.tokens?.find((t: any) => t.outcome === 'Yes')?.price);
+    const isOneSided = orderBook.bids.length === 0 || orderBook.asks.length === 0;
+    const currentProbability =
+      isOneSided && Number.isFinite(yesTokenPrice) ? yesTokenPrice : (bestBid + bestAsk) / 2;
 
     // Calculate liquidity score (0-10 scale based on order book depth)
-    const totalBidSize = orderBook.bids.reduce((sum, bid) => sum + parseFloat(bid.size), 0);
-    const totalAskSize = orderBook.asks.reduce((sum, ask) => sum + parseFloat(ask.size), 0);
+    const totalBidSize = orderBook.bids.reduce((sum, bid) => sum + bid.size, 0);
+    const totalAskSize = orderBook.asks.reduce((sum, ask) => sum + ask.size, 0);
     const totalLiquidity = totalBidSize + totalAskSize;
     const liquidityScore = Math.min(10, Math.log10(totalLiquidity + 1) * 2);
 
@@ -1034,11 +1098,14 @@ export class PolymarketClient {
     ) {
       return 'geopolitical';
     }
+    const category = detectSportsOrCrypto(question);
+    if (category) {
+      return category;
+    }
     if (
       lowerQuestion.includes('gdp') ||
       lowerQuestion.includes('inflation') ||
       lowerQuestion.includes('economy') ||
-      lowerQuestion.includes('bitcoin') ||
       lowerQuestion.includes('stock') ||
       lowerQuestion.includes('market') ||
       lowerQuestion.includes('price')
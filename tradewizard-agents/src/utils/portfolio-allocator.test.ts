@@ -0,0 +1,224 @@
+/**
+ * Unit tests for the portfolio allocator
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { EventWithMarkets } from '../models/types.js';
+import type { OpenRecommendation } from '../database/persistence.js';
+import {
+  allocatePortfolio,
+  buildExposureGroups,
+  calculateKellyFraction,
+  toAllocationCandidates,
+  type AllocationCandidate,
+} from './portfolio-allocator.js';
+
+const candidate = (overrides: Partial<AllocationCandidate>): AllocationCandidate => ({
+  marketId: 'market-1',
+  category: 'election',
+  action: 'LONG_YES',
+  fairProbability: 0.6,
+  marketProbability: 0.5,
+  ...overrides,
+});
+
+describe('Portfolio Allocator', () => {
+  describe('calculateKellyFraction', () => {
+    it('should size YES positions as (q - p) / (1 - p)', () => {
+      expect(calculateKellyFraction('LONG_YES', 0.6, 0.5)).toBeCloseTo(0.2);
+      expect(calculateKellyFraction('LONG_YES', 0.3, 0.2)).toBeCloseTo(0.125);
+    });
+
+    it('should mirror the formula for NO positions', () => {
+      // Buying NO at 0.5 with 60% belief in NO
+      expect(calculateKellyFraction('LONG_NO', 0.4, 0.5)).toBeCloseTo(0.2);
+    });
+
+    it('should return 0 without edge or at degenerate prices', () => {
+      expect(calculateKellyFraction('LONG_YES', 0.4, 0.5)).toBe(0);
+      expect(calculateKellyFraction('LONG_YES', 0.9, 1)).toBe(0);
+      expect(calculateKellyFraction('LONG_NO', 0.1, 0)).toBe(0);
+    });
+  });
+
+  describe('buildExposureGroups', () => {
+    it('should group markets by event and keep others separate', () => {
+      const groups = buildExposureGroups([
+        candidate({ marketId: 'a', eventId: 'election' }),
+        candidate({ marketId: 'b', eventId: 'election' }),
+        candidate({ marketId: 'c' }),
+      ]);
+
+      expect(groups.get('a')).toBe(groups.get('b'));
+      expect(groups.get('c')).not.toBe(groups.get('a'));
+    });
+
+    it('should merge strongly correlated markets and ignore weak correlations', () => {
+      const candidates = [
+        candidate({ marketId: 'a' }),
+        candidate({ marketId: 'b' }),
+        candidate({ marketId: 'c' }),
+      ];
+      const groups = buildExposureGroups(candidates, {
+        correlations: [
+          { market1Id: 'a', market2Id: 'b', correlationCoefficient: 0.8, correlationType: 'positive' },
+          { market1Id: 'b', market2Id: 'c', correlationCoefficient: 0.2, correlationType: 'neutral' },
+        ],
+      });
+
+      expect(groups.get('a')).toBe(groups.get('b'));
+      expect(groups.get('c')).not.toBe(groups.get('a'));
+    });
+
+    it('should use event membership from EventWithMarkets hints', () => {
+      const event = {
+        event: { id: 'evt-1' },
+        markets: [
+          { id: 'gamma-a', conditionId: 'a' },
+          { id: 'gamma-b', conditionId: 'b' },
+        ],
+        crossMarketCorrelations: [],
+      } as unknown as EventWithMarkets;
+
+      const groups = buildExposureGroups(
+        [candidate({ marketId: 'a' }), candidate({ marketId: 'b' })],
+        { events: [event] }
+      );
+
+      expect(groups.get('a')).toBe('event:evt-1');
+      expect(groups.get('b')).toBe('event:evt-1');
+    });
+  });
+
+  describe('allocatePortfolio', () => {
+    const config = {
+      bankroll: 10000,
+      kellyFraction: 0.25,
+      maxMarketExposure: 0.05,
+      maxEventExposure: 0.1,
+      maxCategoryExposure: 0.3,
+      maxTotalExposure: 0.6,
+      minPositionUsd: 5,
+    };
+
+    it('should apply fractional Kelly when no cap binds', () => {
+      const allocation = allocatePortfolio(
+        [candidate({ marketId: 'a', fairProbability: 0.52, marketProbability: 0.5 })],
+        config
+      );
+
+      // Full Kelly 4% -> quarter Kelly 1% of 10000
+      expect(allocation.positions[0].allocatedUsd).toBeCloseTo(100);
+      expect(allocation.positions[0].bindingConstraint).toBe('none');
+    });
+
+    it('should cap individual markets', () => {
+      const allocation = allocatePortfolio([candidate({ fairProbability: 0.9 })], config);
+
+      expect(allocation.positions[0].allocatedUsd).toBe(500);
+      expect(allocation.positions[0].bindingConstraint).toBe('market');
+    });
+
+    it('should share one event cap across markets on the same event', () => {
+      const candidates = ['a', 'b', 'c', 'd', 'e'].map((marketId) =>
+        candidate({ marketId, eventId: 'election-2024', fairProbability: 0.9 })
+      );
+
+      const allocation = allocatePortfolio(candidates, config);
+
+      expect(allocation.totalAllocatedUsd).toBe(1000);
+      expect(allocation.exposureByGroup['event:election-2024']).toBe(1000);
+      expect(allocation.positions.filter((p) => p.allocatedUsd > 0)).toHaveLength(2);
+      expect(allocation.positions.slice(2).every((p) => p.bindingConstraint === 'event')).toBe(true);
+    });
+
+    it('should give the strongest edge priority within a capped group', () => {
+      const allocation = allocatePortfolio(
+        [
+          candidate({ marketId: 'weak', eventId: 'e', fairProbability: 0.7 }),
+          candidate({ marketId: 'strong', eventId: 'e', fairProbability: 0.95 }),
+        ],
+        { ...config, maxEventExposure: 0.06 }
+      );
+
+      const strong = allocation.positions.find((p) => p.marketId === 'strong')!;
+      const weak = allocation.positions.find((p) => p.marketId === 'weak')!;
+      expect(strong.allocatedUsd).toBe(500);
+      expect(weak.allocatedUsd).toBe(100);
+      expect(weak.bindingConstraint).toBe('event');
+    });
+
+    it('should enforce category and total caps', () => {
+      const candidates = Array.from({ length: 10 }, (_, i) =>
+        candidate({ marketId: `m${i}`, category: i < 8 ? 'election' : 'sports', fairProbability: 0.9 })
+      );
+
+      const allocation = allocatePortfolio(candidates, { ...config, maxTotalExposure: 0.35 });
+
+      expect(allocation.exposureByCategory.election).toBe(3000);
+      expect(allocation.exposureByCategory.sports).toBe(500);
+      expect(allocation.totalAllocatedUsd).toBe(3500);
+      expect(allocation.positions.some((p) => p.bindingConstraint === 'category')).toBe(true);
+      expect(allocation.positions.some((p) => p.bindingConstraint === 'total')).toBe(true);
+    });
+
+    it('should drop positions below the minimum size and positions without edge', () => {
+      const allocation = allocatePortfolio(
+        [
+          candidate({ marketId: 'tiny', fairProbability: 0.5005 }),
+          candidate({ marketId: 'wrong-side', action: 'LONG_NO', fairProbability: 0.6 }),
+        ],
+        config
+      );
+
+      const tiny = allocation.positions.find((p) => p.marketId === 'tiny')!;
+      const wrongSide = allocation.positions.find((p) => p.marketId === 'wrong-side')!;
+      expect(tiny.allocatedUsd).toBe(0);
+      expect(tiny.bindingConstraint).toBe('min_size');
+      expect(wrongSide.allocatedUsd).toBe(0);
+      expect(wrongSide.bindingConstraint).toBe('no_edge');
+      expect(allocation.totalAllocatedUsd).toBe(0);
+    });
+  });
+
+  describe('toAllocationCandidates', () => {
+    it('should map open recommendations and skip those without a market price', () => {
+      const open: OpenRecommendation[] = [
+        {
+          recommendationId: 'rec-1',
+          marketId: 'market-1',
+          conditionId: '0xabc',
+          question: 'Will it happen?',
+          eventType: 'election',
+          eventId: 'evt-1',
+          marketProbability: 0.4,
+          action: 'LONG_YES',
+          fairProbability: 0.55,
+          createdAt: '2026-03-15T00:00:00Z',
+        },
+        {
+          recommendationId: 'rec-2',
+          marketId: 'market-2',
+          conditionId: '0xdef',
+          question: 'Unpriced?',
+          eventType: 'policy',
+          action: 'LONG_NO',
+          fairProbability: 0.3,
+          createdAt: '2026-03-15T00:00:00Z',
+        },
+      ];
+
+      expect(toAllocationCandidates(open)).toEqual([
+        {
+          recommendationId: 'rec-1',
+          marketId: 'market-1',
+          eventId: 'evt-1',
+          category: 'election',
+          action: 'LONG_YES',
+          fairProbability: 0.55,
+          marketProbability: 0.4,
+        },
+      ]);
+    });
+  });
+});
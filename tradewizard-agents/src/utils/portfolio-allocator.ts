@@ -0,0 +1,361 @@
+/**
+ * Portfolio Allocator
+ *
+ * Sizes all open recommendations against a single bankroll. Each recommendation
+ * is individually sized with fractional Kelly, then capped so that no single
+ * market, correlated event group or category (event type) takes more than its
+ * configured share of the bankroll.
+ *
+ * Correlation hints come from EventWithMarkets (markets in the same event form
+ * one group) and MarketCorrelation pairs (strongly, positively correlated
+ * markets are merged into one group), so five markets on the same election
+ * share a single event cap instead of each receiving a full position.
+ */
+
+import type {
+  EventWithMarkets,
+  MarketCorrelation,
+  TradeAction,
+} from '../models/types.js';
+import type { OpenRecommendation } from '../database/persistence.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * An open recommendation to be sized
+ */
+export interface AllocationCandidate {
+  recommendationId?: string;
+  marketId: string;
+  /** Polymarket event the market belongs to (if known) */
+  eventId?: string;
+  /** Category used for the category cap (market event type) */
+  category: string;
+  action: Exclude<TradeAction, 'NO_TRADE'>;
+  /** Estimated probability of YES (0-1) */
+  fairProbability: number;
+  /** Market-implied probability of YES (0-1) */
+  marketProbability: number;
+}
+
+/**
+ * Allocator settings (mirrors EngineConfig.portfolio)
+ */
+export interface PortfolioAllocatorConfig {
+  /** Total bankroll in USD */
+  bankroll: number;
+  /** Fraction of full Kelly to bet (e.g. 0.25 = quarter Kelly) */
+  kellyFraction: number;
+  /** Max exposure per market as a fraction of bankroll */
+  maxMarketExposure: number;
+  /** Max combined exposure per event/correlation group as a fraction of bankroll */
+  maxEventExposure: number;
+  /** Max combined exposure per category as a fraction of bankroll */
+  maxCategoryExposure: number;
+  /** Max combined exposure across all positions as a fraction of bankroll */
+  maxTotalExposure: number;
+  /** Positions smaller than this (USD) are dropped */
+  minPositionUsd: number;
+  /** Positive correlation at or above which two markets share a group */
+  correlationThreshold: number;
+}
+
+/**
+ * Constraint that determined a position's final size
+ */
+export type AllocationConstraint =
+  | 'none'
+  | 'market'
+  | 'event'
+  | 'category'
+  | 'total'
+  | 'min_size'
+  | 'no_edge';
+
+/**
+ * Sized position for one recommendation
+ */
+export interface PositionAllocation extends AllocationCandidate {
+  /** Exposure group (event ID or merged correlation group) */
+  groupId: string;
+  /** Unscaled Kelly fraction of bankroll */
+  fullKelly: number;
+  /** Fractional Kelly size before caps (USD) */
+  targetUsd: number;
+  /** Final size after caps (USD) */
+  allocatedUsd: number;
+  bindingConstraint: AllocationConstraint;
+}
+
+/**
+ * Complete portfolio allocation
+ */
+export interface PortfolioAllocation {
+  bankroll: number;
+  kellyFraction: number;
+  totalAllocatedUsd: number;
+  positions: PositionAllocation[];
+  exposureByGroup: Record<string, number>;
+  exposureByCategory: Record<string, number>;
+  createdAt: number;
+}
+
+/**
+ * Correlation hints used to group markets
+ */
+export interface CorrelationHints {
+  events?: EventWithMarkets[];
+  correlations?: MarketCorrelation[];
+}
+
+/**
+ * Default allocator settings
+ */
+export const DEFAULT_PORTFOLIO_ALLOCATOR_CONFIG: PortfolioAllocatorConfig = {
+  bankroll: 10000,
+  kellyFraction: 0.25,
+  maxMarketExposure: 0.05,
+  maxEventExposure: 0.1,
+  maxCategoryExposure: 0.3,
+  maxTotalExposure: 0.6,
+  minPositionUsd: 5,
+  correlationThreshold: 0.5,
+};
+
+// ============================================================================
+// Kelly Sizing
+// ============================================================================
+
+/**
+ * Full Kelly fraction for buying one side of a binary contract
+ *
+ * Buying YES at price p with belief q: f* = (q - p) / (1 - p).
+ * Buying NO is the mirror image at price (1 - p) with belief (1 - q).
+ *
+ * @param action - LONG_YES or LONG_NO
+ * @param fairProbability - Estimated probability of YES
+ * @param marketProbability - Market price of YES
+ * @returns Kelly fraction of bankroll (0 when there is no edge)
+ */
+export function calculateKellyFraction(
+  action: Exclude<TradeAction, 'NO_TRADE'>,
+  fairProbability: number,
+  marketProbability: number
+): number {
+  const price = action === 'LONG_YES' ? marketProbability : 1 - marketProbability;
+  const belief = action === 'LONG_YES' ? fairProbability : 1 - fairProbability;
+
+  if (price <= 0 || price >= 1) {
+    return 0;
+  }
+
+  return Math.max(0, (belief - price) / (1 - price));
+}
+
+// ============================================================================
+// Correlation Groups
+// ============================================================================
+
+/**
+ * Assign each market to an exposure group
+ *
+ * Markets start in their own event group (or alone). Markets listed in the same
+ * EventWithMarkets join that event, and positively correlated pairs at or above
+ * the threshold are merged (union-find), so correlation chains share one group.
+ *
+ * @param candidates - Candidates to group
+ * @param hints - Event and correlation hints
+ * @param correlationThreshold - Minimum positive correlation to merge markets
+ * @returns Map of market ID to group ID
+ */
+export function buildExposureGroups(
+  candidates: AllocationCandidate[],
+  hints: CorrelationHints = {},
+  correlationThreshold: number = DEFAULT_PORTFOLIO_ALLOCATOR_CONFIG.correlationThreshold
+): Map<string, string> {
+  const parent = new Map<string, string>();
+
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.has(root) && parent.get(root) !== root) {
+      root = parent.get(root)!;
+    }
+    parent.set(id, root);
+    return root;
+  };
+
+  const union = (a: string, b: string): void => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) {
+      // Keep the lexicographically smaller root so group IDs are deterministic
+      const [keep, merge] = rootA < rootB ? [rootA, rootB] : [rootB, rootA];
+      parent.set(merge, keep);
+    }
+  };
+
+  // Event membership from hints (keyed by both Gamma market ID and condition ID)
+  const eventByMarket = new Map<string, string>();
+  for (const { event, markets } of hints.events ?? []) {
+    for (const market of markets) {
+      eventByMarket.set(market.id, event.id);
+      eventByMarket.set(market.conditionId, event.id);
+    }
+  }
+
+  for (const candidate of candidates) {
+    const eventId = candidate.eventId ?? eventByMarket.get(candidate.marketId);
+    const node = `market:${candidate.marketId}`;
+    parent.set(node, node);
+    if (eventId) {
+      union(`event:${eventId}`, node);
+    }
+  }
+
+  const correlations = [
+    ...(hints.correlations ?? []),
+    ...(hints.events ?? []).flatMap((event) => event.crossMarketCorrelations),
+  ];
+  for (const correlation of correlations) {
+    if (correlation.correlationCoefficient < correlationThreshold) {
+      continue;
+    }
+    const a = eventByMarket.has(correlation.market1Id)
+      ? `event:${eventByMarket.get(correlation.market1Id)}`
+      : `market:${correlation.market1Id}`;
+    const b = eventByMarket.has(correlation.market2Id)
+      ? `event:${eventByMarket.get(correlation.market2Id)}`
+      : `market:${correlation.market2Id}`;
+    union(a, b);
+  }
+
+  const groups = new Map<string, string>();
+  for (const candidate of candidates) {
+    groups.set(candidate.marketId, find(`market:${candidate.marketId}`));
+  }
+  return groups;
+}
+
+// ============================================================================
+// Allocation
+// ============================================================================
+
+/**
+ * Allocate the bankroll across open recommendations
+ *
+ * Candidates are sized with fractional Kelly and filled greedily in order of
+ * full Kelly fraction (strongest edge first, ties broken by market ID), each
+ * capped by the remaining market, group, category and total budgets.
+ *
+ * @param candidates - Open recommendations
+ * @param config - Allocator settings
+ * @param hints - Correlation hints
+ * @returns Portfolio allocation
+ */
+export function allocatePortfolio(
+  candidates: AllocationCandidate[],
+  config: Partial<PortfolioAllocatorConfig> = {},
+  hints: CorrelationHints = {}
+): PortfolioAllocation {
+  const settings = { ...DEFAULT_PORTFOLIO_ALLOCATOR_CONFIG, ...config };
+  const { bankroll } = settings;
+  const groups = buildExposureGroups(candidates, hints, settings.correlationThreshold);
+
+  const exposureByGroup: Record<string, number> = {};
+  const exposureByCategory: Record<string, number> = {};
+  let totalAllocatedUsd = 0;
+
+  const sized = candidates
+    .map((candidate) => ({
+      candidate,
+      fullKelly: calculateKellyFraction(
+        candidate.action,
+        candidate.fairProbability,
+        candidate.marketProbability
+      ),
+    }))
+    .sort((a, b) => b.fullKelly - a.fullKelly || a.candidate.marketId.localeCompare(b.candidate.marketId));
+
+  const positions: PositionAllocation[] = sized.map(({ candidate, fullKelly }) => {
+    const groupId = groups.get(candidate.marketId)!;
+    const targetUsd = fullKelly * settings.kellyFraction * bankroll;
+
+    if (fullKelly <= 0) {
+      return { ...candidate, groupId, fullKelly, targetUsd: 0, allocatedUsd: 0, bindingConstraint: 'no_edge' };
+    }
+
+    const limits: Array<[AllocationConstraint, number]> = [
+      ['market', settings.maxMarketExposure * bankroll],
+      ['event', settings.maxEventExposure * bankroll - (exposureByGroup[groupId] ?? 0)],
+      ['category', settings.maxCategoryExposure * bankroll - (exposureByCategory[candidate.category] ?? 0)],
+      ['total', settings.maxTotalExposure * bankroll - totalAllocatedUsd],
+    ];
+
+    let allocatedUsd = targetUsd;
+    let bindingConstraint: AllocationConstraint = 'none';
+    for (const [constraint, limit] of limits) {
+      if (limit < allocatedUsd) {
+        allocatedUsd = Math.max(0, limit);
+        bindingConstraint = constraint;
+      }
+    }
+
+    if (allocatedUsd < settings.minPositionUsd) {
+      return {
+        ...candidate,
+        groupId,
+        fullKelly,
+        targetUsd,
+        allocatedUsd: 0,
+        bindingConstraint: bindingConstraint === 'none' ? 'min_size' : bindingConstraint,
+      };
+    }
+
+    allocatedUsd = Math.floor(allocatedUsd * 100) / 100;
+    exposureByGroup[groupId] = (exposureByGroup[groupId] ?? 0) + allocatedUsd;
+    exposureByCategory[candidate.category] = (exposureByCategory[candidate.category] ?? 0) + allocatedUsd;
+    totalAllocatedUsd += allocatedUsd;
+
+    return { ...candidate, groupId, fullKelly, targetUsd, allocatedUsd, bindingConstraint };
+  });
+
+  return {
+    bankroll,
+    kellyFraction: settings.kellyFraction,
+    totalAllocatedUsd,
+    positions,
+    exposureByGroup,
+    exposureByCategory,
+    createdAt: Date.now(),
+  };
+}
+
+// ============================================================================
+// Persistence Integration
+// ============================================================================
+
+/**
+ * Convert stored open recommendations into allocation candidates
+ *
+ * Recommendations without a known market price cannot be Kelly-sized and are skipped.
+ *
+ * @param openRecommendations - Open recommendations from the database
+ * @returns Allocation candidates
+ */
+export function toAllocationCandidates(
+  openRecommendations: OpenRecommendation[]
+): AllocationCandidate[] {
+  return openRecommendations
+    .filter((open) => open.marketProbability !== undefined)
+    .map((open) => ({
+      recommendationId: open.recommendationId,
+      marketId: open.marketId,
+      eventId: open.eventId,
+      category: open.eventType,
+      action: open.action,
+      fairProbability: open.fairProbability,
+      marketProbability: open.marketProbability as number,
+    }));
+}
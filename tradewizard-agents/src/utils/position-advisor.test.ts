@@ -0,0 +1,180 @@
+/**
+ * Unit tests for the position advisor
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  evaluatePosition,
+  findNewCatalysts,
+  findOpeningRecommendation,
+} from './position-advisor.js';
+import type { TradeRecommendation } from '../models/types.js';
+
+const createRecommendation = (
+  action: TradeRecommendation['action'],
+  marketProbability: number,
+  consensusProbability: number,
+  overrides: Partial<TradeRecommendation> = {},
+  keyCatalysts: string[] = ['Debate on Oct 1']
+): TradeRecommendation => ({
+  marketId: '0xmarket',
+  action,
+  entryZone: [0.38, 0.42],
+  targetZone: [0.55, 0.65],
+  stopLoss: 0.35,
+  expectedValue: 10,
+  winProbability: consensusProbability,
+  liquidityRisk: 'low',
+  explanation: {
+    summary: '',
+    coreThesis: '',
+    keyCatalysts,
+    failureScenarios: [],
+  },
+  metadata: {
+    consensusProbability,
+    marketProbability,
+    edge: Math.abs(consensusProbability - marketProbability),
+    confidenceBand: [consensusProbability - 0.05, consensusProbability + 0.05],
+  },
+  ...overrides,
+});
+
+// LONG_YES opened at 40¢ with a 60% consensus
+const previous = createRecommendation('LONG_YES', 0.4, 0.6);
+
+describe('Position Advisor', () => {
+  describe('evaluatePosition', () => {
+    it('should hold while the thesis is intact', () => {
+      const advice = evaluatePosition(previous, createRecommendation('LONG_YES', 0.45, 0.61))!;
+
+      expect(advice.action).toBe('HOLD');
+      expect(advice.entryPrice).toBeCloseTo(0.4);
+      expect(advice.unrealizedReturn).toBeCloseTo(0.125);
+      expect(advice.remainingEdge).toBeCloseTo(0.16);
+    });
+
+    it('should take profit once the price reaches the target zone', () => {
+      const advice = evaluatePosition(previous, createRecommendation('LONG_YES', 0.56, 0.62))!;
+
+      expect(advice.action).toBe('TAKE_PROFIT');
+    });
+
+    it('should cut when the stop loss is breached', () => {
+      const advice = evaluatePosition(previous, createRecommendation('LONG_YES', 0.33, 0.6))!;
+
+      expect(advice.action).toBe('CUT');
+      expect(advice.reasons[0]).toContain('stop loss');
+    });
+
+    it('should cut when consensus drifts against the position', () => {
+      const advice = evaluatePosition(previous, createRecommendation('NO_TRADE', 0.41, 0.5))!;
+
+      expect(advice.action).toBe('CUT');
+      expect(advice.consensusDrift).toBeCloseTo(-0.1);
+    });
+
+    it('should add when consensus moves toward the position inside the entry zone', () => {
+      const advice = evaluatePosition(previous, createRecommendation('LONG_YES', 0.41, 0.68))!;
+
+      expect(advice.action).toBe('ADD');
+    });
+
+    it('should evaluate LONG_NO positions in NO prices', () => {
+      // NO bought around 40¢ (YES at 60%), consensus YES 40%
+      const previousNo = createRecommendation('LONG_NO', 0.6, 0.4);
+
+      const flipped = evaluatePosition(previousNo, createRecommendation('LONG_YES', 0.6, 0.75))!;
+      const profitable = evaluatePosition(previousNo, createRecommendation('LONG_NO', 0.43, 0.4))!;
+
+      expect(flipped.action).toBe('CUT');
+      expect(profitable.currentPrice).toBeCloseTo(0.57);
+      expect(profitable.action).toBe('TAKE_PROFIT');
+    });
+
+    it('should list catalysts the previous recommendation did not cite', () => {
+      const advice = evaluatePosition(
+        previous,
+        createRecommendation('LONG_YES', 0.45, 0.61, {}, ['debate on Oct 1 ', 'Court ruling'])
+      )!;
+
+      expect(advice.newCatalysts).toEqual(['Court ruling']);
+      expect(advice.reasons).toContain('New catalysts: Court ruling');
+    });
+
+    it('should return null when the previous recommendation implies no position', () => {
+      expect(evaluatePosition(createRecommendation('NO_TRADE', 0.4, 0.41), previous)).toBeNull();
+    });
+  });
+
+  describe('findOpeningRecommendation', () => {
+    // Re-analysis after the price ran up: same direction, entry zone moved to 55¢
+    const drifted = createRecommendation('LONG_YES', 0.55, 0.66, {
+      entryZone: [0.53, 0.57],
+      targetZone: [0.7, 0.8],
+      stopLoss: 0.5,
+    });
+
+    it('should keep the original entry when later recommendations repeat the direction', () => {
+      const opening = findOpeningRecommendation([
+        { recommendation: drifted },
+        { recommendation: previous },
+      ]);
+      expect(opening).toBe(previous);
+
+      // Against the drifted baseline this would be a HOLD at its 55¢ entry
+      const advice = evaluatePosition(opening!, createRecommendation('LONG_YES', 0.56, 0.66))!;
+      expect(advice.action).toBe('TAKE_PROFIT');
+      expect(advice.entryPrice).toBeCloseTo(0.4);
+    });
+
+    it('should keep the position open through an intervening NO_TRADE', () => {
+      const opening = findOpeningRecommendation([
+        { recommendation: createRecommendation('NO_TRADE', 0.42, 0.45) },
+        { recommendation: previous },
+      ]);
+      expect(opening).toBe(previous);
+
+      const advice = evaluatePosition(opening!, createRecommendation('NO_TRADE', 0.41, 0.5))!;
+      expect(advice.action).toBe('CUT');
+    });
+
+    it('should treat an opposite-direction recommendation as a new position', () => {
+      const flipped = createRecommendation('LONG_NO', 0.4, 0.3);
+
+      expect(
+        findOpeningRecommendation([{ recommendation: flipped }, { recommendation: previous }])
+      ).toBe(flipped);
+    });
+
+    it('should return null once the position was closed by exit advice', () => {
+      expect(
+        findOpeningRecommendation([
+          { recommendation: createRecommendation('NO_TRADE', 0.33, 0.45) },
+          { recommendation: drifted, closedDirection: 'LONG_YES' },
+          { recommendation: previous },
+        ])
+      ).toBeNull();
+      expect(findOpeningRecommendation([])).toBeNull();
+    });
+
+    it('should open the opposite position on a flip that closed the previous one', () => {
+      const flipped = createRecommendation('LONG_NO', 0.4, 0.3);
+
+      expect(
+        findOpeningRecommendation([
+          { recommendation: flipped, closedDirection: 'LONG_YES' },
+          { recommendation: previous },
+        ])
+      ).toBe(flipped);
+    });
+  });
+
+  describe('findNewCatalysts', () => {
+    it('should compare catalysts case-insensitively', () => {
+      expect(findNewCatalysts(['Fed meeting'], ['fed meeting', 'Jobs report'])).toEqual([
+        'Jobs report',
+      ]);
+    });
+  });
+});
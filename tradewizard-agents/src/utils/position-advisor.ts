@@ -0,0 +1,221 @@
+/**
+ * Position Advisor
+ *
+ * Re-evaluates the position implied by a market's previous LONG_YES/LONG_NO
+ * recommendation against a fresh analysis of the same market, and emits a
+ * structured HOLD / TAKE_PROFIT / CUT / ADD action:
+ * - CUT when the price breaches the stop loss, the fresh analysis flips
+ *   direction, or consensus drifts against the position
+ * - TAKE_PROFIT when the price reaches the target zone or the remaining edge
+ *   is gone with the position in profit
+ * - ADD when the price is still inside the entry zone and consensus has
+ *   drifted further toward the position
+ * - HOLD otherwise
+ */
+
+import type { EngineConfig } from '../config/index.js';
+import type { PositionAction, PositionAdvice, TradeRecommendation } from '../models/types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Advisor options
+ */
+export interface PositionAdvisorOptions {
+  driftThreshold: number; // Consensus drift (held side) that counts as a material change
+}
+
+export const DEFAULT_POSITION_ADVISOR_OPTIONS: PositionAdvisorOptions = {
+  driftThreshold: 0.05,
+};
+
+/**
+ * A stored recommendation and the exit advice derived from it, if any
+ */
+export interface RecommendationHistoryEntry {
+  recommendation: TradeRecommendation;
+  closedDirection?: 'LONG_YES' | 'LONG_NO'; // Position closed by CUT/TAKE_PROFIT advice on this recommendation
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Convert a YES probability or price to the held side
+ */
+function toSide(probability: number, direction: 'LONG_YES' | 'LONG_NO'): number {
+  return direction === 'LONG_YES' ? probability : 1 - probability;
+}
+
+function formatPrice(price: number): string {
+  return `${(price * 100).toFixed(1)}¢`;
+}
+
+function formatPoints(delta: number): string {
+  const points = delta * 100;
+  return `${points >= 0 ? '+' : ''}${points.toFixed(1)}pp`;
+}
+
+/**
+ * Catalysts in the fresh recommendation that the previous one did not cite
+ */
+export function findNewCatalysts(previous: string[], current: string[]): string[] {
+  const known = new Set(previous.map((catalyst) => catalyst.trim().toLowerCase()));
+  return current.filter((catalyst) => !known.has(catalyst.trim().toLowerCase()));
+}
+
+// ============================================================================
+// Opening Recommendation
+// ============================================================================
+
+/**
+ * Find the recommendation a market's open position was opened on
+ *
+ * Re-analyses that repeat the position's direction keep it open without moving
+ * its entry, target and stop, and NO_TRADE re-analyses leave it open. The
+ * position ends at an opposite-direction recommendation (which opens the
+ * opposite position) or at a recommendation that CUT/TAKE_PROFIT advice was
+ * derived from.
+ *
+ * @param history - Stored recommendations, newest first
+ * @returns Opening recommendation, or null if no position is open
+ */
+export function findOpeningRecommendation(
+  history: RecommendationHistoryEntry[]
+): TradeRecommendation | null {
+  let opening: TradeRecommendation | null = null;
+
+  for (const { recommendation, closedDirection } of history) {
+    const { action } = recommendation;
+
+    if (closedDirection) {
+      // A flip that closed the previous position opens the opposite one
+      const flipped = action !== 'NO_TRADE' && action !== closedDirection;
+      if (flipped && (!opening || opening.action === action)) {
+        opening = recommendation;
+      }
+      break;
+    }
+
+    if (action === 'NO_TRADE') {
+      continue;
+    }
+    if (opening && opening.action !== action) {
+      break;
+    }
+    opening = recommendation;
+  }
+
+  return opening;
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Evaluate the position implied by a previous recommendation
+ *
+ * @param previous - Recommendation the position was opened on
+ * @param current - Fresh recommendation for the same market
+ * @param options - Advisor options
+ * @returns Advice, or null if the previous recommendation implies no position
+ */
+export function evaluatePosition(
+  previous: TradeRecommendation,
+  current: TradeRecommendation,
+  options: PositionAdvisorOptions = DEFAULT_POSITION_ADVISOR_OPTIONS
+): PositionAdvice | null {
+  if (previous.action === 'NO_TRADE') {
+    return null;
+  }
+
+  const direction = previous.action;
+  const currentPrice = toSide(current.metadata.marketProbability, direction);
+  const entryPrice = (previous.entryZone[0] + previous.entryZone[1]) / 2;
+  const previousSideProbability = toSide(previous.metadata.consensusProbability, direction);
+  const currentSideProbability = toSide(current.metadata.consensusProbability, direction);
+  const consensusDrift = currentSideProbability - previousSideProbability;
+  const remainingEdge = currentSideProbability - currentPrice;
+  const newCatalysts = findNewCatalysts(
+    previous.explanation.keyCatalysts,
+    current.explanation.keyCatalysts
+  );
+
+  const reasons: string[] = [];
+  let action: PositionAction = 'HOLD';
+
+  if (currentPrice <= previous.stopLoss) {
+    action = 'CUT';
+    reasons.push(
+      `Price ${formatPrice(currentPrice)} breached stop loss ${formatPrice(previous.stopLoss)}`
+    );
+  } else if (current.action !== 'NO_TRADE' && current.action !== direction) {
+    action = 'CUT';
+    reasons.push(`Fresh analysis flipped to ${current.action}`);
+  } else if (consensusDrift <= -options.driftThreshold) {
+    action = 'CUT';
+    reasons.push(`Consensus drifted ${formatPoints(consensusDrift)} against the position`);
+  } else if (currentPrice >= previous.targetZone[0]) {
+    action = 'TAKE_PROFIT';
+    reasons.push(
+      `Price ${formatPrice(currentPrice)} reached target zone ` +
+        `${formatPrice(previous.targetZone[0])}-${formatPrice(previous.targetZone[1])}`
+    );
+  } else if (remainingEdge <= 0) {
+    action = currentPrice > entryPrice ? 'TAKE_PROFIT' : 'CUT';
+    reasons.push(
+      `No edge left: consensus ${formatPrice(currentSideProbability)} vs price ${formatPrice(currentPrice)}`
+    );
+  } else if (
+    current.action === direction &&
+    currentPrice <= previous.entryZone[1] &&
+    consensusDrift >= options.driftThreshold
+  ) {
+    action = 'ADD';
+    reasons.push(
+      `Consensus drifted ${formatPoints(consensusDrift)} toward the position ` +
+        `with price still in the entry zone`
+    );
+  } else {
+    reasons.push(
+      `Thesis intact: edge ${formatPoints(remainingEdge)}, drift ${formatPoints(consensusDrift)}`
+    );
+  }
+
+  if (newCatalysts.length > 0) {
+    reasons.push(`New catalysts: ${newCatalysts.join('; ')}`);
+  }
+
+  return {
+    marketId: current.marketId,
+    action,
+    direction,
+    currentPrice,
+    entryPrice,
+    unrealizedReturn: entryPrice > 0 ? (currentPrice - entryPrice) / entryPrice : 0,
+    targetZone: previous.targetZone,
+    stopLoss: previous.stopLoss,
+    previousProbability: previous.metadata.consensusProbability,
+    currentProbability: current.metadata.consensusProbability,
+    consensusDrift,
+    remainingEdge,
+    newCatalysts,
+    reasons,
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Resolve advisor options from engine configuration
+ */
+export function getPositionAdvisorOptions(
+  config?: EngineConfig['positionAdvisor']
+): PositionAdvisorOptions {
+  return {
+    driftThreshold: config?.driftThreshold ?? DEFAULT_POSITION_ADVISOR_OPTIONS.driftThreshold,
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * Unit tests for probability calibration
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { EngineConfig } from '../config/index.js';
+import {
+  applyCalibrator,
+  calibrateConsensus,
+  createCalibrationModelLoader,
+  evaluateCalibration,
+  fitAndEvaluateCalibration,
+  fitCalibrationModels,
+  fitIsotonicCalibrator,
+  fitPlattCalibrator,
+  type CalibrationExample,
+  type CalibrationModelSet,
+} from './probability-calibration.js';
+
+/**
+ * Deterministic overconfident history: forecasts at p resolve YES at a rate
+ * pulled halfway toward 0.5.
+ */
+function createOverconfidentExamples(perBucket = 20): CalibrationExample[] {
+  const examples: CalibrationExample[] = [];
+  let resolvedAt = 0;
+  for (const rawProbability of [0.1, 0.3, 0.5, 0.7, 0.9]) {
+    const yesRate = 0.5 + (rawProbability - 0.5) / 2;
+    const yesCount = Math.round(yesRate * perBucket);
+    for (let i = 0; i < perBucket; i++) {
+      examples.push({
+        rawProbability,
+        outcome: i < yesCount ? 'YES' : 'NO',
+        regime: rawProbability === 0.5 ? 'high-uncertainty' : 'high-confidence',
+        resolvedAt: resolvedAt++,
+      });
+    }
+  }
+  return examples;
+}
+
+describe('Probability Calibration', () => {
+  describe('fitIsotonicCalibrator', () => {
+    it('should recover bucket frequencies', () => {
+      const calibrator = fitIsotonicCalibrator(createOverconfidentExamples());
+
+      expect(calibrator.thresholds).toHaveLength(5);
+      [0.1, 0.3, 0.5, 0.7, 0.9].forEach((expected, i) => {
+        expect(calibrator.thresholds[i]).toBeCloseTo(expected);
+        expect(calibrator.values[i]).toBeCloseTo(0.5 + (expected - 0.5) / 2);
+      });
+      expect(applyCalibrator(calibrator, 0.9)).toBeCloseTo(0.7);
+      // Linear interpolation between block centers
+      expect(applyCalibrator(calibrator, 0.8)).toBeCloseTo(0.65);
+    });
+
+    it('should pool adjacent violators into monotone blocks', () => {
+      const calibrator = fitIsotonicCalibrator([
+        { rawProbability: 0.2, outcome: 'YES', resolvedAt: 0 },
+        { rawProbability: 0.4, outcome: 'NO', resolvedAt: 1 },
+        { rawProbability: 0.8, outcome: 'YES', resolvedAt: 2 },
+      ]);
+
+      expect(calibrator.values).toEqual([0.5, 1]);
+      expect(calibrator.thresholds[0]).toBeCloseTo(0.3);
+      for (let i = 1; i < calibrator.values.length; i++) {
+        expect(calibrator.values[i]).toBeGreaterThanOrEqual(calibrator.values[i - 1]);
+      }
+    });
+  });
+
+  describe('fitPlattCalibrator', () => {
+    it('should shrink overconfident log-odds', () => {
+      const calibrator = fitPlattCalibrator(createOverconfidentExamples());
+
+      expect(calibrator.a).toBeLessThan(1);
+      expect(calibrator.a).toBeGreaterThan(0);
+      expect(Math.abs(calibrator.b)).toBeLessThan(0.05);
+      expect(applyCalibrator(calibrator, 0.9)).toBeLessThan(0.85);
+    });
+
+    it('should stay at the identity without data pressure', () => {
+      const calibrator = fitPlattCalibrator(
+        [{ rawProbability: 0.5, outcome: 'YES', resolvedAt: 0 }],
+        1000
+      );
+
+      expect(applyCalibrator(calibrator, 0.8)).toBeCloseTo(0.8, 1);
+    });
+  });
+
+  describe('fitCalibrationModels', () => {
+    it('should fit regime models only with enough examples', () => {
+      const modelSet = fitCalibrationModels(createOverconfidentExamples(), {
+        minRegimeExamples: 50,
+        version: 'cal-test',
+      });
+
+      expect(modelSet.version).toBe('cal-test');
+      expect(modelSet.method).toBe('isotonic');
+      expect(Object.keys(modelSet.byRegime)).toEqual(['high-confidence']);
+    });
+
+    it('should reject empty training data', () => {
+      expect(() => fitCalibrationModels([])).toThrow('without resolved examples');
+    });
+  });
+
+  describe('calibrateConsensus', () => {
+    const modelSet: CalibrationModelSet = {
+      version: 'v1',
+      method: 'platt',
+      createdAt: 0,
+      trainingExamples: 100,
+      global: { method: 'platt', a: 0.5, b: 0, examples: 100 },
+      byRegime: {
+        'high-uncertainty': { method: 'platt', a: 0.25, b: 0, examples: 60 },
+      },
+    };
+
+    it('should calibrate the probability and band with the regime model', () => {
+      const result = calibrateConsensus(modelSet, 0.9, [0.85, 0.95], 'high-uncertainty');
+
+      expect(result.model).toBe('high-uncertainty');
+      expect(result.probability).toBeLessThan(0.65);
+      expect(result.confidenceBand[0]).toBeLessThanOrEqual(result.probability);
+      expect(result.confidenceBand[1]).toBeGreaterThanOrEqual(result.probability);
+    });
+
+    it('should fall back to the global model', () => {
+      const result = calibrateConsensus(modelSet, 0.9, [0.85, 0.95], 'moderate-confidence');
+
+      expect(result.model).toBe('global');
+      expect(result.probability).toBeCloseTo(0.75);
+    });
+  });
+
+  describe('evaluation', () => {
+    it('should improve scores on overconfident history', () => {
+      const examples = createOverconfidentExamples();
+      const modelSet = fitCalibrationModels(examples);
+
+      const evaluation = evaluateCalibration(modelSet, examples);
+
+      expect(evaluation.calibrated.brierScore).toBeLessThan(evaluation.raw.brierScore);
+      expect(evaluation.calibrated.logLoss).toBeLessThan(evaluation.raw.logLoss);
+    });
+
+    it('should hold out the most recent examples', () => {
+      const modelSet = fitAndEvaluateCalibration(createOverconfidentExamples(), 0.2, {
+        method: 'platt',
+      });
+
+      expect(modelSet.trainingExamples).toBe(100);
+      expect(modelSet.evaluation!.examples).toBe(20);
+    });
+  });
+
+  describe('createCalibrationModelLoader', () => {
+    it('should load the configured version and degrade to null on failure', async () => {
+      const config = { calibration: { enabled: true, modelVersion: 'v2' } } as EngineConfig;
+      const modelSet = fitCalibrationModels(createOverconfidentExamples(2));
+      const database = { getCalibrationModelSet: vi.fn().mockResolvedValue(modelSet) };
+
+      const loader = createCalibrationModelLoader(database, config);
+      expect(await loader()).toBe(modelSet);
+      expect(await loader()).toBe(modelSet);
+      expect(database.getCalibrationModelSet).toHaveBeenCalledTimes(1);
+      expect(database.getCalibrationModelSet).toHaveBeenCalledWith('v2');
+
+      const failing = createCalibrationModelLoader(
+        { getCalibrationModelSet: vi.fn().mockRejectedValue(new Error('timeout')) },
+        config
+      );
+      expect(await failing()).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,427 @@
+/**
+ * Probability Calibration
+ *
+ * Maps raw consensus probabilities to calibrated probabilities using models
+ * fitted on resolved recommendations. Two methods are supported:
+ *
+ * - isotonic: monotone step function fitted with pool-adjacent-violators,
+ *   interpolated linearly between block centers
+ * - platt: logistic recalibration on log-odds, sigmoid(a * logit(p) + b),
+ *   L2-regularized toward the identity (a = 1, b = 0)
+ *
+ * A global model is always fitted; each probability regime gets its own model
+ * once it has enough resolved examples. Model sets are versioned and stored in
+ * the database, and applied by the probability_calibration node after
+ * consensus_engine.
+ */
+
+import type { ProbabilityRegime } from '../models/types.js';
+import type { EngineConfig } from '../config/index.js';
+import type { DatabasePersistence } from '../database/persistence.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Calibration method
+ */
+export type CalibrationMethod = 'isotonic' | 'platt';
+
+/**
+ * A resolved recommendation's raw consensus probability and outcome
+ */
+export interface CalibrationExample {
+  rawProbability: number;
+  outcome: 'YES' | 'NO';
+  regime?: ProbabilityRegime;
+  resolvedAt: number;
+}
+
+/**
+ * Isotonic calibrator: calibrated values at increasing raw probabilities
+ */
+export interface IsotonicCalibrator {
+  method: 'isotonic';
+  thresholds: number[];
+  values: number[];
+  examples: number;
+}
+
+/**
+ * Platt calibrator: sigmoid(a * logit(p) + b)
+ */
+export interface PlattCalibrator {
+  method: 'platt';
+  a: number;
+  b: number;
+  examples: number;
+}
+
+export type Calibrator = IsotonicCalibrator | PlattCalibrator;
+
+/**
+ * Forecast quality before and after calibration
+ */
+export interface CalibrationEvaluation {
+  examples: number;
+  raw: { brierScore: number; logLoss: number };
+  calibrated: { brierScore: number; logLoss: number };
+}
+
+/**
+ * Versioned set of calibration models
+ */
+export interface CalibrationModelSet {
+  version: string;
+  method: CalibrationMethod;
+  createdAt: number;
+  trainingExamples: number;
+  global: Calibrator;
+  byRegime: Partial<Record<ProbabilityRegime, Calibrator>>;
+  /** Holdout evaluation on the most recent resolutions, when computed */
+  evaluation?: CalibrationEvaluation;
+}
+
+/**
+ * Options for fitting calibration models
+ */
+export interface CalibrationFitOptions {
+  method?: CalibrationMethod;
+  /** Resolved examples needed before a regime gets its own model (default: 50) */
+  minRegimeExamples?: number;
+  /** Platt L2 penalty toward the identity mapping (default: 1.0) */
+  l2?: number;
+  /** Version label (default: timestamp-based) */
+  version?: string;
+}
+
+/**
+ * Loads the active calibration model set
+ */
+export type CalibrationModelLoader = () => Promise<CalibrationModelSet | null>;
+
+// ============================================================================
+// Fitting
+// ============================================================================
+
+const EPSILON = 0.001;
+
+function clip(probability: number): number {
+  return Math.max(EPSILON, Math.min(1 - EPSILON, probability));
+}
+
+function logit(probability: number): number {
+  const p = clip(probability);
+  return Math.log(p / (1 - p));
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+/**
+ * Fit an isotonic calibrator with pool-adjacent-violators
+ */
+export function fitIsotonicCalibrator(examples: CalibrationExample[]): IsotonicCalibrator {
+  const sorted = [...examples].sort((a, b) => a.rawProbability - b.rawProbability);
+  const blocks: Array<{ sumX: number; sumY: number; count: number }> = [];
+
+  for (const example of sorted) {
+    blocks.push({
+      sumX: example.rawProbability,
+      sumY: example.outcome === 'YES' ? 1 : 0,
+      count: 1,
+    });
+
+    // Merge while the previous block's mean exceeds the last block's mean
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.sumY / previous.count <= last.sumY / last.count) {
+        break;
+      }
+      previous.sumX += last.sumX;
+      previous.sumY += last.sumY;
+      previous.count += last.count;
+      blocks.pop();
+    }
+  }
+
+  return {
+    method: 'isotonic',
+    thresholds: blocks.map((block) => block.sumX / block.count),
+    values: blocks.map((block) => block.sumY / block.count),
+    examples: examples.length,
+  };
+}
+
+/**
+ * Fit a Platt calibrator with gradient descent
+ */
+export function fitPlattCalibrator(
+  examples: CalibrationExample[],
+  l2: number = 1.0,
+  iterations: number = 2000,
+  learningRate: number = 0.1
+): PlattCalibrator {
+  const features = examples.map((example) => logit(example.rawProbability));
+  const targets = examples.map((example) => (example.outcome === 'YES' ? 1 : 0));
+  const n = examples.length;
+  // Scaling the step by (n + l2) keeps gradient descent stable when the
+  // prior outweighs a small sample
+  const scale = learningRate / (n + l2);
+  let a = 1;
+  let b = 0;
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    let gradientA = 0;
+    let gradientB = 0;
+    for (let i = 0; i < n; i++) {
+      const residual = sigmoid(a * features[i] + b) - targets[i];
+      gradientA += residual * features[i];
+      gradientB += residual;
+    }
+    a -= scale * (gradientA + l2 * (a - 1));
+    b -= scale * (gradientB + l2 * b);
+  }
+
+  return { method: 'platt', a, b, examples: n };
+}
+
+function fitCalibrator(
+  examples: CalibrationExample[],
+  method: CalibrationMethod,
+  l2: number
+): Calibrator {
+  return method === 'isotonic' ? fitIsotonicCalibrator(examples) : fitPlattCalibrator(examples, l2);
+}
+
+/**
+ * Fit a calibration model set from resolved recommendations
+ *
+ * @param examples - Resolved recommendations with raw consensus probabilities
+ * @param options - Fitting options
+ * @returns Versioned model set (global model plus per-regime models)
+ */
+export function fitCalibrationModels(
+  examples: CalibrationExample[],
+  options: CalibrationFitOptions = {}
+): CalibrationModelSet {
+  if (examples.length === 0) {
+    throw new Error('Cannot fit calibration without resolved examples');
+  }
+
+  const method = options.method ?? 'isotonic';
+  const minRegimeExamples = options.minRegimeExamples ?? 50;
+  const l2 = options.l2 ?? 1.0;
+
+  const byRegime: Partial<Record<ProbabilityRegime, Calibrator>> = {};
+  const regimes = [...new Set(examples.map((example) => example.regime))].filter(
+    (regime): regime is ProbabilityRegime => !!regime
+  );
+  for (const regime of regimes.sort()) {
+    const regimeExamples = examples.filter((example) => example.regime === regime);
+    if (regimeExamples.length >= minRegimeExamples) {
+      byRegime[regime] = fitCalibrator(regimeExamples, method, l2);
+    }
+  }
+
+  const createdAt = Date.now();
+  return {
+    version:
+      options.version ??
+      `cal-${new Date(createdAt)
+        .toISOString()
+        .replace(/[-:TZ.]/g, '')
+        .slice(0, 14)}`,
+    method,
+    createdAt,
+    trainingExamples: examples.length,
+    global: fitCalibrator(examples, method, l2),
+    byRegime,
+  };
+}
+
+// ============================================================================
+// Application
+// ============================================================================
+
+/**
+ * Apply a single calibrator to a probability
+ */
+export function applyCalibrator(calibrator: Calibrator, probability: number): number {
+  if (calibrator.method === 'platt') {
+    return sigmoid(calibrator.a * logit(probability) + calibrator.b);
+  }
+
+  const { thresholds, values } = calibrator;
+  if (thresholds.length === 0) {
+    return probability;
+  }
+  if (probability <= thresholds[0]) {
+    return clip(values[0]);
+  }
+  if (probability >= thresholds[thresholds.length - 1]) {
+    return clip(values[values.length - 1]);
+  }
+
+  let upper = 1;
+  while (thresholds[upper] < probability) {
+    upper++;
+  }
+  const lower = upper - 1;
+  const t = (probability - thresholds[lower]) / (thresholds[upper] - thresholds[lower]);
+  return clip(values[lower] + t * (values[upper] - values[lower]));
+}
+
+/**
+ * Calibrate a consensus probability and its confidence band
+ *
+ * Band endpoints go through the same monotone mapping and are widened if
+ * needed so the band still contains the calibrated probability.
+ *
+ * @param modelSet - Calibration model set
+ * @param probability - Raw consensus probability
+ * @param confidenceBand - Raw confidence band
+ * @param regime - Probability regime
+ * @returns Calibrated probability and band, and which model was used
+ */
+export function calibrateConsensus(
+  modelSet: CalibrationModelSet,
+  probability: number,
+  confidenceBand: [number, number],
+  regime?: ProbabilityRegime
+): { probability: number; confidenceBand: [number, number]; model: string } {
+  const regimeCalibrator = regime ? modelSet.byRegime[regime] : undefined;
+  const calibrator = regimeCalibrator ?? modelSet.global;
+
+  const calibrated = applyCalibrator(calibrator, probability);
+  const lower = Math.min(applyCalibrator(calibrator, confidenceBand[0]), calibrated);
+  const upper = Math.max(applyCalibrator(calibrator, confidenceBand[1]), calibrated);
+
+  return {
+    probability: calibrated,
+    confidenceBand: [lower, upper],
+    model: regimeCalibrator ? regime! : 'global',
+  };
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+function score(
+  predictions: number[],
+  examples: CalibrationExample[]
+): { brierScore: number; logLoss: number } {
+  let brierSum = 0;
+  let logLossSum = 0;
+  examples.forEach((example, index) => {
+    const actual = example.outcome === 'YES' ? 1 : 0;
+    const p = clip(predictions[index]);
+    brierSum += Math.pow(predictions[index] - actual, 2);
+    logLossSum += -Math.log(actual === 1 ? p : 1 - p);
+  });
+
+  const n = Math.max(examples.length, 1);
+  return { brierScore: brierSum / n, logLoss: logLossSum / n };
+}
+
+/**
+ * Compare raw and calibrated forecast quality on examples
+ */
+export function evaluateCalibration(
+  modelSet: CalibrationModelSet,
+  examples: CalibrationExample[]
+): CalibrationEvaluation {
+  return {
+    examples: examples.length,
+    raw: score(
+      examples.map((example) => example.rawProbability),
+      examples
+    ),
+    calibrated: score(
+      examples.map(
+        (example) =>
+          calibrateConsensus(
+            modelSet,
+            example.rawProbability,
+            [example.rawProbability, example.rawProbability],
+            example.regime
+          ).probability
+      ),
+      examples
+    ),
+  };
+}
+
+/**
+ * Fit on older resolutions, evaluate on the most recent ones, then refit on all
+ *
+ * @param examples - Resolved recommendations
+ * @param holdoutFraction - Share of the most recent examples held out (default: 0.2)
+ * @param options - Fitting options
+ * @returns Model set fitted on all examples, with holdout evaluation attached
+ */
+export function fitAndEvaluateCalibration(
+  examples: CalibrationExample[],
+  holdoutFraction: number = 0.2,
+  options: CalibrationFitOptions = {}
+): CalibrationModelSet {
+  const sorted = [...examples].sort((a, b) => a.resolvedAt - b.resolvedAt);
+  const holdoutSize = Math.floor(sorted.length * holdoutFraction);
+  const modelSet = fitCalibrationModels(sorted, options);
+
+  if (holdoutSize === 0 || holdoutSize === sorted.length) {
+    return modelSet;
+  }
+
+  const trainedOnly = fitCalibrationModels(sorted.slice(0, sorted.length - holdoutSize), options);
+  return {
+    ...modelSet,
+    evaluation: evaluateCalibration(trainedOnly, sorted.slice(sorted.length - holdoutSize)),
+  };
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Create a loader for the calibration model set selected in config
+ *
+ * Loads config.calibration.modelVersion, or the latest stored set when unset.
+ * The result is cached; failures degrade to null so probabilities pass through
+ * uncalibrated.
+ *
+ * @param database - Database persistence layer
+ * @param config - Engine configuration
+ * @param cacheTtlMs - How long to reuse the loaded set
+ * @returns Loader for the probability calibration node
+ */
+export function createCalibrationModelLoader(
+  database: Pick<DatabasePersistence, 'getCalibrationModelSet'>,
+  config: EngineConfig,
+  cacheTtlMs: number = 10 * 60 * 1000
+): CalibrationModelLoader {
+  let cached: { modelSet: CalibrationModelSet | null; loadedAt: number } | null = null;
+
+  return async () => {
+    if (cached && Date.now() - cached.loadedAt <= cacheTtlMs) {
+      return cached.modelSet;
+    }
+
+    try {
+      const modelSet = await database.getCalibrationModelSet(config.calibration?.modelVersion);
+      cached = { modelSet, loadedAt: Date.now() };
+      return modelSet;
+    } catch (error) {
+      console.warn(
+        '[Calibration] Failed to load calibration models:',
+        error instanceof Error ? error.message : String(error)
+      );
+      return null;
+    }
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for the prompt registry
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  PromptRegistry,
+  BASELINE_PROMPT_VERSION,
+  configurePromptRegistry,
+  type PromptTemplate,
+} from './prompt-registry.js';
+import type { EngineConfig } from '../config/index.js';
+
+const template: PromptTemplate = {
+  agentName: 'tail_risk',
+  version: 'tail-risk-v2',
+  template: '{{baseline}}\n\nAlways price a resolution-technicality scenario.',
+};
+
+describe('Prompt Registry', () => {
+  let tempDir: string | undefined;
+
+  afterEach(async () => {
+    if (tempDir) {
+      await rm(tempDir, { recursive: true, force: true });
+      tempDir = undefined;
+    }
+  });
+
+  it('should use the baseline prompt when the agent has no experiment', () => {
+    const registry = new PromptRegistry();
+    registry.register(template);
+
+    expect(registry.resolve('tail_risk', 'Built-in prompt', 'market-1')).toEqual({
+      prompt: 'Built-in prompt',
+      version: BASELINE_PROMPT_VERSION,
+    });
+  });
+
+  it('should render templates around the baseline prompt', () => {
+    const registry = new PromptRegistry();
+    registry.register(template);
+    registry.setExperiment({
+      agentName: 'tail_risk',
+      assignment: 'percentage',
+      variants: [{ version: 'tail-risk-v2', weight: 1 }],
+    });
+
+    const resolved = registry.resolve('tail_risk', 'Built-in prompt');
+
+    expect(resolved.version).toBe('tail-risk-v2');
+    expect(resolved.prompt).toBe(
+      'Built-in prompt\n\nAlways price a resolution-technicality scenario.'
+    );
+  });
+
+  it('should keep a market on the same version under market_hash assignment', () => {
+    const registry = new PromptRegistry(() => {
+      throw new Error('random draw not expected');
+    });
+    registry.register(template);
+    registry.setExperiment({
+      agentName: 'tail_risk',
+      assignment: 'market_hash',
+      variants: [
+        { version: BASELINE_PROMPT_VERSION, weight: 1 },
+        { version: 'tail-risk-v2', weight: 1 },
+      ],
+    });
+
+    const markets = Array.from({ length: 40 }, (_, i) => `market-${i}`);
+    const first = markets.map((market) => registry.assignVersion('tail_risk', market));
+    const second = markets.map((market) => registry.assignVersion('tail_risk', market));
+
+    expect(second).toEqual(first);
+    expect(new Set(first)).toEqual(new Set([BASELINE_PROMPT_VERSION, 'tail-risk-v2']));
+  });
+
+  it('should split percentage assignment by weight', () => {
+    const draws = [0.1, 0.5, 0.8];
+    const registry = new PromptRegistry(() => draws.shift() ?? 0);
+    registry.register(template);
+    registry.setExperiment({
+      agentName: 'tail_risk',
+      assignment: 'percentage',
+      variants: [
+        { version: BASELINE_PROMPT_VERSION, weight: 3 },
+        { version: 'tail-risk-v2', weight: 1 },
+      ],
+    });
+
+    expect([
+      registry.assignVersion('tail_risk', 'market-1'),
+      registry.assignVersion('tail_risk', 'market-1'),
+      registry.assignVersion('tail_risk', 'market-1'),
+    ]).toEqual([BASELINE_PROMPT_VERSION, BASELINE_PROMPT_VERSION, 'tail-risk-v2']);
+  });
+
+  it('should reject reserved, conflicting and unregistered versions', () => {
+    const registry = new PromptRegistry();
+    registry.register(template);
+    registry.register({ ...template });
+
+    expect(() => registry.register({ ...template, version: BASELINE_PROMPT_VERSION })).toThrow(
+      'reserved'
+    );
+    expect(() => registry.register({ ...template, template: 'Different text' })).toThrow(
+      'already registered'
+    );
+    expect(() =>
+      registry.setExperiment({
+        agentName: 'tail_risk',
+        assignment: 'percentage',
+        variants: [{ version: 'tail-risk-v3', weight: 1 }],
+      })
+    ).toThrow('unregistered version');
+    expect(() =>
+      registry.setExperiment({
+        agentName: 'tail_risk',
+        assignment: 'percentage',
+        variants: [{ version: 'tail-risk-v2', weight: 0 }],
+      })
+    ).toThrow('no positive weights');
+  });
+
+  it('should load templates and experiments from configuration', async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'prompt-registry-'));
+    const templatesPath = join(tempDir, 'prompts.json');
+    await writeFile(templatesPath, JSON.stringify([template]));
+
+    const registry = new PromptRegistry();
+    await configurePromptRegistry(
+      {
+        prompts: {
+          templatesPath,
+          experiments: [
+            {
+              agentName: 'tail_risk',
+              assignment: 'market_hash',
+              variants: [{ version: 'tail-risk-v2', weight: 1 }],
+            },
+          ],
+        },
+      } as unknown as EngineConfig,
+      registry
+    );
+
+    expect(registry.listVersions('tail_risk')).toEqual([BASELINE_PROMPT_VERSION, 'tail-risk-v2']);
+    expect(registry.assignVersion('tail_risk', 'market-1')).toBe('tail-risk-v2');
+  });
+});
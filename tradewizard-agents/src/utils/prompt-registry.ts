@@ -0,0 +1,297 @@
+/**
+ * Prompt Registry
+ *
+ * Versioned system prompts with per-agent A/B experiments. Every prompt site
+ * (intelligence agents, thesis construction, cross-examination tests) resolves
+ * its prompt through the registry, passing the built-in prompt as the
+ * `baseline` version. The resolved version is recorded on the agent signal's
+ * metadata (persisted to agent_signals.prompt_version) or on the stage's
+ * audit entry, so resolved accuracy can be compared per version.
+ *
+ * Templates may embed the built-in prompt with `{{baseline}}` to extend it
+ * rather than replace it:
+ *
+ *   registerPromptTemplate({
+ *     agentName: 'tail_risk',
+ *     version: 'tail-risk-v2',
+ *     template: '{{baseline}}\n\nAlways price at least one resolution-technicality scenario.',
+ *   });
+ *   setPromptExperiment({
+ *     agentName: 'tail_risk',
+ *     assignment: 'market_hash',
+ *     variants: [{ version: 'baseline', weight: 1 }, { version: 'tail-risk-v2', weight: 1 }],
+ *   });
+ */
+
+import { readFile } from 'fs/promises';
+import { z } from 'zod';
+import type { EngineConfig } from '../config/index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Version name of the built-in prompt at every prompt site
+ */
+export const BASELINE_PROMPT_VERSION = 'baseline';
+
+/**
+ * Placeholder replaced with the built-in prompt when a template is rendered
+ */
+const BASELINE_PLACEHOLDER = '{{baseline}}';
+
+/**
+ * Versioned prompt for one agent or prompt site
+ */
+export interface PromptTemplate {
+  agentName: string;
+  version: string;
+  template: string;
+  description?: string;
+}
+
+/**
+ * How an experiment assigns versions
+ *
+ * - percentage: weighted random draw per analysis
+ * - market_hash: weighted draw from a hash of the market, so re-analyses of a
+ *   market keep the same version
+ */
+export type PromptAssignment = 'percentage' | 'market_hash';
+
+/**
+ * Experiment splitting one agent's analyses across prompt versions
+ */
+export interface PromptExperiment {
+  agentName: string;
+  assignment: PromptAssignment;
+  variants: Array<{ version: string; weight: number }>;
+}
+
+/**
+ * Prompt chosen for one invocation
+ */
+export interface ResolvedPrompt {
+  prompt: string;
+  version: string;
+}
+
+const PromptTemplateSchema = z.object({
+  agentName: z.string().min(1),
+  version: z
+    .string()
+    .min(1)
+    .refine((version) => version !== BASELINE_PROMPT_VERSION, {
+      message: `"${BASELINE_PROMPT_VERSION}" is reserved for built-in prompts`,
+    }),
+  template: z.string().min(1),
+  description: z.string().optional(),
+});
+
+/**
+ * Map a string to [0, 1) with FNV-1a (stable across processes)
+ */
+export function hashToUnitInterval(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * Registry of prompt templates and experiments
+ */
+export class PromptRegistry {
+  private templates = new Map<string, Map<string, PromptTemplate>>();
+  private experiments = new Map<string, PromptExperiment>();
+
+  constructor(private readonly random: () => number = Math.random) {}
+
+  /**
+   * Register a prompt version
+   *
+   * Re-registering an identical template is a no-op.
+   *
+   * @throws Error if the version is reserved or already registered with different text
+   */
+  register(template: PromptTemplate): void {
+    const parsed = PromptTemplateSchema.safeParse(template);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new Error(`Invalid prompt template at ${issue.path.join('.')}: ${issue.message}`);
+    }
+
+    const versions = this.templates.get(template.agentName) ?? new Map<string, PromptTemplate>();
+    const existing = versions.get(template.version);
+    if (existing && existing.template !== template.template) {
+      throw new Error(
+        `Prompt version "${template.version}" is already registered for ${template.agentName}`
+      );
+    }
+
+    versions.set(template.version, template);
+    this.templates.set(template.agentName, versions);
+  }
+
+  get(agentName: string, version: string): PromptTemplate | undefined {
+    return this.templates.get(agentName)?.get(version);
+  }
+
+  /**
+   * Registered versions for an agent (the baseline is always available)
+   */
+  listVersions(agentName: string): string[] {
+    return [BASELINE_PROMPT_VERSION, ...(this.templates.get(agentName)?.keys() ?? [])];
+  }
+
+  /**
+   * Start or replace an agent's experiment
+   *
+   * @throws Error if a variant names an unregistered version
+   */
+  setExperiment(experiment: PromptExperiment): void {
+    const available = new Set(this.listVersions(experiment.agentName));
+    for (const variant of experiment.variants) {
+      if (!available.has(variant.version)) {
+        throw new Error(
+          `Prompt experiment for ${experiment.agentName} uses unregistered version "${variant.version}"`
+        );
+      }
+    }
+    if (!experiment.variants.some((variant) => variant.weight > 0)) {
+      throw new Error(`Prompt experiment for ${experiment.agentName} has no positive weights`);
+    }
+
+    this.experiments.set(experiment.agentName, experiment);
+  }
+
+  clearExperiment(agentName: string): boolean {
+    return this.experiments.delete(agentName);
+  }
+
+  getExperiment(agentName: string): PromptExperiment | undefined {
+    return this.experiments.get(agentName);
+  }
+
+  /**
+   * Choose the prompt version for one invocation
+   *
+   * @param agentName - Agent or prompt site
+   * @param marketId - Market being analyzed (used by market_hash assignment)
+   * @returns Assigned version (baseline when the agent has no experiment)
+   */
+  assignVersion(agentName: string, marketId?: string): string {
+    const experiment = this.experiments.get(agentName);
+    if (!experiment) {
+      return BASELINE_PROMPT_VERSION;
+    }
+
+    const variants = experiment.variants.filter((variant) => variant.weight > 0);
+    const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+    const draw =
+      experiment.assignment === 'market_hash' && marketId
+        ? hashToUnitInterval(`${agentName}:${marketId}`)
+        : this.random();
+
+    let cumulative = 0;
+    for (const variant of variants) {
+      cumulative += variant.weight / totalWeight;
+      if (draw < cumulative) {
+        return variant.version;
+      }
+    }
+    return variants[variants.length - 1].version;
+  }
+
+  /**
+   * Resolve the prompt for one invocation
+   *
+   * @param agentName - Agent or prompt site
+   * @param baselinePrompt - Built-in prompt at the call site
+   * @param marketId - Market being analyzed
+   * @returns Rendered prompt and its version
+   */
+  resolve(agentName: string, baselinePrompt: string, marketId?: string): ResolvedPrompt {
+    const version = this.assignVersion(agentName, marketId);
+    const template = this.get(agentName, version);
+
+    return {
+      prompt: template
+        ? template.template.split(BASELINE_PLACEHOLDER).join(baselinePrompt)
+        : baselinePrompt,
+      version: template ? version : BASELINE_PROMPT_VERSION,
+    };
+  }
+
+  clear(): void {
+    this.templates.clear();
+    this.experiments.clear();
+  }
+}
+
+/**
+ * Registry read by every prompt site
+ */
+export const defaultPromptRegistry = new PromptRegistry();
+
+export function registerPromptTemplate(template: PromptTemplate): void {
+  defaultPromptRegistry.register(template);
+}
+
+export function setPromptExperiment(experiment: PromptExperiment): void {
+  defaultPromptRegistry.setExperiment(experiment);
+}
+
+/**
+ * Resolve a prompt from the default registry
+ */
+export function resolvePrompt(
+  agentName: string,
+  baselinePrompt: string,
+  marketId?: string
+): ResolvedPrompt {
+  return defaultPromptRegistry.resolve(agentName, baselinePrompt, marketId);
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Load templates and experiments from configuration into a registry
+ *
+ * Templates come from the JSON file at `prompts.templatesPath`; experiments
+ * replace any existing experiment for the same agent.
+ *
+ * @param config - Engine configuration
+ * @param registry - Registry to configure
+ * @throws Error if the templates file is invalid or an experiment names an unknown version
+ */
+export async function configurePromptRegistry(
+  config: EngineConfig,
+  registry: PromptRegistry = defaultPromptRegistry
+): Promise<void> {
+  const prompts = config.prompts;
+  if (!prompts) {
+    return;
+  }
+
+  if (prompts.templatesPath) {
+    const content = await readFile(prompts.templatesPath, 'utf-8');
+    const templates = z.array(z.unknown()).parse(JSON.parse(content));
+    for (const template of templates) {
+      registry.register(template as PromptTemplate);
+    }
+  }
+
+  for (const experiment of prompts.experiments ?? []) {
+    registry.setExperiment(experiment);
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Unit tests for re-analysis triggers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_REANALYSIS_TRIGGER_OPTIONS,
+  ReanalysisQueue,
+  ReanalysisTriggerEngine,
+  createReanalysisTriggerEngine,
+  detectBreakingNews,
+  detectExpiryApproaching,
+  detectPriceMove,
+  detectVolumeSpike,
+  scoreNewsRelevance,
+  type ReanalysisTrigger,
+  type TrackedMarketState,
+} from './reanalysis-triggers.js';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 9, 1);
+
+const createMarket = (overrides: Partial<TrackedMarketState> = {}): TrackedMarketState => ({
+  conditionId: '0xmarket',
+  question: 'Will the Senate pass the budget bill?',
+  keywords: ['senate', 'budget', 'bill'],
+  currentProbability: 0.5,
+  volume24h: 1000,
+  expiryTimestamp: NOW + 30 * 24 * HOUR,
+  baselineProbability: 0.5,
+  baselineVolume24h: 1000,
+  ...overrides,
+});
+
+const options = DEFAULT_REANALYSIS_TRIGGER_OPTIONS;
+
+const createTrigger = (
+  conditionId: string,
+  priority: number,
+  detectedAt: number = NOW
+): ReanalysisTrigger => ({
+  conditionId,
+  type: 'price_move',
+  priority,
+  reason: 'moved',
+  detectedAt,
+});
+
+describe('Re-analysis Triggers', () => {
+  describe('detectors', () => {
+    it('should fire on price moves beyond the threshold in either direction', () => {
+      expect(detectPriceMove(createMarket({ currentProbability: 0.53 }), options, NOW)).toBeNull();
+
+      const trigger = detectPriceMove(createMarket({ currentProbability: 0.4 }), options, NOW)!;
+      expect(trigger.type).toBe('price_move');
+      expect(trigger.priority).toBeCloseTo(1.5 * 2);
+      expect(trigger.reason).toContain('-10.0pp');
+    });
+
+    it('should not fire price or volume triggers without a baseline', () => {
+      const market = createMarket({ baselineProbability: undefined, baselineVolume24h: undefined });
+
+      expect(detectPriceMove({ ...market, currentProbability: 0.9 }, options, NOW)).toBeNull();
+      expect(detectVolumeSpike({ ...market, volume24h: 1e6 }, options, NOW)).toBeNull();
+    });
+
+    it('should fire on volume spikes', () => {
+      expect(detectVolumeSpike(createMarket({ volume24h: 2500 }), options, NOW)).toBeNull();
+      expect(detectVolumeSpike(createMarket({ volume24h: 4000 }), options, NOW)?.reason).toContain(
+        '4.0x'
+      );
+    });
+
+    it('should fire on the most relevant breaking news article', () => {
+      const articles = [
+        { title: 'Senate schedules vote', description: 'Leaders expect a close count' },
+        { title: 'Senate passes budget', description: 'The bill now goes to the House' },
+      ];
+
+      expect(scoreNewsRelevance(['senate', 'budget', 'bill'], articles[0])).toBeCloseTo(1 / 3);
+
+      const trigger = detectBreakingNews(createMarket(), articles, options, NOW)!;
+      expect(trigger.reason).toContain('Senate passes budget');
+      expect(trigger.priority).toBeCloseTo(1.5 * 2);
+      expect(detectBreakingNews(createMarket(), [articles[0]], options, NOW)).toBeNull();
+    });
+
+    it('should fire as expiry approaches with rising priority', () => {
+      const far = detectExpiryApproaching(
+        createMarket({ expiryTimestamp: NOW + 24 * HOUR }),
+        options,
+        NOW
+      )!;
+      const near = detectExpiryApproaching(
+        createMarket({ expiryTimestamp: NOW + 4 * HOUR }),
+        options,
+        NOW
+      )!;
+
+      expect(near.priority).toBeGreaterThan(far.priority);
+      expect(
+        detectExpiryApproaching(createMarket({ expiryTimestamp: NOW - HOUR }), options, NOW)
+      ).toBeNull();
+    });
+  });
+
+  describe('ReanalysisQueue', () => {
+    it('should dequeue by priority, then by enqueue time', () => {
+      const queue = new ReanalysisQueue();
+      queue.enqueue(createTrigger('low', 1));
+      queue.enqueue(createTrigger('high', 3));
+      queue.enqueue(createTrigger('first', 2, NOW));
+      queue.enqueue(createTrigger('second', 2, NOW + 1));
+
+      expect(queue.toArray().map((entry) => entry.conditionId)).toEqual([
+        'high',
+        'first',
+        'second',
+        'low',
+      ]);
+      expect(queue.dequeue()?.conditionId).toBe('high');
+      expect(queue.size()).toBe(3);
+    });
+
+    it('should merge triggers for a queued market and keep the highest priority', () => {
+      const queue = new ReanalysisQueue();
+      queue.enqueue(createTrigger('a', 1));
+      queue.enqueue(createTrigger('b', 2));
+      queue.enqueue({ ...createTrigger('a', 4), type: 'breaking_news' });
+      queue.enqueue(createTrigger('a', 0.5));
+
+      const first = queue.dequeue()!;
+      expect(first.conditionId).toBe('a');
+      expect(first.priority).toBe(4);
+      expect(first.triggers).toHaveLength(3);
+      expect(queue.size()).toBe(1);
+    });
+  });
+
+  describe('ReanalysisTriggerEngine', () => {
+    it('should apply per-trigger cooldowns', () => {
+      const engine = new ReanalysisTriggerEngine(options);
+      const moved = createMarket({ currentProbability: 0.6, volume24h: 5000 });
+
+      expect(engine.evaluate([moved], [], NOW).map((t) => t.type)).toEqual([
+        'price_move',
+        'volume_spike',
+      ]);
+
+      // 90 minutes later the price cooldown (60m) has elapsed but the volume one (120m) has not
+      expect(engine.evaluate([moved], [], NOW + 90 * 60 * 1000).map((t) => t.type)).toEqual([
+        'price_move',
+      ]);
+      expect(engine.queue.size()).toBe(1);
+      expect(engine.queue.peek()!.triggers).toHaveLength(3);
+    });
+
+    it('should not fire for quiet markets', () => {
+      const engine = createReanalysisTriggerEngine();
+
+      expect(engine.evaluate([createMarket()], [], NOW)).toEqual([]);
+      expect(engine.queue.size()).toBe(0);
+    });
+
+    it('should merge configured cooldowns with the defaults', () => {
+      const engine = createReanalysisTriggerEngine({
+        cooldownMinutes: { price_move: 0 },
+      } as any);
+      const moved = createMarket({ currentProbability: 0.6 });
+
+      engine.evaluate([moved], [], NOW);
+      expect(engine.evaluate([moved], [], NOW + 1).map((t) => t.type)).toEqual(['price_move']);
+    });
+  });
+});
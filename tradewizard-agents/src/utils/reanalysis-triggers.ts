@@ -0,0 +1,398 @@
+/**
+ * Re-analysis Triggers
+ *
+ * Decides when a tracked market deserves a fresh analysis instead of waiting
+ * for a fixed interval. A trigger fires when:
+ * - The price moved beyond a threshold since the last analysis
+ * - 24h volume spiked relative to the last analysis
+ * - A breaking-news article matches the market's keywords closely enough
+ * - Expiry is approaching
+ *
+ * Each (market, trigger type) pair has its own cooldown, and fired triggers
+ * feed a priority queue that the monitor drains a few markets at a time.
+ */
+
+import type { EngineConfig } from '../config/index.js';
+import type { NewsDataArticle } from './newsdata-client.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ReanalysisTriggerType =
+  'price_move' | 'volume_spike' | 'breaking_news' | 'expiry_approaching';
+
+/**
+ * Current state of a tracked market alongside its state at the last analysis
+ */
+export interface TrackedMarketState {
+  conditionId: string;
+  question: string;
+  keywords: string[];
+  currentProbability: number;
+  volume24h: number;
+  expiryTimestamp: number;
+  baselineProbability?: number; // Market probability at the last analysis
+  baselineVolume24h?: number; // 24h volume at the last analysis
+}
+
+/**
+ * Article fields used for relevance matching
+ */
+export type TriggerNewsArticle = Pick<NewsDataArticle, 'title' | 'description' | 'keywords'>;
+
+/**
+ * A fired trigger
+ */
+export interface ReanalysisTrigger {
+  conditionId: string;
+  type: ReanalysisTriggerType;
+  priority: number; // Higher runs first
+  reason: string;
+  detectedAt: number;
+}
+
+/**
+ * A market waiting for re-analysis with every trigger that queued it
+ */
+export interface QueuedReanalysis {
+  conditionId: string;
+  priority: number; // Highest priority among its triggers
+  triggers: ReanalysisTrigger[];
+  enqueuedAt: number;
+}
+
+/**
+ * Trigger engine options
+ */
+export interface ReanalysisTriggerOptions {
+  priceMoveThreshold: number; // Absolute probability move since the last analysis
+  volumeSpikeMultiplier: number; // Current / baseline 24h volume
+  newsRelevanceThreshold: number; // Share of market keywords an article must match
+  expiryWindowHours: number; // Hours before expiry at which the market is re-analyzed
+  cooldownMinutes: Record<ReanalysisTriggerType, number>;
+}
+
+export const DEFAULT_REANALYSIS_TRIGGER_OPTIONS: ReanalysisTriggerOptions = {
+  priceMoveThreshold: 0.05,
+  volumeSpikeMultiplier: 3,
+  newsRelevanceThreshold: 0.5,
+  expiryWindowHours: 48,
+  cooldownMinutes: {
+    price_move: 60,
+    volume_spike: 120,
+    breaking_news: 60,
+    expiry_approaching: 720,
+  },
+};
+
+/**
+ * Priority weight per trigger type, multiplied by how far past its threshold
+ * the trigger fired
+ */
+const TRIGGER_WEIGHTS: Record<ReanalysisTriggerType, number> = {
+  price_move: 1.5,
+  breaking_news: 1.5,
+  volume_spike: 1,
+  expiry_approaching: 1,
+};
+
+// Caps severity so one extreme reading cannot starve the rest of the queue
+const MAX_SEVERITY = 5;
+
+// ============================================================================
+// Detectors
+// ============================================================================
+
+function createTrigger(
+  market: TrackedMarketState,
+  type: ReanalysisTriggerType,
+  severity: number,
+  reason: string,
+  now: number
+): ReanalysisTrigger {
+  return {
+    conditionId: market.conditionId,
+    type,
+    priority: TRIGGER_WEIGHTS[type] * Math.min(MAX_SEVERITY, severity),
+    reason,
+    detectedAt: now,
+  };
+}
+
+/**
+ * Fire when the price moved beyond the threshold since the last analysis
+ */
+export function detectPriceMove(
+  market: TrackedMarketState,
+  options: ReanalysisTriggerOptions,
+  now: number = Date.now()
+): ReanalysisTrigger | null {
+  if (market.baselineProbability === undefined) {
+    return null;
+  }
+
+  const move = market.currentProbability - market.baselineProbability;
+  if (Math.abs(move) < options.priceMoveThreshold) {
+    return null;
+  }
+
+  return createTrigger(
+    market,
+    'price_move',
+    Math.abs(move) / options.priceMoveThreshold,
+    `Price moved ${move > 0 ? '+' : ''}${(move * 100).toFixed(1)}pp since last analysis`,
+    now
+  );
+}
+
+/**
+ * Fire when 24h volume is a multiple of its level at the last analysis
+ */
+export function detectVolumeSpike(
+  market: TrackedMarketState,
+  options: ReanalysisTriggerOptions,
+  now: number = Date.now()
+): ReanalysisTrigger | null {
+  if (!market.baselineVolume24h || market.baselineVolume24h <= 0) {
+    return null;
+  }
+
+  const ratio = market.volume24h / market.baselineVolume24h;
+  if (ratio < options.volumeSpikeMultiplier) {
+    return null;
+  }
+
+  return createTrigger(
+    market,
+    'volume_spike',
+    ratio / options.volumeSpikeMultiplier,
+    `24h volume is ${ratio.toFixed(1)}x its level at last analysis`,
+    now
+  );
+}
+
+/**
+ * Share of market keywords that appear in an article
+ */
+export function scoreNewsRelevance(keywords: string[], article: TriggerNewsArticle): number {
+  if (keywords.length === 0) {
+    return 0;
+  }
+
+  const text = [article.title, article.description ?? '', ...(article.keywords ?? [])]
+    .join(' ')
+    .toLowerCase();
+  const matched = keywords.filter((keyword) => text.includes(keyword.toLowerCase()));
+
+  return matched.length / keywords.length;
+}
+
+/**
+ * Fire on the most relevant breaking-news article above the threshold
+ */
+export function detectBreakingNews(
+  market: TrackedMarketState,
+  articles: TriggerNewsArticle[],
+  options: ReanalysisTriggerOptions,
+  now: number = Date.now()
+): ReanalysisTrigger | null {
+  let best: { article: TriggerNewsArticle; relevance: number } | null = null;
+  for (const article of articles) {
+    const relevance = scoreNewsRelevance(market.keywords, article);
+    if (relevance >= options.newsRelevanceThreshold && (!best || relevance > best.relevance)) {
+      best = { article, relevance };
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+
+  return createTrigger(
+    market,
+    'breaking_news',
+    best.relevance / options.newsRelevanceThreshold,
+    `Breaking news (${(best.relevance * 100).toFixed(0)}% keyword match): ${best.article.title}`,
+    now
+  );
+}
+
+/**
+ * Fire when the market expires within the window; priority rises as expiry nears
+ */
+export function detectExpiryApproaching(
+  market: TrackedMarketState,
+  options: ReanalysisTriggerOptions,
+  now: number = Date.now()
+): ReanalysisTrigger | null {
+  const hoursLeft = (market.expiryTimestamp - now) / (60 * 60 * 1000);
+  if (hoursLeft <= 0 || hoursLeft > options.expiryWindowHours) {
+    return null;
+  }
+
+  return createTrigger(
+    market,
+    'expiry_approaching',
+    options.expiryWindowHours / Math.max(hoursLeft, 1),
+    `Expires in ${hoursLeft.toFixed(1)}h`,
+    now
+  );
+}
+
+// ============================================================================
+// Priority Queue
+// ============================================================================
+
+/**
+ * Priority queue of markets awaiting re-analysis
+ *
+ * A market is queued at most once. Later triggers for a queued market are
+ * merged into its entry and can only raise its priority. Ties are broken by
+ * enqueue time.
+ */
+export class ReanalysisQueue {
+  private entries: QueuedReanalysis[] = [];
+
+  enqueue(trigger: ReanalysisTrigger): void {
+    const index = this.entries.findIndex((entry) => entry.conditionId === trigger.conditionId);
+    if (index >= 0) {
+      const [entry] = this.entries.splice(index, 1);
+      entry.triggers.push(trigger);
+      entry.priority = Math.max(entry.priority, trigger.priority);
+      this.insert(entry);
+      return;
+    }
+
+    this.insert({
+      conditionId: trigger.conditionId,
+      priority: trigger.priority,
+      triggers: [trigger],
+      enqueuedAt: trigger.detectedAt,
+    });
+  }
+
+  /**
+   * Remove and return the highest-priority market
+   */
+  dequeue(): QueuedReanalysis | undefined {
+    return this.entries.shift();
+  }
+
+  peek(): QueuedReanalysis | undefined {
+    return this.entries[0];
+  }
+
+  has(conditionId: string): boolean {
+    return this.entries.some((entry) => entry.conditionId === conditionId);
+  }
+
+  size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Queued markets in priority order
+   */
+  toArray(): QueuedReanalysis[] {
+    return [...this.entries];
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+
+  private insert(entry: QueuedReanalysis): void {
+    const index = this.entries.findIndex(
+      (other) =>
+        other.priority < entry.priority ||
+        (other.priority === entry.priority && other.enqueuedAt > entry.enqueuedAt)
+    );
+    if (index < 0) {
+      this.entries.push(entry);
+    } else {
+      this.entries.splice(index, 0, entry);
+    }
+  }
+}
+
+// ============================================================================
+// Trigger Engine
+// ============================================================================
+
+/**
+ * Evaluates tracked markets against all triggers, applies per-trigger
+ * cooldowns and queues the markets that fired
+ */
+export class ReanalysisTriggerEngine {
+  readonly queue = new ReanalysisQueue();
+  private lastFired = new Map<string, number>();
+
+  constructor(private options: ReanalysisTriggerOptions = DEFAULT_REANALYSIS_TRIGGER_OPTIONS) {}
+
+  /**
+   * Evaluate markets and queue every trigger that is not cooling down
+   *
+   * @param markets - Tracked markets with their baselines
+   * @param articles - Breaking-news articles to match against market keywords
+   * @returns Triggers fired by this evaluation
+   */
+  evaluate(
+    markets: TrackedMarketState[],
+    articles: TriggerNewsArticle[] = [],
+    now: number = Date.now()
+  ): ReanalysisTrigger[] {
+    const fired: ReanalysisTrigger[] = [];
+
+    for (const market of markets) {
+      const triggers = [
+        detectPriceMove(market, this.options, now),
+        detectVolumeSpike(market, this.options, now),
+        detectBreakingNews(market, articles, this.options, now),
+        detectExpiryApproaching(market, this.options, now),
+      ];
+
+      for (const trigger of triggers) {
+        if (!trigger || this.isCoolingDown(trigger, now)) {
+          continue;
+        }
+
+        this.lastFired.set(this.cooldownKey(trigger), now);
+        this.queue.enqueue(trigger);
+        fired.push(trigger);
+      }
+    }
+
+    return fired;
+  }
+
+  private isCoolingDown(trigger: ReanalysisTrigger, now: number): boolean {
+    const last = this.lastFired.get(this.cooldownKey(trigger));
+    const cooldownMs = this.options.cooldownMinutes[trigger.type] * 60 * 1000;
+    return last !== undefined && now - last < cooldownMs;
+  }
+
+  private cooldownKey(trigger: ReanalysisTrigger): string {
+    return `${trigger.conditionId}:${trigger.type}`;
+  }
+}
+
+/**
+ * Create a trigger engine from engine configuration
+ */
+export function createReanalysisTriggerEngine(
+  config?: EngineConfig['triggers']
+): ReanalysisTriggerEngine {
+  const defaults = DEFAULT_REANALYSIS_TRIGGER_OPTIONS;
+
+  return new ReanalysisTriggerEngine({
+    priceMoveThreshold: config?.priceMoveThreshold ?? defaults.priceMoveThreshold,
+    volumeSpikeMultiplier: config?.volumeSpikeMultiplier ?? defaults.volumeSpikeMultiplier,
+    newsRelevanceThreshold: config?.newsRelevanceThreshold ?? defaults.newsRelevanceThreshold,
+    expiryWindowHours: config?.expiryWindowHours ?? defaults.expiryWindowHours,
+    cooldownMinutes: {
+      ...defaults.cooldownMinutes,
+      ...config?.cooldownMinutes,
+    },
+  });
+}
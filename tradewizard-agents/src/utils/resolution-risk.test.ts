@@ -0,0 +1,107 @@
+/**
+ * Unit tests for resolution-criteria risk analysis
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { MarketBriefingDocument } from '../models/types.js';
+import {
+  analyzeResolutionRisk,
+  applyResolutionRiskToLiquidity,
+  combineRiskFactors,
+  mergeResolutionFailureScenarios,
+  parseResolutionCriteria,
+} from './resolution-risk.js';
+
+const createMBD = (question: string, resolutionCriteria: string): MarketBriefingDocument => ({
+  marketId: 'market-1',
+  conditionId: 'condition-1',
+  eventType: 'election',
+  question,
+  resolutionCriteria,
+  expiryTimestamp: Date.now() + 86400000,
+  currentProbability: 0.5,
+  liquidityScore: 6,
+  bidAskSpread: 2,
+  volatilityRegime: 'medium',
+  volume24h: 5000,
+  metadata: { ambiguityFlags: [], keyCatalysts: [] },
+});
+
+const WELL_SPECIFIED =
+  'This market resolves YES if the candidate is declared the winner as certified by the ' +
+  'Federal Election Commission by December 31, 2026, 11:59 PM ET. If the election is postponed or the result is ' +
+  'overturned in a recount, the market resolves according to the final certified result. ' +
+  'Resolution source is https://www.fec.gov/results.';
+
+const VAGUE =
+  'Resolves YES if the candidate makes a significant policy announcement soon, based on ' +
+  'credible reporting. The market may be resolved at the sole discretion of the resolver.';
+
+describe('Resolution Risk', () => {
+  it('should parse sources, deadline, edge cases and conditional clauses', () => {
+    const conditions = parseResolutionCriteria(WELL_SPECIFIED);
+
+    expect(conditions.sourcesOfTruth).toContain('Federal Election Commission');
+    expect(conditions.sourcesOfTruth).toContain('https://www.fec.gov/results');
+    expect(conditions.deadline).toMatchObject({
+      text: 'December 31, 2026, 11:59 PM ET',
+      timezone: 'ET',
+      timestamp: Date.parse('December 31, 2026'),
+    });
+    expect(conditions.edgeCases).toHaveLength(1);
+    expect(conditions.edgeCases[0]).toContain('postponed');
+    expect(conditions.conditionalClauses).toHaveLength(2);
+  });
+
+  it('should score vague criteria above well-specified criteria', () => {
+    const specified = analyzeResolutionRisk(createMBD('Will the candidate win?', WELL_SPECIFIED));
+    const vague = analyzeResolutionRisk(createMBD('Will the candidate announce?', VAGUE));
+
+    expect(specified.level).toBe('low');
+    expect(vague.level).toBe('high');
+    expect(vague.disputeRiskScore).toBeGreaterThan(specified.disputeRiskScore);
+    expect(vague.factors.map((factor) => factor.factor)).toEqual(
+      expect.arrayContaining(['vague_source', 'no_deadline', 'resolver_discretion', 'vague_timing'])
+    );
+    expect(vague.failureScenarios.length).toBeGreaterThan(0);
+    expect(vague.failureScenarios.length).toBeLessThanOrEqual(3);
+  });
+
+  it('should flag a deadline with a time but no timezone', () => {
+    const assessment = analyzeResolutionRisk(
+      createMBD('Will the bill pass?', 'Resolves YES if the bill passes by March 5, 2026 at 5 PM.')
+    );
+
+    expect(assessment.conditions.deadline?.timezone).toBeUndefined();
+    expect(assessment.factors.map((factor) => factor.factor)).toContain(
+      'deadline_without_timezone'
+    );
+  });
+
+  it('should combine factors as independent risks', () => {
+    expect(
+      combineRiskFactors([
+        { factor: 'a', weight: 0.1, detail: '' },
+        { factor: 'b', weight: 0.2, detail: '' },
+      ])
+    ).toBeCloseTo(0.28);
+    expect(combineRiskFactors([])).toBe(0);
+  });
+
+  it('should raise liquidity risk and add failure scenarios only for risky markets', () => {
+    const specified = analyzeResolutionRisk(createMBD('Will the candidate win?', WELL_SPECIFIED));
+    const vague = analyzeResolutionRisk(createMBD('Will the candidate announce?', VAGUE));
+
+    expect(applyResolutionRiskToLiquidity('low', vague)).toBe('medium');
+    expect(applyResolutionRiskToLiquidity('medium', vague)).toBe('high');
+    expect(applyResolutionRiskToLiquidity('low', specified)).toBe('low');
+    expect(applyResolutionRiskToLiquidity('low', null)).toBe('low');
+
+    const existing = ['Polling error exceeds 5 points'];
+    expect(mergeResolutionFailureScenarios(existing, specified)).toEqual(existing);
+    const merged = mergeResolutionFailureScenarios(existing, vague);
+    expect(merged[0]).toBe(existing[0]);
+    expect(merged.slice(1)).toEqual(vague.failureScenarios);
+    expect(mergeResolutionFailureScenarios(merged, vague)).toEqual(merged);
+  });
+});
@@ -0,0 +1,383 @@
+/**
+ * Resolution Risk Analysis
+ *
+ * Parses a market's resolution criteria into structured conditions (source of
+ * truth, deadline, edge cases, conditional clauses) and scores the probability
+ * that the market resolves in a disputed or surprising way.
+ *
+ * Each risk factor carries the probability that it alone causes a disputed or
+ * surprising resolution; factors are combined as independent risks:
+ * score = 1 - prod(1 - weight). The assessment feeds the tail-risk agent, the
+ * recommendation's liquidity risk and its failure scenarios.
+ */
+
+import type {
+  LiquidityRisk,
+  MarketBriefingDocument,
+  ResolutionConditions,
+  ResolutionRiskAssessment,
+  ResolutionRiskFactor,
+  ResolutionRiskLevel,
+} from '../models/types.js';
+
+// ============================================================================
+// Term Lists
+// ============================================================================
+
+const MONTHS =
+  'january|february|march|april|may|june|july|august|september|october|november|december';
+
+// A source name runs until punctuation or the start of a deadline ("... by December 31")
+const SOURCE_NAME = '(?:the )?([^.,;]+?)(?=\\s+(?:by|before|on|no later than|until|at)\\b|[.,;]|$)';
+
+const SOURCE_PATTERNS = [
+  new RegExp(`\\baccording to ${SOURCE_NAME}`, 'gi'),
+  new RegExp(
+    `\\b(?:reported|determined|announced|published|confirmed|certified) by ${SOURCE_NAME}`,
+    'gi'
+  ),
+  new RegExp(`\\bresolution source (?:is|will be) ${SOURCE_NAME}`, 'gi'),
+  new RegExp(
+    `\\b(?:official|primary) (?:source|website|data|results?) (?:of|from) ${SOURCE_NAME}`,
+    'gi'
+  ),
+];
+
+const URL_PATTERN = /https?:\/\/[^\s)]+/g;
+
+// Sources that leave the resolver to judge what counts
+const VAGUE_SOURCE_TERMS = [
+  'credible reporting',
+  'consensus of',
+  'reputable sources',
+  'major news outlets',
+  'widely reported',
+  'media reports',
+];
+
+const DISCRETION_TERMS = [
+  'sole discretion',
+  'at the discretion',
+  'may be resolved',
+  'may resolve',
+  'reserves the right',
+  'clarification',
+  'to be determined',
+];
+
+const SUBJECTIVE_TERMS = [
+  'significant',
+  'major',
+  'substantial',
+  'considerable',
+  'meaningful',
+  'notable',
+  'officially',
+  'publicly',
+];
+
+const VAGUE_TEMPORAL_TERMS = ['soon', 'eventually', 'shortly', 'in the near future', 'imminent'];
+
+const APPROXIMATION_TERMS = ['approximately', 'around', 'roughly', 'nearly', 'close to'];
+
+const EDGE_CASE_PATTERN =
+  /\b(postpone|cancel|delay|tie|draw|50-50|recount|overturn|void|reschedul|withdraw|disqualif|invalid|revis|does not occur|not held)/i;
+
+const CONDITIONAL_PATTERN = /\b(if|unless|provided that|in the event|except|otherwise)\b/i;
+
+const TIMEZONE_PATTERN = /\b(ET|EST|EDT|UTC|GMT|PT|PST|PDT|CT|CST|CDT)\b/;
+
+const TIME = '\\d{1,2}(?::\\d{2})?\\s*(?:am|pm|a\\.m\\.|p\\.m\\.)';
+const TIMEZONE = '(?:ET|EST|EDT|UTC|GMT|PT|PST|PDT|CT|CST|CDT)\\b';
+const DATE = `(?:${MONTHS})\\s+\\d{1,2}(?:st|nd|rd|th)?(?:,?\\s*\\d{4})?`;
+
+// "by December 31, 2025, 11:59 PM ET", "before 12:00 PM ET on March 5"
+const DEADLINE_PATTERN = new RegExp(
+  `\\b(?:by|before|on or before|no later than|until|on)\\s+((?:${TIME}\\s*(?:${TIMEZONE}\\s*)?(?:on\\s+)?)?${DATE}(?:,?\\s*(?:at\\s+)?${TIME})?(?:\\s*\\(?${TIMEZONE}\\)?)?)`,
+  'i'
+);
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function splitClauses(text: string): string[] {
+  return text
+    .split(/(?<=[.;!?])\s+|\n+/)
+    .map((clause) => clause.trim())
+    .filter((clause) => clause.length > 0);
+}
+
+function findTerms(text: string, terms: string[]): string[] {
+  return terms.filter((term) => new RegExp(`\\b${term}\\b`, 'i').test(text));
+}
+
+function extractSources(criteria: string): string[] {
+  const sources = new Set<string>();
+
+  for (const pattern of SOURCE_PATTERNS) {
+    for (const match of criteria.matchAll(pattern)) {
+      // URLs are picked up whole below
+      if (!/^https?:/i.test(match[1])) {
+        sources.add(match[1].trim().replace(/\s+/g, ' '));
+      }
+    }
+  }
+  for (const url of criteria.match(URL_PATTERN) ?? []) {
+    sources.add(url.replace(/[.,;]+$/, ''));
+  }
+
+  return [...sources];
+}
+
+function extractDeadline(criteria: string): ResolutionConditions['deadline'] {
+  const match = criteria.match(DEADLINE_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const text = match[1].trim();
+  const timezone = text.match(TIMEZONE_PATTERN)?.[1];
+  const date = text.match(new RegExp(`(?:${MONTHS})\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s*\\d{4}`, 'i'));
+  const timestamp = date ? Date.parse(date[0].replace(/(\d)(st|nd|rd|th)/i, '$1')) : NaN;
+
+  return {
+    text,
+    ...(Number.isFinite(timestamp) && { timestamp }),
+    ...(timezone && { timezone }),
+  };
+}
+
+/**
+ * Parse resolution criteria into structured conditions
+ *
+ * @param resolutionCriteria - Resolution criteria text from the market
+ * @returns Sources of truth, deadline, edge-case and conditional clauses
+ */
+export function parseResolutionCriteria(resolutionCriteria: string): ResolutionConditions {
+  const clauses = splitClauses(resolutionCriteria);
+
+  return {
+    sourcesOfTruth: extractSources(resolutionCriteria),
+    deadline: extractDeadline(resolutionCriteria),
+    edgeCases: clauses.filter((clause) => EDGE_CASE_PATTERN.test(clause)),
+    conditionalClauses: clauses.filter((clause) => CONDITIONAL_PATTERN.test(clause)),
+  };
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Combine independent factor weights into a single probability
+ */
+export function combineRiskFactors(factors: ResolutionRiskFactor[]): number {
+  return 1 - factors.reduce((remaining, factor) => remaining * (1 - factor.weight), 1);
+}
+
+/**
+ * Map a dispute risk score to a level
+ */
+export function getResolutionRiskLevel(score: number): ResolutionRiskLevel {
+  if (score >= 0.25) return 'high';
+  if (score >= 0.1) return 'medium';
+  return 'low';
+}
+
+// Failure scenario text per factor, phrased for the recommendation
+const FAILURE_SCENARIOS: Record<string, string> = {
+  no_source_of_truth:
+    'No resolution source is named, so the outcome can be disputed even if the event clearly happens',
+  vague_source:
+    'The resolution source is left to judgment ("credible reporting"), so conflicting reports can split the resolution',
+  no_deadline:
+    'The criteria set no explicit deadline, so late events may or may not count toward resolution',
+  deadline_without_timezone:
+    'The deadline has no timezone, so an event near the cutoff can resolve either way',
+  resolver_discretion:
+    'The resolver keeps discretion over the outcome, so a clarification can override the obvious reading',
+  subjective_terms:
+    'Subjective wording leaves room for the market to resolve against the apparent outcome',
+  vague_timing: 'Vague timing language makes it unclear when the condition must be met',
+  approximation: 'Approximate thresholds can resolve on a technicality near the boundary',
+  conditional_clauses:
+    'Conditional clauses create paths where the market resolves on a technicality rather than the headline event',
+  unaddressed_edge_cases:
+    'Postponement, cancellation or revised results are not addressed, so an unusual outcome may be resolved unexpectedly',
+  sparse_criteria: 'The resolution criteria are too brief to settle unusual outcomes',
+};
+
+/**
+ * Analyze a market's resolution criteria for dispute risk
+ *
+ * @param mbd - Market Briefing Document
+ * @returns Parsed conditions, risk factors, dispute risk score and failure scenarios
+ */
+export function analyzeResolutionRisk(mbd: MarketBriefingDocument): ResolutionRiskAssessment {
+  const criteria = mbd.resolutionCriteria ?? '';
+  const combinedText = `${mbd.question} ${criteria}`;
+  const conditions = parseResolutionCriteria(criteria);
+  const factors: ResolutionRiskFactor[] = [];
+
+  const vagueSources = findTerms(criteria, VAGUE_SOURCE_TERMS);
+  if (vagueSources.length > 0) {
+    factors.push({
+      factor: 'vague_source',
+      weight: 0.08,
+      detail: `Resolution source left to judgment: ${vagueSources.join(', ')}`,
+    });
+  } else if (conditions.sourcesOfTruth.length === 0) {
+    factors.push({
+      factor: 'no_source_of_truth',
+      weight: 0.08,
+      detail: 'No resolution source named in the criteria',
+    });
+  }
+
+  if (!conditions.deadline) {
+    factors.push({
+      factor: 'no_deadline',
+      weight: 0.05,
+      detail: 'No explicit deadline in the resolution criteria',
+    });
+  } else if (
+    !conditions.deadline.timezone &&
+    /\d{1,2}(?::\d{2})?\s*(?:am|pm)/i.test(conditions.deadline.text)
+  ) {
+    factors.push({
+      factor: 'deadline_without_timezone',
+      weight: 0.03,
+      detail: `Deadline "${conditions.deadline.text}" has a time but no timezone`,
+    });
+  }
+
+  const discretion = findTerms(criteria, DISCRETION_TERMS);
+  if (discretion.length > 0) {
+    factors.push({
+      factor: 'resolver_discretion',
+      weight: 0.06,
+      detail: `Resolver discretion: ${discretion.join(', ')}`,
+    });
+  }
+
+  const subjective = findTerms(combinedText, SUBJECTIVE_TERMS);
+  if (subjective.length > 0) {
+    factors.push({
+      factor: 'subjective_terms',
+      weight: Math.min(0.15, 0.05 * subjective.length),
+      detail: `Subjective terms: ${subjective.join(', ')}`,
+    });
+  }
+
+  const vagueTiming = findTerms(combinedText, VAGUE_TEMPORAL_TERMS);
+  if (vagueTiming.length > 0) {
+    factors.push({
+      factor: 'vague_timing',
+      weight: 0.05,
+      detail: `Vague timing: ${vagueTiming.join(', ')}`,
+    });
+  }
+
+  const approximations = findTerms(combinedText, APPROXIMATION_TERMS);
+  if (approximations.length > 0) {
+    factors.push({
+      factor: 'approximation',
+      weight: 0.04,
+      detail: `Approximate thresholds: ${approximations.join(', ')}`,
+    });
+  }
+
+  if (conditions.conditionalClauses.length > 0) {
+    factors.push({
+      factor: 'conditional_clauses',
+      weight: Math.min(0.12, 0.03 * conditions.conditionalClauses.length),
+      detail: `${conditions.conditionalClauses.length} conditional clause(s)`,
+    });
+  }
+
+  if (criteria.length < 80) {
+    factors.push({
+      factor: 'sparse_criteria',
+      weight: 0.05,
+      detail: `Resolution criteria are ${criteria.length} characters long`,
+    });
+  } else if (conditions.edgeCases.length === 0) {
+    factors.push({
+      factor: 'unaddressed_edge_cases',
+      weight: 0.04,
+      detail: 'No clause covers postponement, cancellation, ties or revised results',
+    });
+  }
+
+  factors.sort((a, b) => b.weight - a.weight);
+  const disputeRiskScore = combineRiskFactors(factors);
+
+  return {
+    conditions,
+    factors,
+    disputeRiskScore,
+    level: getResolutionRiskLevel(disputeRiskScore),
+    failureScenarios: factors
+      .filter((factor) => factor.weight >= 0.05)
+      .slice(0, 3)
+      .map((factor) => FAILURE_SCENARIOS[factor.factor]),
+  };
+}
+
+// ============================================================================
+// Downstream Use
+// ============================================================================
+
+/**
+ * Raise liquidity risk for markets likely to be disputed
+ *
+ * Order books thin out while a resolution is contested, so a high dispute
+ * risk raises liquidity risk by one level.
+ */
+export function applyResolutionRiskToLiquidity(
+  liquidityRisk: LiquidityRisk,
+  assessment: ResolutionRiskAssessment | null | undefined
+): LiquidityRisk {
+  if (!assessment || assessment.level !== 'high') {
+    return liquidityRisk;
+  }
+  return liquidityRisk === 'low' ? 'medium' : 'high';
+}
+
+/**
+ * Add resolution failure scenarios to a recommendation's failure scenarios
+ *
+ * Low-risk markets are left unchanged.
+ */
+export function mergeResolutionFailureScenarios(
+  failureScenarios: string[],
+  assessment: ResolutionRiskAssessment | null | undefined
+): string[] {
+  if (!assessment || assessment.level === 'low') {
+    return failureScenarios;
+  }
+  return [
+    ...failureScenarios,
+    ...assessment.failureScenarios.filter((scenario) => !failureScenarios.includes(scenario)),
+  ];
+}
+
+/**
+ * Format an assessment as prompt context for agents
+ */
+export function formatResolutionRiskContext(assessment: ResolutionRiskAssessment): string {
+  const { conditions } = assessment;
+  const lines = [
+    `Dispute risk: ${(assessment.disputeRiskScore * 100).toFixed(0)}% (${assessment.level})`,
+    `Sources of truth: ${conditions.sourcesOfTruth.join('; ') || 'none named'}`,
+    `Deadline: ${conditions.deadline ? `${conditions.deadline.text}${conditions.deadline.timezone ? '' : ' (no timezone)'}` : 'none stated'}`,
+    `Edge cases covered: ${conditions.edgeCases.length > 0 ? conditions.edgeCases.join(' | ') : 'none'}`,
+    `Conditional clauses: ${conditions.conditionalClauses.length > 0 ? conditions.conditionalClauses.join(' | ') : 'none'}`,
+    ...assessment.factors.map(
+      (factor) => `- ${factor.detail} (+${(factor.weight * 100).toFixed(0)}%)`
+    ),
+  ];
+
+  return lines.join('\n');
+}
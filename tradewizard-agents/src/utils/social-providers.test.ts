@@ -0,0 +1,286 @@
+/**
+ * Unit tests for social sentiment providers
+ *
+ * Adapters are exercised against a local HTTP fixture server.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { MarketBriefingDocument } from '../models/types.js';
+import { DataIntegrationLayer } from './data-integration.js';
+import {
+  JsonFeedSocialProvider,
+  RedditSocialProvider,
+  SocialProviderError,
+  aggregateSocialSentiment,
+  buildSocialQueryTerms,
+  scoreTextSentiment,
+  type SocialMention,
+} from './social-providers.js';
+
+const NOW = Date.now();
+
+const redditFixture = {
+  kind: 'Listing',
+  data: {
+    children: [
+      {
+        kind: 't3',
+        data: {
+          title: 'Candidate surges in new polls, strong momentum',
+          selftext: 'Looking likely to win the primary',
+          author: 'poll_watcher',
+          subreddit: 'politics',
+          permalink: '/r/politics/comments/abc/candidate_surges/',
+          score: 420,
+          num_comments: 80,
+          created_utc: Math.floor((NOW - 60 * 60 * 1000) / 1000),
+        },
+      },
+      {
+        kind: 't3',
+        data: {
+          title: 'Campaign hit by scandal, support falling',
+          selftext: '',
+          author: 'skeptic',
+          subreddit: 'politics',
+          permalink: '/r/politics/comments/def/campaign_scandal/',
+          score: 10,
+          num_comments: 2,
+          created_utc: Math.floor((NOW - 20 * 60 * 60 * 1000) / 1000),
+        },
+      },
+    ],
+  },
+};
+
+const jsonFeedFixture = {
+  version: 'https://jsonfeed.org/version/1.1',
+  title: 'Mentions',
+  items: [
+    {
+      id: '1',
+      content_text: 'Primary win looks likely after debate',
+      date_published: new Date(NOW - 30 * 60 * 1000).toISOString(),
+      url: 'https://example.com/1',
+      author: { name: 'alice' },
+      engagement: 15,
+    },
+    { id: '2', content_text: 'Missing timestamp is skipped' },
+  ],
+};
+
+describe('Social Providers', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: Array<{ url: string; authorization?: string }>;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push({ url: req.url ?? '', authorization: req.headers.authorization });
+      const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+      const routes: Record<string, unknown> = {
+        '/search.json': redditFixture,
+        '/feed.json': jsonFeedFixture,
+        '/array.json': [{ text: 'Bare array item', created_at: NOW, likes: 3 }],
+      };
+
+      if (path in routes) {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(routes[path]));
+      } else if (path === '/invalid.json') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end('{not json');
+      } else {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'not found' }));
+      }
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  const query = { marketId: 'test-market', terms: ['candidate', 'primary'], maxMentions: 50 };
+
+  describe('RedditSocialProvider', () => {
+    it('should query the search endpoint and map listing children', async () => {
+      const provider = new RedditSocialProvider({ baseUrl });
+
+      const mentions = await provider.fetchMentions(query);
+
+      expect(requests[0].url).toContain('/search.json?q=candidate+primary&sort=new');
+      expect(mentions).toHaveLength(2);
+      expect(mentions[0]).toMatchObject({
+        platform: 'reddit',
+        engagement: 500,
+        author: 'poll_watcher',
+        community: 'politics',
+        url: `${baseUrl}/r/politics/comments/abc/candidate_surges/`,
+      });
+      expect(mentions[0].text).toContain('Looking likely to win');
+      expect(Math.abs(mentions[0].createdAt - (NOW - 60 * 60 * 1000))).toBeLessThan(1000);
+    });
+
+    it('should raise SocialProviderError with the HTTP status', async () => {
+      const provider = new RedditSocialProvider({ baseUrl: `${baseUrl}/missing` });
+
+      const error = await provider.fetchMentions(query).catch((e) => e);
+
+      expect(error).toBeInstanceOf(SocialProviderError);
+      expect(error.statusCode).toBe(404);
+      expect(error.message).toContain('HTTP 404');
+    });
+  });
+
+  describe('JsonFeedSocialProvider', () => {
+    it('should parse JSON Feed items and send the API key', async () => {
+      const provider = new JsonFeedSocialProvider(`${baseUrl}/feed.json`, { apiKey: 'secret' });
+
+      const mentions = await provider.fetchMentions(query);
+
+      expect(requests[0].authorization).toBe('Bearer secret');
+      expect(requests[0].url).toContain('q=candidate+primary');
+      expect(mentions).toEqual([
+        {
+          platform: 'jsonfeed',
+          text: 'Primary win looks likely after debate',
+          createdAt: NOW - 30 * 60 * 1000,
+          engagement: 15,
+          author: 'alice',
+          url: 'https://example.com/1',
+        },
+      ]);
+    });
+
+    it('should accept bare arrays', async () => {
+      const provider = new JsonFeedSocialProvider(`${baseUrl}/array.json`);
+
+      const mentions = await provider.fetchMentions(query);
+
+      expect(mentions).toHaveLength(1);
+      expect(mentions[0]).toMatchObject({ text: 'Bare array item', createdAt: NOW, engagement: 3 });
+    });
+
+    it('should reject invalid JSON', async () => {
+      const provider = new JsonFeedSocialProvider(`${baseUrl}/invalid.json`);
+
+      await expect(provider.fetchMentions(query)).rejects.toThrow('invalid JSON');
+    });
+  });
+
+  describe('normalization', () => {
+    it('should score sentiment with negation', () => {
+      expect(scoreTextSentiment('Strong momentum, likely to win')).toBe(1);
+      expect(scoreTextSentiment('Support is falling after the scandal')).toBeLessThan(0);
+      expect(scoreTextSentiment('They will not win')).toBe(-1);
+      expect(scoreTextSentiment('Nothing to see here')).toBe(0);
+    });
+
+    it('should aggregate mentions into SocialSentiment', () => {
+      const mention = (text: string, hoursAgo: number, engagement = 0): SocialMention => ({
+        platform: 'reddit',
+        text,
+        createdAt: NOW - hoursAgo * 60 * 60 * 1000,
+        engagement,
+      });
+
+      const sentiment = aggregateSocialSentiment(
+        {
+          reddit: [
+            mention('Candidate surges, strong lead', 1, 1000),
+            mention('Candidate surges again', 2),
+            mention('Campaign scandal', 20),
+          ],
+          jsonfeed: [],
+        },
+        ['candidate'],
+        24 * 60 * 60 * 1000,
+        NOW
+      );
+
+      expect(sentiment.platforms.reddit.volume).toBe(3);
+      expect(sentiment.platforms.reddit.sentiment).toBeGreaterThan(0.3);
+      expect(sentiment.platforms.reddit.viralScore).toBeCloseTo(2 / 3);
+      expect(sentiment.platforms.reddit.topKeywords[0]).toBe('surges');
+      expect(sentiment.platforms.reddit.topKeywords).not.toContain('candidate');
+      expect(sentiment.platforms.jsonfeed.volume).toBe(0);
+      expect(sentiment.overallSentiment).toBeCloseTo(sentiment.platforms.reddit.sentiment);
+      // 2 recent vs 1 older mention
+      expect(sentiment.narrativeVelocity).toBe(1);
+    });
+
+    it('should prefer briefing keywords for query terms', () => {
+      const base = { question: 'Will the Senate pass the budget bill before 2025?' } as MarketBriefingDocument;
+
+      expect(buildSocialQueryTerms(base)).toEqual(['senate', 'pass', 'budget', 'bill']);
+      expect(buildSocialQueryTerms({ ...base, keywords: ['senate budget'] })).toEqual(['senate budget']);
+    });
+  });
+
+  describe('DataIntegrationLayer.fetchSocialSentiment', () => {
+    const market = {
+      marketId: 'social-market',
+      conditionId: 'social-condition',
+      question: 'Will the candidate win the primary?',
+      keywords: ['candidate primary'],
+    } as MarketBriefingDocument;
+
+    const createLayer = (endpoints: Record<string, string>): DataIntegrationLayer =>
+      new DataIntegrationLayer({
+        news: { provider: 'none', cacheTTL: 900, maxArticles: 20 },
+        polling: { provider: 'none', cacheTTL: 3600 },
+        social: { providers: ['reddit', 'jsonfeed'], endpoints, cacheTTL: 300, maxMentions: 100 },
+      });
+
+    it('should combine configured providers and cache the result', async () => {
+      const layer = createLayer({ reddit: baseUrl, jsonfeed: `${baseUrl}/feed.json` });
+
+      const sentiment = await layer.fetchSocialSentiment(market);
+      const again = await layer.fetchSocialSentiment(market);
+
+      expect(sentiment).not.toBeNull();
+      expect(Object.keys(sentiment!.platforms).sort()).toEqual(['jsonfeed', 'reddit']);
+      expect(sentiment!.platforms.reddit.volume).toBe(2);
+      expect(sentiment!.platforms.jsonfeed.volume).toBe(1);
+      expect(again).toEqual(sentiment);
+      expect(requests).toHaveLength(2);
+      expect(layer.getDataFreshness('social', 'social-market')).not.toBeNull();
+    });
+
+    it('should keep working when one provider fails', async () => {
+      const layer = createLayer({ reddit: `${baseUrl}/missing`, jsonfeed: `${baseUrl}/feed.json` });
+
+      const sentiment = await layer.fetchSocialSentiment(market);
+
+      expect(Object.keys(sentiment!.platforms)).toEqual(['jsonfeed']);
+    });
+
+    it('should return null when every provider fails', async () => {
+      const layer = createLayer({ reddit: `${baseUrl}/missing`, jsonfeed: `${baseUrl}/missing.json` });
+
+      expect(await layer.fetchSocialSentiment(market)).toBeNull();
+    });
+
+    it('should skip platforms without an adapter', async () => {
+      const layer = new DataIntegrationLayer({
+        news: { provider: 'none', cacheTTL: 900, maxArticles: 20 },
+        polling: { provider: 'none', cacheTTL: 3600 },
+        social: { providers: ['twitter', 'jsonfeed'], cacheTTL: 300, maxMentions: 100 },
+      });
+
+      expect(await layer.fetchSocialSentiment(market)).toBeNull();
+      expect(requests).toHaveLength(0);
+    });
+  });
+});
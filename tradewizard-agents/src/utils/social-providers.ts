@@ -0,0 +1,493 @@
+/**
+ * Social Sentiment Providers
+ *
+ * Pluggable adapters that fetch raw social mentions for a market and a
+ * normalizer that turns them into the SocialSentiment shape consumed by the
+ * sentiment & narrative agents. Rate limiting, caching and circuit breaking are
+ * handled by DataIntegrationLayer; providers only perform the HTTP request and
+ * map the response.
+ *
+ * Built-in adapters:
+ * - reddit: Reddit-style search API (`/search.json` listing)
+ * - jsonfeed: Generic JSON feed (JSON Feed 1.1 `items`, `{ data: [...] }` or a bare array)
+ */
+
+import type { MarketBriefingDocument, MarketId } from '../models/types.js';
+import type { DataSourceConfig, SocialSentiment } from './data-integration.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A single normalized social media mention
+ */
+export interface SocialMention {
+  platform: string;
+  text: string;
+  createdAt: number; // Unix timestamp (ms)
+  engagement: number; // Upvotes, likes, etc.
+  author?: string;
+  url?: string;
+  community?: string; // Subreddit, channel, etc.
+}
+
+/**
+ * Query passed to social providers
+ */
+export interface SocialProviderQuery {
+  marketId: MarketId;
+  terms: string[];
+  maxMentions: number;
+}
+
+/**
+ * Social provider interface
+ */
+export interface SocialProvider {
+  readonly platform: string;
+  fetchMentions(query: SocialProviderQuery): Promise<SocialMention[]>;
+}
+
+/**
+ * Settings shared by the HTTP adapters
+ */
+export interface SocialProviderOptions {
+  baseUrl?: string;
+  apiKey?: string;
+  timeoutMs?: number;
+  userAgent?: string;
+}
+
+/**
+ * Factory used to construct a provider from the social data source config
+ */
+export type SocialProviderFactory = (
+  config: DataSourceConfig['social']
+) => SocialProvider | null;
+
+/**
+ * Error raised when a provider request fails
+ *
+ * The message includes the HTTP status so retry logic can classify it.
+ */
+export class SocialProviderError extends Error {
+  constructor(
+    message: string,
+    public platform: string,
+    public statusCode?: number
+  ) {
+    super(message);
+    this.name = 'SocialProviderError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_USER_AGENT = 'tradewizard-agents/1.0';
+
+// ============================================================================
+// HTTP Helper
+// ============================================================================
+
+async function fetchJson(
+  platform: string,
+  url: string,
+  options: SocialProviderOptions
+): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: {
+        Accept: 'application/json',
+        'User-Agent': options.userAgent ?? DEFAULT_USER_AGENT,
+        ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+      },
+      signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new SocialProviderError(
+      `${platform} request failed: network error: ${error instanceof Error ? error.message : String(error)}`,
+      platform
+    );
+  }
+
+  if (!response.ok) {
+    throw new SocialProviderError(
+      `${platform} request failed: HTTP ${response.status} ${response.statusText}`,
+      platform,
+      response.status
+    );
+  }
+
+  try {
+    return await response.json();
+  } catch {
+    throw new SocialProviderError(`${platform} returned invalid JSON`, platform, response.status);
+  }
+}
+
+function toTimestamp(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    // Seconds vs milliseconds
+    return value < 1e12 ? value * 1000 : value;
+  }
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  return null;
+}
+
+// ============================================================================
+// Reddit Adapter
+// ============================================================================
+
+interface RedditListing {
+  data?: {
+    children?: Array<{
+      data?: {
+        title?: string;
+        selftext?: string;
+        author?: string;
+        subreddit?: string;
+        permalink?: string;
+        score?: number;
+        num_comments?: number;
+        created_utc?: number;
+      };
+    }>;
+  };
+}
+
+/**
+ * Reddit-style search adapter
+ *
+ * Queries `{baseUrl}/search.json?q=...&sort=new` and maps listing children to
+ * mentions. Engagement is score plus comment count.
+ */
+export class RedditSocialProvider implements SocialProvider {
+  readonly platform = 'reddit';
+
+  constructor(private options: SocialProviderOptions = {}) {}
+
+  async fetchMentions(query: SocialProviderQuery): Promise<SocialMention[]> {
+    const baseUrl = (this.options.baseUrl ?? 'https://www.reddit.com').replace(/\/$/, '');
+    const params = new URLSearchParams({
+      q: query.terms.join(' '),
+      sort: 'new',
+      t: 'week',
+      limit: String(Math.min(query.maxMentions, 100)),
+    });
+
+    const body = (await fetchJson(
+      this.platform,
+      `${baseUrl}/search.json?${params.toString()}`,
+      this.options
+    )) as RedditListing;
+
+    const mentions: SocialMention[] = [];
+    for (const child of body.data?.children ?? []) {
+      const post = child.data;
+      const createdAt = toTimestamp(post?.created_utc);
+      if (!post || createdAt === null) {
+        continue;
+      }
+      mentions.push({
+        platform: this.platform,
+        text: [post.title, post.selftext].filter(Boolean).join('\n'),
+        createdAt,
+        engagement: Math.max(0, (post.score ?? 0) + (post.num_comments ?? 0)),
+        author: post.author,
+        url: post.permalink ? `${baseUrl}${post.permalink}` : undefined,
+        community: post.subreddit,
+      });
+    }
+
+    return mentions.slice(0, query.maxMentions);
+  }
+}
+
+// ============================================================================
+// Generic JSON Feed Adapter
+// ============================================================================
+
+type FeedItem = Record<string, unknown>;
+
+/**
+ * Generic JSON feed adapter
+ *
+ * Requests `{url}?q=...&limit=...` and accepts JSON Feed 1.1 (`items`),
+ * `{ data: [...] }` or a bare array. Each item is read from common field
+ * names: text (`content_text`, `text`, `title`, `summary`), time
+ * (`date_published`, `created_at`, `timestamp`) and engagement (`engagement`,
+ * `score`, `likes`).
+ */
+export class JsonFeedSocialProvider implements SocialProvider {
+  constructor(
+    private url: string,
+    private options: SocialProviderOptions = {},
+    readonly platform: string = 'jsonfeed'
+  ) {}
+
+  async fetchMentions(query: SocialProviderQuery): Promise<SocialMention[]> {
+    const feedUrl = new URL(this.url);
+    feedUrl.searchParams.set('q', query.terms.join(' '));
+    feedUrl.searchParams.set('limit', String(query.maxMentions));
+
+    const body = await fetchJson(this.platform, feedUrl.toString(), this.options);
+    const items: unknown[] = Array.isArray(body)
+      ? body
+      : ((body as { items?: unknown[]; data?: unknown[] }).items ??
+        (body as { data?: unknown[] }).data ??
+        []);
+
+    const mentions: SocialMention[] = [];
+    for (const raw of items) {
+      if (!raw || typeof raw !== 'object') {
+        continue;
+      }
+      const item = raw as FeedItem;
+      const text = [item.content_text, item.text, item.title, item.summary].find(
+        (value): value is string => typeof value === 'string' && value.length > 0
+      );
+      const createdAt = toTimestamp(item.date_published ?? item.created_at ?? item.timestamp);
+      if (!text || createdAt === null) {
+        continue;
+      }
+      const engagement = [item.engagement, item.score, item.likes].find(
+        (value): value is number => typeof value === 'number'
+      );
+      const author = item.author as { name?: string } | string | undefined;
+
+      mentions.push({
+        platform: this.platform,
+        text,
+        createdAt,
+        engagement: Math.max(0, engagement ?? 0),
+        author: typeof author === 'string' ? author : author?.name,
+        url: typeof item.url === 'string' ? item.url : undefined,
+      });
+    }
+
+    return mentions.slice(0, query.maxMentions);
+  }
+}
+
+// ============================================================================
+// Provider Registry
+// ============================================================================
+
+const providerFactories = new Map<string, SocialProviderFactory>([
+  [
+    'reddit',
+    (config): SocialProvider =>
+      new RedditSocialProvider({
+        baseUrl: config.endpoints?.reddit,
+        apiKey: config.apiKeys?.reddit,
+      }),
+  ],
+  [
+    'jsonfeed',
+    (config): SocialProvider | null =>
+      config.endpoints?.jsonfeed
+        ? new JsonFeedSocialProvider(config.endpoints.jsonfeed, { apiKey: config.apiKeys?.jsonfeed })
+        : null,
+  ],
+]);
+
+/**
+ * Register (or replace) a social provider factory
+ *
+ * @param platform - Platform name used in `externalData.social.providers`
+ * @param factory - Factory creating the provider from config
+ */
+export function registerSocialProvider(platform: string, factory: SocialProviderFactory): void {
+  providerFactories.set(platform, factory);
+}
+
+/**
+ * Create the provider for a platform
+ *
+ * @returns Provider instance, or null if no adapter is registered or it is not configured
+ */
+export function createSocialProvider(
+  platform: string,
+  config: DataSourceConfig['social']
+): SocialProvider | null {
+  const factory = providerFactories.get(platform);
+  return factory ? factory(config) : null;
+}
+
+// ============================================================================
+// Normalization
+// ============================================================================
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'before', 'by', 'for', 'from', 'has', 'have',
+  'in', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'will',
+  'with', 'would', 'what', 'when', 'who', 'which', 'than', 'more', 'end', 'yes', 'no',
+  'i', 'you', 'he', 'she', 'they', 'we', 'my', 'your', 'our', 'their', 'his', 'her',
+  'not', 'but', 'if', 'so', 'just', 'about', 'all', 'can', 'do', 'does', 'did', 'get',
+  'http', 'https', 'www', 'com',
+]);
+
+const POSITIVE_WORDS = new Set([
+  'win', 'wins', 'winning', 'won', 'lead', 'leads', 'leading', 'surge', 'surges', 'gain',
+  'gains', 'strong', 'stronger', 'likely', 'confident', 'success', 'successful', 'approve',
+  'approved', 'pass', 'passes', 'passed', 'up', 'rise', 'rising', 'boost', 'support',
+  'good', 'great', 'best', 'positive', 'optimistic', 'bullish', 'momentum',
+]);
+
+const NEGATIVE_WORDS = new Set([
+  'lose', 'loses', 'losing', 'lost', 'trail', 'trails', 'trailing', 'drop', 'drops',
+  'fall', 'falls', 'falling', 'weak', 'weaker', 'unlikely', 'doubt', 'fail', 'fails',
+  'failed', 'failure', 'reject', 'rejected', 'block', 'blocked', 'down', 'decline',
+  'scandal', 'crisis', 'bad', 'worst', 'negative', 'pessimistic', 'bearish', 'collapse',
+]);
+
+const NEGATIONS = new Set(['not', 'no', 'never', "don't", "won't", "isn't", "can't"]);
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .split(/[^a-z0-9'$%]+/)
+    .filter((token) => token.length > 0);
+}
+
+/**
+ * Build search terms for a market
+ *
+ * Uses the briefing keywords when present, otherwise the significant words of
+ * the market question.
+ *
+ * @param market - Market briefing document
+ * @param maxTerms - Maximum number of terms
+ * @returns Search terms
+ */
+export function buildSocialQueryTerms(market: MarketBriefingDocument, maxTerms: number = 5): string[] {
+  if (market.keywords && market.keywords.length > 0) {
+    return market.keywords.slice(0, maxTerms);
+  }
+
+  const terms: string[] = [];
+  for (const token of tokenize(market.question)) {
+    if (token.length > 2 && !STOP_WORDS.has(token) && !/^\d+$/.test(token) && !terms.includes(token)) {
+      terms.push(token);
+    }
+  }
+  return terms.slice(0, maxTerms);
+}
+
+/**
+ * Lexicon sentiment score for a piece of text
+ *
+ * Counts positive and negative words (flipping polarity after a negation)
+ * and returns (pos - neg) / (pos + neg), or 0 when no sentiment words appear.
+ *
+ * @param text - Text to score
+ * @returns Sentiment from -1 to 1
+ */
+export function scoreTextSentiment(text: string): number {
+  const tokens = tokenize(text);
+  let positive = 0;
+  let negative = 0;
+
+  tokens.forEach((token, index) => {
+    const polarity = POSITIVE_WORDS.has(token) ? 1 : NEGATIVE_WORDS.has(token) ? -1 : 0;
+    if (polarity === 0) {
+      return;
+    }
+    const negated = index > 0 && NEGATIONS.has(tokens[index - 1]);
+    if ((polarity > 0) !== negated) {
+      positive++;
+    } else {
+      negative++;
+    }
+  });
+
+  const total = positive + negative;
+  return total === 0 ? 0 : (positive - negative) / total;
+}
+
+function topKeywords(mentions: SocialMention[], excluded: Set<string>, count: number): string[] {
+  const frequency = new Map<string, number>();
+  for (const mention of mentions) {
+    for (const token of new Set(tokenize(mention.text))) {
+      if (token.length > 2 && !STOP_WORDS.has(token) && !excluded.has(token) && !/^\d+$/.test(token)) {
+        frequency.set(token, (frequency.get(token) ?? 0) + 1);
+      }
+    }
+  }
+  return [...frequency.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, count)
+    .map(([token]) => token);
+}
+
+/**
+ * Aggregate mentions into the SocialSentiment shape
+ *
+ * Per platform:
+ * - volume: number of mentions
+ * - sentiment: engagement-weighted mean of mention sentiment (weight 1 + ln(1 + engagement))
+ * - viralScore: share of mentions from the most recent quarter of the window
+ *   (a steady rate scores about 0.25, a fresh burst approaches 1)
+ * - topKeywords: most frequent non-query words
+ *
+ * narrativeVelocity compares mentions in the recent half of the window with the
+ * older half: (recent - older) / max(older, 1).
+ *
+ * @param mentionsByPlatform - Mentions keyed by platform
+ * @param queryTerms - Query terms (excluded from keywords)
+ * @param windowMs - Window used for velocity and virality (default: 24h)
+ * @param now - Reference time
+ * @returns Normalized social sentiment
+ */
+export function aggregateSocialSentiment(
+  mentionsByPlatform: Record<string, SocialMention[]>,
+  queryTerms: string[] = [],
+  windowMs: number = 24 * 60 * 60 * 1000,
+  now: number = Date.now()
+): SocialSentiment {
+  const excluded = new Set(queryTerms.flatMap((term) => tokenize(term)));
+  const platforms: SocialSentiment['platforms'] = {};
+  let weightedSentiment = 0;
+  let totalVolume = 0;
+  let recent = 0;
+  let older = 0;
+
+  for (const [platform, mentions] of Object.entries(mentionsByPlatform)) {
+    let weightSum = 0;
+    let sentimentSum = 0;
+    let lastQuarter = 0;
+
+    for (const mention of mentions) {
+      const weight = 1 + Math.log1p(mention.engagement);
+      weightSum += weight;
+      sentimentSum += weight * scoreTextSentiment(mention.text);
+
+      const age = now - mention.createdAt;
+      if (age <= windowMs / 4) lastQuarter++;
+      if (age <= windowMs / 2) recent++;
+      else if (age <= windowMs) older++;
+    }
+
+    const sentiment = weightSum > 0 ? sentimentSum / weightSum : 0;
+    platforms[platform] = {
+      volume: mentions.length,
+      sentiment,
+      viralScore: mentions.length > 0 ? lastQuarter / mentions.length : 0,
+      topKeywords: topKeywords(mentions, excluded, 5),
+    };
+
+    weightedSentiment += sentiment * mentions.length;
+    totalVolume += mentions.length;
+  }
+
+  return {
+    platforms,
+    overallSentiment: totalVolume > 0 ? weightedSentiment / totalVolume : 0,
+    narrativeVelocity: (recent - older) / Math.max(older, 1),
+  };
+}
@@ -0,0 +1,196 @@
+/**
+ * Unit tests for source credibility and citations
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  SourceRegistry,
+  citeSignal,
+  configureSourceRegistry,
+  mergeCitations,
+  newsCitationCandidates,
+  type CitationCandidate,
+} from './source-credibility.js';
+import { formatExternalDataForAgent } from './agent-context-formatter.js';
+import type { AgentSignal } from '../models/types.js';
+import type { EngineConfig } from '../config/index.js';
+
+const candidates: CitationCandidate[] = [
+  {
+    title: 'Senate passes budget bill after late-night vote',
+    url: 'https://www.reuters.com/world/us/senate-budget-bill',
+    text: 'The Senate approved the budget bill 52-48 after a late-night session.',
+  },
+  {
+    title: 'Senate passes budget bill, sources say',
+    url: 'https://x.com/someone/status/1',
+  },
+  {
+    title: 'Governor signs wildfire executive order',
+    url: 'https://apnews.com/article/wildfire-order',
+  },
+];
+
+const signal: AgentSignal = {
+  agentName: 'probability_baseline',
+  timestamp: 0,
+  confidence: 0.7,
+  direction: 'YES',
+  fairProbability: 0.65,
+  keyDrivers: ['Senate passed the budget bill in a late-night vote', 'Base rate favors YES'],
+  riskFactors: [],
+  metadata: {},
+};
+
+const config = (sourceCredibility: EngineConfig['sourceCredibility']) =>
+  ({ sourceCredibility }) as EngineConfig;
+
+describe('Source Credibility', () => {
+  it('should assess sources by domain, subdomain, official suffix and name', () => {
+    const registry = new SourceRegistry();
+
+    expect(registry.assess('https://www.reuters.com/markets').tier).toBe('high');
+    expect(registry.assess('https://news.bbc.co.uk/politics').source).toBe('news.bbc.co.uk');
+    expect(registry.assess('https://news.bbc.co.uk/politics').tier).toBe('high');
+    expect(registry.assess('https://www.fec.gov/data').tier).toBe('primary');
+    expect(registry.assess('', 'CNN')).toMatchObject({ source: 'cnn.com', tier: 'medium' });
+    expect(registry.assess('https://reddit.com/r/politics').credibility).toBe(0.35);
+    expect(registry.assess('https://example-blog.net/post').tier).toBe('unknown');
+  });
+
+  it('should learn credibility from resolved citations and keep configured tiers', () => {
+    const registry = new SourceRegistry({ minOutcomes: 10, priorWeight: 10 });
+    registry.setTiers({ 'www.apnews.com': 'medium' });
+    registry.learn([
+      ...Array.from({ length: 10 }, () => ({ source: 'x.com', correct: true })),
+      ...Array.from({ length: 10 }, () => ({ source: 'apnews.com', correct: false })),
+      { source: 'cnn.com', correct: false },
+    ]);
+
+    const x = registry.assess('https://x.com/someone');
+    expect(x.credibility).toBeCloseTo((0.35 * 10 + 10) / 20);
+    expect(x).toMatchObject({ tier: 'medium', outcomes: 10 });
+    expect(registry.assess('https://apnews.com/a')).toMatchObject({
+      tier: 'medium',
+      credibility: 0.65,
+    });
+    // Too few outcomes to re-tier, but credibility already moves
+    const cnn = registry.assess('https://cnn.com/a');
+    expect(cnn.tier).toBe('medium');
+    expect(cnn.credibility).toBeLessThan(0.65);
+  });
+
+  it('should cite the most credible matching article for each key driver', () => {
+    const cited = citeSignal(signal, candidates, new SourceRegistry());
+
+    expect(cited.citations).toHaveLength(1);
+    expect(cited.citations?.[0]).toMatchObject({
+      claim: 'Senate passed the budget bill in a late-night vote',
+      url: 'https://www.reuters.com/world/us/senate-budget-bill',
+      source: 'reuters.com',
+      tier: 'high',
+    });
+    expect(signal.citations).toBeUndefined();
+  });
+
+  it('should distinguish uncited signals from signals without sources', () => {
+    const registry = new SourceRegistry();
+
+    expect(citeSignal(signal, [], registry)).toBe(signal);
+    expect(citeSignal(signal, [candidates[2]], registry).citations).toEqual([]);
+
+    registry.setOptions({ citationsEnabled: false });
+    expect(citeSignal(signal, candidates, registry).citations).toEqual([]);
+  });
+
+  it('should merge citations once per URL, most credible first', () => {
+    const registry = new SourceRegistry();
+    const [reuters] = registry.cite(signal.keyDrivers, candidates);
+    const [x] = registry.cite(signal.keyDrivers, [candidates[1]]);
+
+    const merged = mergeCitations([x, reuters, { ...reuters, claim: 'Vote count' }]);
+
+    expect(merged.map(({ source }) => source)).toEqual(['reuters.com', 'x.com']);
+  });
+
+  it('should configure tiers and learning, and survive a failed load', async () => {
+    const registry = new SourceRegistry();
+    const database = {
+      getSourceOutcomes: vi.fn().mockResolvedValue([{ source: 'reuters.com', correct: false }]),
+    };
+    const learning = {
+      learningEnabled: true,
+      learningRefreshMinutes: 60,
+      learningLookbackDays: 30,
+    };
+
+    await configureSourceRegistry(
+      config({
+        enabled: true,
+        tiers: { 'example.org': 'primary' },
+        minOutcomes: 5,
+        ...learning,
+      }),
+      database,
+      registry
+    );
+
+    expect(registry.assess('https://example.org/report').tier).toBe('primary');
+    expect(registry.assess('https://reuters.com/a').outcomes).toBe(1);
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await configureSourceRegistry(
+      config({ enabled: true, tiers: {}, minOutcomes: 5, ...learning }),
+      { getSourceOutcomes: vi.fn().mockRejectedValue(new Error('timeout')) },
+      new SourceRegistry()
+    );
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it('should reuse learned outcomes until the refresh interval passes', async () => {
+    const registry = new SourceRegistry();
+    const database = { getSourceOutcomes: vi.fn().mockResolvedValue([]) };
+    const sourceCredibility = config({
+      enabled: true,
+      tiers: {},
+      learningEnabled: true,
+      minOutcomes: 5,
+      learningRefreshMinutes: 60,
+      learningLookbackDays: 30,
+    });
+    const now = Date.UTC(2026, 4, 1);
+
+    await configureSourceRegistry(sourceCredibility, database, registry, now);
+    await configureSourceRegistry(sourceCredibility, database, registry, now + 30 * 60 * 1000);
+    expect(database.getSourceOutcomes).toHaveBeenCalledTimes(1);
+    expect(database.getSourceOutcomes).toHaveBeenCalledWith({
+      since: new Date(Date.UTC(2026, 3, 1)),
+    });
+
+    await configureSourceRegistry(sourceCredibility, database, registry, now + 61 * 60 * 1000);
+    expect(database.getSourceOutcomes).toHaveBeenCalledTimes(2);
+  });
+
+  it('should show each news source with its credibility tier', () => {
+    const news = [
+      {
+        title: candidates[0].title,
+        source: 'Reuters',
+        publishedAt: Date.now(),
+        url: candidates[0].url,
+        summary: candidates[0].text!,
+        sentiment: 'neutral' as const,
+        relevanceScore: 0.9,
+      },
+    ];
+
+    expect(newsCitationCandidates(news)[0]).toMatchObject({
+      source: 'Reuters',
+      text: news[0].summary,
+    });
+    expect(formatExternalDataForAgent({ news, dataFreshness: {} })).toContain(
+      'Source: Reuters (high credibility)'
+    );
+  });
+});
@@ -0,0 +1,531 @@
+/**
+ * Source Credibility
+ *
+ * A registry of credibility tiers for news and web sources, and article-level
+ * citations linking an agent's key drivers back to the articles and search
+ * results they came from.
+ *
+ * Sources are identified by publisher domain (taken from the article URL, or
+ * matched from the source name when the URL is missing). Each tier carries a
+ * prior credibility; once a source has been cited on enough resolved markets,
+ * its credibility is blended with how often signals citing it called the
+ * outcome right, and its tier is re-derived from the result. Configured tiers
+ * always win over built-in and learned ones.
+ *
+ * Key drivers are matched to sources by term overlap between the driver and
+ * the article's title and summary, so citations need no extra LLM output.
+ */
+
+import type { EngineConfig } from '../config/index.js';
+import type { DatabasePersistence } from '../database/persistence.js';
+import type { AgentSignal, Citation, SourceTier } from '../models/types.js';
+import type { NewsArticle as NewsToolArticle } from '../tools/newsdata-tools.js';
+import type { NewsArticle } from './data-integration.js';
+import type { SerperSearchResult } from './serper-client.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * An article or search result an agent may have drawn on
+ */
+export interface CitationCandidate {
+  title: string;
+  url: string;
+  source?: string; // Publisher name when the URL does not identify it
+  text?: string; // Summary or snippet
+  publishedAt?: number;
+}
+
+/**
+ * Whether a signal citing a source called a resolved market correctly
+ */
+export interface SourceOutcome {
+  source: string; // Publisher domain
+  correct: boolean;
+}
+
+/**
+ * Credibility assessment for one source
+ */
+export interface SourceAssessment {
+  source: string; // Publisher domain, or the normalized name when no domain is known
+  tier: SourceTier;
+  credibility: number;
+  outcomes: number; // Resolved citations the credibility was learned from
+}
+
+export interface SourceRegistryOptions {
+  citationsEnabled: boolean; // When false, cite() returns no citations
+  minOutcomes: number; // Resolved citations before a source's tier is re-derived
+  priorWeight: number; // Pseudo-outcomes the tier prior counts as when blending
+}
+
+export const DEFAULT_SOURCE_REGISTRY_OPTIONS: SourceRegistryOptions = {
+  citationsEnabled: true,
+  minOutcomes: 20,
+  priorWeight: 10,
+};
+
+export interface CitationOptions {
+  minOverlap: number; // Minimum share of the smaller term set found in the other
+  minSharedTerms: number;
+  maxCitations: number;
+}
+
+export const DEFAULT_CITATION_OPTIONS: CitationOptions = {
+  minOverlap: 0.3,
+  minSharedTerms: 2,
+  maxCitations: 10,
+};
+
+// ============================================================================
+// Built-in Tiers
+// ============================================================================
+
+/**
+ * Prior credibility of each tier
+ */
+export const SOURCE_TIER_CREDIBILITY: Record<SourceTier, number> = {
+  primary: 0.95,
+  high: 0.85,
+  medium: 0.65,
+  low: 0.35,
+  unknown: 0.5,
+};
+
+/**
+ * Official records: government, courts, international bodies
+ */
+const PRIMARY_DOMAIN_SUFFIXES = ['.gov', '.gov.uk', '.mil', '.int', 'europa.eu'];
+
+const BUILT_IN_SOURCE_TIERS: Record<string, SourceTier> = {
+  'reuters.com': 'high', 'apnews.com': 'high', 'bloomberg.com': 'high', 'wsj.com': 'high',
+  'ft.com': 'high', 'nytimes.com': 'high', 'washingtonpost.com': 'high', 'economist.com': 'high',
+  'bbc.com': 'high', 'bbc.co.uk': 'high', 'npr.org': 'high', 'axios.com': 'high',
+  'politico.com': 'high', 'theguardian.com': 'medium', 'cnn.com': 'medium',
+  'foxnews.com': 'medium', 'nbcnews.com': 'medium', 'cbsnews.com': 'medium',
+  'abcnews.go.com': 'medium', 'cnbc.com': 'medium', 'thehill.com': 'medium',
+  'espn.com': 'medium', 'theathletic.com': 'medium', 'coindesk.com': 'medium',
+  'theblock.co': 'medium', 'cointelegraph.com': 'medium', 'yahoo.com': 'medium',
+  'x.com': 'low', 'twitter.com': 'low', 'reddit.com': 'low', 'facebook.com': 'low',
+  'tiktok.com': 'low', 'youtube.com': 'low', 'medium.com': 'low', 'substack.com': 'low',
+  'dailymail.co.uk': 'low', 'zerohedge.com': 'low', 'breitbart.com': 'low',
+};
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'that', 'this', 'will', 'after', 'before', 'over', 'into',
+  'amid', 'says', 'said', 'has', 'have', 'are', 'was', 'were', 'its', 'his', 'her', 'their',
+  'new', 'what', 'how', 'why', 'who', 'not', 'but', 'than', 'more', 'about', 'market', 'likely',
+]);
+
+// ============================================================================
+// Source Resolution
+// ============================================================================
+
+/**
+ * Publisher domain of a URL without `www.`, or null when it is not a URL
+ */
+export function sourceDomain(url: string): string | null {
+  try {
+    const hostname = new URL(url).hostname.toLowerCase();
+    return hostname.replace(/^www\./, '') || null;
+  } catch {
+    return null;
+  }
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Tier for a learned credibility
+ */
+export function tierForCredibility(credibility: number): SourceTier {
+  if (credibility >= 0.9) {
+    return 'primary';
+  }
+  if (credibility >= 0.75) {
+    return 'high';
+  }
+  if (credibility >= 0.5) {
+    return 'medium';
+  }
+  return 'low';
+}
+
+// ============================================================================
+// Source Registry
+// ============================================================================
+
+/**
+ * Credibility tiers per source, built-in, configured and learned
+ */
+export class SourceRegistry {
+  private options: SourceRegistryOptions;
+  private tiers = new Map<string, SourceTier>(Object.entries(BUILT_IN_SOURCE_TIERS));
+  private configured = new Map<string, SourceTier>();
+  private accuracy = new Map<string, { correct: number; total: number }>();
+  private learnedAt: number | null = null;
+
+  constructor(options: Partial<SourceRegistryOptions> = {}) {
+    this.options = { ...DEFAULT_SOURCE_REGISTRY_OPTIONS, ...options };
+  }
+
+  setOptions(options: Partial<SourceRegistryOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Set tiers by domain; these override built-in and learned tiers
+   */
+  setTiers(tiers: Record<string, SourceTier>): void {
+    for (const [domain, tier] of Object.entries(tiers)) {
+      this.configured.set(domain.toLowerCase().replace(/^www\./, ''), tier);
+    }
+  }
+
+  /**
+   * Replace learned accuracy with the given resolved citations
+   */
+  learn(outcomes: SourceOutcome[], now: number = Date.now()): void {
+    this.learnedAt = now;
+    this.accuracy.clear();
+    for (const { source, correct } of outcomes) {
+      const entry = this.accuracy.get(source) ?? { correct: 0, total: 0 };
+      entry.total++;
+      if (correct) {
+        entry.correct++;
+      }
+      this.accuracy.set(source, entry);
+    }
+  }
+
+  /**
+   * When accuracy was last learned (null if never)
+   */
+  getLearnedAt(): number | null {
+    return this.learnedAt;
+  }
+
+  /**
+   * Assess a source from its URL, falling back to the publisher name
+   */
+  assess(url: string, sourceName?: string): SourceAssessment {
+    const source = this.identify(url, sourceName);
+    const configured = this.lookup(this.configured, source);
+    const prior =
+      configured ??
+      this.lookup(this.tiers, source) ??
+      (PRIMARY_DOMAIN_SUFFIXES.some((suffix) => source.endsWith(suffix)) ? 'primary' : 'unknown');
+    const learned = this.accuracy.get(source);
+
+    if (!learned || configured) {
+      return {
+        source,
+        tier: prior,
+        credibility: SOURCE_TIER_CREDIBILITY[prior],
+        outcomes: learned?.total ?? 0,
+      };
+    }
+
+    const { priorWeight, minOutcomes } = this.options;
+    const credibility =
+      (SOURCE_TIER_CREDIBILITY[prior] * priorWeight + learned.correct) /
+      (priorWeight + learned.total);
+    return {
+      source,
+      tier: learned.total >= minOutcomes ? tierForCredibility(credibility) : prior,
+      credibility,
+      outcomes: learned.total,
+    };
+  }
+
+  /**
+   * Match each claim to the best supporting candidate
+   *
+   * A claim is cited when enough of its terms appear in a candidate's title
+   * and text; ties go to the more credible source. Claims without a match
+   * are left uncited, and nothing is cited when citations are disabled.
+   *
+   * @param claims - Key drivers or other claims to cite
+   * @param candidates - Articles and search results the claims may come from
+   * @returns Citations ordered by claim, at most one per claim
+   */
+  cite(
+    claims: string[],
+    candidates: CitationCandidate[],
+    options: Partial<CitationOptions> = {}
+  ): Citation[] {
+    if (!this.options.citationsEnabled) {
+      return [];
+    }
+
+    const { minOverlap, minSharedTerms, maxCitations } = {
+      ...DEFAULT_CITATION_OPTIONS,
+      ...options,
+    };
+    const scored = candidates.map((candidate) => ({
+      candidate,
+      terms: claimTerms(`${candidate.title} ${candidate.text ?? ''}`),
+      assessment: this.assess(candidate.url, candidate.source),
+    }));
+
+    const citations: Citation[] = [];
+    for (const claim of claims) {
+      const terms = claimTerms(claim);
+      let best: { overlap: number; entry: (typeof scored)[number] } | null = null;
+
+      for (const entry of scored) {
+        const shared = [...terms].filter((term) => entry.terms.has(term)).length;
+        const smaller = Math.min(terms.size, entry.terms.size);
+        const overlap = smaller === 0 ? 0 : shared / smaller;
+        if (shared < minSharedTerms || overlap < minOverlap) {
+          continue;
+        }
+        if (
+          !best ||
+          overlap > best.overlap ||
+          (overlap === best.overlap &&
+            entry.assessment.credibility > best.entry.assessment.credibility)
+        ) {
+          best = { overlap, entry };
+        }
+      }
+
+      if (best) {
+        const { candidate, assessment } = best.entry;
+        citations.push({
+          claim,
+          url: candidate.url,
+          title: candidate.title,
+          source: assessment.source,
+          tier: assessment.tier,
+          credibility: assessment.credibility,
+          ...(candidate.publishedAt !== undefined ? { publishedAt: candidate.publishedAt } : {}),
+        });
+      }
+      if (citations.length >= maxCitations) {
+        break;
+      }
+    }
+
+    return citations;
+  }
+
+  private identify(url: string, sourceName?: string): string {
+    const domain = sourceDomain(url);
+    if (domain) {
+      return domain;
+    }
+
+    const name = normalizeName(sourceName ?? url);
+    for (const known of [...this.configured.keys(), ...this.tiers.keys()]) {
+      if (normalizeName(known.split('.')[0]) === name) {
+        return known;
+      }
+    }
+    return name;
+  }
+
+  private lookup(tiers: Map<string, SourceTier>, source: string): SourceTier | undefined {
+    // news.bbc.co.uk → bbc.co.uk → co.uk → uk
+    const labels = source.split('.');
+    for (let i = 0; i < labels.length; i++) {
+      const tier = tiers.get(labels.slice(i).join('.'));
+      if (tier) {
+        return tier;
+      }
+    }
+    return undefined;
+  }
+}
+
+function claimTerms(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+  );
+}
+
+// ============================================================================
+// Default Registry
+// ============================================================================
+
+/**
+ * Registry read by agent nodes, web research tools and cross-examination
+ */
+export const defaultSourceRegistry = new SourceRegistry();
+
+/**
+ * Assess a source with the default registry
+ */
+export function assessSource(url: string, sourceName?: string): SourceAssessment {
+  return defaultSourceRegistry.assess(url, sourceName);
+}
+
+// ============================================================================
+// Citation Helpers
+// ============================================================================
+
+/**
+ * Mean credibility of the cited sources, counting each source once
+ *
+ * @returns 0 when there are no citations
+ */
+export function citationStrength(citations: Citation[]): number {
+  const bySource = new Map(citations.map((citation) => [citation.source, citation.credibility]));
+  if (bySource.size === 0) {
+    return 0;
+  }
+  return [...bySource.values()].reduce((sum, credibility) => sum + credibility, 0) / bySource.size;
+}
+
+/**
+ * Combine citations from several signals, one per URL, most credible first
+ */
+export function mergeCitations(citations: Citation[], limit: number = 10): Citation[] {
+  const byUrl = new Map<string, Citation>();
+  for (const citation of citations) {
+    const existing = byUrl.get(citation.url);
+    if (!existing || citation.credibility > existing.credibility) {
+      byUrl.set(citation.url, citation);
+    }
+  }
+  return [...byUrl.values()]
+    .sort((a, b) => b.credibility - a.credibility || (b.publishedAt ?? 0) - (a.publishedAt ?? 0))
+    .slice(0, limit);
+}
+
+/**
+ * Citation candidates from externalData news
+ */
+export function newsCitationCandidates(news: readonly NewsArticle[]): CitationCandidate[] {
+  return news.map((article) => ({
+    title: article.title,
+    url: article.url,
+    source: article.source,
+    text: article.summary,
+    publishedAt: article.publishedAt,
+  }));
+}
+
+/**
+ * Citation candidates from articles returned by the NewsData agent tools
+ */
+export function newsToolCitationCandidates(
+  articles: readonly NewsToolArticle[]
+): CitationCandidate[] {
+  return articles.map((article) => {
+    const publishedAt = Date.parse(article.metadata.publishedAt);
+    return {
+      title: article.title,
+      url: article.url,
+      source: article.source.name,
+      text: article.ai?.summary ?? article.content.description,
+      ...(Number.isFinite(publishedAt) ? { publishedAt } : {}),
+    };
+  });
+}
+
+/**
+ * Citation candidates from Serper web search results
+ */
+export function searchResultCitationCandidates(
+  results: readonly SerperSearchResult[]
+): CitationCandidate[] {
+  return results.map((result) => {
+    const publishedAt = result.date ? Date.parse(result.date) : NaN;
+    return {
+      title: result.title,
+      url: result.link,
+      text: result.snippet,
+      ...(Number.isFinite(publishedAt) ? { publishedAt } : {}),
+    };
+  });
+}
+
+/**
+ * Attach citations for a signal's key drivers
+ *
+ * The signal is returned unchanged when there are no candidates (nothing to
+ * cite from); otherwise `citations` is set, empty when no driver matched.
+ */
+export function citeSignal<T extends AgentSignal>(
+  signal: T,
+  candidates: CitationCandidate[],
+  registry: SourceRegistry = defaultSourceRegistry
+): T {
+  if (candidates.length === 0) {
+    return signal;
+  }
+  return { ...signal, citations: registry.cite(signal.keyDrivers ?? [], candidates) };
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DEFAULT_LEARNING_REFRESH_MINUTES = 60;
+const DEFAULT_LEARNING_LOOKBACK_DAYS = 365;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Apply configured tiers and learn from resolved markets
+ *
+ * Learning needs a database. Outcomes are loaded for markets resolved within
+ * the lookback window and reused until the refresh interval passes, so
+ * back-to-back analyses do not reload them; a failed load keeps the current
+ * tiers and is logged.
+ *
+ * @param config - Engine configuration
+ * @param database - Persistence used to load resolved citations
+ * @param registry - Registry to configure
+ * @param now - Current time (ms)
+ */
+export async function configureSourceRegistry(
+  config: EngineConfig,
+  database?: Pick<DatabasePersistence, 'getSourceOutcomes'> | null,
+  registry: SourceRegistry = defaultSourceRegistry,
+  now: number = Date.now()
+): Promise<void> {
+  const sourceCredibility = config.sourceCredibility;
+  if (!sourceCredibility) {
+    return;
+  }
+
+  registry.setOptions({
+    citationsEnabled: sourceCredibility.enabled !== false,
+    minOutcomes: sourceCredibility.minOutcomes ?? DEFAULT_SOURCE_REGISTRY_OPTIONS.minOutcomes,
+  });
+  registry.setTiers(sourceCredibility.tiers ?? {});
+
+  if (!database || sourceCredibility.learningEnabled === false) {
+    return;
+  }
+
+  const refreshMinutes =
+    sourceCredibility.learningRefreshMinutes ?? DEFAULT_LEARNING_REFRESH_MINUTES;
+  const learnedAt = registry.getLearnedAt();
+  if (learnedAt !== null && now - learnedAt < refreshMinutes * MINUTE_MS) {
+    return;
+  }
+
+  const lookbackDays = sourceCredibility.learningLookbackDays ?? DEFAULT_LEARNING_LOOKBACK_DAYS;
+  try {
+    registry.learn(
+      await database.getSourceOutcomes({ since: new Date(now - lookbackDays * DAY_MS) }),
+      now
+    );
+  } catch (error) {
+    console.warn(
+      '[SourceCredibility] Failed to load source outcomes:',
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Unit tests for story clustering and the narrative timeline
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  StoryTracker,
+  MemoryStoryStore,
+  clusterArticles,
+  buildNarrativeTimeline,
+  type StoryArticle,
+  type StoryStore,
+} from './story-clustering.js';
+import { formatExternalDataForAgent } from './agent-context-formatter.js';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date('2026-04-20T12:00:00Z').getTime();
+
+const article = (title: string, source: string, hoursAgo: number): StoryArticle => ({
+  title,
+  source,
+  publishedAt: NOW - hoursAgo * HOUR,
+  url: `https://${source}.example.com/${encodeURIComponent(title)}`,
+});
+
+const senateReports = [
+  article('Senate passes budget bill after late-night vote', 'reuters', 5),
+  article('Budget bill clears Senate in late vote', 'apnews', 4),
+  article('Senate approves budget bill in late-night session', 'cnn', 2),
+  article('Late-night Senate vote passes budget bill', 'politico', 1),
+];
+
+describe('Story Clustering', () => {
+  it('should group re-worded reports of one event into a single story', () => {
+    const stories = clusterArticles(
+      [],
+      [
+        ...senateReports,
+        article('Governor signs executive order on wildfire response', 'reuters', 3),
+      ]
+    );
+
+    expect(stories).toHaveLength(2);
+    const senate = stories.find((story) => story.articles.length === 4);
+    expect(senate?.headline).toBe('Senate passes budget bill after late-night vote');
+    expect(new Set(senate?.articles.map(({ source }) => source)).size).toBe(4);
+  });
+
+  it('should not count re-fetched articles twice', () => {
+    const first = clusterArticles([], senateReports);
+    const second = clusterArticles(first, senateReports);
+
+    expect(second).toHaveLength(1);
+    expect(second[0].articles).toHaveLength(4);
+    expect(first[0].articles).toHaveLength(4);
+  });
+
+  it('should measure growth per story rather than per article', () => {
+    const stories = clusterArticles(
+      [],
+      [
+        ...senateReports,
+        article('Court delays ruling on redistricting map', 'reuters', 20),
+        article('Redistricting map ruling delayed by court', 'apnews', 16),
+      ]
+    );
+
+    const timeline = buildNarrativeTimeline(stories, NOW, 6);
+
+    expect(timeline.storyCount).toBe(2);
+    expect(timeline.articleCount).toBe(6);
+    expect(timeline.stories[0]).toMatchObject({
+      articleCount: 4,
+      sourceCount: 4,
+      articlesInWindow: 4,
+      newSourcesInWindow: 4,
+      status: 'emerging',
+    });
+    expect(timeline.stories[0].growthRate).toBeCloseTo(4 / 6);
+    expect(timeline.stories[1].status).toBe('fading');
+    expect(timeline.stories[1].growthRate).toBe(0);
+  });
+
+  it('should persist stories and snapshots across tracker runs', async () => {
+    const store = new MemoryStoryStore();
+    const tracker = new StoryTracker(store, { growthWindowHours: 6 });
+
+    await tracker.update('market-1', senateReports.slice(0, 2), NOW - 3 * HOUR);
+    const timeline = await tracker.update('market-1', senateReports, NOW);
+
+    const [story] = timeline.stories;
+    expect(timeline.storyCount).toBe(1);
+    expect(story.firstSeen).toBe(NOW - 5 * HOUR);
+    expect(story.snapshots.map(({ articleCount }) => articleCount)).toEqual([2, 4]);
+    expect(await store.load('market-2')).toEqual([]);
+  });
+
+  it('should build a timeline when the store is unavailable', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const failingStore: StoryStore = {
+      load: vi.fn().mockRejectedValue(new Error('connection refused')),
+      save: vi.fn().mockRejectedValue(new Error('connection refused')),
+    };
+
+    const timeline = await new StoryTracker(failingStore).update('market-1', senateReports, NOW);
+
+    expect(timeline.storyCount).toBe(1);
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  it('should show agents one report per story with the story timeline', () => {
+    const timeline = buildNarrativeTimeline(clusterArticles([], senateReports), NOW, 6);
+    const news = senateReports.map((report) => ({
+      ...report,
+      summary: 'Budget vote coverage',
+      sentiment: 'neutral' as const,
+      relevanceScore: 0.9,
+    }));
+
+    const formatted = formatExternalDataForAgent({
+      news,
+      narrativeTimeline: timeline,
+      dataFreshness: {},
+    });
+
+    expect(formatted).toContain('=== STORY TIMELINE ===');
+    expect(formatted).toContain('1 story across 4 articles (growth over the last 6h)');
+    expect(formatted).toContain('Coverage: 4 articles from 4 sources (4 new sources in window)');
+    expect(formatted).toContain('Story: 4 reports from 4 sources');
+    expect(formatted.match(/^\d+\. /gm)).toHaveLength(2); // one story entry, one news entry
+  });
+});
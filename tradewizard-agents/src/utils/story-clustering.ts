@@ -0,0 +1,453 @@
+/**
+ * Story Clustering
+ *
+ * Groups news articles into stories (articles reporting the same event) so
+ * agents see one story covered by ten outlets instead of ten separate
+ * reports. Stories are tracked per market across analysis runs in a story
+ * store: each keeps its first-seen time, sources and a snapshot of its size
+ * per run, and the tracker turns them into a NarrativeTimeline with growth
+ * rates for the narrative velocity agent.
+ *
+ * Articles are assigned by title overlap with a story's title vocabulary
+ * (overlap coefficient against the story's most frequent terms), which is
+ * robust to re-worded headlines without needing embeddings.
+ */
+
+import { createHash } from 'crypto';
+import type { SupabaseClientManager } from '../database/supabase-client.js';
+import type { Json, Tables, TablesInsert } from '../database/types.js';
+import type { NarrativeTimeline, StoryStatus, StoryTimelineEntry } from '../models/types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Article fields used for clustering (matches externalData.news entries)
+ */
+export interface StoryArticle {
+  title: string;
+  source: string;
+  publishedAt: number;
+  url: string;
+}
+
+/**
+ * Story as kept in a story store
+ */
+export interface StoryCluster {
+  storyId: string;
+  headline: string;
+  termCounts: Record<string, number>;
+  articles: Array<{ url: string; source: string; publishedAt: number }>;
+  snapshots: Array<{ timestamp: number; articleCount: number; sourceCount: number }>;
+}
+
+export interface StoryClusteringOptions {
+  similarityThreshold: number; // Minimum title overlap to join a story (0-1)
+  growthWindowHours: number; // Window for growth rates
+  maxStories: number; // Stories kept per market (most recent first)
+  maxSnapshots: number; // Snapshots kept per story
+}
+
+export const DEFAULT_STORY_CLUSTERING_OPTIONS: StoryClusteringOptions = {
+  similarityThreshold: 0.5,
+  growthWindowHours: 6,
+  maxStories: 50,
+  maxSnapshots: 48,
+};
+
+/**
+ * Terms compared against a new article's title
+ */
+const STORY_VOCABULARY_SIZE = 20;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'that', 'this', 'will', 'after', 'before', 'over', 'into',
+  'amid', 'says', 'said', 'has', 'have', 'are', 'was', 'were', 'its', 'his', 'her', 'their',
+  'new', 'what', 'how', 'why', 'who', 'not', 'but', 'than', 'more', 'about',
+]);
+
+// ============================================================================
+// Clustering
+// ============================================================================
+
+function titleTerms(title: string): Set<string> {
+  return new Set(
+    title
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+  );
+}
+
+function storyVocabulary(story: StoryCluster): Set<string> {
+  return new Set(
+    Object.entries(story.termCounts)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, STORY_VOCABULARY_SIZE)
+      .map(([term]) => term)
+  );
+}
+
+/**
+ * Overlap coefficient between an article title and a story's vocabulary
+ */
+export function storySimilarity(title: string, story: StoryCluster): number {
+  const terms = titleTerms(title);
+  const vocabulary = storyVocabulary(story);
+  const smaller = Math.min(terms.size, vocabulary.size);
+  if (smaller === 0) {
+    return 0;
+  }
+
+  let shared = 0;
+  for (const term of terms) {
+    if (vocabulary.has(term)) {
+      shared++;
+    }
+  }
+  return shared / smaller;
+}
+
+function createStoryId(article: StoryArticle): string {
+  return `story-${createHash('sha256').update(`${article.url}|${article.title}`).digest('hex').slice(0, 12)}`;
+}
+
+/**
+ * Assign articles to existing stories or start new ones
+ *
+ * Articles already in a story (same URL) are skipped, so re-fetching the same
+ * news on a later run does not inflate growth. Articles are processed oldest
+ * first so a story's headline is its earliest report.
+ *
+ * @param stories - Existing stories (not modified)
+ * @param articles - Articles to assign
+ * @param similarityThreshold - Minimum title overlap to join a story
+ * @returns Updated stories
+ */
+export function clusterArticles(
+  stories: StoryCluster[],
+  articles: StoryArticle[],
+  similarityThreshold: number = DEFAULT_STORY_CLUSTERING_OPTIONS.similarityThreshold
+): StoryCluster[] {
+  const clusters = stories.map((story) => ({
+    ...story,
+    termCounts: { ...story.termCounts },
+    articles: [...story.articles],
+    snapshots: [...story.snapshots],
+  }));
+  const knownUrls = new Set(clusters.flatMap((story) => story.articles.map(({ url }) => url)));
+
+  const ordered = [...articles].sort((a, b) => a.publishedAt - b.publishedAt);
+  for (const article of ordered) {
+    if (knownUrls.has(article.url)) {
+      continue;
+    }
+    knownUrls.add(article.url);
+
+    let best: StoryCluster | undefined;
+    let bestScore = 0;
+    for (const story of clusters) {
+      const score = storySimilarity(article.title, story);
+      if (score > bestScore) {
+        best = story;
+        bestScore = score;
+      }
+    }
+
+    const story: StoryCluster =
+      best && bestScore >= similarityThreshold
+        ? best
+        : {
+            storyId: createStoryId(article),
+            headline: article.title,
+            termCounts: {},
+            articles: [],
+            snapshots: [],
+          };
+    if (story !== best) {
+      clusters.push(story);
+    }
+
+    story.articles.push({
+      url: article.url,
+      source: article.source,
+      publishedAt: article.publishedAt,
+    });
+    for (const term of titleTerms(article.title)) {
+      story.termCounts[term] = (story.termCounts[term] ?? 0) + 1;
+    }
+  }
+
+  return clusters;
+}
+
+// ============================================================================
+// Narrative Timeline
+// ============================================================================
+
+function distinctSources(articles: StoryCluster['articles']): string[] {
+  return Array.from(new Set(articles.map(({ source }) => source)));
+}
+
+function classifyStory(
+  firstSeen: number,
+  growthRate: number,
+  acceleration: number,
+  windowStart: number
+): StoryStatus {
+  if (firstSeen >= windowStart) {
+    return 'emerging';
+  }
+  if (growthRate === 0) {
+    return 'fading';
+  }
+  return acceleration > 0 ? 'accelerating' : 'steady';
+}
+
+/**
+ * Summarize one story's size and growth at a point in time
+ */
+export function summarizeStory(
+  story: StoryCluster,
+  now: number,
+  growthWindowHours: number
+): StoryTimelineEntry {
+  const windowMs = growthWindowHours * HOUR_MS;
+  const windowStart = now - windowMs;
+  const previousStart = windowStart - windowMs;
+  const publishTimes = story.articles.map(({ publishedAt }) => publishedAt);
+
+  const articlesInWindow = publishTimes.filter((time) => time >= windowStart).length;
+  const articlesInPrevious = publishTimes.filter(
+    (time) => time >= previousStart && time < windowStart
+  ).length;
+
+  const firstBySource = new Map<string, number>();
+  for (const { source, publishedAt } of story.articles) {
+    firstBySource.set(source, Math.min(firstBySource.get(source) ?? Infinity, publishedAt));
+  }
+  const newSourcesInWindow = Array.from(firstBySource.values()).filter(
+    (time) => time >= windowStart
+  ).length;
+
+  const growthRate = articlesInWindow / growthWindowHours;
+  const acceleration = (articlesInWindow - articlesInPrevious) / growthWindowHours;
+  const firstSeen = Math.min(...publishTimes);
+  const sources = distinctSources(story.articles);
+
+  return {
+    storyId: story.storyId,
+    headline: story.headline,
+    firstSeen,
+    lastSeen: Math.max(...publishTimes),
+    articleCount: story.articles.length,
+    sourceCount: sources.length,
+    sources,
+    articleUrls: story.articles.map(({ url }) => url),
+    articlesInWindow,
+    newSourcesInWindow,
+    growthRate,
+    acceleration,
+    status: classifyStory(firstSeen, growthRate, acceleration, windowStart),
+    snapshots: story.snapshots,
+  };
+}
+
+/**
+ * Build a market's narrative timeline, fastest-growing stories first
+ */
+export function buildNarrativeTimeline(
+  stories: StoryCluster[],
+  now: number = Date.now(),
+  growthWindowHours: number = DEFAULT_STORY_CLUSTERING_OPTIONS.growthWindowHours
+): NarrativeTimeline {
+  const entries = stories
+    .filter((story) => story.articles.length > 0)
+    .map((story) => summarizeStory(story, now, growthWindowHours))
+    .sort(
+      (a, b) =>
+        b.growthRate - a.growthRate || b.articleCount - a.articleCount || b.lastSeen - a.lastSeen
+    );
+
+  return {
+    generatedAt: now,
+    windowHours: growthWindowHours,
+    storyCount: entries.length,
+    articleCount: entries.reduce((sum, entry) => sum + entry.articleCount, 0),
+    stories: entries,
+  };
+}
+
+// ============================================================================
+// Story Stores
+// ============================================================================
+
+/**
+ * Persistence for a market's stories between analysis runs
+ */
+export interface StoryStore {
+  load(marketId: string): Promise<StoryCluster[]>;
+  save(marketId: string, stories: StoryCluster[]): Promise<void>;
+}
+
+/**
+ * In-process story store (stories live as long as the process)
+ */
+export class MemoryStoryStore implements StoryStore {
+  private stories = new Map<string, StoryCluster[]>();
+
+  async load(marketId: string): Promise<StoryCluster[]> {
+    return this.stories.get(marketId) ?? [];
+  }
+
+  async save(marketId: string, stories: StoryCluster[]): Promise<void> {
+    this.stories.set(marketId, stories);
+  }
+}
+
+function fromStoryRow(row: Tables<'news_stories'>): StoryCluster {
+  return {
+    storyId: row.story_id,
+    headline: row.headline,
+    termCounts: (row.term_counts ?? {}) as Record<string, number>,
+    articles: (row.articles ?? []) as StoryCluster['articles'],
+    snapshots: (row.snapshots ?? []) as StoryCluster['snapshots'],
+  };
+}
+
+/**
+ * Story store backed by the news_stories table
+ */
+export class SupabaseStoryStore implements StoryStore {
+  constructor(
+    private readonly clientManager: SupabaseClientManager,
+    private readonly maxStories: number = DEFAULT_STORY_CLUSTERING_OPTIONS.maxStories
+  ) {}
+
+  async load(marketId: string): Promise<StoryCluster[]> {
+    const { data, error } = await this.clientManager
+      .getClient()
+      .from('news_stories')
+      .select('*')
+      .eq('market_id', marketId)
+      .order('last_seen', { ascending: false })
+      .limit(this.maxStories);
+
+    if (error) {
+      throw new Error(`Failed to load news stories: ${error.message}`);
+    }
+    return (data ?? []).map(fromStoryRow);
+  }
+
+  async save(marketId: string, stories: StoryCluster[]): Promise<void> {
+    if (stories.length === 0) {
+      return;
+    }
+
+    const rows: TablesInsert<'news_stories'>[] = stories.map((story) => {
+      const publishTimes = story.articles.map(({ publishedAt }) => publishedAt);
+      return {
+        market_id: marketId,
+        story_id: story.storyId,
+        headline: story.headline,
+        term_counts: story.termCounts as Json,
+        articles: story.articles as unknown as Json,
+        snapshots: story.snapshots as unknown as Json,
+        article_count: story.articles.length,
+        source_count: distinctSources(story.articles).length,
+        first_seen: new Date(Math.min(...publishTimes)).toISOString(),
+        last_seen: new Date(Math.max(...publishTimes)).toISOString(),
+        updated_at: new Date().toISOString(),
+      };
+    });
+
+    const { error } = await this.clientManager
+      .getClient()
+      .from('news_stories')
+      .upsert(rows, { onConflict: 'market_id,story_id' });
+
+    if (error) {
+      throw new Error(`Failed to save news stories: ${error.message}`);
+    }
+  }
+}
+
+// ============================================================================
+// Story Tracker
+// ============================================================================
+
+/**
+ * Tracks a market's stories across analysis runs
+ */
+export class StoryTracker {
+  private options: StoryClusteringOptions;
+
+  constructor(
+    private readonly store: StoryStore,
+    options: Partial<StoryClusteringOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_STORY_CLUSTERING_OPTIONS, ...options };
+  }
+
+  /**
+   * Cluster new articles into the market's stories, record a growth snapshot
+   * and return the updated timeline
+   *
+   * Store failures are logged and the timeline is built from this run's
+   * articles alone.
+   *
+   * @param marketId - Market the articles were fetched for
+   * @param articles - Articles from this run
+   * @param now - Current time (ms)
+   */
+  async update(
+    marketId: string,
+    articles: StoryArticle[],
+    now: number = Date.now()
+  ): Promise<NarrativeTimeline> {
+    let existing: StoryCluster[] = [];
+    try {
+      existing = await this.store.load(marketId);
+    } catch (error) {
+      console.warn('[StoryClustering] Failed to load stories, clustering this run only:', {
+        marketId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const stories = clusterArticles(existing, articles, this.options.similarityThreshold)
+      .filter((story) => story.articles.length > 0)
+      .sort(
+        (a, b) =>
+          Math.max(...b.articles.map(({ publishedAt }) => publishedAt)) -
+          Math.max(...a.articles.map(({ publishedAt }) => publishedAt))
+      )
+      .slice(0, this.options.maxStories);
+
+    for (const story of stories) {
+      story.snapshots = [
+        ...story.snapshots,
+        {
+          timestamp: now,
+          articleCount: story.articles.length,
+          sourceCount: distinctSources(story.articles).length,
+        },
+      ].slice(-this.options.maxSnapshots);
+    }
+
+    try {
+      await this.store.save(marketId, stories);
+    } catch (error) {
+      console.warn('[StoryClustering] Failed to save stories:', {
+        marketId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return buildNarrativeTimeline(stories, now, this.options.growthWindowHours);
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Unit tests for workflow progress events
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  consumeWorkflowStream,
+  createWorkflowProgressBus,
+  type WorkflowProgressEvent,
+  type WorkflowStreamChunk,
+} from './workflow-progress.js';
+import type { AgentSignal } from '../models/types.js';
+
+const signal = { agentName: 'market_microstructure', fairProbability: 0.6 } as AgentSignal;
+
+async function* createStream(chunks: WorkflowStreamChunk[]): AsyncGenerator<WorkflowStreamChunk> {
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+}
+
+describe('Workflow Progress', () => {
+  describe('WorkflowProgressBus', () => {
+    it('should deliver events to subscribers with increasing IDs', () => {
+      const bus = createWorkflowProgressBus();
+      const listener = vi.fn();
+      bus.subscribe(listener);
+
+      bus.publish('market-1', { type: 'analysis_started' });
+      bus.publish('market-1', { type: 'node_started', node: 'market_ingestion' });
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      const [first, second] = listener.mock.calls.map(([event]) => event as WorkflowProgressEvent);
+      expect(first).toMatchObject({ type: 'analysis_started', conditionId: 'market-1', id: 1 });
+      expect(second).toMatchObject({ type: 'node_started', node: 'market_ingestion', id: 2 });
+    });
+
+    it('should filter subscriptions by condition ID and unsubscribe', () => {
+      const bus = createWorkflowProgressBus();
+      const listener = vi.fn();
+      const unsubscribe = bus.subscribe(listener, 'market-2');
+
+      bus.publish('market-1', { type: 'analysis_started' });
+      bus.publish('market-2', { type: 'analysis_started' });
+      unsubscribe();
+      bus.publish('market-2', { type: 'analysis_completed', durationMs: 5 });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(bus.getSubscriberCount()).toBe(0);
+    });
+
+    it('should buffer events of in-flight analyses only', () => {
+      const bus = createWorkflowProgressBus();
+
+      bus.publish('market-1', { type: 'analysis_started' });
+      bus.publish('market-2', { type: 'analysis_started' });
+      bus.publish('market-1', { type: 'node_started', node: 'market_ingestion' });
+      bus.publish('market-2', { type: 'analysis_completed', durationMs: 5 });
+
+      expect(bus.getInFlightAnalyses()).toEqual(['market-1']);
+      expect(bus.getBufferedEvents().map((event) => event.type)).toEqual([
+        'analysis_started',
+        'node_started',
+      ]);
+      expect(bus.getBufferedEvents('market-2')).toEqual([]);
+    });
+
+    it('should isolate failing listeners', () => {
+      const bus = createWorkflowProgressBus();
+      const listener = vi.fn();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      bus.subscribe(() => {
+        throw new Error('client gone');
+      });
+      bus.subscribe(listener);
+
+      bus.publish('market-1', { type: 'analysis_started' });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('consumeWorkflowStream', () => {
+    it('should publish node, signal and recommendation events and return the final state', async () => {
+      const bus = createWorkflowProgressBus();
+      const events: WorkflowProgressEvent[] = [];
+      bus.subscribe((event) => events.push(event));
+      const recommendation = { marketId: 'market-1', action: 'LONG_YES' };
+      const finalState = { conditionId: 'market-1', recommendation };
+
+      const result = await consumeWorkflowStream(
+        createStream([
+          ['tasks', { id: 't1', name: 'market_microstructure_agent', input: {}, triggers: [] }],
+          [
+            'tasks',
+            { id: 't1', name: 'market_microstructure_agent', result: [['agentSignals', [signal]]] },
+          ],
+          ['values', { conditionId: 'market-1' }],
+          ['tasks', { id: 't2', name: 'recommendation_generation', input: {}, triggers: [] }],
+          [
+            'tasks',
+            {
+              id: 't2',
+              name: 'recommendation_generation',
+              result: [['recommendation', recommendation]],
+            },
+          ],
+          ['values', finalState],
+        ]),
+        'market-1',
+        bus
+      );
+
+      expect(result).toBe(finalState);
+      expect(events.map((event) => event.type)).toEqual([
+        'analysis_started',
+        'node_started',
+        'agent_signal',
+        'node_finished',
+        'node_started',
+        'recommendation',
+        'node_finished',
+        'analysis_completed',
+      ]);
+      expect(events[2]).toMatchObject({ type: 'agent_signal', signal });
+      expect(events[3]).toMatchObject({ node: 'market_microstructure_agent' });
+      expect((events[3] as { durationMs: number | null }).durationMs).not.toBeNull();
+      expect(bus.getInFlightAnalyses()).toEqual([]);
+    });
+
+    it('should publish a failure event and rethrow stream errors', async () => {
+      const bus = createWorkflowProgressBus();
+      const listener = vi.fn();
+      bus.subscribe(listener);
+
+      async function* failingStream(): AsyncGenerator<WorkflowStreamChunk> {
+        yield ['tasks', { id: 't1', name: 'market_ingestion', input: {}, triggers: [] }];
+        throw new Error('Polymarket unavailable');
+      }
+
+      await expect(consumeWorkflowStream(failingStream(), 'market-1', bus)).rejects.toThrow(
+        'Polymarket unavailable'
+      );
+      expect(listener.mock.calls.at(-1)![0]).toMatchObject({
+        type: 'analysis_failed',
+        error: 'Polymarket unavailable',
+      });
+    });
+
+    it('should return the final state without a bus', async () => {
+      const finalState = { recommendation: null };
+
+      const result = await consumeWorkflowStream(
+        createStream([
+          ['tasks', { id: 't1', name: 'market_ingestion', input: {}, triggers: [] }],
+          ['values', finalState],
+        ]),
+        'market-1'
+      );
+
+      expect(result).toBe(finalState);
+    });
+  });
+});
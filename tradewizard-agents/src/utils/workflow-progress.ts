@@ -0,0 +1,241 @@
+/**
+ * Workflow Progress Events
+ *
+ * Publishes live progress for in-flight market analyses: LangGraph node
+ * start/finish, agent signals as they arrive and the final recommendation.
+ * The local workflow feeds the bus from the graph's stream API; the
+ * health-check server relays it to clients over Server-Sent Events.
+ *
+ * Events for each in-flight analysis are buffered until it completes, so a
+ * client that connects mid-analysis can replay what it missed.
+ */
+
+import type { AgentSignal, TradeRecommendation } from '../models/types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Progress event payload, discriminated by type
+ */
+export type WorkflowProgressPayload =
+  | { type: 'analysis_started' }
+  | { type: 'node_started'; node: string }
+  | { type: 'node_finished'; node: string; durationMs: number | null }
+  | { type: 'agent_signal'; signal: AgentSignal }
+  | { type: 'recommendation'; recommendation: TradeRecommendation | null }
+  | { type: 'analysis_completed'; durationMs: number }
+  | { type: 'analysis_failed'; error: string; durationMs: number };
+
+/**
+ * Progress event as delivered to subscribers
+ */
+export type WorkflowProgressEvent = WorkflowProgressPayload & {
+  id: number; // Monotonic per bus, used as the SSE event ID
+  conditionId: string;
+  timestamp: number;
+};
+
+export type WorkflowProgressEventType = WorkflowProgressEvent['type'];
+
+/**
+ * Progress event listener
+ */
+export type WorkflowProgressListener = (event: WorkflowProgressEvent) => void;
+
+/**
+ * Chunk yielded by `app.stream(..., { streamMode: ['tasks', 'values'] })`
+ */
+export type WorkflowStreamChunk = [string, unknown];
+
+// ============================================================================
+// Progress Bus
+// ============================================================================
+
+/**
+ * In-process publish/subscribe bus for workflow progress
+ */
+export class WorkflowProgressBus {
+  private listeners = new Set<{ listener: WorkflowProgressListener; conditionId?: string }>();
+  private inFlight = new Map<string, WorkflowProgressEvent[]>();
+  private sequence = 0;
+
+  /**
+   * Publish a progress event for an analysis
+   *
+   * @param conditionId - Market being analyzed
+   * @param payload - Event payload
+   * @returns The published event
+   */
+  publish(conditionId: string, payload: WorkflowProgressPayload): WorkflowProgressEvent {
+    const event = {
+      ...payload,
+      id: ++this.sequence,
+      conditionId,
+      timestamp: Date.now(),
+    } as WorkflowProgressEvent;
+
+    if (event.type === 'analysis_started') {
+      this.inFlight.set(conditionId, [event]);
+    } else if (event.type === 'analysis_completed' || event.type === 'analysis_failed') {
+      this.inFlight.delete(conditionId);
+    } else {
+      this.inFlight.get(conditionId)?.push(event);
+    }
+
+    for (const subscription of this.listeners) {
+      if (subscription.conditionId && subscription.conditionId !== conditionId) continue;
+      try {
+        subscription.listener(event);
+      } catch (error) {
+        console.error('[WorkflowProgress] Listener failed:', error);
+      }
+    }
+
+    return event;
+  }
+
+  /**
+   * Subscribe to progress events
+   *
+   * @param listener - Called for each event
+   * @param conditionId - Only deliver events for this market
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: WorkflowProgressListener, conditionId?: string): () => void {
+    const subscription = { listener, conditionId };
+    this.listeners.add(subscription);
+    return () => {
+      this.listeners.delete(subscription);
+    };
+  }
+
+  /**
+   * Get condition IDs of analyses currently in flight
+   */
+  getInFlightAnalyses(): string[] {
+    return Array.from(this.inFlight.keys());
+  }
+
+  /**
+   * Get buffered events of in-flight analyses, oldest first
+   *
+   * @param conditionId - Only return events for this market
+   */
+  getBufferedEvents(conditionId?: string): WorkflowProgressEvent[] {
+    const buffers = conditionId
+      ? [this.inFlight.get(conditionId) || []]
+      : Array.from(this.inFlight.values());
+    return buffers.flat().sort((a, b) => a.id - b.id);
+  }
+
+  /**
+   * Get number of active subscribers
+   */
+  getSubscriberCount(): number {
+    return this.listeners.size;
+  }
+}
+
+/**
+ * Create a workflow progress bus
+ */
+export function createWorkflowProgressBus(): WorkflowProgressBus {
+  return new WorkflowProgressBus();
+}
+
+// ============================================================================
+// Graph Stream Consumption
+// ============================================================================
+
+/**
+ * Publish events for one node's state update
+ */
+function publishNodeUpdate(
+  bus: WorkflowProgressBus,
+  conditionId: string,
+  update: [string, unknown][]
+): void {
+  for (const [key, value] of update) {
+    if (key === 'agentSignals' && Array.isArray(value)) {
+      for (const signal of value as AgentSignal[]) {
+        bus.publish(conditionId, { type: 'agent_signal', signal });
+      }
+    } else if (key === 'recommendation' && value !== undefined) {
+      bus.publish(conditionId, {
+        type: 'recommendation',
+        recommendation: value as TradeRecommendation | null,
+      });
+    }
+  }
+}
+
+/**
+ * Consume a LangGraph stream and publish progress events
+ *
+ * Expects the graph to be streamed with `streamMode: ['tasks', 'values']`:
+ * task chunks drive node and signal events, and the last values chunk is the
+ * final graph state (what `invoke` would have returned).
+ *
+ * @param stream - Graph stream
+ * @param conditionId - Market being analyzed
+ * @param bus - Progress bus (events are skipped when absent)
+ * @returns Final graph state
+ */
+export async function consumeWorkflowStream<TState>(
+  stream: AsyncIterable<WorkflowStreamChunk>,
+  conditionId: string,
+  bus?: WorkflowProgressBus
+): Promise<TState> {
+  const startTime = Date.now();
+  const taskStartTimes = new Map<string, number>();
+  let finalState: TState | undefined;
+
+  bus?.publish(conditionId, { type: 'analysis_started' });
+
+  try {
+    for await (const [mode, chunk] of stream) {
+      if (mode === 'values') {
+        finalState = chunk as TState;
+        continue;
+      }
+      if (mode !== 'tasks' || !bus) continue;
+
+      const task = chunk as { id: string; name: string; result?: [string, unknown][] };
+      if (task.result === undefined) {
+        taskStartTimes.set(task.id, Date.now());
+        bus.publish(conditionId, { type: 'node_started', node: task.name });
+      } else {
+        const taskStart = taskStartTimes.get(task.id);
+        taskStartTimes.delete(task.id);
+        publishNodeUpdate(bus, conditionId, task.result);
+        bus.publish(conditionId, {
+          type: 'node_finished',
+          node: task.name,
+          durationMs: taskStart !== undefined ? Date.now() - taskStart : null,
+        });
+      }
+    }
+  } catch (error) {
+    bus?.publish(conditionId, {
+      type: 'analysis_failed',
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startTime,
+    });
+    throw error;
+  }
+
+  if (finalState === undefined) {
+    const error = new Error('Workflow stream ended without producing a final state');
+    bus?.publish(conditionId, {
+      type: 'analysis_failed',
+      error: error.message,
+      durationMs: Date.now() - startTime,
+    });
+    throw error;
+  }
+
+  bus?.publish(conditionId, { type: 'analysis_completed', durationMs: Date.now() - startTime });
+  return finalState;
+}
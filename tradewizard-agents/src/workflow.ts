@@ -11,11 +11,21 @@ import { OpikCallbackHandler } from 'opik-langchain';
 import { GraphState, type GraphStateType } from './models/state.js';
 import type { EngineConfig } from './config/index.js';
 import type { PolymarketClient } from './utils/polymarket-client.js';
-import type { TradeRecommendation, AgentSignal } from './models/types.js';
+import type { TradeRecommendation, AgentSignal, EventAnalysis } from './models/types.js';
 import { GraphExecutionLogger } from './utils/audit-logger.js';
 import { createDataIntegrationLayer } from './utils/data-integration.js';
 import { createPostgresCheckpointer } from './database/postgres-checkpointer.js';
 import { createMemoryRetrievalService } from './database/memory-retrieval.js';
+import { createDatabasePersistence } from './database/persistence.js';
+import { createPerformanceLedgerLoader } from './utils/performance-tracking.js';
+import { createFusionWeightsLoader } from './utils/fusion-weights.js';
+import { createCalibrationModelLoader } from './utils/probability-calibration.js';
+import { MemoryStoryStore, StoryTracker, SupabaseStoryStore } from './utils/story-clustering.js';
+import {
+  consumeWorkflowStream,
+  type WorkflowProgressBus,
+  type WorkflowStreamChunk,
+} from './utils/workflow-progress.js';
 import type { SupabaseClientManager } from './database/supabase-client.js';
 import {
   createMarketIngestionNode,
@@ -25,7 +35,11 @@ import {
   createThesisConstructionNode,
   createCrossExaminationNode,
   createConsensusEngineNode,
+  createProbabilityCalibrationNode,
   createRecommendationGenerationNode,
+  createResolutionRiskNode,
+  createStoryClusteringNode,
+  createExternalDataNode,
   createDynamicAgentSelectionNode,
   createEventImpactAgentNode,
   createHistoricalPatternAgentNode,
@@ -41,8 +55,16 @@ import {
   createAutonomousBreakingNewsAgentNode,
   createAutonomousMediaSentimentAgentNode,
   createAutonomousMarketMicrostructureAgentNode,
+  createAgentPluginNodes,
+  registerBuiltInAgentPlugins,
+  runEventAnalysis,
+  type EventDistributionAgent,
 } from './nodes/index.js';
 import { createWebResearchAgentNode } from './nodes/web-research-agent.js';
+import { configurePromptRegistry } from './utils/prompt-registry.js';
+import { configureSourceRegistry } from './utils/source-credibility.js';
+import { createNewsDataCacheFromConfig } from './utils/newsdata-cache-manager.js';
+import { defaultAgentRegistry } from './utils/agent-registry.js';
 
 /**
  * Create the Market Intelligence Engine workflow
@@ -75,27 +97,24 @@ export async function createWorkflow(
   };
   const dataLayer = createDataIntegrationLayer(dataLayerConfig);
 
+  // Plugin agents from the agent registry (built-in domain agents plus any
+  // registered by the caller)
+  registerBuiltInAgentPlugins();
+  const pluginAgents = createAgentPluginNodes(config);
+
+  // Prompt templates and experiments are resolved by each node at invocation time
+  await configurePromptRegistry(config);
+
   // Create all node functions
   const marketIngestion = createMarketIngestionNode(polymarketClient);
+  const resolutionRisk = createResolutionRiskNode();
   const keywordExtraction = createKeywordExtractionNode(config, existingOpikHandler);
   
   // Create memory retrieval service and node (Requirements 2.1, 5.2)
   // Define all agent names that need memory context
   const allAgentNames = [
-    'market_microstructure',
-    'probability_baseline',
-    'risk_assessment',
-    'breaking_news',
-    'event_impact',
-    'polling_intelligence',
-    'historical_pattern',
-    'media_sentiment',
-    'social_sentiment',
-    'narrative_velocity',
-    'momentum',
-    'mean_reversion',
-    'catalyst',
-    'tail_risk',
+    ...defaultAgentRegistry.listBuiltIn().map(({ name }) => name),
+    ...pluginAgents.map(({ plugin }) => plugin.name),
   ];
   
   let memoryRetrieval;
@@ -128,6 +147,16 @@ export async function createWorkflow(
   const consensusEngine = createConsensusEngineNode(config);
   const recommendationGeneration = createRecommendationGenerationNode(config);
 
+  // Stories persist per market in Supabase so growth is tracked across runs
+  const storyTracker = new StoryTracker(
+    supabaseManager
+      ? new SupabaseStoryStore(supabaseManager, config.storyClustering?.maxStories)
+      : new MemoryStoryStore(),
+    config.storyClustering
+  );
+  const storyClustering = createStoryClusteringNode(config, dataLayer, storyTracker);
+  const externalData = createExternalDataNode(config, dataLayer);
+
   // Create advanced agent nodes
   const dynamicAgentSelection = createDynamicAgentSelectionNode(config, dataLayer);
   const eventImpactAgent = createEventImpactAgentNode(config);
@@ -139,22 +168,28 @@ export async function createWorkflow(
   }
   const pollingIntelligenceAgent = createAutonomousPollingAgentNode(config);
   
+  // One NewsData response cache for all news agents; with the sqlite or
+  // postgres backend it outlives this workflow
+  const newsDataCache = config.newsData?.cache.enabled
+    ? createNewsDataCacheFromConfig(config.newsData.cache, supabaseManager)
+    : undefined;
+  
   // Create news agents - always use autonomous versions (Requirements 10)
   // Log warnings if config tries to disable autonomous mode
   if (!config.newsAgents.breakingNewsAgent.autonomous) {
     console.warn('[Workflow] Non-autonomous breaking news agent is deprecated and removed. Using autonomous version.');
   }
-  const breakingNewsAgentNode = createAutonomousBreakingNewsAgentNode(config);
+  const breakingNewsAgentNode = createAutonomousBreakingNewsAgentNode(config, newsDataCache);
   
   if (!config.newsAgents.mediaSentimentAgent.autonomous) {
     console.warn('[Workflow] Non-autonomous media sentiment agent is deprecated and removed. Using autonomous version.');
   }
-  const mediaSentimentAgentNode = createAutonomousMediaSentimentAgentNode(config);
+  const mediaSentimentAgentNode = createAutonomousMediaSentimentAgentNode(config, newsDataCache);
   
   if (!config.newsAgents.marketMicrostructureAgent.autonomous) {
     console.warn('[Workflow] Non-autonomous market microstructure agent is deprecated and removed. Using autonomous version.');
   }
-  const marketMicrostructureAgentNode = createAutonomousMarketMicrostructureAgentNode(config);
+  const marketMicrostructureAgentNode = createAutonomousMarketMicrostructureAgentNode(config, newsDataCache);
   
   // Create Web Research Agent (conditionally enabled)
   const webResearchAgent = config.webResearch?.enabled !== false 
@@ -168,13 +203,31 @@ export async function createWorkflow(
   const meanReversionAgent = createMeanReversionAgentNode(config);
   const catalystAgent = createCatalystAgentNode(config);
   const tailRiskAgent = createTailRiskAgentNode(config);
-  const agentSignalFusion = createAgentSignalFusionNode(config);
+  // Models fitted on resolved markets (performance ledger, learned fusion
+  // weights, calibration) are only available with a database
+  const database = supabaseManager ? createDatabasePersistence(supabaseManager) : null;
+  // Source tiers are read by agents and cross-examination at invocation time
+  await configureSourceRegistry(config, database);
+  const agentSignalFusion = createAgentSignalFusionNode(
+    config,
+    database
+      ? {
+          loadHistoricalPerformance: createPerformanceLedgerLoader(database, config),
+          loadFusionWeights: createFusionWeightsLoader(database, config),
+        }
+      : {}
+  );
+  const probabilityCalibration = createProbabilityCalibrationNode(
+    config,
+    database ? createCalibrationModelLoader(database, config) : undefined
+  );
   const riskPhilosophyAgents = createRiskPhilosophyAgentNodes(config);
 
   // Create the StateGraph
   const workflow = new StateGraph(GraphState)
     // Add all nodes to the graph
     .addNode('market_ingestion', marketIngestion)
+    .addNode('resolution_risk', resolutionRisk)
     .addNode('memory_retrieval', memoryRetrieval);
   
   // Add Web Research Agent node (conditionally)
@@ -184,6 +237,8 @@ export async function createWorkflow(
   
   workflow
     .addNode('keyword_extraction', keywordExtraction)
+    .addNode('story_clustering', storyClustering)
+    .addNode('external_data', externalData)
     .addNode('dynamic_agent_selection', dynamicAgentSelection)
     
     // MVP agents (conditionally autonomous based on configuration)
@@ -219,6 +274,7 @@ export async function createWorkflow(
     .addNode('thesis_construction', thesisConstruction)
     .addNode('cross_examination', crossExamination)
     .addNode('consensus_engine', consensusEngine)
+    .addNode('probability_calibration', probabilityCalibration)
     
     // Risk Philosophy agents
     .addNode('risk_philosophy_aggressive', riskPhilosophyAgents.aggressiveAgent)
@@ -238,14 +294,15 @@ export async function createWorkflow(
         if (state.ingestionError) {
           return 'error';
         }
-        // Otherwise, proceed to memory retrieval
-        return 'memory_retrieval';
+        // Otherwise, analyze resolution criteria before memory retrieval
+        return 'resolution_risk';
       },
       {
-        memory_retrieval: 'memory_retrieval',
+        resolution_risk: 'resolution_risk',
         error: END,
       }
     )
+    .addEdge('resolution_risk', 'memory_retrieval')
 
     // Add edge from memory retrieval to web research or keyword extraction
     if (webResearchAgent) {
@@ -255,8 +312,10 @@ export async function createWorkflow(
       workflow.addEdge('memory_retrieval', 'keyword_extraction');
     }
 
-    // Add edge from keyword extraction to dynamic agent selection
-    workflow.addEdge('keyword_extraction', 'dynamic_agent_selection');
+    // Cluster news into stories and load external data before agents are selected
+    workflow.addEdge('keyword_extraction', 'story_clustering');
+    workflow.addEdge('story_clustering', 'external_data');
+    workflow.addEdge('external_data', 'dynamic_agent_selection');
 
     // Add parallel edges from dynamic_agent_selection to all agent nodes
     // MVP agents (always active)
@@ -294,6 +353,15 @@ export async function createWorkflow(
     workflow.addEdge('catalyst_agent', 'agent_signal_fusion');
     workflow.addEdge('tail_risk_agent', 'agent_signal_fusion');
 
+    // Plugin agents run in parallel with the built-in agents. Their node names
+    // are only known at runtime, so addNode widens the graph's node names to string.
+    for (const { nodeName, node } of pluginAgents) {
+      workflow
+        .addNode(nodeName, node)
+        .addEdge('dynamic_agent_selection', nodeName)
+        .addEdge(nodeName, 'agent_signal_fusion');
+    }
+
     // Add edge from signal fusion to thesis construction
     workflow.addEdge('agent_signal_fusion', 'thesis_construction');
 
@@ -301,10 +369,13 @@ export async function createWorkflow(
     workflow.addEdge('thesis_construction', 'cross_examination');
     workflow.addEdge('cross_examination', 'consensus_engine');
     
-    // Add parallel edges from consensus to risk philosophy agents
-    workflow.addEdge('consensus_engine', 'risk_philosophy_aggressive');
-    workflow.addEdge('consensus_engine', 'risk_philosophy_conservative');
-    workflow.addEdge('consensus_engine', 'risk_philosophy_neutral');
+    // Calibrate the consensus probability before it is used for trading decisions
+    workflow.addEdge('consensus_engine', 'probability_calibration');
+
+    // Add parallel edges from calibrated consensus to risk philosophy agents
+    workflow.addEdge('probability_calibration', 'risk_philosophy_aggressive');
+    workflow.addEdge('probability_calibration', 'risk_philosophy_conservative');
+    workflow.addEdge('probability_calibration', 'risk_philosophy_neutral');
     
     // Add edges from risk philosophy agents to recommendation generation
     workflow.addEdge('risk_philosophy_aggressive', 'recommendation_generation');
@@ -407,6 +478,7 @@ export interface AnalysisResult {
  * @param polymarketClient - Polymarket API client (only used for local execution)
  * @param supabaseManager - Optional Supabase client manager (only used for local execution)
  * @param existingOpikHandler - Optional Opik handler (only used for local execution)
+ * @param progress - Optional bus receiving live progress events
  * @returns Analysis result with recommendation and agent signals
  */
 export async function analyzeMarket(
@@ -414,12 +486,13 @@ export async function analyzeMarket(
   config: EngineConfig,
   polymarketClient: PolymarketClient,
   supabaseManager?: SupabaseClientManager,
-  existingOpikHandler?: any
+  existingOpikHandler?: any,
+  progress?: WorkflowProgressBus
 ): Promise<AnalysisResult> {
   // Check if workflow service URL is configured (Requirements 1.2, 1.3, 9.1, 9.2)
   if (config.workflowService?.url) {
     console.log(`[Workflow] Using workflow service at ${config.workflowService.url}`);
-    return executeRemoteWorkflow(conditionId, config);
+    return executeRemoteWorkflow(conditionId, config, progress);
   }
 
   console.log('[Workflow] Using local workflow execution');
@@ -428,20 +501,54 @@ export async function analyzeMarket(
     config,
     polymarketClient,
     supabaseManager,
-    existingOpikHandler
+    existingOpikHandler,
+    progress
   );
 }
 
+/**
+ * Analyze a multi-outcome event
+ *
+ * Fetches the event with all of its markets and runs the event-level
+ * analysis, which reasons over every outcome jointly and returns a
+ * normalized distribution with mutually consistent per-outcome
+ * recommendations. Always runs locally.
+ *
+ * @param eventId - Polymarket event ID to analyze
+ * @param config - Engine configuration
+ * @param polymarketClient - Polymarket API client
+ * @param agents - Optional event distribution agents (defaults to the configured LLM agents)
+ * @returns Event analysis
+ */
+export async function analyzeEvent(
+  eventId: string,
+  config: EngineConfig,
+  polymarketClient: PolymarketClient,
+  agents?: EventDistributionAgent[]
+): Promise<EventAnalysis> {
+  const eventWithMarkets = await polymarketClient.fetchEventWithAllMarkets(eventId);
+  if (!eventWithMarkets) {
+    throw new Error(`Event ${eventId} not found or Polymarket API unavailable`);
+  }
+
+  return runEventAnalysis(eventWithMarkets, config, agents);
+}
+
 /**
  * Execute workflow via remote service
  *
+ * The remote service does not stream node progress, so only the start,
+ * signals, recommendation and completion are published.
+ *
  * @param conditionId - Polymarket condition ID to analyze
  * @param config - Engine configuration
+ * @param progress - Optional bus receiving progress events
  * @returns Analysis result from workflow service
  */
 async function executeRemoteWorkflow(
   conditionId: string,
-  config: EngineConfig
+  config: EngineConfig,
+  progress?: WorkflowProgressBus
 ): Promise<AnalysisResult> {
   const { createWorkflowServiceClient } = await import('./utils/workflow-service-client.js');
   const client = createWorkflowServiceClient(config);
@@ -450,7 +557,31 @@ async function executeRemoteWorkflow(
     throw new Error('Workflow service client could not be created');
   }
 
-  return client.analyzeMarket(conditionId);
+  const startTime = Date.now();
+  progress?.publish(conditionId, { type: 'analysis_started' });
+
+  try {
+    const result = await client.analyzeMarket(conditionId);
+    for (const signal of result.agentSignals) {
+      progress?.publish(conditionId, { type: 'agent_signal', signal });
+    }
+    progress?.publish(conditionId, {
+      type: 'recommendation',
+      recommendation: result.recommendation,
+    });
+    progress?.publish(conditionId, {
+      type: 'analysis_completed',
+      durationMs: Date.now() - startTime,
+    });
+    return result;
+  } catch (error) {
+    progress?.publish(conditionId, {
+      type: 'analysis_failed',
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startTime,
+    });
+    throw error;
+  }
 }
 
 /**
@@ -461,6 +592,7 @@ async function executeRemoteWorkflow(
  * @param polymarketClient - Polymarket API client
  * @param supabaseManager - Optional Supabase client manager for PostgreSQL checkpointing
  * @param existingOpikHandler - Optional Opik handler
+ * @param progress - Optional bus receiving live progress events
  * @returns Analysis result with recommendation and agent signals
  */
 async function executeLocalWorkflow(
@@ -468,7 +600,8 @@ async function executeLocalWorkflow(
   config: EngineConfig,
   polymarketClient: PolymarketClient,
   supabaseManager?: SupabaseClientManager,
-  existingOpikHandler?: any
+  existingOpikHandler?: any,
+  progress?: WorkflowProgressBus
 ): Promise<AnalysisResult> {
   // Create structured logger for this execution
   const logger = new GraphExecutionLogger();
@@ -478,17 +611,25 @@ async function executeLocalWorkflow(
   const { app, opikHandler } = await createWorkflow(config, polymarketClient, supabaseManager, existingOpikHandler);
 
   try {
-    // Execute the workflow with thread_id for checkpointing and tracing
-    logger.info('workflow', 'Invoking LangGraph workflow');
-    const result = await app.invoke(
+    // Execute the workflow with thread_id for checkpointing and tracing.
+    // Streaming task events lets in-flight progress be published; the last
+    // values chunk is the same final state invoke() would return.
+    logger.info('workflow', 'Streaming LangGraph workflow');
+    const stream = await app.stream(
       { conditionId },
       {
         configurable: {
           thread_id: conditionId, // Used for both LangGraph checkpointing and Opik thread tracking
         },
         callbacks: [opikHandler], // Add Opik handler as callback for automatic tracing
+        streamMode: ['tasks', 'values'],
       }
     );
+    const result = await consumeWorkflowStream<GraphStateType>(
+      stream as AsyncIterable<WorkflowStreamChunk>,
+      conditionId,
+      progress
+    );
 
     // Flush Opik traces before returning
     logger.info('workflow', 'Flushing Opik traces');
@@ -0,0 +1,54 @@
+-- Migration: Portfolio allocations
+-- Description: Stores bankroll-level position sizes assigned to open recommendations
+--              by the portfolio allocator (fractional Kelly under exposure caps)
+-- Author: TradeWizard Team
+-- Date: 2026-03-15
+
+-- ============================================================================
+-- Event grouping for markets
+-- ============================================================================
+-- Markets from the same Polymarket event are highly correlated; the allocator
+-- caps combined exposure per event.
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'markets'
+        AND column_name = 'event_id'
+    ) THEN
+        ALTER TABLE markets
+        ADD COLUMN event_id TEXT;
+
+        COMMENT ON COLUMN markets.event_id IS 'Polymarket event ID the market belongs to';
+
+        CREATE INDEX idx_markets_event_id ON markets(event_id) WHERE event_id IS NOT NULL;
+    END IF;
+END $$;
+
+-- ============================================================================
+-- Portfolio Allocations Table
+-- ============================================================================
+-- One row per recommendation per allocation run. All rows from one run share
+-- allocation_run_id so the latest portfolio can be reconstructed.
+CREATE TABLE IF NOT EXISTS portfolio_allocations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  allocation_run_id UUID NOT NULL,
+  recommendation_id UUID REFERENCES recommendations(id) ON DELETE CASCADE,
+  market_id TEXT REFERENCES markets(id) ON DELETE CASCADE,
+  exposure_group TEXT NOT NULL, -- Event or correlation group used for the event cap
+  category TEXT NOT NULL,
+  direction TEXT NOT NULL CHECK (direction IN ('LONG_YES', 'LONG_NO')),
+  bankroll DECIMAL(14,2) NOT NULL,
+  kelly_fraction DECIMAL(5,4) NOT NULL, -- Fraction of full Kelly applied
+  full_kelly DECIMAL(8,6) NOT NULL, -- Unscaled Kelly fraction of bankroll
+  target_usd DECIMAL(14,2) NOT NULL, -- Fractional Kelly size before caps
+  allocated_usd DECIMAL(14,2) NOT NULL, -- Final size after caps
+  binding_constraint TEXT NOT NULL, -- none | market | event | category | total | min_size | no_edge
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_portfolio_allocations_run_id ON portfolio_allocations(allocation_run_id);
+CREATE INDEX IF NOT EXISTS idx_portfolio_allocations_recommendation_id ON portfolio_allocations(recommendation_id);
+CREATE INDEX IF NOT EXISTS idx_portfolio_allocations_created_at ON portfolio_allocations(created_at DESC);
+
+COMMENT ON TABLE portfolio_allocations IS 'Dollar position sizes assigned to open recommendations by the portfolio allocator';
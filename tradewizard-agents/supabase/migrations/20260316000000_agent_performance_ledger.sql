@@ -0,0 +1,30 @@
+-- Migration: Agent performance ledger
+-- Description: Persists per-agent forecast accuracy on resolved markets so signal
+--              fusion can weight agents by historical Brier scores across restarts
+-- Author: TradeWizard Team
+-- Date: 2026-03-16
+
+-- ============================================================================
+-- Agent Performance Ledger Table
+-- ============================================================================
+-- One row per agent, market category (event type) and monthly window. Each
+-- resolved market adds the agent's final forecast to the window containing the
+-- resolution date; sums are stored so windows can be combined when reading.
+CREATE TABLE IF NOT EXISTS agent_performance_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_name TEXT NOT NULL,
+  category TEXT NOT NULL, -- Market event type
+  window_start DATE NOT NULL, -- First day of the month (UTC)
+  predictions INTEGER NOT NULL DEFAULT 0,
+  brier_sum DOUBLE PRECISION NOT NULL DEFAULT 0, -- Sum of (p - outcome)^2
+  log_loss_sum DOUBLE PRECISION NOT NULL DEFAULT 0, -- Sum of -ln(p assigned to outcome)
+  correct_predictions INTEGER NOT NULL DEFAULT 0, -- Forecasts on the right side of 50%
+  confidence_sum DOUBLE PRECISION NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (agent_name, category, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_performance_ledger_agent ON agent_performance_ledger(agent_name);
+CREATE INDEX IF NOT EXISTS idx_agent_performance_ledger_window ON agent_performance_ledger(window_start DESC);
+
+COMMENT ON TABLE agent_performance_ledger IS 'Per-agent forecast accuracy on resolved markets by category and month';
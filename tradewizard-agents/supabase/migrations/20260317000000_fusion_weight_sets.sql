@@ -0,0 +1,24 @@
+-- Migration: Fusion weight sets
+-- Description: Stores versioned signal fusion weights fitted from resolved
+--              agent_signals history (logistic stacking on agent forecasts)
+-- Author: TradeWizard Team
+-- Date: 2026-03-17
+
+-- ============================================================================
+-- Fusion Weight Sets Table
+-- ============================================================================
+-- One row per fitted weight set. The model column holds the global model and
+-- per-category models (intercept and per-agent weights). The fusion node uses
+-- the version named by SIGNAL_FUSION_WEIGHTS_VERSION, or the latest row.
+CREATE TABLE IF NOT EXISTS fusion_weight_sets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  version TEXT NOT NULL UNIQUE,
+  model JSONB NOT NULL,
+  training_examples INTEGER NOT NULL,
+  evaluation JSONB, -- Holdout scores of learned vs equal-weight fusion
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fusion_weight_sets_created_at ON fusion_weight_sets(created_at DESC);
+
+COMMENT ON TABLE fusion_weight_sets IS 'Versioned signal fusion weights learned from resolved markets';
@@ -0,0 +1,37 @@
+-- Migration: Probability calibration
+-- Description: Records raw (uncalibrated) consensus probabilities and regimes on
+--              recommendations, and stores versioned calibration models fitted
+--              from resolved recommendations
+-- Author: TradeWizard Team
+-- Date: 2026-03-18
+
+-- ============================================================================
+-- Recommendation Columns
+-- ============================================================================
+-- fair_probability holds the calibrated consensus once calibration is active;
+-- raw_fair_probability keeps the input to calibration so models can be refit.
+ALTER TABLE recommendations ADD COLUMN IF NOT EXISTS raw_fair_probability DECIMAL(5, 4);
+ALTER TABLE recommendations ADD COLUMN IF NOT EXISTS probability_regime TEXT;
+
+COMMENT ON COLUMN recommendations.raw_fair_probability IS 'Consensus probability before calibration';
+COMMENT ON COLUMN recommendations.probability_regime IS 'Consensus regime (high-confidence, moderate-confidence, high-uncertainty)';
+
+-- ============================================================================
+-- Calibration Models Table
+-- ============================================================================
+-- One row per fitted model set. The model column holds the global calibrator
+-- and per-regime calibrators. The calibration stage uses the version named by
+-- CALIBRATION_MODEL_VERSION, or the latest row.
+CREATE TABLE IF NOT EXISTS calibration_models (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  version TEXT NOT NULL UNIQUE,
+  method TEXT NOT NULL CHECK (method IN ('isotonic', 'platt')),
+  model JSONB NOT NULL,
+  training_examples INTEGER NOT NULL,
+  evaluation JSONB, -- Holdout scores before and after calibration
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_calibration_models_created_at ON calibration_models(created_at DESC);
+
+COMMENT ON TABLE calibration_models IS 'Versioned probability calibration models fitted on resolved recommendations';
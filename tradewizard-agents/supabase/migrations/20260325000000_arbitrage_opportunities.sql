@@ -0,0 +1,34 @@
+-- Migration: Arbitrage opportunities
+-- Description: Stores ranked cross-market arbitrage and inconsistency
+--              opportunities found by the arbitrage scanner
+-- Author: TradeWizard Team
+-- Date: 2026-03-25
+
+-- ============================================================================
+-- Arbitrage Opportunities Table
+-- ============================================================================
+-- One row per opportunity per scan. Rows from the same scan share scan_id and
+-- are ranked 1..n by risk-weighted expected profit.
+CREATE TABLE IF NOT EXISTS arbitrage_opportunities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scan_id UUID NOT NULL,
+  rank INTEGER NOT NULL,
+  opportunity_type TEXT NOT NULL CHECK (opportunity_type IN ('sum_of_outcomes', 'implied_constraint', 'stale_price')),
+  event_id TEXT NOT NULL,
+  event_title TEXT NOT NULL,
+  legs JSONB NOT NULL, -- Markets, sides and prices to buy per bundle
+  bundle_value DECIMAL(10, 4) NOT NULL,
+  edge DECIMAL(10, 4) NOT NULL,
+  executable_size DECIMAL(14, 2) NOT NULL, -- USD, 0 when the order book was unavailable
+  expected_profit DECIMAL(14, 2) NOT NULL,
+  risk_level TEXT NOT NULL CHECK (risk_level IN ('low', 'medium', 'high')),
+  description TEXT NOT NULL,
+  analysis JSONB NOT NULL,
+  detected_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_arbitrage_opportunities_detected_at ON arbitrage_opportunities(detected_at DESC);
+CREATE INDEX IF NOT EXISTS idx_arbitrage_opportunities_scan ON arbitrage_opportunities(scan_id, rank);
+
+COMMENT ON TABLE arbitrage_opportunities IS 'Ranked cross-market arbitrage and inconsistency opportunities from the arbitrage scanner';
@@ -0,0 +1,38 @@
+-- Migration: Position advice
+-- Description: Stores HOLD / TAKE_PROFIT / CUT / ADD advice for open positions,
+--              produced when a market with an active recommendation is re-analyzed
+-- Author: TradeWizard Team
+-- Date: 2026-04-01
+
+-- ============================================================================
+-- Position Advice Table
+-- ============================================================================
+-- One row per re-analysis of a market whose previous recommendation implied a
+-- position. recommendation_id is the fresh recommendation the advice was
+-- derived from. Prices and edges are in terms of the held side; probabilities
+-- are consensus probabilities of YES.
+CREATE TABLE IF NOT EXISTS position_advice (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  market_id TEXT REFERENCES markets(id) ON DELETE CASCADE,
+  recommendation_id UUID REFERENCES recommendations(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('HOLD', 'TAKE_PROFIT', 'CUT', 'ADD')),
+  direction TEXT NOT NULL CHECK (direction IN ('LONG_YES', 'LONG_NO')),
+  current_price DECIMAL(5, 4) NOT NULL,
+  entry_price DECIMAL(5, 4) NOT NULL,
+  unrealized_return DECIMAL(10, 4) NOT NULL,
+  target_zone_min DECIMAL(5, 4) NOT NULL,
+  target_zone_max DECIMAL(5, 4) NOT NULL,
+  stop_loss DECIMAL(5, 4) NOT NULL,
+  previous_probability DECIMAL(5, 4) NOT NULL,
+  current_probability DECIMAL(5, 4) NOT NULL,
+  consensus_drift DECIMAL(5, 4) NOT NULL,
+  remaining_edge DECIMAL(5, 4) NOT NULL,
+  new_catalysts JSONB NOT NULL DEFAULT '[]'::jsonb,
+  reasons JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_position_advice_market_created ON position_advice(market_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_position_advice_action ON position_advice(action);
+
+COMMENT ON TABLE position_advice IS 'Exit and rebalancing advice for positions implied by previous recommendations';
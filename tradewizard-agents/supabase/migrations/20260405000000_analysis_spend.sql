@@ -0,0 +1,25 @@
+-- Migration: Analysis spend ledger
+-- Description: Persists the spend of every monitor analysis so the
+--              budget-aware analysis planner survives restarts
+-- Author: TradeWizard Team
+-- Date: 2026-04-05
+
+-- ============================================================================
+-- Analysis Spend Table
+-- ============================================================================
+-- One row per analysis. The planner sums COALESCE(actual_cost, estimated_cost)
+-- since the start of the UTC day to get the day's spend.
+CREATE TABLE IF NOT EXISTS analysis_spend (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  condition_id TEXT NOT NULL,
+  agents JSONB NOT NULL DEFAULT '[]'::jsonb, -- Planned agent set, empty when unplanned
+  estimated_cost DECIMAL(10, 4) NOT NULL,
+  actual_cost DECIMAL(10, 4), -- From LLM usage records when available
+  value_of_information DECIMAL(5, 4),
+  spent_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_spend_spent_at ON analysis_spend(spent_at DESC);
+
+COMMENT ON TABLE analysis_spend IS 'Per-analysis spend ledger for the budget-aware analysis planner';
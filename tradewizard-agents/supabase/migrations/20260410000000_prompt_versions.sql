@@ -0,0 +1,32 @@
+-- Migration: Prompt versions
+-- Description: Records the prompt version behind each agent signal and splits the
+--              agent performance ledger by prompt version so resolved accuracy
+--              can be compared across prompt experiments
+-- Author: TradeWizard Team
+-- Date: 2026-04-10
+
+-- ============================================================================
+-- Agent Signals
+-- ============================================================================
+-- NULL for signals stored before prompt versioning (equivalent to 'baseline').
+ALTER TABLE agent_signals ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_agent_signals_prompt_version
+  ON agent_signals(agent_name, prompt_version);
+
+-- ============================================================================
+-- Agent Performance Ledger
+-- ============================================================================
+-- Existing rows were all produced by the built-in prompts.
+ALTER TABLE agent_performance_ledger
+  ADD COLUMN IF NOT EXISTS prompt_version TEXT NOT NULL DEFAULT 'baseline';
+
+ALTER TABLE agent_performance_ledger
+  DROP CONSTRAINT IF EXISTS agent_performance_ledger_agent_name_category_window_start_key;
+
+ALTER TABLE agent_performance_ledger
+  ADD CONSTRAINT agent_performance_ledger_agent_category_window_version_key
+  UNIQUE (agent_name, category, window_start, prompt_version);
+
+COMMENT ON COLUMN agent_signals.prompt_version IS 'Prompt version the agent ran with (see prompt registry)';
+COMMENT ON COLUMN agent_performance_ledger.prompt_version IS 'Prompt version the scored forecasts were produced with';
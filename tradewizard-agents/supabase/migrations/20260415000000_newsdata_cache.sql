@@ -0,0 +1,28 @@
+-- Migration: Shared NewsData cache
+-- Description: Postgres storage backend for NewsDataCacheManager so monitor
+--              replicas and CLI runs share cached NewsData responses and a
+--              restart keeps the warm cache
+-- Author: TradeWizard Team
+-- Date: 2026-04-15
+
+-- ============================================================================
+-- NewsData Cache Table
+-- ============================================================================
+-- One row per cache key. Freshness and staleness are evaluated by the cache
+-- manager from cached_at and ttl_ms; rows past their stale window are deleted
+-- on read or by evictExpired().
+CREATE TABLE IF NOT EXISTS newsdata_cache (
+  cache_key TEXT PRIMARY KEY,
+  payload TEXT NOT NULL, -- JSON, or base64 gzip when compressed
+  compressed BOOLEAN NOT NULL DEFAULT FALSE,
+  cached_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ttl_ms INTEGER NOT NULL,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  last_accessed TIMESTAMP WITH TIME ZONE NOT NULL,
+  original_size INTEGER,
+  compressed_size INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_newsdata_cache_last_accessed ON newsdata_cache(last_accessed);
+
+COMMENT ON TABLE newsdata_cache IS 'Shared NewsData API response cache (NEWSDATA_CACHE_BACKEND=postgres)';
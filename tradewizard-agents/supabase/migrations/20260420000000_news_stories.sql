@@ -0,0 +1,32 @@
+-- Migration: News stories
+-- Description: Story clusters behind each market's news coverage, with first
+--              seen time, sources and growth snapshots, so narrative velocity
+--              is measured on story growth across analysis runs
+-- Author: TradeWizard Team
+-- Date: 2026-04-20
+
+-- ============================================================================
+-- News Stories Table
+-- ============================================================================
+-- One row per story per market. term_counts is the story's title vocabulary
+-- used to assign new articles; articles holds { url, source, publishedAt } and
+-- snapshots holds { timestamp, articleCount, sourceCount } per analysis run.
+CREATE TABLE IF NOT EXISTS news_stories (
+  market_id TEXT NOT NULL,
+  story_id TEXT NOT NULL,
+  headline TEXT NOT NULL,
+  term_counts JSONB NOT NULL DEFAULT '{}'::jsonb,
+  articles JSONB NOT NULL DEFAULT '[]'::jsonb,
+  snapshots JSONB NOT NULL DEFAULT '[]'::jsonb,
+  article_count INTEGER NOT NULL DEFAULT 0,
+  source_count INTEGER NOT NULL DEFAULT 0,
+  first_seen TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_seen TIMESTAMP WITH TIME ZONE NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (market_id, story_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_news_stories_market_last_seen
+  ON news_stories(market_id, last_seen DESC);
+
+COMMENT ON TABLE news_stories IS 'News story clusters and growth snapshots per market (narrative timeline)';
@@ -0,0 +1,16 @@
+-- Migration: Signal citations
+-- Description: Stores the articles and search results behind each agent signal's
+--              key drivers, with the source's credibility tier at analysis time,
+--              so the frontend can link claims to evidence and source credibility
+--              can be re-learned from resolved markets
+-- Author: TradeWizard Team
+-- Date: 2026-04-25
+
+-- ============================================================================
+-- Agent Signals
+-- ============================================================================
+-- Array of { claim, url, title, source, tier, credibility, publishedAt? }.
+-- NULL for signals stored before citations were recorded.
+ALTER TABLE agent_signals ADD COLUMN IF NOT EXISTS citations JSONB;
+
+COMMENT ON COLUMN agent_signals.citations IS 'Sources backing the signal''s key drivers (see source credibility registry)';
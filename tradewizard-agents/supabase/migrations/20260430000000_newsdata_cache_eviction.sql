@@ -0,0 +1,37 @@
+-- Migration: Shared NewsData cache eviction
+-- Description: Evicts newsdata_cache overflow in one ordered, limited delete so
+--              replicas sharing the cache evict by the access times every
+--              replica recorded instead of listing the table
+-- Author: TradeWizard Team
+-- Date: 2026-04-30
+
+-- ============================================================================
+-- Eviction
+-- ============================================================================
+-- Deletes the rows beyond max_entries, never keep_key (the entry just written),
+-- ordered by policy: 'lru' least recently accessed, 'lfu' least hit, 'ttl'
+-- soonest to expire. Returns the evicted cache keys.
+CREATE OR REPLACE FUNCTION evict_newsdata_cache(
+  max_entries INTEGER,
+  policy TEXT,
+  keep_key TEXT DEFAULT NULL
+)
+RETURNS SETOF TEXT
+LANGUAGE sql
+AS $$
+  DELETE FROM newsdata_cache
+  WHERE cache_key IN (
+    SELECT cache_key
+    FROM newsdata_cache
+    WHERE cache_key IS DISTINCT FROM keep_key
+    ORDER BY
+      CASE WHEN policy = 'lfu' THEN hit_count END,
+      CASE WHEN policy = 'ttl' THEN cached_at + ttl_ms * INTERVAL '1 millisecond' END,
+      last_accessed,
+      cache_key
+    LIMIT GREATEST((SELECT COUNT(*) FROM newsdata_cache) - max_entries, 0)
+  )
+  RETURNING cache_key;
+$$;
+
+COMMENT ON FUNCTION evict_newsdata_cache IS 'Delete newsdata_cache rows beyond max_entries in eviction-policy order';
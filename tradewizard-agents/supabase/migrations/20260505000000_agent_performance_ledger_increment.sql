@@ -0,0 +1,63 @@
+-- Migration: Atomic agent performance ledger increments
+-- Description: Adds resolved-market scores to agent_performance_ledger with one
+--              upsert that increments the stored sums, so markets resolving
+--              concurrently cannot overwrite each other's counts
+-- Author: TradeWizard Team
+-- Date: 2026-05-05
+
+-- ============================================================================
+-- Ledger Increment
+-- ============================================================================
+-- deltas is a JSON array of per-agent scores for one resolved market:
+-- [{ agent_name, category, window_start, prompt_version, predictions,
+--    brier_sum, log_loss_sum, correct_predictions, confidence_sum }]
+-- New (agent, category, window, prompt version) rows are inserted as-is;
+-- existing rows have each delta added to their sums.
+CREATE OR REPLACE FUNCTION increment_agent_performance_ledger(deltas JSONB)
+RETURNS VOID
+LANGUAGE sql
+AS $$
+  INSERT INTO agent_performance_ledger AS ledger (
+    agent_name,
+    category,
+    window_start,
+    prompt_version,
+    predictions,
+    brier_sum,
+    log_loss_sum,
+    correct_predictions,
+    confidence_sum,
+    updated_at
+  )
+  SELECT
+    delta.agent_name,
+    delta.category,
+    delta.window_start,
+    COALESCE(delta.prompt_version, 'baseline'),
+    delta.predictions,
+    delta.brier_sum,
+    delta.log_loss_sum,
+    delta.correct_predictions,
+    delta.confidence_sum,
+    NOW()
+  FROM jsonb_to_recordset(deltas) AS delta(
+    agent_name TEXT,
+    category TEXT,
+    window_start DATE,
+    prompt_version TEXT,
+    predictions INTEGER,
+    brier_sum DOUBLE PRECISION,
+    log_loss_sum DOUBLE PRECISION,
+    correct_predictions INTEGER,
+    confidence_sum DOUBLE PRECISION
+  )
+  ON CONFLICT (agent_name, category, window_start, prompt_version) DO UPDATE SET
+    predictions = ledger.predictions + EXCLUDED.predictions,
+    brier_sum = ledger.brier_sum + EXCLUDED.brier_sum,
+    log_loss_sum = ledger.log_loss_sum + EXCLUDED.log_loss_sum,
+    correct_predictions = ledger.correct_predictions + EXCLUDED.correct_predictions,
+    confidence_sum = ledger.confidence_sum + EXCLUDED.confidence_sum,
+    updated_at = EXCLUDED.updated_at;
+$$;
+
+COMMENT ON FUNCTION increment_agent_performance_ledger IS 'Add resolved-market scores to agent_performance_ledger sums in one atomic upsert';
@@ -17,7 +17,9 @@ import {
   BarChart3,
   Lightbulb,
   Shield,
-  Activity
+  Activity,
+  BookOpen,
+  ExternalLink
 } from "lucide-react";
 import Card from "@/components/shared/Card";
 import { formatNumber } from "@/utils/formatting";
@@ -125,6 +127,16 @@ export default function AIInsightsPanel({
     }
   };
 
+  const getTierColor = (tier: string) => {
+    switch (tier) {
+      case 'primary': return 'text-emerald-400 bg-emerald-500/20 border-emerald-500/30';
+      case 'high': return 'text-green-400 bg-green-500/20 border-green-500/30';
+      case 'medium': return 'text-yellow-400 bg-yellow-500/20 border-yellow-500/30';
+      case 'low': return 'text-red-400 bg-red-500/20 border-red-500/30';
+      default: return 'text-gray-400 bg-white/5 border-white/10';
+    }
+  };
+
   const formatPercentage = (value: number) => `${(value * 100).toFixed(1)}%`;
   const formatPrice = (value: number) => `$${value.toFixed(3)}`;
 
@@ -373,6 +385,56 @@ export default function AIInsightsPanel({
         </Card>
       )}
 
+      {/* Evidence: the sources behind the agents' key drivers */}
+      {recommendation.citations.length > 0 && (
+        <Card className="overflow-hidden">
+          <div 
+            className="p-4 cursor-pointer"
+            onClick={() => toggleSection('evidence')}
+          >
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <BookOpen className="w-5 h-5 text-sky-400" />
+                <h3 className="font-semibold text-white">Why: Evidence</h3>
+                <span className="text-sm text-gray-400">
+                  ({recommendation.citations.length})
+                </span>
+              </div>
+              {expandedSections.has('evidence') ? 
+                <ChevronUp className="w-5 h-5 text-gray-400" /> : 
+                <ChevronDown className="w-5 h-5 text-gray-400" />
+              }
+            </div>
+          </div>
+
+          {expandedSections.has('evidence') && (
+            <div className="px-4 pb-4 border-t border-white/10 bg-white/5">
+              <div className="mt-4 space-y-2">
+                {recommendation.citations.map((citation) => (
+                  <div key={citation.url} className="p-3 bg-white/5 rounded-lg border border-white/10">
+                    <p className="text-sm leading-relaxed text-gray-300">{citation.claim}</p>
+                    <div className="flex items-center gap-2 mt-2">
+                      <span className={`px-2 py-0.5 text-xs font-medium rounded border ${getTierColor(citation.tier)}`}>
+                        {citation.tier}
+                      </span>
+                      <a
+                        href={citation.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 text-xs text-indigo-400 hover:text-indigo-300 truncate"
+                      >
+                        <span className="truncate">{citation.source}: {citation.title}</span>
+                        <ExternalLink className="w-3 h-3 flex-shrink-0" />
+                      </a>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </Card>
+      )}
+
       {/* Market Intelligence */}
       <Card className="overflow-hidden">
         <div 
@@ -6,6 +6,16 @@ type RecommendationRow = Database['public']['Tables']['recommendations']['Row'];
 type MarketRow = Database['public']['Tables']['markets']['Row'];
 type AgentSignalRow = Database['public']['Tables']['agent_signals']['Row'];
 
+export interface Citation {
+  claim: string;
+  url: string;
+  title: string;
+  source: string;
+  tier: 'primary' | 'high' | 'medium' | 'low' | 'unknown';
+  credibility: number;
+  publishedAt?: number;
+}
+
 export interface TradeRecommendation {
   id: string;
   marketId: string;
@@ -24,6 +34,7 @@ export interface TradeRecommendation {
     uncertaintyNote?: string;
     riskPerspectives?: string;
   };
+  citations: Citation[]; // Sources behind the agents' key drivers, most credible first
   metadata: {
     consensusProbability: number;
     marketProbability: number;
@@ -42,6 +53,26 @@ interface UseTradeRecommendationOptions {
   cacheTime?: number;
 }
 
+/**
+ * Collect the agents' citations, one per URL, most credible first
+ */
+function collectCitations(agentSignals: AgentSignalRow[], limit = 8): Citation[] {
+  const byUrl = new Map<string, Citation>();
+  agentSignals.forEach(signal => {
+    if (!Array.isArray(signal.citations)) return;
+    (signal.citations as unknown as Citation[]).forEach(citation => {
+      if (!citation?.url) return;
+      const existing = byUrl.get(citation.url);
+      if (!existing || citation.credibility > existing.credibility) {
+        byUrl.set(citation.url, citation);
+      }
+    });
+  });
+  return [...byUrl.values()]
+    .sort((a, b) => b.credibility - a.credibility)
+    .slice(0, limit);
+}
+
 /**
  * Transform database recommendation to frontend format
  */
@@ -151,6 +182,7 @@ function transformRecommendation(
       uncertaintyNote: disagreementIndex > 0.15 ? 
         `High disagreement among agents (${(disagreementIndex * 100).toFixed(1)}%)` : undefined,
     },
+    citations: collectCitations(agentSignals),
     metadata: {
       consensusProbability: rec.fair_probability || 0,
       marketProbability: market.market_probability || 0,
@@ -18,6 +18,7 @@ export type Database = {
         Row: {
           agent_name: string
           agent_type: string
+          citations: Json | null
           confidence: number | null
           created_at: string | null
           direction: string
@@ -31,6 +32,7 @@ export type Database = {
         Insert: {
           agent_name: string
           agent_type: string
+          citations?: Json | null
           confidence?: number | null
           created_at?: string | null
           direction: string
@@ -44,6 +46,7 @@ export type Database = {
         Update: {
           agent_name?: string
           agent_type?: string
+          citations?: Json | null
           confidence?: number | null
           created_at?: string | null
           direction?: string